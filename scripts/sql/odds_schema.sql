@@ -28,9 +28,13 @@ create table if not exists poly_events (
   outcome_b text not null,
   token_a text not null,
   token_b text not null,
+  provider_event_id text,
   created_at timestamptz default now()
 );
 
+-- Added after the first deployments: market → odds event link
+alter table poly_events add column if not exists provider_event_id text;
+
 create table if not exists poly_books (
   id serial primary key,
   token_id text not null,
@@ -42,6 +46,25 @@ create table if not exists poly_books (
   size_shares numeric not null
 );
 
+create index if not exists odds_lines_event_ts_idx on odds_lines (provider_event_id, ts);
+create index if not exists poly_books_token_ts_idx on poly_books (token_id, ts);
+
+-- Added after the first deployments: one odds_lines row per line update.
+-- Polls re-read unchanged lines, which were stored again each time; drop those
+-- copies once before adding the key.
+do $$
+begin
+  if not exists (select 1 from pg_indexes where schemaname = current_schema() and indexname = 'odds_lines_event_book_ts_key') then
+    delete from odds_lines a
+     using odds_lines b
+     where a.provider_event_id = b.provider_event_id
+       and a.bookmaker = b.bookmaker
+       and a.ts = b.ts
+       and a.id > b.id;
+    create unique index odds_lines_event_book_ts_key on odds_lines (provider_event_id, bookmaker, ts);
+  end if;
+end $$;
+
 create table if not exists edge_signals (
   id serial primary key,
   ts timestamptz not null,
@@ -0,0 +1,193 @@
+/**
+ * alerter.test.ts — severity floors, dedupe with suppressed counts, the
+ * per-minute rate limit (CRITICAL exempt) and reconnect storms, delivered to
+ * a local HTTP sink in webhook / Telegram / Discord form, a fake SMTP server
+ * and a JSONL file.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import * as http from "http";
+import * as net from "net";
+import * as os from "os";
+import * as path from "path";
+
+import { Alert, AlertSink, Alerter, watchReconnectStorms } from "../services/Alerter";
+import { ChatWebhookSink, FileSink, SmtpSink, WebhookSink } from "../services/AlertSinks";
+
+const T0 = Date.UTC(2026, 1, 9, 20, 0);
+
+/** Records what each sink receives */
+function memorySink(minSeverity?: Alert["severity"]): AlertSink & { alerts: Alert[] } {
+  const alerts: Alert[] = [];
+  return { name: "memory", minSeverity, alerts, send: async (a) => void alerts.push(a) };
+}
+
+/** Local HTTP endpoint collecting { url, body } per POST */
+async function httpSink(): Promise<{ url: string; requests: Array<{ url: string; body: any }>; close: () => Promise<void> }> {
+  const requests: Array<{ url: string; body: any }> = [];
+  const server = http.createServer((req, res) => {
+    let data = "";
+    req.on("data", (c) => (data += c));
+    req.on("end", () => {
+      requests.push({ url: req.url!, body: JSON.parse(data) });
+      const status = req.url === "/fail" ? 500 : 200;
+      res.writeHead(status, { "Content-Type": "application/json" }).end("{}");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as net.AddressInfo;
+  return { url: `http://127.0.0.1:${port}`, requests, close: () => new Promise((r) => server.close(() => r())) };
+}
+
+const halt = { severity: "CRITICAL" as const, title: "Trading halted", message: "session loss $31.00", source: "ShockFadeLive" };
+
+describe("Alerter", () => {
+  it("drops below the floor, dedupes by key and reports what it suppressed", () => {
+    const everything = memorySink();
+    const errorsOnly = memorySink("ERROR");
+    const alerter = new Alerter([everything, errorsOnly], { minSeverity: "WARNING", dedupeWindowMs: 5 * 60_000 });
+    const stale = { severity: "WARNING" as const, title: "Stale position", message: "p1 open 12m", source: "ShockFadeLive", key: "stale:p1" };
+
+    assert.equal(alerter.raise({ ...stale, severity: "INFO" }, T0), null);
+    assert.ok(alerter.raise(stale, T0));
+    assert.equal(alerter.raise(stale, T0 + 60_000), null);
+    assert.equal(alerter.raise(stale, T0 + 120_000), null);
+
+    // Escalation goes out inside the window; after the window the key is free again
+    const escalated = alerter.raise({ ...stale, severity: "ERROR" }, T0 + 180_000)!;
+    assert.equal(escalated.suppressed, 2);
+    assert.equal(alerter.raise({ ...stale, severity: "ERROR" }, T0 + 240_000), null);
+    assert.equal(alerter.raise({ ...stale, severity: "ERROR" }, T0 + 180_000 + 5 * 60_000)!.suppressed, 1);
+
+    assert.equal(everything.alerts.length, 3);
+    assert.equal(errorsOnly.alerts.length, 2);
+    assert.deepEqual(alerter.getStats(), { sent: 3, deduped: 3, rateLimited: 0, sinkFailures: 0 });
+  });
+
+  it("rate limits per rolling minute but always lets CRITICAL through", () => {
+    const sink = memorySink();
+    const alerter = new Alerter([sink], { maxPerMinute: 2 });
+    const market = (i: number, at: number) =>
+      alerter.raise({ severity: "INFO", title: "New live market", message: `m${i}`, source: "NhlShockRecorder", key: `m${i}` }, at);
+
+    assert.ok(market(1, T0));
+    assert.ok(market(2, T0 + 1000));
+    assert.equal(market(3, T0 + 2000), null);
+    assert.ok(alerter.raise(halt, T0 + 3000));
+    assert.ok(market(3, T0 + 61_000)); // window rolled; it was never marked sent
+    assert.equal(sink.alerts.at(-1)!.suppressed, 1);
+    assert.equal(alerter.getStats().rateLimited, 1);
+  });
+
+  it("raises a reconnect storm only past the threshold, escalating at twice it", () => {
+    const sink = memorySink();
+    const alerter = new Alerter([sink], { dedupeWindowMs: 0 });
+    const ws = new EventEmitter();
+    watchReconnectStorms(ws, alerter, "OrderBookWS", { threshold: 3, windowMs: 10 * 60_000 });
+
+    const reconnect = (n: number, at: number) => ws.emit("reconnected", { reconnectCount: n, gapMs: 2500, reconnectedAt: at });
+    reconnect(1, T0);
+    reconnect(2, T0 + 60_000);
+    reconnect(3, T0 + 20 * 60_000); // first two aged out
+    assert.equal(sink.alerts.length, 0);
+
+    for (let i = 1; i <= 5; i++) reconnect(3 + i, T0 + 20 * 60_000 + i * 1000);
+    assert.deepEqual(sink.alerts.map((a) => a.severity), ["WARNING", "WARNING", "WARNING", "ERROR"]);
+    assert.match(sink.alerts[0].message, /OrderBookWS: 3 reconnects in 10m \(last gap 2\.5s\)/);
+  });
+});
+
+describe("Alert sinks", () => {
+  it("posts the alert, Telegram and Discord messages to a local HTTP sink and survives a failing one", async () => {
+    const server = await httpSink();
+    const file = path.join(os.tmpdir(), `alerts-${Date.now()}-${Math.random().toString(36).slice(2)}.jsonl`);
+    try {
+      const alerter = new Alerter([
+        new WebhookSink(`${server.url}/hook`),
+        new ChatWebhookSink(`${server.url}/botTOKEN/sendMessage`, "telegram", "-100123"),
+        new ChatWebhookSink(`${server.url}/discord`, "discord"),
+        new WebhookSink(`${server.url}/fail`),
+        new FileSink(file),
+      ]);
+      const failures: string[] = [];
+      alerter.on("sinkError", (e: { sink: string }) => failures.push(e.sink));
+
+      alerter.raise(halt, T0);
+      await alerter.flush();
+
+      const byUrl = new Map(server.requests.map((r) => [r.url, r.body]));
+      assert.equal(byUrl.get("/hook").title, "Trading halted");
+      assert.equal(byUrl.get("/hook").severity, "CRITICAL");
+      assert.equal(byUrl.get("/botTOKEN/sendMessage").chat_id, "-100123");
+      assert.match(byUrl.get("/botTOKEN/sendMessage").text, /^🚨 \[CRITICAL\] Trading halted\nsession loss \$31\.00/);
+      assert.match(byUrl.get("/discord").content, /ShockFadeLive @ 2026-02-09T20:00:00\.000Z/);
+      assert.deepEqual(failures, ["webhook"]);
+      assert.equal(alerter.getStats().sinkFailures, 1);
+
+      const lines = fs.readFileSync(file, "utf8").trim().split("\n").map((l) => JSON.parse(l));
+      assert.deepEqual(lines.map((l) => [l.key, l.timestamp]), [["ShockFadeLive:Trading halted", T0]]);
+    } finally {
+      await server.close();
+      fs.rmSync(file, { force: true });
+    }
+  });
+
+  it("speaks SMTP with AUTH LOGIN and dot-stuffs the body", async () => {
+    const received: string[] = [];
+    let data = "";
+    const server = net.createServer((socket) => {
+      let inData = false;
+      let buffer = "";
+      socket.write("220 test ESMTP\r\n");
+      socket.on("data", (chunk) => {
+        buffer += chunk.toString("utf8");
+        let idx: number;
+        while ((idx = buffer.indexOf("\r\n")) >= 0) {
+          const line = buffer.slice(0, idx);
+          buffer = buffer.slice(idx + 2);
+          if (inData) {
+            if (line === ".") {
+              inData = false;
+              socket.write("250 queued\r\n");
+            } else data += line + "\n";
+            continue;
+          }
+          received.push(line);
+          if (line.startsWith("EHLO")) socket.write("250-test\r\n250 AUTH LOGIN\r\n");
+          else if (line === "AUTH LOGIN") socket.write("334 VXNlcm5hbWU6\r\n");
+          else if (received.at(-2) === "AUTH LOGIN") socket.write("334 UGFzc3dvcmQ6\r\n");
+          else if (received.at(-3) === "AUTH LOGIN") socket.write("235 ok\r\n");
+          else if (line === "DATA") {
+            inData = true;
+            socket.write("354 go\r\n");
+          } else if (line === "QUIT") socket.end("221 bye\r\n");
+          else socket.write("250 ok\r\n");
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as net.AddressInfo;
+    try {
+      const sink = new SmtpSink({
+        host: "127.0.0.1", port, secure: false, user: "bot", pass: "secret",
+        from: "bot@example.com", to: ["ops@example.com", "oncall@example.com"],
+      });
+      await sink.send({
+        key: "k", severity: "ERROR", title: "Split failed", message: ".5 shares short", source: "SplitClient",
+        context: {}, timestamp: T0, suppressed: 0,
+      });
+
+      assert.deepEqual(received.slice(1), [
+        "AUTH LOGIN", Buffer.from("bot").toString("base64"), Buffer.from("secret").toString("base64"),
+        "MAIL FROM:<bot@example.com>", "RCPT TO:<ops@example.com>", "RCPT TO:<oncall@example.com>", "DATA", "QUIT",
+      ]);
+      assert.match(data, /^Subject: =\?UTF-8\?B\?.+\?=$/m);
+      assert.match(data, /^\.\.5 shares short$/m);
+    } finally {
+      await new Promise((r) => server.close(r));
+    }
+  });
+});
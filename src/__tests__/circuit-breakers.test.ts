@@ -0,0 +1,150 @@
+/**
+ * circuit-breakers.test.ts — window loss, daily loss and drawdown breakers:
+ * a sport's halt leaves other sports trading, halts lift after their cooldown
+ * (or the next UTC day) with counters started over, and halt state survives
+ * a restart. ShockFadeLive ignores shocks in a halted sport and seeds the
+ * drawdown curve from its restored P&L history.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+
+import { BreakerHalt, CircuitBreakers, GLOBAL_SCOPE, breakerStatePath } from "../services/CircuitBreakers";
+import { dryRunTrader, removeStateFiles, tmpPath } from "./fixtures";
+
+const MIN = 60_000;
+const T0 = Date.UTC(2026, 1, 9, 20, 0);
+
+const tmpFile = () => tmpPath("breakers");
+
+const LIMITS = {
+  windowMs: 30 * MIN,
+  cooldownMs: 60 * MIN,
+  global: { maxWindowLoss: 100, maxDailyLoss: 100, maxDrawdown: 100 },
+  perSport: { maxWindowLoss: 10, maxDailyLoss: 25, maxDrawdown: 0 },
+};
+
+describe("CircuitBreakers", () => {
+  it("halts only the losing sport and lifts it after the cooldown with the window started over", () => {
+    const file = tmpFile();
+    try {
+      const breakers = new CircuitBreakers(file, LIMITS);
+      const events: string[] = [];
+      breakers.on("tripped", (h: BreakerHalt) => events.push(`tripped ${h.scope} ${h.breaker}`));
+      breakers.on("resumed", (h: BreakerHalt) => events.push(`resumed ${h.scope} ${h.breaker}`));
+
+      breakers.recordTrade(-6, "NHL", T0);
+      breakers.recordTrade(3, "NBA", T0 + MIN);
+      assert.deepEqual(breakers.recordTrade(-5, "NHL", T0 + 2 * MIN).map((h) => [h.scope, h.breaker]), [["NHL", "WINDOW_LOSS"]]);
+
+      assert.match(breakers.check("NHL", T0 + 3 * MIN)!, /NHL WINDOW_LOSS: NHL lost \$11\.00 in 30m/);
+      assert.equal(breakers.check("NBA", T0 + 3 * MIN), null);
+
+      // Cooldown over — the losses before the resume no longer count
+      assert.equal(breakers.check("NHL", T0 + 63 * MIN), null);
+      assert.deepEqual(breakers.recordTrade(-2, "NHL", T0 + 64 * MIN), []);
+      assert.equal(breakers.getStatus(T0 + 64 * MIN).find((s) => s.scope === "NHL")!.windowLoss, 2);
+      assert.deepEqual(events, ["tripped NHL WINDOW_LOSS", "resumed NHL WINDOW_LOSS"]);
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+
+  it("holds a daily-loss halt until the next UTC day", () => {
+    const file = tmpFile();
+    try {
+      const breakers = new CircuitBreakers(file, LIMITS);
+      // Spread out so no 30m window loses more than $10
+      for (let i = 0; i < 3; i++) breakers.recordTrade(-9, "NBA", T0 + i * 40 * MIN);
+      const halt = breakers.getHalts()[0];
+      assert.equal(halt.breaker, "DAILY_LOSS");
+      assert.equal(halt.resumeAt, Date.UTC(2026, 1, 10));
+
+      assert.ok(breakers.check("NBA", Date.UTC(2026, 1, 9, 23, 59)));
+      assert.equal(breakers.check("NBA", Date.UTC(2026, 1, 10, 0, 1)), null);
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+
+  it("trips a portfolio drawdown seeded from pnlHistory, restores it after a restart, and waits for a manual resume", () => {
+    const file = tmpFile();
+    try {
+      const config = { ...LIMITS, cooldownMs: 0, global: { maxWindowLoss: 0, maxDailyLoss: 0, maxDrawdown: 25 } };
+      const breakers = new CircuitBreakers(file, config);
+      breakers.seed([10, 5, -20]); // peak 15, now -5 → $20 down
+      assert.equal(breakers.getStatus(T0)[0].drawdown, 20);
+
+      const [halt] = breakers.recordTrade(-6, "NFL", T0);
+      assert.deepEqual([halt.scope, halt.breaker, halt.resumeAt], [GLOBAL_SCOPE, "DRAWDOWN", null]);
+      assert.match(breakers.check("NBA", T0 + 600 * MIN)!, /portfolio drawdown \$26\.00 from peak/);
+
+      const restarted = new CircuitBreakers(file, config);
+      restarted.seed([]); // persisted curve wins
+      assert.ok(restarted.check("NBA", T0 + 700 * MIN));
+      assert.equal(restarted.resume(GLOBAL_SCOPE, "ops", T0 + 700 * MIN), 1);
+      assert.equal(restarted.check("NBA", T0 + 700 * MIN), null);
+      assert.equal(restarted.getStatus(T0 + 700 * MIN)[0].drawdown, 0);
+      assert.equal(breakerStatePath("./data/shock-fade-live.db"), "./data/shock-fade-live-breakers.json");
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+});
+
+describe("ShockFadeLive breakers", () => {
+  it("ignores shocks in a halted sport until it resumes", async () => {
+    const slug = "nba-gsw-lal-2026-02-09";
+    const statePath = tmpFile();
+    const file = tmpFile();
+    const trader = dryRunTrader(statePath);
+    const breakers = new CircuitBreakers(file, LIMITS);
+    trader.setCircuitBreakers(breakers);
+    trader.start();
+    const shock = (timestamp: number) => trader.handleShock({
+      type: "shock", tokenId: "5001", marketSlug: slug, direction: "up", magnitude: 0.08,
+      zScore: 4.5, preShockPrice: 0.5, currentPrice: 0.58, timestamp,
+    });
+    try {
+      await trader.preSplitForMarket(slug);
+      breakers.recordTrade(-12, "NBA");
+      await shock(Date.now());
+      assert.equal(trader.getActiveOrders().length, 0);
+
+      breakers.resume("NBA", "test");
+      await shock(Date.now() + 1);
+      assert.equal(trader.getActiveOrders().length, 3);
+    } finally {
+      trader.stop();
+      removeStateFiles(statePath, file);
+    }
+  });
+
+  it("seeds the portfolio drawdown from restored P&L history whether breakers are set before or after start", () => {
+    const statePath = tmpFile();
+    const files = [tmpFile(), tmpFile()];
+    const config = { ...LIMITS, global: { maxWindowLoss: 0, maxDailyLoss: 0, maxDrawdown: 100 } };
+    const first = dryRunTrader(statePath);
+    first.start();
+    for (const pnl of [10, 5, -20]) (first as any).recordPnl(pnl);
+    first.stop();
+
+    const before = new CircuitBreakers(files[0], config);
+    const after = new CircuitBreakers(files[1], config);
+    const early = dryRunTrader(statePath);
+    early.setCircuitBreakers(before);
+    early.start();
+    const late = dryRunTrader(statePath);
+    late.start();
+    late.setCircuitBreakers(after);
+    try {
+      assert.equal(before.getStatus(T0)[0].drawdown, 20);
+      assert.equal(after.getStatus(T0)[0].drawdown, 20);
+    } finally {
+      early.stop();
+      late.stop();
+      removeStateFiles(statePath, ...files);
+    }
+  });
+});
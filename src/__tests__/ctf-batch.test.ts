@@ -0,0 +1,151 @@
+/**
+ * ctf-batch.test.ts — batched split / merge / redeem: items are packed into
+ * as few Safe transactions as allowed, a reverting batch is bisected until
+ * each market has its own result, and ShockFadeLive pre-splits and merges
+ * several markets through the batch surface.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { SafeTransaction } from "@polymarket/builder-relayer-client";
+
+import {
+  CtfBatchClient,
+  CtfBatchItem,
+  SafeExecutor,
+  buildCtfTransactions,
+} from "../services/CtfBatchClient";
+import { DirectExecutionResult } from "../services/DirectExecutionClient";
+import { ShockFadeLive } from "../strategies/ShockFadeLive";
+import { SportsMarket } from "../services/SportsMarketDiscovery";
+import { MockMatchingEngine } from "../tests/mock-clob/MockMatchingEngine";
+import { MockClobVenue } from "../tests/mock-clob/MockClobVenue";
+import { MockWS, removeStateFiles, sportsMarket, tmpPath } from "./fixtures";
+
+const GOOD_1 = "0x" + "a1".repeat(32);
+const GOOD_2 = "0x" + "a2".repeat(32);
+const GOOD_3 = "0x" + "a3".repeat(32);
+const BAD = "0x" + "bb".repeat(32);
+
+/** Reverts any batch that touches BAD; otherwise fails with `error` if set */
+class FakeSafe implements SafeExecutor {
+  batches: SafeTransaction[][] = [];
+  constructor(private error?: string) {}
+
+  async execute(txns: SafeTransaction[]): Promise<DirectExecutionResult> {
+    this.batches.push(txns);
+    if (this.error) return { success: false, error: this.error };
+    if (txns.some((t) => t.data.includes(BAD.slice(2)))) {
+      return { success: false, error: "GAS_ESTIMATION_FAILED: execution reverted" };
+    }
+    return { success: true, transactionHash: `0xtx${this.batches.length}`, gasCostMatic: "0.03" };
+  }
+}
+
+function merge(conditionId: string, ref: string): Omit<CtfBatchItem, "op"> {
+  return { conditionId, amount: 10, negRisk: false, ref };
+}
+
+function market(slug: string, conditionId: string, tokens: string[]): SportsMarket {
+  return sportsMarket({ marketSlug: slug, conditionId, tokenIds: tokens, outcomes: ["Home", "Away"], question: "Home vs. Away" });
+}
+
+describe("CtfBatchClient", () => {
+  it("packs every market into one transaction and shares the gas", async () => {
+    const safe = new FakeSafe();
+    const result = await new CtfBatchClient(safe).merge([merge(GOOD_1, "g1"), merge(GOOD_2, "g2"), merge(GOOD_3, "g3")]);
+
+    assert.equal(safe.batches.length, 1);
+    assert.equal(result.transactions, 1);
+    assert.ok(result.results.every((r) => r.success && r.transactionHash === "0xtx1" && r.batchSize === 3));
+    assert.equal(result.gasCostMatic, 0.03);
+    assert.ok(Math.abs(result.results[0].gasCostMatic! - 0.01) < 1e-9);
+  });
+
+  it("bisects a reverting batch and pins the failure on the bad market", async () => {
+    const safe = new FakeSafe();
+    const result = await new CtfBatchClient(safe).merge([
+      merge(GOOD_1, "g1"), merge(BAD, "bad"), merge(GOOD_2, "g2"), merge(GOOD_3, "g3"),
+    ]);
+
+    assert.deepEqual(result.results.map((r) => [r.item.ref, r.success]), [["g1", true], ["bad", false], ["g2", true], ["g3", true]]);
+    assert.match(result.results[1].error!, /^GAS_ESTIMATION_FAILED/);
+    assert.equal(result.results[1].batchSize, 1);
+    // [4] ✗ → [g1,bad] ✗ → [g1] ✓ + [bad] ✗, then [g2,g3] ✓
+    assert.equal(result.transactions, 5);
+  });
+
+  it("fails the whole batch on errors that say nothing about its contents", async () => {
+    const safe = new FakeSafe("NONCE_ERROR: nonce too low");
+    const result = await new CtfBatchClient(safe).merge([merge(GOOD_1, "g1"), merge(GOOD_2, "g2")]);
+
+    assert.equal(safe.batches.length, 1);
+    assert.ok(result.results.every((r) => !r.success && r.error!.startsWith("NONCE_ERROR")));
+  });
+
+  it("chunks by the per-transaction limit and rejects invalid items up front", async () => {
+    const safe = new FakeSafe();
+    const result = await new CtfBatchClient(safe, 2).execute([
+      { op: "MERGE", conditionId: GOOD_1, amount: 10, negRisk: false },
+      { op: "MERGE", conditionId: GOOD_2, amount: 0, negRisk: false },
+      { op: "REDEEM", conditionId: GOOD_2, amount: 0, negRisk: false, outcomeIndex: 2 },
+      { op: "REDEEM", conditionId: GOOD_3, amount: 0, negRisk: false },
+      { op: "SPLIT", conditionId: GOOD_3, amount: 5, negRisk: false },
+    ]);
+
+    assert.deepEqual(result.results.map((r) => r.success), [true, false, true, false, true]);
+    assert.match(result.results[1].error!, /^INVALID_ITEM/);
+    assert.match(result.results[3].error!, /outcomeIndex/);
+    assert.equal(safe.batches.length, 2);
+  });
+
+  it("approves USDC once per split target, sized for all its splits", () => {
+    const txns = buildCtfTransactions([
+      { op: "SPLIT", conditionId: GOOD_1, amount: 10, negRisk: false },
+      { op: "SPLIT", conditionId: GOOD_2, amount: 15, negRisk: false },
+      { op: "SPLIT", conditionId: GOOD_3, amount: 5, negRisk: true },
+    ]);
+
+    assert.equal(txns.length, 5);
+    // approve(address,uint256) = 0x095ea7b3; 25 USDC = 25_000_000 = 0x17d7840
+    assert.ok(txns[0].data.startsWith("0x095ea7b3"));
+    assert.ok(txns[0].data.endsWith((25_000_000).toString(16).padStart(64, "0")));
+    assert.ok(txns[1].data.endsWith((5_000_000).toString(16).padStart(64, "0")));
+  });
+});
+
+describe("ShockFadeLive batched split / merge", () => {
+  it("pre-splits several games in one batch and merges them back at shutdown", async () => {
+    const engine = new MockMatchingEngine();
+    engine.registerMarket(GOOD_1, ["5001", "5002"]);
+    engine.registerMarket(GOOD_2, ["5003", "5004"]);
+    const venue = new MockClobVenue(engine, "bot", 1000);
+    let splitBatches = 0;
+    let mergeBatches = 0;
+    const splitBatch = venue.splitBatch.bind(venue);
+    const mergeBatch = venue.mergeBatch.bind(venue);
+    venue.splitBatch = (items) => { splitBatches++; return splitBatch(items); };
+    venue.mergeBatch = (items) => { mergeBatches++; return mergeBatch(items); };
+
+    const statePath = tmpPath("ctf-batch");
+    const trader = new ShockFadeLive(new MockWS() as any, venue as any, venue as any, venue, { dryRun: false, ladderSizes: [5, 10, 15] }, statePath);
+    trader.registerTokenPair(market("nba-a", GOOD_1, ["5001", "5002"]));
+    trader.registerTokenPair(market("nba-b", GOOD_2, ["5003", "5004"]));
+    trader.start();
+    try {
+      const results = await trader.preSplitForMarkets(["nba-a", "nba-b"]);
+      assert.deepEqual([...results], [["nba-a", true], ["nba-b", true]]);
+      assert.equal(splitBatches, 1);
+      assert.equal(trader.getInventory("nba-a")!.sharesA, 35);
+      assert.equal(await venue.getBalance(), 930);
+
+      await trader.mergeRemainingSharesForMarkets(["nba-a", "nba-b"]);
+      assert.equal(mergeBatches, 1);
+      assert.equal(trader.getAllInventory().length, 0);
+      assert.equal(await venue.getBalance(), 1000);
+    } finally {
+      trader.stop();
+      removeStateFiles(statePath);
+    }
+  });
+});
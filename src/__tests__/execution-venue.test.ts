@@ -0,0 +1,135 @@
+/**
+ * execution-venue.test.ts — ExecutionVenue implementations behave alike:
+ * MockClobVenue over the in-process matching engine, and PaperVenue over a
+ * (fake) live market channel.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { EventEmitter } from "events";
+
+import { MockMatchingEngine } from "../tests/mock-clob/MockMatchingEngine";
+import { MockClobVenue } from "../tests/mock-clob/MockClobVenue";
+import { PaperVenue } from "../services/PaperVenue";
+import { OrderBookData } from "../services/OrderBookWS";
+import { OrderFillEvent } from "../services/UserChannelWS";
+
+const COND = "0xcond";
+const TOKEN_A = "1001";
+const TOKEN_B = "1002";
+
+/**
+ * Market-channel stand-in: holds one book per token, emits priceUpdate.
+ * Levels are given best-first and stored worst-first, as the CLOB sends them.
+ */
+class FakeBookWS extends EventEmitter {
+  private books: Map<string, OrderBookData> = new Map();
+
+  setBook(tokenId: string, bids: [number, number][], asks: [number, number][]): void {
+    const toLevels = (levels: [number, number][]) => [...levels].reverse().map(([p, s]) => ({ price: String(p), size: String(s) }));
+    this.books.set(tokenId, { bids: toLevels(bids), asks: toLevels(asks), timestamp: Date.now() } as OrderBookData);
+    this.emit("priceUpdate", { tokenId, bid: bids[0]?.[0] ?? 0, ask: asks[0]?.[0] ?? 1, timestamp: Date.now() });
+  }
+
+  getOrderBook(tokenId: string): OrderBookData | null {
+    return this.books.get(tokenId) ?? null;
+  }
+}
+
+describe("MockClobVenue", () => {
+  function setup() {
+    const engine = new MockMatchingEngine();
+    engine.registerMarket(COND, [TOKEN_A, TOKEN_B]);
+    engine.setBook(TOKEN_A, [{ price: 0.48, size: 100 }], [{ price: 0.52, size: 100 }]);
+    return { engine, venue: new MockClobVenue(engine, "me", 1000) };
+  }
+
+  it("rests a limit sell from split inventory and emits its fill", async () => {
+    const { engine, venue } = setup();
+    await venue.split(COND, 50);
+    assert.equal(await venue.getBalance(), 950);
+
+    const placed = await venue.placeLimit({ tokenId: TOKEN_A, side: "SELL", shares: 20, price: 0.55 });
+    assert.equal(placed.success, true);
+    assert.equal(placed.filledShares, 0);
+    assert.deepEqual((await venue.getOpenOrders(COND)).map((o) => o.orderId), [placed.orderId]);
+
+    const fills: OrderFillEvent[] = [];
+    venue.on("orderFill", (f) => fills.push(f));
+    engine.trade(TOKEN_A, "BUY", 0.55, 110); // 100 at 0.52, then 10 of ours
+
+    assert.equal(fills.length, 1);
+    assert.equal(fills[0].orderId, placed.orderId);
+    assert.equal(fills[0].size, 10);
+    assert.equal((await venue.getOrder(placed.orderId!))!.sizeMatched, 10);
+    assert.equal(await venue.getTokenBalance(TOKEN_A), 40);
+    assert.ok(Math.abs((await venue.getBalance()) - 955.5) < 1e-9);
+  });
+
+  it("refuses to sell shares already committed to resting orders", async () => {
+    const { venue } = setup();
+    await venue.split(COND, 10);
+    assert.equal((await venue.placeLimit({ tokenId: TOKEN_A, side: "SELL", shares: 8, price: 0.6 })).success, true);
+    const second = await venue.placeIoc({ tokenId: TOKEN_A, side: "SELL", shares: 5, price: 0.4 });
+    assert.equal(second.success, false);
+  });
+});
+
+describe("PaperVenue", () => {
+  it("fills IOC sells against the live bids and hides what it took", async () => {
+    const ws = new FakeBookWS();
+    const venue = new PaperVenue(ws as any, { startingUsdc: 1000 });
+    venue.registerMarket(COND, TOKEN_A, TOKEN_B);
+    ws.setBook(TOKEN_A, [[0.48, 30], [0.46, 100]], [[0.52, 100]]);
+    await venue.split(COND, 100);
+
+    const first = await venue.placeIoc({ tokenId: TOKEN_A, side: "SELL", shares: 40, price: 0.45 });
+    assert.equal(first.filledShares, 40);
+    assert.ok(Math.abs(first.filledPrice! - (30 * 0.48 + 10 * 0.46) / 40) < 1e-9);
+
+    // Same snapshot: the 0.48 level is gone until the next book arrives
+    const second = await venue.placeIoc({ tokenId: TOKEN_A, side: "SELL", shares: 10, price: 0.47 });
+    assert.equal(second.success, false);
+
+    ws.setBook(TOKEN_A, [[0.48, 30]], [[0.52, 100]]);
+    const third = await venue.placeIoc({ tokenId: TOKEN_A, side: "SELL", shares: 10, price: 0.47 });
+    assert.equal(third.filledShares, 10);
+    assert.equal(await venue.getTokenBalance(TOKEN_A), 50);
+  });
+
+  it("fills a resting sell when the live bid crosses it", async () => {
+    const ws = new FakeBookWS();
+    const venue = new PaperVenue(ws as any, { startingUsdc: 1000 });
+    venue.registerMarket(COND, TOKEN_A, TOKEN_B);
+    ws.setBook(TOKEN_A, [[0.48, 100]], [[0.52, 100]]);
+    await venue.split(COND, 20);
+
+    const placed = await venue.placeLimit({ tokenId: TOKEN_A, side: "SELL", shares: 20, price: 0.55 });
+    assert.equal(placed.filledShares, 0);
+
+    const fill = new Promise<OrderFillEvent>((resolve) => venue.once("orderFill", resolve));
+    ws.setBook(TOKEN_A, [[0.56, 100]], [[0.58, 100]]);
+    const f = await fill;
+    assert.equal(f.orderId, placed.orderId);
+    assert.equal(f.price, 0.55);
+    assert.equal((await venue.getOrder(placed.orderId!))!.status, "MATCHED");
+  });
+
+  it("fills resting sells from last_trade_price prints, not price_changes sizes", async () => {
+    const ws = new FakeBookWS();
+    const venue = new PaperVenue(ws as any, { startingUsdc: 1000 });
+    venue.registerMarket(COND, TOKEN_A, TOKEN_B);
+    ws.setBook(TOKEN_A, [[0.48, 100]], [[0.52, 100]]);
+    await venue.split(COND, 20);
+    const placed = await venue.placeLimit({ tokenId: TOKEN_A, side: "SELL", shares: 20, price: 0.55 });
+
+    const print = (event: string, price: number) =>
+      ws.emit(event, { tokenId: TOKEN_A, tradePrice: price, tradeSize: 500, side: "buy", bestBid: 0.48, bestAsk: 0.52, timestamp: Date.now() });
+    print("trade", 0.56);
+    assert.equal(venue.getFills().length, 0);
+
+    print("lastTrade", 0.56);
+    assert.equal(venue.getFills().length, 1);
+    assert.equal(venue.getFills()[0].orderId, placed.orderId);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * fill-model.test.ts — simulated resting-SELL fills: QueueFillModel queue
+ * position (joining behind displayed size, cancels ahead, unseen depth),
+ * partial fills and FIFO among our own orders; TouchFillModel trade-side and
+ * bid-cross options; and cancelled orders never filling.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+
+import { BookLevel, QueueFillModel, SimulatedFill, TouchFillModel, createFillModel } from "../backtest/FillModel";
+
+const TOKEN = "4242";
+const OTHER = "4343";
+
+const order = (id: string, price: number, shares: number) => ({ id, tokenId: TOKEN, price, shares });
+const levels = (...pairs: [number, number][]): BookLevel[] => pairs.map(([price, size]) => ({ price, size }));
+const summary = (fills: SimulatedFill[]) => fills.map((f) => [f.orderId, f.shares, f.price]);
+
+describe("QueueFillModel", () => {
+  it("joins behind the displayed size and fills partially once the queue ahead has traded", () => {
+    const model = new QueueFillModel();
+    model.addOrder(order("a", 0.55, 30), levels([0.55, 100], [0.56, 50]));
+
+    assert.deepEqual(model.onTrade(TOKEN, 0.55, 80, "buy"), []);
+    assert.deepEqual(summary(model.onTrade(TOKEN, 0.55, 40, "buy")), [["a", 20, 0.55]]);
+    assert.equal(model.getFilledShares("a"), 20);
+
+    // Taker sells, prints below us and other tokens never fill a resting sell
+    assert.deepEqual(model.onTrade(TOKEN, 0.55, 500, "sell"), []);
+    assert.deepEqual(model.onTrade(TOKEN, 0.54, 500, "buy"), []);
+    assert.deepEqual(model.onTrade(OTHER, 0.6, 500, "buy"), []);
+
+    // A print above our price swept our level — the rest fills
+    assert.deepEqual(summary(model.onTrade(TOKEN, 0.56, 1, "buy")), [["a", 10, 0.55]]);
+    assert.equal(model.getFilledShares("a"), 30);
+    assert.deepEqual(model.onTrade(TOKEN, 0.6, 500, "buy"), []);
+  });
+
+  it("fills our own orders at one price first come, first served", () => {
+    const model = new QueueFillModel();
+    model.addOrder(order("first", 0.57, 10), []);
+    model.addOrder(order("second", 0.57, 10), []);
+    model.addOrder(order("deeper", 0.58, 10), []);
+
+    assert.deepEqual(summary(model.onTrade(TOKEN, 0.57, 15, "buy")), [["first", 10, 0.57], ["second", 5, 0.57]]);
+    assert.deepEqual(summary(model.onTrade(TOKEN, 0.58, 8, "buy")), [["second", 5, 0.57], ["deeper", 8, 0.58]]);
+  });
+
+  it("moves up the queue on cancels ahead and fills in full when the bid crosses", () => {
+    const model = new QueueFillModel();
+    model.addOrder(order("a", 0.55, 30), levels([0.55, 100]));
+
+    // Displayed size at our level shrank from 100 to 40: 60 cancelled ahead of us
+    assert.deepEqual(model.onBook(TOKEN, levels([0.5, 200]), levels([0.55, 40])), []);
+    assert.deepEqual(summary(model.onTrade(TOKEN, 0.55, 50, "buy")), [["a", 10, 0.55]]);
+
+    // Growth behind us does not push us back
+    model.onBook(TOKEN, levels([0.5, 200]), levels([0.55, 400]));
+    assert.deepEqual(summary(model.onTrade(TOKEN, 0.55, 5, "buy")), [["a", 5, 0.55]]);
+
+    assert.deepEqual(summary(model.onBook(TOKEN, levels([0.55, 10]), levels([0.57, 100]))), [["a", 15, 0.55]]);
+    assert.equal(model.getFilledShares("a"), 30);
+  });
+
+  it("treats an emptied visible level as an empty queue", () => {
+    const model = new QueueFillModel();
+    model.addOrder(order("a", 0.55, 10), levels([0.54, 20], [0.55, 100], [0.56, 50]));
+    model.onBook(TOKEN, levels([0.5, 200]), levels([0.54, 20], [0.56, 50]));
+    assert.deepEqual(summary(model.onTrade(TOKEN, 0.55, 4, "buy")), [["a", 4, 0.55]]);
+  });
+
+  it("assumes a queue beyond the visible depth and none inside a visible gap", () => {
+    const asks = levels([0.5, 10], [0.52, 30]);
+
+    const mean = new QueueFillModel();
+    mean.addOrder(order("deep", 0.6, 10), asks);
+    mean.addOrder(order("gap", 0.51, 5), asks);
+    assert.deepEqual(summary(mean.onTrade(TOKEN, 0.51, 5, "buy")), [["gap", 5, 0.51]]);
+    assert.deepEqual(mean.onTrade(TOKEN, 0.6, 20, "buy"), []); // mean visible size: 20 ahead
+    assert.deepEqual(summary(mean.onTrade(TOKEN, 0.6, 4, "buy")), [["deep", 4, 0.6]]);
+
+    const fixed = new QueueFillModel({ unseenLevelQueue: 5 });
+    fixed.addOrder(order("deep", 0.6, 10), asks);
+    assert.deepEqual(summary(fixed.onTrade(TOKEN, 0.6, 20, "buy")), [["deep", 10, 0.6]]);
+  });
+
+  it("never fills a cancelled order and keeps its partial fill", () => {
+    const model = new QueueFillModel();
+    model.addOrder(order("a", 0.55, 30), []);
+    model.onTrade(TOKEN, 0.55, 12, "buy");
+    model.removeOrder("a");
+
+    assert.deepEqual(model.onTrade(TOKEN, 0.6, 500, "buy"), []);
+    assert.deepEqual(model.onBook(TOKEN, levels([0.6, 100]), []), []);
+    assert.equal(model.getFilledShares("a"), 12);
+    assert.equal(model.getFilledShares("unknown"), 0);
+  });
+});
+
+describe("TouchFillModel", () => {
+  it("fills in full on any print at or above the price by default, not on book moves", () => {
+    const model = new TouchFillModel();
+    model.addOrder(order("l1", 0.55, 5), levels([0.55, 1000]));
+    model.addOrder(order("l2", 0.56, 10), levels([0.56, 1000]));
+
+    assert.deepEqual(model.onBook(TOKEN, levels([0.6, 100]), []), []);
+    assert.deepEqual(model.onTrade(TOKEN, 0.54, 1, "buy"), []);
+    assert.deepEqual(summary(model.onTrade(TOKEN, 0.555, 1, "sell")), [["l1", 5, 0.55]]);
+    assert.deepEqual(summary(model.onTrade(TOKEN, 0.56, 1, "buy")), [["l2", 10, 0.56]]);
+  });
+
+  it("honours the taker-side and bid-cross options", () => {
+    const buysOnly = new TouchFillModel({ trade: "buy", bidCross: true });
+    buysOnly.addOrder(order("a", 0.55, 5), []);
+    buysOnly.addOrder(order("b", 0.57, 5), []);
+    assert.deepEqual(buysOnly.onTrade(TOKEN, 0.6, 1, "sell"), []);
+    assert.deepEqual(summary(buysOnly.onBook(TOKEN, levels([0.55, 1]), [])), [["a", 5, 0.55]]);
+    assert.deepEqual(summary(buysOnly.onTrade(TOKEN, 0.6, 1, "buy")), [["b", 5, 0.57]]);
+
+    const off = new TouchFillModel({ trade: "off" });
+    off.addOrder(order("c", 0.55, 5), []);
+    assert.deepEqual(off.onTrade(TOKEN, 0.6, 1, "buy"), []);
+  });
+
+  it("never fills a cancelled order", () => {
+    const model = new TouchFillModel({ bidCross: true });
+    model.addOrder(order("a", 0.55, 5), []);
+    model.removeOrder("a");
+    assert.deepEqual(model.onTrade(TOKEN, 0.6, 1, "buy"), []);
+    assert.deepEqual(model.onBook(TOKEN, levels([0.6, 1]), []), []);
+    assert.equal(model.getFilledShares("a"), 0);
+  });
+});
+
+describe("createFillModel", () => {
+  it("builds the queue model unless touch is named", () => {
+    assert.equal(createFillModel("touch").name, "touch");
+    assert.equal(createFillModel("queue").name, "queue");
+    assert.equal(createFillModel("anything").name, "queue");
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * fixtures.ts — shared test fixtures: the better-sqlite3 availability check,
+ * temp paths and their cleanup, a SportsMarket factory, and the book feed /
+ * split client / venue mocks a dry-run ShockFadeLive needs.
+ *
+ * Not a test file itself — npm test only picks up *.test.ts.
+ */
+
+import Database from "better-sqlite3";
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { ShockFadeLive, ShockFadeLiveConfig, orderJournalPath } from "../strategies/ShockFadeLive";
+import { SportsMarket, MarketState } from "../services/SportsMarketDiscovery";
+import { VenueOrderRequest } from "../services/ExecutionVenue";
+
+/** Skip reason when the better-sqlite3 native binding isn't built here, else false */
+export function sqliteUnavailable(): string | false {
+  try {
+    new Database(":memory:").close();
+    return false;
+  } catch (err: any) {
+    return `better-sqlite3 binding unavailable: ${err.message.split("\n")[0]}`;
+  }
+}
+
+/** Unique file path in the OS temp dir */
+export function tmpPath(prefix: string, ext: string = ".json"): string {
+  return path.join(os.tmpdir(), `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2)}${ext}`);
+}
+
+/** Remove a trader's state file, its order journal and any extra files */
+export function removeStateFiles(statePath: string, ...extra: string[]): void {
+  for (const f of [statePath, orderJournalPath(statePath), ...extra]) fs.rmSync(f, { force: true });
+}
+
+/** Remove a SQLite file with its WAL sidecars */
+export function removeDb(file: string): void {
+  for (const f of [file, `${file}-wal`, `${file}-shm`]) fs.rmSync(f, { force: true });
+}
+
+/** Order book feed — prices only move through simulatePriceUpdate */
+export class MockWS extends EventEmitter {
+  constructor(private bestBid: number | null = null) {
+    super();
+  }
+  simulatePriceUpdate(tokenId: string, bid: number, ask: number) {
+    this.emit("priceUpdate", { tokenId, bid, ask, timestamp: Date.now() });
+  }
+  connect() { return Promise.resolve(); }
+  disconnect() {}
+  addTokens(_ids: string[]) {}
+  getBestBid(_tokenId: string) { return this.bestBid; }
+}
+
+export class MockSplitClient {
+  async split(_c: string, _a: number, _n: boolean) { return { success: true, transactionHash: "0x" }; }
+  async ensureCTFApprovals() { return { success: true, alreadyApproved: true }; }
+}
+
+/** Venue that rests every limit order and fills every IOC in full */
+export class MockVenue extends EventEmitter {
+  readonly name = "mock";
+  async placeLimit(_req: VenueOrderRequest) {
+    return { success: true, orderId: `o_${Math.random().toString(36).slice(2, 8)}`, filledShares: 0 };
+  }
+  async placeIoc(req: VenueOrderRequest) {
+    return { success: true, filledShares: req.shares, filledPrice: req.price };
+  }
+  async cancel(_id: string) { return { success: true }; }
+  async getOpenOrders(_c: string) { return []; }
+  async getOrder(_id: string) { return null; }
+  async getTokenBalance(_t: string) { return 200; }
+  async getBalance() { return 5000; }
+}
+
+/** Warriors (5001) vs Lakers (5002), NBA, active — override what the test needs */
+export function sportsMarket(overrides: Partial<SportsMarket> = {}): SportsMarket {
+  return {
+    marketSlug: "nba-gsw-lal-2026-02-09",
+    conditionId: "0x" + "c1".repeat(32),
+    tokenIds: ["5001", "5002"],
+    outcomes: ["Warriors", "Lakers"],
+    outcomePrices: [0.5, 0.5],
+    negRisk: false,
+    sport: "NBA",
+    state: MarketState.ACTIVE,
+    volume: 50000,
+    question: "Warriors vs. Lakers",
+    ...overrides,
+  } as SportsMarket;
+}
+
+/** Dry-run trader (5/10/15 ladder) on the mocks above with `market` registered; not started */
+export function dryRunTrader(
+  statePath: string,
+  opts: { config?: Partial<ShockFadeLiveConfig>; market?: SportsMarket; ws?: MockWS } = {},
+): ShockFadeLive {
+  const trader = new ShockFadeLive(
+    (opts.ws ?? new MockWS()) as any,
+    new MockSplitClient() as any,
+    {} as any,
+    new MockVenue(),
+    { dryRun: true, ladderSizes: [5, 10, 15], ...opts.config },
+    statePath,
+  );
+  trader.registerTokenPair(opts.market ?? sportsMarket());
+  return trader;
+}
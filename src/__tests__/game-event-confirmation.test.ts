@@ -0,0 +1,305 @@
+/**
+ * game-event-confirmation.test.ts — GameEventConfirmation against recorded
+ * league feed responses.
+ *
+ * The fixture feed replays a recorded NBA play-by-play sequence (LAL @ GSW)
+ * one frame per poll, with failed fetches recorded as errors, and the service
+ * runs on an injected clock so burst polling and the PBP backoff schedule are
+ * deterministic. No timers are started; tests drive the poll methods directly.
+ */
+
+import { describe, it, beforeEach } from "node:test";
+import * as assert from "node:assert/strict";
+
+import {
+  ClassificationInfo,
+  GameEventBatch,
+  GameEventConfirmation,
+  ScoreUpdate,
+  fuzzyMatchTeams,
+  resolveTokenTricode,
+} from "../services/GameEventConfirmation";
+import {
+  GameState,
+  LeagueFeed,
+  NormalizedGameEvent,
+  buildGameState,
+} from "../collectors/league-apis/GameState";
+import { SportsMarket, MarketState } from "../services/SportsMarketDiscovery";
+
+// ============================================================================
+// RECORDED FIXTURES
+// ============================================================================
+
+const T0 = Date.parse("2026-02-08T05:30:00Z");
+const SLUG = "nba-lal-gsw-2026-02-07";
+const GAME_ID = "0022500777";
+
+function goal(team: string, clock: string, timestamp: number, period = 4): NormalizedGameEvent {
+  return { type: "goal", team, period, clock, description: `${team} 2pt shot`, timestamp };
+}
+
+function other(clock: string, timestamp: number): NormalizedGameEvent {
+  return { type: "other", team: "GSW", period: 4, clock, description: "Rebound", timestamp };
+}
+
+// Play-by-play is cumulative: every frame repeats what came before
+const HISTORY = [goal("GSW", "PT11M40.00S", T0 - 1_800_000, 1), goal("LAL", "PT10M02.00S", T0 - 1_700_000, 1)];
+const FIRST_LAL_BUCKET = [...HISTORY, other("PT02M40.00S", T0), goal("LAL", "PT02M31.00S", T0 + 1_000)];
+const SECOND_LAL_BUCKET = [...FIRST_LAL_BUCKET, goal("LAL", "PT02M05.00S", T0 + 3_000)];
+
+const GSW_LAL = buildGameState(
+  {
+    sport: "NBA",
+    gameId: GAME_ID,
+    status: "live",
+    home: { name: "Golden State Warriors", abbrev: "GSW", score: 101 },
+    away: { name: "Los Angeles Lakers", abbrev: "LAL", score: 99 },
+    period: 4,
+    clock: "PT02M31.00S",
+  },
+  T0,
+);
+
+const BOS_MIA = buildGameState(
+  {
+    sport: "NBA",
+    gameId: "0022500778",
+    status: "pre",
+    home: { name: "Miami Heat", abbrev: "MIA", score: 0 },
+    away: { name: "Boston Celtics", abbrev: "BOS", score: 0 },
+    period: 0,
+  },
+  T0,
+);
+
+type Frame = NormalizedGameEvent[] | Error;
+
+class FixtureFeed implements LeagueFeed {
+  readonly sport = "NBA" as const;
+  eventCalls = 0;
+  private frames: Frame[];
+
+  constructor(frames: Frame[], private games: GameState[] = [GSW_LAL, BOS_MIA]) {
+    this.frames = [...frames];
+  }
+
+  async getGames(): Promise<GameState[]> {
+    return this.games;
+  }
+
+  async getGameState(gameId: string): Promise<GameState | null> {
+    return this.games.find((g) => g.gameId === gameId) ?? null;
+  }
+
+  /** Next recorded frame; the last one repeats */
+  async getEvents(): Promise<NormalizedGameEvent[]> {
+    this.eventCalls++;
+    const frame = this.frames.length > 1 ? this.frames.shift()! : this.frames[0];
+    if (frame instanceof Error) throw frame;
+    return frame;
+  }
+}
+
+function http403(): Error {
+  return Object.assign(new Error("Request failed with status code 403"), { status: 403 });
+}
+
+function createMarket(slug: string, outcomes: [string, string], tokens: [string, string]): SportsMarket {
+  return {
+    marketSlug: slug,
+    eventSlug: slug,
+    sport: "NBA",
+    question: `${outcomes[0]} vs. ${outcomes[1]}`,
+    outcomes,
+    tokenIds: tokens,
+    outcomePrices: [0.5, 0.5],
+    gameStartTime: new Date("2026-02-08T03:00:00Z"),
+    discoveredAt: new Date(),
+    volume: 50000,
+    liquidity: 10000,
+    state: MarketState.ACTIVE,
+    stateChangedAt: new Date(),
+    sportConfig: null,
+    negRisk: false,
+  };
+}
+
+const LAL_GSW_MARKET = createMarket(SLUG, ["Lakers", "Warriors"], ["tok_lal", "tok_gsw"]);
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe("GameEventConfirmation", () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = T0;
+  });
+
+  async function createService(frames: Frame[]) {
+    const feed = new FixtureFeed(frames);
+    const service = new GameEventConfirmation({ NBA: feed }, {}, clock);
+    const batches: GameEventBatch[] = [];
+    const classifications: ClassificationInfo[] = [];
+    service.on("gameEvents", (b: GameEventBatch) => batches.push(b));
+    service.on("classification", (c: ClassificationInfo) => classifications.push(c));
+    await service.buildMappings([LAL_GSW_MARKET, createMarket("nba-nyk-chi-2026-02-07", ["Knicks", "Bulls"], ["a", "b"])]);
+    return { feed, service, batches, classifications };
+  }
+
+  it("maps markets to games by team name and keeps their GameState", async () => {
+    const { service } = await createService([HISTORY]);
+
+    assert.deepEqual(service.getMapping(SLUG), { marketSlug: SLUG, gameId: GAME_ID, sport: "NBA" });
+    assert.equal(service.getMapping("nba-nyk-chi-2026-02-07"), undefined);
+    assert.equal(service.getGameState(SLUG)?.periodLabel, "Q4");
+    assert.equal(service.isLateGame(SLUG), true);
+    assert.equal(service.getStats().mappings, 1);
+  });
+
+  it("loads history on the first idle poll without classifying", async () => {
+    const { service, batches, classifications } = await createService([HISTORY]);
+
+    await service.pollAll();
+    await service.pollAll();
+
+    assert.equal(batches.length, 1);
+    assert.equal(batches[0].initial, true);
+    assert.equal(batches[0].events.length, 2);
+    assert.equal(classifications.length, 0);
+    assert.equal(service.getClassificationInfo(SLUG).recentEvents, 0); // history is outside the window
+  });
+
+  it("classifies as soon as a burst poll finds a new scoring event", async () => {
+    const { service, batches, classifications } = await createService([HISTORY, FIRST_LAL_BUCKET]);
+    await service.pollAll();
+
+    service.setMarketActive(SLUG);
+    now = T0 + 2_000;
+    await service.pollActiveMarkets();
+
+    assert.equal(classifications.length, 1);
+    assert.deepEqual(classifications[0], {
+      marketSlug: SLUG,
+      recentEvents: 1,
+      isStructural: false,
+      sameTeamRun: 1,
+      lastScoringTeam: "LAL",
+      lastScoringTeamRun: "LAL",
+    });
+    // "other" plays are dropped, repeats are deduplicated
+    assert.deepEqual(batches[1].events.map((e) => e.clock), ["PT02M31.00S"]);
+    assert.equal(batches[1].isBurst, true);
+    assert.equal(batches[1].initial, false);
+
+    await service.pollActiveMarkets();
+    assert.equal(classifications.length, 1);
+    assert.equal(service.getStats().burstPolls, 2);
+  });
+
+  it("reports same-team scoring runs", async () => {
+    const { service, classifications } = await createService([HISTORY, FIRST_LAL_BUCKET, SECOND_LAL_BUCKET]);
+    await service.pollAll();
+    service.setMarketActive(SLUG);
+
+    now = T0 + 2_000;
+    await service.pollActiveMarkets();
+    now = T0 + 4_000;
+    await service.pollActiveMarkets();
+
+    assert.equal(classifications.length, 2);
+    assert.equal(classifications[1].recentEvents, 2);
+    assert.equal(classifications[1].sameTeamRun, 2);
+    assert.equal(classifications[1].lastScoringTeamRun, "LAL");
+
+    // Events age out of the 2-minute window
+    now = T0 + 200_000;
+    assert.equal(service.getClassificationInfo(SLUG).recentEvents, 0);
+  });
+
+  it("does not classify new events found by idle polling", async () => {
+    const { service, classifications } = await createService([HISTORY, FIRST_LAL_BUCKET]);
+    await service.pollAll();
+    await service.pollAll();
+
+    assert.equal(classifications.length, 0);
+    assert.equal(service.getClassificationInfo(SLUG).recentEvents, 1);
+  });
+
+  it("backs off idle polling after PBP failures, doubling up to the cap", async () => {
+    const { feed, service } = await createService([http403()]);
+
+    await service.pollAll();
+    assert.equal(feed.eventCalls, 1);
+    assert.equal(service.getBackoff(GAME_ID)?.currentBackoffMs, 30_000);
+
+    // Still inside the window → skipped
+    now = T0 + 29_000;
+    await service.pollAll();
+    assert.equal(feed.eventCalls, 1);
+
+    const expected = [60_000, 120_000, 240_000, 300_000, 300_000];
+    for (const backoffMs of expected) {
+      now = service.getBackoff(GAME_ID)!.nextRetryAt;
+      await service.pollAll();
+      assert.equal(service.getBackoff(GAME_ID)?.currentBackoffMs, backoffMs);
+    }
+    assert.equal(service.getBackoff(GAME_ID)?.failCount, 6);
+    assert.equal(service.getStats().backoffGames, 1);
+  });
+
+  it("lets burst polls through a backoff and clears it on success", async () => {
+    const { feed, service, classifications } = await createService([http403(), FIRST_LAL_BUCKET]);
+    const errors: number[] = [];
+    service.on("pollError", (e) => errors.push(e.backoffMs));
+
+    await service.pollAll();
+    assert.deepEqual(errors, [30_000]);
+
+    service.setMarketActive(SLUG);
+    now = T0 + 2_000;
+    await service.pollActiveMarkets();
+
+    assert.equal(feed.eventCalls, 2);
+    assert.equal(service.getBackoff(GAME_ID), undefined);
+    assert.equal(classifications.length, 1); // first success is still a burst
+
+    // Idle polling skips active markets
+    service.setMarketActive(SLUG);
+    await service.pollAll();
+    assert.equal(feed.eventCalls, 2);
+
+    service.setMarketIdle(SLUG);
+    await service.pollAll();
+    assert.equal(feed.eventCalls, 3);
+  });
+
+  it("emits score updates for mapped markets", async () => {
+    const { service } = await createService([HISTORY]);
+    const updates: ScoreUpdate[] = [];
+    service.on("scoreUpdate", (u: ScoreUpdate) => updates.push(u));
+
+    await service.pollScores();
+
+    assert.equal(updates.length, 1);
+    assert.equal(updates[0].marketSlug, SLUG);
+    assert.deepEqual([updates[0].state.away.score, updates[0].state.home.score], [99, 101]);
+  });
+});
+
+describe("team matching", () => {
+  it("matches slugs to league team names", () => {
+    assert.ok(fuzzyMatchTeams(SLUG, "Golden State Warriors", "Los Angeles Lakers"));
+    assert.ok(!fuzzyMatchTeams(SLUG, "Miami Heat", "Boston Celtics"));
+    assert.ok(fuzzyMatchTeams("cbb-pennst-mich-2026-02-07", "Michigan Wolverines", "Penn State Nittany Lions"));
+  });
+
+  it("resolves the tricode behind a token", () => {
+    assert.equal(resolveTokenTricode(LAL_GSW_MARKET, "tok_gsw"), "GSW");
+    assert.equal(resolveTokenTricode(LAL_GSW_MARKET, "tok_lal"), "LAL");
+    assert.equal(resolveTokenTricode(LAL_GSW_MARKET, "unknown"), "");
+  });
+});
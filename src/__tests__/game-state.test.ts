@@ -0,0 +1,578 @@
+/**
+ * game-state.test.ts — normalized GameState: parseClock on every league
+ * clock format, buildGameState's derived clock fields (overtime, shootout,
+ * intermission, empty clocks, baseball), and each LeagueFeed adapter mapping
+ * a fixture payload of its upstream API.
+ *
+ * The adapters call the global fetch; it is swapped for a router that serves
+ * the fixtures by URL, so no network is needed.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+
+import {
+  GameState,
+  GameStateInput,
+  LeagueFeed,
+  NormalizedGameEvent,
+  buildGameState,
+  formatClock,
+  parseClock,
+} from "../collectors/league-apis/GameState";
+import { NhlLiveApi } from "../collectors/league-apis/NhlLiveApi";
+import { NbaLiveApi } from "../collectors/league-apis/NbaLiveApi";
+import { MlbLiveApi } from "../collectors/league-apis/MlbLiveApi";
+import { NflLiveApi } from "../collectors/league-apis/NflLiveApi";
+import { EspnFallbackApi, EspnLeagueFeed } from "../collectors/league-apis/EspnFallbackApi";
+
+const NOW = Date.UTC(2026, 1, 10, 1, 0);
+const HOME = { name: "Boston Bruins", abbrev: "BOS", score: 3 };
+const AWAY = { name: "Toronto Maple Leafs", abbrev: "TOR", score: 2 };
+
+// ============================================================================
+// CLOCK PARSING
+// ============================================================================
+
+describe("parseClock", () => {
+  const cases: Array<[string | null | undefined, number | null, string]> = [
+    ["PT05M23.00S", 323, "NBA ISO duration"],
+    ["PT00M45.20S", 45.2, "NBA last minute, tenths"],
+    ["PT12.5S", 12.5, "ISO seconds only"],
+    ["PT00M00.00S", 0, "NBA end of quarter / halftime"],
+    ["PT", null, "ISO with no fields"],
+    ["12:00", 720, "NHL / ESPN m:ss"],
+    ["05:00", 300, "NHL overtime start (3v3, 5 minutes)"],
+    ["0:00", 0, "intermission"],
+    ["20:00", 1200, "full period"],
+    ["45.2", 45.2, "ESPN seconds"],
+    ["", null, "empty clock (shootout, pre-game)"],
+    [null, null, "missing"],
+    [undefined, null, "missing"],
+    ["Halftime", null, "status text"],
+    ["END", null, "status text"],
+    ["1:2:3", null, "malformed"],
+  ];
+
+  for (const [clock, expected, label] of cases) {
+    it(`${JSON.stringify(clock)} → ${expected} (${label})`, () => {
+      assert.equal(parseClock(clock), expected);
+    });
+  }
+
+  it("formats seconds back to m:ss", () => {
+    assert.equal(formatClock(323), "5:23");
+    assert.equal(formatClock(45.9), "0:45");
+    assert.equal(formatClock(0), "0:00");
+    assert.equal(formatClock(null), "");
+  });
+});
+
+// ============================================================================
+// BUILDER
+// ============================================================================
+
+type ClockFields = Pick<GameState,
+  "periodLabel" | "clock" | "periodSecondsRemaining" | "secondsRemaining" | "regulationSeconds" | "isOvertime">;
+
+const clockFields = (s: GameState): ClockFields => ({
+  periodLabel: s.periodLabel,
+  clock: s.clock,
+  periodSecondsRemaining: s.periodSecondsRemaining,
+  secondsRemaining: s.secondsRemaining,
+  regulationSeconds: s.regulationSeconds,
+  isOvertime: s.isOvertime,
+});
+
+describe("buildGameState", () => {
+  const cases: Array<{ name: string; input: Partial<GameStateInput> & Pick<GameStateInput, "sport">; expected: ClockFields }> = [
+    {
+      name: "NHL 2nd period",
+      input: { sport: "NHL", period: 2, clock: "12:00" },
+      expected: { periodLabel: "P2", clock: "12:00", periodSecondsRemaining: 720, secondsRemaining: 1920, regulationSeconds: 3600, isOvertime: false },
+    },
+    {
+      name: "NHL intermission",
+      input: { sport: "NHL", period: 1, clock: "0:00" },
+      expected: { periodLabel: "P1", clock: "0:00", periodSecondsRemaining: 0, secondsRemaining: 2400, regulationSeconds: 3600, isOvertime: false },
+    },
+    {
+      name: "NHL overtime",
+      input: { sport: "NHL", period: 4, periodType: "OT", clock: "03:12" },
+      expected: { periodLabel: "OT", clock: "3:12", periodSecondsRemaining: 192, secondsRemaining: 0, regulationSeconds: 3600, isOvertime: true },
+    },
+    {
+      name: "NHL shootout, no clock",
+      input: { sport: "NHL", period: 5, periodType: "SO", clock: "" },
+      expected: { periodLabel: "SO", clock: "", periodSecondsRemaining: null, secondsRemaining: 0, regulationSeconds: 3600, isOvertime: true },
+    },
+    {
+      name: "NBA halftime",
+      input: { sport: "NBA", period: 2, clock: "PT00M00.00S" },
+      expected: { periodLabel: "Q2", clock: "0:00", periodSecondsRemaining: 0, secondsRemaining: 1440, regulationSeconds: 2880, isOvertime: false },
+    },
+    {
+      name: "NBA double overtime",
+      input: { sport: "NBA", period: 6, clock: "PT04M59.00S" },
+      expected: { periodLabel: "OT2", clock: "4:59", periodSecondsRemaining: 299, secondsRemaining: 0, regulationSeconds: 2880, isOvertime: true },
+    },
+    {
+      name: "NBA live with an empty clock",
+      input: { sport: "NBA", period: 3, clock: "" },
+      expected: { periodLabel: "Q3", clock: "", periodSecondsRemaining: null, secondsRemaining: null, regulationSeconds: 2880, isOvertime: false },
+    },
+    {
+      name: "CBB second half",
+      input: { sport: "CBB", period: 2, clock: "4:30" },
+      expected: { periodLabel: "H2", clock: "4:30", periodSecondsRemaining: 270, secondsRemaining: 270, regulationSeconds: 2400, isOvertime: false },
+    },
+    {
+      name: "NFL pre-game",
+      input: { sport: "NFL", status: "pre", period: 0, clock: "15:00" },
+      expected: { periodLabel: "Pre", clock: "", periodSecondsRemaining: null, secondsRemaining: 3600, regulationSeconds: 3600, isOvertime: false },
+    },
+    {
+      name: "NFL final",
+      input: { sport: "NFL", status: "final", period: 4, clock: "0:00" },
+      expected: { periodLabel: "Final", clock: "", periodSecondsRemaining: null, secondsRemaining: 0, regulationSeconds: 3600, isOvertime: false },
+    },
+    {
+      name: "MLB extra innings",
+      input: { sport: "MLB", period: 10, inningHalf: "bottom" },
+      expected: { periodLabel: "Bot 10", clock: "", periodSecondsRemaining: null, secondsRemaining: null, regulationSeconds: null, isOvertime: true },
+    },
+  ];
+
+  for (const { name, input, expected } of cases) {
+    it(name, () => {
+      const state = buildGameState({ gameId: "g1", status: "live", home: HOME, away: AWAY, period: 0, ...input }, NOW);
+      assert.deepEqual(clockFields(state), expected);
+    });
+  }
+
+  it("carries identity, optional fields and the update time", () => {
+    const state = buildGameState({
+      sport: "NFL", gameId: "401772001", status: "live", home: HOME, away: AWAY, period: 4, clock: "2:00",
+      possession: "away", startTime: "2026-02-10T00:00:00Z",
+    }, NOW);
+    assert.equal(state.gameId, "401772001");
+    assert.deepEqual([state.home, state.away], [HOME, AWAY]);
+    assert.equal(state.possession, "away");
+    assert.equal(state.startTime, "2026-02-10T00:00:00Z");
+    assert.equal(state.updatedAt, NOW);
+    assert.equal("powerPlay" in state, false);
+    assert.equal("outs" in state, false);
+
+    const mlb = buildGameState({ sport: "MLB", gameId: "1", status: "live", home: HOME, away: AWAY, period: 3, inningHalf: "top", outs: 0 }, NOW);
+    assert.equal(mlb.outs, 0);
+  });
+});
+
+// ============================================================================
+// ADAPTERS
+// ============================================================================
+
+/** Serve `routes` (URL substring → JSON body) from the global fetch while `fn` runs */
+async function withFixtures<T>(routes: Record<string, unknown>, fn: () => Promise<T>): Promise<{ result: T; urls: string[] }> {
+  const realFetch = globalThis.fetch;
+  const urls: string[] = [];
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    const url = String(input);
+    urls.push(url);
+    const key = Object.keys(routes).find((k) => url.includes(k));
+    if (!key) return new Response("not found", { status: 404 });
+    return new Response(JSON.stringify(routes[key]), { status: 200, headers: { "content-type": "application/json" } });
+  }) as typeof fetch;
+  try {
+    return { result: await fn(), urls };
+  } finally {
+    globalThis.fetch = realFetch;
+  }
+}
+
+const summary = (s: GameState | null | undefined) => s && {
+  gameId: s.gameId,
+  status: s.status,
+  home: s.home,
+  away: s.away,
+  periodLabel: s.periodLabel,
+  clock: s.clock,
+  secondsRemaining: s.secondsRemaining,
+  isOvertime: s.isOvertime,
+};
+
+const eventSummary = (events: NormalizedGameEvent[]) =>
+  events.map((e) => ({ type: e.type, team: e.team, period: e.period, clock: e.clock, description: e.description, scorer: e.scorer,
+    ...(e.strength && { strength: e.strength }) }));
+
+interface AdapterCase {
+  name: string;
+  feed: () => LeagueFeed;
+  routes: Record<string, unknown>;
+  gameId: string;
+  date?: string;
+  games: Array<ReturnType<typeof summary>>;
+  state: ReturnType<typeof summary> & Partial<GameState>;
+  events: ReturnType<typeof eventSummary>;
+}
+
+const NHL_BOS = { id: 6, abbrev: "BOS", commonName: { default: "Bruins" }, placeName: { default: "Boston" } };
+const NHL_TOR = { id: 10, abbrev: "TOR", commonName: { default: "Maple Leafs" }, placeName: { default: "Toronto" } };
+
+const ADAPTERS: AdapterCase[] = [
+  {
+    name: "NhlLiveApi (api-web.nhle.com)",
+    feed: () => new NhlLiveApi(0),
+    date: "2026-02-09",
+    gameId: "2025020801",
+    routes: {
+      "/v1/schedule/2026-02-09": {
+        gameWeek: [
+          {
+            date: "2026-02-09",
+            games: [{
+              id: 2025020801, season: 20252026, gameType: 2, startTimeUTC: "2026-02-10T00:00:00Z",
+              homeTeam: { ...NHL_BOS, score: 3 }, awayTeam: { ...NHL_TOR, score: 3 },
+              gameState: "LIVE", periodDescriptor: { number: 4, periodType: "OT" }, clock: { timeRemaining: "03:12" },
+            }],
+          },
+          { date: "2026-02-10", games: [{ id: 2025020815, gameState: "FUT", homeTeam: NHL_TOR, awayTeam: NHL_BOS }] },
+        ],
+      },
+      "/v1/gamecenter/2025020801/boxscore": {
+        gameState: "CRIT",
+        homeTeam: { ...NHL_BOS, score: 2 },
+        awayTeam: { ...NHL_TOR, score: 2 },
+        periodDescriptor: { number: 2, periodType: "REG" },
+        clock: { timeRemaining: "07:41", inIntermission: true },
+        situation: { awayTeam: { situationDescriptions: ["PP"] }, homeTeam: {} },
+        startTimeUTC: "2026-02-10T00:00:00Z",
+      },
+      "/v1/gamecenter/2025020801/play-by-play": {
+        homeTeam: NHL_BOS,
+        awayTeam: NHL_TOR,
+        rosterSpots: [
+          { playerId: 8477956, firstName: { default: "David" }, lastName: { default: "Pastrnak" } },
+          { playerId: 8479318, firstName: { default: "Auston" }, lastName: { default: "Matthews" } },
+        ],
+        plays: [
+          { typeDescKey: "faceoff", periodDescriptor: { number: 1 }, timeRemaining: "20:00" },
+          {
+            typeDescKey: "goal", periodDescriptor: { number: 1 }, timeRemaining: "12:00", situationCode: "1551",
+            details: { eventOwnerTeamId: 6, scoringPlayerId: 8477956 },
+          },
+          { typeDescKey: "penalty", periodDescriptor: { number: 2 }, timeRemaining: "09:41", details: { eventOwnerTeamId: 6, descKey: "tripping" } },
+          {
+            // TOR power play after the BOS penalty: 5 away skaters, 4 home
+            typeDescKey: "goal", periodDescriptor: { number: 2 }, timeRemaining: "08:10", situationCode: "1541",
+            details: { eventOwnerTeamId: 10, scoringPlayerId: 8479318 },
+          },
+          { typeDescKey: "period-end", periodDescriptor: { number: 2 }, timeRemaining: "00:00" },
+        ],
+      },
+    },
+    games: [{
+      gameId: "2025020801", status: "live", home: { name: "Boston Bruins", abbrev: "BOS", score: 3 },
+      away: { name: "Toronto Maple Leafs", abbrev: "TOR", score: 3 }, periodLabel: "OT", clock: "3:12", secondsRemaining: 0, isOvertime: true,
+    }],
+    state: {
+      gameId: "2025020801", status: "live", home: { name: "Boston Bruins", abbrev: "BOS", score: 2 },
+      away: { name: "Toronto Maple Leafs", abbrev: "TOR", score: 2 }, periodLabel: "P2", clock: "0:00", secondsRemaining: 1200,
+      isOvertime: false, powerPlay: "away",
+    },
+    events: [
+      { type: "goal", team: "BOS", period: 1, clock: "12:00", description: "Goal by David Pastrnak", scorer: "David Pastrnak", strength: "even" },
+      { type: "penalty", team: "BOS", period: 2, clock: "09:41", description: "tripping", scorer: undefined },
+      { type: "goal", team: "TOR", period: 2, clock: "08:10", description: "Goal by Auston Matthews", scorer: "Auston Matthews", strength: "pp-away" },
+      { type: "period_end", team: "", period: 2, clock: "00:00", description: "period-end", scorer: undefined },
+    ],
+  },
+  {
+    name: "NbaLiveApi (cdn.nba.com)",
+    feed: () => new NbaLiveApi(0),
+    gameId: "0022500777",
+    routes: {
+      "/scoreboard/todaysScoreboard_00.json": {
+        scoreboard: {
+          games: [
+            {
+              gameId: "0022500777", gameStatus: 2, gameStatusText: "Half", period: 2, gameClock: "PT00M00.00S",
+              gameTimeUTC: "2026-02-10T00:30:00Z",
+              homeTeam: { teamId: 1610612738, teamTricode: "BOS", teamName: "Celtics", teamCity: "Boston", score: 58 },
+              awayTeam: { teamId: 1610612752, teamTricode: "NYK", teamName: "Knicks", teamCity: "New York", score: 54 },
+            },
+            {
+              gameId: "0022500778", gameStatus: 1, gameStatusText: "7:30 pm ET", period: 0, gameClock: "",
+              homeTeam: { teamTricode: "LAL", teamName: "Lakers", teamCity: "Los Angeles", score: 0 },
+              awayTeam: { teamTricode: "GSW", teamName: "Warriors", teamCity: "Golden State", score: 0 },
+            },
+          ],
+        },
+      },
+      "/boxscore/boxscore_0022500777.json": {
+        game: {
+          gameStatus: 2, period: 5, gameClock: "PT03M10.00S",
+          homeTeam: { teamTricode: "BOS", teamName: "Celtics", teamCity: "Boston", score: 110 },
+          awayTeam: { teamTricode: "NYK", teamName: "Knicks", teamCity: "New York", score: 108 },
+        },
+      },
+      "/playbyplay/playbyplay_0022500777.json": {
+        game: {
+          actions: [
+            { actionType: "3pt", shotResult: "Made", period: 4, clock: "PT01M02.00S", teamTricode: "BOS", playerNameI: "J. Tatum" },
+            { actionType: "2pt", shotResult: "Missed", period: 4, clock: "PT00M40.00S", teamTricode: "NYK", playerNameI: "J. Brunson" },
+            { actionType: "rebound", period: 4, clock: "PT00M38.00S", teamTricode: "BOS" },
+            { actionType: "foul", period: 4, clock: "PT00M20.00S", teamTricode: "BOS", description: "Jaylen Brown shooting foul" },
+            { actionType: "freethrow", shotResult: "Made", period: 4, clock: "PT00M20.00S", teamTricode: "NYK", playerNameI: "J. Brunson" },
+            { actionType: "period", subType: "end", period: 4, clock: "PT00M00.00S", description: "End of 4th Period" },
+          ],
+        },
+      },
+    },
+    games: [
+      {
+        gameId: "0022500777", status: "live", home: { name: "Boston Celtics", abbrev: "BOS", score: 58 },
+        away: { name: "New York Knicks", abbrev: "NYK", score: 54 }, periodLabel: "Q2", clock: "0:00", secondsRemaining: 1440, isOvertime: false,
+      },
+      {
+        gameId: "0022500778", status: "pre", home: { name: "Los Angeles Lakers", abbrev: "LAL", score: 0 },
+        away: { name: "Golden State Warriors", abbrev: "GSW", score: 0 }, periodLabel: "Pre", clock: "", secondsRemaining: 2880, isOvertime: false,
+      },
+    ],
+    state: {
+      gameId: "0022500777", status: "live", home: { name: "Boston Celtics", abbrev: "BOS", score: 110 },
+      away: { name: "New York Knicks", abbrev: "NYK", score: 108 }, periodLabel: "OT", clock: "3:10", secondsRemaining: 0, isOvertime: true,
+    },
+    events: [
+      { type: "goal", team: "BOS", period: 4, clock: "PT01M02.00S", description: "3PT by J. Tatum", scorer: "J. Tatum" },
+      { type: "penalty", team: "BOS", period: 4, clock: "PT00M20.00S", description: "Jaylen Brown shooting foul", scorer: undefined },
+      { type: "goal", team: "NYK", period: 4, clock: "PT00M20.00S", description: "FT by J. Brunson", scorer: "J. Brunson" },
+      { type: "period_end", team: "", period: 4, clock: "PT00M00.00S", description: "End of 4th Period", scorer: undefined },
+    ],
+  },
+  {
+    name: "MlbLiveApi (statsapi.mlb.com)",
+    feed: () => new MlbLiveApi(0),
+    date: "2026-06-01",
+    gameId: "777001",
+    routes: {
+      "/api/v1/schedule?date=2026-06-01": {
+        dates: [{
+          games: [{
+            gamePk: 777001, gameDate: "2026-06-01T23:05:00Z", status: { abstractGameState: "Live", detailedState: "In Progress" },
+            teams: {
+              away: { team: { id: 111, name: "Boston Red Sox", abbreviation: "BOS" }, score: 4 },
+              home: { team: { id: 147, name: "New York Yankees", abbreviation: "NYY" }, score: 4 },
+            },
+            venue: { name: "Yankee Stadium" },
+            linescore: { currentInning: 10, inningHalf: "Bottom", outs: 1 },
+          }],
+        }],
+      },
+      "/api/v1.1/game/777001/feed/live": {
+        gameData: {
+          status: { abstractGameState: "Live" },
+          teams: { away: { name: "Boston Red Sox", abbreviation: "BOS" }, home: { name: "New York Yankees", abbreviation: "NYY" } },
+          datetime: { dateTime: "2026-06-01T23:05:00Z" },
+        },
+        liveData: {
+          linescore: { currentInning: 7, inningHalf: "Top", outs: 2, teams: { home: { runs: 3 }, away: { runs: 2 } } },
+          plays: {
+            allPlays: [
+              {
+                result: { type: "atBat", event: "Home Run", description: "Rafael Devers homers (12) on a fly ball to right field." },
+                about: { inning: 7, halfInning: "top" },
+                matchup: { batter: { fullName: "Rafael Devers" }, batSide: { code: "L", description: "Left" } },
+                runners: [{ movement: { end: "score" } }, { movement: { end: "score" } }],
+              },
+              {
+                result: { type: "atBat", event: "Single", description: "Aaron Judge singles." },
+                about: { inning: 7, halfInning: "bottom" },
+                matchup: { batter: { fullName: "Aaron Judge" }, batSide: { code: "R", description: "Right" } },
+                runners: [{ movement: { end: "1B" } }],
+              },
+              {
+                result: { type: "atBat", event: "Walk", description: "Juan Soto walks. Anthony Volpe scores." },
+                about: { inning: 7, halfInning: "bottom" },
+                matchup: { batter: { fullName: "Juan Soto" }, batSide: { code: "L", description: "Left" } },
+                runners: [{ movement: { end: "score" } }, { movement: { end: "2B" } }],
+              },
+              {
+                result: { type: "atBat", event: "Strikeout", description: "Giancarlo Stanton strikes out." },
+                about: { inning: 7, halfInning: "bottom" },
+                runners: [],
+              },
+            ],
+          },
+        },
+      },
+    },
+    games: [{
+      gameId: "777001", status: "live", home: { name: "New York Yankees", abbrev: "NYY", score: 4 },
+      away: { name: "Boston Red Sox", abbrev: "BOS", score: 4 }, periodLabel: "Bot 10", clock: "", secondsRemaining: null, isOvertime: true,
+    }],
+    state: {
+      gameId: "777001", status: "live", home: { name: "New York Yankees", abbrev: "NYY", score: 3 },
+      away: { name: "Boston Red Sox", abbrev: "BOS", score: 2 }, periodLabel: "Top 7", clock: "", secondsRemaining: null,
+      isOvertime: false, inningHalf: "top", outs: 2,
+    },
+    events: [
+      { type: "goal", team: "BOS", period: "T7", clock: "2R", description: "Rafael Devers homers (12) on a fly ball to right field.", scorer: "Rafael Devers" },
+      { type: "goal", team: "NYY", period: "B7", clock: "1R", description: "Juan Soto walks. Anthony Volpe scores.", scorer: "Juan Soto" },
+    ],
+  },
+  {
+    name: "NflLiveApi (ESPN NFL scoreboard)",
+    feed: () => new NflLiveApi(),
+    gameId: "401772001",
+    routes: {
+      "/football/nfl/scoreboard": {
+        events: [{
+          id: "401772001", date: "2026-01-18T20:00Z",
+          status: { period: 4, displayClock: "2:00", type: { state: "in", description: "In Progress" } },
+          competitions: [{
+            competitors: [
+              { homeAway: "home", id: "12", score: "24", team: { id: "12", displayName: "Kansas City Chiefs", abbreviation: "KC" } },
+              { homeAway: "away", id: "33", score: "20", team: { id: "33", displayName: "Baltimore Ravens", abbreviation: "BAL" } },
+            ],
+            situation: { possession: "33" },
+          }],
+        }],
+      },
+      "/football/nfl/summary?event=401772001": {
+        drives: {
+          previous: [{
+            team: { abbreviation: "KC" },
+            plays: [
+              { type: { text: "Rush" }, text: "I.Pacheco run for 3 yards", period: { number: 4 }, clock: { displayValue: "2:40" } },
+              {
+                scoringPlay: true, type: { text: "Passing Touchdown" }, text: "P.Mahomes pass to T.Kelce for 12 yds, TOUCHDOWN",
+                period: { number: 4 }, clock: { displayValue: "2:05" }, team: { abbreviation: "KC" },
+              },
+              {
+                type: { text: "Interception Return" }, text: "L.Jackson pass interception by T.McDuffie",
+                period: { number: 4 }, clock: { displayValue: "2:00" },
+              },
+            ],
+          }],
+        },
+      },
+    },
+    games: [{
+      gameId: "401772001", status: "live", home: { name: "Kansas City Chiefs", abbrev: "KC", score: 24 },
+      away: { name: "Baltimore Ravens", abbrev: "BAL", score: 20 }, periodLabel: "Q4", clock: "2:00", secondsRemaining: 120, isOvertime: false,
+    }],
+    state: {
+      gameId: "401772001", status: "live", home: { name: "Kansas City Chiefs", abbrev: "KC", score: 24 },
+      away: { name: "Baltimore Ravens", abbrev: "BAL", score: 20 }, periodLabel: "Q4", clock: "2:00", secondsRemaining: 120,
+      isOvertime: false, possession: "away",
+    },
+    events: [
+      { type: "goal", team: "KC", period: "Q4", clock: "2:05", description: "P.Mahomes pass to T.Kelce for 12 yds, TOUCHDOWN", scorer: undefined },
+      { type: "other", team: "KC", period: "Q4", clock: "2:00", description: "L.Jackson pass interception by T.McDuffie", scorer: undefined },
+    ],
+  },
+  {
+    name: "EspnLeagueFeed CBB (ESPN scoreboard)",
+    feed: () => new EspnLeagueFeed("CBB", new EspnFallbackApi(0)),
+    gameId: "401800100",
+    routes: {
+      "/basketball/mens-college-basketball/scoreboard?groups=50&limit=200": {
+        events: [
+          {
+            id: "401800100", name: "North Carolina at Duke",
+            status: { period: 1, clock: 0, displayClock: "0:00", type: { state: "in", completed: false, description: "Halftime" } },
+            competitions: [{
+              competitors: [
+                { homeAway: "home", id: "150", score: "41", team: { abbreviation: "DUKE", displayName: "Duke Blue Devils" } },
+                { homeAway: "away", id: "153", score: "38", team: { abbreviation: "UNC", displayName: "North Carolina Tar Heels" } },
+              ],
+            }],
+          },
+          {
+            id: "401800101", name: "Kansas at Baylor",
+            status: { period: 2, displayClock: "0:00", type: { state: "post", completed: true, description: "Final" } },
+            competitions: [{
+              competitors: [
+                { homeAway: "home", id: "239", score: "70", team: { abbreviation: "BAY", displayName: "Baylor Bears" } },
+                { homeAway: "away", id: "2305", score: "75", team: { abbreviation: "KU", displayName: "Kansas Jayhawks" } },
+              ],
+            }],
+          },
+          { id: "401800102", status: { type: { state: "pre" } }, competitions: [] },
+        ],
+      },
+      "/basketball/mens-college-basketball/summary?event=401800100": {
+        boxscore: {
+          teams: [
+            { team: { id: "150", abbreviation: "DUKE", displayName: "Duke Blue Devils" } },
+            { team: { id: "153", abbreviation: "UNC", displayName: "North Carolina Tar Heels" } },
+          ],
+        },
+        plays: [
+          {
+            scoringPlay: true, scoreValue: 3, team: { id: "150" }, period: { number: 1 }, clock: { displayValue: "0:04" },
+            text: "Cooper Flagg made Three Point Jumper.", participants: [{ athlete: { displayName: "Cooper Flagg" } }],
+          },
+          { scoringPlay: false, scoreValue: 0, team: { id: "153" }, period: { number: 1 }, clock: { displayValue: "0:01" }, text: "RJ Davis missed Jumper." },
+          null,
+        ],
+      },
+    },
+    games: [
+      {
+        gameId: "401800100", status: "live", home: { name: "Duke Blue Devils", abbrev: "DUKE", score: 41 },
+        away: { name: "North Carolina Tar Heels", abbrev: "UNC", score: 38 }, periodLabel: "H1", clock: "0:00", secondsRemaining: 1200, isOvertime: false,
+      },
+      {
+        gameId: "401800101", status: "final", home: { name: "Baylor Bears", abbrev: "BAY", score: 70 },
+        away: { name: "Kansas Jayhawks", abbrev: "KU", score: 75 }, periodLabel: "Final", clock: "", secondsRemaining: 0, isOvertime: false,
+      },
+    ],
+    state: {
+      gameId: "401800100", status: "live", home: { name: "Duke Blue Devils", abbrev: "DUKE", score: 41 },
+      away: { name: "North Carolina Tar Heels", abbrev: "UNC", score: 38 }, periodLabel: "H1", clock: "0:00", secondsRemaining: 1200, isOvertime: false,
+    },
+    events: [
+      { type: "goal", team: "DUKE", period: 1, clock: "0:04", description: "Cooper Flagg made Three Point Jumper.", scorer: "Cooper Flagg" },
+    ],
+  },
+];
+
+describe("LeagueFeed adapters on fixture payloads", () => {
+  for (const c of ADAPTERS) {
+    it(c.name, async () => {
+      const feed = c.feed();
+      const { result } = await withFixtures(c.routes, async () => ({
+        games: await feed.getGames(c.date),
+        state: await feed.getGameState(c.gameId),
+        events: await feed.getEvents(c.gameId),
+      }));
+
+      assert.deepEqual(result.games.map(summary), c.games);
+
+      const { home, away, ...extra } = c.state;
+      const state = result.state!;
+      assert.deepEqual(summary(state), summary({ ...state, ...c.state } as GameState));
+      assert.deepEqual([state.home, state.away], [home, away]);
+      for (const [key, value] of Object.entries(extra)) {
+        assert.deepEqual(state[key as keyof GameState], value, key);
+      }
+
+      assert.deepEqual(eventSummary(result.events), c.events);
+    });
+  }
+
+  it("returns null for a game the upstream does not know", async () => {
+    const { result } = await withFixtures({}, async () => {
+      const log = console.error;
+      console.error = () => {};
+      try {
+        return await new NhlLiveApi(0).getGameState("1");
+      } finally {
+        console.error = log;
+      }
+    });
+    assert.equal(result, null);
+  });
+});
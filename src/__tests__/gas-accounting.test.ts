@@ -0,0 +1,229 @@
+/**
+ * gas-accounting.test.ts — split / merge / redeem gas is attributed to its
+ * market and charged once into trade P&L: a cycle's refill to that cycle, the
+ * rest to the market's next closing trade, and gas after the last close onto
+ * that trade afterwards; the daily spend only counts today, and new
+ * pre-splits pause below the MATIC floor or over the daily cap.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+
+import { GasAccounting, GasEntry, gasLedgerPath } from "../services/GasAccounting";
+import { LiveTradeRecord, ShockFadeLive } from "../strategies/ShockFadeLive";
+import { MockMatchingEngine } from "../tests/mock-clob/MockMatchingEngine";
+import { MockClobVenue } from "../tests/mock-clob/MockClobVenue";
+import { MockWS, dryRunTrader, removeStateFiles, sportsMarket, tmpPath } from "./fixtures";
+
+const MARKET = "nba-gsw-lal-2026-02-09";
+const CONDITION = "0x" + "c1".repeat(32);
+
+const market = () => sportsMarket({ marketSlug: MARKET, conditionId: CONDITION });
+const tmpFile = (ext: string = ".json") => tmpPath("gas", ext);
+
+describe("GasAccounting", () => {
+  it("charges a cycle's refill gas to that cycle and the market's other gas to its next closing trade", () => {
+    const file = tmpFile();
+    try {
+      const gas = new GasAccounting(null, file, { maticPriceUsd: 0.5 });
+      gas.record("SPLIT", MARKET, 0.04, "0xpresplit");
+      gas.record("SPLIT", MARKET, 0.02, "0xrefill1", "shock_1");
+      gas.record("SPLIT", MARKET, 0.08, "0xrefill2", "shock_2");
+      gas.record("SPLIT", "nhl-bos-nyr-2026-02-09", 0.02, "0xother", "shock_1");
+      assert.equal(gas.record("MERGE", MARKET, undefined, "0xrelayer"), null);
+
+      // The first close takes the pre-split and its own refill, not another open cycle's
+      assert.ok(Math.abs(gas.chargeCycle(MARKET, "shock_1", "t1") - 0.03) < 1e-9);
+      assert.equal(gas.chargeCycle(MARKET, "shock_1", "t2"), 0);
+
+      // A refill mined after its cycle closed goes to the market's next close
+      assert.equal(gas.record("SPLIT", MARKET, 0.02, "0xlate", "shock_1")!.cycleId, null);
+      assert.ok(Math.abs(gas.chargeCycle(MARKET, "shock_3", "t3") - 0.01) < 1e-9);
+
+      gas.record("MERGE", MARKET, 0.06, "0xmerge");
+      const report = gas.getMarketGas(MARKET);
+      assert.ok(Math.abs(report.matic - 0.22) < 1e-9);
+      assert.ok(Math.abs(report.chargedUsd - 0.04) < 1e-9);
+      assert.ok(Math.abs(report.pendingUsd - 0.07) < 1e-9);
+      assert.ok(Math.abs(gas.getUnchargedUsd() - 0.08) < 1e-9);
+
+      assert.ok(Math.abs(gas.chargeCycle(MARKET, "shock_2", "t4") - 0.07) < 1e-9);
+      gas.record("REDEEM", MARKET, 0.1, "0xredeem");
+      assert.ok(Math.abs(gas.chargeMarket(MARKET, "t4") - 0.05) < 1e-9);
+      assert.equal(gas.getMarketGas(MARKET).pendingUsd, 0);
+      assert.deepEqual(gas.getEntries().filter((e) => e.marketSlug === MARKET).map((e) => e.chargedTo), ["t1", "t1", "t4", "t3", "t4", "t4"]);
+      assert.equal(gasLedgerPath("./data/shock-fade-live.db"), "./data/shock-fade-live-gas.json");
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+
+  it("counts only today's gas toward the daily cap, across a restart", () => {
+    const file = tmpFile();
+    try {
+      const yesterday: GasEntry = {
+        op: "SPLIT", marketSlug: MARKET, transactionHash: "0xold", gasCostMatic: 3,
+        gasCostUsd: 0.75, timestamp: Date.now() - 24 * 60 * 60 * 1000, chargedTo: "shock_0",
+      };
+      fs.writeFileSync(file, JSON.stringify([yesterday]));
+
+      new GasAccounting(null, file).record("MERGE", MARKET, 0.5, "0xtoday");
+      const reloaded = new GasAccounting(null, file);
+      assert.equal(reloaded.getEntries().length, 2);
+      assert.equal(reloaded.getDailySpendMatic(), 0.5);
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+
+  it("pauses splits below the MATIC floor or over the daily cap, and says when they resume", async () => {
+    const file = tmpFile();
+    try {
+      let balance: string | null = "0.4";
+      const gas = new GasAccounting({ getMaticBalance: async () => balance }, file, {
+        minMaticBalance: 1, maxDailyGasMatic: 0.1, balanceMaxAgeMs: 0,
+      });
+      const events: string[] = [];
+      gas.on("paused", (reason: string) => events.push(`paused: ${reason}`));
+      gas.on("resumed", () => events.push("resumed"));
+
+      assert.match((await gas.checkSplitBudget())!, /MATIC balance 0\.4000 below floor 1/);
+      balance = "5";
+      assert.equal(await gas.checkSplitBudget(), null);
+      gas.record("SPLIT", MARKET, 0.12, "0xsplit");
+      assert.match((await gas.checkSplitBudget())!, /daily gas 0\.1200 MATIC reached cap 0\.1/);
+      // Relayer mode: nothing pays gas, only the cap applies
+      balance = null;
+      assert.match((await gas.checkSplitBudget())!, /daily gas/);
+
+      assert.equal(events.length, 3);
+      assert.equal(events[1], "resumed");
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+});
+
+describe("ShockFadeLive gas", () => {
+  it("skips the pre-split when the budget is spent, records split gas otherwise and tags refills with their cycle", async () => {
+    const engine = new MockMatchingEngine();
+    engine.registerMarket(CONDITION, ["5001", "5002"]);
+    const venue = new MockClobVenue(engine, "bot", 1000);
+    const split = venue.split.bind(venue);
+    venue.split = async (c, a, n) => ({ ...(await split(c, a, n)), gasCostMatic: 0.04 });
+
+    const statePath = tmpFile();
+    const gasFile = tmpFile();
+    let matic = "0.2";
+    const gas = new GasAccounting({ getMaticBalance: async () => matic }, gasFile, { balanceMaxAgeMs: 0 });
+    const trader = new ShockFadeLive(new MockWS() as any, venue as any, venue as any, venue, { dryRun: false, ladderSizes: [5, 10, 15] }, statePath);
+    trader.setGasAccounting(gas);
+    trader.registerTokenPair(market());
+    trader.start();
+    try {
+      assert.equal(await trader.preSplitForMarket(MARKET), false);
+      assert.equal(await venue.getBalance(), 1000);
+
+      matic = "3";
+      assert.equal(await trader.preSplitForMarket(MARKET), true);
+      assert.deepEqual(gas.getEntries().map((e) => [e.op, e.marketSlug, e.gasCostMatic]), [["SPLIT", MARKET, 0.04]]);
+
+      // A fill that drains the inventory refills on behalf of its cycle
+      const inv = (trader as any).inventory.get(MARKET);
+      inv.sharesA = 0;
+      await (trader as any).checkAndRefill(MARKET, "5001_1");
+      assert.deepEqual(gas.getEntries().map((e) => e.cycleId), [null, "5001_1"]);
+    } finally {
+      trader.stop();
+      removeStateFiles(statePath, gasFile);
+    }
+  });
+
+  it("takes the pre-split and the cycle's refill gas out of the first closed trade's P&L", async () => {
+    const ws = new MockWS();
+    const statePath = tmpFile();
+    const gasFile = tmpFile();
+    const shockAt = Date.now();
+    const gas = new GasAccounting(null, gasFile, { maticPriceUsd: 0.5 });
+    gas.record("SPLIT", MARKET, 0.3, "0xpresplit");
+    gas.record("SPLIT", MARKET, 0.2, "0xrefill", `5001_${shockAt}`);
+
+    const trader = dryRunTrader(statePath, { config: { maxSessionLoss: 100, maxConsecutiveLosses: 10 }, market: market(), ws });
+    trader.setGasAccounting(gas);
+    trader.start();
+    const closed: LiveTradeRecord[] = [];
+    trader.on("positionClosed", ({ record }: { record: LiveTradeRecord }) => closed.push(record));
+    try {
+      await trader.preSplitForMarket(MARKET);
+      await trader.handleShock({
+        type: "shock", tokenId: "5001", marketSlug: MARKET, direction: "up", magnitude: 0.08,
+        zScore: 4.5, preShockPrice: 0.5, currentPrice: 0.58, timestamp: shockAt,
+      });
+      ws.simulatePriceUpdate("5001", 0.62, 0.63);
+      await new Promise((r) => setTimeout(r, 50));
+      await trader.handleGameEvent(MARKET);
+
+      assert.ok(closed.length >= 1);
+      const [first, ...rest] = closed;
+      assert.ok(Math.abs(first.gasCost! - 0.25) < 1e-9);
+      const gross = (first.soldPrice + first.exitPrice - 1) * first.soldShares;
+      assert.ok(Math.abs(first.pnl - (gross - 0.25)) < 1e-9);
+      assert.ok(rest.every((r) => r.gasCost === 0));
+      assert.ok(Math.abs(trader.getStats().totalGasCost - 0.25) < 1e-9);
+      assert.equal(gas.getUnchargedUsd(), 0);
+    } finally {
+      trader.stop();
+      removeStateFiles(statePath, gasFile);
+    }
+  });
+
+  it("books gas spent after the last close — a refill, the end-of-game merge — onto that trade's record", async () => {
+    const engine = new MockMatchingEngine();
+    engine.registerMarket(CONDITION, ["5001", "5002"]);
+    engine.setBook("5001", [{ price: 0.55, size: 100 }], []);
+    engine.setBook("5002", [{ price: 0.45, size: 100 }], []); // the TP sell fills at once
+    const venue = new MockClobVenue(engine, "bot", 1000);
+    const split = venue.split.bind(venue);
+    const merge = venue.merge.bind(venue);
+    venue.split = async (c, a, n) => ({ ...(await split(c, a, n)), gasCostMatic: 0.4 });
+    venue.merge = async (c, a, n) => ({ ...(await merge(c, a, n)), gasCostMatic: 0.2 });
+
+    const statePath = tmpFile();
+    const gasFile = tmpFile();
+    const gas = new GasAccounting(null, gasFile, { maticPriceUsd: 0.5 });
+    const trader = new ShockFadeLive(new MockWS() as any, venue as any, venue as any, venue, {
+      dryRun: false, maxCyclesPerGame: 1, ladderSizes: [5, 10, 15],
+    }, statePath);
+    trader.setGasAccounting(gas);
+    trader.registerTokenPair(market());
+    trader.start();
+    try {
+      await trader.preSplitForMarket(MARKET);
+      await trader.handleShock({
+        type: "shock", tokenId: "5001", marketSlug: MARKET, direction: "up", magnitude: 0.08,
+        zScore: 4.5, preShockPrice: 0.5, currentPrice: 0.58, timestamp: Date.now(),
+      });
+      const l1 = trader.getAllOrders().find((o) => o.level === 1)!;
+      engine.trade("5001", "BUY", l1.price, l1.shares);
+      await new Promise((r) => setTimeout(r, 20));
+
+      // Closed by its TP carrying the pre-split; the refill after it waits
+      const [trade] = trader.getTradeHistory();
+      assert.equal(trade.exitReason, "TAKE_PROFIT");
+      assert.ok(Math.abs(trade.gasCost! - 0.2) < 1e-9);
+      assert.ok(Math.abs(gas.getMarketGas(MARKET).pendingUsd - 0.2) < 1e-9);
+
+      await trader.mergeRemainingShares(MARKET);
+      const gross = (trade.soldPrice + trade.exitPrice - 1) * trade.soldShares;
+      assert.ok(Math.abs(trade.gasCost! - 0.5) < 1e-9);
+      assert.ok(Math.abs(trade.pnl - (gross - 0.5)) < 1e-9);
+      assert.ok(Math.abs(trader.getStats().totalPnL - trade.pnl) < 1e-9);
+      assert.ok(Math.abs(trader.getStats().totalGasCost - 0.5) < 1e-9);
+      assert.equal(gas.getUnchargedUsd(), 0);
+    } finally {
+      trader.stop();
+      removeStateFiles(statePath, gasFile);
+    }
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * late-game-policy.test.ts — per-sport late-game windows and actions as
+ * configured in src/config/sss_sport_params.json.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as os from "os";
+import * as path from "path";
+import * as fs from "fs";
+
+import {
+  activeLateGamePolicy,
+  loadLateGamePolicies,
+  parseLateGamePolicy,
+  scaleLadderSize,
+} from "../services/LateGamePolicy";
+import { GameStateInput, LeagueSport, buildGameState, isLateGame } from "../collectors/league-apis/GameState";
+
+function live(sport: LeagueSport, period: number, clock: string, extra: Partial<GameStateInput> = {}) {
+  return buildGameState({
+    sport,
+    gameId: "g1",
+    status: "live",
+    home: { name: "Home", abbrev: "HOM", score: 2 },
+    away: { name: "Away", abbrev: "AWY", score: 1 },
+    period,
+    clock,
+    ...extra,
+  });
+}
+
+const policies = loadLateGamePolicies();
+
+function late(state: ReturnType<typeof live>): boolean {
+  return activeLateGamePolicy(state, policies) !== null;
+}
+
+describe("late-game policies from sss_sport_params.json", () => {
+  it("covers every league the bot trades", () => {
+    assert.deepEqual(Object.keys(policies).sort(), ["CBB", "MLB", "NBA", "NFL", "NHL", "SOCCER"]);
+  });
+
+  it("NBA: last 3 minutes of Q4 and OT, 70¢ sell cap", () => {
+    assert.ok(!late(live("NBA", 4, "3:01")));
+    assert.ok(late(live("NBA", 4, "PT02M10.00S")));
+    assert.ok(late(live("NBA", 5, "4:00")));
+    assert.ok(!late(live("NBA", 3, "0:30")));
+    assert.equal(policies.NBA.sellPriceMax, 0.7);
+  });
+
+  it("NHL: the whole 3rd period and OT, smaller ladders", () => {
+    assert.ok(!late(live("NHL", 2, "0:10")));
+    assert.ok(late(live("NHL", 3, "19:59")));
+    assert.ok(late(live("NHL", 4, "4:00", { periodType: "OT" })));
+    assert.equal(policies.NHL.ladderSizeScale, 0.5);
+  });
+
+  it("NFL: two-minute warning of Q4 blocks new cycles", () => {
+    assert.ok(!late(live("NFL", 4, "2:01")));
+    assert.ok(late(live("NFL", 4, "1:59")));
+    assert.ok(!late(live("NFL", 2, "1:00")));
+    assert.equal(policies.NFL.disableNewCycles, true);
+  });
+
+  it("MLB: 8th inning onward, including extras", () => {
+    assert.ok(!late(live("MLB", 7, "", { inningHalf: "bottom" })));
+    assert.ok(late(live("MLB", 8, "", { inningHalf: "top" })));
+    assert.ok(late(live("MLB", 10, "")));
+  });
+
+  it("ignores games that are not live", () => {
+    assert.ok(!late(buildGameState({ ...live("NBA", 4, "1:00"), status: "final", clock: "0:00" })));
+    assert.equal(activeLateGamePolicy(undefined, policies), null);
+  });
+});
+
+describe("late-game rules", () => {
+  it("match-minute rules count stoppage time", () => {
+    const rule = parseLateGamePolicy("SOCCER", { from_minute: 80 })!.rule;
+    // CBB halves stand in for a clocked 2×20' game: 80% of regulation = minute 32
+    assert.ok(!isLateGame(live("CBB", 2, "10:00"), { fromMinute: 32 }));
+    assert.ok(isLateGame(live("CBB", 2, "7:00"), { fromMinute: 32 }));
+    assert.equal(rule.fromMinute, 80);
+    assert.equal(rule.includeOvertime, true);
+  });
+
+  it("can exclude overtime", () => {
+    assert.ok(!isLateGame(live("NHL", 4, "3:00", { periodType: "OT" }), { fromPeriod: 3, includeOvertime: false }));
+  });
+
+  it("falls back to the NBA/CBB defaults without a config file", () => {
+    const fallback = loadLateGamePolicies(path.join(os.tmpdir(), `missing-${Date.now()}.json`));
+    assert.deepEqual(Object.keys(fallback).sort(), ["CBB", "NBA"]);
+    assert.equal(fallback.NBA.sellPriceMax, 0.7);
+  });
+
+  it("skips sports whose block defines no window", () => {
+    const file = path.join(os.tmpdir(), `late-game-${Date.now()}.json`);
+    fs.writeFileSync(file, JSON.stringify({
+      sports: {
+        NHL: { late_game: { from_period: 3, disable_new_cycles: true } },
+        NBA: { late_game: { sell_price_max: 0.6 } },
+      },
+    }));
+    try {
+      const loaded = loadLateGamePolicies(file);
+      assert.deepEqual(Object.keys(loaded), ["NHL"]);
+      assert.equal(loaded.NHL.disableNewCycles, true);
+    } finally {
+      fs.unlinkSync(file);
+    }
+  });
+
+  it("scales ladder sizes but keeps the exchange minimum", () => {
+    const half = parseLateGamePolicy("NHL", { from_period: 3, ladder_size_scale: 0.5 });
+    assert.deepEqual([5, 10, 15].map((s) => scaleLadderSize(s, half)), [5, 5, 7]);
+    assert.equal(scaleLadderSize(15, null), 15);
+  });
+});
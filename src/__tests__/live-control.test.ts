@@ -0,0 +1,179 @@
+/**
+ * live-control.test.ts — the kill switch end to end over the dashboard's
+ * control API: bearer auth, pause stops new cycles, flatten cancels a
+ * market's ladder and keeps it blocked, resume lifts both, every action is
+ * in the audit log, and a restart while paused comes back paused — and stays
+ * paused through a blocking reconciliation being confirmed or a breaker-only
+ * resume.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as net from "net";
+import axios from "axios";
+
+import { ControlAuditEntry, LiveControl, controlAuditPath } from "../services/LiveControl";
+import { ShockFadeLive } from "../strategies/ShockFadeLive";
+import { ShockFadeDashboardServer } from "../dashboard/ShockFadeDashboard";
+import { CircuitBreakers } from "../services/CircuitBreakers";
+import { reconciliationReportPath } from "../services/StartupReconciliation";
+import { MockMatchingEngine } from "../tests/mock-clob/MockMatchingEngine";
+import { MockClobVenue } from "../tests/mock-clob/MockClobVenue";
+import { MockWS, dryRunTrader, removeStateFiles, sportsMarket, tmpPath } from "./fixtures";
+
+const SLUG = "nba-gsw-lal-2026-02-09";
+const TOKEN = "test-control-token-0123456789";
+const CONDITION_ID = "0x" + "c1".repeat(32);
+
+async function freePort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise((r) => server.close(r));
+  return port;
+}
+
+const MARKET = sportsMarket({ marketSlug: SLUG, conditionId: CONDITION_ID });
+
+function makeTrader(statePath: string): ShockFadeLive {
+  return dryRunTrader(statePath, { market: MARKET, ws: new MockWS(0.45) });
+}
+
+/** Non-dry-run trader on the mock CLOB, so startup reconciliation runs */
+function makeVenueTrader(venue: MockClobVenue, statePath: string): ShockFadeLive {
+  const trader = new ShockFadeLive(new MockWS() as any, venue as any, venue as any, venue, { dryRun: false, maxCyclesPerGame: 1, ladderSizes: [5, 10, 15] }, statePath);
+  trader.registerTokenPair(MARKET);
+  trader.start();
+  return trader;
+}
+
+describe("Control API", () => {
+  it("pauses, flattens and resumes over authenticated HTTP, audits each action, and restores a pause after restart", async () => {
+    const statePath = tmpPath("control");
+    const auditPath = controlAuditPath(statePath);
+    const trader = makeTrader(statePath);
+    const control = new LiveControl(trader, auditPath);
+    const port = await freePort();
+    const dashboard = new ShockFadeDashboardServer({ port, host: "127.0.0.1" });
+    dashboard.setTrader(trader as any);
+    dashboard.setControl(control, TOKEN);
+
+    const api = axios.create({
+      baseURL: `http://127.0.0.1:${port}/api/control`,
+      headers: { Authorization: `Bearer ${TOKEN}`, "X-Operator": "alice" },
+      validateStatus: () => true,
+    });
+    let n = 0;
+    const shock = () => trader.handleShock({
+      type: "shock", tokenId: "5001", marketSlug: SLUG, direction: "up", magnitude: 0.08,
+      zScore: 4.5, preShockPrice: 0.5, currentPrice: 0.58, timestamp: Date.now() + n++,
+    });
+
+    trader.start();
+    await dashboard.start();
+    try {
+      await trader.preSplitForMarket(SLUG);
+
+      const denied = await api.post("/pause", {}, { headers: { Authorization: "Bearer wrong" } });
+      assert.equal(denied.status, 401);
+      assert.equal(trader.isHalted(), false);
+
+      const paused = await api.post("/pause", { reason: "feed looks stale" });
+      assert.equal(paused.status, 200);
+      assert.equal((await api.get("/status")).data.haltReason, "paused by alice: feed looks stale");
+      await shock();
+      assert.equal(trader.getActiveOrders().length, 0);
+
+      // Resume, ladder up, then flatten the market: orders gone, market stays blocked
+      assert.equal((await api.post("/resume")).status, 200);
+      await shock();
+      assert.equal(trader.getActiveOrders().length, 3);
+
+      const flattened = await api.post("/flatten", { marketSlug: SLUG });
+      assert.equal(flattened.status, 200);
+      assert.equal(flattened.data.result[0].cancelledOrders, 3);
+      assert.equal(trader.getActiveOrders().length, 0);
+      await shock();
+      assert.equal(trader.getActiveOrders().length, 0);
+
+      assert.equal((await api.post("/flatten", { marketSlug: "nhl-nope" })).status, 409);
+      assert.equal((await api.post("/flatten", {})).status, 400);
+
+      assert.equal((await api.post("/resume", { marketSlug: SLUG })).status, 200);
+      assert.deepEqual(trader.getBlockedMarkets(), []);
+
+      await api.post("/pause");
+      const audit: ControlAuditEntry[] = (await api.get("/audit")).data;
+      assert.deepEqual(audit.map((e) => [e.action, e.ok]), [
+        ["PAUSE", true], ["RESUME", true], ["FLATTEN_MARKET", true], ["FLATTEN_MARKET", false], ["RESUME", true], ["PAUSE", true],
+      ]);
+      assert.ok(audit.every((e) => e.operator === "alice"));
+    } finally {
+      trader.stop();
+      await dashboard.stop();
+    }
+
+    // Restart: the last PAUSE has no RESUME after it
+    const restarted = makeTrader(statePath);
+    try {
+      new LiveControl(restarted, auditPath).restore();
+      assert.equal(restarted.isHalted(), true);
+      assert.equal(restarted.getHaltReason(), "paused by alice");
+    } finally {
+      restarted.stop();
+      removeStateFiles(statePath, auditPath);
+    }
+  });
+
+  it("keeps a restored pause through a confirmed reconciliation hold and a breaker-only resume", async () => {
+    const statePath = tmpPath("control-recon");
+    const auditPath = controlAuditPath(statePath);
+    const breakersPath = statePath.replace(/\.json$/, "-breakers.json");
+    const engine = new MockMatchingEngine();
+    engine.registerMarket(CONDITION_ID, ["5001", "5002"]);
+    engine.setBook("5001", [{ price: 0.55, size: 100 }], []);
+    engine.setBook("5002", [{ price: 0.35, size: 100 }], []);
+    const venue = new MockClobVenue(engine, "bot", 1000);
+
+    const before = makeVenueTrader(venue, statePath);
+    let after: ShockFadeLive | null = null;
+    try {
+      await before.preSplitForMarket(SLUG);
+      new LiveControl(before, auditPath).pause("alice", "maintenance");
+      before.stop();
+      venue.removeAllListeners("orderFill");
+      venue.removeAllListeners("orderUpdate");
+
+      // An order the restarted bot can't account for: reconciliation holds trading
+      await venue.placeLimit({ tokenId: "5001", side: "SELL", shares: 5, price: 0.9 });
+
+      after = makeVenueTrader(venue, statePath);
+      const breakers = new CircuitBreakers(breakersPath);
+      const control = new LiveControl(after, auditPath, breakers);
+      control.restore();
+      const report = (await after.reconcileWithVenue())!;
+      assert.equal(report.blocking, true);
+      assert.match(control.resume("alice").detail, /still halted: reconciliation/);
+
+      assert.equal(after.confirmReconciliation(report.id, "ops"), true);
+      assert.equal(after.isHalted(), true);
+      assert.equal(after.getHaltReason(), "paused by alice: maintenance");
+      assert.equal(control.getStatus().pausedBy?.operator, "alice");
+      await after.handleShock({
+        type: "shock", tokenId: "5001", marketSlug: SLUG, direction: "up", magnitude: 0.08,
+        zScore: 4.5, preShockPrice: 0.5, currentPrice: 0.58, timestamp: Date.now(),
+      });
+      assert.equal(after.getActiveOrders().length, 0);
+
+      // A breaker resume lifts the breaker only
+      assert.equal(control.resume("bob", { breakerScope: "NBA" }).ok, false);
+      assert.equal(after.isPaused(), true);
+
+      assert.equal(control.resume("alice").ok, true);
+      assert.equal(after.isHalted(), false);
+    } finally {
+      after?.stop();
+      removeStateFiles(statePath, reconciliationReportPath(statePath), auditPath, breakersPath);
+    }
+  });
+});
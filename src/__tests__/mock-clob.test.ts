@@ -0,0 +1,192 @@
+/**
+ * mock-clob.test.ts — the local mock exchange: matching engine rules, and the
+ * real OrderBookWebSocket / UserChannelWS / PolymarketClient talking to
+ * MockClobServer end to end.
+ */
+
+import { describe, it, before, after } from "node:test";
+import * as assert from "node:assert/strict";
+import { Wallet } from "ethers";
+
+import { MockMatchingEngine, FillMessage, MarketTrade } from "../tests/mock-clob/MockMatchingEngine";
+import { MockClobServer } from "../tests/mock-clob/MockClobServer";
+import { OrderBookWebSocket, PriceUpdateEvent, TradeEvent } from "../services/OrderBookWS";
+import { UserChannelWS, OrderFillEvent } from "../services/UserChannelWS";
+import { PolymarketClient } from "../services/PolymarketClient";
+
+const COND = "0xcond";
+const TOKEN = "71321045679252212594626385532706912750332728571942532289631379312455583992563";
+const NO_TOKEN = "52114319501245915516055106046884209969926127482827954674443846427813813222426";
+
+function engineWithBook(): MockMatchingEngine {
+  const engine = new MockMatchingEngine();
+  engine.registerMarket(COND, [TOKEN, NO_TOKEN]);
+  engine.setBook(TOKEN, [{ price: 0.48, size: 100 }, { price: 0.47, size: 200 }], [{ price: 0.52, size: 100 }, { price: 0.53, size: 50 }]);
+  return engine;
+}
+
+function waitFor<T>(emitter: { once(event: string, fn: (arg: T) => void): unknown }, event: string, timeoutMs = 5000): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`timed out waiting for ${event}`)), timeoutMs);
+    emitter.once(event, (arg: T) => {
+      clearTimeout(timer);
+      resolve(arg);
+    });
+  });
+}
+
+describe("MockMatchingEngine", () => {
+  it("rests a GTC sell and fills it behind scripted size at its price", () => {
+    const engine = engineWithBook();
+    const fills: FillMessage[] = [];
+    engine.on("fill", (f: FillMessage) => fills.push(f));
+
+    const res = engine.placeOrder({ assetId: TOKEN, side: "SELL", price: 0.53, size: 20, orderType: "GTC", owner: "me" });
+    assert.equal(res.status, "live");
+
+    engine.trade(TOKEN, "BUY", 0.53, 160); // sweeps 0.52, then the 50 scripted ahead of us at 0.53
+    assert.equal(engine.getOrder(res.orderID)!.sizeMatched, 10);
+    assert.equal(fills[0].role, "maker");
+
+    engine.trade(TOKEN, "BUY", 0.53, 10);
+    assert.equal(engine.getOrder(res.orderID)!.status, "MATCHED");
+    assert.deepEqual(engine.getOpenOrders(), []);
+  });
+
+  it("fills resting orders a new scripted book crosses", () => {
+    const engine = engineWithBook();
+    const trades: MarketTrade[] = [];
+    engine.on("trade", (t: MarketTrade) => trades.push(t));
+
+    const res = engine.placeOrder({ assetId: TOKEN, side: "SELL", price: 0.6, size: 10, orderType: "GTC", owner: "me" });
+    engine.setBook(TOKEN, [{ price: 0.62, size: 4 }], [{ price: 0.65, size: 10 }]);
+
+    assert.equal(engine.getOrder(res.orderID)!.sizeMatched, 4);
+    assert.equal(trades.length, 1);
+    assert.deepEqual(engine.getBook(TOKEN).bids, []);
+    assert.deepEqual(engine.getBook(TOKEN).asks.map((l) => l.price), [0.65, 0.6]); // best last
+  });
+
+  it("takes liquidity immediately and applies FOK / FAK rules", () => {
+    const engine = engineWithBook();
+
+    const fak = engine.placeOrder({ assetId: TOKEN, side: "BUY", price: 0.52, size: 150, orderType: "FAK", owner: "me" });
+    assert.equal(fak.status, "matched");
+    assert.equal(fak.takingAmount, "100");
+    assert.equal(engine.getOrder(fak.orderID)!.status, "CANCELED");
+
+    const fok = engine.placeOrder({ assetId: TOKEN, side: "BUY", price: 0.53, size: 100, orderType: "FOK", owner: "me" });
+    assert.equal(fok.success, false);
+
+    const sell = engine.placeOrder({ assetId: TOKEN, side: "SELL", price: 0.47, size: 150, orderType: "FOK", owner: "me" });
+    assert.equal(sell.makingAmount, "150");
+    assert.equal(sell.takingAmount, String(100 * 0.48 + 50 * 0.47));
+  });
+
+  it("cancels only live orders", () => {
+    const engine = engineWithBook();
+    const a = engine.placeOrder({ assetId: TOKEN, side: "SELL", price: 0.6, size: 5, orderType: "GTC", owner: "me" });
+    const b = engine.placeOrder({ assetId: TOKEN, side: "BUY", price: 0.4, size: 5, orderType: "GTC", owner: "other" });
+
+    assert.equal(engine.cancel(a.orderID), true);
+    assert.equal(engine.cancel(a.orderID), false);
+    assert.deepEqual(engine.cancelWhere({ market: COND, owner: "me" }), []);
+    assert.deepEqual(engine.cancelWhere({ market: COND }), [b.orderID]);
+  });
+});
+
+describe("MockClobServer end to end", () => {
+  const server = new MockClobServer();
+  const savedRpc = process.env.RPC_URL;
+  let client: PolymarketClient;
+
+  before(async () => {
+    await server.start();
+    server.engine.registerMarket(COND, [TOKEN, NO_TOKEN]);
+    server.engine.setBook(TOKEN, [{ price: 0.48, size: 100 }], [{ price: 0.52, size: 100 }]);
+
+    process.env.RPC_URL = `${server.url}/rpc`;
+    const wallet = Wallet.createRandom();
+    client = new PolymarketClient({
+      host: server.url,
+      chainId: 137,
+      privateKey: wallet.privateKey,
+      funderAddress: wallet.address,
+      authMode: "EOA",
+    });
+    await client.initialize();
+  });
+
+  after(async () => {
+    if (savedRpc === undefined) delete process.env.RPC_URL;
+    else process.env.RPC_URL = savedRpc;
+    await server.stop();
+  });
+
+  it("streams books and trades on the market channel", async () => {
+    const ws = new OrderBookWebSocket([TOKEN], `${server.wsUrl}/ws/market`);
+    try {
+      const snapshot = waitFor<PriceUpdateEvent>(ws, "priceUpdate");
+      await ws.connect();
+      const first = await snapshot;
+      assert.equal(first.bid, 0.48);
+      assert.equal(first.ask, 0.52);
+
+      const trade = waitFor<TradeEvent>(ws, "trade");
+      const print = waitFor<TradeEvent>(ws, "lastTrade");
+      server.applyStep({ atMs: 0, trade: { tokenId: TOKEN, side: "SELL", price: 0.48, size: 30 } });
+      const t = await trade;
+      assert.equal(t.side, "sell");
+      assert.equal(t.tradeSize, 30);
+      const p = await print;
+      assert.equal(p.side, "sell");
+      assert.equal(p.tradePrice, 0.48);
+      assert.equal(p.tradeSize, 30);
+    } finally {
+      ws.disconnect();
+    }
+  });
+
+  it("runs a GTC exit through PolymarketClient and reports the fill on the user channel", async () => {
+    const creds = await client.getApiCreds();
+    const user = new UserChannelWS({ apiKey: creds.key, secret: creds.secret, passphrase: creds.passphrase }, `${server.wsUrl}/ws/user`);
+    user.subscribe([COND]);
+    try {
+      await user.connect();
+      await new Promise((r) => setTimeout(r, 50)); // let the auth message land
+
+      const sell = await client.sellSharesGTC(TOKEN, 10, 0.55, false);
+      assert.equal(sell.success, true, sell.error);
+      const orderId = sell.orderID!;
+
+      const open = await client.getOpenOrders(COND, TOKEN);
+      assert.deepEqual(open.orders!.map((o) => o.id), [orderId]);
+      assert.equal((await client.getOrderById(orderId)).original_size, "10");
+
+      const fill = waitFor<OrderFillEvent>(user, "orderFill");
+      // Sweeps the scripted 0.52 ask, then lifts 4 of ours
+      server.applyStep({ atMs: 0, trade: { tokenId: TOKEN, side: "BUY", price: 0.55, size: 104 } });
+      const f = await fill;
+      assert.equal(f.orderId, orderId);
+      assert.equal(f.size, 4);
+      assert.equal(f.status, "MATCHED");
+
+      assert.equal((await client.cancelSingleOrder(orderId)).success, true);
+      assert.deepEqual((await client.getOpenOrders(COND)).orders, []);
+    } finally {
+      user.disconnect();
+    }
+  });
+
+  it("rejects user-channel connections with unknown API keys", async () => {
+    const user = new UserChannelWS({ apiKey: "nope", secret: "", passphrase: "" }, `${server.wsUrl}/ws/user`);
+    try {
+      await user.connect();
+      const deadline = Date.now() + 3000;
+      while (user.isConnected() && Date.now() < deadline) await new Promise((r) => setTimeout(r, 20));
+      assert.equal(user.isConnected(), false);
+    } finally {
+      user.disconnect();
+    }
+  });
+});
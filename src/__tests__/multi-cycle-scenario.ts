@@ -17,6 +17,7 @@ import * as os from "os";
 import { ShockFadeLive, CumulativeTP } from "../strategies/ShockFadeLive";
 import { ShockEvent } from "../strategies/ShockFadeDetector";
 import { SportsMarket, MarketState } from "../services/SportsMarketDiscovery";
+import { VenueOrderRequest } from "../services/ExecutionVenue";
 
 // ── Mocks ──────────────────────────────────────────────────────────
 
@@ -29,15 +30,17 @@ class MockWS extends EventEmitter {
   addTokens(_ids: string[]) {}
 }
 
-class MockPolyClient {
-  async sellSharesGTC(_t: string, _s: number, _p: number, _n: boolean) {
-    return { success: true, orderID: `mock_${Date.now()}_${Math.random().toString(36).slice(2, 6)}` };
+class MockVenue extends EventEmitter {
+  readonly name = "mock";
+  async placeLimit(_req: VenueOrderRequest) {
+    return { success: true, orderId: `mock_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`, filledShares: 0 };
   }
-  async sellShares(_t: string, s: number, p: number, _n: boolean) {
-    return { success: true, filledShares: s, filledPrice: p };
+  async placeIoc(req: VenueOrderRequest) {
+    return { success: true, filledShares: req.shares, filledPrice: req.price };
   }
-  async cancelSingleOrder(_id: string) { return { success: true }; }
-  async getOpenOrders(_c: string) { return { success: true, orders: [] }; }
+  async cancel(_id: string) { return { success: true }; }
+  async getOpenOrders(_c: string) { return []; }
+  async getOrder(_id: string) { return null; }
   async getTokenBalance(_t: string) { return 200; }
   async getBalance() { return 5000; }
 }
@@ -111,7 +114,7 @@ async function main() {
     ws as any,
     new MockSplitClient() as any,
     new MockMergeClient() as any,
-    new MockPolyClient() as any,
+    new MockVenue() as any,
     {
       dryRun: true,
       maxPerGame: 200,
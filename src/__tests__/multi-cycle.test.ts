@@ -21,6 +21,7 @@ import {
 } from "../strategies/ShockFadeLive";
 import { ShockEvent } from "../strategies/ShockFadeDetector";
 import { SportsMarket, MarketState } from "../services/SportsMarketDiscovery";
+import { VenueOrderRequest } from "../services/ExecutionVenue";
 
 // ============================================================================
 // MOCKS
@@ -36,29 +37,31 @@ class MockWS extends EventEmitter {
   addTokens(_ids: string[]) {}
 }
 
-class MockPolyClient {
+class MockVenue extends EventEmitter {
+  readonly name = "mock";
   cancelledOrders: string[] = [];
   placedOrders: { tokenId: string; shares: number; price: number; orderId: string }[] = [];
 
-  async sellSharesGTC(tokenId: string, shares: number, price: number, _negRisk: boolean) {
+  async placeLimit(req: VenueOrderRequest) {
     const orderId = `mock_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`;
-    this.placedOrders.push({ tokenId, shares, price, orderId });
-    return { success: true, orderID: orderId };
+    this.placedOrders.push({ tokenId: req.tokenId, shares: req.shares, price: req.price, orderId });
+    return { success: true, orderId, filledShares: 0 };
   }
 
-  async sellShares(tokenId: string, shares: number, price: number, _negRisk: boolean) {
-    return { success: true, filledShares: shares, filledPrice: price };
+  async placeIoc(req: VenueOrderRequest) {
+    return { success: true, filledShares: req.shares, filledPrice: req.price };
   }
 
-  async cancelSingleOrder(orderId: string) {
+  async cancel(orderId: string) {
     this.cancelledOrders.push(orderId);
     return { success: true };
   }
 
   async getOpenOrders(_conditionId: string) {
-    return { success: true, orders: [] };
+    return [];
   }
 
+  async getOrder(_orderId: string) { return null; }
   async getTokenBalance(_tokenId: string) { return 200; }
   async getBalance() { return 5000; }
 }
@@ -124,15 +127,15 @@ function createTrader(
   ws: MockWS,
   opts: Partial<ShockFadeLiveConfig> = {},
   statePath?: string,
-): { trader: ShockFadeLive; polyClient: MockPolyClient; splitClient: MockSplitClient; mergeClient: MockMergeClient } {
+): { trader: ShockFadeLive; venue: MockVenue; splitClient: MockSplitClient; mergeClient: MockMergeClient } {
   const splitClient = new MockSplitClient();
   const mergeClient = new MockMergeClient();
-  const polyClient = new MockPolyClient();
+  const venue = new MockVenue();
   const trader = new ShockFadeLive(
     ws as any,
     splitClient as any,
     mergeClient as any,
-    polyClient as any,
+    venue as any,
     {
       dryRun: true,
       maxPerGame: 100,
@@ -155,26 +158,26 @@ function createTrader(
     },
     statePath ?? path.join(os.tmpdir(), `shock-test-${Date.now()}-${Math.random().toString(36).slice(2)}.json`),
   );
-  return { trader, polyClient, splitClient, mergeClient };
+  return { trader, venue, splitClient, mergeClient };
 }
 
 async function setupTraderWithInventory(opts: Partial<ShockFadeLiveConfig> = {}): Promise<{
   ws: MockWS;
   trader: ShockFadeLive;
-  polyClient: MockPolyClient;
+  venue: MockVenue;
   splitClient: MockSplitClient;
   mergeClient: MockMergeClient;
   statePath: string;
 }> {
   const ws = new MockWS();
   const statePath = path.join(os.tmpdir(), `shock-test-${Date.now()}-${Math.random().toString(36).slice(2)}.json`);
-  const { trader, polyClient, splitClient, mergeClient } = createTrader(ws, opts, statePath);
+  const { trader, venue, splitClient, mergeClient } = createTrader(ws, opts, statePath);
 
   trader.registerTokenPair(createTestMarket());
   trader.start();
   await trader.preSplitForMarket(MARKET_SLUG);
 
-  return { ws, trader, polyClient, splitClient, mergeClient, statePath };
+  return { ws, trader, venue, splitClient, mergeClient, statePath };
 }
 
 // ============================================================================
@@ -188,7 +191,7 @@ describe("Multi-Cycle ShockFadeLive", () => {
   describe("Backward Compat (maxCyclesPerGame=1)", () => {
 
     it("single shock creates one TP keyed by shockId", async () => {
-      const { ws, trader, polyClient } = await setupTraderWithInventory({ maxCyclesPerGame: 1 });
+      const { ws, trader, venue } = await setupTraderWithInventory({ maxCyclesPerGame: 1 });
       try {
         const shock = createShock(TOKEN_A, Date.now());
         await trader.handleShock(shock);
@@ -0,0 +1,178 @@
+/**
+ * odds-collector.test.ts — OddsCollector against a local Postgres.
+ *
+ * Set ODDS_TEST_PG_URL (e.g. postgres://postgres@localhost:5432/postgres) to
+ * run the database tests; each run works in a throwaway schema that is dropped
+ * afterwards. Without it only the book-sampling maths is tested.
+ */
+
+import { describe, it, before, after } from "node:test";
+import * as assert from "node:assert/strict";
+import { Pool } from "pg";
+
+import { OddsCollector, sampleBook } from "../collectors/odds/OddsCollector";
+import { PinnacleOdds } from "../services/PinnacleOddsClient";
+import { OrderBookData } from "../services/OrderBookWS";
+import { SportsMarket, MarketState } from "../services/SportsMarketDiscovery";
+
+const PG_URL = process.env.ODDS_TEST_PG_URL;
+
+// Best level LAST on both sides, as OrderBookWebSocket stores it
+function book(bids: [number, number][], asks: [number, number][]): OrderBookData {
+  const wire = ([price, size]: [number, number]) => ({ price: String(price), size: String(size) });
+  return { bids: bids.map(wire), asks: asks.map(wire), timestamp: Date.now() };
+}
+
+function createMarket(slug: string, outcomes: [string, string], tokens: [string, string]): SportsMarket {
+  return {
+    marketSlug: slug,
+    eventSlug: slug,
+    sport: "NHL",
+    question: `${outcomes[0]} vs. ${outcomes[1]}`,
+    outcomes,
+    tokenIds: tokens,
+    outcomePrices: [0.5, 0.5],
+    gameStartTime: new Date("2026-02-10T00:00:00Z"),
+    discoveredAt: new Date(),
+    volume: 50000,
+    liquidity: 10000,
+    state: MarketState.ACTIVE,
+    stateChangedAt: new Date(),
+    sportConfig: null,
+    negRisk: false,
+  };
+}
+
+const BOS_TOR: PinnacleOdds = {
+  eventId: "evt_bos_tor",
+  sportKey: "icehockey_nhl",
+  homeTeam: "Boston Bruins",
+  awayTeam: "Toronto Maple Leafs",
+  commenceTime: new Date("2026-02-10T00:00:00Z"),
+  homePrice: 1.8,
+  awayPrice: 2.1,
+  homeImplied: 1 / 1.8,
+  awayImplied: 1 / 2.1,
+  homeFair: 0.5385,
+  awayFair: 0.4615,
+  vig: 1 / 1.8 + 1 / 2.1 - 1,
+  lastUpdate: new Date("2026-02-10T00:30:00Z"),
+};
+
+describe("sampleBook", () => {
+  it("returns best levels and size-weighted VWAP on each side", () => {
+    const s = sampleBook(book([[0.5, 100], [0.52, 50]], [[0.56, 100], [0.54, 50]]), 100)!;
+    assert.equal(s.bestBid, 0.52);
+    assert.equal(s.bestAsk, 0.54);
+    assert.ok(Math.abs(s.vwapBuy - 0.55) < 1e-9);
+    assert.ok(Math.abs(s.vwapSell - 0.51) < 1e-9);
+  });
+
+  it("uses displayed depth when the book is thinner than the size", () => {
+    const s = sampleBook(book([[0.5, 10]], [[0.6, 10]]), 100)!;
+    assert.equal(s.vwapBuy, 0.6);
+    assert.equal(s.vwapSell, 0.5);
+  });
+
+  it("skips one-sided books", () => {
+    assert.equal(sampleBook(book([[0.5, 10]], []), 100), null);
+    assert.equal(sampleBook(null, 100), null);
+  });
+});
+
+describe("OddsCollector (Postgres)", { skip: PG_URL ? false : "ODDS_TEST_PG_URL not set" }, () => {
+  const schema = `odds_test_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`;
+  let admin: Pool;
+  let collector: OddsCollector;
+  let line: PinnacleOdds = BOS_TOR;
+
+  before(async () => {
+    admin = new Pool({ connectionString: PG_URL });
+    await admin.query(`create schema ${schema}`);
+    const url = new URL(PG_URL!);
+    url.searchParams.set("options", `-c search_path=${schema}`);
+    collector = new OddsCollector(
+      { pgUrl: url.toString(), vwapShares: 100 },
+      { getMoneylineOdds: async () => [line] },
+    );
+    await collector.init();
+  });
+
+  after(async () => {
+    await collector.stop();
+    await admin.query(`drop schema ${schema} cascade`);
+    await admin.end();
+  });
+
+  it("maps markets to odds events and records lines", async () => {
+    const added = await collector.syncMarkets([
+      createMarket("nhl-bos-tor-2026-02-09", ["Maple Leafs", "Bruins"], ["tok_tor", "tok_bos"]),
+      createMarket("nhl-nyr-njd-2026-02-09", ["Rangers", "Devils"], ["tok_nyr", "tok_njd"]),
+    ]);
+    assert.equal(added.length, 2);
+    assert.equal((await collector.syncMarkets(added)).length, 0);
+
+    assert.equal(await collector.pollOdds(), 1);
+
+    const mapped = await collector.getMappedEvents();
+    assert.deepEqual(
+      mapped.map((m) => [m.marketSlug, m.providerEventId, m.homeTeam]),
+      [["nhl-bos-tor-2026-02-09", "evt_bos_tor", "Boston Bruins"]],
+    );
+
+    const lines = await collector.getLines("evt_bos_tor");
+    assert.equal(lines.length, 1);
+    assert.deepEqual([lines[0].homeOdds, lines[0].awayOdds, lines[0].bookmaker], [1.8, 2.1, "pinnacle"]);
+  });
+
+  it("samples books for mapped markets and joins them with the latest line", async () => {
+    const books: Record<string, OrderBookData> = {
+      tok_tor: book([[0.48, 200]], [[0.5, 200]]),
+      tok_bos: book([[0.5, 200]], [[0.52, 200]]),
+      tok_nyr: book([[0.4, 200]], [[0.42, 200]]),
+    };
+    const rows = await collector.sampleBooks(
+      { getOrderBook: (id: string) => books[id] ?? null },
+      new Date("2026-02-10T00:31:00Z"),
+    );
+    assert.equal(rows, 2); // NYR/NJD has no odds event
+
+    const series = await collector.getSpreadSeries("nhl-bos-tor-2026-02-09");
+    assert.equal(series.length, 2);
+
+    const bos = series.find((p) => p.outcome === "Bruins")!;
+    assert.equal(bos.tokenId, "tok_bos");
+    assert.equal(bos.bestBid, 0.5);
+    assert.equal(bos.vwapBuy, 0.52);
+    assert.ok(bos.fair !== null && Math.abs(bos.fair - 0.5385) < 1e-3);
+    assert.equal(bos.spreadCents, -2.8);
+
+    const tor = series.find((p) => p.outcome === "Maple Leafs")!;
+    assert.ok(tor.fair !== null && Math.abs(tor.fair - 0.4615) < 1e-3);
+  });
+
+  it("leaves fair value empty for samples older than the first line", async () => {
+    await collector.sampleBooks(
+      { getOrderBook: () => book([[0.5, 10]], [[0.52, 10]]) },
+      new Date("2026-02-10T00:00:00Z"),
+    );
+    const early = await collector.getSpreadSeries("nhl-bos-tor-2026-02-09");
+    assert.equal(early[0].fair, null);
+    assert.equal(early[0].spreadCents, null);
+  });
+
+  it("stores a line once per bookmaker update, however often it is polled", async () => {
+    await collector.pollOdds();
+    await collector.pollOdds();
+    assert.equal((await collector.getLines("evt_bos_tor")).length, 1);
+
+    line = { ...BOS_TOR, homePrice: 1.75, awayPrice: 2.2, lastUpdate: new Date("2026-02-10T00:45:00Z") };
+    await collector.pollOdds();
+    await collector.pollOdds();
+    const lines = await collector.getLines("evt_bos_tor");
+    assert.deepEqual(lines.map((l) => [l.homeOdds, l.ts.toISOString()]), [
+      [1.8, "2026-02-10T00:30:00.000Z"],
+      [1.75, "2026-02-10T00:45:00.000Z"],
+    ]);
+  });
+});
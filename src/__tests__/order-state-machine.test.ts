@@ -0,0 +1,230 @@
+/**
+ * order-state-machine.test.ts — OrderStateMachine transitions, fill dedupe and
+ * journal replay, plus ShockFadeLive booking each fill once and recovering
+ * order state from the journal after a crash.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+
+import {
+  OrderJournal,
+  OrderStateMachine,
+  RejectedTransition,
+} from "../services/OrderStateMachine";
+import { ShockFadeLive, orderJournalPath } from "../strategies/ShockFadeLive";
+import { ShockEvent } from "../strategies/ShockFadeDetector";
+import { SportsMarket } from "../services/SportsMarketDiscovery";
+import { MockMatchingEngine } from "../tests/mock-clob/MockMatchingEngine";
+import { MockClobVenue } from "../tests/mock-clob/MockClobVenue";
+import { OrderFillEvent } from "../services/UserChannelWS";
+import { MockWS, removeStateFiles, sportsMarket, tmpPath } from "./fixtures";
+
+const TOKEN_A = "2001";
+const TOKEN_B = "2002";
+const MARKET_SLUG = "nba-bos-nyk-2026-03-01";
+const CONDITION_ID = "0xcond_bos_nyk";
+
+function machineWithRejections(journal: OrderJournal | null = null) {
+  const machine = new OrderStateMachine(journal);
+  const rejected: RejectedTransition[] = [];
+  machine.on("rejected", (r: RejectedTransition) => rejected.push(r));
+  return { machine, rejected };
+}
+
+function createMarket(): SportsMarket {
+  return sportsMarket({
+    marketSlug: MARKET_SLUG, conditionId: CONDITION_ID, tokenIds: [TOKEN_A, TOKEN_B],
+    outcomes: ["Celtics", "Knicks"], question: "Celtics vs. Knicks",
+  });
+}
+
+function createShock(): ShockEvent {
+  return {
+    type: "shock",
+    tokenId: TOKEN_A,
+    marketSlug: MARKET_SLUG,
+    direction: "up",
+    magnitude: 0.08,
+    zScore: 4.5,
+    preShockPrice: 0.5,
+    currentPrice: 0.58,
+    timestamp: Date.now(),
+  };
+}
+
+const tick = () => new Promise((r) => setTimeout(r, 20));
+
+describe("OrderStateMachine", () => {
+  it("walks PENDING_PLACE → RESTING → PARTIAL → FILLED and rejects illegal moves", () => {
+    const { machine, rejected } = machineWithRejections();
+    machine.create("o1", "ENTRY", TOKEN_A, 10);
+    assert.equal(machine.acknowledge("o1", "v1"), true);
+
+    const first = machine.fill("o1", "t1", 4, 0.6);
+    assert.equal(first!.first, true);
+    assert.equal(machine.get("o1")!.state, "PARTIAL");
+
+    machine.fill("o1", "t2", 6, 0.62);
+    const order = machine.get("o1")!;
+    assert.equal(order.state, "FILLED");
+    assert.ok(Math.abs(order.avgFillPrice! - 0.612) < 1e-9);
+
+    assert.equal(machine.cancel("o1", "late cancel"), false);
+    assert.equal(machine.fail("o1", "nope"), false);
+    assert.deepEqual(rejected.map((r) => r.event), ["CANCEL", "FAIL"]);
+  });
+
+  it("counts a trade once however often the stream repeats it", () => {
+    const { machine } = machineWithRejections();
+    machine.create("o1", "ENTRY", TOKEN_A, 10);
+    machine.acknowledge("o1", "v1");
+
+    assert.equal(machine.streamFill("v1", "trade-1", 5, 0.6)!.size, 5);
+    assert.equal(machine.streamFill("v1", "trade-1", 5, 0.6), null); // MINED
+    assert.equal(machine.streamFill("v1", "trade-1", 5, 0.6), null); // CONFIRMED
+    assert.equal(machine.streamFill("unknown", "trade-9", 5, 0.6), null);
+    assert.equal(machine.get("o1")!.filled, 5);
+  });
+
+  it("nets stream trades off against a fill the placement response already reported", () => {
+    const { machine } = machineWithRejections();
+    machine.create("o1", "ENTRY", TOKEN_A, 10);
+    machine.acknowledge("o1", "v1");
+    machine.fill("o1", "placement:v1", 4, 0.6, { placement: true });
+
+    assert.equal(machine.streamFill("v1", "trade-1", 4, 0.6), null);
+    const rest = machine.streamFill("v1", "trade-2", 6, 0.61);
+    assert.equal(rest!.size, 6);
+    assert.equal(machine.get("o1")!.state, "FILLED");
+  });
+
+  it("rejects a second cancel and flags fills that beat the cancel as late", () => {
+    const { machine } = machineWithRejections();
+    machine.create("o1", "ENTRY", TOKEN_A, 10);
+    machine.acknowledge("o1", "v1");
+
+    assert.equal(machine.cancel("o1", "strategy"), true);
+    assert.equal(machine.cancel("o1", "venue"), false);
+
+    const late = machine.streamFill("v1", "trade-1", 3, 0.6)!;
+    assert.equal(late.late, true);
+    assert.equal(machine.get("o1")!.state, "CANCELLED");
+    machine.streamFill("v1", "trade-2", 7, 0.6);
+    assert.equal(machine.get("o1")!.state, "FILLED");
+  });
+
+  it("replays the journal into the same state and compacts settled orders", () => {
+    const file = tmpPath("order-journal", ".jsonl");
+    try {
+      const { machine } = machineWithRejections(new OrderJournal(file));
+      machine.create("o1", "ENTRY", TOKEN_A, 10);
+      machine.acknowledge("o1", "v1");
+      machine.streamFill("v1", "trade-1", 4, 0.6);
+      machine.create("o2", "TP", TOKEN_B, 5);
+      machine.acknowledge("o2", "v2");
+      machine.cancel("o2", "replaced");
+      fs.appendFileSync(file, '{"seq": 99, "key": "o1", "ev'); // torn write
+
+      const replayed = new OrderStateMachine(new OrderJournal(file));
+      assert.equal(replayed.replay(), 6);
+      assert.deepEqual(replayed.get("o1"), machine.get("o1"));
+      assert.equal(replayed.getByVenueId("v2")!.state, "CANCELLED");
+      assert.equal(replayed.streamFill("v1", "trade-1", 4, 0.6), null);
+
+      assert.equal(replayed.compact(60_000, Date.now() + 120_000), 1);
+      const compacted = new OrderStateMachine(new OrderJournal(file));
+      compacted.replay();
+      assert.equal(compacted.get("o2"), undefined);
+      assert.equal(compacted.get("o1")!.filled, 4);
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+});
+
+describe("ShockFadeLive order lifecycle", () => {
+  it("books a ladder fill once across stream repeats and the REST poll", async () => {
+    const engine = new MockMatchingEngine();
+    engine.registerMarket(CONDITION_ID, [TOKEN_A, TOKEN_B]);
+    engine.setBook(TOKEN_A, [{ price: 0.55, size: 100 }], []);
+    engine.setBook(TOKEN_B, [{ price: 0.35, size: 100 }], []);
+    const venue = new MockClobVenue(engine, "bot", 1000);
+    const statePath = tmpPath("osm-live");
+
+    const trader = new ShockFadeLive(new MockWS() as any, venue as any, venue as any, venue, {
+      dryRun: false,
+      maxCyclesPerGame: 1,
+      ladderSizes: [5, 10, 15],
+    }, statePath);
+    try {
+      trader.registerTokenPair(createMarket());
+      trader.start();
+      await trader.preSplitForMarket(MARKET_SLUG);
+      await trader.handleShock(createShock());
+
+      const l1 = trader.getAllOrders().find((o) => o.level === 1)!;
+      assert.equal(l1.status, "RESTING");
+
+      const fills: OrderFillEvent[] = [];
+      venue.on("orderFill", (f: OrderFillEvent) => fills.push(f));
+      engine.trade(TOKEN_A, "BUY", l1.price, l1.shares);
+      await tick();
+      venue.emit("orderFill", { ...fills[0], status: "MINED" });
+      venue.emit("orderFill", { ...fills[0], status: "CONFIRMED" });
+      await tick();
+      await (trader as any).pollRestingOrderFills();
+
+      assert.equal(l1.status, "FILLED");
+      assert.equal(trader.getAllPositions().length, 1);
+      assert.equal(trader.getStats().totalOrdersFilled, 1);
+      assert.equal(trader.getCumulativeTPs()[0].totalEntryShares, l1.shares);
+    } finally {
+      trader.stop();
+      removeStateFiles(statePath);
+    }
+  });
+
+  it("recovers transitions the state snapshot missed from the journal", () => {
+    const statePath = tmpPath("osm-recover");
+    const order = (id: string, level: number, shares: number) => ({
+      id, orderId: `v_${id}`, tokenId: TOKEN_A, marketSlug: MARKET_SLUG, conditionId: CONDITION_ID,
+      price: 0.6, shares, level, status: "RESTING", createdAt: Date.now(), filledAt: null, fillPrice: null, shockId: "shock-1",
+    });
+    fs.writeFileSync(statePath, JSON.stringify({
+      model: "shock-fade-live",
+      inventory: [{ marketSlug: MARKET_SLUG, conditionId: CONDITION_ID, tokenA: TOKEN_A, tokenB: TOKEN_B, sharesA: 20, sharesB: 35, totalSplitCost: 35, splitCount: 1, negRisk: false }],
+      orders: [order("o1", 1, 5), order("o2", 2, 10)],
+      positions: [], tradeHistory: [], pnlHistory: [], cumulativeTPs: [],
+    }));
+
+    // After the last snapshot: L1 filled, L2 cancelled
+    const journal = new OrderStateMachine(new OrderJournal(orderJournalPath(statePath)));
+    for (const o of [order("o1", 1, 5), order("o2", 2, 10)]) {
+      journal.create(o.id, "ENTRY", TOKEN_A, o.shares, o.shockId);
+      journal.acknowledge(o.id, o.orderId);
+    }
+    journal.streamFill("v_o1", "trade-1", 5, 0.61);
+    journal.cancel("o2", "expired");
+
+    const trader = new ShockFadeLive(new MockWS() as any, {} as any, {} as any, new MockClobVenue(new MockMatchingEngine()), { dryRun: true }, statePath);
+    try {
+      trader.registerTokenPair(createMarket());
+      trader.start();
+
+      const byId = new Map(trader.getAllOrders().map((o) => [o.id, o]));
+      assert.equal(byId.get("o1")!.status, "FILLED");
+      assert.equal(byId.get("o1")!.fillPrice, 0.61);
+      assert.equal(byId.get("o2")!.status, "CANCELLED");
+      assert.equal(trader.getInventory(MARKET_SLUG)!.sharesA, 30);
+
+      const [tp] = trader.getCumulativeTPs();
+      assert.equal(tp.totalEntryShares, 5);
+      assert.ok(Math.abs(tp.blendedEntryPrice - 0.61) < 1e-9);
+    } finally {
+      trader.stop();
+      removeStateFiles(statePath);
+    }
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * pinnacle-odds.test.ts — PinnacleOddsClient against a local fixture server,
+ * plus the ShockFadeLive fair-value gate wired to it.
+ *
+ * The fixture server speaks The Odds API v4 shape (h2h, decimal odds) and sets
+ * the x-requests-* credit headers, so no real API key or network is needed.
+ */
+
+import { describe, it, before, after, beforeEach } from "node:test";
+import * as assert from "node:assert/strict";
+import * as http from "http";
+import { AddressInfo } from "net";
+
+import { FairValueSource, PinnacleOddsClient, teamsMatch } from "../services/PinnacleOddsClient";
+import { ShockFadeLive } from "../strategies/ShockFadeLive";
+import { ShockEvent } from "../strategies/ShockFadeDetector";
+import { SportsMarket } from "../services/SportsMarketDiscovery";
+import { MockWS, sportsMarket, tmpPath } from "./fixtures";
+
+// ============================================================================
+// FIXTURE SERVER
+// ============================================================================
+
+const NHL_ODDS = [
+  {
+    id: "evt_bos_tor",
+    sport_key: "icehockey_nhl",
+    commence_time: "2026-02-10T00:00:00Z",
+    home_team: "Boston Bruins",
+    away_team: "Toronto Maple Leafs",
+    bookmakers: [
+      {
+        key: "pinnacle",
+        last_update: "2026-02-10T00:30:00Z",
+        markets: [
+          {
+            key: "h2h",
+            outcomes: [
+              { name: "Boston Bruins", price: 1.8 },
+              { name: "Toronto Maple Leafs", price: 2.1 },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+];
+
+class FixtureServer {
+  oddsCalls = 0;
+  remaining = 100;
+  lastApiKey: string | null = null;
+  private server = http.createServer((req, res) => this.handle(req, res));
+
+  get baseUrl(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  listen(): Promise<void> {
+    return new Promise((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    this.lastApiKey = url.searchParams.get("apiKey");
+
+    if (url.pathname === "/v4/sports") {
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify([{ key: "icehockey_nhl", title: "NHL", active: true }]));
+      return;
+    }
+
+    if (url.pathname === "/v4/sports/icehockey_nhl/odds") {
+      this.oddsCalls++;
+      this.remaining--;
+      res.writeHead(200, {
+        "content-type": "application/json",
+        "x-requests-used": String(500 - this.remaining),
+        "x-requests-remaining": String(this.remaining),
+        "x-requests-last": "1",
+      });
+      res.end(JSON.stringify(NHL_ODDS));
+      return;
+    }
+
+    res.writeHead(404);
+    res.end();
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const TOKEN_BOS = "0xbos_token";
+const TOKEN_TOR = "0xtor_token";
+const MARKET_SLUG = "nhl-bos-tor-2026-02-09";
+
+function createMarket(): SportsMarket {
+  return sportsMarket({
+    marketSlug: MARKET_SLUG, conditionId: "0xcondition_bos_tor", tokenIds: [TOKEN_BOS, TOKEN_TOR],
+    outcomes: ["Bruins", "Maple Leafs"], sport: "NHL", question: "Bruins vs. Maple Leafs",
+  });
+}
+
+function createShock(currentPrice: number): ShockEvent {
+  return {
+    type: "shock",
+    tokenId: TOKEN_BOS,
+    marketSlug: MARKET_SLUG,
+    direction: "up",
+    magnitude: 0.08,
+    zScore: 4.5,
+    preShockPrice: currentPrice - 0.08,
+    currentPrice,
+    timestamp: Date.now(),
+  };
+}
+
+async function createGatedTrader(source: FairValueSource, marginCents = 3): Promise<ShockFadeLive> {
+  const noop = { success: true, transactionHash: "0xmock" };
+  const trader = new ShockFadeLive(
+    new MockWS() as any,
+    { split: async () => noop, ensureCTFApprovals: async () => ({ success: true }) } as any,
+    { merge: async () => noop } as any,
+    {
+      getOpenOrders: async () => [],
+      getTokenBalance: async () => 200,
+      getBalance: async () => 5000,
+    } as any,
+    {
+      dryRun: true,
+      maxCyclesPerGame: 1,
+      ladderSizes: [5, 10, 15],
+      ladderLevels: 3,
+      fairValueGate: true,
+      fairValueMarginCents: marginCents,
+    },
+    tmpPath("pinnacle-test"),
+  );
+  trader.registerTokenPair(createMarket());
+  trader.setFairValueSource(source);
+  trader.start();
+  await trader.preSplitForMarket(MARKET_SLUG);
+  return trader;
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe("PinnacleOddsClient", () => {
+  const server = new FixtureServer();
+
+  before(() => server.listen());
+  after(() => server.close());
+  beforeEach(() => {
+    server.oddsCalls = 0;
+    server.remaining = 100;
+  });
+
+  it("de-vigs h2h decimal odds into fair probabilities", async () => {
+    const client = new PinnacleOddsClient({ apiKey: "k", baseUrl: server.baseUrl });
+    const [game] = await client.getMoneylineOdds("NHL");
+
+    assert.equal(game.homeTeam, "Boston Bruins");
+    assert.ok(Math.abs(game.homeImplied - 1 / 1.8) < 1e-9);
+    assert.ok(Math.abs(game.homeFair + game.awayFair - 1) < 1e-9);
+    assert.ok(Math.abs(game.homeFair - 0.5385) < 1e-3);
+    assert.ok(Math.abs(game.vig - (1 / 1.8 + 1 / 2.1 - 1)) < 1e-9);
+    assert.equal(server.lastApiKey, "k");
+  });
+
+  it("serves repeat calls from cache and shares in-flight requests", async () => {
+    const client = new PinnacleOddsClient({ apiKey: "k", baseUrl: server.baseUrl, cacheTtlMs: 60_000 });
+    await Promise.all([client.getMoneylineOdds("NHL"), client.getMoneylineOdds("NHL")]);
+    await client.getMoneylineOdds("NHL");
+
+    assert.equal(server.oddsCalls, 1);
+    assert.deepEqual(
+      { remaining: client.getCreditUsage().remaining, sessionUsed: client.getCreditUsage().sessionUsed },
+      { remaining: 99, sessionUsed: 1 },
+    );
+  });
+
+  it("stops spending credits at the reserve and serves the stale cache", async () => {
+    server.remaining = 6;
+    const client = new PinnacleOddsClient({ apiKey: "k", baseUrl: server.baseUrl, cacheTtlMs: 0, minCreditsRemaining: 5 });
+
+    const first = await client.getMoneylineOdds("NHL");
+    const second = await client.getMoneylineOdds("NHL");
+
+    assert.equal(server.oddsCalls, 1);
+    assert.equal(second, first);
+    assert.equal(client.getCreditUsage().skippedCalls, 1);
+  });
+
+  it("honours the per-session credit cap", async () => {
+    const client = new PinnacleOddsClient({ apiKey: "k", baseUrl: server.baseUrl, cacheTtlMs: 0, maxCreditsPerSession: 2 });
+    for (let i = 0; i < 4; i++) await client.getMoneylineOdds("NHL");
+    assert.equal(server.oddsCalls, 2);
+  });
+
+  it("maps Polymarket outcomes to the right side of the game", async () => {
+    const client = new PinnacleOddsClient({ apiKey: "k", baseUrl: server.baseUrl });
+    const market = createMarket();
+
+    const bos = await client.getFairValue(market, TOKEN_BOS);
+    const tor = await client.getFairValue(market, TOKEN_TOR);
+    assert.ok(bos !== null && tor !== null);
+    assert.ok(Math.abs(bos + tor - 1) < 1e-9);
+    assert.ok(bos > tor);
+
+    assert.equal(await client.getFairValue({ ...market, outcomes: ["Rangers", "Devils"] }, TOKEN_BOS), null);
+  });
+
+  it("matches sportsbook names to Polymarket outcomes by nickname", () => {
+    assert.ok(teamsMatch("Toronto Maple Leafs", "Maple Leafs"));
+    assert.ok(teamsMatch("Boston Red Sox", "Red Sox"));
+    assert.ok(!teamsMatch("Boston Bruins", "Maple Leafs"));
+  });
+
+  it("computes overshoot in cents", () => {
+    assert.equal(PinnacleOddsClient.getOvershoot(0.62, 0.54), 8);
+    assert.equal(PinnacleOddsClient.getOvershoot(0.5, 0.54), -4);
+  });
+
+  it("rejects calls without an API key", async () => {
+    const client = new PinnacleOddsClient({ apiKey: "", baseUrl: server.baseUrl });
+    await assert.rejects(client.getMoneylineOdds("NHL"), /THE_ODDS_API_KEY/);
+  });
+});
+
+describe("ShockFadeLive fair-value gate", () => {
+  const server = new FixtureServer();
+
+  before(() => server.listen());
+  after(() => server.close());
+
+  // Bruins fair ≈ 53.8¢
+  it("ladders when the spike overshoots fair value by the margin", async () => {
+    const trader = await createGatedTrader(new PinnacleOddsClient({ apiKey: "k", baseUrl: server.baseUrl }));
+    try {
+      await trader.handleShock(createShock(0.62));
+      assert.equal(trader.getActiveOrders().length, 3);
+    } finally {
+      trader.stop();
+    }
+  });
+
+  it("skips when the sportsbook agrees with the spike", async () => {
+    const trader = await createGatedTrader(new PinnacleOddsClient({ apiKey: "k", baseUrl: server.baseUrl }));
+    try {
+      await trader.handleShock(createShock(0.55));
+      assert.equal(trader.getActiveOrders().length, 0);
+    } finally {
+      trader.stop();
+    }
+  });
+
+  it("falls back to z-score only when no fair value is available", async () => {
+    const trader = await createGatedTrader({ getFairValue: async () => null });
+    try {
+      await trader.handleShock(createShock(0.55));
+      assert.equal(trader.getActiveOrders().length, 3);
+    } finally {
+      trader.stop();
+    }
+  });
+});
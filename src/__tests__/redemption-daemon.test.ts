@@ -0,0 +1,163 @@
+/**
+ * redemption-daemon.test.ts — winners booked at $1 are redeemed once the
+ * market resolves: attempts go to the redemption ledger, losers and
+ * already-redeemed tokens are dropped, rate limits back off without using
+ * the attempt budget, and claims survive a restart.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  MarketResolution,
+  RedemptionDaemon,
+  RedemptionLedger,
+  Redeemer,
+  WinningShares,
+  redemptionClaimsPath,
+} from "../services/RedemptionDaemon";
+import { ProxyRedemptionResult } from "../services/ProxyRedemptionClient";
+
+const WINNER: WinningShares = {
+  marketSlug: "nba-bos-nyk-2026-03-04",
+  conditionId: "0xcond_bos_nyk",
+  tokenId: "6001",
+  outcomeIndex: 1,
+  shares: 12,
+  negRisk: false,
+};
+
+class FakeRedeemer implements Redeemer {
+  calls: Array<{ conditionId: string; outcomeIndex: number; negRisk?: boolean; shares?: number }> = [];
+  result: ProxyRedemptionResult = { success: true, transactionHash: "0xredeem1" };
+  async redeemWithRetry(conditionId: string, outcomeIndex: number, _r?: number, _d?: number, negRisk?: boolean, shares?: number) {
+    this.calls.push({ conditionId, outcomeIndex, negRisk, shares });
+    return this.result;
+  }
+}
+
+/** redemption_tracking with DatabaseService's two-attempt budget */
+class FakeLedger implements RedemptionLedger {
+  attempts: Array<{ conditionId: string; success: boolean; txHash?: string }> = [];
+  recordRedemptionAttempt(conditionId: string, _slug: string, success: boolean, txHash?: string) {
+    this.attempts.push({ conditionId, success, txHash });
+  }
+  shouldAttemptRedemption(conditionId: string) {
+    return this.attempts.filter((a) => a.conditionId === conditionId).length < 2;
+  }
+}
+
+function setup(file: string) {
+  const redeemer = new FakeRedeemer();
+  const ledger = new FakeLedger();
+  const balances = new Map<string, number>([["6001", 12]]);
+  const resolutions = new Map<string, MarketResolution>();
+  const daemon = new RedemptionDaemon(
+    redeemer,
+    ledger,
+    { getTokenBalance: async (t) => balances.get(t) ?? 0 },
+    file,
+    { getResolution: async (c) => resolutions.get(c) ?? { resolved: false } },
+  );
+  return { daemon, redeemer, ledger, balances, resolutions };
+}
+
+function tmpFile(): string {
+  return path.join(os.tmpdir(), `redemptions-${Date.now()}-${Math.random().toString(36).slice(2)}.json`);
+}
+
+describe("RedemptionDaemon", () => {
+  it("waits for resolution, then redeems the held winners and records the attempt", async () => {
+    const file = tmpFile();
+    try {
+      const { daemon, redeemer, ledger, resolutions } = setup(file);
+      daemon.track(WINNER);
+      assert.equal(daemon.getUnredeemedValue(), 12);
+
+      await daemon.tick();
+      assert.equal(redeemer.calls.length, 0);
+
+      resolutions.set(WINNER.conditionId, { resolved: true, winningTokenId: "6001" });
+      await daemon.tick();
+      assert.deepEqual(redeemer.calls, [{ conditionId: WINNER.conditionId, outcomeIndex: 1, negRisk: false, shares: 12 }]);
+      assert.deepEqual(ledger.attempts, [{ conditionId: WINNER.conditionId, success: true, txHash: "0xredeem1" }]);
+      assert.equal(daemon.getClaims()[0].status, "REDEEMED");
+      assert.equal(daemon.getUnredeemedValue(), 0);
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+
+  it("drops claims that resolved against us or were redeemed elsewhere", async () => {
+    const file = tmpFile();
+    try {
+      const { daemon, redeemer, resolutions, balances } = setup(file);
+      daemon.track(WINNER);
+      daemon.track({ ...WINNER, conditionId: "0xcond_other", tokenId: "7001" });
+      balances.set("7001", 0);
+      resolutions.set(WINNER.conditionId, { resolved: true, winningTokenId: "6002" });
+
+      const lost: string[] = [];
+      const dropped: string[] = [];
+      daemon.on("lost", (c) => lost.push(c.tokenId));
+      daemon.on("dropped", (c) => dropped.push(c.tokenId));
+      await daemon.tick();
+
+      assert.deepEqual(lost, ["6001"]);
+      assert.deepEqual(dropped, ["7001"]);
+      assert.equal(redeemer.calls.length, 0);
+      assert.equal(daemon.getUnredeemedValue(), 0);
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+
+  it("backs off on rate limits and gives up once the attempt budget is spent", async () => {
+    const file = tmpFile();
+    try {
+      const { daemon, redeemer, ledger, resolutions } = setup(file);
+      daemon.track(WINNER);
+      resolutions.set(WINNER.conditionId, { resolved: true, winningTokenId: "6001" });
+
+      redeemer.result = { success: false, error: "RATE_LIMITED", rateLimitResetSeconds: 600 };
+      await daemon.tick();
+      await daemon.tick();
+      assert.equal(redeemer.calls.length, 1);
+      assert.equal(ledger.attempts.length, 0);
+
+      daemon.getClaims()[0].nextAttemptAt = 0;
+      redeemer.result = { success: false, error: "Failed after 3 attempts" };
+      await daemon.tick();
+      await daemon.tick();
+      await daemon.tick();
+      assert.equal(ledger.attempts.length, 2);
+      assert.equal(daemon.getClaims()[0].status, "GAVE_UP");
+      // Still owed — stays on the AUM line until redeemed by hand
+      assert.equal(daemon.getUnredeemedValue(), 12);
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+
+  it("keeps pending claims across a restart", async () => {
+    const file = tmpFile();
+    try {
+      const first = setup(file);
+      first.daemon.track(WINNER);
+      first.daemon.track({ ...WINNER, shares: 3 });
+
+      const second = setup(file);
+      assert.equal(second.daemon.getUnredeemedValue(), 15);
+      second.resolutions.set(WINNER.conditionId, { resolved: true, winningTokenId: "6001" });
+      await second.daemon.tick();
+      // Never more than the wallet holds
+      assert.equal(second.redeemer.calls[0].shares, 12);
+      assert.equal(redemptionClaimsPath("./data/shock-fade-live.db"), "./data/shock-fade-live-redemptions.json");
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * replay-backtest.test.ts — the event-sourced replay: VirtualClock ordering
+ * and global patching, ReplayExchange split/merge and resting-sell fills, and
+ * a small recorded fixture replayed end to end through the real detector and
+ * trader with its fills and P&L asserted.
+ *
+ * The fixture replay skips where better-sqlite3's native binding isn't built.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import Database from "better-sqlite3";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { VirtualClock } from "../backtest/replay/VirtualClock";
+import { ReplayMarketFeed } from "../backtest/replay/ReplayMarketFeed";
+import { ReplayExchange } from "../backtest/replay/ReplayExchange";
+import { ReplayBacktest, ReplayResult } from "../backtest/replay/ReplayBacktest";
+import { createFillModel } from "../backtest/FillModel";
+import { sqliteUnavailable } from "./fixtures";
+
+const skip = sqliteUnavailable();
+
+const SLUG = "nhl-bos-tor-2026-02-09";
+const CONDITION_ID = "0xfixture";
+const TOKEN_BOS = "101";
+const TOKEN_TOR = "102";
+const T0 = Date.UTC(2026, 1, 9, 20, 0);
+
+describe("VirtualClock", () => {
+  it("fires timers in due order, ties by scheduling order, and reschedules intervals", async () => {
+    const clock = new VirtualClock(T0);
+    const fired: string[] = [];
+    clock.install();
+    try {
+      setTimeout(() => fired.push(`b@${Date.now() - T0}`), 200);
+      setTimeout(() => fired.push(`a@${Date.now() - T0}`), 100);
+      setTimeout(() => fired.push(`c@${Date.now() - T0}`), 200);
+      const tick = setInterval(() => fired.push(`i@${Date.now() - T0}`), 150);
+      const cancelled = setTimeout(() => fired.push("never"), 50);
+      clearTimeout(cancelled);
+
+      // A timer scheduled from a callback lands relative to the virtual now
+      setTimeout(() => setTimeout(() => fired.push(`nested@${Date.now() - T0}`), 10), 250);
+
+      await clock.advanceTo(T0 + 320);
+      clearInterval(tick);
+      await clock.advanceBy(1000);
+
+      assert.deepEqual(fired, ["a@100", "i@150", "b@200", "c@200", "nested@260", "i@300"]);
+      assert.equal(clock.now(), T0 + 1320);
+      assert.equal(clock.pendingTimers(), 0);
+    } finally {
+      clock.uninstall();
+    }
+  });
+
+  it("lets async work started by a timer settle before the next timer fires", async () => {
+    const clock = new VirtualClock(T0);
+    const fired: string[] = [];
+    clock.install();
+    try {
+      setTimeout(async () => {
+        await Promise.resolve();
+        await Promise.resolve();
+        fired.push("first settled");
+      }, 10);
+      setTimeout(() => fired.push("second"), 10);
+      await clock.advanceBy(10);
+      assert.deepEqual(fired, ["first settled", "second"]);
+    } finally {
+      clock.uninstall();
+    }
+  });
+
+  it("patches Date.now and the timer globals only while installed", async () => {
+    const real = { now: Date.now, setTimeout, setInterval, clearTimeout, clearInterval };
+    const clock = new VirtualClock(T0);
+
+    clock.install();
+    try {
+      assert.equal(Date.now(), T0);
+      assert.notEqual(setTimeout, real.setTimeout);
+      setTimeout(() => assert.fail("discarded on uninstall"), 10);
+      assert.equal(clock.pendingTimers(), 1);
+      await clock.advanceTo(T0 - 5000); // never backwards
+      assert.equal(Date.now(), T0);
+    } finally {
+      clock.uninstall();
+    }
+
+    assert.equal(Date.now, real.now);
+    assert.equal(setTimeout, real.setTimeout);
+    assert.equal(setInterval, real.setInterval);
+    assert.equal(clearTimeout, real.clearTimeout);
+    assert.equal(clearInterval, real.clearInterval);
+    assert.equal(clock.pendingTimers(), 0);
+    assert.ok(Math.abs(Date.now() - real.now()) < 1000);
+  });
+});
+
+describe("ReplayExchange", () => {
+  function exchange() {
+    const feed = new ReplayMarketFeed(100);
+    feed.addTokens([TOKEN_BOS, TOKEN_TOR]);
+    const ex = new ReplayExchange(feed, { startingUsdc: 100, wsLatencyMs: 0 }, createFillModel("queue", { trade: "buy", bidCross: true }));
+    ex.registerMarket(CONDITION_ID, TOKEN_BOS, TOKEN_TOR);
+    return { feed, ex };
+  }
+
+  it("splits and merges against the USDC balance, including batches", async () => {
+    const { ex } = exchange();
+    assert.equal((await ex.split(CONDITION_ID, 40)).success, true);
+    assert.equal((await ex.split(CONDITION_ID, 100)).success, false);
+    assert.equal(await ex.getTokenBalance(TOKEN_BOS), 40);
+    assert.equal(ex.getUsdcBalance(), 60);
+
+    const batch = await ex.mergeBatch([
+      { conditionId: CONDITION_ID, amount: 15, negRisk: false },
+      { conditionId: CONDITION_ID, amount: 15, negRisk: false },
+    ]);
+    assert.deepEqual(batch.results.map((r) => r.success), [true, true]);
+    assert.equal(batch.transactions, 2);
+    assert.equal(await ex.getTokenBalance(TOKEN_TOR), 10);
+    assert.equal(ex.getUsdcBalance(), 90);
+    assert.equal((await ex.merge(CONDITION_ID, 20)).success, false);
+  });
+
+  it("fills a resting sell when the bid crosses it, and not after a cancel", async () => {
+    const { feed, ex } = exchange();
+    await ex.split(CONDITION_ID, 30);
+    feed.applyTopOfBook(TOKEN_BOS, 0.55, 0.57, T0);
+
+    const first = await ex.placeLimit({ tokenId: TOKEN_BOS, side: "SELL", shares: 10, price: 0.57 });
+    const second = await ex.placeLimit({ tokenId: TOKEN_BOS, side: "SELL", shares: 10, price: 0.6 });
+    assert.equal(first.filledShares, 0);
+    assert.equal((await ex.cancel(second.orderId!)).success, true);
+
+    feed.applyTopOfBook(TOKEN_BOS, 0.61, 0.63, T0 + 1000);
+    ex.onBookUpdate(TOKEN_BOS);
+
+    assert.deepEqual(ex.getFills().map((f) => [f.orderId, f.size, f.price]), [[first.orderId, 10, 0.57]]);
+    assert.equal((await ex.getOrder(first.orderId!))?.status, "MATCHED");
+    assert.equal((await ex.getOrder(second.orderId!))?.status, "CANCELED");
+    assert.equal(await ex.getTokenBalance(TOKEN_BOS), 20);
+    assert.ok(Math.abs(ex.getUsdcBalance() - (70 + 5.7)) < 1e-9);
+  });
+});
+
+/**
+ * Recorder-shaped fixture: a quiet BOS book, a 6¢ jump with a BOS goal a
+ * second later, the bid running through the whole ladder, then TOR recovering
+ * through the cumulative take-profit.
+ */
+function writeFixture(dbPath: string): void {
+  const db = new Database(dbPath);
+  db.exec(`
+    CREATE TABLE markets (market_slug TEXT PRIMARY KEY, condition_id TEXT, sport TEXT,
+      outcome1 TEXT, outcome2 TEXT, token1 TEXT, token2 TEXT, created_at INTEGER);
+    CREATE TABLE snapshots (id INTEGER PRIMARY KEY AUTOINCREMENT, ts INTEGER, market_slug TEXT,
+      token_id TEXT, best_bid REAL, best_ask REAL, mid_price REAL);
+    CREATE TABLE trades (id INTEGER PRIMARY KEY AUTOINCREMENT, ts INTEGER, market_slug TEXT,
+      token_id TEXT, price REAL, size REAL, side TEXT);
+    CREATE TABLE game_events (id INTEGER PRIMARY KEY AUTOINCREMENT, ts INTEGER, market_slug TEXT,
+      sportradar_game_id TEXT, event_type TEXT, team TEXT, period TEXT, clock TEXT, description TEXT);
+  `);
+  db.prepare(`INSERT INTO markets VALUES (?, ?, 'NHL', 'Bruins', 'Maple Leafs', ?, ?, ?)`)
+    .run(SLUG, CONDITION_ID, TOKEN_BOS, TOKEN_TOR, T0);
+
+  const snapshot = db.prepare(`INSERT INTO snapshots (ts, market_slug, token_id, best_bid, best_ask, mid_price) VALUES (?, ?, ?, ?, ?, ?)`);
+  /** Both sides of a 2¢-wide book, BOS bid at `bid` */
+  const book = (offsetMs: number, bid: number) => {
+    snapshot.run(T0 + offsetMs, SLUG, TOKEN_BOS, bid, bid + 0.02, bid + 0.01);
+    snapshot.run(T0 + offsetMs, SLUG, TOKEN_TOR, 0.98 - bid, 1 - bid, 0.99 - bid);
+  };
+  [0.49, 0.49, 0.5, 0.49, 0.49, 0.49, 0.5, 0.49, 0.49, 0.49].forEach((bid, i) => book(i * 1000, bid));
+  book(10_000, 0.55); // shock: BOS mid 50¢ → 56¢
+  db.prepare(`INSERT INTO game_events (ts, market_slug, event_type, team, period, clock) VALUES (?, ?, 'goal', 'BOS', '2', '12:00')`)
+    .run(T0 + 11_000, SLUG);
+  book(13_000, 0.59); // bid through L1-L3 (57/58/59¢)
+  book(20_000, 0.52);
+  book(40_000, 0.45); // TOR bid 53¢ — through the blended TP
+  db.close();
+}
+
+async function replayFixture(): Promise<ReplayResult> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "replay-backtest-"));
+  try {
+    const dbPath = path.join(dir, "fixture.db");
+    writeFixture(dbPath);
+    return await new ReplayBacktest({ dbPath, strategy: {} }).run();
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+const near = (actual: number, expected: number) =>
+  assert.ok(Math.abs(actual - expected) < 1e-6, `${actual} ≉ ${expected}`);
+
+describe("ReplayBacktest on a recorded fixture", () => {
+  it("enters on the classified shock, fills the ladder and exits at the take-profit", { skip }, async () => {
+    const result = await replayFixture();
+
+    assert.equal(result.classifications[0].classification, "single_event");
+    assert.equal(result.shocks[0].direction, "up");
+    assert.equal(result.shocks[0].tokenId, TOKEN_BOS);
+
+    // All three ladder levels sold BOS; the blended TP sold 30 TOR
+    assert.deepEqual(
+      result.trades.map((t) => [t.soldTokenId, Math.round(t.soldPrice * 100), t.soldShares, t.exitReason]),
+      [[TOKEN_BOS, 57, 5, "TAKE_PROFIT"], [TOKEN_BOS, 58, 10, "TAKE_PROFIT"], [TOKEN_BOS, 59, 15, "TAKE_PROFIT"]],
+    );
+    const blendedSold = (5 * 0.57 + 10 * 0.58 + 15 * 0.59) / 30;
+    for (const t of result.trades) {
+      assert.equal(t.heldTokenId, TOKEN_TOR);
+      near(t.exitPrice, 1 - blendedSold + 0.03);
+    }
+
+    // P&L: 30 shares × 3¢ fade target
+    assert.equal(result.stats.totalOrdersFilled, 3);
+    assert.equal(result.stats.winCount, 3);
+    near(result.stats.totalPnL, 0.9);
+    assert.equal(result.openPositionsAtEnd, 0);
+
+    // Wallet: pre-split 35 + refill 30, ladder proceeds 17.50, TP proceeds 13.40
+    assert.equal(result.stats.totalSplitCost, 65);
+    near(result.finalUsdc, 10_000 - 65 + 17.5 + 13.4);
+  });
+
+  it("replays the same fixture to the same result", { skip }, async () => {
+    const strip = (r: ReplayResult) => ({
+      ...r,
+      trades: r.trades.map(({ id: _id, ...t }) => t),
+      stats: { ...r.stats },
+    });
+    assert.deepEqual(strip(await replayFixture()), strip(await replayFixture()));
+  });
+});
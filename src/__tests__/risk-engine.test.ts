@@ -0,0 +1,120 @@
+/**
+ * risk-engine.test.ts — worst-case exposure per open cycle (held shares to
+ * $0), aggregated by sport / slate / team, and new ladders accepted, shrunk
+ * or rejected against those limits — on its own and inside ShockFadeLive.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+
+import { RiskBook, RiskEngine, slateKey, teamKey } from "../services/RiskEngine";
+import { CumulativeTP, LiveLadderOrder, LivePosition } from "../strategies/ShockFadeLive";
+import { SportsMarket } from "../services/SportsMarketDiscovery";
+import { dryRunTrader, removeStateFiles, sportsMarket, tmpPath } from "./fixtures";
+
+const NBA = "nba-gsw-lal-2026-02-09";
+const NHL = "nhl-bos-nyr-2026-02-09";
+
+function market(slug: string, sport: string, tokenIds: string[], outcomes: string[]): SportsMarket {
+  return sportsMarket({
+    marketSlug: slug, sport, tokenIds, outcomes,
+    question: `${outcomes[0]} vs ${outcomes[1]}`,
+    gameStartTime: new Date("2026-02-09T19:10:00Z"),
+  });
+}
+
+const MARKETS = new Map([
+  [NBA, market(NBA, "NBA", ["5001", "5002"], ["Warriors", "Lakers"])],
+  [NHL, market(NHL, "NHL", ["6001", "6002"], ["Bruins", "Rangers"])],
+]);
+
+/** One TP cycle (with its positions), one bare position, one resting ladder order */
+function book(): RiskBook {
+  const tp = { shockId: "c1", marketSlug: NBA, heldTokenId: "5002", totalEntryShares: 20, filledTPShares: 5, blendedEntryPrice: 0.6, status: "PARTIAL" } as CumulativeTP;
+  const positions = [
+    { shockId: "c1", marketSlug: NBA, heldTokenId: "5002", heldShares: 20, soldPrice: 0.6, status: "OPEN" },
+    { shockId: "c2", marketSlug: NHL, heldTokenId: "6002", heldShares: 10, soldPrice: 0.3, status: "OPEN" },
+  ] as LivePosition[];
+  const orders = [
+    { shockId: "c3", marketSlug: NBA, tokenId: "5001", shares: 10, filledShares: 0, price: 0.5, status: "RESTING" },
+    { shockId: "c4", marketSlug: NBA, tokenId: "5001", shares: 10, filledShares: 10, price: 0.5, status: "FILLED" },
+  ] as LiveLadderOrder[];
+  return {
+    getCumulativeTPs: () => [tp],
+    getOpenPositions: () => positions,
+    getAllOrders: () => orders,
+    getMarketMeta: (slug) => MARKETS.get(slug),
+  };
+}
+
+const close = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+
+describe("RiskEngine", () => {
+  it("prices each open cycle once and aggregates by sport, slate and held team", () => {
+    const snap = new RiskEngine(book()).getSnapshot();
+
+    // c1 from its TP (15 × 0.4), not its positions; c2 10 × 0.7; c3 10 × 0.5
+    assert.deepEqual(snap.exposures.map((e) => [e.cycleId, e.source]).sort(), [["c1", "TP"], ["c2", "POSITIONS"], ["c3", "ORDERS"]]);
+    assert.ok(close(snap.total.worstCase, 18));
+    assert.deepEqual(snap.bySport.map((u) => [u.key, +u.worstCase.toFixed(6)]), [["NBA", 11], ["NHL", 7]]);
+    assert.deepEqual(snap.bySlate.map((u) => u.key), ["2026-02-09T19:00Z"]);
+    assert.equal(snap.byTeam[0].key, "NBA:Lakers");
+    assert.ok(close(snap.byTeam[0].utilization, 11 / 50));
+
+    assert.equal(slateKey(null, 3600_000), "unscheduled");
+    assert.equal(teamKey(market("epl-ars", "EPL", ["7001", "7002"], ["Yes", "No"]), "7002"), "EPL:epl-ars:No");
+  });
+
+  it("shrinks a ladder to the tightest headroom, holds it reserved, and rejects what no longer fits", () => {
+    const risk = new RiskEngine(book(), { maxPerTeam: 20 });
+    const ladder = (cycleId: string) => ({
+      cycleId,
+      marketSlug: NBA,
+      heldTokenId: "5002",
+      levels: [{ shares: 5, price: 0.5 }, { shares: 10, price: 0.53 }, { shares: 15, price: 0.56 }],
+    });
+
+    // Lakers: $11 of $20 used → $9 headroom for a $13.80 ladder; L1 falls under 5 shares
+    const first = risk.checkLadder(ladder("c5"));
+    assert.equal(first.action, "SHRINK");
+    assert.deepEqual(first.shares, [0, 6, 9]);
+    assert.equal(first.binding?.dimension, "TEAM");
+    assert.ok(first.worstCase <= 9);
+
+    const second = risk.checkLadder(ladder("c6"));
+    assert.equal(second.action, "REJECT");
+    assert.match(second.reason!, /team NBA:Lakers/);
+
+    risk.release("c5");
+    assert.equal(risk.checkLadder(ladder("c7")).action, "SHRINK");
+    assert.equal(risk.checkLadder({ ...ladder("c8"), heldTokenId: "5001" }).action, "ACCEPT");
+    assert.equal(risk.getSnapshot().rejectedCount, 1);
+  });
+});
+
+describe("ShockFadeLive risk check", () => {
+  it("places the shrunk ladder and shows it in the utilization", async () => {
+    const statePath = tmpPath("risk");
+    const trader = dryRunTrader(statePath, { config: { ladderSpacing: 0.03 }, market: MARKETS.get(NBA)! });
+    const risk = new RiskEngine(trader, { maxPerTeam: 5 });
+    trader.setRiskEngine(risk);
+    trader.start();
+    try {
+      await trader.preSplitForMarket(NBA);
+      await trader.handleShock({
+        type: "shock", tokenId: "5001", marketSlug: NBA, direction: "up", magnitude: 0.08,
+        zScore: 4.5, preShockPrice: 0.5, currentPrice: 0.58, timestamp: Date.now(),
+      });
+
+      // $10.50 ladder scaled into $5 of Lakers headroom: 2/4/7 → only L3 survives
+      const orders = trader.getActiveOrders();
+      assert.deepEqual(orders.map((o) => [o.level, o.shares]), [[3, 7]]);
+      const lakers = risk.getSnapshot().byTeam.find((u) => u.key === "NBA:Lakers")!;
+      assert.ok(close(lakers.worstCase, 7 * (1 - orders[0].price)));
+      assert.ok(lakers.utilization < 1);
+    } finally {
+      trader.stop();
+      removeStateFiles(statePath);
+    }
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * runtime-params.test.ts — tiered sizing from sss_runtime_params.json: the
+ * shipped file validates, tiers size the ladder from AUM, upgrades wait for
+ * approval while downgrades apply at once, every change is audited, and a
+ * bad edit leaves the last good file in force.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  RuntimeParamsService,
+  TierAuditEntry,
+  eligibleTier,
+  parseRuntimeParams,
+  tierAuditPath,
+  tierSizing,
+} from "../services/RuntimeParams";
+
+const SHIPPED = path.join(__dirname, "..", "config", "sss_runtime_params.json");
+const BASE_LADDER = [5, 10, 15];
+
+function tmpBase(): string {
+  return path.join(os.tmpdir(), `runtime-params-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+}
+
+/** Shipped file with scaling switched on, written to `file` */
+function writeParams(file: string, scaling: Record<string, unknown> = {}): void {
+  const raw = JSON.parse(fs.readFileSync(SHIPPED, "utf-8"));
+  raw.scaling = { ...raw.scaling, enabled: true, ...scaling };
+  fs.writeFileSync(file, JSON.stringify(raw));
+  // Hot reload keys on mtime — make each write visible
+  const t = new Date(Date.now() + Math.floor(Math.random() * 1e6));
+  fs.utimesSync(file, t, t);
+}
+
+class FakeTrader {
+  stats = { totalPositionsClosed: 0, winRate: 0 };
+  reloads: Array<{ ladderSizes?: number[]; maxPerGame?: number }> = [];
+  getStats() { return this.stats; }
+  reloadConfig(vals: { ladderSizes?: number[]; maxPerGame?: number }) {
+    this.reloads.push(vals);
+    return [];
+  }
+}
+
+function setup(base: string) {
+  const trader = new FakeTrader();
+  const service = new RuntimeParamsService({ getAUM: async () => 2000 }, trader, trader, `${base}-tiers.jsonl`, {
+    configPath: `${base}.json`,
+    baseLadderSizes: BASE_LADDER,
+    baseMaxPerGame: 1000,
+    maxCyclesPerGame: 1,
+  });
+  return { trader, service };
+}
+
+function auditOf(base: string): TierAuditEntry[] {
+  return fs.readFileSync(`${base}-tiers.jsonl`, "utf-8").trim().split("\n").map((l) => JSON.parse(l));
+}
+
+function cleanup(base: string): void {
+  for (const f of [`${base}.json`, `${base}-tiers.jsonl`]) fs.rmSync(f, { force: true });
+}
+
+describe("RuntimeParams parsing and sizing", () => {
+  it("accepts the shipped file and rejects bad tiers with every reason", () => {
+    const shipped = parseRuntimeParams(JSON.parse(fs.readFileSync(SHIPPED, "utf-8")));
+    assert.deepEqual(shipped.errors, []);
+    assert.deepEqual(shipped.params!.scaling.tiers.map((t) => t.tierName), ["STARTER", "CONSERVATIVE", "MODERATE", "AGGRESSIVE"]);
+    assert.equal(shipped.params!.scaling.requireManualUpgrade, true);
+
+    const bad = parseRuntimeParams({
+      scaling: {
+        approvedTier: "HUGE",
+        tiers: [
+          { tierName: "A", minPositions: 50, minWinRate: 0.8, positionSizePct: 0.02, maxPositionSize: 50 },
+          { tierName: "B", minPositions: 0, minWinRate: 1.5, positionSizePct: 0, maxPositionSize: 10 },
+        ],
+      },
+    });
+    assert.equal(bad.params, null);
+    assert.equal(bad.errors.length, 4);
+    assert.ok(bad.errors.some((e) => e.includes("ordered by minPositions")));
+    assert.ok(bad.errors.some((e) => e.includes('approvedTier "HUGE"')));
+  });
+
+  it("picks the highest tier the record unlocks and spreads its budget over the ladder", () => {
+    const { tiers } = parseRuntimeParams(JSON.parse(fs.readFileSync(SHIPPED, "utf-8"))).params!.scaling;
+    assert.equal(eligibleTier(tiers, 120, 0.9).tierName, "MODERATE");
+    assert.equal(eligibleTier(tiers, 120, 0.82).tierName, "CONSERVATIVE");
+    assert.equal(eligibleTier(tiers, 10, 1).tierName, "STARTER");
+
+    // MODERATE: 3% of $2000 = $60 (< $75 cap) over 5/10/15 → ×2
+    assert.deepEqual(tierSizing(tiers[2], 2000, BASE_LADDER, 1), {
+      tierName: "MODERATE", aum: 2000, cycleBudget: 60, ladderSizes: [10, 20, 30], maxPerGame: 90,
+    });
+    // STARTER: $10 budget, but never below 5 shares a level
+    assert.deepEqual(tierSizing(tiers[0], 2000, BASE_LADDER, 2).ladderSizes, [5, 5, 5]);
+    assert.equal(tierAuditPath("./data/shock-fade-live.db"), "./data/shock-fade-live-tiers.jsonl");
+  });
+});
+
+describe("RuntimeParamsService", () => {
+  it("holds an upgrade until approved, applies downgrades at once, and audits each step", async () => {
+    const base = tmpBase();
+    try {
+      writeParams(`${base}.json`, { useAumBasedSizing: true });
+      const { trader, service } = setup(base);
+      const pending: string[] = [];
+      service.on("upgradePending", (e: TierAuditEntry) => pending.push(e.toTier!));
+
+      trader.stats = { totalPositionsClosed: 120, winRate: 0.9 };
+      await service.refresh();
+      assert.equal(service.getCurrentTier(), "STARTER");
+      assert.equal(service.getPendingTier(), "MODERATE");
+      assert.deepEqual(trader.reloads, [{ ladderSizes: [5, 5, 5], maxPerGame: 25 }]);
+      await service.refresh();
+      assert.deepEqual(pending, ["MODERATE"]);
+
+      writeParams(`${base}.json`, { useAumBasedSizing: true, approvedTier: "CONSERVATIVE" });
+      await service.refresh();
+      assert.equal(service.getCurrentTier(), "CONSERVATIVE");
+      // 2% of $2000 = $40 over 5/10/15
+      assert.deepEqual(trader.reloads[1], { ladderSizes: [6, 13, 20], maxPerGame: 58 });
+
+      trader.stats = { totalPositionsClosed: 120, winRate: 0.6 };
+      await service.refresh();
+      assert.equal(service.getCurrentTier(), "STARTER");
+
+      assert.deepEqual(auditOf(base).map((e) => [e.event, e.fromTier, e.toTier]), [
+        ["UPGRADE_PENDING", "STARTER", "MODERATE"],
+        ["APPLIED", null, "STARTER"],
+        ["APPLIED", "STARTER", "CONSERVATIVE"],
+        ["APPLIED", "CONSERVATIVE", "STARTER"],
+      ]);
+    } finally {
+      cleanup(base);
+    }
+  });
+
+  it("upgrades without a gate when requireManualUpgrade is off, and hands sizing back when disabled", async () => {
+    const base = tmpBase();
+    try {
+      writeParams(`${base}.json`, { requireManualUpgrade: false, currentAum: 1000 });
+      const { trader, service } = setup(base);
+      trader.stats = { totalPositionsClosed: 250, winRate: 0.9 };
+      await service.refresh();
+      assert.equal(service.getCurrentTier(), "AGGRESSIVE");
+      // useAumBasedSizing off → the file's currentAum: 5% of $1000 = $50
+      assert.equal(service.getSizing()!.cycleBudget, 50);
+
+      writeParams(`${base}.json`, { enabled: false });
+      await service.refresh();
+      assert.equal(service.getCurrentTier(), null);
+      assert.deepEqual(trader.reloads.at(-1), { ladderSizes: BASE_LADDER, maxPerGame: 1000 });
+    } finally {
+      cleanup(base);
+    }
+  });
+
+  it("restores the tier after a restart and keeps the last good file on a bad edit", async () => {
+    const base = tmpBase();
+    try {
+      writeParams(`${base}.json`, { approvedTier: "MODERATE" });
+      const first = setup(base);
+      first.trader.stats = { totalPositionsClosed: 120, winRate: 0.9 };
+      await first.service.refresh();
+      assert.equal(first.service.getCurrentTier(), "MODERATE");
+
+      // Startup: history not loaded yet — size the restored tier, don't judge it
+      const second = setup(base);
+      await second.service.refresh(false);
+      assert.equal(second.service.getCurrentTier(), "MODERATE");
+
+      fs.writeFileSync(`${base}.json`, "{ not json");
+      const t = new Date(Date.now() + 5_000_000);
+      fs.utimesSync(`${base}.json`, t, t);
+      const invalid: string[][] = [];
+      second.service.on("invalid", (errors: string[]) => invalid.push(errors));
+      second.trader.stats = { totalPositionsClosed: 120, winRate: 0.9 };
+      await second.service.refresh();
+
+      assert.equal(invalid.length, 1);
+      assert.equal(second.service.isEnabled(), true);
+      assert.equal(second.service.getCurrentTier(), "MODERATE");
+      assert.equal(auditOf(base).at(-1)!.event, "CONFIG_REJECTED");
+    } finally {
+      cleanup(base);
+    }
+  });
+});
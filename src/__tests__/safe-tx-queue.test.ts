@@ -0,0 +1,181 @@
+/**
+ * safe-tx-queue.test.ts — DirectExecutionClient's transaction queue against
+ * a scripted chain: concurrent submissions get distinct nonces even when the
+ * RPC lags, a stuck transaction is replaced with higher fees, and a
+ * transaction in flight at a crash is settled before the next one is sent.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers } from "ethers";
+
+import {
+  SafeTxQueue,
+  SendRequest,
+  TxChain,
+  TxFees,
+  TxQueueConfig,
+  TxReceiptLike,
+} from "../services/SafeTxQueue";
+
+const FAST: Partial<TxQueueConfig> = { pollIntervalMs: 5, stuckAfterMs: 30, maxWaitMs: 2_000 };
+
+/**
+ * Nonce reads stay at whatever `safeNonce` / `accountNonce` say (a lagging
+ * RPC unless the test moves them). Transactions mine when `mine(hash)` is
+ * called, or right away with `autoMine`.
+ */
+class FakeChain implements TxChain {
+  safeNonce = 7;
+  accountNonce = 40;
+  minedAccountNonce = 40;
+  autoMine = true;
+  sent: SendRequest[] = [];
+  hashes: string[] = [];
+  receipts = new Map<string, TxReceiptLike>();
+
+  async getSafeNonce() { return this.safeNonce; }
+  async getAccountNonce(blockTag: "latest" | "pending") {
+    return blockTag === "latest" ? this.minedAccountNonce : this.accountNonce;
+  }
+  async getFees(): Promise<TxFees> {
+    return { maxFeePerGas: ethers.utils.parseUnits("100", "gwei"), maxPriorityFeePerGas: ethers.utils.parseUnits("30", "gwei") };
+  }
+  async sendTransaction(tx: SendRequest): Promise<string> {
+    this.sent.push(tx);
+    const hash = `0xhash${this.sent.length}`;
+    this.hashes.push(hash);
+    if (this.autoMine) this.mine(hash);
+    return hash;
+  }
+  async getReceipt(hash: string) { return this.receipts.get(hash) ?? null; }
+
+  mine(hash: string, status = 1): void {
+    const tx = this.sent[this.hashes.indexOf(hash)];
+    this.receipts.set(hash, { transactionHash: hash, status, gasUsed: ethers.BigNumber.from(100_000), effectiveGasPrice: tx.maxFeePerGas, logs: [] });
+    this.minedAccountNonce = Math.max(this.minedAccountNonce, tx.nonce + 1);
+  }
+}
+
+function tmpFile(): string {
+  return path.join(os.tmpdir(), `safe-tx-queue-${Date.now()}-${Math.random().toString(36).slice(2)}.json`);
+}
+
+/** prepare() that records the Safe nonce it signed for */
+function signer(signed: number[]) {
+  return async (safeNonce: number) => {
+    signed.push(safeNonce);
+    return { to: "0xsafe", data: `0xexec${safeNonce}`, gasLimit: ethers.BigNumber.from(300_000) };
+  };
+}
+
+describe("SafeTxQueue", () => {
+  it("hands out distinct nonces to concurrent submissions while the RPC lags", async () => {
+    const file = tmpFile();
+    try {
+      const chain = new FakeChain();
+      const queue = new SafeTxQueue(chain, file, FAST);
+      const signed: number[] = [];
+
+      const outcomes = await Promise.all([
+        queue.submit("split A", signer(signed)),
+        queue.submit("split B", signer(signed)),
+        queue.submit("merge C", signer(signed)),
+      ]);
+
+      assert.ok(outcomes.every((o) => o.status === "MINED"));
+      assert.deepEqual(signed, [7, 8, 9]);
+      assert.deepEqual(chain.sent.map((t) => t.nonce), [40, 41, 42]);
+      assert.deepEqual(queue.getInFlight(), []);
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+
+  it("does not use up a nonce when preparing fails or execTransaction reverts", async () => {
+    const file = tmpFile();
+    try {
+      const chain = new FakeChain();
+      const queue = new SafeTxQueue(chain, file, FAST);
+      const signed: number[] = [];
+
+      const failed = await queue.submit("bad", async () => ({ error: "GAS_ESTIMATION_FAILED: reverted" }));
+      assert.deepEqual(failed, { status: "FAILED", error: "GAS_ESTIMATION_FAILED: reverted" });
+
+      chain.autoMine = false;
+      const reverting = queue.submit("reverts", signer(signed));
+      await new Promise((r) => setTimeout(r, 10));
+      chain.mine(chain.hashes[0], 0);
+      const reverted = await reverting;
+      assert.equal(reverted.status === "MINED" && reverted.receipt.status, 0);
+
+      chain.autoMine = true;
+      await queue.submit("next", signer(signed));
+      // Same Safe nonce again (the revert didn't consume it), next account nonce
+      assert.deepEqual(signed, [7, 7]);
+      assert.deepEqual(chain.sent.map((t) => t.nonce), [40, 41]);
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+
+  it("replaces a stuck transaction on the same nonce with bumped fees", async () => {
+    const file = tmpFile();
+    try {
+      const chain = new FakeChain();
+      chain.autoMine = false;
+      const queue = new SafeTxQueue(chain, file, FAST);
+      const bumped: string[] = [];
+      queue.on("bumped", (p) => bumped.push(p.maxFeePerGas));
+
+      const outcome = queue.submit("split A", signer([]));
+      while (chain.sent.length < 2) await new Promise((r) => setTimeout(r, 5));
+      // The replacement mines, the original never does
+      chain.mine(chain.hashes[1]);
+      const result = await outcome;
+
+      assert.equal(result.status, "MINED");
+      assert.equal(result.status === "MINED" && result.receipt.transactionHash, "0xhash2");
+      assert.deepEqual(chain.sent.map((t) => t.nonce), [40, 40]);
+      assert.equal(chain.sent[1].data, chain.sent[0].data);
+      assert.equal(ethers.utils.formatUnits(chain.sent[1].maxFeePerGas, "gwei"), "125.0");
+      assert.equal(ethers.utils.formatUnits(chain.sent[1].maxPriorityFeePerGas, "gwei"), "37.5");
+      assert.deepEqual(bumped, [ethers.utils.parseUnits("125", "gwei").toString()]);
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+
+  it("settles a transaction left in flight by a crash before sending the next", async () => {
+    const file = tmpFile();
+    try {
+      const chain = new FakeChain();
+      chain.autoMine = false;
+      const before = new SafeTxQueue(chain, file, { ...FAST, maxBumps: 0, maxWaitMs: 30 });
+      const stuck = await before.submit("split A", signer([]));
+      assert.match(stuck.status === "FAILED" ? stuck.error : "", /^TX_STUCK/);
+      assert.equal(JSON.parse(fs.readFileSync(file, "utf8")).length, 1);
+
+      // Restart: the old transaction mines while we were down
+      chain.mine(chain.hashes[0]);
+      chain.safeNonce = 7; // RPC hasn't caught up
+      const after = new SafeTxQueue(chain, file, FAST);
+      const recovered: string[] = [];
+      after.on("recovered", (p) => recovered.push(p.description));
+      const signed: number[] = [];
+      chain.autoMine = true;
+      const result = await after.submit("split B", signer(signed));
+
+      assert.equal(result.status, "MINED");
+      assert.deepEqual(recovered, ["split A"]);
+      assert.deepEqual(signed, [8]);
+      assert.deepEqual(chain.sent.map((t) => t.nonce), [40, 41]);
+      assert.deepEqual(JSON.parse(fs.readFileSync(file, "utf8")), []);
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * schema-migrations.test.ts — versioned up-migrations: run order,
+ * schema_version bookkeeping, rollback of a failed migration, and the
+ * trading.db baselines adopting a database created before versioning.
+ *
+ * Skips where better-sqlite3's native binding isn't built.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import Database from "better-sqlite3";
+
+import {
+  SchemaModule,
+  applyMigrations,
+  currentSchemaVersion,
+  migrationStatus,
+} from "../services/SchemaMigrations";
+import { DatabaseService } from "../services/Database";
+import { removeDb, sqliteUnavailable, tmpPath } from "./fixtures";
+
+const skip = sqliteUnavailable();
+
+function columns(db: Database.Database, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map((c) => c.name);
+}
+
+describe("SchemaMigrations", () => {
+  it("applies pending migrations once, in order, and records them", { skip }, () => {
+    const db = new Database(":memory:");
+    const notes: SchemaModule = {
+      name: "notes",
+      description: "test",
+      migrations: [
+        { version: 1, name: "create notes", up: (d) => d.exec("CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT)") },
+        { version: 2, name: "add author", up: (d) => d.exec("ALTER TABLE notes ADD COLUMN author TEXT") },
+      ],
+    };
+
+    assert.deepEqual(applyMigrations(db, [notes]).map((m) => m.version), [1, 2]);
+    assert.deepEqual(applyMigrations(db, [notes]), []);
+    assert.equal(currentSchemaVersion(db, "notes"), 2);
+    assert.deepEqual(columns(db, "notes"), ["id", "body", "author"]);
+
+    // A failing migration rolls back with its schema_version row
+    notes.migrations.push({
+      version: 3,
+      name: "half done",
+      up: (d) => { d.exec("CREATE TABLE tags (id INTEGER)"); throw new Error("boom"); },
+    });
+    assert.throws(() => applyMigrations(db, [notes]), /notes v3 \(half done\) failed: boom/);
+    assert.equal(currentSchemaVersion(db, "notes"), 2);
+    assert.equal(db.prepare("SELECT name FROM sqlite_master WHERE name = 'tags'").get(), undefined);
+    assert.equal(migrationStatus(db, [notes])[2].appliedAt, null);
+
+    notes.migrations.push({ version: 3, name: "duplicate", up: () => {} });
+    assert.throws(() => applyMigrations(db, [notes]), /increasing/);
+    db.close();
+  });
+
+  it("adopts a trading.db created before versioning", { skip }, () => {
+    const file = tmpPath("schema", ".db");
+    try {
+      const old = new Database(file);
+      old.exec(`
+        CREATE TABLE positions (id INTEGER PRIMARY KEY AUTOINCREMENT, market_slug TEXT NOT NULL, condition_id TEXT NOT NULL,
+          token_id TEXT NOT NULL, entry_price REAL NOT NULL, shares REAL NOT NULL, entry_time INTEGER NOT NULL,
+          market_end_time INTEGER NOT NULL, exit_price REAL, exit_time INTEGER, exit_reason TEXT, pnl REAL,
+          redeemed INTEGER DEFAULT 0, created_at TEXT DEFAULT CURRENT_TIMESTAMP);
+        CREATE TABLE capital_baseline (id INTEGER PRIMARY KEY CHECK (id = 1), baseline REAL NOT NULL, last_updated INTEGER NOT NULL);
+        INSERT INTO capital_baseline (id, baseline, last_updated) VALUES (1, 250, 1);
+      `);
+      old.close();
+
+      const service = new DatabaseService(file);
+      const db = service.getDb();
+      assert.ok(columns(db, "positions").includes("pnl_synced"));
+      assert.ok(columns(db, "capital_baseline").includes("recovery_attempts"));
+      assert.equal(service.getBaseline(), 250);
+      assert.equal(currentSchemaVersion(db, "shock_fade"), 1);
+      assert.equal(currentSchemaVersion(db, "legacy_crypto"), 1);
+      assert.ok(db.prepare("SELECT name FROM sqlite_master WHERE name = 'simulation_runs'").get());
+      service.close();
+    } finally {
+      removeDb(file);
+    }
+  });
+});
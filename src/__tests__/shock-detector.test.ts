@@ -0,0 +1,120 @@
+/**
+ * shock-detector.test.ts — taker-volume confirmation on scripted book
+ * updates and prints: only last_trade_price prints count (price_changes are
+ * book sizes), a print trailing the tick inside the grace window still
+ * confirms, a late or wrong-side one does not, and an unconfirmed move is
+ * logged once however many ticks it lasts.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { EventEmitter } from "events";
+
+import { ShockEvent, ShockFadeConfig, ShockFadeDetector } from "../strategies/ShockFadeDetector";
+import { OrderBookWebSocket } from "../services/OrderBookWS";
+
+const TOKEN = "7001";
+const SLUG = "nhl-bos-tor-2026-02-09";
+const T0 = Date.UTC(2026, 1, 9, 20, 0);
+
+/** Detector on a scripted feed, with its shocks and log lines collected */
+function harness(config: Partial<ShockFadeConfig>) {
+  const feed = new EventEmitter();
+  const detector = new ShockFadeDetector(feed as unknown as OrderBookWebSocket, config);
+  const shocks: ShockEvent[] = [];
+  detector.on("shock", (s: ShockEvent) => shocks.push(s));
+  detector.registerToken(TOKEN, SLUG);
+
+  const logs: string[] = [];
+  const original = console.log;
+  console.log = (line: string) => void logs.push(line);
+  try {
+    detector.start();
+  } finally {
+    console.log = original;
+  }
+
+  const quiet = <T>(fn: () => T): T => {
+    console.log = (line: string) => void logs.push(line);
+    try {
+      return fn();
+    } finally {
+      console.log = original;
+    }
+  };
+  /** Book update with a 2¢ spread around `mid` */
+  const tick = (mid: number, at: number) =>
+    quiet(() => feed.emit("priceUpdate", { tokenId: TOKEN, bid: mid - 0.01, ask: mid + 0.01, timestamp: at }));
+  const print = (side: "buy" | "sell", size: number, at: number) =>
+    quiet(() => feed.emit("lastTrade", { tokenId: TOKEN, tradePrice: 0.5, tradeSize: size, side, bestBid: 0, bestAsk: 0, timestamp: at }));
+  const bookChange = (side: "buy" | "sell", size: number, at: number) =>
+    quiet(() => feed.emit("trade", { tokenId: TOKEN, tradePrice: 0.55, tradeSize: size, side, bestBid: 0, bestAsk: 0, timestamp: at }));
+  /** Quiet book, then the jump that fires the zscore model at `at` */
+  const jump = (at: number) => {
+    [0.5, 0.5, 0.51, 0.5, 0.5].forEach((mid, i) => tick(mid, at - 5000 + i * 1000));
+    tick(0.56, at);
+  };
+  const unconfirmed = () => logs.filter((l) => l.includes("Unconfirmed move")).length;
+
+  return { shocks, tick, print, bookChange, jump, unconfirmed };
+}
+
+describe("ShockFadeDetector taker-volume confirmation", () => {
+  it("counts only prints in the shock direction, not price_changes book sizes", () => {
+    const h = harness({ minTakerVolume: 100 });
+    h.bookChange("buy", 5000, T0 - 500); // a big new bid is not aggression
+    h.print("sell", 300, T0 - 400);
+    h.print("buy", 60, T0 - 300);
+    h.jump(T0);
+    assert.equal(h.shocks.length, 0);
+
+    const h2 = harness({ minTakerVolume: 100 });
+    h2.print("buy", 60, T0 - 400);
+    h2.print("buy", 45, T0 - 300);
+    h2.jump(T0);
+    assert.equal(h2.shocks.length, 1);
+    assert.equal(h2.shocks[0].direction, "up");
+    assert.equal(h2.shocks[0].takerVolume, 105);
+  });
+
+  it("confirms on a print that trails the tick within the grace window", () => {
+    const h = harness({ minTakerVolume: 100, takerConfirmGraceMs: 2000 });
+    h.jump(T0);
+    assert.equal(h.shocks.length, 0);
+
+    h.print("sell", 500, T0 + 500); // wrong side
+    assert.equal(h.shocks.length, 0);
+    h.print("buy", 150, T0 + 1200);
+    assert.equal(h.shocks.length, 1);
+    assert.equal(h.shocks[0].takerVolume, 150);
+    assert.equal(h.shocks[0].timestamp, T0 + 1200);
+    assert.equal(h.shocks[0].preShockPrice, 0.5);
+    assert.equal(h.shocks[0].currentPrice, 0.56);
+
+    // Confirmed once — a further print does not fire it again
+    h.print("buy", 150, T0 + 1500);
+    assert.equal(h.shocks.length, 1);
+  });
+
+  it("drops the move when the print comes after the grace window", () => {
+    const h = harness({ minTakerVolume: 100, takerConfirmGraceMs: 2000 });
+    h.jump(T0);
+    h.print("buy", 150, T0 + 2500);
+    assert.equal(h.shocks.length, 0);
+  });
+
+  it("logs an unconfirmed move once while the models keep firing", () => {
+    const h = harness({ minTakerVolume: 100 });
+    h.jump(T0);
+    h.tick(0.59, T0 + 1000);
+    h.tick(0.62, T0 + 2000);
+    h.tick(0.65, T0 + 3000);
+    assert.equal(h.unconfirmed(), 1);
+
+    // Move over, grace gone: the next move is a new one
+    h.tick(0.65, T0 + 6000);
+    h.tick(0.59, T0 + 7000);
+    assert.equal(h.unconfirmed(), 2);
+    assert.equal(h.shocks.length, 0);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * shock-fade-paper.test.ts — the paper trader's shock dedup map forgets
+ * shocks once they are past the fade window, unless a pending order or open
+ * position still points at one.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { EventEmitter } from "events";
+import * as os from "os";
+import * as path from "path";
+
+import { ShockFadePaperTrader } from "../strategies/ShockFadePaper";
+import { ShockEvent } from "../strategies/ShockFadeDetector";
+import { OrderBookWebSocket } from "../services/OrderBookWS";
+
+const SLUG = "nhl-bos-tor-2026-02-09";
+const FADE_WINDOW_MS = 120_000;
+
+function shock(tokenId: string, ageMs: number): ShockEvent {
+  return {
+    type: "shock",
+    tokenId,
+    marketSlug: SLUG,
+    direction: "up",
+    magnitude: 0.06,
+    zScore: 4,
+    preShockPrice: 0.5,
+    currentPrice: 0.56,
+    timestamp: Date.now() - ageMs,
+  };
+}
+
+describe("ShockFadePaperTrader processed shocks", () => {
+  it("prunes shocks older than the fade window that nothing references", () => {
+    const ws = Object.assign(new EventEmitter(), { getOrderBook: () => null });
+    const trader = new ShockFadePaperTrader(
+      ws as unknown as OrderBookWebSocket,
+      { fadeWindowMs: FADE_WINDOW_MS },
+      path.join(os.tmpdir(), `shock-fade-paper-${process.pid}.json`),
+    );
+
+    const log = console.log;
+    console.log = () => {};
+    try {
+      trader.registerTokenPair(["101", "102"], SLUG);
+
+      const stale = shock("999", FADE_WINDOW_MS + 60_000); // no token pair — nothing placed
+      const fresh = shock("998", 1000);
+      const laddered = shock("101", FADE_WINDOW_MS + 60_000);
+      const all = [stale, fresh, laddered];
+
+      all.forEach((s) => trader.handleShock(s));
+      all.forEach((s) => trader.handleShock(s));
+      assert.equal(trader.getStats().totalShocksDetected, 3);
+      assert.equal(trader.getActiveOrders().length, 3);
+
+      (trader as any).checkOrderExpiry();
+
+      // Only the stale, unreferenced shock is forgotten (and so counted again)
+      all.forEach((s) => trader.handleShock(s));
+      assert.equal(trader.getStats().totalShocksDetected, 4);
+    } finally {
+      console.log = log;
+    }
+  });
+});
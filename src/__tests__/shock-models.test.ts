@@ -0,0 +1,196 @@
+/**
+ * shock-models.test.ts — each shock model on synthetic price series (the
+ * move that fires it and the near miss that does not), and per-sport model
+ * selection from SHOCK_MODELS / SHOCK_MODELS_<SPORT> through the detector.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { EventEmitter } from "events";
+
+import {
+  CusumModel,
+  DEFAULT_SHOCK_MODEL_PARAMS,
+  EwmaVolModel,
+  MadModel,
+  PriceTick,
+  ShockModel,
+  ShockSignal,
+  TradeFlowModel,
+  ZScoreModel,
+  createShockModels,
+  parseShockModels,
+  shockModelsFromEnv,
+} from "../strategies/ShockModels";
+import { ShockEvent, ShockFadeDetector } from "../strategies/ShockFadeDetector";
+import { MarketDataFeed } from "../services/OrderBookWS";
+
+const T0 = Date.UTC(2026, 1, 9, 20, 0);
+const params = { ...DEFAULT_SHOCK_MODEL_PARAMS };
+
+/** One tick per second from T0 */
+const ticks = (mids: number[]): PriceTick[] => mids.map((mid, i) => ({ mid, timestamp: T0 + i * 1000 }));
+
+/** `n` ticks alternating 1¢ around 50¢ */
+const noise = (n: number) => Array.from({ length: n }, (_, i) => (i % 2 ? 0.51 : 0.5));
+
+/** Feed ticks one at a time, as the detector does: one result per tick */
+function stream(model: ShockModel, mids: number[]): Array<ShockSignal | null> {
+  const all = ticks(mids);
+  return all.map((_, i) => model.onPrice(all.slice(0, i + 1)));
+}
+
+describe("ZScoreModel", () => {
+  const model = new ZScoreModel(params);
+
+  it("fires on an absolute move of minAbsoluteMove, either way", () => {
+    const up = model.onPrice(ticks([0.5, 0.5, 0.51, 0.5, 0.5, 0.56]));
+    assert.equal(up?.direction, "up");
+    assert.equal(up?.referencePrice, 0.5);
+
+    const down = model.onPrice(ticks([0.5, 0.5, 0.51, 0.5, 0.5, 0.46]));
+    assert.equal(down?.direction, "down");
+  });
+
+  it("fires on a sub-threshold move that is an outlier in a quiet window", () => {
+    const quiet = Array.from({ length: 21 }, (_, i) => (i % 2 ? 0.501 : 0.5));
+    const signal = model.onPrice(ticks([...quiet, 0.52]));
+    assert.ok(signal && signal.score >= params.sigmaThreshold);
+  });
+
+  it("ignores ordinary moves and windows under five ticks", () => {
+    assert.equal(model.onPrice(ticks([...noise(10), 0.52])), null);
+    assert.equal(model.onPrice(ticks([0.5, 0.5, 0.5, 0.6])), null);
+  });
+});
+
+describe("EwmaVolModel", () => {
+  it("fires on a return far outside the EWMA volatility after warm-up", () => {
+    const signals = stream(new EwmaVolModel(params), [...noise(16), 0.57]);
+    const last = signals[signals.length - 1];
+    assert.equal(last?.direction, "up");
+    assert.equal(last?.referencePrice, 0.51);
+    assert.ok(Math.abs(last!.score - 6) < 1e-6);
+    assert.ok(signals.slice(0, -1).every((s) => s === null));
+  });
+
+  it("does not fire below the threshold, during warm-up or under the minimum move", () => {
+    assert.equal(stream(new EwmaVolModel(params), [...noise(16), 0.54]).pop(), null); // 3σ
+    assert.deepEqual(stream(new EwmaVolModel(params), [...noise(5), 0.6]).filter(Boolean), []);
+    assert.equal(stream(new EwmaVolModel(params), [...Array(16).fill(0.5), 0.505]).pop(), null);
+  });
+});
+
+describe("MadModel", () => {
+  const model = new MadModel(params);
+
+  it("fires on a robust outlier, flooring MAD on a flat history", () => {
+    const flat = model.onPrice(ticks([0.5, 0.5, 0.5, 0.5, 0.5, 0.5, 0.54]));
+    assert.equal(flat?.direction, "up");
+    assert.equal(flat?.referencePrice, 0.5);
+
+    const noisy = model.onPrice(ticks([...noise(7), 0.43]));
+    assert.equal(noisy?.direction, "down");
+  });
+
+  it("does not fire within the noise, under the minimum move or before six ticks", () => {
+    assert.equal(model.onPrice(ticks([...noise(7), 0.55])), null); // 3.4 robust σ
+    assert.equal(model.onPrice(ticks([0.5, 0.5, 0.5, 0.5, 0.5, 0.5, 0.505])), null);
+    assert.equal(model.onPrice(ticks([0.5, 0.5, 0.5, 0.5, 0.6])), null);
+  });
+});
+
+describe("CusumModel", () => {
+  it("catches a staircase no single tick of which is a shock, then resets", () => {
+    const mids = [0.5, 0.52, 0.54, 0.56, 0.58];
+    const signals = stream(new CusumModel(params), mids);
+    assert.deepEqual(signals.map((s) => s?.direction ?? null), [null, null, null, "up", null]);
+    assert.equal(signals[3]?.referencePrice, 0.5);
+
+    // No single 2¢ step trips the z-score model
+    assert.equal(new ZScoreModel(params).onPrice(ticks([0.5, 0.5, 0.5, 0.5, 0.52, 0.54])), null);
+
+    const down = stream(new CusumModel(params), [0.5, 0.48, 0.46, 0.44]);
+    assert.equal(down[3]?.direction, "down");
+  });
+
+  it("does not accumulate mean-reverting noise", () => {
+    assert.deepEqual(stream(new CusumModel(params), noise(40)).filter(Boolean), []);
+  });
+});
+
+describe("TradeFlowModel", () => {
+  const print = (model: TradeFlowModel, side: "buy" | "sell", size: number, at: number) =>
+    model.onTrade({ tokenId: "1", tradePrice: 0.5, tradeSize: size, side, bestBid: 0, bestAsk: 0, timestamp: at });
+  const window = ticks([0.5, 0.51, 0.52, 0.53]);
+
+  it("fires on one-sided flow confirmed by price, once per burst", () => {
+    const model = new TradeFlowModel(params);
+    print(model, "buy", 300, T0 + 500);
+    print(model, "buy", 300, T0 + 1500);
+    const signal = model.onPrice(window);
+    assert.equal(signal?.direction, "up");
+    assert.equal(signal?.score, 1);
+    assert.equal(signal?.referencePrice, 0.5);
+    assert.equal(model.onPrice(window), null);
+  });
+
+  it("does not fire on thin, balanced, stale or unconfirmed flow", () => {
+    const thin = new TradeFlowModel(params);
+    print(thin, "buy", 400, T0 + 500);
+    assert.equal(thin.onPrice(window), null);
+
+    const balanced = new TradeFlowModel(params);
+    print(balanced, "buy", 500, T0 + 500);
+    print(balanced, "sell", 400, T0 + 600);
+    assert.equal(balanced.onPrice(window), null);
+
+    const stale = new TradeFlowModel(params);
+    print(stale, "buy", 1000, T0 + 3000 - params.flowWindowMs - 1);
+    assert.equal(stale.onPrice(window), null);
+
+    const against = new TradeFlowModel(params);
+    print(against, "sell", 1000, T0 + 500);
+    assert.equal(against.onPrice(window), null);
+  });
+});
+
+describe("Shock model selection", () => {
+  it("reads the default list and per-sport overrides from env", () => {
+    assert.deepEqual(
+      shockModelsFromEnv({ SHOCK_MODELS: "zscore, EWMA", SHOCK_MODELS_NHL: "cusum,flow", SHOCK_MODELS_NBA: "", SHOCK_MODELS_X_Y: "mad" }),
+      { shockModels: ["zscore", "ewma"], shockModelsBySport: { NHL: ["cusum", "flow"] } },
+    );
+    assert.deepEqual(shockModelsFromEnv({}), {});
+    assert.throws(() => shockModelsFromEnv({ SHOCK_MODELS_NFL: "zscore,garch" }), /Unknown shock model "garch"/);
+    assert.deepEqual(createShockModels(parseShockModels("mad,cusum"), params).map((m) => m.name), ["mad", "cusum"]);
+  });
+
+  it("runs each market's sport models in the detector", () => {
+    const feed = new EventEmitter() as unknown as MarketDataFeed;
+    const detector = new ShockFadeDetector(feed, { shockModels: ["zscore"], shockModelsBySport: { NHL: ["cusum"] } });
+    assert.deepEqual(detector.getModelsForSport("nhl"), ["cusum"]);
+    assert.deepEqual(detector.getModelsForSport("NBA"), ["zscore"]);
+    assert.deepEqual(new ShockFadeDetector(feed).getModelsForSport("NHL"), ["zscore"]);
+
+    const shocks: ShockEvent[] = [];
+    detector.on("shock", (s: ShockEvent) => shocks.push(s));
+    detector.registerToken("nhl-token", "nhl-bos-tor-2026-02-09");
+    detector.registerToken("nba-token", "nba-bos-nyk-2026-02-09", "NBA");
+
+    const log = console.log;
+    console.log = () => {};
+    try {
+      detector.start();
+      [0.5, 0.5, 0.5, 0.5, 0.52, 0.54, 0.56].forEach((mid, i) => {
+        for (const tokenId of ["nhl-token", "nba-token"]) {
+          feed.emit("priceUpdate", { tokenId, bid: mid - 0.01, ask: mid + 0.01, timestamp: T0 + i * 1000 });
+        }
+      });
+    } finally {
+      console.log = log;
+    }
+
+    assert.deepEqual(shocks.map((s) => [s.tokenId, s.models]), [["nhl-token", ["cusum"]]]);
+  });
+});
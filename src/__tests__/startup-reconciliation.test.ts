@@ -0,0 +1,152 @@
+/**
+ * startup-reconciliation.test.ts — ShockFadeLive restarts against a venue
+ * that moved on while it was down: fills, cancels and merges are repaired,
+ * orders it can't account for hold trading until an operator confirms.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+
+import { ShockFadeLive, ShockFadeLiveConfig } from "../strategies/ShockFadeLive";
+import { ShockEvent } from "../strategies/ShockFadeDetector";
+import { SportsMarket } from "../services/SportsMarketDiscovery";
+import { MockMatchingEngine } from "../tests/mock-clob/MockMatchingEngine";
+import { MockClobVenue } from "../tests/mock-clob/MockClobVenue";
+import { MockWS, removeStateFiles, sportsMarket, tmpPath } from "./fixtures";
+import {
+  confirmReconciliationReport,
+  reconciliationReportPath,
+} from "../services/StartupReconciliation";
+
+const TOKEN_A = "3001";
+const TOKEN_B = "3002";
+const MARKET_SLUG = "nba-lal-gsw-2026-03-02";
+const CONDITION_ID = "0xcond_lal_gsw";
+
+const CONFIG: Partial<ShockFadeLiveConfig> = { dryRun: false, maxCyclesPerGame: 1, ladderSizes: [5, 10, 15] };
+
+function createMarket(): SportsMarket {
+  return sportsMarket({
+    marketSlug: MARKET_SLUG, conditionId: CONDITION_ID, tokenIds: [TOKEN_A, TOKEN_B],
+    outcomes: ["Lakers", "Warriors"], question: "Lakers vs. Warriors",
+  });
+}
+
+function createShock(): ShockEvent {
+  return {
+    type: "shock",
+    tokenId: TOKEN_A,
+    marketSlug: MARKET_SLUG,
+    direction: "up",
+    magnitude: 0.08,
+    zScore: 4.5,
+    preShockPrice: 0.5,
+    currentPrice: 0.58,
+    timestamp: Date.now(),
+  };
+}
+
+function setup() {
+  const engine = new MockMatchingEngine();
+  engine.registerMarket(CONDITION_ID, [TOKEN_A, TOKEN_B]);
+  engine.setBook(TOKEN_A, [{ price: 0.55, size: 100 }], []);
+  engine.setBook(TOKEN_B, [{ price: 0.35, size: 100 }], []);
+  const venue = new MockClobVenue(engine, "bot", 1000);
+  const statePath = tmpPath("recon");
+  return { engine, venue, statePath };
+}
+
+function startTrader(venue: MockClobVenue, statePath: string): ShockFadeLive {
+  const trader = new ShockFadeLive(new MockWS() as any, venue as any, venue as any, venue, CONFIG, statePath);
+  trader.registerTokenPair(createMarket());
+  trader.start();
+  return trader;
+}
+
+/** Stop the bot and detach it from the venue, as if the process died */
+function goOffline(trader: ShockFadeLive, venue: MockClobVenue): void {
+  trader.stop();
+  venue.removeAllListeners("orderFill");
+  venue.removeAllListeners("orderUpdate");
+}
+
+function cleanup(statePath: string): void {
+  removeStateFiles(statePath, reconciliationReportPath(statePath));
+}
+
+describe("Startup reconciliation", () => {
+  it("books offline fills and cancels and adopts merged balances without holding trading", async () => {
+    const { engine, venue, statePath } = setup();
+    const before = startTrader(venue, statePath);
+    let after: ShockFadeLive | null = null;
+    try {
+      await before.preSplitForMarket(MARKET_SLUG);
+      await before.handleShock(createShock());
+      const [l1, l2, l3] = [1, 2, 3].map((lvl) => before.getAllOrders().find((o) => o.level === lvl)!);
+      goOffline(before, venue);
+
+      // While down: L1 fills, L2 is cancelled, 10 pairs are merged by hand
+      engine.trade(TOKEN_A, "BUY", l1.price, l1.shares);
+      await venue.cancel(l2.orderId!);
+      await venue.merge(CONDITION_ID, 10);
+
+      after = startTrader(venue, statePath);
+      const report = (await after.reconcileWithVenue())!;
+
+      assert.deepEqual(report.discrepancies.map((d) => d.kind).sort(), ["BALANCE_DRIFT", "BALANCE_DRIFT", "ORDER_CANCELLED", "ORDER_FILLED"]);
+      assert.ok(report.discrepancies.every((d) => d.repaired));
+      assert.equal(report.blocking, false);
+      assert.equal(after.isHalted(), false);
+
+      const byId = new Map(after.getAllOrders().map((o) => [o.id, o]));
+      assert.equal(byId.get(l1.id)!.status, "FILLED");
+      assert.equal(byId.get(l2.id)!.status, "CANCELLED");
+      assert.equal(byId.get(l3.id)!.status, "RESTING");
+      assert.equal(after.getOpenPositions().length, 1);
+      assert.equal(after.getCumulativeTPs()[0].totalEntryShares, l1.shares);
+
+      // Wallet: A 35 − 5 sold − 10 merged = 20, of which 15 rest in L3; B 35 − 10 merged.
+      // Then the refill held back during reconciliation splits another 30.
+      const inv = after.getInventory(MARKET_SLUG)!;
+      assert.equal(inv.sharesA, 5 + 30);
+      assert.equal(inv.sharesB, 25 + 30);
+      assert.ok(fs.existsSync(reconciliationReportPath(statePath)));
+    } finally {
+      after?.stop();
+      cleanup(statePath);
+    }
+  });
+
+  it("holds trading on an order it doesn't know until the report is confirmed", async () => {
+    const { venue, statePath } = setup();
+    const before = startTrader(venue, statePath);
+    let after: ShockFadeLive | null = null;
+    try {
+      await before.preSplitForMarket(MARKET_SLUG);
+      goOffline(before, venue);
+
+      // Placed by hand (or by a run whose state was lost)
+      const stray = await venue.placeLimit({ tokenId: TOKEN_A, side: "SELL", shares: 5, price: 0.9 });
+
+      after = startTrader(venue, statePath);
+      const report = (await after.reconcileWithVenue())!;
+      assert.deepEqual(report.discrepancies.map((d) => [d.kind, d.ref]), [["UNTRACKED_ORDER", stray.orderId]]);
+      assert.equal(report.blocking, true);
+      assert.equal(after.isHalted(), true);
+
+      await after.handleShock(createShock());
+      assert.equal(after.getAllOrders().length, 0);
+
+      const reportPath = reconciliationReportPath(statePath);
+      assert.throws(() => confirmReconciliationReport(reportPath, "recon_0", "ops"), /not recon_0/);
+      confirmReconciliationReport(reportPath, report.id, "ops");
+      (after as any).checkReconciliationConfirmed();
+      assert.equal(after.isHalted(), false);
+      assert.equal(after.getReconciliation()!.confirmedBy, "ops");
+    } finally {
+      after?.stop();
+      cleanup(statePath);
+    }
+  });
+});
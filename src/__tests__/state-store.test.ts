@@ -0,0 +1,212 @@
+/**
+ * state-store.test.ts — ShockFadeLive state persistence: the SQLite store
+ * keeps full history across sessions and writes only what changed, JSON
+ * state files import once, and non-.db paths keep the JSON snapshot.
+ *
+ * The SQLite cases skip where better-sqlite3's native binding isn't built.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+
+import {
+  JsonStateStore,
+  ShockFadeStateSnapshot,
+  SqliteStateStore,
+  createStateStore,
+  importStateJson,
+} from "../services/ShockFadeStateStore";
+import { CumulativeTP, LiveLadderOrder, LiveTradeRecord, MarketInventory } from "../strategies/ShockFadeLive";
+import { dryRunTrader, removeDb, removeStateFiles, sqliteUnavailable, tmpPath } from "./fixtures";
+
+const MARKET_SLUG = "nba-mia-chi-2026-03-03";
+
+const skip = sqliteUnavailable();
+
+function order(id: string, status: LiveLadderOrder["status"], filledShares = 0): LiveLadderOrder {
+  return {
+    id, orderId: `v_${id}`, tokenId: "4001", marketSlug: MARKET_SLUG, conditionId: "0xcond_mia_chi",
+    price: 0.6, shares: 10, level: 1, status, filledShares, createdAt: Date.now(),
+    filledAt: null, fillPrice: null, shockId: "shock-1",
+  };
+}
+
+function trade(i: number): LiveTradeRecord {
+  return {
+    id: `trade-${i}`, marketSlug: MARKET_SLUG, soldTokenId: "4001", soldPrice: 0.6, soldShares: 5,
+    heldTokenId: "4002", exitPrice: 0.43, exitShares: 5, pnl: 0.15, splitCost: 5, totalProceeds: 5.15,
+    entryTime: 1_000 + i, exitTime: 2_000 + i, exitReason: "TAKE_PROFIT", holdTimeMs: 1_000,
+  };
+}
+
+function inventory(marketSlug: string): MarketInventory {
+  return { marketSlug, conditionId: `0xcond_${marketSlug}`, tokenA: "4001", tokenB: "4002", sharesA: 25, sharesB: 35, totalSplitCost: 35, splitCount: 1, negRisk: false };
+}
+
+function takeProfit(shockId: string, status: CumulativeTP["status"] = "WATCHING"): CumulativeTP {
+  return { shockId, marketSlug: MARKET_SLUG, status, createdAt: Date.now() } as CumulativeTP;
+}
+
+function snapshot(overrides: Partial<ShockFadeStateSnapshot> = {}): ShockFadeStateSnapshot {
+  return {
+    timestamp: Date.now(),
+    model: "shock-fade-live",
+    inventory: [inventory(MARKET_SLUG)],
+    orders: [order("o1", "RESTING")],
+    positions: [],
+    tradeHistory: [],
+    stats: { totalShocksProcessed: 1, totalOrdersPlaced: 1, totalOrdersFilled: 0, totalOrdersCancelled: 0, totalPositionsOpened: 0, totalPositionsClosed: 0, totalPnL: 0, totalSplitCost: 35, totalGasCost: 0, totalProceeds: 0, winCount: 0, lossCount: 0, winRate: 0, startedAt: 1_000 },
+    pnlHistory: [],
+    cumulativeTPs: [],
+    ...overrides,
+  };
+}
+
+describe("ShockFadeStateStore", () => {
+  it("keeps the JSON snapshot for non-.db paths", () => {
+    const file = tmpPath("state-store", ".json");
+    try {
+      const store = createStateStore(file);
+      assert.ok(store instanceof JsonStateStore);
+      store.save(snapshot({ tradeHistory: Array.from({ length: 250 }, (_, i) => trade(i)) }));
+      const loaded = store.load()!;
+      assert.equal(loaded.tradeHistory.length, 200);
+      assert.equal(loaded.orders[0].status, "RESTING");
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+
+  it("keeps every trade and P&L entry and reloads the latest session's state", { skip }, () => {
+    const file = tmpPath("state-store", ".db");
+    try {
+      const first = new SqliteStateStore(file);
+      assert.equal(first.load(), null);
+      const trades = Array.from({ length: 600 }, (_, i) => trade(i));
+      first.save(snapshot({ tradeHistory: trades.slice(0, 300), pnlHistory: [0.15, 0.15] }));
+      first.save(snapshot({
+        orders: [order("o1", "FILLED", 10), order("o2", "RESTING")],
+        tradeHistory: trades,
+        pnlHistory: [0.15, 0.15, -0.2],
+      }));
+      first.close();
+
+      const second = new SqliteStateStore(file);
+      const loaded = second.load()!;
+      assert.deepEqual(loaded.orders.map((o) => [o.id, o.status, o.filledShares]), [["o1", "FILLED", 10], ["o2", "RESTING", 0]]);
+      assert.equal(loaded.tradeHistory.length, 500);
+      assert.equal(loaded.tradeHistory[499].id, "trade-599");
+      assert.deepEqual(loaded.pnlHistory, [0.15, 0.15, -0.2]);
+      assert.equal(loaded.inventory[0].sharesA, 25);
+      assert.equal(loaded.stats.totalSplitCost, 35);
+
+      // A restart is a new session; history from the first stays in the store
+      second.save({ ...loaded, pnlHistory: [...loaded.pnlHistory, 0.1] });
+      const db = second.getDb();
+      assert.equal((db.prepare("SELECT COUNT(*) AS n FROM trades").get() as any).n, 600);
+      assert.equal((db.prepare("SELECT COUNT(*) AS n FROM pnl_history").get() as any).n, 4);
+      assert.equal(second.listSessions().length, 2);
+      assert.equal(second.getSchemaVersion(), 3);
+      second.close();
+    } finally {
+      removeDb(file);
+    }
+  });
+
+  it("does not bring back markets and take-profits removed since the last save", { skip }, () => {
+    const file = tmpPath("state-store", ".db");
+    const OTHER = "nhl-bos-tor-2026-03-03";
+    try {
+      const first = new SqliteStateStore(file);
+      first.save(snapshot({
+        inventory: [inventory(MARKET_SLUG), inventory(OTHER)],
+        cumulativeTPs: [takeProfit("shock-1"), takeProfit("shock-2", "PARTIAL")],
+      }));
+      // OTHER merged and freed, shock-2's TP dropped while still PARTIAL
+      first.save(snapshot({ inventory: [inventory(MARKET_SLUG)], cumulativeTPs: [takeProfit("shock-1")] }));
+      first.close();
+
+      const second = new SqliteStateStore(file);
+      const loaded = second.load()!;
+      assert.deepEqual(loaded.inventory.map((i) => i.marketSlug), [MARKET_SLUG]);
+      assert.deepEqual(loaded.cumulativeTPs.map((tp) => tp.shockId), ["shock-1"]);
+
+      // The dropped TP stays queryable; one that comes back is live again
+      const db = second.getDb();
+      assert.equal((db.prepare("SELECT COUNT(*) AS n FROM cumulative_tps WHERE removed_at IS NOT NULL").get() as any).n, 1);
+      second.save({ ...loaded, inventory: [], cumulativeTPs: [] });
+      second.save({ ...loaded, inventory: [], cumulativeTPs: loaded.cumulativeTPs });
+      second.close();
+
+      const third = new SqliteStateStore(file);
+      const reloaded = third.load()!;
+      assert.deepEqual(reloaded.inventory, []);
+      assert.deepEqual(reloaded.cumulativeTPs.map((tp) => tp.shockId), ["shock-1"]);
+      third.close();
+    } finally {
+      removeDb(file);
+    }
+  });
+
+  it("writes each trade and P&L entry once when the trader only passes its in-memory window, and updates late gas", { skip }, () => {
+    const file = tmpPath("state-store", ".db");
+    try {
+      const store = new SqliteStateStore(file);
+      store.save(snapshot({ tradeHistory: [trade(0), trade(1)], pnlHistory: [1, 2, 3], pnlCount: 3 }));
+      store.save(snapshot({ tradeHistory: [trade(1), trade(2)], pnlHistory: [3, 4, 5], pnlCount: 5 }));
+      store.save(snapshot({ tradeHistory: [trade(1), { ...trade(2), pnl: 0.05, gasCost: 0.1 }], pnlHistory: [3, 4, 5], pnlCount: 5 }));
+
+      const db = store.getDb();
+      assert.equal((db.prepare("SELECT COUNT(*) AS n FROM trades").get() as any).n, 3);
+      assert.deepEqual({ ...(db.prepare("SELECT pnl, gas_cost FROM trades WHERE id = 'trade-2'").get() as any) }, { pnl: 0.05, gas_cost: 0.1 });
+      assert.deepEqual((db.prepare("SELECT pnl FROM pnl_history ORDER BY id").all() as any[]).map((r) => r.pnl), [1, 2, 3, 4, 5]);
+      store.close();
+    } finally {
+      removeDb(file);
+    }
+  });
+
+  it("keeps the trader's trade and P&L history bounded in memory but complete in the store", { skip }, () => {
+    const statePath = tmpPath("state-store", ".db");
+    const trader = dryRunTrader(statePath);
+    try {
+      for (let i = 0; i < 600; i++) {
+        (trader as any).recordTrade(trade(i));
+        (trader as any).recordPnl(i);
+        (trader as any).saveState();
+      }
+      assert.equal(trader.getTradeHistory().length, 500);
+      assert.equal(trader.getTradeHistory()[0].id, "trade-100");
+      assert.equal((trader as any).pnlHistory.length, 500);
+
+      const db = (trader as any).store.getDb();
+      assert.equal((db.prepare("SELECT COUNT(*) AS n FROM trades").get() as any).n, 600);
+      assert.equal((db.prepare("SELECT COUNT(*) AS n FROM pnl_history").get() as any).n, 600);
+    } finally {
+      trader.stop();
+      removeStateFiles(statePath, `${statePath}-wal`, `${statePath}-shm`);
+    }
+  });
+
+  it("imports a JSON state file once, as a session of its own", { skip }, () => {
+    const json = tmpPath("state-store", ".json");
+    const file = tmpPath("state-store", ".db");
+    try {
+      new JsonStateStore(json).save(snapshot({ tradeHistory: [trade(1), trade(2)] }));
+      const store = new SqliteStateStore(file);
+      const result = importStateJson(store, json);
+      assert.equal(result.trades, 2);
+      assert.throws(() => importStateJson(store, json), /already imported/);
+
+      const loaded = store.load()!;
+      assert.deepEqual(loaded.orders.map((o) => o.id), ["o1"]);
+      assert.equal(loaded.tradeHistory.length, 2);
+      assert.match(store.listSessions()[0].source, /^import:/);
+      store.close();
+    } finally {
+      fs.rmSync(json, { force: true });
+      removeDb(file);
+    }
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * win-probability.test.ts — in-game win probability, the fair-value source
+ * built on it, and σ calibration from recorder rows.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as os from "os";
+import * as path from "path";
+import * as fs from "fs";
+
+import {
+  DEFAULT_WIN_PROB_PARAMS,
+  GameStateSource,
+  WinProbabilityFairValue,
+  homeWinProbability,
+  loadWinProbParams,
+  normalCdf,
+  normalQuantile,
+} from "../services/WinProbabilityModel";
+import {
+  CalibrationEventRow,
+  CalibrationMarketRow,
+  CalibrationSnapshotRow,
+  buildCalibrationSamples,
+  fitWinProbParams,
+} from "../backtest/WinProbCalibration";
+import { FairValueSource } from "../services/PinnacleOddsClient";
+import { SportsMarket, MarketState } from "../services/SportsMarketDiscovery";
+import { GameState, GameStateInput, LeagueSport, buildGameState } from "../collectors/league-apis/GameState";
+
+function state(
+  sport: LeagueSport,
+  period: number,
+  clock: string,
+  homeScore: number,
+  awayScore: number,
+  extra: Partial<GameStateInput> = {},
+): GameState {
+  return buildGameState({
+    sport,
+    gameId: "g1",
+    status: "live",
+    home: { name: "Toronto Maple Leafs", abbrev: "TOR", score: homeScore },
+    away: { name: "Boston Bruins", abbrev: "BOS", score: awayScore },
+    period,
+    clock,
+    ...extra,
+  });
+}
+
+function market(outcomePrices: number[] = [0.45, 0.55]): SportsMarket {
+  return {
+    eventSlug: "nhl-bos-tor-2026-02-10",
+    marketSlug: "nhl-bos-tor-2026-02-10",
+    conditionId: "0xcond",
+    sport: "NHL",
+    question: "Bruins vs. Maple Leafs",
+    outcomes: ["Bruins", "Maple Leafs"],
+    tokenIds: ["tok_bos", "tok_tor"],
+    outcomePrices,
+    gameStartTime: null,
+    discoveredAt: new Date(),
+    volume: 0,
+    liquidity: 0,
+    state: MarketState.ACTIVE,
+    stateChangedAt: new Date(),
+    sportConfig: null,
+  } as SportsMarket;
+}
+
+function games(current: GameState | undefined): GameStateSource {
+  return {
+    getGameState: () => current,
+    resolveTokenTricode: (_m, tokenId) => (tokenId === "tok_bos" ? "BOS" : "TOR"),
+  };
+}
+
+describe("normal distribution helpers", () => {
+  it("quantile inverts the CDF", () => {
+    for (const p of [0.01, 0.1, 0.35, 0.5, 0.8, 0.99]) {
+      assert.ok(Math.abs(normalCdf(normalQuantile(p)) - p) < 1e-6, `p=${p}`);
+    }
+    assert.ok(Math.abs(normalCdf(1.96) - 0.975) < 1e-4);
+  });
+});
+
+describe("homeWinProbability", () => {
+  it("returns the prior at the opening faceoff", () => {
+    const p = homeWinProbability(state("NHL", 1, "20:00", 0, 0), 0.6);
+    assert.ok(Math.abs(p - 0.6) < 0.005, `p=${p}`);
+  });
+
+  it("a lead is worth more as the clock runs down", () => {
+    const early = homeWinProbability(state("NHL", 1, "15:00", 1, 0), 0.5);
+    const late = homeWinProbability(state("NHL", 3, "2:00", 1, 0), 0.5);
+    assert.ok(early > 0.5 && late > early, `early=${early} late=${late}`);
+    assert.ok(late > 0.85, `late=${late}`);
+  });
+
+  it("the pre-game favourite stays ahead in a tie", () => {
+    const fav = homeWinProbability(state("NBA", 2, "6:00", 50, 50), 0.7);
+    assert.ok(fav > 0.5 && fav < 0.7, `fav=${fav}`);
+  });
+
+  it("credits possession and the power play to the right side", () => {
+    const base = homeWinProbability(state("NFL", 4, "1:00", 20, 21), 0.5);
+    const homeBall = homeWinProbability(state("NFL", 4, "1:00", 20, 21, { possession: "home" }), 0.5);
+    const awayBall = homeWinProbability(state("NFL", 4, "1:00", 20, 21, { possession: "away" }), 0.5);
+    assert.ok(homeBall > base && awayBall < base);
+
+    const pp = homeWinProbability(state("NHL", 3, "5:00", 2, 2, { powerPlay: "away" }), 0.5);
+    assert.ok(pp < 0.5);
+  });
+
+  it("settles games at the horn and at the final", () => {
+    assert.ok(homeWinProbability(state("NHL", 3, "0:00", 3, 2), 0.5) > 0.99);
+    const final = buildGameState({ ...state("NHL", 3, "0:00", 1, 4), status: "final" } as GameStateInput);
+    assert.equal(homeWinProbability(final, 0.9), 0);
+  });
+
+  it("overtime ties are a near coin flip", () => {
+    const ot = homeWinProbability(state("NHL", 4, "5:00", 2, 2, { periodType: "OT" }), 0.6);
+    assert.ok(ot > 0.5 && ot < 0.53, `ot=${ot}`);
+  });
+});
+
+describe("loadWinProbParams", () => {
+  it("reads every league from sss_sport_params.json", () => {
+    const params = loadWinProbParams();
+    for (const sport of ["NHL", "NBA", "NFL", "MLB", "CBB"] as LeagueSport[]) {
+      assert.ok(params[sport].sigma > 0, sport);
+    }
+  });
+
+  it("falls back to defaults for missing blocks and files", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "winprob-"));
+    const configPath = path.join(dir, "params.json");
+    fs.writeFileSync(configPath, JSON.stringify({ sports: { NHL: { win_prob: { sigma: 3.1 } } } }));
+
+    const params = loadWinProbParams(configPath);
+    assert.equal(params.NHL.sigma, 3.1);
+    assert.equal(params.NHL.powerPlayValue, DEFAULT_WIN_PROB_PARAMS.NHL.powerPlayValue);
+    assert.deepEqual(params.NBA, DEFAULT_WIN_PROB_PARAMS.NBA);
+    assert.deepEqual(loadWinProbParams(path.join(dir, "missing.json")), DEFAULT_WIN_PROB_PARAMS);
+  });
+});
+
+describe("WinProbabilityFairValue", () => {
+  it("prices both tokens from the home win probability", async () => {
+    const fv = new WinProbabilityFairValue(games(state("NHL", 3, "3:00", 2, 1)), null, DEFAULT_WIN_PROB_PARAMS);
+    const tor = (await fv.getFairValue(market(), "tok_tor"))!;
+    const bos = (await fv.getFairValue(market(), "tok_bos"))!;
+    assert.ok(tor > 0.8, `tor=${tor}`);
+    assert.ok(Math.abs(tor + bos - 1) < 1e-9);
+    assert.equal(fv.getPregamePrior(market().marketSlug), 0.55); // home = Maple Leafs
+  });
+
+  it("takes the prior from the source before the game and keeps it", async () => {
+    let current: GameState = buildGameState({ ...state("NHL", 0, "", 0, 0), status: "pre" } as GameStateInput);
+    const prior: FairValueSource = { getFairValue: async (_m, tokenId) => (tokenId === "tok_tor" ? 0.62 : 0.38) };
+    const fv = new WinProbabilityFairValue({ ...games(undefined), getGameState: () => current }, prior, DEFAULT_WIN_PROB_PARAMS);
+
+    assert.equal(await fv.getFairValue(market(), "tok_tor"), 0.62);
+    current = state("NHL", 2, "10:00", 0, 1);
+    const live = (await fv.getFairValue(market(), "tok_tor"))!;
+    assert.equal(fv.getPregamePrior(market().marketSlug), 0.62);
+    assert.ok(live < 0.62, `live=${live}`);
+  });
+
+  it("returns null without game state or a prior", async () => {
+    assert.equal(await new WinProbabilityFairValue(games(undefined)).getFairValue(market(), "tok_tor"), null);
+    const noPrices = new WinProbabilityFairValue(games(state("NHL", 1, "10:00", 0, 0)), null, DEFAULT_WIN_PROB_PARAMS);
+    assert.equal(await noPrices.getFairValue(market([]), "tok_tor"), null);
+  });
+});
+
+describe("WinProbCalibration", () => {
+  const row: CalibrationMarketRow = {
+    market_slug: "nhl-bos-tor-2026-02-10",
+    sport: "NHL",
+    outcome1: "Toronto Maple Leafs",
+    outcome2: "Boston Bruins",
+    token1: "tok_tor",
+    token2: "tok_bos",
+  };
+  const t0 = 1_770_000_000_000;
+
+  it("rebuilds score and clock from game_events", () => {
+    const events: CalibrationEventRow[] = [
+      { ts: t0, event_type: "period_start", team: "", period: "1", clock: "20:00" },
+      { ts: t0 + 600_000, event_type: "goal", team: "TOR", period: "1", clock: "12:00" },
+      { ts: t0 + 1_200_000, event_type: "goal", team: "BOS", period: "1", clock: "4:00" },
+      { ts: t0 + 1_800_000, event_type: "period_end", team: "", period: "1", clock: "0:00" },
+    ];
+    const snaps: CalibrationSnapshotRow[] = [
+      { ts: t0 - 60_000, mid_price: 0.55 }, // pre-game, not sampled
+      { ts: t0 + 30_000, mid_price: 0.55 },
+      { ts: t0 + 40_000, mid_price: 0.56 }, // inside the sample interval
+      { ts: t0 + 700_000, mid_price: 0.66 },
+      { ts: t0 + 1_300_000, mid_price: 0.56 },
+    ];
+
+    const samples = buildCalibrationSamples(row, "NHL", snaps, events, 0.55);
+    assert.equal(samples.length, 3);
+    assert.deepEqual(samples.map((s) => [s.state.home.score, s.state.away.score]), [[0, 0], [1, 0], [1, 1]]);
+    assert.equal(samples[1].state.periodSecondsRemaining, 720);
+    assert.equal(samples[1].observed, 0.66);
+  });
+
+  it("recovers σ from prices generated by the model", () => {
+    const truth = { ...DEFAULT_WIN_PROB_PARAMS.NHL, sigma: 3 };
+    const samples = [];
+    for (let period = 1; period <= 3; period++) {
+      for (const clock of ["18:00", "12:00", "6:00", "1:00"]) {
+        for (const [h, a] of [[1, 0], [0, 2], [2, 1]]) {
+          const s = state("NHL", period, clock, h, a);
+          samples.push({ marketSlug: `m${period}`, state: s, pregameProb: 0.55, observed: homeWinProbability(s, 0.55, truth) });
+        }
+      }
+    }
+
+    const fit = fitWinProbParams("NHL", samples);
+    assert.equal(fit.games, 3);
+    assert.ok(Math.abs(fit.params.sigma - 3) < 0.05, `sigma=${fit.params.sigma}`);
+    assert.ok(fit.rmse < fit.baselineRmse);
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * FillModel — decides when a simulated resting SELL order gets filled.
+ *
+ * Shared by ShockFadePaperTrader and the replay backtester's ReplayExchange so
+ * paper, replay and backtest results use the same fill assumptions.
+ *
+ *   TouchFillModel  — the historical behaviour: fill in full as soon as price
+ *                     touches the level. Overstates deep ladder (L2/L3) fills.
+ *   QueueFillModel  — tracks our position in the FIFO queue at our price. At
+ *                     placement we join behind the displayed ask size at that
+ *                     price; only taker BUY volume that trades through the
+ *                     queue ahead of us fills us (partially if need be).
+ *
+ * onTrade takes real prints (OrderBookWebSocket "lastTrade", the recorder's
+ * trades table) — not "trade" events, which are price_changes book sizes.
+ *
+ * Books are passed best-first (bids descending, asks ascending).
+ */
+
+import { OrderBookData } from "../services/OrderBookWS";
+
+export interface BookLevel {
+  price: number;
+  size: number;
+}
+
+export interface SimOrder {
+  id: string;
+  tokenId: string;
+  price: number;
+  shares: number;
+}
+
+export interface SimulatedFill {
+  orderId: string;
+  shares: number;
+  price: number;
+}
+
+export interface FillModel {
+  readonly name: string;
+  /** Start tracking a resting SELL. `asks` is the displayed ask side at placement. */
+  addOrder(order: SimOrder, asks: BookLevel[]): void;
+  /** Stop tracking (cancelled, expired or filled elsewhere). */
+  removeOrder(orderId: string): void;
+  /** The book for `tokenId` changed. */
+  onBook(tokenId: string, bids: BookLevel[], asks: BookLevel[]): SimulatedFill[];
+  /** A last_trade_price print on `tokenId`. `side` is the taker side. */
+  onTrade(tokenId: string, price: number, size: number, side: "buy" | "sell"): SimulatedFill[];
+  /** Cumulative shares filled so far for an order (0 if unknown). */
+  getFilledShares(orderId: string): number;
+}
+
+const EPS = 1e-9;
+
+/**
+ * Convert an OrderBookWebSocket book (best level LAST on both sides) into
+ * best-first levels.
+ */
+export function levelsFromOrderBook(book: OrderBookData | null): { bids: BookLevel[]; asks: BookLevel[] } {
+  if (!book) return { bids: [], asks: [] };
+  const parse = (l: { price: string; size: string }) => ({ price: parseFloat(l.price), size: parseFloat(l.size) });
+  return {
+    bids: [...(book.bids || [])].reverse().map(parse),
+    asks: [...(book.asks || [])].reverse().map(parse),
+  };
+}
+
+interface TrackedOrder extends SimOrder {
+  filled: number;
+  queueAhead: number;
+  seq: number;
+}
+
+/** Common bookkeeping for both models. */
+abstract class BaseFillModel implements FillModel {
+  abstract readonly name: string;
+  protected orders: Map<string, TrackedOrder> = new Map();
+  protected filledTotals: Map<string, number> = new Map();
+  private seq = 0;
+
+  addOrder(order: SimOrder, asks: BookLevel[]): void {
+    this.orders.set(order.id, {
+      ...order,
+      filled: 0,
+      queueAhead: this.initialQueue(order, asks),
+      seq: this.seq++,
+    });
+    this.filledTotals.set(order.id, 0);
+  }
+
+  removeOrder(orderId: string): void {
+    this.orders.delete(orderId);
+  }
+
+  getFilledShares(orderId: string): number {
+    return this.filledTotals.get(orderId) ?? 0;
+  }
+
+  abstract onBook(tokenId: string, bids: BookLevel[], asks: BookLevel[]): SimulatedFill[];
+  abstract onTrade(tokenId: string, price: number, size: number, side: "buy" | "sell"): SimulatedFill[];
+
+  protected initialQueue(_order: SimOrder, _asks: BookLevel[]): number {
+    return 0;
+  }
+
+  /** Orders on a token, price then time priority. */
+  protected ordersFor(tokenId: string): TrackedOrder[] {
+    return Array.from(this.orders.values())
+      .filter((o) => o.tokenId === tokenId)
+      .sort((a, b) => a.price - b.price || a.seq - b.seq);
+  }
+
+  protected fill(order: TrackedOrder, shares: number): SimulatedFill | null {
+    const qty = Math.min(shares, order.shares - order.filled);
+    if (qty <= EPS) return null;
+    order.filled += qty;
+    this.filledTotals.set(order.id, order.filled);
+    if (order.filled >= order.shares - EPS) this.orders.delete(order.id);
+    return { orderId: order.id, shares: qty, price: order.price };
+  }
+}
+
+// ============================================================================
+// TOUCH MODEL
+// ============================================================================
+
+export interface TouchFillModelOptions {
+  /** Which trade prints fill us: any side, taker buys only, or none */
+  trade: "any" | "buy" | "off";
+  /** Fill when the best bid rises to our price */
+  bidCross: boolean;
+}
+
+export class TouchFillModel extends BaseFillModel {
+  readonly name = "touch";
+  private opts: TouchFillModelOptions;
+
+  constructor(opts: Partial<TouchFillModelOptions> = {}) {
+    super();
+    this.opts = { trade: "any", bidCross: false, ...opts };
+  }
+
+  onBook(tokenId: string, bids: BookLevel[], _asks: BookLevel[]): SimulatedFill[] {
+    if (!this.opts.bidCross || bids.length === 0) return [];
+    return this.fillAtOrBelow(tokenId, bids[0].price);
+  }
+
+  onTrade(tokenId: string, price: number, _size: number, side: "buy" | "sell"): SimulatedFill[] {
+    if (this.opts.trade === "off") return [];
+    if (this.opts.trade === "buy" && side !== "buy") return [];
+    return this.fillAtOrBelow(tokenId, price);
+  }
+
+  private fillAtOrBelow(tokenId: string, price: number): SimulatedFill[] {
+    const fills: SimulatedFill[] = [];
+    for (const order of this.ordersFor(tokenId)) {
+      if (order.price > price + EPS) continue;
+      const f = this.fill(order, order.shares - order.filled);
+      if (f) fills.push(f);
+    }
+    return fills;
+  }
+}
+
+// ============================================================================
+// QUEUE MODEL
+// ============================================================================
+
+export interface QueueFillModelOptions {
+  /**
+   * Queue assumed ahead of us when our price is deeper than the visible book.
+   * Default (null): the mean visible ask level size.
+   */
+  unseenLevelQueue: number | null;
+}
+
+export class QueueFillModel extends BaseFillModel {
+  readonly name = "queue";
+  private opts: QueueFillModelOptions;
+
+  constructor(opts: Partial<QueueFillModelOptions> = {}) {
+    super();
+    this.opts = { unseenLevelQueue: null, ...opts };
+  }
+
+  /** Join the back of the displayed queue at our price. */
+  protected initialQueue(order: SimOrder, asks: BookLevel[]): number {
+    if (asks.length === 0) return 0;
+
+    const atLevel = asks.find((l) => Math.abs(l.price - order.price) < EPS);
+    if (atLevel) return atLevel.size;
+
+    // Improving the best ask, or inside a visible gap → nobody ahead of us
+    const deepest = asks[asks.length - 1].price;
+    if (order.price < deepest) return 0;
+
+    // Beyond visible depth — size unknown
+    if (this.opts.unseenLevelQueue !== null) return this.opts.unseenLevelQueue;
+    return asks.reduce((sum, l) => sum + l.size, 0) / asks.length;
+  }
+
+  /**
+   * Book refresh: a bid at/above our price means the queue at our level was
+   * consumed (we are filled); otherwise the queue ahead can only shrink to
+   * what is still displayed (cancellations ahead of us move us up).
+   */
+  onBook(tokenId: string, bids: BookLevel[], asks: BookLevel[]): SimulatedFill[] {
+    const fills: SimulatedFill[] = [];
+    const bestBid = bids.length > 0 ? bids[0].price : 0;
+    const bestAsk = asks.length > 0 ? asks[0].price : Infinity;
+    const deepest = asks.length > 0 ? asks[asks.length - 1].price : -Infinity;
+
+    for (const order of this.ordersFor(tokenId)) {
+      if (bestBid > 0 && bestBid >= order.price - EPS) {
+        order.queueAhead = 0;
+        const f = this.fill(order, order.shares - order.filled);
+        if (f) fills.push(f);
+        continue;
+      }
+
+      const atLevel = asks.find((l) => Math.abs(l.price - order.price) < EPS);
+      if (atLevel) {
+        order.queueAhead = Math.min(order.queueAhead, atLevel.size);
+      } else if (order.price < bestAsk || order.price <= deepest) {
+        // Level is visible-but-empty: everyone ahead of us left
+        order.queueAhead = 0;
+      }
+    }
+    return fills;
+  }
+
+  /**
+   * Taker BUY volume: prints above our price swept our level entirely; prints
+   * at our price first work off the queue ahead, then fill us.
+   */
+  onTrade(tokenId: string, price: number, size: number, side: "buy" | "sell"): SimulatedFill[] {
+    if (side !== "buy") return [];
+    const fills: SimulatedFill[] = [];
+    let volumeAtLevel = size;
+
+    for (const order of this.ordersFor(tokenId)) {
+      if (order.price > price + EPS) continue;
+
+      if (order.price < price - EPS) {
+        order.queueAhead = 0;
+        const f = this.fill(order, order.shares - order.filled);
+        if (f) fills.push(f);
+        continue;
+      }
+
+      // Same price level — FIFO
+      const throughQueue = Math.min(order.queueAhead, volumeAtLevel);
+      order.queueAhead -= throughQueue;
+      volumeAtLevel -= throughQueue;
+      if (volumeAtLevel <= EPS) break;
+
+      const remaining = order.shares - order.filled;
+      const f = this.fill(order, Math.min(remaining, volumeAtLevel));
+      if (f) {
+        fills.push(f);
+        volumeAtLevel -= f.shares;
+      }
+    }
+    return fills;
+  }
+}
+
+export type FillModelName = "touch" | "queue";
+
+/** Build a fill model by name (for env / CLI selection). */
+export function createFillModel(name: FillModelName | string, touchOpts: Partial<TouchFillModelOptions> = {}): FillModel {
+  return name === "touch" ? new TouchFillModel(touchOpts) : new QueueFillModel();
+}
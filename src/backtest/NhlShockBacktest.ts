@@ -1,5 +1,5 @@
 import Database from "better-sqlite3";
-import { classifySurprise, defaultGameState, FairValue, GameState } from "./SurpriseClassifier";
+import { classifySurprise, defaultGameState, estimateGameState, FairValue, GameState } from "./SurpriseClassifier";
 
 export type BacktestConfig = {
   dbPath: string;
@@ -299,13 +299,7 @@ export class NhlShockBacktest {
         }
       }
 
-      return {
-        scoringTeam: "home", // direction determined by impulse detection
-        timeRemainingSeconds: remaining,
-        totalGameSeconds: totalSecs,
-        scoreDifferential: homeGoals - awayGoals,
-        eventType: "goal",
-      };
+      return estimateGameState("NHL", remaining / totalSecs, homeGoals, awayGoals);
     }
 
     // Fallback: estimate from snapshot timestamps
@@ -315,16 +309,10 @@ export class NhlShockBacktest {
       const totalSecs = this.cfg.totalGameSeconds;
       const remaining = Math.max(0, totalSecs - elapsed);
 
-      return {
-        scoringTeam: "home",
-        timeRemainingSeconds: remaining,
-        totalGameSeconds: totalSecs,
-        scoreDifferential: 0, // unknown without events
-        eventType: "unknown",
-      };
+      return estimateGameState("NHL", remaining / totalSecs); // score unknown without events
     }
 
-    return defaultGameState(this.cfg.totalGameSeconds);
+    return defaultGameState("NHL");
   }
 
   /* ─── Trade simulation ───────────────────────────────────────────── */
@@ -3,26 +3,27 @@
  *
  * Higher surprise → better fade opportunity (market overreacts to unexpected events).
  * Lower surprise → market reaction is efficient, less fade edge.
+ *
+ * Game context is the normalized GameState the league feeds produce, taken
+ * BEFORE the event (score differential = home - away going in).
  */
 
+import {
+  GameState,
+  LeagueSport,
+  REGULATION,
+  buildGameState,
+  fractionElapsed,
+  formatClock,
+  scoreDifferential,
+} from "../collectors/league-apis/GameState";
+export type { GameState };
+
 export interface FairValue {
   fairBid: number;
   fairAsk: number;
 }
 
-export interface GameState {
-  /** Which team scored / caused the shock: "home" | "away" */
-  scoringTeam: "home" | "away";
-  /** Seconds remaining in the game (e.g. 3600 for start of NHL 3rd period) */
-  timeRemainingSeconds: number;
-  /** Total regulation seconds (NHL = 3600, NBA = 2880) */
-  totalGameSeconds: number;
-  /** Score differential BEFORE the event: home - away (positive = home leading) */
-  scoreDifferential: number;
-  /** Event type, e.g. "goal", "penalty" */
-  eventType?: string;
-}
-
 export interface SurpriseResult {
   /** 0-1 surprise score (1 = maximum surprise) */
   score: number;
@@ -80,18 +81,18 @@ export function classifySurprise(
 
   // ─── 3. Game Time Factor (0-1) ────────────────────────────────────
   // Late-game events are more surprising (less time to recover)
-  const fractionElapsed = 1 - gameState.timeRemainingSeconds / gameState.totalGameSeconds;
-  const clampedElapsed = Math.max(0, Math.min(1, fractionElapsed));
+  const clampedElapsed = fractionElapsed(gameState);
   // Exponential: early game low, ramps up in final third
   const timeScore = Math.pow(clampedElapsed, 1.5);
   reasons.push(`game ${(clampedElapsed * 100).toFixed(0)}% elapsed (time_score=${timeScore.toFixed(2)})`);
 
   // ─── 4. Score Tightness (0-1) ─────────────────────────────────────
   // Tight games = more surprise. Blowouts = less.
-  const absDiff = Math.abs(gameState.scoreDifferential);
+  const diff = scoreDifferential(gameState);
+  const absDiff = Math.abs(diff);
   // 0 diff = 1.0, 1 diff = 0.7, 2 diff = 0.4, 3+ = 0.2
   const tightnessScore = Math.max(0.1, 1.0 - absDiff * 0.3);
-  reasons.push(`scoreDiff=${gameState.scoreDifferential} (tightness=${tightnessScore.toFixed(2)})`);
+  reasons.push(`scoreDiff=${diff} (tightness=${tightnessScore.toFixed(2)})`);
 
   // ─── Composite Score ──────────────────────────────────────────────
   // Weighted combination
@@ -119,15 +120,35 @@ export function classifySurprise(
 }
 
 /**
- * Estimate game state from basic info when Sportradar data isn't available.
+ * Build a live game state from the fraction of regulation remaining and the
+ * score, for replays that only have timestamps and goal counts.
+ */
+export function estimateGameState(
+  sport: LeagueSport,
+  fractionRemaining: number,
+  homeScore: number = 0,
+  awayScore: number = 0,
+): GameState {
+  const { periods, periodSeconds } = REGULATION[sport];
+  const perPeriod = periodSeconds ?? 0;
+  const remaining = Math.max(0, Math.min(1, fractionRemaining)) * periods * perPeriod;
+  // Which period the remaining time falls in, and how much of it is left
+  const periodsLeft = perPeriod > 0 ? Math.min(periods, Math.max(1, Math.ceil(remaining / perPeriod))) : 1;
+  return buildGameState({
+    sport,
+    gameId: "",
+    status: "live",
+    home: { name: "", abbrev: "", score: homeScore },
+    away: { name: "", abbrev: "", score: awayScore },
+    period: periods - periodsLeft + 1,
+    clock: formatClock(remaining - (periodsLeft - 1) * perPeriod),
+  });
+}
+
+/**
+ * Estimate game state when no live data is available.
  * Falls back to assuming midpoint and tied game.
  */
-export function defaultGameState(totalGameSeconds: number = 3600): GameState {
-  return {
-    scoringTeam: "home",
-    timeRemainingSeconds: totalGameSeconds / 2,
-    totalGameSeconds,
-    scoreDifferential: 0,
-    eventType: "unknown",
-  };
+export function defaultGameState(sport: LeagueSport = "NHL"): GameState {
+  return estimateGameState(sport, 0.5);
 }
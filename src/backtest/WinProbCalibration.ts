@@ -0,0 +1,252 @@
+/**
+ * WinProbCalibration — fits the WinProbabilityModel's σ per sport from the
+ * NhlShockRecorder SQLite tables.
+ *
+ * For every recorded market the game is rebuilt from game_events (score from
+ * "goal" rows, period + clock from the latest event) and paired with the
+ * token1 mid from snapshots, sampled at a fixed interval. The pre-game prior
+ * is the fair_values row for token1, else the first snapshot mid. σ is then
+ * grid-searched to minimise the squared error between model and market.
+ *
+ * The market price is a noisy label, but thousands of in-game samples pin σ
+ * far better than a handful of final results would.
+ */
+
+import Database from "better-sqlite3";
+import {
+  GameState,
+  LeagueSport,
+  REGULATION,
+  buildGameState,
+} from "../collectors/league-apis/GameState";
+import { resolveTokenTricode } from "../services/GameEventConfirmation";
+import { SportsMarket } from "../services/SportsMarketDiscovery";
+import {
+  DEFAULT_WIN_PROB_PARAMS,
+  WinProbParams,
+  homeWinProbability,
+} from "../services/WinProbabilityModel";
+
+/* ─── Row types ────────────────────────────────────────────────────── */
+
+export type CalibrationMarketRow = {
+  market_slug: string;
+  sport: string;
+  outcome1: string;
+  outcome2: string;
+  token1: string;
+  token2: string;
+};
+
+export type CalibrationSnapshotRow = {
+  ts: number;
+  mid_price: number;
+};
+
+export type CalibrationEventRow = {
+  ts: number;
+  event_type: string;
+  team: string;
+  period: string;
+  clock: string;
+};
+
+/* ─── Samples and fit ──────────────────────────────────────────────── */
+
+/** One in-game moment: token1 is the "home" side of the state */
+export type CalibrationSample = {
+  marketSlug: string;
+  state: GameState;
+  pregameProb: number;
+  /** token1 mid at that moment */
+  observed: number;
+};
+
+export type CalibrationOptions = {
+  /** Minimum gap between samples of one market (ms) */
+  sampleIntervalMs: number;
+  /** Skip mids this close to 0 or 1 (decided games carry no σ information) */
+  edgeCutoff: number;
+};
+
+export const DEFAULT_CALIBRATION_OPTIONS: CalibrationOptions = {
+  sampleIntervalMs: 60_000,
+  edgeCutoff: 0.03,
+};
+
+export type CalibrationResult = {
+  sport: LeagueSport;
+  games: number;
+  samples: number;
+  params: WinProbParams;
+  /** RMSE of the fitted model vs market mids */
+  rmse: number;
+  /** RMSE of the params the fit started from */
+  baselineRmse: number;
+};
+
+const SUPPORTED_SPORTS = Object.keys(REGULATION) as LeagueSport[];
+
+/** Does a game_events team ("BOS", "Boston Bruins") belong to outcome1? */
+function isToken1Team(team: string, tricode: string, outcome1: string): boolean {
+  const t = (team || "").toLowerCase();
+  if (!t) return false;
+  if (tricode && t === tricode.toLowerCase()) return true;
+  const outcome = outcome1.toLowerCase();
+  return t.includes(outcome) || outcome.includes(t.split(" ").pop() || t);
+}
+
+/**
+ * Rebuild the game at each sampled snapshot of token1. Snapshots before the
+ * first game event (pre-game) and after the last are not sampled.
+ */
+export function buildCalibrationSamples(
+  market: CalibrationMarketRow,
+  sport: LeagueSport,
+  snapshots: CalibrationSnapshotRow[],
+  events: CalibrationEventRow[],
+  pregameProb: number,
+  opts: CalibrationOptions = DEFAULT_CALIBRATION_OPTIONS,
+): CalibrationSample[] {
+  if (events.length === 0) return [];
+  const tricode = resolveTokenTricode(
+    { marketSlug: market.market_slug, outcomes: [market.outcome1, market.outcome2], tokenIds: [market.token1, market.token2] } as SportsMarket,
+    market.token1,
+  );
+
+  const samples: CalibrationSample[] = [];
+  const lastEventTs = events[events.length - 1].ts;
+  let token1Score = 0;
+  let token2Score = 0;
+  let period = 0;
+  let clock = "";
+  let evIdx = 0;
+  let lastSampleTs = -Infinity;
+
+  for (const snap of snapshots) {
+    if (snap.ts > lastEventTs) break;
+    while (evIdx < events.length && events[evIdx].ts <= snap.ts) {
+      const ev = events[evIdx++];
+      if (ev.event_type.includes("goal")) {
+        if (isToken1Team(ev.team, tricode, market.outcome1)) token1Score++;
+        else token2Score++;
+      }
+      const p = parseInt(ev.period, 10);
+      if (!isNaN(p)) {
+        period = p;
+        clock = ev.clock;
+      }
+    }
+
+    if (period === 0 || snap.ts - lastSampleTs < opts.sampleIntervalMs) continue;
+    if (snap.mid_price < opts.edgeCutoff || snap.mid_price > 1 - opts.edgeCutoff) continue;
+    lastSampleTs = snap.ts;
+
+    samples.push({
+      marketSlug: market.market_slug,
+      state: buildGameState({
+        sport,
+        gameId: market.market_slug,
+        status: "live",
+        home: { name: market.outcome1, abbrev: tricode, score: token1Score },
+        away: { name: market.outcome2, abbrev: "", score: token2Score },
+        period,
+        clock,
+      }, snap.ts),
+      pregameProb,
+      observed: snap.mid_price,
+    });
+  }
+  return samples;
+}
+
+function rmse(samples: CalibrationSample[], params: WinProbParams): number {
+  let sq = 0;
+  for (const s of samples) {
+    const err = homeWinProbability(s.state, s.pregameProb, params) - s.observed;
+    sq += err * err;
+  }
+  return Math.sqrt(sq / samples.length);
+}
+
+/**
+ * Grid-search σ (0.25× to 3× the starting value) for one sport's samples.
+ * Situational edges are kept — the recorder does not log possession.
+ */
+export function fitWinProbParams(
+  sport: LeagueSport,
+  samples: CalibrationSample[],
+  base: WinProbParams = DEFAULT_WIN_PROB_PARAMS[sport],
+): CalibrationResult {
+  const result: CalibrationResult = {
+    sport,
+    games: new Set(samples.map((s) => s.marketSlug)).size,
+    samples: samples.length,
+    params: base,
+    rmse: NaN,
+    baselineRmse: NaN,
+  };
+  if (samples.length === 0) return result;
+
+  result.baselineRmse = rmse(samples, base);
+  result.rmse = result.baselineRmse;
+  const steps = 100;
+  for (let i = 0; i <= steps; i++) {
+    const sigma = base.sigma * (0.25 + (2.75 * i) / steps);
+    const candidate = { ...base, sigma: Math.round(sigma * 100) / 100 };
+    const err = rmse(samples, candidate);
+    if (err < result.rmse) {
+      result.rmse = err;
+      result.params = candidate;
+    }
+  }
+  return result;
+}
+
+/* ─── DB loader ────────────────────────────────────────────────────── */
+
+/**
+ * Build calibration samples for every market in a recorder DB, grouped by sport.
+ */
+export function loadCalibrationSamples(
+  dbPath: string,
+  opts: CalibrationOptions = DEFAULT_CALIBRATION_OPTIONS,
+): Map<LeagueSport, CalibrationSample[]> {
+  const db = new Database(dbPath, { readonly: true });
+  const bySport = new Map<LeagueSport, CalibrationSample[]>();
+  try {
+    const tables = new Set(
+      (db.prepare(`SELECT name FROM sqlite_master WHERE type='table'`).all() as { name: string }[]).map((r) => r.name),
+    );
+    if (!tables.has("game_events")) return bySport;
+
+    const markets = db
+      .prepare(`SELECT market_slug, COALESCE(sport, 'NHL') AS sport, outcome1, outcome2, token1, token2 FROM markets`)
+      .all() as CalibrationMarketRow[];
+    const snapStmt = db.prepare(`SELECT ts, mid_price FROM snapshots WHERE market_slug = ? AND token_id = ? ORDER BY ts ASC`);
+    const eventStmt = db.prepare(`SELECT ts, event_type, team, period, clock FROM game_events WHERE market_slug = ? ORDER BY ts ASC`);
+    const fairStmt = tables.has("fair_values")
+      ? db.prepare(`SELECT fair_bid, fair_ask FROM fair_values WHERE market_slug = ? AND token_id = ?`)
+      : null;
+
+    for (const m of markets) {
+      const sport = m.sport.toUpperCase() as LeagueSport;
+      if (!SUPPORTED_SPORTS.includes(sport)) continue;
+
+      const snaps = snapStmt.all(m.market_slug, m.token1) as CalibrationSnapshotRow[];
+      const events = eventStmt.all(m.market_slug) as CalibrationEventRow[];
+      if (snaps.length === 0 || events.length === 0) continue;
+
+      const fair = fairStmt?.get(m.market_slug, m.token1) as { fair_bid: number; fair_ask: number } | undefined;
+      const pregameProb = fair ? (fair.fair_bid + fair.fair_ask) / 2 : snaps[0].mid_price;
+
+      const samples = buildCalibrationSamples(m, sport, snaps, events, pregameProb, opts);
+      if (samples.length === 0) continue;
+      if (!bySport.has(sport)) bySport.set(sport, []);
+      bySport.get(sport)!.push(...samples);
+    }
+  } finally {
+    db.close();
+  }
+  return bySport;
+}
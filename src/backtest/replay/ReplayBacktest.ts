@@ -0,0 +1,583 @@
+/**
+ * ReplayBacktest — event-sourced backtest that drives the REAL strategy code.
+ *
+ * Unlike NhlShockBacktest (which re-implements entries/exits with a simplified
+ * fill model), this harness replays the NhlShockRecorder SQLite tables —
+ * depth_snapshots, snapshots, trades and game_events — in timestamp order into
+ * the production ShockFadeDetector + ShockFadeLive:
+ *
+ *   recorder DB ──▶ ReplayMarketFeed (mock OrderBookWebSocket) ──▶ detector / trader
+ *                └─▶ ReplayExchange  (ExecutionVenue + Split/Merge)
+ *   VirtualClock — Date.now() and timers follow recorded time
+ *
+ * ShockFadeLive runs in its LIVE code path (dryRun=false) against the simulated
+ * exchange, so laddering, cumulative TP, multi-cycle, auto-refill, extreme-price
+ * exits and GTC→FAK exit retries all execute exactly as in production. The
+ * shock → event-classification → entry/exit orchestration mirrors the wiring in
+ * run-shock-fade-live.ts, fed by recorded game events instead of league APIs.
+ *
+ * Output is the trader's own LiveStats + LiveTradeRecord[], directly comparable
+ * with what the live bot persists.
+ */
+
+import Database from "better-sqlite3";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  ShockFadeDetector,
+  ShockEvent,
+} from "../../strategies/ShockFadeDetector";
+import {
+  ShockFadeLive,
+  ShockFadeLiveConfig,
+  orderJournalPath,
+  LiveStats,
+  LiveTradeRecord,
+} from "../../strategies/ShockFadeLive";
+import { SportsMarket, MarketState } from "../../services/SportsMarketDiscovery";
+import { VirtualClock, flushMicrotasks } from "./VirtualClock";
+import { ReplayMarketFeed } from "./ReplayMarketFeed";
+import { BookLevel, FillModelName, createFillModel } from "../FillModel";
+import { ReplayExchange } from "./ReplayExchange";
+import { GameState, LeagueSport, REGULATION, buildGameState } from "../../collectors/league-apis/GameState";
+import { LateGamePolicy, activeLateGamePolicy, loadLateGamePolicies } from "../../services/LateGamePolicy";
+
+export type ReplayBacktestConfig = {
+  dbPath: string;
+  /** Strategy parameters — same shape as the live bot's config (dryRun is forced off) */
+  strategy: Partial<ShockFadeLiveConfig>;
+  /** Only replay these market slugs (default: all markets in the DB) */
+  markets?: string[];
+  /** Starting USDC in the simulated wallet */
+  startingUsdc: number;
+  /** Virtual latency for user-channel fill/cancel events (ms) */
+  wsLatencyMs: number;
+  /** Delay between a recorded game event and the bot seeing it (ms) */
+  eventLatencyMs: number;
+  /** Size assumed for top-of-book levels without depth data */
+  defaultLevelSize: number;
+  /** Resting-order fill model: "queue" (FIFO queue position) or "touch" (legacy) */
+  fillModel: FillModelName;
+  /** Pending-shock cutoff — live uses 10s */
+  classificationTimeoutMs: number;
+  /** Keep the clock running this long after the last recorded row (ms) */
+  settleMs: number;
+  /** Suppress detector/trader console output during the replay */
+  quiet: boolean;
+};
+
+export const DEFAULT_REPLAY_CONFIG: Omit<ReplayBacktestConfig, "dbPath" | "strategy"> = {
+  startingUsdc: 10_000,
+  wsLatencyMs: 200,
+  eventLatencyMs: 0,
+  defaultLevelSize: 1000,
+  fillModel: "queue",
+  classificationTimeoutMs: 10_000,
+  settleMs: 60_000,
+  quiet: true,
+};
+
+export type ReplayClassification = {
+  marketSlug: string;
+  shockTs: number;
+  classification: string;
+  recentEvents: number;
+};
+
+export type ReplayResult = {
+  stats: LiveStats;
+  trades: LiveTradeRecord[];
+  shocks: ShockEvent[];
+  classifications: ReplayClassification[];
+  openPositionsAtEnd: number;
+  startingUsdc: number;
+  finalUsdc: number;
+  rowsReplayed: number;
+  startTs: number;
+  endTs: number;
+};
+
+/* ─── Row types ────────────────────────────────────────────────────── */
+
+type MarketRow = {
+  market_slug: string;
+  condition_id: string | null;
+  sport: string | null;
+  outcome1: string;
+  outcome2: string;
+  token1: string;
+  token2: string;
+};
+
+/** One row of the merged, time-ordered replay stream */
+type ReplayRow = {
+  ts: number;
+  kind: number; // 0=depth 1=snapshot 2=trade 3=game_event
+  market_slug: string;
+  token_id: string | null;
+  level: number | null;
+  p1: number | null;
+  s1: number | null;
+  p2: number | null;
+  s2: number | null;
+  side: string | null;
+  team: string | null;
+  period: string | null;
+  clock: string | null;
+  event_type: string | null;
+};
+
+const KIND_DEPTH = 0;
+const KIND_SNAPSHOT = 1;
+const KIND_TRADE = 2;
+const KIND_GAME_EVENT = 3;
+
+/** Classification lookback — matches GameEventConfirmation.getClassificationInfo */
+const EVENT_WINDOW_MS = 120_000;
+/** Minimum hold before a game event may exit a cycle — matches the live runner */
+const MIN_HOLD_BEFORE_EVENT_EXIT_MS = 5_000;
+
+export class ReplayBacktest {
+  private cfg: ReplayBacktestConfig;
+  private db: Database.Database;
+
+  private clock!: VirtualClock;
+  private feed!: ReplayMarketFeed;
+  private exchange!: ReplayExchange;
+  private detector!: ShockFadeDetector;
+  private trader!: ShockFadeLive;
+
+  private markets: Map<string, SportsMarket> = new Map();
+  private preSplitAttempted: Set<string> = new Set();
+  private streamParts = 0;
+
+  // Mirrors of the live runner's orchestration state
+  private pendingShocks: Map<string, { shock: ShockEvent & { shockTeam?: string | null }; detectedAt: number }> = new Map();
+  private activeMarkets: Set<string> = new Set();
+  private marketsWithPositions: Set<string> = new Set();
+  private entryEventCounts: Map<string, number> = new Map();
+  private eventWindows: Map<string, Array<{ ts: number; team: string; type: string }>> = new Map();
+  private gameStates: Map<string, GameState> = new Map();
+  private lateGamePolicies: Record<string, LateGamePolicy> = loadLateGamePolicies();
+
+  private trades: LiveTradeRecord[] = [];
+  private shocks: ShockEvent[] = [];
+  private classifications: ReplayClassification[] = [];
+
+  constructor(cfg: Partial<ReplayBacktestConfig> & Pick<ReplayBacktestConfig, "dbPath" | "strategy">) {
+    this.cfg = { ...DEFAULT_REPLAY_CONFIG, ...cfg };
+    this.db = new Database(this.cfg.dbPath, { readonly: true });
+  }
+
+  async run(): Promise<ReplayResult> {
+    const marketRows = this.loadMarkets();
+    if (marketRows.length === 0) {
+      throw new Error(`No markets to replay in ${this.cfg.dbPath}`);
+    }
+
+    const bounds = this.db
+      .prepare(`SELECT MIN(ts) AS minTs, MAX(ts) AS maxTs FROM snapshots WHERE market_slug IN (${marketRows.map(() => "?").join(",")})`)
+      .get(...marketRows.map((m) => m.market_slug)) as { minTs: number | null; maxTs: number | null };
+    const startTs = bounds.minTs ?? 0;
+
+    const statePath = path.join(os.tmpdir(), `shock-replay-${process.pid}-${startTs}.json`);
+    const realLog = console.log;
+
+    this.clock = new VirtualClock(startTs);
+    this.clock.install();
+    if (this.cfg.quiet) console.log = () => {};
+
+    let rowsReplayed = 0;
+    try {
+      this.setup(marketRows, statePath);
+      rowsReplayed = await this.replay(marketRows.map((m) => m.market_slug));
+      await this.clock.advanceBy(this.cfg.settleMs);
+
+      const stats = this.trader.getStats();
+      const openPositionsAtEnd = this.trader.getOpenPositions().length;
+      this.trader.stop();
+
+      return {
+        stats,
+        trades: this.trades,
+        shocks: this.shocks,
+        classifications: this.classifications,
+        openPositionsAtEnd,
+        startingUsdc: this.cfg.startingUsdc,
+        finalUsdc: this.exchange.getUsdcBalance(),
+        rowsReplayed,
+        startTs,
+        endTs: this.clock.now(),
+      };
+    } finally {
+      console.log = realLog;
+      this.clock.uninstall();
+      this.db.close();
+      try { fs.unlinkSync(statePath); } catch { /* never written */ }
+      try { fs.unlinkSync(orderJournalPath(statePath)); } catch { /* never written */ }
+    }
+  }
+
+  /* ─── Setup ─────────────────────────────────────────────────────── */
+
+  private loadMarkets(): MarketRow[] {
+    const rows = this.db
+      .prepare(`SELECT market_slug, condition_id, COALESCE(sport, 'NHL') AS sport, outcome1, outcome2, token1, token2 FROM markets`)
+      .all() as MarketRow[];
+    if (!this.cfg.markets || this.cfg.markets.length === 0) return rows;
+    const wanted = new Set(this.cfg.markets);
+    return rows.filter((r) => wanted.has(r.market_slug));
+  }
+
+  private setup(marketRows: MarketRow[], statePath: string): void {
+    this.feed = new ReplayMarketFeed(this.cfg.defaultLevelSize);
+    this.exchange = new ReplayExchange(
+      this.feed,
+      { startingUsdc: this.cfg.startingUsdc, wsLatencyMs: this.cfg.wsLatencyMs },
+      createFillModel(this.cfg.fillModel, { trade: "buy", bidCross: true }),
+    );
+
+    this.detector = new ShockFadeDetector(this.feed, this.cfg.strategy);
+    this.trader = new ShockFadeLive(
+      this.feed,
+      this.exchange,
+      this.exchange,
+      this.exchange,
+      { ...this.cfg.strategy, dryRun: false },
+      statePath,
+    );
+
+    for (const row of marketRows) {
+      const market = this.toSportsMarket(row);
+      this.markets.set(market.marketSlug, market);
+      this.feed.addTokens(market.tokenIds);
+      this.exchange.registerMarket(market.conditionId!, market.tokenIds[0], market.tokenIds[1]);
+      this.detector.registerMarketTokens(market.tokenIds, market.marketSlug, market.sport);
+      this.trader.registerTokenPair(market);
+    }
+
+    // Late-game policy — same per-sport rules as GameEventConfirmation
+    this.trader.setGameEvents({
+      getLateGamePolicy: (slug: string) => activeLateGamePolicy(this.gameStates.get(slug), this.lateGamePolicies),
+    });
+
+    this.trader.on("positionClosed", (info: { record: LiveTradeRecord }) => {
+      this.trades.push(info.record);
+    });
+    this.detector.on("shock", (shock: ShockEvent) => this.onShock(shock));
+
+    this.detector.start();
+    this.trader.start();
+  }
+
+  private toSportsMarket(row: MarketRow): SportsMarket {
+    const now = new Date(this.clock.now());
+    return {
+      eventSlug: row.market_slug,
+      marketSlug: row.market_slug,
+      conditionId: row.condition_id || `replay-${row.market_slug}`,
+      sport: (row.sport || "NHL").toUpperCase(),
+      question: `${row.outcome1} vs ${row.outcome2}`,
+      outcomes: [row.outcome1, row.outcome2],
+      tokenIds: [row.token1, row.token2],
+      outcomePrices: [], // unknown — the trader falls back to live book prices
+      gameStartTime: null,
+      discoveredAt: now,
+      volume: 0,
+      liquidity: 0,
+      state: MarketState.ACTIVE,
+      stateChangedAt: now,
+      sportConfig: null,
+      negRisk: false,
+    };
+  }
+
+  /* ─── Replay loop ───────────────────────────────────────────────── */
+
+  private async replay(slugs: string[]): Promise<number> {
+    const stmt = this.db.prepare(this.buildStreamQuery(slugs));
+    const params = this.streamParams(slugs);
+
+    let count = 0;
+    let depthKey: string | null = null;
+    let depthRows: ReplayRow[] = [];
+
+    const flushDepth = () => {
+      if (depthRows.length > 0) this.applyDepth(depthRows);
+      depthRows = [];
+      depthKey = null;
+    };
+
+    for (const row of stmt.iterate(...params) as IterableIterator<ReplayRow>) {
+      count++;
+
+      if (row.kind === KIND_DEPTH) {
+        const key = `${row.ts}:${row.token_id}`;
+        if (depthKey !== null && key !== depthKey) flushDepth();
+        if (depthKey === null) await this.clock.advanceTo(row.ts);
+        depthKey = key;
+        depthRows.push(row);
+        continue;
+      }
+      flushDepth();
+
+      await this.clock.advanceTo(row.ts);
+
+      if (row.kind === KIND_SNAPSHOT) {
+        await this.onSnapshot(row);
+      } else if (row.kind === KIND_TRADE) {
+        this.onTrade(row);
+      } else if (row.kind === KIND_GAME_EVENT) {
+        this.scheduleGameEvent(row);
+      }
+      await flushMicrotasks();
+    }
+    flushDepth();
+    return count;
+  }
+
+  private buildStreamQuery(slugs: string[]): string {
+    const tables = new Set(
+      (this.db.prepare(`SELECT name FROM sqlite_master WHERE type='table'`).all() as { name: string }[]).map((r) => r.name),
+    );
+    const inList = `market_slug IN (${slugs.map(() => "?").join(",")})`;
+    const parts: string[] = [];
+
+    // Every branch is fully aliased — the union takes its column names from
+    // whichever SELECT comes first, and depth_snapshots may be absent.
+    const select = (ts: string, kind: number, token: string, level: string, p1: string, s1: string,
+      p2: string, s2: string, side: string, team: string, period: string, clock: string, eventType: string) =>
+      `SELECT ${ts} AS ts, ${kind} AS kind, market_slug, ${token} AS token_id, ${level} AS level, ` +
+      `${p1} AS p1, ${s1} AS s1, ${p2} AS p2, ${s2} AS s2, ${side} AS side, ` +
+      `${team} AS team, ${period} AS period, ${clock} AS clock, ${eventType} AS event_type`;
+
+    if (tables.has("depth_snapshots")) {
+      parts.push(`${select("ts", KIND_DEPTH, "token_id", "level", "bid_price", "bid_size", "ask_price", "ask_size",
+        "NULL", "NULL", "NULL", "NULL", "NULL")} FROM depth_snapshots WHERE ${inList}`);
+    }
+    parts.push(`${select("ts", KIND_SNAPSHOT, "token_id", "NULL", "best_bid", "NULL", "best_ask", "NULL",
+      "NULL", "NULL", "NULL", "NULL", "NULL")} FROM snapshots WHERE ${inList}`);
+    if (tables.has("trades")) {
+      parts.push(`${select("ts", KIND_TRADE, "token_id", "NULL", "price", "size", "NULL", "NULL",
+        "side", "NULL", "NULL", "NULL", "NULL")} FROM trades WHERE ${inList}`);
+    }
+    if (tables.has("game_events")) {
+      parts.push(`${select("ts", KIND_GAME_EVENT, "NULL", "NULL", "NULL", "NULL", "NULL", "NULL",
+        "NULL", "team", "period", "clock", "event_type")} FROM game_events WHERE ${inList}`);
+    }
+
+    this.streamParts = parts.length;
+    return `${parts.join("\nUNION ALL\n")}\nORDER BY ts, kind, token_id, level`;
+  }
+
+  private streamParams(slugs: string[]): string[] {
+    const params: string[] = [];
+    for (let i = 0; i < this.streamParts; i++) params.push(...slugs);
+    return params;
+  }
+
+  /* ─── Market data ───────────────────────────────────────────────── */
+
+  private applyDepth(rows: ReplayRow[]): void {
+    const tokenId = rows[0].token_id!;
+    const bids: BookLevel[] = [];
+    const asks: BookLevel[] = [];
+    for (const r of rows) {
+      if (r.p1 !== null && r.s1 !== null) bids.push({ price: r.p1, size: r.s1 });
+      if (r.p2 !== null && r.s2 !== null) asks.push({ price: r.p2, size: r.s2 });
+    }
+    this.feed.applyDepth(tokenId, bids, asks, rows[0].ts);
+    this.exchange.onBookUpdate(tokenId);
+  }
+
+  private async onSnapshot(row: ReplayRow): Promise<void> {
+    const tokenId = row.token_id!;
+    this.feed.applyTopOfBook(tokenId, row.p1 ?? 0, row.p2 ?? 0, row.ts);
+    this.exchange.onBookUpdate(tokenId);
+    this.feed.emitPriceUpdate(tokenId);
+
+    // Pre-split once per market on first book data (live: at game start)
+    if (!this.preSplitAttempted.has(row.market_slug)) {
+      this.preSplitAttempted.add(row.market_slug);
+      if (this.trader.canPreSplitForGame(row.market_slug)) {
+        await this.trader.preSplitForMarket(row.market_slug);
+      }
+    }
+  }
+
+  private onTrade(row: ReplayRow): void {
+    const tokenId = row.token_id!;
+    const price = row.p1 ?? 0;
+    if (price <= 0) return;
+
+    let side: "buy" | "sell";
+    if (row.side === "buy" || row.side === "sell") {
+      side = row.side;
+    } else {
+      // Same fallback as OrderBookWebSocket: infer from price vs mid
+      const mid = (this.feed.getBestBid(tokenId) + this.feed.getBestAsk(tokenId)) / 2;
+      side = price >= mid ? "buy" : "sell";
+    }
+
+    const size = row.s1 ?? 1;
+    this.exchange.onTrade(tokenId, price, size, side);
+    this.feed.emitTrade(tokenId, price, size, side);
+  }
+
+  /* ─── Shock → classification → entry (mirrors run-shock-fade-live) ─ */
+
+  private onShock(shock: ShockEvent): void {
+    this.shocks.push(shock);
+    const shockId = `${shock.tokenId}_${shock.timestamp}`;
+    this.pendingShocks.set(shockId, { shock, detectedAt: Date.now() });
+    this.activeMarkets.add(shock.marketSlug);
+
+    setTimeout(() => {
+      if (!this.pendingShocks.has(shockId)) return;
+      const info = this.getClassificationInfo(shock.marketSlug);
+      this.classifications.push({
+        marketSlug: shock.marketSlug,
+        shockTs: shock.timestamp,
+        classification: "skipped_timeout",
+        recentEvents: info.recentEvents,
+      });
+      this.activeMarkets.delete(shock.marketSlug);
+      this.pendingShocks.delete(shockId);
+      this.detector.resetCooldown(shock.marketSlug);
+    }, this.cfg.classificationTimeoutMs);
+  }
+
+  private scheduleGameEvent(row: ReplayRow): void {
+    if (this.cfg.eventLatencyMs > 0) {
+      setTimeout(() => this.onGameEvent(row), this.cfg.eventLatencyMs);
+    } else {
+      this.onGameEvent(row);
+    }
+  }
+
+  private onGameEvent(row: ReplayRow): void {
+    const slug = row.market_slug;
+    const market = this.markets.get(slug);
+
+    const period = parseInt(row.period ?? "", 10);
+    const sport = market?.sport as LeagueSport | undefined;
+    if (!isNaN(period) && sport && sport in REGULATION) {
+      // Scores are not replayed; only the clock matters for the late-game policy
+      this.gameStates.set(slug, buildGameState({
+        sport,
+        gameId: slug,
+        status: "live",
+        home: { name: "", abbrev: "", score: 0 },
+        away: { name: "", abbrev: "", score: 0 },
+        period,
+        clock: row.clock ?? "",
+      }, Date.now()));
+    }
+
+    // Only scoring events count toward classification (same as live processEvents)
+    if (row.event_type !== "goal") return;
+
+    let window = this.eventWindows.get(slug);
+    if (!window) {
+      window = [];
+      this.eventWindows.set(slug, window);
+    }
+    window.push({ ts: Date.now(), team: row.team ?? "", type: row.event_type });
+
+    // Live only classifies while burst-polling an active market
+    if (!this.activeMarkets.has(slug)) return;
+
+    const info = this.getClassificationInfo(slug);
+    this.onClassificationReady(slug, info.recentEvents, info.isStructural, info.sameTeamRun, info.lastScoringTeam, info.lastScoringTeamRun);
+  }
+
+  private getClassificationInfo(slug: string): {
+    recentEvents: number;
+    isStructural: boolean;
+    sameTeamRun: number;
+    lastScoringTeam: string;
+    lastScoringTeamRun: string;
+  } {
+    const window = this.eventWindows.get(slug) ?? [];
+    const cutoff = Date.now() - EVENT_WINDOW_MS;
+    const recent = window.filter((e) => e.ts >= cutoff);
+
+    let maxRun = 0;
+    let currentRun = 0;
+    let currentTeam = "";
+    let maxRunTeam = "";
+    for (const ev of recent) {
+      if (ev.team === currentTeam) { currentRun++; } else { currentRun = 1; currentTeam = ev.team; }
+      if (currentRun > maxRun) { maxRun = currentRun; maxRunTeam = currentTeam; }
+    }
+
+    const lastScoringTeam = recent.length > 0 ? recent[recent.length - 1].team : "";
+    return { recentEvents: recent.length, isStructural: false, sameTeamRun: maxRun, lastScoringTeam, lastScoringTeamRun: maxRunTeam };
+  }
+
+  private onClassificationReady(
+    slug: string,
+    recentEvents: number,
+    isStructural: boolean,
+    sameTeamRun: number,
+    lastScoringTeam: string,
+    _lastScoringTeamRun: string,
+  ): void {
+    // ENTRY: classify pending shocks
+    for (const [shockId, entry] of this.pendingShocks.entries()) {
+      if (entry.shock.marketSlug !== slug) continue;
+
+      const classification = this.detector.classifyShock(entry.shock, recentEvents, isStructural);
+      this.classifications.push({ marketSlug: slug, shockTs: entry.shock.timestamp, classification, recentEvents });
+
+      if (classification === "single_event") {
+        // Recorded events carry the scoring team directly — use it as the shock team
+        entry.shock.shockTeam = lastScoringTeam || null;
+        this.trader.handleShock(entry.shock).catch((err) =>
+          console.error(`⚠️ [Replay] handleShock error: ${err?.message || err}`));
+        this.marketsWithPositions.add(slug);
+        this.entryEventCounts.set(slug, recentEvents);
+        this.activeMarkets.add(slug);
+      } else {
+        this.activeMarkets.delete(slug);
+        this.detector.resetCooldown(slug);
+      }
+      this.pendingShocks.delete(shockId);
+    }
+
+    // EXIT: new events on markets with open positions
+    if (!this.marketsWithPositions.has(slug)) return;
+
+    const openPositions = this.trader.getOpenPositions().filter((p) => p.marketSlug === slug);
+    if (openPositions.length === 0) {
+      this.releaseMarket(slug);
+      return;
+    }
+
+    const entryCount = this.entryEventCounts.get(slug) ?? 0;
+    if (recentEvents <= entryCount) return;
+
+    const oldest = openPositions.reduce((a, b) => (a.entryTime < b.entryTime ? a : b));
+    const timeSinceEntry = Date.now() - oldest.entryTime;
+    if (timeSinceEntry <= MIN_HOLD_BEFORE_EVENT_EXIT_MS) return;
+
+    const exit = sameTeamRun >= 2
+      ? this.trader.handleScoringRun(slug)
+      : this.trader.handleGameEvent(slug, lastScoringTeam || null);
+
+    exit
+      .then(() => {
+        const remaining = this.trader.getOpenPositions().filter((p) => p.marketSlug === slug);
+        if (remaining.length === 0) this.releaseMarket(slug);
+      })
+      .catch((err) => console.error(`⚠️ [Replay] exit error: ${err?.message || err}`));
+    this.entryEventCounts.set(slug, recentEvents);
+  }
+
+  private releaseMarket(slug: string): void {
+    this.marketsWithPositions.delete(slug);
+    this.entryEventCounts.delete(slug);
+    this.activeMarkets.delete(slug);
+  }
+}
@@ -0,0 +1,361 @@
+/**
+ * ReplayExchange — simulated CLOB + CTF for event-sourced replays.
+ *
+ * An ExecutionVenue (plus the SplitClient / MergeClient slice ShockFadeLive
+ * calls in LIVE mode), backed by a small matching engine over a book source —
+ * the book reconstructed by ReplayMarketFeed, or a live OrderBookWebSocket for
+ * PaperVenue. Fills on resting orders are emitted as `orderFill`
+ * OrderFillEvents (after `wsLatencyMs`), the same way UserChannelWS delivers
+ * them in production.
+ *
+ * Matching rules (SELL-only — ShockFadeLive never buys):
+ *   - On placement, a marketable GTC sell walks bid levels >= limit; any
+ *     remainder rests on the book.
+ *   - Resting sells are filled at their limit price by the pluggable FillModel
+ *     (default: touch — best bid rises to the level or a taker BUY prints at or
+ *     above it; QueueFillModel additionally waits for the queue ahead of us).
+ *   - FAK sells walk bid levels >= minPrice; the unfilled remainder is killed.
+ */
+
+import { EventEmitter } from "events";
+import { BookLevel, FillModel, SimulatedFill, TouchFillModel } from "../FillModel";
+import { CtfSplitter, SplitResult } from "../../services/SplitClient";
+import { CtfMerger, MergeResult } from "../../services/MergeClient";
+import { CtfBatchItem, CtfBatchResult, sequentialCtfBatch } from "../../services/CtfBatchClient";
+import { OrderFillEvent, OrderUpdateEvent } from "../../services/UserChannelWS";
+import {
+  ExecutionVenue,
+  VenueOrder,
+  VenueOrderRequest,
+  VenueOrderResult,
+} from "../../services/ExecutionVenue";
+
+/** Where the simulated exchange reads liquidity from (levels best-first) */
+export interface ExchangeBookSource {
+  getBids(tokenId: string): BookLevel[];
+  getAsks(tokenId: string): BookLevel[];
+  /** Remove `size` from the top of the bid side (we took it) */
+  consumeBids(tokenId: string, size: number): void;
+}
+
+export interface ReplayOrder {
+  id: string;
+  tokenId: string;
+  conditionId: string;
+  price: number;
+  originalSize: number;
+  sizeMatched: number;
+  status: "LIVE" | "MATCHED" | "CANCELLED";
+  createdAt: number;
+  fills: ReplayFill[];
+}
+
+export interface ReplayFill {
+  orderId: string;
+  tokenId: string;
+  price: number;
+  size: number;
+  ts: number;
+  liquidity: "taker" | "maker";
+}
+
+export interface ReplayExchangeOptions {
+  /** Starting USDC collateral */
+  startingUsdc: number;
+  /** Virtual delay before a user-channel event is delivered (ms) */
+  wsLatencyMs: number;
+}
+
+export const DEFAULT_REPLAY_EXCHANGE_OPTIONS: ReplayExchangeOptions = {
+  startingUsdc: 10_000,
+  wsLatencyMs: 200,
+};
+
+export class ReplayExchange extends EventEmitter implements ExecutionVenue, CtfSplitter, CtfMerger {
+  readonly name: string = "replay";
+
+  private opts: ReplayExchangeOptions;
+  private usdc: number;
+  private balances: Map<string, number> = new Map();
+  private orders: Map<string, ReplayOrder> = new Map();
+  private fills: ReplayFill[] = [];
+  private conditionTokens: Map<string, [string, string]> = new Map();
+  private tokenCondition: Map<string, string> = new Map();
+  private nextOrderSeq = 1;
+  private nextTradeSeq = 1;
+
+  constructor(
+    private feed: ExchangeBookSource,
+    opts: Partial<ReplayExchangeOptions> = {},
+    private fillModel: FillModel = new TouchFillModel({ trade: "buy", bidCross: true }),
+  ) {
+    super();
+    this.opts = { ...DEFAULT_REPLAY_EXCHANGE_OPTIONS, ...opts };
+    this.usdc = this.opts.startingUsdc;
+  }
+
+  registerMarket(conditionId: string, tokenA: string, tokenB: string): void {
+    this.conditionTokens.set(conditionId, [tokenA, tokenB]);
+    this.tokenCondition.set(tokenA, conditionId);
+    this.tokenCondition.set(tokenB, conditionId);
+  }
+
+  // ============================================================================
+  // MARKET DATA HOOKS (called by the replay driver before re-emitting)
+  // ============================================================================
+
+  /** Book changed — let the fill model decide which resting sells filled. */
+  onBookUpdate(tokenId: string): void {
+    this.applyModelFills(this.fillModel.onBook(tokenId, this.feed.getBids(tokenId), this.feed.getAsks(tokenId)));
+  }
+
+  /** Recorded trade printed. */
+  onTrade(tokenId: string, price: number, size: number, side: "buy" | "sell"): void {
+    this.applyModelFills(this.fillModel.onTrade(tokenId, price, size, side));
+  }
+
+  // ============================================================================
+  // EXECUTION VENUE
+  // ============================================================================
+
+  async placeLimit(req: VenueOrderRequest): Promise<VenueOrderResult> {
+    if (req.side !== "SELL") return { success: false, filledShares: 0, error: "ReplayExchange only simulates sells" };
+    const { tokenId, shares, price } = req;
+    if (this.availableBalance(tokenId) < shares - 1e-9) {
+      return { success: false, filledShares: 0, error: "not enough balance / allowance" };
+    }
+
+    const order = this.createOrder(tokenId, shares, price);
+    const { filled, vwap } = this.takeLiquidity(order, price);
+
+    if (order.sizeMatched >= order.originalSize - 1e-9) {
+      order.status = "MATCHED";
+    } else {
+      this.fillModel.addOrder(
+        { id: order.id, tokenId, price, shares: order.originalSize - order.sizeMatched },
+        this.feed.getAsks(tokenId),
+      );
+    }
+
+    return {
+      success: true,
+      orderId: order.id,
+      filledShares: filled,
+      filledPrice: filled > 0 ? vwap : undefined,
+    };
+  }
+
+  async placeIoc(req: VenueOrderRequest): Promise<VenueOrderResult> {
+    if (req.side !== "SELL") return { success: false, filledShares: 0, error: "ReplayExchange only simulates sells" };
+    const size = Math.min(req.shares, this.availableBalance(req.tokenId));
+    if (size <= 0) {
+      return { success: false, filledShares: 0, error: "not enough balance / allowance" };
+    }
+
+    const order = this.createOrder(req.tokenId, size, req.price);
+    const { filled, vwap } = this.takeLiquidity(order, req.price);
+
+    // FAK: kill whatever did not match
+    order.status = filled > 0 && order.sizeMatched >= order.originalSize - 1e-9 ? "MATCHED" : "CANCELLED";
+
+    if (filled <= 0) {
+      return { success: false, orderId: order.id, filledShares: 0, error: "no liquidity at or above min price" };
+    }
+    return { success: true, orderId: order.id, filledShares: filled, filledPrice: vwap };
+  }
+
+  async cancel(orderId: string): Promise<{ success: boolean; error?: string }> {
+    const order = this.orders.get(orderId);
+    if (!order) return { success: false, error: "order not found" };
+    if (order.status !== "LIVE") return { success: false, error: `order already ${order.status.toLowerCase()}` };
+
+    order.status = "CANCELLED";
+    this.fillModel.removeOrder(order.id);
+    this.deliver("orderUpdate", {
+      orderId: order.id,
+      type: "CANCELLATION",
+      sizeMatched: order.sizeMatched,
+      originalSize: order.originalSize,
+      price: order.price,
+      market: order.conditionId,
+      assetId: order.tokenId,
+      side: "SELL",
+    } as OrderUpdateEvent);
+    return { success: true };
+  }
+
+  async getOpenOrders(conditionId: string, tokenId?: string): Promise<VenueOrder[]> {
+    return Array.from(this.orders.values())
+      .filter((o) => o.status === "LIVE" && o.conditionId === conditionId)
+      .filter((o) => !tokenId || o.tokenId === tokenId)
+      .map((o) => this.toVenueOrder(o));
+  }
+
+  async getOrder(orderId: string): Promise<VenueOrder | null> {
+    const order = this.orders.get(orderId);
+    return order ? this.toVenueOrder(order) : null;
+  }
+
+  async getTokenBalance(tokenId: string): Promise<number> {
+    return this.balances.get(tokenId) ?? 0;
+  }
+
+  async getBalance(): Promise<number> {
+    return this.usdc;
+  }
+
+  // ============================================================================
+  // SPLIT / MERGE CLIENT SURFACE
+  // ============================================================================
+
+  async split(conditionId: string, amount: number, _negRisk: boolean = false): Promise<SplitResult> {
+    const tokens = this.conditionTokens.get(conditionId);
+    if (!tokens) return { success: false, error: `unknown conditionId ${conditionId}` };
+    if (this.usdc < amount) return { success: false, error: "insufficient USDC" };
+
+    this.usdc -= amount;
+    for (const t of tokens) this.balances.set(t, (this.balances.get(t) ?? 0) + amount);
+    return { success: true, transactionHash: `0xreplaysplit${this.nextTradeSeq++}`, amountSplit: amount };
+  }
+
+  async merge(conditionId: string, amount: number, _negRisk: boolean = false): Promise<MergeResult> {
+    const tokens = this.conditionTokens.get(conditionId);
+    if (!tokens) return { success: false, error: `unknown conditionId ${conditionId}` };
+    const mergeable = Math.min(...tokens.map((t) => this.balances.get(t) ?? 0));
+    if (mergeable < amount) return { success: false, error: `only ${mergeable} mergeable` };
+
+    for (const t of tokens) this.balances.set(t, (this.balances.get(t) ?? 0) - amount);
+    this.usdc += amount;
+    return { success: true, transactionHash: `0xreplaymerge${this.nextTradeSeq++}`, amountMerged: amount };
+  }
+
+  /** One simulated transaction per item — there is no Safe to pack them into */
+  async splitBatch(items: Array<Omit<CtfBatchItem, "op">>): Promise<CtfBatchResult> {
+    return sequentialCtfBatch(items.map((i) => ({ ...i, op: "SPLIT" as const })), (item) => this.split(item.conditionId, item.amount));
+  }
+
+  async mergeBatch(items: Array<Omit<CtfBatchItem, "op">>): Promise<CtfBatchResult> {
+    return sequentialCtfBatch(items.map((i) => ({ ...i, op: "MERGE" as const })), (item) => this.merge(item.conditionId, item.amount));
+  }
+
+  async ensureCTFApprovals(): Promise<{ success: boolean; alreadyApproved?: boolean }> {
+    return { success: true, alreadyApproved: true };
+  }
+
+  // ============================================================================
+  // INSPECTION
+  // ============================================================================
+
+  getUsdcBalance(): number {
+    return this.usdc;
+  }
+
+  getFills(): ReplayFill[] {
+    return [...this.fills];
+  }
+
+  getOrders(): ReplayOrder[] {
+    return Array.from(this.orders.values());
+  }
+
+  // ============================================================================
+  // MATCHING ENGINE
+  // ============================================================================
+
+  private createOrder(tokenId: string, size: number, price: number): ReplayOrder {
+    const order: ReplayOrder = {
+      id: `replay_${this.nextOrderSeq++}`,
+      tokenId,
+      conditionId: this.tokenCondition.get(tokenId) ?? "",
+      price,
+      originalSize: size,
+      sizeMatched: 0,
+      status: "LIVE",
+      createdAt: Date.now(),
+      fills: [],
+    };
+    this.orders.set(order.id, order);
+    return order;
+  }
+
+  /** Walk bid levels >= limitPrice as a taker. */
+  private takeLiquidity(order: ReplayOrder, limitPrice: number): { filled: number; vwap: number } {
+    let remaining = order.originalSize - order.sizeMatched;
+    let filled = 0;
+    let notional = 0;
+
+    for (const level of this.feed.getBids(order.tokenId)) {
+      if (remaining <= 1e-9 || level.price < limitPrice) break;
+      const take = Math.min(level.size, remaining);
+      if (take <= 0) continue;
+      this.recordFill(order, level.price, take, "taker");
+      filled += take;
+      notional += take * level.price;
+      remaining -= take;
+    }
+
+    if (filled > 0) this.feed.consumeBids(order.tokenId, filled);
+    return { filled, vwap: filled > 0 ? notional / filled : 0 };
+  }
+
+  /** Settle fill-model fills against our resting orders and notify the user channel. */
+  private applyModelFills(fills: SimulatedFill[]): void {
+    for (const f of fills) {
+      const order = this.orders.get(f.orderId);
+      if (!order || order.status !== "LIVE") continue;
+      const size = Math.min(f.shares, order.originalSize - order.sizeMatched);
+      if (size <= 0) continue;
+
+      this.recordFill(order, order.price, size, "maker");
+      if (order.sizeMatched >= order.originalSize - 1e-9) order.status = "MATCHED";
+
+      this.deliver("orderFill", {
+        orderId: order.id,
+        price: order.price,
+        size,
+        status: "MATCHED",
+        tradeId: `replay_trade_${this.nextTradeSeq++}`,
+        market: order.conditionId,
+        assetId: order.tokenId,
+        side: "SELL",
+      } as OrderFillEvent);
+    }
+  }
+
+  private recordFill(order: ReplayOrder, price: number, size: number, liquidity: "taker" | "maker"): void {
+    const fill: ReplayFill = { orderId: order.id, tokenId: order.tokenId, price, size, ts: Date.now(), liquidity };
+    order.fills.push(fill);
+    order.sizeMatched += size;
+    this.fills.push(fill);
+    this.balances.set(order.tokenId, (this.balances.get(order.tokenId) ?? 0) - size);
+    this.usdc += size * price;
+  }
+
+  /** Token balance not already committed to resting sells. */
+  private availableBalance(tokenId: string): number {
+    let reserved = 0;
+    for (const o of this.orders.values()) {
+      if (o.status === "LIVE" && o.tokenId === tokenId) reserved += o.originalSize - o.sizeMatched;
+    }
+    return (this.balances.get(tokenId) ?? 0) - reserved;
+  }
+
+  private deliver(event: "orderFill" | "orderUpdate", payload: OrderFillEvent | OrderUpdateEvent): void {
+    setTimeout(() => this.emit(event, payload), this.opts.wsLatencyMs);
+  }
+
+  private toVenueOrder(o: ReplayOrder): VenueOrder {
+    const notional = o.fills.reduce((sum, f) => sum + f.price * f.size, 0);
+    return {
+      orderId: o.id,
+      market: o.conditionId,
+      tokenId: o.tokenId,
+      side: "SELL",
+      price: o.price,
+      originalSize: o.originalSize,
+      sizeMatched: o.sizeMatched,
+      status: o.status === "CANCELLED" ? "CANCELED" : o.status,
+      avgFillPrice: o.sizeMatched > 0 ? notional / o.sizeMatched : undefined,
+    };
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * ReplayMarketFeed — stand-in for OrderBookWebSocket during replays.
+ *
+ * Holds the reconstructed order book per token and re-emits recorded data as the
+ * same `priceUpdate` / `lastTrade` events the live WebSocket produces, stamped with
+ * the virtual clock. Book arrays follow the live convention: bids ascending and
+ * asks descending, so the best level is always the LAST element.
+ */
+
+import { EventEmitter } from "events";
+import {
+  OrderBookData,
+  PriceUpdateEvent,
+  TradeEvent,
+} from "../../services/OrderBookWS";
+import { BookLevel, levelsFromOrderBook } from "../FillModel";
+
+export class ReplayMarketFeed extends EventEmitter {
+  private orderBooks: Map<string, OrderBookData> = new Map();
+  private tokenIds: string[] = [];
+
+  /**
+   * @param defaultLevelSize Size assumed for a top-of-book level when only a
+   *   bid/ask snapshot (no depth) is available for that price.
+   */
+  constructor(private defaultLevelSize: number = 1000) {
+    super();
+  }
+
+  // ── OrderBookWebSocket surface used by detector / trader ──
+
+  connect(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  disconnect(): void {
+    this.orderBooks.clear();
+  }
+
+  isConnected(): boolean {
+    return true;
+  }
+
+  addTokens(newTokenIds: string[]): void {
+    for (const id of newTokenIds) {
+      if (!this.tokenIds.includes(id)) this.tokenIds.push(id);
+    }
+  }
+
+  getSubscribedTokens(): string[] {
+    return [...this.tokenIds];
+  }
+
+  getOrderBook(tokenId: string): OrderBookData | null {
+    return this.orderBooks.get(tokenId) || null;
+  }
+
+  getAllOrderBooks(): Map<string, OrderBookData> {
+    return this.orderBooks;
+  }
+
+  getBestBid(tokenId: string): number {
+    const book = this.orderBooks.get(tokenId);
+    if (!book || book.bids.length === 0) return 0;
+    return parseFloat(book.bids[book.bids.length - 1].price);
+  }
+
+  getBestAsk(tokenId: string): number {
+    const book = this.orderBooks.get(tokenId);
+    if (!book || book.asks.length === 0) return 0;
+    return parseFloat(book.asks[book.asks.length - 1].price);
+  }
+
+  hasOrderBookData(tokenId: string): boolean {
+    const book = this.orderBooks.get(tokenId);
+    return !!book && (book.bids.length > 0 || book.asks.length > 0);
+  }
+
+  getStats(): { connected: boolean; reconnectCount: number; lastDataTs: number; uptimeMs: number } {
+    return { connected: true, reconnectCount: 0, lastDataTs: Date.now(), uptimeMs: 0 };
+  }
+
+  forceReconnect(): void {
+    // No-op — a replay never disconnects
+  }
+
+  // ── Book reconstruction ──
+
+  /** Bid levels, best (highest) first. */
+  getBids(tokenId: string): BookLevel[] {
+    return levelsFromOrderBook(this.getOrderBook(tokenId)).bids;
+  }
+
+  /** Ask levels, best (lowest) first. */
+  getAsks(tokenId: string): BookLevel[] {
+    return levelsFromOrderBook(this.getOrderBook(tokenId)).asks;
+  }
+
+  /**
+   * Replace the whole book from a recorded depth snapshot (levels best-first).
+   * Does not emit — depth rows are captured from the same book message as the
+   * top-of-book snapshot, which is what drives `priceUpdate`.
+   */
+  applyDepth(tokenId: string, bids: BookLevel[], asks: BookLevel[], ts: number): void {
+    this.orderBooks.set(tokenId, {
+      bids: [...bids].reverse().map(toWire),
+      asks: [...asks].reverse().map(toWire),
+      timestamp: ts,
+    });
+  }
+
+  /**
+   * Apply a recorded best bid/ask. Deeper levels from the last depth snapshot
+   * are kept when they sit strictly behind the new top of book.
+   */
+  applyTopOfBook(tokenId: string, bid: number, ask: number, ts: number): void {
+    const prev = this.orderBooks.get(tokenId);
+    const prevBids = prev ? prev.bids.map(fromWire) : [];
+    const prevAsks = prev ? prev.asks.map(fromWire) : [];
+
+    // Ascending bids: keep strictly-lower levels, then the new best last
+    const bids = prevBids.filter((l) => l.price < bid);
+    if (bid > 0) {
+      const same = prevBids.find((l) => l.price === bid);
+      bids.push({ price: bid, size: same?.size ?? this.defaultLevelSize });
+    }
+
+    // Descending asks: keep strictly-higher levels, then the new best last
+    const asks = prevAsks.filter((l) => l.price > ask);
+    if (ask > 0) {
+      const same = prevAsks.find((l) => l.price === ask);
+      asks.push({ price: ask, size: same?.size ?? this.defaultLevelSize });
+    }
+
+    this.orderBooks.set(tokenId, { bids: bids.map(toWire), asks: asks.map(toWire), timestamp: ts });
+  }
+
+  /**
+   * Remove `size` shares from the bid side starting at the best level
+   * (used when our own sells consume displayed liquidity).
+   */
+  consumeBids(tokenId: string, size: number): void {
+    const book = this.orderBooks.get(tokenId);
+    if (!book) return;
+    let remaining = size;
+    const bids = book.bids.map(fromWire);
+    while (remaining > 0 && bids.length > 0) {
+      const best = bids[bids.length - 1];
+      const take = Math.min(best.size, remaining);
+      best.size -= take;
+      remaining -= take;
+      if (best.size <= 1e-9) bids.pop();
+    }
+    book.bids = bids.map(toWire);
+  }
+
+  // ── Emission ──
+
+  emitPriceUpdate(tokenId: string): void {
+    const event: PriceUpdateEvent = {
+      tokenId,
+      bid: this.getBestBid(tokenId),
+      ask: this.getBestAsk(tokenId),
+      timestamp: Date.now(),
+    };
+    this.emit("priceUpdate", event);
+  }
+
+  emitTrade(tokenId: string, price: number, size: number, side: "buy" | "sell"): void {
+    const event: TradeEvent = {
+      tokenId,
+      tradePrice: price,
+      tradeSize: size,
+      side,
+      bestBid: this.getBestBid(tokenId),
+      bestAsk: this.getBestAsk(tokenId),
+      timestamp: Date.now(),
+    };
+    this.emit("lastTrade", event);
+  }
+}
+
+function toWire(l: BookLevel): { price: string; size: string } {
+  return { price: String(l.price), size: String(l.size) };
+}
+
+function fromWire(l: { price: string; size: string }): BookLevel {
+  return { price: parseFloat(l.price), size: parseFloat(l.size) };
+}
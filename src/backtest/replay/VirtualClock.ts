@@ -0,0 +1,167 @@
+/**
+ * VirtualClock — deterministic time source for event-sourced replays.
+ *
+ * While installed, Date.now() and the global setTimeout/setInterval family are
+ * routed through this clock, so ShockFadeLive's own timers (stale-order sweeps,
+ * fill polling, GTC fill waits, emergency timeouts) fire in recorded time rather
+ * than wall-clock time. setImmediate is left untouched and used to drain the
+ * microtask queue between timer callbacks.
+ *
+ * Note: `new Date()` without arguments is NOT virtualized — only Date.now().
+ */
+
+type TimerCallback = (...args: any[]) => void;
+
+interface VirtualTimer {
+  id: number;
+  dueAt: number;
+  intervalMs: number | null;
+  callback: TimerCallback;
+  args: any[];
+}
+
+/** Minimal Timeout-compatible handle (supports ref/unref and numeric coercion). */
+class VirtualTimerHandle {
+  constructor(public readonly id: number) {}
+  ref(): this { return this; }
+  unref(): this { return this; }
+  hasRef(): boolean { return false; }
+  refresh(): this { return this; }
+  [Symbol.toPrimitive](): number { return this.id; }
+}
+
+const realSetImmediate = setImmediate;
+
+/** Let every pending promise continuation run before returning. */
+export function flushMicrotasks(): Promise<void> {
+  return new Promise<void>((resolve) => realSetImmediate(resolve));
+}
+
+export class VirtualClock {
+  private nowMs: number;
+  private timers: Map<number, VirtualTimer> = new Map();
+  private nextId = 1;
+  private installed = false;
+
+  private saved: {
+    dateNow: typeof Date.now;
+    setTimeout: typeof setTimeout;
+    setInterval: typeof setInterval;
+    clearTimeout: typeof clearTimeout;
+    clearInterval: typeof clearInterval;
+  } | null = null;
+
+  constructor(startMs: number = 0) {
+    this.nowMs = startMs;
+  }
+
+  now(): number {
+    return this.nowMs;
+  }
+
+  /** Number of timers still scheduled (intervals included). */
+  pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  /**
+   * Patch the global time functions. Must be paired with uninstall().
+   */
+  install(): void {
+    if (this.installed) return;
+    const g = globalThis as any;
+    this.saved = {
+      dateNow: Date.now,
+      setTimeout: g.setTimeout,
+      setInterval: g.setInterval,
+      clearTimeout: g.clearTimeout,
+      clearInterval: g.clearInterval,
+    };
+
+    Date.now = () => this.nowMs;
+    g.setTimeout = (cb: TimerCallback, ms?: number, ...args: any[]) => this.schedule(cb, ms, null, args);
+    g.setInterval = (cb: TimerCallback, ms?: number, ...args: any[]) =>
+      this.schedule(cb, ms, Math.max(1, ms ?? 0), args);
+    g.clearTimeout = (handle: any) => this.clear(handle);
+    g.clearInterval = (handle: any) => this.clear(handle);
+    this.installed = true;
+  }
+
+  /**
+   * Restore the real time functions. Pending virtual timers are discarded.
+   */
+  uninstall(): void {
+    if (!this.installed || !this.saved) return;
+    const g = globalThis as any;
+    Date.now = this.saved.dateNow;
+    g.setTimeout = this.saved.setTimeout;
+    g.setInterval = this.saved.setInterval;
+    g.clearTimeout = this.saved.clearTimeout;
+    g.clearInterval = this.saved.clearInterval;
+    this.saved = null;
+    this.timers.clear();
+    this.installed = false;
+  }
+
+  /**
+   * Move the clock forward to `targetMs`, firing every timer that comes due on
+   * the way in chronological order. Async work started by a timer is allowed to
+   * settle before the next timer fires. Never moves the clock backwards.
+   */
+  async advanceTo(targetMs: number): Promise<void> {
+    while (true) {
+      const next = this.nextDue();
+      if (!next || next.dueAt > targetMs) break;
+
+      this.nowMs = Math.max(this.nowMs, next.dueAt);
+      if (next.intervalMs !== null) {
+        next.dueAt = this.nowMs + next.intervalMs;
+      } else {
+        this.timers.delete(next.id);
+      }
+
+      try {
+        next.callback(...next.args);
+      } catch (err: any) {
+        console.error(`⏱️  [VirtualClock] Timer callback threw: ${err?.message || err}`);
+      }
+      await flushMicrotasks();
+    }
+
+    this.nowMs = Math.max(this.nowMs, targetMs);
+    await flushMicrotasks();
+  }
+
+  async advanceBy(ms: number): Promise<void> {
+    await this.advanceTo(this.nowMs + ms);
+  }
+
+  private schedule(
+    callback: TimerCallback,
+    ms: number | undefined,
+    intervalMs: number | null,
+    args: any[],
+  ): VirtualTimerHandle {
+    const id = this.nextId++;
+    const delay = Math.max(0, ms ?? 0);
+    this.timers.set(id, { id, dueAt: this.nowMs + delay, intervalMs, callback, args });
+    return new VirtualTimerHandle(id);
+  }
+
+  private clear(handle: any): void {
+    if (handle === undefined || handle === null) return;
+    const id = typeof handle === "number" ? handle : Number(handle);
+    this.timers.delete(id);
+  }
+
+  /** Earliest-due timer; ties broken by scheduling order. */
+  private nextDue(): VirtualTimer | null {
+    let best: VirtualTimer | null = null;
+    for (const t of this.timers.values()) {
+      if (!best || t.dueAt < best.dueAt || (t.dueAt === best.dueAt && t.id < best.id)) {
+        best = t;
+      }
+    }
+    return best;
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * CLI: Kill switch / remote control for the live shock-fade bot
+ *
+ * Usage:
+ *   npm run control -- status                          # Halt reason, blocked markets, breaker halts
+ *   npm run control -- pause [--reason "..."]          # Stop new cycles and refills
+ *   npm run control -- resume                          # Lift the pause and every market block
+ *   npm run control -- resume --market <slug>          # Re-open one flattened market
+ *   npm run control -- resume --breaker NHL            # Lift that circuit-breaker halt only
+ *   npm run control -- flatten <slug> [--reason "..."] # Cancel, sell held shares, merge — one market
+ *   npm run control -- flatten-all [--reason "..."]    # Pause, then flatten every market
+ *   npm run control -- audit [--limit 20]              # Recent control actions
+ *
+ * Talks to the live dashboard's control API: SHOCK_CONTROL_URL (default
+ * http://127.0.0.1:3033) with SHOCK_CONTROL_TOKEN as the bearer token.
+ * Actions are logged under your username (--operator to override).
+ */
+
+import * as os from "os";
+import axios from "axios";
+import dotenv from "dotenv";
+
+import { ControlAuditEntry, ControlStatus, LIVE_DASHBOARD_PORT } from "../services/LiveControl";
+
+dotenv.config();
+
+const FLATTEN_TIMEOUT_MS = 10 * 60 * 1000; // sells retry with waits — give them time
+
+function argValue(flag: string): string | undefined {
+  const i = process.argv.indexOf(flag);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+function printEntry(entry: ControlAuditEntry): void {
+  const when = new Date(entry.ts).toISOString();
+  console.log(`${entry.ok ? "✅" : "❌"} ${when} ${entry.action} by ${entry.operator} — ${entry.detail}`);
+  for (const r of entry.result ?? []) {
+    console.log(`   ${r.marketSlug}: cancelled ${r.cancelledOrders}, closed ${r.closedPositions}, still open ${r.openPositions}, shares left ${r.sharesLeft.a}/${r.sharesLeft.b}`);
+  }
+}
+
+function printStatus(status: ControlStatus): void {
+  console.log(status.halted ? `🛑 HALTED: ${status.haltReason}` : "▶️ Trading");
+  if (status.pausedBy) {
+    console.log(`   paused by ${status.pausedBy.operator} at ${new Date(status.pausedBy.at).toISOString()}`);
+  }
+  for (const b of status.blockedMarkets) console.log(`⏸️ ${b.marketSlug} blocked — ${b.reason}`);
+  for (const h of status.breakerHalts) {
+    console.log(`🛑 Breaker ${h.scope} ${h.breaker}: ${h.reason}${h.resumeAt ? ` (resumes ${new Date(h.resumeAt).toISOString()})` : " (manual resume)"}`);
+  }
+  if (status.flattening.length > 0) console.log(`🧹 Flattening: ${status.flattening.join(", ")}`);
+}
+
+async function main(): Promise<void> {
+  const [command, positional] = process.argv.slice(2);
+  const baseUrl = (process.env.SHOCK_CONTROL_URL || `http://127.0.0.1:${LIVE_DASHBOARD_PORT}`).replace(/\/$/, "");
+  const token = process.env.SHOCK_CONTROL_TOKEN;
+  if (!token) {
+    console.error("SHOCK_CONTROL_TOKEN is not set");
+    process.exit(1);
+  }
+
+  const http = axios.create({
+    baseURL: `${baseUrl}/api/control`,
+    headers: { Authorization: `Bearer ${token}`, "X-Operator": argValue("--operator") ?? os.userInfo().username },
+    timeout: 30_000,
+    validateStatus: (status) => status === 200 || status === 409,
+  });
+  const reason = argValue("--reason");
+
+  let entry: ControlAuditEntry;
+  switch (command) {
+    case "status":
+      printStatus((await http.get<ControlStatus>("/status")).data);
+      return;
+    case "audit": {
+      const limit = argValue("--limit") ?? "20";
+      for (const e of (await http.get<ControlAuditEntry[]>("/audit", { params: { limit } })).data) printEntry(e);
+      return;
+    }
+    case "pause":
+      entry = (await http.post("/pause", { reason })).data;
+      break;
+    case "resume":
+      entry = (await http.post("/resume", { marketSlug: argValue("--market"), breakerScope: argValue("--breaker") })).data;
+      break;
+    case "flatten":
+      if (!positional || positional.startsWith("--")) {
+        console.error("flatten needs a market slug");
+        process.exit(1);
+      }
+      console.log(`🧹 Flattening ${positional} — this waits for the sells...`);
+      entry = (await http.post("/flatten", { marketSlug: positional, reason }, { timeout: FLATTEN_TIMEOUT_MS })).data;
+      break;
+    case "flatten-all":
+      console.log("🧹 Pausing and flattening every market — this waits for the sells...");
+      entry = (await http.post("/flatten-all", { reason }, { timeout: FLATTEN_TIMEOUT_MS })).data;
+      break;
+    default:
+      console.error("Usage: npm run control -- <status|pause|resume|flatten <slug>|flatten-all|audit> [options]");
+      process.exit(1);
+  }
+
+  printEntry(entry);
+  if (!entry.ok) process.exit(1);
+}
+
+main().catch((err: any) => {
+  const body = err?.response?.data;
+  console.error(`❌ ${body?.error ?? err?.message ?? err}`);
+  process.exit(1);
+});
@@ -0,0 +1,63 @@
+/**
+ * CLI: Database Schema Migrations
+ *
+ * Usage:
+ *   npm run db:migrate                                # Status of ./data/trading.db
+ *   npm run db:migrate -- --apply                     # Apply pending migrations
+ *   npm run db:migrate -- --state                     # State store (./data/shock-fade-live.db)
+ *   npm run db:migrate -- --db ./data/other.db        # Another database
+ *
+ * The bot applies pending migrations itself when it opens a database; this
+ * shows what a database is at, and applies migrations without starting it
+ * (e.g. before a deploy, or on a copy to check a new migration).
+ */
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import { TRADING_DB_SCHEMAS } from '../services/Database';
+import { STATE_STORE_SCHEMA } from '../services/ShockFadeStateStore';
+import { applyMigrations, migrationStatus } from '../services/SchemaMigrations';
+
+function argValue(flag: string): string | undefined {
+  const i = process.argv.indexOf(flag);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+function main(): void {
+  const stateStore = process.argv.includes('--state');
+  const dbPath = argValue('--db') ?? (stateStore ? './data/shock-fade-live.db' : './data/trading.db');
+  const modules = stateStore ? [STATE_STORE_SCHEMA] : TRADING_DB_SCHEMAS;
+  const apply = process.argv.includes('--apply');
+
+  if (!fs.existsSync(dbPath)) {
+    console.error(`❌ No database at ${dbPath}`);
+    process.exit(1);
+  }
+
+  const db = new Database(dbPath);
+  try {
+    if (apply) {
+      const ran = applyMigrations(db, modules, (msg) => console.log(msg));
+      console.log(ran.length > 0 ? `✅ Applied ${ran.length} migration(s)\n` : '✅ Nothing to apply\n');
+    }
+
+    console.log(`Schema of ${dbPath}:`);
+    for (const module of modules) {
+      console.log(`\n  ${module.name} — ${module.description}`);
+      for (const m of migrationStatus(db, [module])) {
+        const state = m.appliedAt ? `applied ${new Date(m.appliedAt).toISOString()}` : 'PENDING';
+        console.log(`    v${m.version}  ${state.padEnd(32)} ${m.name}`);
+      }
+    }
+
+    const pending = migrationStatus(db, modules).filter((m) => m.appliedAt === null).length;
+    if (pending > 0) console.log(`\n${pending} pending — run with --apply`);
+  } catch (err: any) {
+    console.error(`❌ ${err.message}`);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+  }
+}
+
+main();
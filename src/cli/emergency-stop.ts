@@ -14,6 +14,9 @@
  *   npx ts-node src/cli/emergency-stop.ts --market all
  *   npx ts-node src/cli/emergency-stop.ts --market all --dry-run
  *   npx ts-node src/cli/emergency-stop.ts --market all --force
+ *
+ * Legacy: targets the ASSV2_Live bot and btc-updown markets. For the live
+ * shock-fade bot use `npm run control -- flatten-all` (src/cli/control.ts).
  */
 
 import * as fs from "fs";
@@ -0,0 +1,46 @@
+/**
+ * CLI: Import a JSON State File into the SQLite State Store
+ *
+ * Usage:
+ *   npm run state:import                                      # ./data/shock-fade-live-state.json → ./data/shock-fade-live.db
+ *   npm run state:import -- --from ./data/old.json            # Another JSON state file
+ *   npm run state:import -- --to ./data/other.db              # Another store
+ *   npm run state:import -- --sessions                        # List sessions in the store
+ *
+ * Each JSON file becomes a session of its own and can only be imported once.
+ * The live bot imports its old state file by itself on first start; use this
+ * for archived state files you want to keep queryable.
+ */
+
+import { SqliteStateStore, importStateJson } from "../services/ShockFadeStateStore";
+
+function argValue(flag: string): string | undefined {
+  const i = process.argv.indexOf(flag);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+function main(): void {
+  const from = argValue("--from") ?? "./data/shock-fade-live-state.json";
+  const to = argValue("--to") ?? "./data/shock-fade-live.db";
+  const store = new SqliteStateStore(to);
+
+  try {
+    if (!process.argv.includes("--sessions")) {
+      const result = importStateJson(store, from);
+      console.log(`✅ Imported ${from} as ${result.sessionId}: ${result.orders} orders, ${result.positions} positions, ${result.trades} trades`);
+    }
+
+    console.log(`\nSessions in ${to} (schema v${store.getSchemaVersion()}):`);
+    for (const s of store.listSessions()) {
+      const saved = s.lastSavedAt ? new Date(s.lastSavedAt).toISOString() : "never saved";
+      console.log(`  ${s.id.padEnd(32)} ${new Date(s.startedAt).toISOString()} → ${saved}  ${String(s.trades).padStart(4)} trades  $${s.pnl.toFixed(2).padStart(8)}  ${s.source}`);
+    }
+  } catch (err: any) {
+    console.error(`❌ ${err.message}`);
+    process.exitCode = 1;
+  } finally {
+    store.close();
+  }
+}
+
+main();
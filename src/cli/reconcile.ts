@@ -0,0 +1,58 @@
+/**
+ * CLI: Startup Reconciliation Report
+ *
+ * Usage:
+ *   npm run reconcile                              # Show the latest report
+ *   npm run reconcile -- --confirm <reportId>      # Confirm it, release the trading hold
+ *   npm run reconcile -- --state ./data/other.db   # Report for another state file
+ *
+ * The live bot reconciles its state file against the exchange on startup and
+ * halts trading when it finds discrepancies it can't repair itself. Fix them
+ * on the venue (cancel stray orders, move shares back), then confirm the
+ * report id shown here — the running bot picks the confirmation up within 5s.
+ */
+
+import * as os from "os";
+import {
+  confirmReconciliationReport,
+  formatReconciliationReport,
+  readReconciliationReport,
+  reconciliationReportPath,
+} from "../services/StartupReconciliation";
+
+function argValue(flag: string): string | undefined {
+  const i = process.argv.indexOf(flag);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+function main(): void {
+  const statePath = argValue("--state") ?? "./data/shock-fade-live.db";
+  const reportPath = reconciliationReportPath(statePath);
+  const confirmId = argValue("--confirm");
+
+  if (process.argv.includes("--confirm") && !confirmId) {
+    console.error("--confirm needs the report id (run without arguments to see it)");
+    process.exit(1);
+  }
+
+  if (confirmId) {
+    try {
+      const report = confirmReconciliationReport(reportPath, confirmId, os.userInfo().username);
+      for (const line of formatReconciliationReport(report)) console.log(line);
+      console.log(`\n✅ Confirmed — the bot resumes trading on its next check`);
+    } catch (err: any) {
+      console.error(`❌ ${err.message}`);
+      process.exit(1);
+    }
+    return;
+  }
+
+  const report = readReconciliationReport(reportPath);
+  if (!report) {
+    console.log(`No reconciliation report at ${reportPath}`);
+    return;
+  }
+  for (const line of formatReconciliationReport(report)) console.log(line);
+}
+
+main();
@@ -10,6 +10,15 @@
  * Rate limit: 2s minimum between calls (polite usage).
  */
 
+import {
+  GameState,
+  GameStatus,
+  LeagueFeed,
+  LeagueSport,
+  NormalizedGameEvent,
+  buildGameState,
+} from "./GameState";
+
 export interface EspnScoreboardGame {
   id: string;
   name: string; // "Team A at Team B"
@@ -34,6 +43,10 @@ export interface EspnScoreboardGame {
     shortDisplayName: string;
     score: string;
   };
+  situation?: {
+    possession?: string; // team id (football)
+    outs?: number; // baseball
+  };
 }
 
 type SportKey = "nhl" | "nba" | "mlb" | "nfl" | "cbb";
@@ -143,6 +156,12 @@ export class EspnFallbackApi {
           shortDisplayName: away.team?.shortDisplayName || "",
           score: away.score || "0",
         },
+        situation: competition.situation
+          ? {
+              possession: competition.situation.possession,
+              outs: competition.situation.outs,
+            }
+          : undefined,
       });
     }
 
@@ -159,29 +178,13 @@ export class EspnFallbackApi {
   async getPlayByPlay(
     sport: SportKey,
     gameId: string,
-  ): Promise<{
-    type: "goal" | "penalty" | "period_start" | "period_end" | "shootout" | "other";
-    team: string;
-    period: number | string;
-    clock: string;
-    description: string;
-    timestamp: number;
-    scorer?: string;
-  }[]> {
+  ): Promise<NormalizedGameEvent[]> {
     const { sport: sportPath, league } = SPORT_MAP[sport];
     const data = await this.fetchJson<any>(
       `${EspnFallbackApi.BASE}/apis/site/v2/sports/${sportPath}/${league}/summary?event=${gameId}`,
     );
 
-    const events: {
-      type: "goal" | "penalty" | "period_start" | "period_end" | "shootout" | "other";
-      team: string;
-      period: number | string;
-      clock: string;
-      description: string;
-      timestamp: number;
-      scorer?: string;
-    }[] = [];
+    const events: NormalizedGameEvent[] = [];
 
     // Build team ID → abbreviation lookup from boxscore (CBB plays lack displayName)
     const teamMap = new Map<string, string>();
@@ -222,3 +225,57 @@ export class EspnFallbackApi {
     return events;
   }
 }
+
+/**
+ * LeagueFeed over the ESPN scoreboard for one sport (CBB has no league API;
+ * also usable as a fallback for the others). Today's games only.
+ */
+export class EspnLeagueFeed implements LeagueFeed {
+  private api: EspnFallbackApi;
+  private key: SportKey;
+
+  constructor(readonly sport: LeagueSport, api: EspnFallbackApi = new EspnFallbackApi()) {
+    this.api = api;
+    this.key = sport.toLowerCase() as SportKey;
+  }
+
+  async getGames(_date?: string): Promise<GameState[]> {
+    const games = await this.api.getScoreboard(this.key);
+    return games.map((g) => this.toGameState(g));
+  }
+
+  async getGameState(gameId: string): Promise<GameState | null> {
+    const games = await this.api.getScoreboard(this.key);
+    const game = games.find((g) => g.id === gameId);
+    return game ? this.toGameState(game) : null;
+  }
+
+  getEvents(gameId: string): Promise<NormalizedGameEvent[]> {
+    return this.api.getPlayByPlay(this.key, gameId);
+  }
+
+  private toGameState(g: EspnScoreboardGame): GameState {
+    const state = g.status.type.state;
+    const status: GameStatus = state === "in" ? "live" : state === "post" ? "final" : "pre";
+    const possession = g.situation?.possession;
+    return buildGameState({
+      sport: this.sport,
+      gameId: g.id,
+      status,
+      home: {
+        name: g.homeTeam.displayName || g.homeTeam.shortDisplayName,
+        abbrev: g.homeTeam.abbreviation,
+        score: parseInt(g.homeTeam.score || "0", 10),
+      },
+      away: {
+        name: g.awayTeam.displayName || g.awayTeam.shortDisplayName,
+        abbrev: g.awayTeam.abbreviation,
+        score: parseInt(g.awayTeam.score || "0", 10),
+      },
+      period: g.status.period,
+      clock: g.status.displayClock,
+      possession: !possession ? undefined : possession === g.homeTeam.id ? "home" : possession === g.awayTeam.id ? "away" : undefined,
+      outs: g.situation?.outs,
+    });
+  }
+}
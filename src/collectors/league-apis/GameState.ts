@@ -0,0 +1,266 @@
+/**
+ * GameState — normalized live game model shared by every league API client.
+ *
+ * Each client (NBA CDN, NHL web API, MLB Stats API, ESPN for NFL/CBB) speaks a
+ * different wire format: ISO-8601 durations vs "m:ss" clocks, quarters vs
+ * halves vs innings, numeric vs string scores. Clients implement LeagueFeed and
+ * return GameState, so downstream code (event confirmation, late-game filters,
+ * SurpriseClassifier) never re-parses per sport.
+ */
+
+export type LeagueSport = "NHL" | "NBA" | "MLB" | "NFL" | "CBB";
+
+export type GameStatus = "pre" | "live" | "final";
+
+export interface NormalizedGameEvent {
+  type: "goal" | "penalty" | "period_start" | "period_end" | "shootout" | "other";
+  team: string;
+  period: number | string;
+  clock: string;
+  description: string;
+  timestamp: number; // epoch ms
+  scorer?: string;
+  strength?: string; // "even", "pp", "sh"
+}
+
+export interface TeamState {
+  name: string; // full name, e.g. "Boston Bruins"
+  abbrev: string; // e.g. "BOS"
+  score: number;
+}
+
+export interface GameState {
+  sport: LeagueSport;
+  gameId: string;
+  status: GameStatus;
+  home: TeamState;
+  away: TeamState;
+  /** Quarter / period / half / inning (0 before the game) */
+  period: number;
+  /** Display label: "Q4", "P2", "H1", "OT", "SO", "Top 7", "Pre", "Final" */
+  periodLabel: string;
+  /** Game clock as "m:ss" ("" when unknown or not clocked) */
+  clock: string;
+  /** Seconds left in the current period (null when unknown / baseball) */
+  periodSecondsRemaining: number | null;
+  /** Seconds left in regulation — 0 in overtime, null when unknown / baseball */
+  secondsRemaining: number | null;
+  /** Regulation length in seconds (null for baseball) */
+  regulationSeconds: number | null;
+  isOvertime: boolean;
+  /** Team with the ball (NFL) */
+  possession?: "home" | "away";
+  /** Team on the man advantage (NHL) */
+  powerPlay?: "home" | "away";
+  /** Baseball */
+  inningHalf?: "top" | "bottom";
+  outs?: number;
+  startTime?: string; // ISO
+  updatedAt: number; // epoch ms
+}
+
+/**
+ * Common surface of the league API clients.
+ */
+export interface LeagueFeed {
+  readonly sport: LeagueSport;
+  /** Games on a date (YYYY-MM-DD). Feeds that only serve today ignore it. */
+  getGames(date?: string): Promise<GameState[]>;
+  getGameState(gameId: string): Promise<GameState | null>;
+  /** Scoring / penalty / period events; scores from every sport map to "goal". */
+  getEvents(gameId: string): Promise<NormalizedGameEvent[]>;
+}
+
+/** Regulation structure per sport (MLB: innings, no clock) */
+export const REGULATION: Record<LeagueSport, { periods: number; periodSeconds: number | null }> = {
+  NHL: { periods: 3, periodSeconds: 1200 },
+  NBA: { periods: 4, periodSeconds: 720 },
+  CBB: { periods: 2, periodSeconds: 1200 },
+  NFL: { periods: 4, periodSeconds: 900 },
+  MLB: { periods: 9, periodSeconds: null },
+};
+
+/**
+ * When a game counts as "late". Clocked sports use the period and the seconds
+ * left in it, baseball the inning, soccer the match minute.
+ */
+export interface LateGameRule {
+  /** First period (quarter / period / half / inning) that counts as late */
+  fromPeriod?: number;
+  /** Only the final N seconds of those periods (omitted: the whole period) */
+  periodSecondsRemaining?: number;
+  /** Regulation minute from which the game is late; stoppage time counts */
+  fromMinute?: number;
+  /** Overtime / extra innings always count (default true) */
+  includeOvertime?: boolean;
+}
+
+/** Used when sss_sport_params.json has no late_game block (NBA Q4/OT, CBB 2nd half/OT) */
+export const DEFAULT_LATE_GAME_RULES: Partial<Record<LeagueSport, LateGameRule>> = {
+  NBA: { fromPeriod: 4, periodSecondsRemaining: 180 },
+  CBB: { fromPeriod: 2, periodSecondsRemaining: 180 },
+};
+
+// ============================================================================
+// CLOCK PARSING
+// ============================================================================
+
+/**
+ * Parse any league clock to seconds.
+ * Examples: "PT05M23.00S" → 323, "5:23" → 323, "0:45" → 45, "45.2" → 45.2, "" → null
+ */
+export function parseClock(clock: string | null | undefined): number | null {
+  if (!clock) return null;
+  const iso = clock.match(/^PT(?:(\d+)M)?(?:([\d.]+)S)?$/);
+  if (iso) {
+    if (iso[1] === undefined && iso[2] === undefined) return null;
+    return parseInt(iso[1] ?? "0", 10) * 60 + parseFloat(iso[2] ?? "0");
+  }
+  const mmss = clock.match(/^(\d+):(\d+(?:\.\d+)?)$/);
+  if (mmss) return parseInt(mmss[1], 10) * 60 + parseFloat(mmss[2]);
+  const secs = clock.match(/^\d+(?:\.\d+)?$/);
+  if (secs) return parseFloat(clock);
+  return null;
+}
+
+/** 323 → "5:23" */
+export function formatClock(seconds: number | null): string {
+  if (seconds === null) return "";
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+export function periodLabel(
+  sport: LeagueSport,
+  status: GameStatus,
+  period: number,
+  opts: { periodType?: string; inningHalf?: "top" | "bottom" } = {},
+): string {
+  if (status === "pre") return "Pre";
+  if (status === "final") return "Final";
+  if (sport === "MLB") return `${opts.inningHalf === "bottom" ? "Bot" : "Top"} ${period}`;
+  if (opts.periodType === "SO") return "SO";
+
+  const { periods } = REGULATION[sport];
+  if (period > periods) {
+    const ot = period - periods;
+    return ot > 1 ? `OT${ot}` : "OT";
+  }
+  const prefix = sport === "NHL" ? "P" : sport === "CBB" ? "H" : "Q";
+  return `${prefix}${period}`;
+}
+
+// ============================================================================
+// BUILDER
+// ============================================================================
+
+export interface GameStateInput {
+  sport: LeagueSport;
+  gameId: string;
+  status: GameStatus;
+  home: TeamState;
+  away: TeamState;
+  period: number;
+  /** Raw clock in any format parseClock understands */
+  clock?: string;
+  /** NHL periodDescriptor.periodType ("REG" | "OT" | "SO") */
+  periodType?: string;
+  possession?: "home" | "away";
+  powerPlay?: "home" | "away";
+  inningHalf?: "top" | "bottom";
+  outs?: number;
+  startTime?: string;
+}
+
+/**
+ * Fill in the derived clock fields (seconds remaining, overtime, label).
+ */
+export function buildGameState(input: GameStateInput, now: number = Date.now()): GameState {
+  const { sport, status, period } = input;
+  const { periods, periodSeconds } = REGULATION[sport];
+
+  let periodSecondsRemaining: number | null = null;
+  let secondsRemaining: number | null = null;
+  let isOvertime: boolean;
+
+  if (periodSeconds === null) {
+    // Baseball: extra innings, no clock
+    isOvertime = period > periods;
+  } else {
+    isOvertime = period > periods || input.periodType === "OT" || input.periodType === "SO";
+    periodSecondsRemaining = status === "live" ? parseClock(input.clock) : null;
+    if (status === "pre" || period === 0) {
+      secondsRemaining = periods * periodSeconds;
+    } else if (status === "final" || isOvertime) {
+      secondsRemaining = 0;
+    } else if (periodSecondsRemaining !== null) {
+      secondsRemaining = (periods - period) * periodSeconds + periodSecondsRemaining;
+    }
+  }
+
+  const state: GameState = {
+    sport,
+    gameId: input.gameId,
+    status,
+    home: input.home,
+    away: input.away,
+    period,
+    periodLabel: periodLabel(sport, status, period, input),
+    clock: formatClock(periodSecondsRemaining),
+    periodSecondsRemaining,
+    secondsRemaining,
+    regulationSeconds: periodSeconds === null ? null : periods * periodSeconds,
+    isOvertime,
+    updatedAt: now,
+  };
+  if (input.possession) state.possession = input.possession;
+  if (input.powerPlay) state.powerPlay = input.powerPlay;
+  if (input.inningHalf) state.inningHalf = input.inningHalf;
+  if (input.outs !== undefined) state.outs = input.outs;
+  if (input.startTime) state.startTime = input.startTime;
+  return state;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/** Home score minus away score */
+export function scoreDifferential(state: GameState): number {
+  return state.home.score - state.away.score;
+}
+
+/**
+ * Fraction of regulation played, 0-1. Baseball counts half-innings.
+ */
+export function fractionElapsed(state: GameState): number {
+  if (state.status === "pre") return 0;
+  if (state.status === "final" || state.isOvertime) return 1;
+  if (state.sport === "MLB") {
+    const halves = (state.period - 1) * 2 + (state.inningHalf === "bottom" ? 1 : 0);
+    return Math.max(0, Math.min(1, halves / (REGULATION.MLB.periods * 2)));
+  }
+  if (state.secondsRemaining === null || !state.regulationSeconds) return 0.5;
+  return Math.max(0, Math.min(1, 1 - state.secondsRemaining / state.regulationSeconds));
+}
+
+/**
+ * Is a live game inside its late-game window? Without an explicit rule the
+ * sport's DEFAULT_LATE_GAME_RULES entry applies (none → never late).
+ */
+export function isLateGame(
+  state: GameState | null | undefined,
+  rule: LateGameRule | null | undefined = state ? DEFAULT_LATE_GAME_RULES[state.sport] : undefined,
+): boolean {
+  if (!state || !rule || state.status !== "live") return false;
+  if (state.isOvertime) return rule.includeOvertime !== false;
+
+  if (rule.fromMinute !== undefined) {
+    if (state.secondsRemaining === null || !state.regulationSeconds) return false;
+    return (state.regulationSeconds - state.secondsRemaining) / 60 >= rule.fromMinute;
+  }
+
+  if (rule.fromPeriod === undefined || state.period < rule.fromPeriod) return false;
+  if (rule.periodSecondsRemaining === undefined) return true;
+  return state.periodSecondsRemaining !== null && state.periodSecondsRemaining <= rule.periodSecondsRemaining;
+}
@@ -11,7 +11,13 @@
  * Rate limit: 2s minimum between calls (polite usage).
  */
 
-import type { NormalizedGameEvent } from "./NhlLiveApi";
+import {
+  GameState,
+  GameStatus,
+  LeagueFeed,
+  NormalizedGameEvent,
+  buildGameState,
+} from "./GameState";
 export type { NormalizedGameEvent };
 
 export interface MlbScheduleGame {
@@ -23,10 +29,15 @@ export interface MlbScheduleGame {
     codedGameState: string; // "S", "I", "F"
   };
   teams: {
-    away: { team: { id: number; name: string }; score?: number };
-    home: { team: { id: number; name: string }; score?: number };
+    away: { team: { id: number; name: string; abbreviation?: string }; score?: number };
+    home: { team: { id: number; name: string; abbreviation?: string }; score?: number };
   };
   venue: { name: string };
+  linescore?: {
+    currentInning: number;
+    inningHalf: string; // "Top" | "Bottom"
+    outs: number;
+  };
 }
 
 export interface MlbLiveScore {
@@ -41,8 +52,9 @@ export interface MlbLiveScore {
   outs: number;
 }
 
-export class MlbLiveApi {
+export class MlbLiveApi implements LeagueFeed {
   private static BASE = "https://statsapi.mlb.com";
+  readonly sport = "MLB" as const;
   private lastCallTs = 0;
   private minGapMs: number;
 
@@ -74,7 +86,7 @@ export class MlbLiveApi {
   async getGamesByDate(date: string): Promise<MlbScheduleGame[]> {
     // date format: "2026-02-06"
     const data = await this.fetchJson<any>(
-      `${MlbLiveApi.BASE}/api/v1/schedule?date=${date}&sportId=1&hydrate=team`,
+      `${MlbLiveApi.BASE}/api/v1/schedule?date=${date}&sportId=1&hydrate=team,linescore`,
     );
     const games: MlbScheduleGame[] = [];
     const dates = data?.dates || [];
@@ -94,6 +106,7 @@ export class MlbLiveApi {
               team: {
                 id: g.teams?.away?.team?.id || 0,
                 name: g.teams?.away?.team?.name || "",
+                abbreviation: g.teams?.away?.team?.abbreviation,
               },
               score: g.teams?.away?.score,
             },
@@ -101,11 +114,19 @@ export class MlbLiveApi {
               team: {
                 id: g.teams?.home?.team?.id || 0,
                 name: g.teams?.home?.team?.name || "",
+                abbreviation: g.teams?.home?.team?.abbreviation,
               },
               score: g.teams?.home?.score,
             },
           },
           venue: { name: g.venue?.name || "" },
+          linescore: g.linescore
+            ? {
+                currentInning: g.linescore.currentInning || 0,
+                inningHalf: g.linescore.inningHalf || "",
+                outs: g.linescore.outs || 0,
+              }
+            : undefined,
         });
       }
     }
@@ -166,11 +187,9 @@ export class MlbLiveApi {
                  about.startTime ? new Date(about.startTime).getTime() : Date.now();
 
       // Team (batting team)
-      const team = play.matchup?.batSide?.description
-        ? ""
-        : (halfInning === "top"
-          ? data?.gameData?.teams?.away?.abbreviation || data?.gameData?.teams?.away?.name || ""
-          : data?.gameData?.teams?.home?.abbreviation || data?.gameData?.teams?.home?.name || "");
+      const team = halfInning === "top"
+        ? data?.gameData?.teams?.away?.abbreviation || data?.gameData?.teams?.away?.name || ""
+        : data?.gameData?.teams?.home?.abbreviation || data?.gameData?.teams?.home?.name || "";
 
       const scorer = play.matchup?.batter?.fullName || undefined;
 
@@ -220,4 +239,60 @@ export class MlbLiveApi {
       return null;
     }
   }
+
+  /* ─── LeagueFeed ────────────────────────────────────────────────── */
+
+  async getGames(date: string = new Date().toISOString().slice(0, 10)): Promise<GameState[]> {
+    const games = await this.getGamesByDate(date);
+    return games.map((g) =>
+      buildGameState({
+        sport: "MLB",
+        gameId: String(g.gamePk),
+        status: MlbLiveApi.toStatus(g.status.abstractGameState),
+        home: { name: g.teams.home.team.name, abbrev: g.teams.home.team.abbreviation || "", score: g.teams.home.score ?? 0 },
+        away: { name: g.teams.away.team.name, abbrev: g.teams.away.team.abbreviation || "", score: g.teams.away.score ?? 0 },
+        period: g.linescore?.currentInning ?? 0,
+        inningHalf: MlbLiveApi.toHalf(g.linescore?.inningHalf),
+        outs: g.linescore?.outs,
+        startTime: g.gameDate,
+      }),
+    );
+  }
+
+  async getGameState(gamePk: string): Promise<GameState | null> {
+    try {
+      const data = await this.fetchJson<any>(
+        `${MlbLiveApi.BASE}/api/v1.1/game/${gamePk}/feed/live`,
+      );
+      const teams = data?.gameData?.teams || {};
+      const linescore = data?.liveData?.linescore || {};
+      return buildGameState({
+        sport: "MLB",
+        gameId: String(gamePk),
+        status: MlbLiveApi.toStatus(data?.gameData?.status?.abstractGameState || ""),
+        home: { name: teams.home?.name || "", abbrev: teams.home?.abbreviation || "", score: linescore?.teams?.home?.runs ?? 0 },
+        away: { name: teams.away?.name || "", abbrev: teams.away?.abbreviation || "", score: linescore?.teams?.away?.runs ?? 0 },
+        period: linescore?.currentInning || 0,
+        inningHalf: MlbLiveApi.toHalf(linescore?.inningHalf),
+        outs: linescore?.outs,
+        startTime: data?.gameData?.datetime?.dateTime,
+      });
+    } catch (err) {
+      console.error(`[MlbLiveApi] getGameState error for ${gamePk}:`, err);
+      return null;
+    }
+  }
+
+  getEvents(gamePk: string): Promise<NormalizedGameEvent[]> {
+    return this.getPlayByPlay(Number(gamePk));
+  }
+
+  private static toStatus(abstractGameState: string): GameStatus {
+    return abstractGameState === "Live" ? "live" : abstractGameState === "Final" ? "final" : "pre";
+  }
+
+  private static toHalf(inningHalf: string | undefined): "top" | "bottom" | undefined {
+    if (!inningHalf) return undefined;
+    return inningHalf.toLowerCase().startsWith("bot") ? "bottom" : "top";
+  }
 }
@@ -12,7 +12,13 @@
  * Rate limit: 2s minimum between calls (polite usage).
  */
 
-import type { NormalizedGameEvent } from "./NhlLiveApi";
+import {
+  GameState,
+  GameStatus,
+  LeagueFeed,
+  NormalizedGameEvent,
+  buildGameState,
+} from "./GameState";
 export type { NormalizedGameEvent };
 
 export interface NbaScoreboardGame {
@@ -49,8 +55,9 @@ export interface NbaBoxScore {
   gameStatus: number;
 }
 
-export class NbaLiveApi {
+export class NbaLiveApi implements LeagueFeed {
   private static CDN = "https://cdn.nba.com/static/json/liveData";
+  readonly sport = "NBA" as const;
   private lastCallTs = 0;
   private minGapMs: number;
 
@@ -204,4 +211,61 @@ export class NbaLiveApi {
       return null;
     }
   }
+
+  /* ─── LeagueFeed ────────────────────────────────────────────────── */
+
+  /** Today's games only — the CDN has no date-addressed scoreboard. */
+  async getGames(_date?: string): Promise<GameState[]> {
+    const games = await this.getTodaysScoreboard();
+    return games.map((g) =>
+      buildGameState({
+        sport: "NBA",
+        gameId: g.gameId,
+        status: NbaLiveApi.toStatus(g.gameStatus),
+        home: NbaLiveApi.toTeam(g.homeTeam),
+        away: NbaLiveApi.toTeam(g.awayTeam),
+        period: g.period,
+        clock: g.gameClock,
+        startTime: g.gameTimeUTC || undefined,
+      }),
+    );
+  }
+
+  async getGameState(gameId: string): Promise<GameState | null> {
+    try {
+      const data = await this.fetchJson<any>(
+        `${NbaLiveApi.CDN}/boxscore/boxscore_${gameId}.json`,
+      );
+      const game = data?.game || {};
+      return buildGameState({
+        sport: "NBA",
+        gameId,
+        status: NbaLiveApi.toStatus(game.gameStatus || 0),
+        home: NbaLiveApi.toTeam(game.homeTeam || {}),
+        away: NbaLiveApi.toTeam(game.awayTeam || {}),
+        period: game.period || 0,
+        clock: game.gameClock || "",
+        startTime: game.gameTimeUTC,
+      });
+    } catch (err) {
+      console.error(`[NbaLiveApi] getGameState error for ${gameId}:`, err);
+      return null;
+    }
+  }
+
+  getEvents(gameId: string): Promise<NormalizedGameEvent[]> {
+    return this.getPlayByPlay(gameId);
+  }
+
+  private static toStatus(gameStatus: number): GameStatus {
+    return gameStatus === 2 ? "live" : gameStatus === 3 ? "final" : "pre";
+  }
+
+  private static toTeam(team: any): GameState["home"] {
+    return {
+      name: [team?.teamCity, team?.teamName].filter(Boolean).join(" "),
+      abbrev: team?.teamTricode || "",
+      score: team?.score || 0,
+    };
+  }
 }
@@ -4,6 +4,14 @@
  * ESPN has the best free NFL coverage (better than nfl.com hidden APIs)
  */
 
+import {
+  GameState,
+  GameStatus,
+  LeagueFeed,
+  NormalizedGameEvent,
+  buildGameState,
+} from "./GameState";
+
 export type NormalizedEvent = {
   type: string;
   team: string;
@@ -41,12 +49,19 @@ async function rateLimitedFetch(url: string): Promise<any> {
   return resp.json();
 }
 
-export class NflLiveApi {
+const SCORING_TYPES = new Set(["touchdown", "field_goal", "safety", "scoring_play"]);
+
+export class NflLiveApi implements LeagueFeed {
   private baseUrl = "https://site.api.espn.com/apis/site/v2/sports/football/nfl";
+  readonly sport = "NFL" as const;
 
-  async getTodaysGames(): Promise<NflGame[]> {
+  private async fetchScoreboard(): Promise<any[]> {
     const data = await rateLimitedFetch(`${this.baseUrl}/scoreboard`);
-    const events = data.events || [];
+    return data.events || [];
+  }
+
+  async getTodaysGames(): Promise<NflGame[]> {
+    const events = await this.fetchScoreboard();
 
     return events.map((e: any) => {
       const comp = e.competitions?.[0] || {};
@@ -110,6 +125,68 @@ export class NflLiveApi {
     };
   }
 
+  /* ─── LeagueFeed ────────────────────────────────────────────────── */
+
+  /** Current scoreboard week — ESPN's default; the date is ignored. */
+  async getGames(_date?: string): Promise<GameState[]> {
+    const events = await this.fetchScoreboard();
+    return events.map((e: any) => {
+      const comp = e.competitions?.[0] || {};
+      const home = comp.competitors?.find((c: any) => c.homeAway === "home") || {};
+      const away = comp.competitors?.find((c: any) => c.homeAway === "away") || {};
+      const status = e.status || {};
+      const possessionId = comp.situation?.possession;
+
+      return buildGameState({
+        sport: "NFL",
+        gameId: String(e.id),
+        status: NflLiveApi.toStatus(status.type?.state),
+        home: {
+          name: home.team?.displayName || "",
+          abbrev: home.team?.abbreviation || "",
+          score: parseInt(home.score || "0", 10),
+        },
+        away: {
+          name: away.team?.displayName || "",
+          abbrev: away.team?.abbreviation || "",
+          score: parseInt(away.score || "0", 10),
+        },
+        period: status.period || 0,
+        clock: status.displayClock || "",
+        possession: !possessionId
+          ? undefined
+          : possessionId === home.team?.id || possessionId === home.id
+            ? "home"
+            : possessionId === away.team?.id || possessionId === away.id
+              ? "away"
+              : undefined,
+        startTime: e.date || undefined,
+      });
+    });
+  }
+
+  async getGameState(gameId: string): Promise<GameState | null> {
+    const games = await this.getGames();
+    return games.find((g) => g.gameId === gameId) ?? null;
+  }
+
+  /** Scoring plays map to "goal"; turnovers are kept as "other". */
+  async getEvents(gameId: string): Promise<NormalizedGameEvent[]> {
+    const events = await this.getPlayByPlay(gameId);
+    return events.map((e) => ({
+      type: SCORING_TYPES.has(e.type) ? "goal" : "other",
+      team: e.team,
+      period: e.period,
+      clock: e.clock,
+      description: e.description,
+      timestamp: e.timestamp,
+    }));
+  }
+
+  private static toStatus(state: string | undefined): GameStatus {
+    return state === "in" ? "live" : state === "post" ? "final" : "pre";
+  }
+
   private classifyPlay(play: any): string {
     const text = (play.text || play.type?.text || "").toLowerCase();
     if (text.includes("touchdown")) return "touchdown";
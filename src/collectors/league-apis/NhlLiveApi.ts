@@ -13,16 +13,14 @@
  * Rate limit: 2s minimum between calls (polite usage).
  */
 
-export interface NormalizedGameEvent {
-  type: "goal" | "penalty" | "period_start" | "period_end" | "shootout" | "other";
-  team: string;
-  period: number | string;
-  clock: string;
-  description: string;
-  timestamp: number; // epoch ms
-  scorer?: string;
-  strength?: string; // "even", "pp", "sh"
-}
+import {
+  GameState,
+  GameStatus,
+  LeagueFeed,
+  NormalizedGameEvent,
+  buildGameState,
+} from "./GameState";
+export type { NormalizedGameEvent };
 
 export interface NhlScheduleGame {
   id: number; // e.g. 2025020345
@@ -30,10 +28,11 @@ export interface NhlScheduleGame {
   gameType: number;
   gameDate: string; // "2026-02-06"
   startTimeUTC: string;
-  awayTeam: { abbrev: string; commonName: { default: string }; score?: number };
-  homeTeam: { abbrev: string; commonName: { default: string }; score?: number };
+  awayTeam: { abbrev: string; commonName: { default: string }; placeName?: { default: string }; score?: number };
+  homeTeam: { abbrev: string; commonName: { default: string }; placeName?: { default: string }; score?: number };
   gameState: string; // "LIVE", "FUT", "OFF", "FINAL", "CRIT"
   period?: number;
+  periodType?: string; // "REG", "OT", "SO"
   clock?: { timeRemaining: string; running: boolean };
 }
 
@@ -48,8 +47,9 @@ export interface NhlLiveScore {
   gameState: string;
 }
 
-export class NhlLiveApi {
+export class NhlLiveApi implements LeagueFeed {
   private static BASE = "https://api-web.nhle.com";
+  readonly sport = "NHL" as const;
   private lastCallTs = 0;
   private minGapMs: number;
 
@@ -98,6 +98,7 @@ export class NhlLiveApi {
             homeTeam: g.homeTeam,
             gameState: g.gameState,
             period: g.periodDescriptor?.number,
+            periodType: g.periodDescriptor?.periodType,
             clock: g.clock,
           });
         }
@@ -148,11 +149,11 @@ export class NhlLiveApi {
       // Strength for goals
       let strength: string | undefined;
       if (type === "goal" && play.situationCode) {
-        // situationCode: "1551" => home skaters/away skaters
-        // We simplify: if not equal skaters, it's PP or SH
+        // situationCode: away goalie, away skaters, home skaters, home goalie
+        // ("1551" = 5v5). We simplify: if not equal skaters, it's PP or SH
         const code = String(play.situationCode);
         if (code.length === 4) {
-          const away = parseInt(code[0]);
+          const away = parseInt(code[1]);
           const home = parseInt(code[2]);
           if (away === home) strength = "even";
           else strength = away > home ? "pp-away" : "pp-home";
@@ -204,6 +205,75 @@ export class NhlLiveApi {
     }
   }
 
+  /* ─── LeagueFeed ────────────────────────────────────────────────── */
+
+  async getGames(date: string = new Date().toISOString().slice(0, 10)): Promise<GameState[]> {
+    const games = await this.getGamesByDate(date);
+    return games.map((g) =>
+      buildGameState({
+        sport: "NHL",
+        gameId: String(g.id),
+        status: NhlLiveApi.toStatus(g.gameState),
+        home: NhlLiveApi.toTeam(g.homeTeam),
+        away: NhlLiveApi.toTeam(g.awayTeam),
+        period: g.period ?? 0,
+        periodType: g.periodType,
+        clock: g.clock?.timeRemaining,
+        startTime: g.startTimeUTC,
+      }),
+    );
+  }
+
+  async getGameState(gameId: string): Promise<GameState | null> {
+    try {
+      const data = await this.fetchJson<any>(
+        `${NhlLiveApi.BASE}/v1/gamecenter/${gameId}/boxscore`,
+      );
+      // situation is only present while a strength advantage is on
+      const situation = data?.situation;
+      const powerPlay = situation?.homeTeam?.situationDescriptions?.includes("PP")
+        ? "home"
+        : situation?.awayTeam?.situationDescriptions?.includes("PP")
+          ? "away"
+          : undefined;
+      return buildGameState({
+        sport: "NHL",
+        gameId: String(gameId),
+        status: NhlLiveApi.toStatus(data?.gameState || ""),
+        home: NhlLiveApi.toTeam(data?.homeTeam || {}),
+        away: NhlLiveApi.toTeam(data?.awayTeam || {}),
+        period: data?.periodDescriptor?.number || 0,
+        periodType: data?.periodDescriptor?.periodType,
+        clock: data?.clock?.inIntermission ? "0:00" : data?.clock?.timeRemaining,
+        powerPlay,
+        startTime: data?.startTimeUTC,
+      });
+    } catch (err) {
+      console.error(`[NhlLiveApi] getGameState error for ${gameId}:`, err);
+      return null;
+    }
+  }
+
+  getEvents(gameId: string): Promise<NormalizedGameEvent[]> {
+    return this.getPlayByPlay(gameId);
+  }
+
+  private static toStatus(gameState: string): GameStatus {
+    if (gameState === "LIVE" || gameState === "CRIT") return "live";
+    if (gameState === "FINAL" || gameState === "OFF") return "final";
+    return "pre";
+  }
+
+  private static toTeam(team: any): GameState["home"] {
+    const common = team?.commonName?.default || "";
+    const place = team?.placeName?.default || "";
+    return {
+      name: place && common && !common.startsWith(place) ? `${place} ${common}` : common || team?.abbrev || "",
+      abbrev: team?.abbrev || "",
+      score: team?.score ?? 0,
+    };
+  }
+
   /* ─── Internal helpers ──────────────────────────────────────────── */
 
   private resolveTeamFromId(data: any, teamId: number): string {
@@ -2,5 +2,25 @@ export { NhlLiveApi } from "./NhlLiveApi";
 export { NbaLiveApi } from "./NbaLiveApi";
 export { MlbLiveApi } from "./MlbLiveApi";
 export { NflLiveApi } from "./NflLiveApi";
-export { EspnFallbackApi } from "./EspnFallbackApi";
-export type { NormalizedGameEvent } from "./NhlLiveApi";
+export { EspnFallbackApi, EspnLeagueFeed } from "./EspnFallbackApi";
+export {
+  DEFAULT_LATE_GAME_RULES,
+  REGULATION,
+  buildGameState,
+  formatClock,
+  fractionElapsed,
+  isLateGame,
+  parseClock,
+  periodLabel,
+  scoreDifferential,
+} from "./GameState";
+export type {
+  GameState,
+  GameStateInput,
+  GameStatus,
+  LateGameRule,
+  LeagueFeed,
+  LeagueSport,
+  NormalizedGameEvent,
+  TeamState,
+} from "./GameState";
@@ -1,11 +1,14 @@
 import Database from "better-sqlite3";
 import { OrderBookWebSocket } from "../../services/OrderBookWS";
 import { SportsMarketDiscovery, SportsMarket } from "../../services/SportsMarketDiscovery";
-import { NhlLiveApi, NormalizedGameEvent } from "../league-apis/NhlLiveApi";
-import { NbaLiveApi } from "../league-apis/NbaLiveApi";
-import { MlbLiveApi } from "../league-apis/MlbLiveApi";
-import { NflLiveApi } from "../league-apis/NflLiveApi";
 import { EspnFallbackApi } from "../league-apis/EspnFallbackApi";
+import {
+  GameEventConfirmation,
+  GameEventBatch,
+  PollErrorInfo,
+  createLeagueFeeds,
+} from "../../services/GameEventConfirmation";
+import { AlertRaiser, watchReconnectStorms } from "../../services/Alerter";
 
 export type RecorderConfig = {
   dbPath: string;
@@ -40,6 +43,7 @@ export class NhlShockRecorder {
   private config: Required<RecorderConfig>;
   private discoveryTimer: NodeJS.Timeout | null = null;
   private alertFilePath: string;
+  private alerter: AlertRaiser | null = null;
 
   // Fair-value tracking: which tokens already have a fair value stored
   private fairValuesCaptured: Set<string> = new Set();
@@ -47,18 +51,14 @@ export class NhlShockRecorder {
   // Data source
   private dataSource: DataSource = "none";
 
-  // Free league API clients
-  private nhlApi: NhlLiveApi | null = null;
-  private nbaApi: NbaLiveApi | null = null;
-  private mlbApi: MlbLiveApi | null = null;
-  private nflApi: NflLiveApi | null = null;
+  // Free league APIs: mapping, play-by-play polling and backoff
+  private gameEvents: GameEventConfirmation | null = null;
   private espnApi: EspnFallbackApi | null = null;
 
-  // Polling state
+  // Polling state (Sportradar keeps its own mappings)
   private pollTimer: NodeJS.Timeout | null = null;
   private gameMappings: Map<string, GameMapping> = new Map(); // marketSlug → GameMapping
   private seenEventKeys: Set<string> = new Set(); // dedup events
-  private firstPollGames: Set<string> = new Set(); // suppress log flood on restart
   private lastApiCallTs: number = 0;
 
   // Prepared statements (lazy-init)
@@ -76,9 +76,6 @@ export class NhlShockRecorder {
   private snapshotCount: number = 0;
   private lastSnapshotTime: number = 0;
 
-  // PBP backoff tracking: gameId → { nextRetryAt, currentBackoffMs, failCount }
-  private pbpBackoff: Map<string, { nextRetryAt: number; currentBackoffMs: number; failCount: number }> = new Map();
-
   constructor(config: RecorderConfig) {
     this.config = {
       dbPath: config.dbPath,
@@ -198,10 +195,9 @@ export class NhlShockRecorder {
 
   private initDataSource() {
     // Free league APIs (no API keys needed)
-    this.nhlApi = new NhlLiveApi(2000);
-    this.nbaApi = new NbaLiveApi(2000);
-    this.mlbApi = new MlbLiveApi(2000);
-    this.nflApi = new NflLiveApi();
+    this.gameEvents = new GameEventConfirmation(createLeagueFeeds(2000), { scorePollMs: 0 });
+    this.gameEvents.on("gameEvents", (batch: GameEventBatch) => this.processNormalizedEvents(batch));
+    this.gameEvents.on("pollError", (info: PollErrorInfo) => this.tryEspnFallback(info.marketSlug, info.sport));
     this.espnApi = new EspnFallbackApi(2000);
     this.dataSource = "free-league-apis";
     console.log("✅ Data source: Free league APIs (NHL/NBA/MLB/NFL + ESPN fallback)");
@@ -277,20 +273,31 @@ export class NhlShockRecorder {
     await this.refreshGameMappings();
 
     // Log mapping status
-    const mapped = this.gameMappings.size;
-    const total = Array.from(this.markets.values()).filter(
+    const leagueMarkets = Array.from(this.markets.values()).filter(
       (m) => m.sport === "NHL" || m.sport === "NBA" || m.sport === "MLB" || m.sport === "NFL" || m.sport === "CBB",
-    ).length;
+    );
+    const total = leagueMarkets.length;
+    const mapped = leagueMarkets.filter((m) => this.isMapped(m.marketSlug)).length;
     console.log(`🗺️  Game mappings: ${mapped}/${total} markets mapped to league games`);
     if (mapped < total) {
-      for (const m of this.markets.values()) {
-        if ((m.sport === "NHL" || m.sport === "NBA" || m.sport === "MLB" || m.sport === "NFL" || m.sport === "CBB") && !this.gameMappings.has(m.marketSlug)) {
+      for (const m of leagueMarkets) {
+        if (!this.isMapped(m.marketSlug)) {
           console.log(`   ❌ Unmapped: ${m.marketSlug} (${m.sport})`);
         }
       }
     }
   }
 
+  /* ─── Alerts ─────────────────────────────────────────────────────── */
+
+  /**
+   * Operator alerter: new live markets (alongside the alert file) and
+   * WebSocket reconnect storms. Call before start().
+   */
+  setAlerter(alerter: AlertRaiser | null): void {
+    this.alerter = alerter;
+  }
+
   /* ─── WebSocket ──────────────────────────────────────────────────── */
 
   private async startWebSocket(): Promise<void> {
@@ -303,6 +310,7 @@ export class NhlShockRecorder {
       console.log(`📊 Recording gap: ${(info.gapMs / 1000).toFixed(1)}s (reconnect #${info.reconnectCount})`);
       this.recordGap(info.disconnectedAt, info.reconnectedAt, info.gapMs, `ws_reconnect_#${info.reconnectCount}`);
     });
+    if (this.alerter) watchReconnectStorms(this.ws, this.alerter, "NhlShockRecorder");
 
     this.ws.on("priceUpdate", (event) => {
       const marketSlug = this.findMarketByToken(event.tokenId);
@@ -327,7 +335,8 @@ export class NhlShockRecorder {
       this.captureFairValue(marketSlug, event.tokenId, event.bid, event.ask);
     });
 
-    this.ws.on("trade", (event: any) => {
+    // Prints only (last_trade_price) — price_changes are book updates, not trades
+    this.ws.on("lastTrade", (event: any) => {
       const marketSlug = this.findMarketByToken(event.tokenId);
       if (!marketSlug) return;
       this.insertTrade(event.timestamp, marketSlug, event.tokenId, event.tradePrice, event.tradeSize, event.side);
@@ -417,230 +426,40 @@ export class NhlShockRecorder {
    * ═══════════════════════════════════════════════════════════════════ */
 
   private async refreshFreeApiGameMappings(allMarkets: SportsMarket[]) {
-    const today = new Date();
-    const dateStr = `${today.getUTCFullYear()}-${String(today.getUTCMonth() + 1).padStart(2, "0")}-${String(today.getUTCDate()).padStart(2, "0")}`;
-
-    // NHL
-    const nhlMarkets = allMarkets.filter((m) => m.sport === "NHL");
-    if (nhlMarkets.length > 0 && this.nhlApi) {
-      try {
-        const games = await this.nhlApi.getGamesByDate(dateStr);
-        for (const game of games) {
-          for (const market of nhlMarkets) {
-            if (this.gameMappings.has(market.marketSlug)) continue;
-            if (this.fuzzyMatchTeams(market.marketSlug, game.homeTeam.commonName?.default, game.awayTeam.commonName?.default)) {
-              this.gameMappings.set(market.marketSlug, {
-                marketSlug: market.marketSlug,
-                gameId: String(game.id),
-                sport: "NHL",
-              });
-              console.log(`🔗 Mapped ${market.marketSlug} → NHL game ${game.id}`);
-            }
-          }
-        }
-      } catch (err) {
-        console.error("⚠️  NHL schedule fetch failed:", err);
-      }
-    }
-
-    // NBA
-    const nbaMarkets = allMarkets.filter((m) => m.sport === "NBA");
-    if (nbaMarkets.length > 0 && this.nbaApi) {
-      try {
-        const games = await this.nbaApi.getTodaysScoreboard();
-        for (const game of games) {
-          for (const market of nbaMarkets) {
-            if (this.gameMappings.has(market.marketSlug)) continue;
-            const homeName = `${game.homeTeam.teamCity} ${game.homeTeam.teamName}`;
-            const awayName = `${game.awayTeam.teamCity} ${game.awayTeam.teamName}`;
-            if (this.fuzzyMatchTeams(market.marketSlug, homeName, awayName)) {
-              this.gameMappings.set(market.marketSlug, {
-                marketSlug: market.marketSlug,
-                gameId: game.gameId,
-                sport: "NBA",
-              });
-              console.log(`🔗 Mapped ${market.marketSlug} → NBA game ${game.gameId}`);
-            }
-          }
-        }
-      } catch (err) {
-        console.error("⚠️  NBA schedule fetch failed:", err);
-      }
-    }
-
-    // MLB
-    const mlbMarkets = allMarkets.filter((m) => m.sport === "MLB");
-    if (mlbMarkets.length > 0 && this.mlbApi) {
-      try {
-        const games = await this.mlbApi.getGamesByDate(dateStr);
-        for (const game of games) {
-          for (const market of mlbMarkets) {
-            if (this.gameMappings.has(market.marketSlug)) continue;
-            if (this.fuzzyMatchTeams(market.marketSlug, game.teams.home.team.name, game.teams.away.team.name)) {
-              this.gameMappings.set(market.marketSlug, {
-                marketSlug: market.marketSlug,
-                gameId: String(game.gamePk),
-                sport: "MLB",
-              });
-              console.log(`🔗 Mapped ${market.marketSlug} → MLB game ${game.gamePk}`);
-            }
-          }
-        }
-      } catch (err) {
-        console.error("⚠️  MLB schedule fetch failed:", err);
-      }
-    }
-
-    // NFL
-    const nflMarkets = allMarkets.filter((m) => m.sport === "NFL");
-    if (nflMarkets.length > 0 && this.nflApi) {
-      try {
-        const games = await this.nflApi.getTodaysGames();
-        for (const game of games) {
-          for (const market of nflMarkets) {
-            if (this.gameMappings.has(market.marketSlug)) continue;
-            if (this.fuzzyMatchTeams(market.marketSlug, game.homeTeam, game.awayTeam)) {
-              this.gameMappings.set(market.marketSlug, {
-                marketSlug: market.marketSlug,
-                gameId: game.id,
-                sport: "NFL",
-              });
-              console.log(`🔗 Mapped ${market.marketSlug} → NFL game ${game.id}`);
-            }
-          }
-        }
-      } catch (err) {
-        console.error("⚠️  NFL schedule fetch failed:", err);
-      }
-    }
-
-    // CBB (College Basketball) — use ESPN scoreboard for mapping
-    const cbbMarkets = allMarkets.filter((m) => m.sport === "CBB");
-    if (cbbMarkets.length > 0 && this.espnApi) {
-      try {
-        const games = await this.espnApi.getScoreboard("cbb");
-        for (const game of games) {
-          for (const market of cbbMarkets) {
-            if (this.gameMappings.has(market.marketSlug)) continue;
-            // ESPN CBB uses full team names like "USC Trojans", "Penn State Nittany Lions"
-            if (this.fuzzyMatchTeams(market.marketSlug, game.homeTeam.displayName, game.awayTeam.displayName)) {
-              this.gameMappings.set(market.marketSlug, {
-                marketSlug: market.marketSlug,
-                gameId: game.id,
-                sport: "CBB",
-              });
-              console.log(`🔗 Mapped ${market.marketSlug} → CBB game ${game.id} (ESPN)`);
-            }
-          }
-        }
-      } catch (err) {
-        console.error("⚠️  CBB ESPN schedule fetch failed:", err);
-      }
-    }
+    await this.gameEvents?.buildMappings(allMarkets);
   }
 
   private async pollFreeApiEvents() {
-    for (const [marketSlug, mapping] of this.gameMappings.entries()) {
-      // Check backoff before polling
-      const backoffState = this.pbpBackoff.get(mapping.gameId);
-      if (backoffState && Date.now() < backoffState.nextRetryAt) {
-        continue; // Still in backoff, skip this game
-      }
-
-      try {
-        let events: NormalizedGameEvent[] = [];
-
-        if (mapping.sport === "NHL" && this.nhlApi) {
-          events = await this.nhlApi.getPlayByPlay(mapping.gameId);
-        } else if (mapping.sport === "NBA" && this.nbaApi) {
-          events = await this.nbaApi.getPlayByPlay(mapping.gameId);
-        } else if (mapping.sport === "MLB" && this.mlbApi) {
-          events = await this.mlbApi.getPlayByPlay(Number(mapping.gameId));
-        } else if (mapping.sport === "NFL" && this.nflApi) {
-          const nflEvents = await this.nflApi.getPlayByPlay(mapping.gameId);
-          events = nflEvents.map((e) => ({
-            type: (e.type === "goal" || e.type === "penalty" || e.type === "period_start" || e.type === "period_end" || e.type === "shootout") ? e.type : "other" as const,
-            team: e.team,
-            period: e.period,
-            clock: e.clock,
-            description: e.description,
-            timestamp: e.timestamp,
-          }));
-        } else if (mapping.sport === "CBB" && this.espnApi) {
-          events = await this.espnApi.getPlayByPlay("cbb", mapping.gameId);
-        }
-
-        // Success — clear backoff if any
-        if (this.pbpBackoff.has(mapping.gameId)) {
-          console.log(`✅ PBP recovered for ${mapping.sport} game ${mapping.gameId}`);
-          this.pbpBackoff.delete(mapping.gameId);
-        }
-
-        this.processNormalizedEvents(marketSlug, mapping.gameId, events);
-      } catch (err: any) {
-        const statusCode = err?.response?.status || err?.status || 0;
-        const isAuthError = statusCode === 403 || statusCode === 401;
-
-        // Apply exponential backoff for this game ID
-        const existing = this.pbpBackoff.get(mapping.gameId);
-        const newBackoffMs = existing
-          ? Math.min(existing.currentBackoffMs * 2, 300_000) // double, cap at 5min
-          : 30_000; // start at 30s
-        const failCount = existing ? existing.failCount + 1 : 1;
-
-        this.pbpBackoff.set(mapping.gameId, {
-          nextRetryAt: Date.now() + newBackoffMs,
-          currentBackoffMs: newBackoffMs,
-          failCount,
-        });
-
-        // Only log at warn level on first failure to avoid log spam
-        if (failCount === 1) {
-          console.warn(
-            `⚠️  ${mapping.sport} PBP ${isAuthError ? statusCode + " " : ""}error for game ${mapping.gameId} — ` +
-            `backing off ${(newBackoffMs / 1000).toFixed(0)}s: ${err?.message || err}`,
-          );
-        }
-
-        // Try ESPN fallback for score data
-        await this.tryEspnFallback(marketSlug, mapping);
-      }
-    }
+    await this.gameEvents?.pollAll();
   }
 
-  private processNormalizedEvents(marketSlug: string, gameId: string, events: NormalizedGameEvent[]) {
+  /** Persist new events; the first poll of a game loads its history quietly. */
+  private processNormalizedEvents({ marketSlug, gameId, events, initial }: GameEventBatch) {
     const stmt = this.getGameEventStmt();
-    const isFirstPoll = !this.firstPollGames.has(gameId);
-    let newCount = 0;
 
     for (const ev of events) {
-      // Only record significant events
-      if (ev.type === "other") continue;
-
-      const eventKey = `${gameId}:${ev.type}:${ev.period}:${ev.clock}:${ev.team}`;
-      if (this.seenEventKeys.has(eventKey)) continue;
-      this.seenEventKeys.add(eventKey);
-
       const ts = ev.timestamp || Date.now();
       stmt.run(ts, marketSlug, gameId, ev.type, ev.team, String(ev.period), ev.clock, ev.description);
-      newCount++;
 
-      if (!isFirstPoll) {
+      if (!initial) {
         const emoji = ev.type === "goal" ? "🏒" : ev.type === "penalty" ? "⚠️" : "📌";
         console.log(`${emoji} [${marketSlug}] ${ev.type} by ${ev.team} P${ev.period} ${ev.clock}`);
       }
     }
 
-    if (isFirstPoll && newCount > 0) {
-      this.firstPollGames.add(gameId);
-      console.log(`📋 [${marketSlug}] Loaded ${newCount} historical events for game ${gameId}`);
+    if (initial) {
+      console.log(`📋 [${marketSlug}] Loaded ${events.length} historical events for game ${gameId}`);
     }
   }
 
-  private async tryEspnFallback(marketSlug: string, mapping: GameMapping) {
+  private isMapped(marketSlug: string): boolean {
+    return this.gameMappings.has(marketSlug) || !!this.gameEvents?.getMapping(marketSlug);
+  }
+
+  private async tryEspnFallback(marketSlug: string, sport: GameMapping["sport"]) {
     if (!this.espnApi) return;
     try {
-      const sportKey = mapping.sport.toLowerCase() as "nhl" | "nba" | "mlb" | "nfl" | "cbb";
+      const sportKey = sport.toLowerCase() as "nhl" | "nba" | "mlb" | "nfl" | "cbb";
       const scores = await this.espnApi.getScoreboard(sportKey);
       // Just log — ESPN is for fallback awareness, not event recording
       const match = scores.find((g) => {
@@ -751,178 +570,6 @@ export class NhlShockRecorder {
     }
   }
 
-  /* ─── Fuzzy team matching ────────────────────────────────────────── */
-
-  private fuzzyMatchTeams(slug: string, homeTeamName: string, awayTeamName: string): boolean {
-    const lowerSlug = slug.toLowerCase();
-    const homeLower = (homeTeamName || "").toLowerCase();
-    const awayLower = (awayTeamName || "").toLowerCase();
-
-    // Team abbreviation map (slug abbrev → possible team name fragments)
-    const TEAM_ABBREVS: Record<string, string[]> = {
-      // NBA
-      atl: ["hawks", "atlanta"], bos: ["celtics", "boston"], bkn: ["nets", "brooklyn"],
-      cha: ["hornets", "charlotte"], chi: ["bulls", "chicago"], cle: ["cavaliers", "cleveland"],
-      dal: ["mavericks", "dallas"], den: ["nuggets", "denver"], det: ["pistons", "detroit"],
-      gsw: ["warriors", "golden state"], hou: ["rockets", "houston"], ind: ["pacers", "indiana"],
-      lac: ["clippers", "la clippers"], lal: ["lakers", "los angeles lakers"],
-      mem: ["grizzlies", "memphis"], mia: ["heat", "miami"], mil: ["bucks", "milwaukee"],
-      min: ["timberwolves", "minnesota"], nop: ["pelicans", "new orleans"],
-      nyk: ["knicks", "new york knicks"], okc: ["thunder", "oklahoma"],
-      orl: ["magic", "orlando"], phi: ["76ers", "philadelphia", "sixers"],
-      phx: ["suns", "phoenix"], por: ["trail blazers", "blazers", "portland"],
-      sac: ["kings", "sacramento"], sas: ["spurs", "san antonio"],
-      tor: ["raptors", "toronto"], uta: ["jazz", "utah"], was: ["wizards", "washington"],
-      // NHL
-      ana: ["ducks", "anaheim"], ari: ["coyotes", "arizona"], buf: ["sabres", "buffalo"],
-      car: ["hurricanes", "carolina"], cbj: ["blue jackets", "columbus"],
-      cgy: ["flames", "calgary"], col: ["avalanche", "colorado"],
-      dal: ["stars", "dallas"], edm: ["oilers", "edmonton"], fla: ["panthers", "florida"],
-      lak: ["kings", "los angeles kings"], mtl: ["canadiens", "montreal"],
-      njd: ["devils", "new jersey"], nsh: ["predators", "nashville"],
-      nyi: ["islanders", "new york islanders"], nyr: ["rangers", "new york rangers"],
-      ott: ["senators", "ottawa"], pit: ["penguins", "pittsburgh"],
-      sea: ["kraken", "seattle"], stl: ["blues", "st. louis", "st louis"],
-      tbl: ["lightning", "tampa bay"], van: ["canucks", "vancouver"],
-      vgk: ["golden knights", "vegas"], wpg: ["jets", "winnipeg"],
-      wsh: ["capitals", "washington"],
-      // NFL
-      ne: ["patriots", "new england"], sf: ["49ers", "san francisco"],
-      gb: ["packers", "green bay"], kc: ["chiefs", "kansas city"],
-      tb: ["buccaneers", "tampa bay"], no: ["saints", "new orleans"],
-      nyg: ["giants", "new york giants"], nyj: ["jets", "new york jets"],
-      // MLB
-      nym: ["mets", "new york mets"], chc: ["cubs", "chicago cubs"],
-      chw: ["white sox", "chicago white sox"], tex: ["rangers", "texas"],
-      sd: ["padres", "san diego"], bal: ["orioles", "baltimore"],
-      cws: ["white sox", "chicago white sox"],
-    };
-
-    // Extract slug parts (e.g. "nba-mia-bos-2026-02-06" → ["mia", "bos"])
-    const slugParts = lowerSlug.split("-");
-    // Sport prefix is first, date parts are last 3, team abbrevs are in between
-    const teamAbbrevs = slugParts.slice(1, -3);
-
-    if (teamAbbrevs.length < 2) {
-      // Fallback: check if any word from team names appears in slug
-      const homeWords = homeLower.split(/\s+/);
-      const awayWords = awayLower.split(/\s+/);
-      const homeMatch = homeWords.some((w) => w.length > 2 && lowerSlug.includes(w));
-      const awayMatch = awayWords.some((w) => w.length > 2 && lowerSlug.includes(w));
-      return homeMatch && awayMatch;
-    }
-
-    // For each abbrev in slug, check if it matches one of the team names
-    let homeMatched = false;
-    let awayMatched = false;
-
-    for (const abbrev of teamAbbrevs) {
-      const possibleNames = TEAM_ABBREVS[abbrev] || [abbrev];
-      for (const name of possibleNames) {
-        if (homeLower.includes(name) || name.includes(homeLower.split(/\s+/).pop() || "")) {
-          homeMatched = true;
-        }
-        if (awayLower.includes(name) || name.includes(awayLower.split(/\s+/).pop() || "")) {
-          awayMatched = true;
-        }
-      }
-      // Also direct abbrev check (e.g. team tricode)
-      if (homeLower.includes(abbrev) || abbrev === homeLower.substring(0, 3)) homeMatched = true;
-      if (awayLower.includes(abbrev) || abbrev === awayLower.substring(0, 3)) awayMatched = true;
-
-      // CBB/CFB: slug abbrevs are often compressed school names (e.g. "pennst" = "penn state",
-      // "txtech" = "texas tech", "ohiost" = "ohio state", "wvir" = "west virginia")
-      // Try matching by concatenating consecutive words from team name and checking prefix
-      if (!homeMatched) {
-        homeMatched = this.fuzzyAbbrevMatch(abbrev, homeLower);
-      }
-      if (!awayMatched) {
-        awayMatched = this.fuzzyAbbrevMatch(abbrev, awayLower);
-      }
-    }
-
-    return homeMatched && awayMatched;
-  }
-
-  /**
-   * Fuzzy match a slug abbreviation against a team name.
-   * Handles compressed school names like "pennst" → "penn state",
-   * "txtech" → "texas tech", "ohiost" → "ohio state", "wvir" → "west virginia",
-   * "mich" → "michigan", "cin" → "cincinnati", etc.
-   *
-   * Strategy: check if the abbrev is a prefix of any word, or a concatenation of
-   * prefixes of consecutive words in the team name.
-   */
-  private fuzzyAbbrevMatch(abbrev: string, teamNameLower: string): boolean {
-    const words = teamNameLower.split(/\s+/);
-
-    // 1) Direct: abbrev is a prefix of any single word (e.g. "mich" → "michigan")
-    if (words.some(w => w.startsWith(abbrev) && abbrev.length >= 3)) return true;
-
-    // 1b) Word starts with abbrev OR abbrev is a consonant-heavy truncation
-    // e.g. "charlt" → "charlotte", "mphs" → "memphis"
-    // Check if removing vowels from a word prefix matches
-    for (const w of words) {
-      if (w.length < 4) continue;
-      // Check if abbrev matches a truncation of the word (allowing vowel drops)
-      // Simple: check if all chars of abbrev appear in order within the word
-      let wi = 0;
-      let ai = 0;
-      while (wi < w.length && ai < abbrev.length) {
-        if (w[wi] === abbrev[ai]) ai++;
-        wi++;
-      }
-      if (ai === abbrev.length && abbrev.length >= 3) return true;
-    }
-
-    // 2) Concatenated prefixes of consecutive words
-    // e.g. "pennst" = "penn" + "st" from "penn state"
-    // e.g. "txtech" = we'd need "texas tech" → won't match directly, so also check abbreviation-style
-    for (let i = 0; i < words.length - 1; i++) {
-      for (let prefixLen = 2; prefixLen <= Math.min(words[i].length, abbrev.length - 1); prefixLen++) {
-        const firstPart = words[i].substring(0, prefixLen);
-        if (abbrev.startsWith(firstPart)) {
-          const rest = abbrev.substring(prefixLen);
-          // Check if rest matches start of next word(s)
-          for (let j = i + 1; j < words.length; j++) {
-            if (words[j].startsWith(rest) && rest.length >= 1) return true;
-          }
-        }
-      }
-    }
-
-    // 3) Special common abbreviation patterns for US states/schools
-    const STATE_ABBREVS: Record<string, string> = {
-      "tx": "texas", "nc": "north carolina", "sc": "south carolina",
-      "wv": "west virginia", "nm": "new mexico", "nd": "north dakota",
-      "sd": "south dakota", "nw": "northwestern", "ne": "nebraska",
-    };
-    for (const [prefix, fullName] of Object.entries(STATE_ABBREVS)) {
-      if (abbrev.startsWith(prefix) && teamNameLower.includes(fullName)) {
-        // Check if the rest of the abbrev matches a word in the team name after the state
-        const rest = abbrev.substring(prefix.length);
-        if (rest.length === 0) return true;
-        const afterState = teamNameLower.substring(teamNameLower.indexOf(fullName) + fullName.length).trim();
-        const afterWords = afterState.split(/\s+/);
-        if (afterWords.some(w => w.startsWith(rest) && rest.length >= 1)) return true;
-        // Also check if rest is a subsequence of the first word after the state name
-        // e.g. "wvir" → rest "ir" is subsequence of "mountaineers"? No. 
-        // But "wvir" → "west virginia" itself contains "ir" → check if rest appears anywhere in remaining name
-        if (rest.length >= 2 && afterState.includes(rest)) return true;
-        // Or rest is subsequence of any word
-        for (const aw of afterWords) {
-          let ri = 0;
-          for (let ci = 0; ci < aw.length && ri < rest.length; ci++) {
-            if (aw[ci] === rest[ri]) ri++;
-          }
-          if (ri === rest.length && rest.length >= 2) return true;
-        }
-      }
-    }
-
-    return false;
-  }
-
   /* ─── Health monitoring ────────────────────────────────────────────── */
 
   private startHealthMonitor() {
@@ -991,8 +638,8 @@ export class NhlShockRecorder {
       lastSnapshotTime: this.lastSnapshotTime,
       snapshotsPerMinute: Math.round(snapshotsPerMinute * 10) / 10,
       activeMarkets: this.markets.size,
-      gameMappings: this.gameMappings.size,
-      pbpBackoffGames: this.pbpBackoff.size,
+      gameMappings: this.gameMappings.size + (this.gameEvents?.getStats().mappings ?? 0),
+      pbpBackoffGames: this.gameEvents?.getStats().backoffGames ?? 0,
       dataSource: this.dataSource,
     };
   }
@@ -1101,5 +748,13 @@ export class NhlShockRecorder {
       outcome2: market.outcomes[1],
     };
     fs.appendFileSync(this.alertFilePath, JSON.stringify(payload) + "\n");
+    this.alerter?.raise({
+      severity: "INFO",
+      title: "New live market",
+      message: `${market.sport} ${market.outcomes[0]} vs ${market.outcomes[1]} (${market.marketSlug})`,
+      source: "NhlShockRecorder",
+      key: `NhlShockRecorder:market:${market.marketSlug}`,
+      context: payload,
+    });
   }
 }
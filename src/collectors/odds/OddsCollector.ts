@@ -0,0 +1,389 @@
+/**
+ * OddsCollector — persists sportsbook lines and Polymarket books to Postgres
+ * (scripts/sql/odds_schema.sql) for offline spread analysis.
+ *
+ *   SportsMarketDiscovery ──▶ poly_events   (one row per market, linked to an odds event)
+ *   PinnacleOddsClient    ──▶ odds_events + odds_lines (every oddsPollMs)
+ *   OrderBookWebSocket    ──▶ poly_books    (best bid/ask + VWAP for vwapShares, every bookSampleMs)
+ *
+ * Markets are matched to odds events by sport and team names (either home/away
+ * order). Unmatched markets are still stored in poly_events but their books
+ * are not sampled.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { Pool } from "pg";
+import { OrderBookData, OrderBookWebSocket } from "../../services/OrderBookWS";
+import { SportsMarketDiscovery, SportsMarket } from "../../services/SportsMarketDiscovery";
+import {
+  PinnacleOddsClient,
+  PinnacleOdds,
+  SupportedSport,
+  SPORT_KEYS,
+  teamsMatch,
+} from "../../services/PinnacleOddsClient";
+
+export type OddsCollectorConfig = {
+  /** Postgres connection string */
+  pgUrl: string;
+  /** poly_books sampling interval (ms). Default 10000. */
+  bookSampleMs?: number;
+  /** Odds polling interval (ms). Default 60000 — 1 credit per sport per poll. */
+  oddsPollMs?: number;
+  discoveryIntervalMs?: number;
+  /** Order size used for the VWAP columns (shares). Default 100. */
+  vwapShares?: number;
+  /** Bookmaker name written to odds_lines. Default "pinnacle". */
+  bookmaker?: string;
+  /** Override for the schema file (default: scripts/sql/odds_schema.sql) */
+  schemaPath?: string;
+};
+
+/** What the collector needs from an odds provider */
+export type OddsSource = Pick<PinnacleOddsClient, "getMoneylineOdds">;
+
+/** What the collector needs from a book feed */
+export type BookSource = Pick<OrderBookWebSocket, "getOrderBook">;
+
+export type BookSample = {
+  bestBid: number;
+  bestAsk: number;
+  vwapBuy: number;
+  vwapSell: number;
+};
+
+export type MappedEvent = {
+  marketSlug: string;
+  sport: string;
+  providerEventId: string;
+  homeTeam: string;
+  awayTeam: string;
+  commenceTime: Date;
+  outcomeA: string;
+  outcomeB: string;
+  tokenA: string;
+  tokenB: string;
+};
+
+export type OddsLineRow = {
+  providerEventId: string;
+  bookmaker: string;
+  homeOdds: number;
+  awayOdds: number;
+  ts: Date;
+};
+
+/** One poly_books sample joined with the latest line at or before it */
+export type SpreadPoint = {
+  ts: Date;
+  tokenId: string;
+  outcome: string;
+  bestBid: number;
+  bestAsk: number;
+  vwapBuy: number;
+  vwapSell: number;
+  /** De-vigged sportsbook probability for this outcome (null if no line yet) */
+  fair: number | null;
+  /** (mid − fair) in cents */
+  spreadCents: number | null;
+};
+
+const DEFAULT_SCHEMA_PATH = path.resolve(__dirname, "../../../scripts/sql/odds_schema.sql");
+
+/**
+ * Best bid/ask and the VWAP to buy (walk asks) / sell (walk bids) `shares`.
+ * If the book is thinner than `shares`, VWAP covers the displayed depth only.
+ * Returns null when either side is empty.
+ */
+export function sampleBook(book: OrderBookData | null, shares: number): BookSample | null {
+  if (!book || book.bids.length === 0 || book.asks.length === 0) return null;
+
+  // OrderBookWebSocket keeps the best level LAST on both sides
+  const parse = (l: { price: string; size: string }) => ({ price: parseFloat(l.price), size: parseFloat(l.size) });
+  const bids = [...book.bids].reverse().map(parse);
+  const asks = [...book.asks].reverse().map(parse);
+
+  const vwap = (levels: { price: number; size: number }[]): number => {
+    let remaining = shares;
+    let cost = 0;
+    let filled = 0;
+    for (const l of levels) {
+      if (remaining <= 0) break;
+      const take = Math.min(l.size, remaining);
+      cost += take * l.price;
+      filled += take;
+      remaining -= take;
+    }
+    return filled > 0 ? cost / filled : levels[0].price;
+  };
+
+  return { bestBid: bids[0].price, bestAsk: asks[0].price, vwapBuy: vwap(asks), vwapSell: vwap(bids) };
+}
+
+export class OddsCollector {
+  private pool: Pool;
+  private odds: OddsSource;
+  private config: Required<OddsCollectorConfig>;
+  private discovery: SportsMarketDiscovery | null = null;
+  private ws: OrderBookWebSocket | null = null;
+
+  private markets: Map<string, SportsMarket> = new Map();
+  private eventByMarket: Map<string, string> = new Map(); // marketSlug → provider_event_id
+
+  private discoveryTimer: NodeJS.Timeout | null = null;
+  private oddsTimer: NodeJS.Timeout | null = null;
+  private bookTimer: NodeJS.Timeout | null = null;
+
+  constructor(config: OddsCollectorConfig, odds: OddsSource = new PinnacleOddsClient()) {
+    this.config = {
+      pgUrl: config.pgUrl,
+      bookSampleMs: config.bookSampleMs ?? 10_000,
+      oddsPollMs: config.oddsPollMs ?? 60_000,
+      discoveryIntervalMs: config.discoveryIntervalMs ?? 5 * 60_000,
+      vwapShares: config.vwapShares ?? 100,
+      bookmaker: config.bookmaker ?? "pinnacle",
+      schemaPath: config.schemaPath ?? DEFAULT_SCHEMA_PATH,
+    };
+    this.pool = new Pool({ connectionString: this.config.pgUrl });
+    this.odds = odds;
+  }
+
+  /* ─── Lifecycle ──────────────────────────────────────────────────── */
+
+  /** Create tables if needed (idempotent). */
+  async init(): Promise<void> {
+    await this.pool.query(fs.readFileSync(this.config.schemaPath, "utf8"));
+  }
+
+  async start(): Promise<void> {
+    await this.init();
+
+    this.discovery = new SportsMarketDiscovery(this.config.discoveryIntervalMs);
+    await this.refreshMarkets();
+
+    const tokenIds = Array.from(this.markets.values()).flatMap((m) => m.tokenIds);
+    this.ws = new OrderBookWebSocket(tokenIds.length > 0 ? tokenIds : ["placeholder"]);
+    await this.ws.connect();
+
+    await this.pollOdds();
+
+    this.discoveryTimer = setInterval(() => {
+      this.refreshMarkets().catch((err) => console.error("❌ Discovery failed:", err.message));
+    }, this.config.discoveryIntervalMs);
+    this.oddsTimer = setInterval(() => {
+      this.pollOdds().catch((err) => console.error("❌ Odds poll failed:", err.message));
+    }, this.config.oddsPollMs);
+    this.bookTimer = setInterval(() => {
+      if (this.ws) this.sampleBooks(this.ws).catch((err) => console.error("❌ Book sample failed:", err.message));
+    }, this.config.bookSampleMs);
+  }
+
+  async stop(): Promise<void> {
+    for (const t of [this.discoveryTimer, this.oddsTimer, this.bookTimer]) {
+      if (t) clearInterval(t);
+    }
+    this.discoveryTimer = this.oddsTimer = this.bookTimer = null;
+    if (this.ws) {
+      this.ws.disconnect();
+      this.ws = null;
+    }
+    await this.pool.end();
+  }
+
+  private async refreshMarkets(): Promise<void> {
+    if (!this.discovery) return;
+    const discovered = await this.discovery.discoverMarkets();
+    const added = await this.syncMarkets(discovered);
+    if (this.ws && added.length > 0) this.ws.addTokens(added.flatMap((m) => m.tokenIds));
+  }
+
+  /* ─── Recording ──────────────────────────────────────────────────── */
+
+  /**
+   * Track markets of supported sports and upsert them into poly_events.
+   * Returns the markets that were not tracked before.
+   */
+  async syncMarkets(markets: SportsMarket[]): Promise<SportsMarket[]> {
+    const added: SportsMarket[] = [];
+    for (const m of markets) {
+      if (!(m.sport in SPORT_KEYS) || m.outcomes.length < 2 || m.tokenIds.length < 2) continue;
+      if (this.markets.has(m.marketSlug)) continue;
+
+      await this.pool.query(
+        `insert into poly_events (market_slug, sport, game_start_time, outcome_a, outcome_b, token_a, token_b)
+         values ($1, $2, $3, $4, $5, $6, $7)
+         on conflict (market_slug) do update set game_start_time = excluded.game_start_time`,
+        [m.marketSlug, m.sport, m.gameStartTime, m.outcomes[0], m.outcomes[1], m.tokenIds[0], m.tokenIds[1]],
+      );
+      this.markets.set(m.marketSlug, m);
+      added.push(m);
+    }
+    return added;
+  }
+
+  /**
+   * Fetch lines for every sport with tracked markets, write odds_events /
+   * odds_lines, and link markets to their odds event.
+   */
+  async pollOdds(): Promise<number> {
+    const sports = new Set(Array.from(this.markets.values()).map((m) => m.sport as SupportedSport));
+    let lines = 0;
+
+    for (const sport of sports) {
+      const games = await this.odds.getMoneylineOdds(sport);
+      for (const game of games) {
+        await this.recordLine(game);
+        lines++;
+
+        for (const m of this.markets.values()) {
+          if (m.sport !== sport || this.eventByMarket.get(m.marketSlug) === game.eventId) continue;
+          if (!matchesGame(m, game)) continue;
+          await this.pool.query(`update poly_events set provider_event_id = $1 where market_slug = $2`, [
+            game.eventId,
+            m.marketSlug,
+          ]);
+          this.eventByMarket.set(m.marketSlug, game.eventId);
+        }
+      }
+    }
+    return lines;
+  }
+
+  /**
+   * Upsert the odds event and store its line. `ts` is the bookmaker's update
+   * time, so a poll that sees an unchanged line writes nothing.
+   */
+  private async recordLine(game: PinnacleOdds): Promise<void> {
+    await this.pool.query(
+      `insert into odds_events (provider_event_id, sport_key, commence_time, home_team, away_team)
+       values ($1, $2, $3, $4, $5)
+       on conflict (provider_event_id) do update set commence_time = excluded.commence_time`,
+      [game.eventId, game.sportKey, game.commenceTime, game.homeTeam, game.awayTeam],
+    );
+    await this.pool.query(
+      `insert into odds_lines (provider_event_id, bookmaker, home_odds, away_odds, ts) values ($1, $2, $3, $4, $5)
+       on conflict (provider_event_id, bookmaker, ts) do nothing`,
+      [game.eventId, this.config.bookmaker, game.homePrice, game.awayPrice, game.lastUpdate],
+    );
+  }
+
+  /** Write one poly_books row per token of every market linked to an odds event. */
+  async sampleBooks(books: BookSource, ts: Date = new Date()): Promise<number> {
+    let rows = 0;
+    for (const slug of this.eventByMarket.keys()) {
+      const market = this.markets.get(slug);
+      if (!market) continue;
+
+      for (const tokenId of market.tokenIds.slice(0, 2)) {
+        const sample = sampleBook(books.getOrderBook(tokenId), this.config.vwapShares);
+        if (!sample) continue;
+        await this.pool.query(
+          `insert into poly_books (token_id, ts, best_bid, best_ask, vwap_buy, vwap_sell, size_shares)
+           values ($1, $2, $3, $4, $5, $6, $7)`,
+          [tokenId, ts, sample.bestBid, sample.bestAsk, sample.vwapBuy, sample.vwapSell, this.config.vwapShares],
+        );
+        rows++;
+      }
+    }
+    return rows;
+  }
+
+  /* ─── Queries ────────────────────────────────────────────────────── */
+
+  /** Markets linked to an odds event. */
+  async getMappedEvents(): Promise<MappedEvent[]> {
+    const { rows } = await this.pool.query(
+      `select p.market_slug, p.sport, p.provider_event_id, o.home_team, o.away_team, o.commence_time,
+              p.outcome_a, p.outcome_b, p.token_a, p.token_b
+         from poly_events p
+         join odds_events o on o.provider_event_id = p.provider_event_id
+        order by o.commence_time`,
+    );
+    return rows.map((r) => ({
+      marketSlug: r.market_slug,
+      sport: r.sport,
+      providerEventId: r.provider_event_id,
+      homeTeam: r.home_team,
+      awayTeam: r.away_team,
+      commenceTime: r.commence_time,
+      outcomeA: r.outcome_a,
+      outcomeB: r.outcome_b,
+      tokenA: r.token_a,
+      tokenB: r.token_b,
+    }));
+  }
+
+  /** Line history for an odds event, oldest first. */
+  async getLines(providerEventId: string, since?: Date): Promise<OddsLineRow[]> {
+    const { rows } = await this.pool.query(
+      `select provider_event_id, bookmaker, home_odds, away_odds, ts
+         from odds_lines
+        where provider_event_id = $1 and ts >= $2
+        order by ts`,
+      [providerEventId, since ?? new Date(0)],
+    );
+    return rows.map((r) => ({
+      providerEventId: r.provider_event_id,
+      bookmaker: r.bookmaker,
+      homeOdds: parseFloat(r.home_odds),
+      awayOdds: parseFloat(r.away_odds),
+      ts: r.ts,
+    }));
+  }
+
+  /**
+   * Polymarket-vs-sportsbook spread for both outcomes of a market: each
+   * poly_books sample paired with the latest line at or before it.
+   */
+  async getSpreadSeries(marketSlug: string, since?: Date): Promise<SpreadPoint[]> {
+    const { rows } = await this.pool.query(
+      `select b.ts, b.token_id, b.best_bid, b.best_ask, b.vwap_buy, b.vwap_sell,
+              p.token_a, p.outcome_a, p.outcome_b, o.home_team,
+              l.home_odds, l.away_odds
+         from poly_events p
+         join odds_events o on o.provider_event_id = p.provider_event_id
+         join poly_books b on b.token_id in (p.token_a, p.token_b) and b.ts >= $2
+         left join lateral (
+           select home_odds, away_odds from odds_lines
+            where provider_event_id = p.provider_event_id and ts <= b.ts
+            order by ts desc limit 1
+         ) l on true
+        where p.market_slug = $1
+        order by b.ts, b.token_id`,
+      [marketSlug, since ?? new Date(0)],
+    );
+
+    return rows.map((r) => {
+      const outcome: string = r.token_id === r.token_a ? r.outcome_a : r.outcome_b;
+      const bestBid = parseFloat(r.best_bid);
+      const bestAsk = parseFloat(r.best_ask);
+
+      let fair: number | null = null;
+      if (r.home_odds !== null) {
+        const [homeFair, awayFair] = PinnacleOddsClient.devig([parseFloat(r.home_odds), parseFloat(r.away_odds)]);
+        fair = teamsMatch(r.home_team, outcome) ? homeFair : awayFair;
+      }
+
+      return {
+        ts: r.ts,
+        tokenId: r.token_id,
+        outcome,
+        bestBid,
+        bestAsk,
+        vwapBuy: parseFloat(r.vwap_buy),
+        vwapSell: parseFloat(r.vwap_sell),
+        fair,
+        spreadCents: fair === null ? null : PinnacleOddsClient.getOvershoot((bestBid + bestAsk) / 2, fair),
+      };
+    });
+  }
+}
+
+function matchesGame(market: SportsMarket, game: PinnacleOdds): boolean {
+  const [a, b] = market.outcomes;
+  return (
+    (teamsMatch(game.homeTeam, a) && teamsMatch(game.awayTeam, b)) ||
+    (teamsMatch(game.homeTeam, b) && teamsMatch(game.awayTeam, a))
+  );
+}
@@ -8,8 +8,13 @@
  *
  * v2: Redesigned with expanded live game cards, session log, and
  *     event-based messaging (market_update, shock_detected, etc.)
+ *
+ * Live mode: /api/control/* is the kill switch (LiveControl) — status and
+ * audit (GET), pause / resume / flatten / flatten-all (POST), all behind
+ * `Authorization: Bearer $SHOCK_CONTROL_TOKEN`.
  */
 
+import * as crypto from "crypto";
 import * as http from "http";
 import * as fs from "fs";
 import * as path from "path";
@@ -27,6 +32,8 @@ import {
 } from "../strategies/ShockFadePaper";
 import { SportsMarket } from "../services/SportsMarketDiscovery";
 import { WalletBalanceService, WalletBalanceData } from "../services/WalletBalanceService";
+import { RiskEngine } from "../services/RiskEngine";
+import { LiveControl } from "../services/LiveControl";
 
 // ============================================================================
 // TYPES
@@ -133,6 +140,13 @@ export class ShockFadeDashboardServer {
   private walletService: WalletBalanceService | null = null;
   private lastWalletData: WalletBalanceData | null = null;
 
+  // Portfolio risk engine (live mode) — limit utilization for /api/risk
+  private riskEngine: RiskEngine | null = null;
+
+  // Kill switch (live mode) — /api/control/*, bearer-token authenticated
+  private control: LiveControl | null = null;
+  private controlToken: string | null = null;
+
   constructor(config: ShockFadeDashboardConfig = {}) {
     this.config = {
       port: config.port ?? 3032,
@@ -170,6 +184,19 @@ export class ShockFadeDashboardServer {
     });
   }
 
+  setRiskEngine(engine: RiskEngine): void {
+    this.riskEngine = engine;
+  }
+
+  /**
+   * Enable the control API. Every /api/control/* request must carry
+   * `Authorization: Bearer <token>`; without a token the API stays disabled.
+   */
+  setControl(control: LiveControl, token: string | null): void {
+    this.control = control;
+    this.controlToken = token || null;
+  }
+
   updateMarket(market: SportsMarket): void {
     this.markets.set(market.marketSlug, market);
   }
@@ -236,9 +263,10 @@ export class ShockFadeDashboardServer {
       timestamp: Date.now(),
     });
     const magCents = (shock.magnitude * 100).toFixed(1);
+    const volume = shock.takerVolume !== undefined ? `, vol ${shock.takerVolume.toFixed(0)}` : "";
     this.addLog(
       "SHOCK",
-      `${shock.marketSlug}: ${shock.direction === "up" ? "↑" : "↓"}${magCents}¢ (${shock.zScore.toFixed(1)}σ) → ${shock.classification || "unclassified"}`,
+      `${shock.marketSlug}: ${shock.direction === "up" ? "↑" : "↓"}${magCents}¢ (${shock.zScore.toFixed(1)}σ${volume}) → ${shock.classification || "unclassified"}`,
     );
   }
 
@@ -409,6 +437,8 @@ export class ShockFadeDashboardServer {
       gameEvents: Object.fromEntries(this.gameEvents),
       startedAt: this.startedAt,
       wallet: this.lastWalletData ?? this.walletService?.getData() ?? null,
+      risk: this.riskEngine?.getSnapshot() ?? null,
+      control: this.control?.getStatus() ?? null,
     };
   }
 
@@ -537,8 +567,8 @@ export class ShockFadeDashboardServer {
 
     // CORS
     res.setHeader("Access-Control-Allow-Origin", "*");
-    res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
-    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization, X-Operator");
 
     if (req.method === "OPTIONS") {
       res.writeHead(204);
@@ -546,6 +576,12 @@ export class ShockFadeDashboardServer {
       return;
     }
 
+    // Control API (authenticated, may POST)
+    if (pathname.startsWith("/api/control/")) {
+      this.handleControl(req, res, url).catch((err) => this.sendJson(res, 500, { error: String(err) }));
+      return;
+    }
+
     // API
     if (pathname.startsWith("/api/")) {
       this.handleApi(req, res, pathname);
@@ -591,6 +627,9 @@ export class ShockFadeDashboardServer {
         case "/api/log":
           this.sendJson(res, 200, this.sessionLog.slice(-200));
           break;
+        case "/api/risk":
+          this.sendJson(res, 200, this.riskEngine?.getSnapshot() ?? null);
+          break;
         default:
           this.sendJson(res, 404, { error: "Not found" });
       }
@@ -599,6 +638,110 @@ export class ShockFadeDashboardServer {
     }
   }
 
+  // ============================================================================
+  // CONTROL API
+  // ============================================================================
+
+  private async handleControl(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    url: URL,
+  ): Promise<void> {
+    if (!this.control || !this.controlToken) {
+      this.sendJson(res, 503, { error: "Control API disabled (set SHOCK_CONTROL_TOKEN)" });
+      return;
+    }
+    if (!this.isAuthorized(req)) {
+      this.log(`🛡️ Unauthorized control request: ${req.method} ${url.pathname} from ${req.socket.remoteAddress}`);
+      this.sendJson(res, 401, { error: "Unauthorized" });
+      return;
+    }
+    const operator = String(req.headers["x-operator"] || "api").slice(0, 64);
+
+    if (req.method === "GET") {
+      switch (url.pathname) {
+        case "/api/control/status":
+          this.sendJson(res, 200, this.control.getStatus());
+          return;
+        case "/api/control/audit":
+          this.sendJson(res, 200, this.control.getAudit(parseInt(url.searchParams.get("limit") || "50", 10) || 50));
+          return;
+      }
+    }
+
+    if (req.method !== "POST") {
+      this.sendJson(res, req.method === "GET" ? 404 : 405, { error: req.method === "GET" ? "Not found" : "Use POST" });
+      return;
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await this.readJsonBody(req);
+    } catch (err) {
+      this.sendJson(res, 400, { error: String(err) });
+      return;
+    }
+    const str = (key: string) => (typeof body[key] === "string" && body[key] ? (body[key] as string) : undefined);
+
+    let entry;
+    switch (url.pathname) {
+      case "/api/control/pause":
+        entry = this.control.pause(operator, str("reason"));
+        break;
+      case "/api/control/resume":
+        entry = this.control.resume(operator, { marketSlug: str("marketSlug"), breakerScope: str("breakerScope") });
+        break;
+      case "/api/control/flatten": {
+        const marketSlug = str("marketSlug");
+        if (!marketSlug) {
+          this.sendJson(res, 400, { error: "marketSlug is required" });
+          return;
+        }
+        entry = await this.control.flattenMarket(operator, marketSlug, str("reason"));
+        break;
+      }
+      case "/api/control/flatten-all":
+        entry = await this.control.flattenAll(operator, str("reason"));
+        break;
+      default:
+        this.sendJson(res, 404, { error: "Not found" });
+        return;
+    }
+    this.addLog("SYS", `Control: ${entry.action} by ${entry.operator} — ${entry.detail}`);
+    this.sendJson(res, entry.ok ? 200 : 409, entry);
+  }
+
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    const header = req.headers.authorization ?? "";
+    const presented = Buffer.from(header.startsWith("Bearer ") ? header.slice(7) : "");
+    const expected = Buffer.from(this.controlToken ?? "");
+    return expected.length > 0 && presented.length === expected.length && crypto.timingSafeEqual(presented, expected);
+  }
+
+  private readJsonBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+    return new Promise((resolve, reject) => {
+      let data = "";
+      req.on("data", (chunk) => {
+        data += chunk;
+        if (data.length > 64 * 1024) {
+          reject(new Error("Body too large"));
+          req.destroy();
+        }
+      });
+      req.on("end", () => {
+        if (!data.trim()) return resolve({});
+        try {
+          const parsed = JSON.parse(data);
+          if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) resolve(parsed);
+          else reject(new Error("Body must be a JSON object"));
+        } catch {
+          reject(new Error("Invalid JSON body"));
+        }
+      });
+      req.on("error", reject);
+    });
+  }
+
   private sendJson(
     res: http.ServerResponse,
     status: number,
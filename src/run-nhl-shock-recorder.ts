@@ -1,4 +1,5 @@
 import { NhlShockRecorder } from "./collectors/nhl/NhlShockRecorder";
+import { alerterFromEnv } from "./services/AlertSinks";
 import * as dotenv from "dotenv";
 
 dotenv.config();
@@ -19,6 +20,9 @@ async function main() {
     useSportradar,
   });
 
+  const alerter = alerterFromEnv();
+  recorder.setAlerter(alerter);
+
   await recorder.start();
 
   const dataSource = recorder.getDataSource();
@@ -37,7 +41,7 @@ async function main() {
   process.on("SIGINT", () => {
     console.log("\nShutting down recorder...");
     recorder.stop();
-    process.exit(0);
+    alerter.flush().finally(() => process.exit(0));
   });
 }
 
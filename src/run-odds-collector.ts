@@ -0,0 +1,38 @@
+import { OddsCollector } from "./collectors/odds/OddsCollector";
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+async function main() {
+  const pgUrl = process.env.ODDS_PG_URL || process.env.DATABASE_URL;
+  if (!pgUrl) {
+    console.error("❌ ODDS_PG_URL (or DATABASE_URL) not set");
+    process.exit(1);
+  }
+  if (!process.env.THE_ODDS_API_KEY) {
+    console.error("❌ THE_ODDS_API_KEY not set — see docs/PINNACLE_INTEGRATION.md");
+    process.exit(1);
+  }
+
+  const collector = new OddsCollector({
+    pgUrl,
+    bookSampleMs: Number(process.env.ODDS_BOOK_SAMPLE_MS) || 10_000,
+    oddsPollMs: Number(process.env.ODDS_POLL_MS) || 60_000,
+    vwapShares: Number(process.env.ODDS_VWAP_SHARES) || 100,
+  });
+
+  await collector.start();
+  console.log(`✅ Odds collector started`);
+  console.log(`   Tables: odds_events, odds_lines, poly_events, poly_books`);
+
+  process.on("SIGINT", async () => {
+    console.log("\nShutting down odds collector...");
+    await collector.stop();
+    process.exit(0);
+  });
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
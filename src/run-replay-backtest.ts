@@ -0,0 +1,133 @@
+/**
+ * run-replay-backtest.ts — Replay recorded NhlShockRecorder data through the
+ * real ShockFadeDetector + ShockFadeLive (see backtest/replay/ReplayBacktest.ts).
+ *
+ * Strategy parameters come from the same SHOCK_* env vars the live bot reads,
+ * so a backtest and a live session can share one .env. REPLAY_FILL_MODEL picks
+ * how resting ladder orders fill: "queue" (default) or "touch" (legacy).
+ *
+ * CLI args:
+ *   --db PATH          Recorder SQLite DB (default: $NHL_SHOCK_DB or ./data/nhl_shock.db)
+ *   --market SLUG      Only replay this market (repeatable)
+ *   --out PATH         Write the full result (stats + trade records) as JSON
+ *   --verbose          Show detector/trader logs during the replay
+ *
+ * Usage:
+ *   npm run replay:backtest -- --db ./data/nhl_shock.db --out ./data/replay.json
+ */
+
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+dotenv.config();
+
+import { ReplayBacktest } from "./backtest/replay/ReplayBacktest";
+import { ShockFadeLiveConfig } from "./strategies/ShockFadeLive";
+import { shockModelsFromEnv } from "./strategies/ShockModels";
+
+function envNum(key: string, fallback: number): number {
+  const v = process.env[key];
+  return v ? parseFloat(v) : fallback;
+}
+
+function parseArgs(): { dbPath: string; markets: string[]; outPath: string | null; verbose: boolean } {
+  const args = process.argv.slice(2);
+  let dbPath = process.env.NHL_SHOCK_DB || "./data/nhl_shock.db";
+  const markets: string[] = [];
+  let outPath: string | null = null;
+  let verbose = false;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--db" && i + 1 < args.length) {
+      dbPath = args[++i];
+    } else if (args[i] === "--market" && i + 1 < args.length) {
+      markets.push(args[++i]);
+    } else if (args[i] === "--out" && i + 1 < args.length) {
+      outPath = args[++i];
+    } else if (args[i] === "--verbose") {
+      verbose = true;
+    }
+  }
+
+  return { dbPath, markets, outPath, verbose };
+}
+
+const strategy: Partial<ShockFadeLiveConfig> = {
+  sigmaThreshold: envNum("SHOCK_SIGMA", 3.0),
+  minAbsoluteMove: envNum("SHOCK_MIN_MOVE", 0.03),
+  rollingWindowMs: envNum("SHOCK_WINDOW_MS", 60000),
+  ladderLevels: envNum("SHOCK_LADDER_LEVELS", 3),
+  ladderSpacing: envNum("SHOCK_LADDER_SPACING", 0.03),
+  fadeTargetCents: envNum("SHOCK_FADE_TARGET", 3),
+  fadeWindowMs: envNum("SHOCK_FADE_WINDOW_MS", 600000),
+  maxPositionSize: envNum("SHOCK_MAX_POS_SIZE", 100),
+  cooldownMs: envNum("SHOCK_COOLDOWN_MS", 30000),
+  targetPriceRange: [envNum("SHOCK_PRICE_MIN", 0.07), envNum("SHOCK_PRICE_MAX", 0.91)],
+  maxPerGame: envNum("SHOCK_MAX_PER_GAME", 1000),
+  maxConcurrentGames: envNum("SHOCK_MAX_CONCURRENT_GAMES", 3),
+  maxCyclesPerGame: envNum("SHOCK_MAX_CYCLES_PER_GAME", 1),
+  maxConsecutiveLosses: envNum("SHOCK_MAX_CONSEC_LOSSES", 3),
+  maxSessionLoss: envNum("SHOCK_MAX_SESSION_LOSS", 30),
+  ladderSizes: (process.env.SHOCK_LADDER_SIZES ?? "5,10,15").split(",").map((s) => parseFloat(s.trim())),
+  sellPriceMax: envNum("SHOCK_PRICE_MAX", 0.85),
+  minTakerVolume: envNum("SHOCK_MIN_TAKER_VOLUME", 0),
+  takerVolumeWindowMs: envNum("SHOCK_TAKER_WINDOW_MS", 10000),
+  takerConfirmGraceMs: envNum("SHOCK_TAKER_GRACE_MS", 2000),
+  ...shockModelsFromEnv(),
+};
+
+async function main(): Promise<void> {
+  const cli = parseArgs();
+
+  console.log("Shock-Fade Replay Backtest (real ShockFadeLive)");
+  console.log(`DB: ${cli.dbPath}${cli.markets.length ? ` | markets: ${cli.markets.join(", ")}` : ""}`);
+  console.log("Strategy:", JSON.stringify(strategy));
+  console.log("");
+
+  const bt = new ReplayBacktest({
+    dbPath: cli.dbPath,
+    strategy,
+    markets: cli.markets,
+    startingUsdc: envNum("REPLAY_STARTING_USDC", 10_000),
+    wsLatencyMs: envNum("REPLAY_WS_LATENCY_MS", 200),
+    eventLatencyMs: envNum("REPLAY_EVENT_LATENCY_MS", 0),
+    fillModel: process.env.REPLAY_FILL_MODEL === "touch" ? "touch" : "queue",
+    quiet: !cli.verbose,
+  });
+
+  const result = await bt.run();
+  const s = result.stats;
+
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log(`Replayed ${result.rowsReplayed} rows: ${new Date(result.startTs).toISOString()} → ${new Date(result.endTs).toISOString()}`);
+  console.log(`Shocks detected: ${result.shocks.length} | processed: ${s.totalShocksProcessed}`);
+  const byClass = new Map<string, number>();
+  for (const c of result.classifications) byClass.set(c.classification, (byClass.get(c.classification) ?? 0) + 1);
+  console.log(`Classifications: ${Array.from(byClass.entries()).map(([k, v]) => `${k}=${v}`).join(", ") || "none"}`);
+  console.log(`Orders: ${s.totalOrdersPlaced} placed, ${s.totalOrdersFilled} filled, ${s.totalOrdersCancelled} cancelled`);
+  console.log(`Positions: ${s.totalPositionsOpened} opened, ${s.totalPositionsClosed} closed, ${result.openPositionsAtEnd} still open`);
+  console.log(`W/L: ${s.winCount}/${s.lossCount} (${(s.winRate * 100).toFixed(1)}%)`);
+  console.log(`Trader P&L: ${s.totalPnL >= 0 ? "+" : ""}$${s.totalPnL.toFixed(2)}`);
+  console.log(`Wallet USDC: $${result.startingUsdc.toFixed(2)} → $${result.finalUsdc.toFixed(2)} (excludes unmerged shares)`);
+  console.log("═══════════════════════════════════════════════════════════");
+
+  if (result.trades.length > 0) {
+    console.log("");
+    console.log("Market                                   Exit          Sold    Exit     P&L    Hold");
+    for (const t of result.trades) {
+      console.log(
+        `${t.marketSlug.padEnd(40)} ${t.exitReason.padEnd(12)} ${(t.soldPrice * 100).toFixed(1).padStart(6)}¢ ${(t.exitPrice * 100).toFixed(1).padStart(6)}¢ ` +
+          `${(t.pnl >= 0 ? "+" : "") + t.pnl.toFixed(2)}`.padStart(8) + ` ${Math.round(t.holdTimeMs / 1000)}s`,
+      );
+    }
+  }
+
+  if (cli.outPath) {
+    fs.writeFileSync(cli.outPath, JSON.stringify(result, null, 2));
+    console.log(`\n💾 Result written to ${cli.outPath}`);
+  }
+}
+
+main().catch((err) => {
+  console.error("Replay backtest failed:", err);
+  process.exit(1);
+});
@@ -36,22 +36,32 @@ import {
   ShockEvent,
   DEFAULT_SHOCK_FADE_CONFIG,
 } from "./strategies/ShockFadeDetector";
-import { ShockFadeLive, ShockFadeLiveConfig } from "./strategies/ShockFadeLive";
+import { shockModelsFromEnv } from "./strategies/ShockModels";
+import { ShockFadeLive, ShockFadeLiveConfig, orderJournalPath } from "./strategies/ShockFadeLive";
+import { SqliteStateStore, importStateJson } from "./services/ShockFadeStateStore";
 import { UserChannelWS } from "./services/UserChannelWS";
+import { PinnacleOddsClient } from "./services/PinnacleOddsClient";
+import { GameEventConfirmation, ClassificationInfo, ScoreUpdate } from "./services/GameEventConfirmation";
+import { describeLateGamePolicy } from "./services/LateGamePolicy";
+import { WinProbabilityFairValue } from "./services/WinProbabilityModel";
 import { ShockFadeDashboardServer } from "./dashboard/ShockFadeDashboard";
 import { WalletBalanceService } from "./services/WalletBalanceService";
 import { SplitClient } from "./services/SplitClient";
 import { MergeClient } from "./services/MergeClient";
+import { ProxyRedemptionClient } from "./services/ProxyRedemptionClient";
+import { DatabaseService } from "./services/Database";
+import { RedemptionDaemon, RedemptionClaim, WinningShares, redemptionClaimsPath } from "./services/RedemptionDaemon";
+import { GasAccounting, gasLedgerPath } from "./services/GasAccounting";
+import { RuntimeParamsService, tierAuditPath } from "./services/RuntimeParams";
+import { RiskEngine } from "./services/RiskEngine";
+import { BreakerHalt, CircuitBreakers, GLOBAL_SCOPE, breakerStatePath } from "./services/CircuitBreakers";
+import { watchReconnectStorms } from "./services/Alerter";
+import { ControlAuditEntry, LIVE_DASHBOARD_PORT, LiveControl, controlAuditPath } from "./services/LiveControl";
+import { alerterFromEnv } from "./services/AlertSinks";
 import { PolymarketClient } from "./services/PolymarketClient";
+import { PolymarketVenue } from "./services/PolymarketVenue";
 import { PolymarketConfig } from "./types";
 
-// League API imports for game event confirmation
-import { NbaLiveApi } from "./collectors/league-apis/NbaLiveApi";
-import { NhlLiveApi, NormalizedGameEvent } from "./collectors/league-apis/NhlLiveApi";
-import { MlbLiveApi } from "./collectors/league-apis/MlbLiveApi";
-import { NflLiveApi } from "./collectors/league-apis/NflLiveApi";
-import { EspnFallbackApi } from "./collectors/league-apis/EspnFallbackApi";
-
 // ============================================================================
 // CLI ARGS
 // ============================================================================
@@ -94,6 +104,10 @@ function loadConfig(cliArgs: { dryRun: boolean; maxPerGame: number }): ShockFade
       parseFloat(process.env.SHOCK_PRICE_MIN ?? "0.07"),
       parseFloat(process.env.SHOCK_PRICE_MAX ?? "0.91"),
     ],
+    minTakerVolume: parseFloat(process.env.SHOCK_MIN_TAKER_VOLUME ?? "0"),
+    takerVolumeWindowMs: parseInt(process.env.SHOCK_TAKER_WINDOW_MS ?? "10000", 10),
+    takerConfirmGraceMs: parseInt(process.env.SHOCK_TAKER_GRACE_MS ?? "2000", 10),
+    ...shockModelsFromEnv(),
     dryRun: cliArgs.dryRun,
     maxPerGame: cliArgs.maxPerGame,
     maxConcurrentGames: parseInt(process.env.SHOCK_MAX_CONCURRENT_GAMES ?? "3", 10),
@@ -102,608 +116,33 @@ function loadConfig(cliArgs: { dryRun: boolean; maxPerGame: number }): ShockFade
     maxSessionLoss: parseFloat(process.env.SHOCK_MAX_SESSION_LOSS ?? "30"),
     ladderSizes: (process.env.SHOCK_LADDER_SIZES ?? "5,10,15").split(",").map(s => parseFloat(s.trim())),
     sellPriceMax: parseFloat(process.env.SHOCK_PRICE_MAX ?? "0.85"),
+    fairValueGate: process.env.SHOCK_FV_GATE === "true",
+    fairValueMarginCents: parseFloat(process.env.SHOCK_FV_MARGIN_CENTS ?? "3"),
+    fairValueRequired: process.env.SHOCK_FV_REQUIRED === "true",
   };
 }
 
 // ============================================================================
-// GAME EVENT CONFIRMATION (reuse from paper trader pattern)
+// STATE
 // ============================================================================
 
-type Sport = "NHL" | "NBA" | "MLB" | "NFL" | "CBB";
-
-interface GameMapping {
-  marketSlug: string;
-  gameId: string;
-  sport: Sport;
-}
-
-interface MarketEventWindow {
-  events: Array<{ ts: number; team: string; type: string }>;
-  lastPollTs: number;
-}
-
-class GameEventConfirmation {
-  private nbaApi: NbaLiveApi;
-  private nhlApi: NhlLiveApi;
-  private mlbApi: MlbLiveApi;
-  private nflApi: NflLiveApi;
-  private espnApi: EspnFallbackApi;
-
-  private gameMappings: Map<string, GameMapping> = new Map();
-  private eventWindows: Map<string, MarketEventWindow> = new Map();
-  private seenEventKeys: Set<string> = new Set();
-
-  private pollTimer: NodeJS.Timeout | null = null;
-  private activeMarkets: Set<string> = new Set();
-  private fastPollTimer: NodeJS.Timeout | null = null;
-
-  private pbpBackoff: Map<string, { nextRetryAt: number; currentBackoffMs: number; failCount: number }> = new Map();
-
-  public onClassificationReady: ((marketSlug: string, recentEvents: number, isStructural: boolean, sameTeamRun: number, lastScoringTeam: string, lastScoringTeamRun: string) => void) | null = null;
-  public onScoreUpdate: ((marketSlug: string, homeTeam: string, awayTeam: string, homeScore: number, awayScore: number, period: string, clock: string, sport: string) => void) | null = null;
-
-  private totalPolls = 0;
-  private totalBurstPolls = 0;
-  private scoreTimer: NodeJS.Timeout | null = null;
-  
-  // Game state tracking for late-game filters
-  private gameStates: Map<string, { period: number; clock: string; lastUpdate: number; sport: string }> = new Map();
-
-  constructor() {
-    this.nbaApi = new NbaLiveApi(200);
-    this.nhlApi = new NhlLiveApi(200);
-    this.mlbApi = new MlbLiveApi(200);
-    this.nflApi = new NflLiveApi();
-    this.espnApi = new EspnFallbackApi(200);
-  }
-
-  start(): void {
-    this.pollTimer = setInterval(() => this.pollAll(), 10000);
-    this.fastPollTimer = setInterval(() => this.pollActiveMarkets(), 1000);
-    // Poll scores every 1s (critical for detecting rapid NBA score changes)
-    this.scoreTimer = setInterval(() => this.pollScores(), 1000);
-    this.pollScores(); // immediate first poll
-    this.log("Started (10s idle / 1s active adaptive polling)");
-  }
-
-  stop(): void {
-    if (this.pollTimer) { clearInterval(this.pollTimer); this.pollTimer = null; }
-    if (this.fastPollTimer) { clearInterval(this.fastPollTimer); this.fastPollTimer = null; }
-    if (this.scoreTimer) { clearInterval(this.scoreTimer); this.scoreTimer = null; }
-  }
-
-  /**
-   * Check if a market is in late-game (last 3 minutes of Q4/OT or 2nd half)
-   * Used for asymmetric sell price filter tightening
-   */
-  isLateGame(marketSlug: string): boolean {
-    const state = this.gameStates.get(marketSlug);
-    if (!state) return false;
-    
-    const clockMins = this.parseClockMinutes(state.clock);
-    
-    if (state.sport === "NBA") {
-      // Last 3 minutes of Q4 (period 4) or any OT period (5+)
-      if (state.period >= 4) {
-        return clockMins <= 3.0;
-      }
-    } else if (state.sport === "CBB") {
-      // Last 3 minutes of 2nd half (period 2) or any OT (3+)
-      if (state.period >= 2) {
-        return clockMins <= 3.0;
-      }
-    }
-    // Add other sports as needed (NHL, NFL, etc.)
-    
-    return false;
-  }
-
-  /**
-   * Parse game clock string to minutes (decimal)
-   * Examples: "3:24" → 3.4, "0:45" → 0.75, "12:00" → 12.0
-   */
-  private parseClockMinutes(clock: string): number {
-    if (!clock || clock === "") return 0;
-    const parts = clock.split(":");
-    if (parts.length !== 2) return 0;
-    const mins = parseInt(parts[0], 10) || 0;
-    const secs = parseInt(parts[1], 10) || 0;
-    return mins + secs / 60.0;
-  }
-
-  private async pollScores(): Promise<void> {
-    if (!this.onScoreUpdate) return;
-    try {
-      // NBA scores
-      const nbaGames = await this.nbaApi.getTodaysScoreboard();
-      for (const game of nbaGames) {
-        // Find matching market slug
-        for (const [slug, mapping] of this.gameMappings.entries()) {
-          if (mapping.sport === "NBA" && mapping.gameId === game.gameId) {
-            const periodStr = game.gameStatus === 2
-              ? `Q${game.period}` 
-              : game.gameStatus === 3 ? "Final" : "Pre";
-            const cleanClock = game.gameClock?.replace(/^PT/, "").replace(/\.\d+S$/, "S").replace("M", ":").replace("S", "") || "";
-            this.onScoreUpdate(
-              slug,
-              game.awayTeam.teamTricode,
-              game.homeTeam.teamTricode,
-              game.awayTeam.score,
-              game.homeTeam.score,
-              periodStr,
-              cleanClock,
-              "NBA"
-            );
-            // Store game state for late-game filtering
-            this.gameStates.set(slug, {
-              period: game.period,
-              clock: cleanClock,
-              lastUpdate: Date.now(),
-              sport: "NBA"
-            });
-          }
-        }
-      }
-      // NFL scores (via ESPN)
-      for (const [slug, mapping] of this.gameMappings.entries()) {
-        if (mapping.sport === "NFL") {
-          try {
-            const resp = await this.espnApi.getScoreboard("nfl");
-            for (const event of resp) {
-              if (mapping.gameId === event.id) {
-                this.onScoreUpdate(
-                  slug,
-                  event.awayTeam.abbreviation || "AWAY",
-                  event.homeTeam.abbreviation || "HOME",
-                  parseInt(event.awayTeam.score || "0"),
-                  parseInt(event.homeTeam.score || "0"),
-                  event.status.type.description || "",
-                  "",
-                  "NFL"
-                );
-              }
-            }
-          } catch {}
-        }
-      }
-      // CBB scores (via ESPN)
-      for (const [slug, mapping] of this.gameMappings.entries()) {
-        if (mapping.sport !== "CBB") continue;
-        try {
-          const resp = await this.espnApi.getScoreboard("cbb");
-          const game = resp.find((e) => e.id === mapping.gameId);
-          if (game) {
-            const periodStr = game.status.type.state === "in"
-              ? `H${game.status.period || "?"}`
-              : game.status.type.state === "post" ? "Final" : "Pre";
-            const displayClock = game.status.displayClock || "";
-            this.onScoreUpdate(
-              slug,
-              game.awayTeam.abbreviation || "AWAY",
-              game.homeTeam.abbreviation || "HOME",
-              parseInt(game.awayTeam.score || "0"),
-              parseInt(game.homeTeam.score || "0"),
-              periodStr,
-              displayClock,
-              "CBB"
-            );
-            // Store game state for late-game filtering (CBB uses halves: period 1-2)
-            this.gameStates.set(slug, {
-              period: game.status.period || 0,
-              clock: displayClock,
-              lastUpdate: Date.now(),
-              sport: "CBB"
-            });
-          }
-        } catch {}
-      }
-    } catch (err: any) {
-      // Non-critical — don't spam logs for score polling failures
-    }
-  }
-
-  setMarketActive(marketSlug: string): void {
-    this.activeMarkets.add(marketSlug);
-  }
-
-  setMarketIdle(marketSlug: string): void {
-    this.activeMarkets.delete(marketSlug);
-  }
-
-  async buildMappings(markets: Map<string, SportsMarket>): Promise<void> {
-    const allMarkets = Array.from(markets.values()).filter(
-      (m) => m.sport === "NHL" || m.sport === "NBA" || m.sport === "MLB" || m.sport === "NFL" || m.sport === "CBB",
-    );
-    if (allMarkets.length === 0) return;
-
-    const today = new Date();
-    const dateStr = `${today.getUTCFullYear()}-${String(today.getUTCMonth() + 1).padStart(2, "0")}-${String(today.getUTCDate()).padStart(2, "0")}`;
-
-    const nbaMarkets = allMarkets.filter((m) => m.sport === "NBA");
-    if (nbaMarkets.length > 0) {
-      try {
-        const games = await this.nbaApi.getTodaysScoreboard();
-        for (const game of games) {
-          for (const market of nbaMarkets) {
-            if (this.gameMappings.has(market.marketSlug)) continue;
-            const homeName = `${game.homeTeam.teamCity} ${game.homeTeam.teamName}`;
-            const awayName = `${game.awayTeam.teamCity} ${game.awayTeam.teamName}`;
-            if (this.fuzzyMatchTeams(market.marketSlug, homeName, awayName)) {
-              this.gameMappings.set(market.marketSlug, { marketSlug: market.marketSlug, gameId: game.gameId, sport: "NBA" });
-              this.log(`🔗 Mapped ${market.marketSlug} → NBA game ${game.gameId}`);
-            }
-          }
-        }
-      } catch (err: any) {
-        this.log(`⚠️ NBA mapping failed: ${err?.message || err}`);
-      }
-    }
-
-    const nhlMarkets = allMarkets.filter((m) => m.sport === "NHL");
-    if (nhlMarkets.length > 0) {
-      try {
-        const games = await this.nhlApi.getGamesByDate(dateStr);
-        for (const game of games) {
-          for (const market of nhlMarkets) {
-            if (this.gameMappings.has(market.marketSlug)) continue;
-            if (this.fuzzyMatchTeams(market.marketSlug, game.homeTeam.commonName?.default || "", game.awayTeam.commonName?.default || "")) {
-              this.gameMappings.set(market.marketSlug, { marketSlug: market.marketSlug, gameId: String(game.id), sport: "NHL" });
-              this.log(`🔗 Mapped ${market.marketSlug} → NHL game ${game.id}`);
-            }
-          }
-        }
-      } catch (err: any) {
-        this.log(`⚠️ NHL mapping failed: ${err?.message || err}`);
-      }
-    }
-
-    const mlbMarkets = allMarkets.filter((m) => m.sport === "MLB");
-    if (mlbMarkets.length > 0) {
-      try {
-        const games = await this.mlbApi.getGamesByDate(dateStr);
-        for (const game of games) {
-          for (const market of mlbMarkets) {
-            if (this.gameMappings.has(market.marketSlug)) continue;
-            if (this.fuzzyMatchTeams(market.marketSlug, game.teams.home.team.name, game.teams.away.team.name)) {
-              this.gameMappings.set(market.marketSlug, { marketSlug: market.marketSlug, gameId: String(game.gamePk), sport: "MLB" });
-              this.log(`🔗 Mapped ${market.marketSlug} → MLB game ${game.gamePk}`);
-            }
-          }
-        }
-      } catch (err: any) {
-        this.log(`⚠️ MLB mapping failed: ${err?.message || err}`);
-      }
-    }
-
-    const nflMarkets = allMarkets.filter((m) => m.sport === "NFL");
-    if (nflMarkets.length > 0) {
-      try {
-        const games = await this.nflApi.getTodaysGames();
-        for (const game of games) {
-          for (const market of nflMarkets) {
-            if (this.gameMappings.has(market.marketSlug)) continue;
-            if (this.fuzzyMatchTeams(market.marketSlug, game.homeTeam, game.awayTeam)) {
-              this.gameMappings.set(market.marketSlug, { marketSlug: market.marketSlug, gameId: game.id, sport: "NFL" });
-              this.log(`🔗 Mapped ${market.marketSlug} → NFL game ${game.id}`);
-            }
-          }
-        }
-      } catch (err: any) {
-        this.log(`⚠️ NFL mapping failed: ${err?.message || err}`);
-      }
-    }
-
-    // CBB mappings via ESPN
-    const cbbMarkets = allMarkets.filter((m) => m.sport === "CBB");
-    if (cbbMarkets.length > 0) {
-      try {
-        const resp = await this.espnApi.getScoreboard("cbb");
-        for (const event of resp) {
-          const awayName = event.awayTeam.displayName || event.awayTeam.shortDisplayName || "";
-          const homeName = event.homeTeam.displayName || event.homeTeam.shortDisplayName || "";
-          for (const market of cbbMarkets) {
-            if (this.gameMappings.has(market.marketSlug)) continue;
-            if (this.fuzzyMatchTeams(market.marketSlug, homeName, awayName)) {
-              this.gameMappings.set(market.marketSlug, { marketSlug: market.marketSlug, gameId: event.id, sport: "CBB" });
-              this.log(`🔗 Mapped ${market.marketSlug} → CBB game ${event.id} (${awayName} @ ${homeName})`);
-            }
-          }
-        }
-      } catch (err: any) {
-        this.log(`⚠️ CBB mapping failed: ${err?.message || err}`);
-      }
-    }
-
-    this.log(`Game mappings: ${this.gameMappings.size}/${allMarkets.length} markets mapped`);
-  }
-
-  private async pollActiveMarkets(): Promise<void> {
-    if (this.activeMarkets.size === 0) return;
-    for (const marketSlug of this.activeMarkets) {
-      const mapping = this.gameMappings.get(marketSlug);
-      if (!mapping) continue;
-      await this.pollMarket(marketSlug, mapping, true);
-    }
-  }
-
-  private async pollAll(): Promise<void> {
-    for (const [marketSlug, mapping] of this.gameMappings.entries()) {
-      if (this.activeMarkets.has(marketSlug)) continue;
-      await this.pollMarket(marketSlug, mapping, false);
-    }
-
-    const cutoff = Date.now() - 300000;
-    for (const [slug, window] of this.eventWindows.entries()) {
-      window.events = window.events.filter((e) => e.ts >= cutoff);
-      if (window.events.length === 0 && Date.now() - window.lastPollTs > 600000) {
-        this.eventWindows.delete(slug);
-      }
-    }
-
-    if (this.seenEventKeys.size > 10000) {
-      this.seenEventKeys.clear();
-    }
-  }
-
-  private async pollMarket(marketSlug: string, mapping: GameMapping, isBurst: boolean): Promise<void> {
-    if (!isBurst) {
-      const backoffState = this.pbpBackoff.get(mapping.gameId);
-      if (backoffState && Date.now() < backoffState.nextRetryAt) return;
-    }
-
-    if (isBurst) this.totalBurstPolls++;
-    this.totalPolls++;
-
-    try {
-      let events: NormalizedGameEvent[] = [];
-
-      if (mapping.sport === "NBA") {
-        events = await this.nbaApi.getPlayByPlay(mapping.gameId);
-      } else if (mapping.sport === "NHL") {
-        events = await this.nhlApi.getPlayByPlay(mapping.gameId);
-      } else if (mapping.sport === "MLB") {
-        events = await this.mlbApi.getPlayByPlay(Number(mapping.gameId));
-      } else if (mapping.sport === "NFL") {
-        const nflEvents = await this.nflApi.getPlayByPlay(mapping.gameId);
-        events = nflEvents.map((e: any) => ({
-          type: (["goal", "penalty", "period_start", "period_end", "shootout"].includes(e.type)) ? e.type : "other" as const,
-          team: e.team,
-          period: e.period,
-          clock: e.clock,
-          description: e.description,
-          timestamp: e.timestamp,
-        }));
-      } else if (mapping.sport === "CBB") {
-        // CBB uses ESPN play-by-play API for scoring events
-        const espnEvents = await this.espnApi.getPlayByPlay("cbb", mapping.gameId);
-        events = espnEvents.map((e) => ({
-          type: e.type,
-          team: e.team,
-          period: e.period,
-          clock: e.clock,
-          description: e.description,
-          timestamp: e.timestamp,
-        }));
-      }
-
-      if (this.pbpBackoff.has(mapping.gameId)) {
-        this.pbpBackoff.delete(mapping.gameId);
-      }
-
-      this.processEvents(marketSlug, mapping.gameId, events, isBurst);
-    } catch (err: any) {
-      const existing = this.pbpBackoff.get(mapping.gameId);
-      const newBackoffMs = existing ? Math.min(existing.currentBackoffMs * 2, 300_000) : 30_000;
-      const failCount = existing ? existing.failCount + 1 : 1;
-      this.pbpBackoff.set(mapping.gameId, { nextRetryAt: Date.now() + newBackoffMs, currentBackoffMs: newBackoffMs, failCount });
-      if (failCount === 1) {
-        this.log(`⚠️ ${mapping.sport} PBP error for game ${mapping.gameId}: ${err?.message || err}`);
-      }
-    }
-  }
-
-  private processEvents(marketSlug: string, gameId: string, events: NormalizedGameEvent[], isBurst: boolean): void {
-    let window = this.eventWindows.get(marketSlug);
-    if (!window) {
-      window = { events: [], lastPollTs: 0 };
-      this.eventWindows.set(marketSlug, window);
-    }
-    window.lastPollTs = Date.now();
-
-    let newEventCount = 0;
-
-    for (const ev of events) {
-      if (ev.type === "other") continue;
-      const eventKey = `${gameId}:${ev.type}:${ev.period}:${ev.clock}:${ev.team}`;
-      if (this.seenEventKeys.has(eventKey)) continue;
-      this.seenEventKeys.add(eventKey);
-
-      if (ev.type === "goal") {
-        window.events.push({ ts: ev.timestamp || Date.now(), team: ev.team, type: ev.type });
-        newEventCount++;
-      }
-    }
-
-    if (isBurst && newEventCount > 0 && this.onClassificationReady) {
-      const info = this.getClassificationInfo(marketSlug);
-      this.onClassificationReady(marketSlug, info.recentEvents, info.isStructural, info.sameTeamRun, info.lastScoringTeam, info.lastScoringTeamRun);
-    }
-  }
-
-  getClassificationInfo(marketSlug: string): { recentEvents: number; isStructural: boolean; sameTeamRun: number; lastScoringTeam: string; lastScoringTeamRun: string } {
-    const window = this.eventWindows.get(marketSlug);
-    if (!window) return { recentEvents: 0, isStructural: false, sameTeamRun: 0, lastScoringTeam: "", lastScoringTeamRun: "" };
-
-    const cutoff = Date.now() - 120000;
-    const recent = window.events.filter((e) => e.ts >= cutoff);
-    const recentEvents = recent.length;
-
-    let maxRun = 0;
-    let currentRun = 0;
-    let currentTeam = "";
-    let maxRunTeam = "";
-    for (const ev of recent) {
-      if (ev.team === currentTeam) { currentRun++; } else { currentRun = 1; currentTeam = ev.team; }
-      if (currentRun > maxRun) { maxRun = currentRun; maxRunTeam = currentTeam; }
-    }
-
-    // Last scoring team: the most recent event's team tricode
-    const lastScoringTeam = recent.length > 0 ? recent[recent.length - 1].team : "";
-
-    return { recentEvents, isStructural: false, sameTeamRun: maxRun, lastScoringTeam, lastScoringTeamRun: maxRunTeam };
-  }
-
-  getStats(): { totalPolls: number; burstPolls: number; mappings: number; trackedMarkets: number } {
-    return { totalPolls: this.totalPolls, burstPolls: this.totalBurstPolls, mappings: this.gameMappings.size, trackedMarkets: this.eventWindows.size };
-  }
-
-  /**
-   * Resolve which team tricode corresponds to a tokenId on a given market.
-   * Uses slug abbreviations + outcome names to map tokenId → tricode.
-   *
-   * @param market - SportsMarket with outcomes[] and tokenIds[]
-   * @param tokenId - the token that spiked
-   * @returns the tricode (uppercase, e.g. "GSW", "LAL") or "" if unmappable
-   */
-  resolveTokenTricode(market: SportsMarket, tokenId: string): string {
-    const tokenIndex = market.tokenIds.indexOf(tokenId);
-    if (tokenIndex === -1) return "";
-
-    const outcomeName = market.outcomes[tokenIndex]; // e.g., "Warriors"
-    if (!outcomeName) return "";
-
-    // Extract slug abbreviations: nba-gsw-lal-2026-02-07 → ["gsw", "lal"]
-    const slugParts = market.marketSlug.toLowerCase().split("-");
-    const slugAbbrevs = slugParts.slice(1, -3); // skip sport prefix and date suffix
-
-    if (slugAbbrevs.length < 2) return "";
-
-    const TEAM_ABBREVS: Record<string, string[]> = {
-      atl: ["hawks", "atlanta"], bos: ["celtics", "boston"], bkn: ["nets", "brooklyn"],
-      cha: ["hornets", "charlotte"], chi: ["bulls", "chicago"], cle: ["cavaliers", "cleveland"],
-      dal: ["mavericks", "dallas"], den: ["nuggets", "denver"], det: ["pistons", "detroit"],
-      gsw: ["warriors", "golden state"], hou: ["rockets", "houston"], ind: ["pacers", "indiana"],
-      lac: ["clippers", "la clippers"], lal: ["lakers", "los angeles lakers"],
-      mem: ["grizzlies", "memphis"], mia: ["heat", "miami"], mil: ["bucks", "milwaukee"],
-      min: ["timberwolves", "minnesota"], nop: ["pelicans", "new orleans"],
-      nyk: ["knicks", "new york knicks"], okc: ["thunder", "oklahoma"],
-      orl: ["magic", "orlando"], phi: ["76ers", "philadelphia", "sixers"],
-      phx: ["suns", "phoenix"], por: ["trail blazers", "blazers", "portland"],
-      sac: ["kings", "sacramento"], sas: ["spurs", "san antonio"],
-      tor: ["raptors", "toronto"], uta: ["jazz", "utah"], was: ["wizards", "washington"],
-      ana: ["ducks", "anaheim"], ari: ["coyotes", "arizona"], buf: ["sabres", "buffalo"],
-      car: ["hurricanes", "carolina"], cbj: ["blue jackets", "columbus"],
-      cgy: ["flames", "calgary"], col: ["avalanche", "colorado"],
-      edm: ["oilers", "edmonton"], fla: ["panthers", "florida"],
-      lak: ["kings", "los angeles kings"], mtl: ["canadiens", "montreal"],
-      njd: ["devils", "new jersey"], nsh: ["predators", "nashville"],
-      nyi: ["islanders", "new york islanders"], nyr: ["rangers", "new york rangers"],
-      ott: ["senators", "ottawa"], pit: ["penguins", "pittsburgh"],
-      sea: ["kraken", "seattle"], stl: ["blues", "st. louis", "st louis"],
-      tbl: ["lightning", "tampa bay"], van: ["canucks", "vancouver"],
-      vgk: ["golden knights", "vegas"], wpg: ["jets", "winnipeg"],
-      wsh: ["capitals", "washington"],
-      ne: ["patriots", "new england"], sf: ["49ers", "san francisco"],
-      gb: ["packers", "green bay"], kc: ["chiefs", "kansas city"],
-      tb: ["buccaneers", "tampa bay"], no: ["saints", "new orleans"],
-      nyg: ["giants", "new york giants"], nyj: ["jets", "new york jets"],
-      nym: ["mets", "new york mets"], chc: ["cubs", "chicago cubs"],
-      chw: ["white sox", "chicago white sox"], tex: ["rangers", "texas"],
-      sd: ["padres", "san diego"], bal: ["orioles", "baltimore"],
-    };
-
-    const outcomeLower = outcomeName.toLowerCase();
-
-    // Find which slug abbreviation matches this outcome
-    for (const abbrev of slugAbbrevs) {
-      const possibleNames = TEAM_ABBREVS[abbrev] || [abbrev];
-      for (const name of possibleNames) {
-        if (outcomeLower.includes(name) || name.includes(outcomeLower)) {
-          return abbrev.toUpperCase();
-        }
-      }
-    }
-
-    // Fallback: return first slug abbrev if it's tokenIds[0], second if [1]
-    // This is a reasonable guess since slug format is sport-away-home-date
-    if (tokenIndex < slugAbbrevs.length) {
-      // slug is away-home, outcomes could be in any order
-      // Try matching by index — if outcomes match slug order
-      return slugAbbrevs[tokenIndex].toUpperCase();
-    }
-
-    return "";
-  }
-
-  private fuzzyMatchTeams(slug: string, homeTeamName: string, awayTeamName: string): boolean {
-    const lowerSlug = slug.toLowerCase();
-    const homeLower = (homeTeamName || "").toLowerCase();
-    const awayLower = (awayTeamName || "").toLowerCase();
-
-    const TEAM_ABBREVS: Record<string, string[]> = {
-      atl: ["hawks", "atlanta"], bos: ["celtics", "boston"], bkn: ["nets", "brooklyn"],
-      cha: ["hornets", "charlotte"], chi: ["bulls", "chicago"], cle: ["cavaliers", "cleveland"],
-      dal: ["mavericks", "dallas"], den: ["nuggets", "denver"], det: ["pistons", "detroit"],
-      gsw: ["warriors", "golden state"], hou: ["rockets", "houston"], ind: ["pacers", "indiana"],
-      lac: ["clippers", "la clippers"], lal: ["lakers", "los angeles lakers"],
-      mem: ["grizzlies", "memphis"], mia: ["heat", "miami"], mil: ["bucks", "milwaukee"],
-      min: ["timberwolves", "minnesota"], nop: ["pelicans", "new orleans"],
-      nyk: ["knicks", "new york knicks"], okc: ["thunder", "oklahoma"],
-      orl: ["magic", "orlando"], phi: ["76ers", "philadelphia", "sixers"],
-      phx: ["suns", "phoenix"], por: ["trail blazers", "blazers", "portland"],
-      sac: ["kings", "sacramento"], sas: ["spurs", "san antonio"],
-      tor: ["raptors", "toronto"], uta: ["jazz", "utah"], was: ["wizards", "washington"],
-      ana: ["ducks", "anaheim"], ari: ["coyotes", "arizona"], buf: ["sabres", "buffalo"],
-      car: ["hurricanes", "carolina"], cbj: ["blue jackets", "columbus"],
-      cgy: ["flames", "calgary"], col: ["avalanche", "colorado"],
-      edm: ["oilers", "edmonton"], fla: ["panthers", "florida"],
-      lak: ["kings", "los angeles kings"], mtl: ["canadiens", "montreal"],
-      njd: ["devils", "new jersey"], nsh: ["predators", "nashville"],
-      nyi: ["islanders", "new york islanders"], nyr: ["rangers", "new york rangers"],
-      ott: ["senators", "ottawa"], pit: ["penguins", "pittsburgh"],
-      sea: ["kraken", "seattle"], stl: ["blues", "st. louis", "st louis"],
-      tbl: ["lightning", "tampa bay"], van: ["canucks", "vancouver"],
-      vgk: ["golden knights", "vegas"], wpg: ["jets", "winnipeg"],
-      wsh: ["capitals", "washington"],
-      ne: ["patriots", "new england"], sf: ["49ers", "san francisco"],
-      gb: ["packers", "green bay"], kc: ["chiefs", "kansas city"],
-      tb: ["buccaneers", "tampa bay"], no: ["saints", "new orleans"],
-      nyg: ["giants", "new york giants"], nyj: ["jets", "new york jets"],
-      nym: ["mets", "new york mets"], chc: ["cubs", "chicago cubs"],
-      chw: ["white sox", "chicago white sox"], tex: ["rangers", "texas"],
-      sd: ["padres", "san diego"], bal: ["orioles", "baltimore"],
-    };
-
-    const slugParts = lowerSlug.split("-");
-    const teamAbbrevs = slugParts.slice(1, -3);
-
-    if (teamAbbrevs.length < 2) {
-      const homeWords = homeLower.split(/\s+/);
-      const awayWords = awayLower.split(/\s+/);
-      const homeMatch = homeWords.some((w) => w.length > 2 && lowerSlug.includes(w));
-      const awayMatch = awayWords.some((w) => w.length > 2 && lowerSlug.includes(w));
-      return homeMatch && awayMatch;
-    }
-
-    let homeMatched = false;
-    let awayMatched = false;
-
-    for (const abbrev of teamAbbrevs) {
-      const possibleNames = TEAM_ABBREVS[abbrev] || [abbrev];
-      for (const name of possibleNames) {
-        if (homeLower.includes(name) || name.includes(homeLower.split(/\s+/).pop() || "")) homeMatched = true;
-        if (awayLower.includes(name) || name.includes(awayLower.split(/\s+/).pop() || "")) awayMatched = true;
-      }
-      if (homeLower.includes(abbrev) || abbrev === homeLower.substring(0, 3)) homeMatched = true;
-      if (awayLower.includes(abbrev) || abbrev === awayLower.substring(0, 3)) awayMatched = true;
-    }
-
-    return homeMatched && awayMatched;
-  }
-
-  private log(msg: string): void {
-    const ts = new Date().toISOString();
-    console.log(`${ts} [INFO] 🏟️  [GameEvents] ${msg}`);
+/**
+ * First start on the SQLite store: bring the old JSON state file (and its
+ * order journal) over so open orders, positions and TPs carry on.
+ */
+function importLegacyState(statePath: string, legacyPath: string): void {
+  if (!fs.existsSync(legacyPath)) return;
+  const store = new SqliteStateStore(statePath);
+  try {
+    if (store.listSessions().length > 0) return;
+    const result = importStateJson(store, legacyPath);
+    console.log(`  📦 Imported ${legacyPath} → ${statePath} (${result.orders} orders, ${result.positions} positions, ${result.trades} trades)`);
+    const legacyJournal = orderJournalPath(legacyPath);
+    if (fs.existsSync(legacyJournal) && !fs.existsSync(orderJournalPath(statePath))) {
+      fs.copyFileSync(legacyJournal, orderJournalPath(statePath));
+    }
+  } finally {
+    store.close();
   }
 }
 
@@ -737,7 +176,7 @@ async function main(): Promise<void> {
   console.log(`  Pre-split: $${preSplitPerGame}/game (${maxCyclesPerGame} cycles × $${totalShares} + L1 $${envLadderSizes[0] || 0} cushion)`);
   console.log(`  Max concurrent games: ${maxGamesEnv} ($${maxGamesEnv * preSplitPerGame} capital needed)`);
   console.log(`  Max cycles/game: ${process.env.SHOCK_MAX_CYCLES_PER_GAME ?? "1"}`);
-  console.log("  Port: 3033");
+  console.log(`  Port: ${LIVE_DASHBOARD_PORT}`);
   console.log("=".repeat(70));
 
   // ── 0. Validate environment ──────────────────────────────────────────
@@ -758,6 +197,12 @@ async function main(): Promise<void> {
   const splitClient = new SplitClient(privateKey);
   const mergeClient = new MergeClient(privateKey);
 
+  // Operator alerts — webhook / Telegram / Discord / email / JSONL per ALERT_* env
+  const alerter = alerterFromEnv();
+  console.log(`  🚨 Alerts → ${alerter.getSinkNames().join(", ")}`);
+  splitClient.setAlerter(alerter);
+  mergeClient.setAlerter(alerter);
+
   const polyConfig: PolymarketConfig = {
     host: process.env.POLYMARKET_HOST || "https://clob.polymarket.com",
     chainId: parseInt(process.env.POLYMARKET_CHAIN_ID || "137", 10),
@@ -790,6 +235,8 @@ async function main(): Promise<void> {
     console.log("  [DRY-RUN] Skipping UserChannelWS (not needed in dry-run)");
   }
 
+  const venue = new PolymarketVenue(polyClient, userChannelWS);
+
   // Ensure CTF approvals
   console.log("  🔐 Ensuring CTF approvals...");
   if (!cliArgs.dryRun) {
@@ -864,22 +311,77 @@ async function main(): Promise<void> {
   // will addTokens() when markets go active. WS must be connected to subscribe.
   await ws.connect();
   console.log("  ✅ WebSocket connected");
+  watchReconnectStorms(ws, alerter, "OrderBookWS", {
+    threshold: parseInt(process.env.ALERT_RECONNECT_STORM_COUNT ?? "3", 10),
+    windowMs: parseFloat(process.env.ALERT_RECONNECT_STORM_MIN ?? "10") * 60_000,
+  });
 
   // ── 5. Initialize components ─────────────────────────────────────────
   console.log("\n🧠 Initializing shock detection engine...");
   const detector = new ShockFadeDetector(ws, config);
 
   console.log("🔴 Initializing LIVE trading engine...");
+  const statePath = "./data/shock-fade-live.db";
+  importLegacyState(statePath, "./data/shock-fade-live-state.json");
   const trader = new ShockFadeLive(
     ws,
     splitClient,
     mergeClient,
-    polyClient,
+    venue,
     config,
-    "./data/shock-fade-live-state.json",
-    userChannelWS,
+    statePath,
   );
 
+  // Gas ledger + MATIC budget — wired before the startup pre-split so it's guarded too
+  const gasAccounting = new GasAccounting(splitClient, gasLedgerPath(statePath), {
+    minMaticBalance: parseFloat(process.env.SHOCK_MIN_MATIC ?? "1"),
+    maxDailyGasMatic: parseFloat(process.env.SHOCK_MAX_DAILY_GAS_MATIC ?? "5"),
+    maticPriceUsd: parseFloat(process.env.SHOCK_MATIC_PRICE_USD ?? "0.25"),
+  });
+  trader.setGasAccounting(gasAccounting);
+
+  // Tiered sizing (src/config/sss_runtime_params.json). The restored tier sizes
+  // the startup pre-split; the track record is evaluated once the trader has
+  // loaded its history (section 10).
+  const runtimeParams = new RuntimeParamsService(polyClient, trader, trader, tierAuditPath(statePath), {
+    baseLadderSizes: config.ladderSizes,
+    baseMaxPerGame: config.maxPerGame,
+    maxCyclesPerGame: config.maxCyclesPerGame,
+  });
+  await runtimeParams.refresh(false);
+
+  // Portfolio worst-case limits — every new ladder is checked before placement
+  const riskEngine = new RiskEngine(trader, {
+    maxTotal: parseFloat(process.env.SHOCK_RISK_MAX_TOTAL ?? "150"),
+    maxPerSport: parseFloat(process.env.SHOCK_RISK_MAX_SPORT ?? "100"),
+    maxPerSlate: parseFloat(process.env.SHOCK_RISK_MAX_SLATE ?? "100"),
+    maxPerTeam: parseFloat(process.env.SHOCK_RISK_MAX_TEAM ?? "50"),
+    slateWindowMs: parseFloat(process.env.SHOCK_RISK_SLATE_WINDOW_MIN ?? "60") * 60_000,
+  });
+  trader.setRiskEngine(riskEngine);
+
+  // Windowed loss breakers — halts (and their resume times) survive a restart
+  const circuitBreakers = new CircuitBreakers(breakerStatePath(statePath), {
+    windowMs: parseFloat(process.env.SHOCK_BREAKER_WINDOW_MIN ?? "60") * 60_000,
+    cooldownMs: parseFloat(process.env.SHOCK_BREAKER_COOLDOWN_MIN ?? "60") * 60_000,
+    global: {
+      maxWindowLoss: parseFloat(process.env.SHOCK_BREAKER_MAX_WINDOW_LOSS ?? "20"),
+      maxDailyLoss: parseFloat(process.env.SHOCK_BREAKER_MAX_DAILY_LOSS ?? "40"),
+      maxDrawdown: parseFloat(process.env.SHOCK_BREAKER_MAX_DRAWDOWN ?? "40"),
+    },
+    perSport: {
+      maxWindowLoss: parseFloat(process.env.SHOCK_BREAKER_SPORT_MAX_WINDOW_LOSS ?? "10"),
+      maxDailyLoss: parseFloat(process.env.SHOCK_BREAKER_SPORT_MAX_DAILY_LOSS ?? "25"),
+      maxDrawdown: parseFloat(process.env.SHOCK_BREAKER_SPORT_MAX_DRAWDOWN ?? "25"),
+    },
+  });
+  trader.setCircuitBreakers(circuitBreakers);
+  trader.setAlerter(alerter);
+
+  // Kill switch — a pause or flatten from before a restart is re-applied here
+  const control = new LiveControl(trader, controlAuditPath(statePath), circuitBreakers);
+  control.restore();
+
   // Register ALL markets (upcoming ones will go to dashboard later)
   const marketsMap = new Map<string, SportsMarket>();
   const activeConditionIds: string[] = [];
@@ -887,7 +389,7 @@ async function main(): Promise<void> {
     marketsMap.set(market.marketSlug, market);
     // Only register active markets for WS/trading
     if (market.state === MarketState.ACTIVE || market.state === MarketState.PENDING_ENTRY) {
-      detector.registerMarketTokens(market.tokenIds, market.marketSlug);
+      detector.registerMarketTokens(market.tokenIds, market.marketSlug, market.sport);
       trader.registerTokenPair(market);
       if (market.conditionId) {
         activeConditionIds.push(market.conditionId);
@@ -905,12 +407,16 @@ async function main(): Promise<void> {
   // Pre-split up to maxConcurrentGames to manage capital.
   // Each game locks $cycleSize in CTF tokens. Capital needed = maxGames × cycleSize.
   const maxGames = config.maxConcurrentGames;
-  const cycleSize = config.ladderSizes.reduce((a: number, b: number) => a + b, 0);
+  const cycleSize = (runtimeParams.getSizing()?.ladderSizes ?? config.ladderSizes).reduce((a: number, b: number) => a + b, 0);
   const capitalNeeded = maxGames * cycleSize;
   console.log(`\n💧 Pre-splitting for up to ${maxGames} concurrent games ($${cycleSize}/game = $${capitalNeeded} total)...`);
-  let preSplitCount = 0;
+  // Pick the games first, then split them in one batched Safe transaction.
+  // canPreSplitForGame() only sees slots once a split lands, so count them here.
+  let freeSlots = maxGames - trader.getAllInventory().length;
+  const toSplit: string[] = [];
   for (const market of liveMarkets) {
-    if (!trader.canPreSplitForGame(market.marketSlug)) {
+    const hasInventory = trader.getInventory(market.marketSlug) !== undefined;
+    if (!hasInventory && freeSlots <= 0) {
       console.log(`  ⏸️ Reached max concurrent games (${maxGames}) — remaining games will wait for slots`);
       break;
     }
@@ -924,13 +430,18 @@ async function main(): Promise<void> {
           continue;
         }
       }
-      const success = await trader.preSplitForMarket(market.marketSlug);
-      if (success) {
-        console.log(`  ✅ Pre-split ready for ${market.marketSlug}`);
-        preSplitCount++;
-      } else {
-        console.log(`  ⚠️ Pre-split failed for ${market.marketSlug}`);
-      }
+      toSplit.push(market.marketSlug);
+      if (!hasInventory) freeSlots--;
+    }
+  }
+  let preSplitCount = 0;
+  const preSplitResults = await trader.preSplitForMarkets(toSplit);
+  for (const [marketSlug, success] of preSplitResults) {
+    if (success) {
+      console.log(`  ✅ Pre-split ready for ${marketSlug}`);
+      preSplitCount++;
+    } else {
+      console.log(`  ⚠️ Pre-split failed for ${marketSlug}`);
     }
   }
 
@@ -939,8 +450,29 @@ async function main(): Promise<void> {
   const gameEvents = new GameEventConfirmation();
   await gameEvents.buildMappings(marketsMap);
   
-  // Pass gameEvents to trader for late-game filtering
+  // Pass gameEvents to trader for the late-game policy
   trader.setGameEvents(gameEvents);
+  for (const policy of gameEvents.getLateGamePolicies()) {
+    console.log(`  🕐 Late game: ${describeLateGamePolicy(policy)}`);
+  }
+
+  // Fair-value gate: Pinnacle via The Odds API, or the in-game win-probability
+  // model (SHOCK_FV_SOURCE=winprob) with Pinnacle as its pre-game prior
+  if (config.fairValueGate) {
+    const pinnacle = new PinnacleOddsClient();
+    if (process.env.SHOCK_FV_SOURCE === "winprob") {
+      trader.setFairValueSource(new WinProbabilityFairValue(gameEvents, pinnacle.isConfigured() ? pinnacle : null));
+      console.log(
+        `  📐 Fair-value gate ON — min overshoot ${config.fairValueMarginCents}¢ vs in-game win probability ` +
+        `(prior: ${pinnacle.isConfigured() ? "Pinnacle" : "Polymarket pre-game price"})`,
+      );
+    } else if (pinnacle.isConfigured()) {
+      trader.setFairValueSource(pinnacle);
+      console.log(`  📐 Fair-value gate ON — min overshoot ${config.fairValueMarginCents}¢ vs Pinnacle`);
+    } else {
+      console.log("  ⚠️ SHOCK_FV_GATE=true but THE_ODDS_API_KEY not set — gate disabled");
+    }
+  }
 
   // ── 8. Wire up events ────────────────────────────────────────────────
   const pendingShocks: Map<string, { shock: ShockEvent; detectedAt: number }> = new Map();
@@ -950,12 +482,23 @@ async function main(): Promise<void> {
   const shockTeams: Map<string, string> = new Map(); // marketSlug → shock team tricode (uppercase)
 
   // Score update callback → push to dashboard
-  gameEvents.onScoreUpdate = (marketSlug, homeTeam, awayTeam, homeScore, awayScore, period, clock, sport) => {
-    dashboard.updateScore({ marketSlug, homeTeam, awayTeam, homeScore, awayScore, period, clock, sport });
-  };
+  // (dashboard lists teams in slug order: away first)
+  gameEvents.on("scoreUpdate", ({ marketSlug, state }: ScoreUpdate) => {
+    dashboard.updateScore({
+      marketSlug,
+      homeTeam: state.away.abbrev || "AWAY",
+      awayTeam: state.home.abbrev || "HOME",
+      homeScore: state.away.score,
+      awayScore: state.home.score,
+      period: state.periodLabel,
+      clock: state.clock,
+      sport: state.sport,
+    });
+  });
 
-  // Classification callback
-  gameEvents.onClassificationReady = (marketSlug: string, recentEvents: number, isStructural: boolean, sameTeamRun: number, lastScoringTeam: string, lastScoringTeamRun: string) => {
+  // Classification from burst polling
+  gameEvents.on("classification", (info: ClassificationInfo) => {
+    const { marketSlug, recentEvents, isStructural, sameTeamRun, lastScoringTeam, lastScoringTeamRun } = info;
     // ENTRY: classify pending shocks
     for (const [shockId, entry] of pendingShocks.entries()) {
       if (entry.shock.marketSlug !== marketSlug) continue;
@@ -1072,7 +615,7 @@ async function main(): Promise<void> {
         }
       }
     }
-  };
+  });
 
   // Shock detection → event confirmation activation (+ dashboard notify already wired above)
   detector.on("shock", (shock: ShockEvent) => {
@@ -1097,8 +640,8 @@ async function main(): Promise<void> {
   });
 
   // ── 9. Dashboard ─────────────────────────────────────────────────────
-  console.log("\n📊 Starting dashboard on port 3033...");
-  const dashboard = new ShockFadeDashboardServer({ port: 3033 });
+  console.log(`\n📊 Starting dashboard on port ${LIVE_DASHBOARD_PORT}...`);
+  const dashboard = new ShockFadeDashboardServer({ port: LIVE_DASHBOARD_PORT });
   dashboard.setMode(cliArgs.dryRun ? "paper" : "live");
   dashboard.setDetector(detector);
   // ShockFadeLive has compatible interface with ShockFadePaperTrader for dashboard
@@ -1106,17 +649,46 @@ async function main(): Promise<void> {
   // Cast to satisfy the type — the dashboard only calls the query methods
   dashboard.setTrader(trader as any);
   dashboard.setMarkets(marketsMap);
+  dashboard.setRiskEngine(riskEngine);
+  dashboard.setControl(control, process.env.SHOCK_CONTROL_TOKEN ?? null);
+  if (!process.env.SHOCK_CONTROL_TOKEN) {
+    console.log("  ⚠️ SHOCK_CONTROL_TOKEN not set — control API (pause / flatten) disabled");
+  }
   // Push all markets (including upcoming) to dashboard
   for (const market of marketsMap.values()) {
     dashboard.updateMarket(market);
   }
   await dashboard.start();
 
-  // ── 9a. Wallet balance service ────────────────────────────────────────
+  // ── 9a. Redemption daemon ─────────────────────────────────────────────
+  // Winners force-closed at $1 when a game is decided are still shares in
+  // the wallet — redeem them once the market resolves.
+  let redemptionDaemon: RedemptionDaemon | null = null;
+  if (!cliArgs.dryRun) {
+    redemptionDaemon = new RedemptionDaemon(
+      new ProxyRedemptionClient(privateKey),
+      new DatabaseService(),
+      venue,
+      redemptionClaimsPath(statePath),
+    );
+    const daemon = redemptionDaemon;
+    trader.on("winnerHeld", (winner: WinningShares) => daemon.track(winner));
+    daemon.on("redeemed", (claim: RedemptionClaim) => {
+      gasAccounting.record("REDEEM", claim.marketSlug, claim.gasCostMatic, claim.transactionHash ?? undefined);
+      trader.chargeLateGas(claim.marketSlug);
+    });
+    daemon.start();
+  }
+
+  // ── 9b. Wallet balance service ────────────────────────────────────────
   const rpcUrl = process.env.POLYGON_RPC_URL || "https://polygon-rpc.com";
   if (funderAddress) {
     console.log("\n💰 Starting wallet balance service...");
     const walletService = new WalletBalanceService(rpcUrl, funderAddress);
+    if (redemptionDaemon) {
+      walletService.setUnredeemedSource(redemptionDaemon);
+      redemptionDaemon.on("redeemed", () => setTimeout(() => walletService.refresh(), 3000));
+    }
     dashboard.setWalletService(walletService);
     walletService.start();
 
@@ -1136,7 +708,7 @@ async function main(): Promise<void> {
     console.log("\n⚠️ No POLYMARKET_FUNDER set — wallet balance service disabled");
   }
 
-  // ── 9b. Wire trader events → dashboard ────────────────────────────────
+  // ── 9c. Wire trader events → dashboard ────────────────────────────────
   trader.on("ordersPlaced", (info: { shockId: string; marketSlug: string; sellTokenId: string; heldTokenId: string }) => {
     const orders = trader.getActiveOrders().filter(o => o.shockId === info.shockId);
     for (const order of orders) {
@@ -1172,14 +744,52 @@ async function main(): Promise<void> {
     dashboard.notifyTPUpdate(tp);
   });
 
+  circuitBreakers.on("tripped", (halt: BreakerHalt) => {
+    dashboard.notifySystem(`🛑 Breaker ${halt.scope} ${halt.breaker}: ${halt.reason}`, "warn");
+    alerter.raise({
+      severity: halt.scope === GLOBAL_SCOPE ? "CRITICAL" : "ERROR",
+      title: `Breaker tripped: ${halt.scope} ${halt.breaker}`,
+      message: `${halt.reason}${halt.resumeAt ? ` — resumes ${new Date(halt.resumeAt).toISOString()}` : " — manual resume"}`,
+      source: "CircuitBreakers",
+      context: { ...halt },
+    });
+  });
+  circuitBreakers.on("resumed", (halt: BreakerHalt) => {
+    dashboard.notifySystem(`✅ Breaker ${halt.scope} ${halt.breaker} lifted — trading resumes`);
+    alerter.raise({
+      severity: "INFO",
+      title: `Breaker lifted: ${halt.scope} ${halt.breaker}`,
+      message: `${halt.scope} trading resumes`,
+      source: "CircuitBreakers",
+    });
+  });
+
+  control.on("action", (entry: ControlAuditEntry) => {
+    const message = `${entry.action} by ${entry.operator}: ${entry.detail}`;
+    dashboard.notifySystem(`🕹️ ${message}`, entry.ok ? "warn" : "error");
+    alerter.raise({
+      severity: entry.action === "RESUME" ? "INFO" : "WARNING",
+      title: `Operator ${entry.action}`,
+      message,
+      source: "LiveControl",
+      key: `LiveControl:${entry.ts}`,
+      context: { ...entry.params },
+    });
+  });
+
   // Wire shock detection → dashboard
   detector.on("shock", (shock: ShockEvent) => {
     dashboard.notifyShockDetected(shock);
   });
 
   // ── 10. Start everything ─────────────────────────────────────────────
-  detector.start();
+  // Trader first: restored state is reconciled with the venue before any shock
+  // can reach it. Unsafe discrepancies halt trading until confirmed via
+  // `npm run reconcile -- --confirm <id>`.
   trader.start();
+  await trader.reconcileWithVenue();
+  runtimeParams.start();
+  detector.start();
   gameEvents.start();
 
   // ── 11. Periodic market refresh ──────────────────────────────────────
@@ -1204,7 +814,7 @@ async function main(): Promise<void> {
         // Register for WS/trading if active (handles upcoming → active transition)
         if (market.state === MarketState.ACTIVE || market.state === MarketState.PENDING_ENTRY) {
           if (!detector.hasMarket(market.marketSlug)) {
-            detector.registerMarketTokens(market.tokenIds, market.marketSlug);
+            detector.registerMarketTokens(market.tokenIds, market.marketSlug, market.sport);
             trader.registerTokenPair(market);
             ws.addTokens(market.tokenIds);
             // Subscribe UserChannelWS to new condition IDs
@@ -1237,7 +847,12 @@ async function main(): Promise<void> {
     const emoji = pnl >= 0 ? "📈" : "📉";
     const evStats = gameEvents.getStats();
     const mode = cliArgs.dryRun ? "[DRY-RUN]" : "[LIVE]";
-    const haltedTag = trader.isHalted() ? " 🛑HALTED" : "";
+    const breakerHalts = circuitBreakers.getHalts().map((h) => `${h.scope}:${h.breaker}`);
+    const blockedCount = trader.getBlockedMarkets().length;
+    const haltedTag = (trader.isHalted() ? " 🛑HALTED" : "") + (breakerHalts.length > 0 ? ` 🛑${breakerHalts.join(",")}` : "") +
+      (blockedCount > 0 ? ` ⏸️${blockedCount} blocked` : "");
+    const gasToday = gasAccounting.getDailySpendMatic();
+    const risk = riskEngine.getSnapshot().total;
 
     console.log(
       `${emoji} ${mode}${haltedTag} Markets: ${marketsMap.size} | ` +
@@ -1246,14 +861,16 @@ async function main(): Promise<void> {
         `Positions: ${stats.totalPositionsOpened} opened, ${stats.totalPositionsClosed} closed | ` +
         `P&L: ${pnl >= 0 ? "+" : ""}$${pnl.toFixed(2)} | ` +
         `Win: ${(stats.winRate * 100).toFixed(0)}% | ` +
+        (gasToday > 0 ? `Gas today: ${gasToday.toFixed(3)} MATIC | ` : "") +
+        `Risk: $${risk.worstCase.toFixed(2)}/$${risk.limit} worst case | ` +
         `API: ${evStats.totalPolls} polls (${evStats.burstPolls} burst) | ` +
-        `Dashboard: :3033 (${dashboard.getClientCount()} clients)`,
+        `Dashboard: :${LIVE_DASHBOARD_PORT} (${dashboard.getClientCount()} clients)`,
     );
   }, 60000);
 
   console.log("\n" + "=".repeat(70));
   console.log(`  ✅ ALL SYSTEMS GO ${cliArgs.dryRun ? "(DRY-RUN)" : "⚠️  LIVE TRADING ACTIVE ⚠️"}`);
-  console.log(`  📊 Dashboard: http://0.0.0.0:3033${cliArgs.dryRun ? "" : "?mode=live"}`);
+  console.log(`  📊 Dashboard: http://0.0.0.0:${LIVE_DASHBOARD_PORT}${cliArgs.dryRun ? "" : "?mode=live"}`);
   console.log(`  📡 Monitoring ${marketsMap.size} markets (${gameEvents.getStats().mappings} mapped to games)`);
   console.log(`  ⚡ Waiting for shocks... (10s idle / 1s active polling)`);
   console.log("=".repeat(70) + "\n");
@@ -1267,17 +884,18 @@ async function main(): Promise<void> {
 
     // Merge remaining shares back to USDC
     console.log("🔄 Merging remaining inventory...");
-    for (const inv of trader.getAllInventory()) {
-      await trader.mergeRemainingShares(inv.marketSlug);
-    }
+    await trader.mergeRemainingSharesForMarkets(trader.getAllInventory().map((inv) => inv.marketSlug));
 
     trader.stop();
+    runtimeParams.stop();
+    redemptionDaemon?.stop();
     gameEvents.stop();
     dashboard.stop();
     ws.disconnect();
     if (userChannelWS) {
       userChannelWS.disconnect();
     }
+    await alerter.flush();
     process.exit(0);
   };
 
@@ -1311,6 +929,9 @@ async function main(): Promise<void> {
         sigmaThreshold: parseFloat(envParsed.SHOCK_SIGMA ?? "3.0"),
         minAbsoluteMove: parseFloat(envParsed.SHOCK_MIN_MOVE ?? "0.03"),
         cooldownMs: parseInt(envParsed.SHOCK_COOLDOWN_MS ?? "30000", 10),
+        minTakerVolume: parseFloat(envParsed.SHOCK_MIN_TAKER_VOLUME ?? "0"),
+        takerVolumeWindowMs: parseInt(envParsed.SHOCK_TAKER_WINDOW_MS ?? "10000", 10),
+        takerConfirmGraceMs: parseInt(envParsed.SHOCK_TAKER_GRACE_MS ?? "2000", 10),
         targetPriceRange: [
           parseFloat(envParsed.SHOCK_PRICE_MIN ?? "0.07"),
           parseFloat(envParsed.SHOCK_PRICE_MAX ?? "0.91"),
@@ -1318,18 +939,38 @@ async function main(): Promise<void> {
         sellPriceMax: parseFloat(envParsed.SHOCK_PRICE_MAX ?? "0.85"),
       };
 
+      // Tiered sizing owns ladderSizes / maxPerGame while on — the env ladder
+      // becomes its base, and the tier is re-evaluated right away
+      const tiered = runtimeParams.isEnabled();
+      if (tiered) {
+        runtimeParams.setBase(newVals.ladderSizes, config.maxPerGame, newVals.maxCyclesPerGame);
+      }
+
       // Apply to strategy (maxConcurrentGames, ladderSizes, etc.)
-      const stratChanges = trader.reloadConfig(newVals);
+      const stratChanges = trader.reloadConfig(tiered ? { ...newVals, ladderSizes: undefined } : newVals);
+      if (tiered) void runtimeParams.refresh();
 
-      // Apply to detector (sigma, minMove, priceRange, cooldown)
+      // Apply to detector (sigma, minMove, priceRange, cooldown, taker volume)
       const detectorChanges = detector.updateConfig({
         sigmaThreshold: newVals.sigmaThreshold,
         minAbsoluteMove: newVals.minAbsoluteMove,
         cooldownMs: newVals.cooldownMs,
         targetPriceRange: newVals.targetPriceRange,
+        minTakerVolume: newVals.minTakerVolume,
+        takerVolumeWindowMs: newVals.takerVolumeWindowMs,
+        takerConfirmGraceMs: newVals.takerConfirmGraceMs,
+      });
+
+      // Risk limits (next ladder onward)
+      const riskChanges = riskEngine.setLimits({
+        maxTotal: parseFloat(envParsed.SHOCK_RISK_MAX_TOTAL ?? "150"),
+        maxPerSport: parseFloat(envParsed.SHOCK_RISK_MAX_SPORT ?? "100"),
+        maxPerSlate: parseFloat(envParsed.SHOCK_RISK_MAX_SLATE ?? "100"),
+        maxPerTeam: parseFloat(envParsed.SHOCK_RISK_MAX_TEAM ?? "50"),
+        slateWindowMs: parseFloat(envParsed.SHOCK_RISK_SLATE_WINDOW_MIN ?? "60") * 60_000,
       });
 
-      const allChanges = [...stratChanges, ...detectorChanges];
+      const allChanges = [...stratChanges, ...detectorChanges, ...riskChanges];
       if (allChanges.length === 0) {
         console.log("🔄 Config reloaded — no changes detected\n");
       } else {
@@ -9,6 +9,9 @@
  *   - On shock: immediate poll + 3 rapid follow-ups at 3s intervals
  *   - Classification happens as soon as data arrives, not on a fixed timer
  *
+ * Ladder fills are simulated with the queue-position model by default; set
+ * SHOCK_PAPER_FILL_MODEL=touch for the old fill-on-touch behaviour.
+ *
  * Usage:
  *   npx ts-node src/run-shock-fade-paper.ts
  *   npm run shock-fade:paper
@@ -29,15 +32,11 @@ import {
   ShockEvent,
   DEFAULT_SHOCK_FADE_CONFIG,
 } from "./strategies/ShockFadeDetector";
+import { shockModelsFromEnv } from "./strategies/ShockModels";
 import { ShockFadePaperTrader } from "./strategies/ShockFadePaper";
+import { createFillModel } from "./backtest/FillModel";
 import { ShockFadeDashboardServer } from "./dashboard/ShockFadeDashboard";
-
-// League API imports for game event confirmation
-import { NbaLiveApi } from "./collectors/league-apis/NbaLiveApi";
-import { NhlLiveApi, NormalizedGameEvent } from "./collectors/league-apis/NhlLiveApi";
-import { MlbLiveApi } from "./collectors/league-apis/MlbLiveApi";
-import { NflLiveApi } from "./collectors/league-apis/NflLiveApi";
-import { EspnFallbackApi } from "./collectors/league-apis/EspnFallbackApi";
+import { GameEventConfirmation, ClassificationInfo, GameEventBatch, ScoreUpdate } from "./services/GameEventConfirmation";
 
 // ============================================================================
 // CONFIGURATION
@@ -58,533 +57,13 @@ function loadConfig(): ShockFadeConfig {
       parseFloat(process.env.SHOCK_PRICE_MIN ?? "0.07"),
       parseFloat(process.env.SHOCK_PRICE_MAX ?? "0.91"),
     ],
+    minTakerVolume: parseFloat(process.env.SHOCK_MIN_TAKER_VOLUME ?? "0"),
+    takerVolumeWindowMs: parseInt(process.env.SHOCK_TAKER_WINDOW_MS ?? "10000", 10),
+    takerConfirmGraceMs: parseInt(process.env.SHOCK_TAKER_GRACE_MS ?? "2000", 10),
+    ...shockModelsFromEnv(),
   };
 }
 
-// ============================================================================
-// GAME EVENT CONFIRMATION (burst-on-shock pattern)
-// ============================================================================
-
-type Sport = "NHL" | "NBA" | "MLB" | "NFL";
-
-interface GameMapping {
-  marketSlug: string;
-  gameId: string;
-  sport: Sport;
-}
-
-/** Tracks recent scoring events for a market to detect scoring runs */
-interface MarketEventWindow {
-  /** Recent scoring events: { timestamp, team } */
-  events: Array<{ ts: number; team: string; type: string }>;
-  /** Last time we polled this market's game */
-  lastPollTs: number;
-}
-
-/**
- * Game event confirmation with adaptive polling rate.
- *
- * Idle mode: polls all mapped games every 10s.
- * Active mode (shock pending or position open): polls every 1s.
- * Tracks recent events per market for scoring run detection.
- */
-class GameEventConfirmation {
-  private nbaApi: NbaLiveApi;
-  private nhlApi: NhlLiveApi;
-  private mlbApi: MlbLiveApi;
-  private nflApi: NflLiveApi;
-  private espnApi: EspnFallbackApi;
-
-  // Game mappings: marketSlug → game info
-  private gameMappings: Map<string, GameMapping> = new Map();
-
-  // Event tracking per market (sliding 2-minute window)
-  private eventWindows: Map<string, MarketEventWindow> = new Map();
-
-  // Dedup: "gameId:type:period:clock:team"
-  private seenEventKeys: Set<string> = new Set();
-
-  // Adaptive polling state
-  private pollTimer: NodeJS.Timeout | null = null;
-  private activeMarkets: Set<string> = new Set(); // markets needing 1s polling
-  private fastPollTimer: NodeJS.Timeout | null = null;
-
-  // PBP backoff per game (for 403s etc)
-  private pbpBackoff: Map<string, { nextRetryAt: number; currentBackoffMs: number; failCount: number }> = new Map();
-
-  // Callback for when new events are detected during a burst
-  public onClassificationReady: ((marketSlug: string, recentEvents: number, isStructural: boolean) => void) | null = null;
-  public onScoreUpdate: ((marketSlug: string, homeTeam: string, awayTeam: string, homeScore: number, awayScore: number, period: string, clock: string, sport: string) => void) | null = null;
-
-  // Stats
-  private totalPolls = 0;
-  private totalBurstPolls = 0;
-  private scoreTimer: NodeJS.Timeout | null = null;
-
-  constructor() {
-    // Minimal rate limits — 1s polling is fine for these CDN endpoints
-    this.nbaApi = new NbaLiveApi(200);  // 200ms min gap (NBA CDN handles it)
-    this.nhlApi = new NhlLiveApi(200);
-    this.mlbApi = new MlbLiveApi(200);
-    this.nflApi = new NflLiveApi();
-    this.espnApi = new EspnFallbackApi(200);
-  }
-
-  // ── Lifecycle ──────────────────────────────────────────────────────
-
-  start(): void {
-    // Normal 10s polling for background event tracking
-    this.pollTimer = setInterval(() => this.pollAll(), 10000);
-    // Fast 1s polling for active markets (shock pending or position open)
-    this.fastPollTimer = setInterval(() => this.pollActiveMarkets(), 1000);
-    // Score polling every 1s (critical for detecting rapid NBA score changes)
-    this.scoreTimer = setInterval(() => this.pollScores(), 1000);
-    this.pollScores(); // immediate first poll
-    this.log("Started (10s idle / 1s active adaptive polling)");
-  }
-
-  stop(): void {
-    if (this.pollTimer) {
-      clearInterval(this.pollTimer);
-      this.pollTimer = null;
-    }
-    if (this.fastPollTimer) {
-      clearInterval(this.fastPollTimer);
-      this.fastPollTimer = null;
-    }
-    if (this.scoreTimer) {
-      clearInterval(this.scoreTimer);
-      this.scoreTimer = null;
-    }
-  }
-
-  private async pollScores(): Promise<void> {
-    if (!this.onScoreUpdate) return;
-    try {
-      const nbaGames = await this.nbaApi.getTodaysScoreboard();
-      for (const game of nbaGames) {
-        for (const [slug, mapping] of this.gameMappings.entries()) {
-          if (mapping.sport === "NBA" && mapping.gameId === game.gameId) {
-            const periodStr = game.gameStatus === 2
-              ? `Q${game.period}`
-              : game.gameStatus === 3 ? "Final" : "Pre";
-            this.onScoreUpdate(
-              slug,
-              game.awayTeam.teamTricode,
-              game.homeTeam.teamTricode,
-              game.awayTeam.score,
-              game.homeTeam.score,
-              periodStr,
-              game.gameClock?.replace(/^PT/, "").replace(/\.\d+S$/, "S").replace("M", ":").replace("S", "") || "",
-              "NBA"
-            );
-          }
-        }
-      }
-    } catch {}
-  }
-
-  /**
-   * Mark a market as active (needs 1s polling).
-   * Called when shock detected or position opened.
-   */
-  setMarketActive(marketSlug: string): void {
-    this.activeMarkets.add(marketSlug);
-    this.log(`⚡ ${marketSlug} → active (1s polling)`);
-  }
-
-  /**
-   * Mark a market as idle (back to 10s polling).
-   * Called when all positions closed and no pending shocks.
-   */
-  setMarketIdle(marketSlug: string): void {
-    this.activeMarkets.delete(marketSlug);
-    this.log(`💤 ${marketSlug} → idle (10s polling)`);
-  }
-
-  // ── Game Mapping ───────────────────────────────────────────────────
-
-  /**
-   * Build game mappings from discovered markets.
-   * Call this after market discovery and periodically on refresh.
-   */
-  async buildMappings(markets: Map<string, SportsMarket>): Promise<void> {
-    const allMarkets = Array.from(markets.values()).filter(
-      (m) => m.sport === "NHL" || m.sport === "NBA" || m.sport === "MLB" || m.sport === "NFL",
-    );
-    if (allMarkets.length === 0) return;
-
-    const today = new Date();
-    const dateStr = `${today.getUTCFullYear()}-${String(today.getUTCMonth() + 1).padStart(2, "0")}-${String(today.getUTCDate()).padStart(2, "0")}`;
-
-    // NBA
-    const nbaMarkets = allMarkets.filter((m) => m.sport === "NBA");
-    if (nbaMarkets.length > 0) {
-      try {
-        const games = await this.nbaApi.getTodaysScoreboard();
-        for (const game of games) {
-          for (const market of nbaMarkets) {
-            if (this.gameMappings.has(market.marketSlug)) continue;
-            const homeName = `${game.homeTeam.teamCity} ${game.homeTeam.teamName}`;
-            const awayName = `${game.awayTeam.teamCity} ${game.awayTeam.teamName}`;
-            if (this.fuzzyMatchTeams(market.marketSlug, homeName, awayName)) {
-              this.gameMappings.set(market.marketSlug, {
-                marketSlug: market.marketSlug,
-                gameId: game.gameId,
-                sport: "NBA",
-              });
-              this.log(`🔗 Mapped ${market.marketSlug} → NBA game ${game.gameId}`);
-            }
-          }
-        }
-      } catch (err: any) {
-        this.log(`⚠️ NBA mapping failed: ${err?.message || err}`);
-      }
-    }
-
-    // NHL
-    const nhlMarkets = allMarkets.filter((m) => m.sport === "NHL");
-    if (nhlMarkets.length > 0) {
-      try {
-        const games = await this.nhlApi.getGamesByDate(dateStr);
-        for (const game of games) {
-          for (const market of nhlMarkets) {
-            if (this.gameMappings.has(market.marketSlug)) continue;
-            if (this.fuzzyMatchTeams(market.marketSlug, game.homeTeam.commonName?.default || "", game.awayTeam.commonName?.default || "")) {
-              this.gameMappings.set(market.marketSlug, {
-                marketSlug: market.marketSlug,
-                gameId: String(game.id),
-                sport: "NHL",
-              });
-              this.log(`🔗 Mapped ${market.marketSlug} → NHL game ${game.id}`);
-            }
-          }
-        }
-      } catch (err: any) {
-        this.log(`⚠️ NHL mapping failed: ${err?.message || err}`);
-      }
-    }
-
-    // MLB
-    const mlbMarkets = allMarkets.filter((m) => m.sport === "MLB");
-    if (mlbMarkets.length > 0) {
-      try {
-        const games = await this.mlbApi.getGamesByDate(dateStr);
-        for (const game of games) {
-          for (const market of mlbMarkets) {
-            if (this.gameMappings.has(market.marketSlug)) continue;
-            if (this.fuzzyMatchTeams(market.marketSlug, game.teams.home.team.name, game.teams.away.team.name)) {
-              this.gameMappings.set(market.marketSlug, {
-                marketSlug: market.marketSlug,
-                gameId: String(game.gamePk),
-                sport: "MLB",
-              });
-              this.log(`🔗 Mapped ${market.marketSlug} → MLB game ${game.gamePk}`);
-            }
-          }
-        }
-      } catch (err: any) {
-        this.log(`⚠️ MLB mapping failed: ${err?.message || err}`);
-      }
-    }
-
-    // NFL
-    const nflMarkets = allMarkets.filter((m) => m.sport === "NFL");
-    if (nflMarkets.length > 0) {
-      try {
-        const games = await this.nflApi.getTodaysGames();
-        for (const game of games) {
-          for (const market of nflMarkets) {
-            if (this.gameMappings.has(market.marketSlug)) continue;
-            if (this.fuzzyMatchTeams(market.marketSlug, game.homeTeam, game.awayTeam)) {
-              this.gameMappings.set(market.marketSlug, {
-                marketSlug: market.marketSlug,
-                gameId: game.id,
-                sport: "NFL",
-              });
-              this.log(`🔗 Mapped ${market.marketSlug} → NFL game ${game.id}`);
-            }
-          }
-        }
-      } catch (err: any) {
-        this.log(`⚠️ NFL mapping failed: ${err?.message || err}`);
-      }
-    }
-
-    this.log(`Game mappings: ${this.gameMappings.size}/${allMarkets.length} markets mapped`);
-  }
-
-  // ── Active Market Polling (1s) ───────────────────────────────────────
-
-  /**
-   * Poll markets that are in active state (shock pending or position open).
-   * Runs every 1 second. Only polls markets in the activeMarkets set.
-   */
-  private async pollActiveMarkets(): Promise<void> {
-    if (this.activeMarkets.size === 0) return;
-
-    for (const marketSlug of this.activeMarkets) {
-      const mapping = this.gameMappings.get(marketSlug);
-      if (!mapping) continue;
-      await this.pollMarket(marketSlug, mapping, true);
-    }
-  }
-
-  // ── Normal Polling ─────────────────────────────────────────────────
-
-  private async pollAll(): Promise<void> {
-    for (const [marketSlug, mapping] of this.gameMappings.entries()) {
-      // Skip if active (already polled at 1s)
-      if (this.activeMarkets.has(marketSlug)) continue;
-
-      await this.pollMarket(marketSlug, mapping, false);
-    }
-
-    // Prune old events (>5 min)
-    const cutoff = Date.now() - 300000;
-    for (const [slug, window] of this.eventWindows.entries()) {
-      window.events = window.events.filter((e) => e.ts >= cutoff);
-      if (window.events.length === 0 && Date.now() - window.lastPollTs > 600000) {
-        this.eventWindows.delete(slug);
-      }
-    }
-
-    // Prune seen event keys if they get too large
-    if (this.seenEventKeys.size > 10000) {
-      this.seenEventKeys.clear();
-    }
-  }
-
-  private async pollMarket(marketSlug: string, mapping: GameMapping, isBurst: boolean): Promise<void> {
-    // Check PBP backoff (skip for burst — burst overrides backoff)
-    if (!isBurst) {
-      const backoffState = this.pbpBackoff.get(mapping.gameId);
-      if (backoffState && Date.now() < backoffState.nextRetryAt) return;
-    }
-
-    if (isBurst) this.totalBurstPolls++;
-    this.totalPolls++;
-
-    try {
-      let events: NormalizedGameEvent[] = [];
-
-      if (mapping.sport === "NBA") {
-        events = await this.nbaApi.getPlayByPlay(mapping.gameId);
-      } else if (mapping.sport === "NHL") {
-        events = await this.nhlApi.getPlayByPlay(mapping.gameId);
-      } else if (mapping.sport === "MLB") {
-        events = await this.mlbApi.getPlayByPlay(Number(mapping.gameId));
-      } else if (mapping.sport === "NFL") {
-        const nflEvents = await this.nflApi.getPlayByPlay(mapping.gameId);
-        events = nflEvents.map((e: any) => ({
-          type: (["goal", "penalty", "period_start", "period_end", "shootout"].includes(e.type)) ? e.type : "other" as const,
-          team: e.team,
-          period: e.period,
-          clock: e.clock,
-          description: e.description,
-          timestamp: e.timestamp,
-        }));
-      }
-
-      // Clear backoff on success
-      if (this.pbpBackoff.has(mapping.gameId)) {
-        this.log(`✅ PBP recovered for ${mapping.sport} game ${mapping.gameId}`);
-        this.pbpBackoff.delete(mapping.gameId);
-      }
-
-      this.processEvents(marketSlug, mapping.gameId, events, isBurst);
-
-    } catch (err: any) {
-      // Exponential backoff
-      const existing = this.pbpBackoff.get(mapping.gameId);
-      const newBackoffMs = existing
-        ? Math.min(existing.currentBackoffMs * 2, 300_000)
-        : 30_000;
-      const failCount = existing ? existing.failCount + 1 : 1;
-
-      this.pbpBackoff.set(mapping.gameId, {
-        nextRetryAt: Date.now() + newBackoffMs,
-        currentBackoffMs: newBackoffMs,
-        failCount,
-      });
-
-      if (failCount === 1) {
-        this.log(`⚠️ ${mapping.sport} PBP error for game ${mapping.gameId} — backoff ${(newBackoffMs / 1000).toFixed(0)}s: ${err?.message || err}`);
-      }
-    }
-  }
-
-  private processEvents(marketSlug: string, gameId: string, events: NormalizedGameEvent[], isBurst: boolean): void {
-    let window = this.eventWindows.get(marketSlug);
-    if (!window) {
-      window = { events: [], lastPollTs: 0 };
-      this.eventWindows.set(marketSlug, window);
-    }
-    window.lastPollTs = Date.now();
-
-    let newEventCount = 0;
-
-    for (const ev of events) {
-      if (ev.type === "other") continue;
-
-      const eventKey = `${gameId}:${ev.type}:${ev.period}:${ev.clock}:${ev.team}`;
-      if (this.seenEventKeys.has(eventKey)) continue;
-      this.seenEventKeys.add(eventKey);
-
-      // Track scoring events in the sliding window
-      if (ev.type === "goal") {
-        window.events.push({
-          ts: ev.timestamp || Date.now(),
-          team: ev.team,
-          type: ev.type,
-        });
-        newEventCount++;
-      }
-
-      const emoji = ev.type === "goal" ? "🏒" : ev.type === "penalty" ? "⚠️" : "📌";
-      const burstTag = isBurst ? " [BURST]" : "";
-      console.log(`${emoji}${burstTag} [${marketSlug}] ${ev.type} by ${ev.team} P${ev.period} ${ev.clock}`);
-    }
-
-    // If burst poll found new events, trigger classification callback immediately
-    if (isBurst && newEventCount > 0 && this.onClassificationReady) {
-      const info = this.getClassificationInfo(marketSlug);
-      this.log(`⚡ Burst found ${newEventCount} new events → classify: ${info.recentEvents} recent, structural=${info.isStructural}`);
-      this.onClassificationReady(marketSlug, info.recentEvents, info.isStructural);
-    }
-  }
-
-  // ── Classification ─────────────────────────────────────────────────
-
-  /**
-   * Get classification info for a market based on recent event window.
-   * Looks at scoring events in the last 2 minutes.
-   */
-  getClassificationInfo(marketSlug: string): {
-    recentEvents: number;
-    isStructural: boolean;
-    sameTeamRun: number;  // max consecutive events from same team
-  } {
-    const window = this.eventWindows.get(marketSlug);
-    if (!window) return { recentEvents: 0, isStructural: false, sameTeamRun: 0 };
-
-    // Count scoring events in last 2 minutes
-    const cutoff = Date.now() - 120000;
-    const recent = window.events.filter((e) => e.ts >= cutoff);
-    const recentEvents = recent.length;
-
-    // Detect scoring run: max consecutive events from same team
-    let maxRun = 0;
-    let currentRun = 0;
-    let currentTeam = "";
-    for (const ev of recent) {
-      if (ev.team === currentTeam) {
-        currentRun++;
-      } else {
-        currentRun = 1;
-        currentTeam = ev.team;
-      }
-      maxRun = Math.max(maxRun, currentRun);
-    }
-
-    // Structural detection: not available from free APIs yet
-    // Could be added if we detect specific event types (injury, ejection)
-    const isStructural = false;
-
-    return { recentEvents, isStructural, sameTeamRun: maxRun };
-  }
-
-  // ── Stats ──────────────────────────────────────────────────────────
-
-  getStats(): { totalPolls: number; burstPolls: number; mappings: number; trackedMarkets: number } {
-    return {
-      totalPolls: this.totalPolls,
-      burstPolls: this.totalBurstPolls,
-      mappings: this.gameMappings.size,
-      trackedMarkets: this.eventWindows.size,
-    };
-  }
-
-  // ── Fuzzy Matching (reused from recorder) ──────────────────────────
-
-  private fuzzyMatchTeams(slug: string, homeTeamName: string, awayTeamName: string): boolean {
-    const lowerSlug = slug.toLowerCase();
-    const homeLower = (homeTeamName || "").toLowerCase();
-    const awayLower = (awayTeamName || "").toLowerCase();
-
-    const TEAM_ABBREVS: Record<string, string[]> = {
-      // NBA
-      atl: ["hawks", "atlanta"], bos: ["celtics", "boston"], bkn: ["nets", "brooklyn"],
-      cha: ["hornets", "charlotte"], chi: ["bulls", "chicago"], cle: ["cavaliers", "cleveland"],
-      dal: ["mavericks", "dallas"], den: ["nuggets", "denver"], det: ["pistons", "detroit"],
-      gsw: ["warriors", "golden state"], hou: ["rockets", "houston"], ind: ["pacers", "indiana"],
-      lac: ["clippers", "la clippers"], lal: ["lakers", "los angeles lakers"],
-      mem: ["grizzlies", "memphis"], mia: ["heat", "miami"], mil: ["bucks", "milwaukee"],
-      min: ["timberwolves", "minnesota"], nop: ["pelicans", "new orleans"],
-      nyk: ["knicks", "new york knicks"], okc: ["thunder", "oklahoma"],
-      orl: ["magic", "orlando"], phi: ["76ers", "philadelphia", "sixers"],
-      phx: ["suns", "phoenix"], por: ["trail blazers", "blazers", "portland"],
-      sac: ["kings", "sacramento"], sas: ["spurs", "san antonio"],
-      tor: ["raptors", "toronto"], uta: ["jazz", "utah"], was: ["wizards", "washington"],
-      // NHL
-      ana: ["ducks", "anaheim"], ari: ["coyotes", "arizona"], buf: ["sabres", "buffalo"],
-      car: ["hurricanes", "carolina"], cbj: ["blue jackets", "columbus"],
-      cgy: ["flames", "calgary"], col: ["avalanche", "colorado"],
-      edm: ["oilers", "edmonton"], fla: ["panthers", "florida"],
-      lak: ["kings", "los angeles kings"], mtl: ["canadiens", "montreal"],
-      njd: ["devils", "new jersey"], nsh: ["predators", "nashville"],
-      nyi: ["islanders", "new york islanders"], nyr: ["rangers", "new york rangers"],
-      ott: ["senators", "ottawa"], pit: ["penguins", "pittsburgh"],
-      sea: ["kraken", "seattle"], stl: ["blues", "st. louis", "st louis"],
-      tbl: ["lightning", "tampa bay"], van: ["canucks", "vancouver"],
-      vgk: ["golden knights", "vegas"], wpg: ["jets", "winnipeg"],
-      wsh: ["capitals", "washington"],
-      // NFL
-      ne: ["patriots", "new england"], sf: ["49ers", "san francisco"],
-      gb: ["packers", "green bay"], kc: ["chiefs", "kansas city"],
-      tb: ["buccaneers", "tampa bay"], no: ["saints", "new orleans"],
-      nyg: ["giants", "new york giants"], nyj: ["jets", "new york jets"],
-      // MLB
-      nym: ["mets", "new york mets"], chc: ["cubs", "chicago cubs"],
-      chw: ["white sox", "chicago white sox"], tex: ["rangers", "texas"],
-      sd: ["padres", "san diego"], bal: ["orioles", "baltimore"],
-    };
-
-    const slugParts = lowerSlug.split("-");
-    const teamAbbrevs = slugParts.slice(1, -3);
-
-    if (teamAbbrevs.length < 2) {
-      const homeWords = homeLower.split(/\s+/);
-      const awayWords = awayLower.split(/\s+/);
-      const homeMatch = homeWords.some((w) => w.length > 2 && lowerSlug.includes(w));
-      const awayMatch = awayWords.some((w) => w.length > 2 && lowerSlug.includes(w));
-      return homeMatch && awayMatch;
-    }
-
-    let homeMatched = false;
-    let awayMatched = false;
-
-    for (const abbrev of teamAbbrevs) {
-      const possibleNames = TEAM_ABBREVS[abbrev] || [abbrev];
-      for (const name of possibleNames) {
-        if (homeLower.includes(name) || name.includes(homeLower.split(/\s+/).pop() || "")) homeMatched = true;
-        if (awayLower.includes(name) || name.includes(awayLower.split(/\s+/).pop() || "")) awayMatched = true;
-      }
-      if (homeLower.includes(abbrev) || abbrev === homeLower.substring(0, 3)) homeMatched = true;
-      if (awayLower.includes(abbrev) || abbrev === awayLower.substring(0, 3)) awayMatched = true;
-    }
-
-    return homeMatched && awayMatched;
-  }
-
-  // ── Logging ────────────────────────────────────────────────────────
-
-  private log(msg: string): void {
-    const ts = new Date().toISOString();
-    console.log(`${ts} [INFO] 🏟️  [GameEvents] ${msg}`);
-  }
-}
-
 // ============================================================================
 // MAIN
 // ============================================================================
@@ -659,13 +138,15 @@ async function main(): Promise<void> {
   const detector = new ShockFadeDetector(ws, config);
 
   console.log("💰 Initializing paper trading engine (split-and-sell)...");
-  const trader = new ShockFadePaperTrader(ws, config, "./data/shock-fade-state.json");
+  const fillModel = createFillModel(process.env.SHOCK_PAPER_FILL_MODEL ?? "queue");
+  console.log(`  Fill model: ${fillModel.name}`);
+  const trader = new ShockFadePaperTrader(ws, config, "./data/shock-fade-state.json", fillModel);
 
   // Register tokens with detector and trader (token pairs for split-and-sell)
   const marketsMap = new Map<string, SportsMarket>();
   for (const market of liveMarkets) {
     marketsMap.set(market.marketSlug, market);
-    detector.registerMarketTokens(market.tokenIds, market.marketSlug);
+    detector.registerMarketTokens(market.tokenIds, market.marketSlug, market.sport);
     trader.registerTokenPair(market.tokenIds, market.marketSlug);
   }
 
@@ -686,12 +167,31 @@ async function main(): Promise<void> {
   const entryEventCounts: Map<string, number> = new Map();
 
   // Score update callback → push to dashboard
-  gameEvents.onScoreUpdate = (marketSlug, homeTeam, awayTeam, homeScore, awayScore, period, clock, sport) => {
-    dashboard.updateScore({ marketSlug, homeTeam, awayTeam, homeScore, awayScore, period, clock, sport });
-  };
+  // (dashboard lists teams in slug order: away first)
+  gameEvents.on("scoreUpdate", ({ marketSlug, state }: ScoreUpdate) => {
+    dashboard.updateScore({
+      marketSlug,
+      homeTeam: state.away.abbrev || "AWAY",
+      awayTeam: state.home.abbrev || "HOME",
+      homeScore: state.away.score,
+      awayScore: state.home.score,
+      period: state.periodLabel,
+      clock: state.clock,
+      sport: state.sport,
+    });
+  });
+
+  // Log every new play-by-play event
+  gameEvents.on("gameEvents", ({ marketSlug, events, isBurst }: GameEventBatch) => {
+    for (const ev of events) {
+      const emoji = ev.type === "goal" ? "🏒" : ev.type === "penalty" ? "⚠️" : "📌";
+      const burstTag = isBurst ? " [BURST]" : "";
+      console.log(`${emoji}${burstTag} [${marketSlug}] ${ev.type} by ${ev.team} P${ev.period} ${ev.clock}`);
+    }
+  });
 
-  // Classification callback from 1s polling — handles both entry and exit
-  gameEvents.onClassificationReady = (marketSlug: string, recentEvents: number, isStructural: boolean) => {
+  // Classification from 1s polling — handles both entry and exit
+  gameEvents.on("classification", ({ marketSlug, recentEvents, isStructural }: ClassificationInfo) => {
     // ── ENTRY: classify pending shocks ──
     for (const [shockId, entry] of pendingShocks.entries()) {
       if (entry.shock.marketSlug !== marketSlug) continue;
@@ -750,9 +250,7 @@ async function main(): Promise<void> {
           );
           
           // Get the latest event (most recent scoring team)
-          const marketInfo = gameEvents.getClassificationInfo(marketSlug);
-          const latestEvent = marketInfo.events[marketInfo.events.length - 1];
-          const scoringTeam = latestEvent?.team;
+          const scoringTeam = gameEvents.getClassificationInfo(marketSlug).lastScoringTeam || undefined;
           
           // Get market data for team mapping
           const market = detector.getMarket(marketSlug);
@@ -778,7 +276,7 @@ async function main(): Promise<void> {
         }
       }
     }
-  };
+  });
 
   // Detector → 1s polling activation (orders placed AFTER classification)
   detector.on("shock", (shock: ShockEvent) => {
@@ -871,7 +369,7 @@ async function main(): Promise<void> {
       for (const market of newLive) {
         if (!marketsMap.has(market.marketSlug)) {
           marketsMap.set(market.marketSlug, market);
-          detector.registerMarketTokens(market.tokenIds, market.marketSlug);
+          detector.registerMarketTokens(market.tokenIds, market.marketSlug, market.sport);
           trader.registerTokenPair(market.tokenIds, market.marketSlug);
           dashboard.updateMarket(market);
           ws.addTokens(market.tokenIds);
@@ -909,6 +407,15 @@ async function main(): Promise<void> {
         `API: ${evStats.totalPolls} polls (${evStats.burstPolls} burst) | ` +
         `Dashboard: :${dashboard.getPort()} (${dashboard.getClientCount()} clients)`,
     );
+    const byModel = Object.entries(trader.getModelStats());
+    if (byModel.length > 1) {
+      console.log(
+        `🧪 [MODELS] ` +
+          byModel
+            .map(([model, s]) => `${model}: ${s.trades} trades, ${s.wins} wins, ${s.totalPnl >= 0 ? "+" : ""}$${s.totalPnl.toFixed(2)}`)
+            .join(" | "),
+      );
+    }
   }, 60000); // every minute
 
   console.log("\n" + "=".repeat(70));
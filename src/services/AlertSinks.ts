@@ -0,0 +1,310 @@
+/**
+ * AlertSinks.ts — Delivery targets for the Alerter.
+ *
+ *   WebhookSink      POST the Alert as JSON to any URL
+ *   ChatWebhookSink  POST a chat message — Telegram Bot API ({ chat_id, text })
+ *                    or a Discord webhook ({ content })
+ *   SmtpSink         plain-text email over SMTP (STARTTLS / implicit TLS,
+ *                    AUTH LOGIN) — no mail library needed
+ *   FileSink         append the Alert to a local JSONL file
+ *
+ * alertSinksFromEnv() builds whichever of these the environment configures;
+ * alerterFromEnv() wraps them in an Alerter with the ALERT_* settings.
+ */
+
+import axios from "axios";
+import * as fs from "fs";
+import * as net from "net";
+import * as os from "os";
+import * as path from "path";
+import * as tls from "tls";
+
+import { Alert, AlertSeverity, AlertSink, Alerter, DEFAULT_ALERTER_CONFIG, SEVERITY_EMOJI, isSeverity } from "./Alerter";
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/** One-message rendering shared by the chat and email sinks */
+export function formatAlertText(alert: Alert): string {
+  const lines = [`${SEVERITY_EMOJI[alert.severity]} [${alert.severity}] ${alert.title}`, alert.message];
+  if (alert.suppressed > 0) lines.push(`(${alert.suppressed} similar suppressed)`);
+  lines.push(`— ${alert.source} @ ${new Date(alert.timestamp).toISOString()}`);
+  return lines.join("\n");
+}
+
+// ============================================================================
+// HTTP SINKS
+// ============================================================================
+
+export class WebhookSink implements AlertSink {
+  readonly name = "webhook";
+
+  constructor(
+    private url: string,
+    readonly minSeverity?: AlertSeverity,
+    private headers: Record<string, string> = {},
+  ) {}
+
+  async send(alert: Alert): Promise<void> {
+    await axios.post(this.url, alert, { headers: this.headers, timeout: DEFAULT_TIMEOUT_MS });
+  }
+}
+
+export type ChatFormat = "telegram" | "discord";
+
+export class ChatWebhookSink implements AlertSink {
+  readonly name: string;
+
+  /**
+   * @param url     Telegram: https://api.telegram.org/bot<token>/sendMessage
+   *                (see telegramUrl); Discord: the channel's webhook URL
+   * @param chatId  Telegram only
+   */
+  constructor(
+    private url: string,
+    private format: ChatFormat,
+    private chatId?: string,
+    readonly minSeverity?: AlertSeverity,
+  ) {
+    this.name = format;
+  }
+
+  async send(alert: Alert): Promise<void> {
+    const text = formatAlertText(alert);
+    const body = this.format === "telegram"
+      ? { chat_id: this.chatId, text, disable_web_page_preview: true }
+      : { content: text.slice(0, 2000) };
+    await axios.post(this.url, body, { timeout: DEFAULT_TIMEOUT_MS });
+  }
+}
+
+export function telegramUrl(botToken: string, apiBase = "https://api.telegram.org"): string {
+  return `${apiBase}/bot${botToken}/sendMessage`;
+}
+
+// ============================================================================
+// SMTP
+// ============================================================================
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Implicit TLS (port 465). Otherwise STARTTLS is used when offered. */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+  to: string[];
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/** Line-buffered reader over the SMTP socket (replies may span lines: "250-...") */
+class SmtpSession {
+  private buffer = "";
+  private waiter: (() => void) | null = null;
+  private failure: Error | null = null;
+  private onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString("utf8");
+    this.wake();
+  };
+  private onError = (err: Error) => {
+    this.failure = err;
+    this.wake();
+  };
+  private onClose = () => {
+    this.failure = this.failure ?? new Error("SMTP connection closed");
+    this.wake();
+  };
+
+  constructor(private socket: net.Socket, private timeoutMs: number) {
+    this.attach();
+  }
+
+  /** STARTTLS: hand the plain socket to TLS and read from the encrypted one */
+  async upgrade(servername: string): Promise<void> {
+    const plain = this.socket;
+    plain.off("data", this.onData).off("error", this.onError).off("close", this.onClose);
+    plain.setTimeout(0);
+    this.socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const secure = tls.connect({ socket: plain, servername }, () => resolve(secure));
+      secure.once("error", reject);
+    });
+    this.buffer = "";
+    this.attach();
+  }
+
+  /** `label` names the step in errors (credentials and message bodies are never echoed) */
+  async command(line: string, expect: number[], label = line.split(" ")[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expect, label);
+  }
+
+  async expect(codes: number[], label = "greeting"): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP ${label} → ${reply.code} ${reply.text.trim()}`);
+    }
+    return reply;
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private attach(): void {
+    const socket = this.socket;
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error("SMTP timeout")));
+    socket.on("data", this.onData).on("error", this.onError).on("close", this.onClose);
+  }
+
+  private wake(): void {
+    const waiter = this.waiter;
+    this.waiter = null;
+    waiter?.();
+  }
+
+  private async read(): Promise<SmtpReply> {
+    for (;;) {
+      const lines = this.buffer.split("\r\n");
+      const last = lines.findIndex((l) => /^\d{3}(?: |$)/.test(l));
+      if (last >= 0) {
+        this.buffer = lines.slice(last + 1).join("\r\n");
+        const reply = lines.slice(0, last + 1);
+        return { code: parseInt(reply[last].slice(0, 3), 10), text: reply.map((l) => l.slice(4)).join("\n") };
+      }
+      if (this.failure) throw this.failure;
+      await new Promise<void>((resolve) => (this.waiter = resolve));
+    }
+  }
+}
+
+export class SmtpSink implements AlertSink {
+  readonly name = "email";
+
+  constructor(private config: SmtpConfig, readonly minSeverity?: AlertSeverity) {}
+
+  async send(alert: Alert): Promise<void> {
+    const { host, port, secure, user, pass, from, to } = this.config;
+    const timeoutMs = this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const s: net.Socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(s))
+        : net.connect({ host, port }, () => resolve(s));
+      s.once("error", reject);
+    });
+    const session = new SmtpSession(socket, timeoutMs);
+    try {
+      await session.expect([220]);
+      const helo = `EHLO ${os.hostname() || "localhost"}`;
+      const ehlo = await session.command(helo, [250]);
+      if (!secure && /^STARTTLS/im.test(ehlo.text)) {
+        await session.command("STARTTLS", [220]);
+        await session.upgrade(host);
+        await session.command(helo, [250]);
+      }
+      if (user) {
+        await session.command("AUTH LOGIN", [334]);
+        await session.command(Buffer.from(user).toString("base64"), [334], "AUTH user");
+        await session.command(Buffer.from(pass ?? "").toString("base64"), [235], "AUTH pass");
+      }
+      await session.command(`MAIL FROM:<${from}>`, [250]);
+      for (const rcpt of to) await session.command(`RCPT TO:<${rcpt}>`, [250, 251]);
+      await session.command("DATA", [354]);
+      await session.command(`${this.message(alert)}\r\n.`, [250], "message");
+      await session.command("QUIT", [221]).catch(() => {});
+    } finally {
+      session.close();
+    }
+  }
+
+  private message(alert: Alert): string {
+    const subject = `[${alert.severity}] ${alert.title}`;
+    const body = formatAlertText(alert)
+      .split("\n")
+      .map((l) => (l.startsWith(".") ? `.${l}` : l)) // dot-stuffing
+      .join("\r\n");
+    return [
+      `From: ${this.config.from}`,
+      `To: ${this.config.to.join(", ")}`,
+      `Subject: =?UTF-8?B?${Buffer.from(subject).toString("base64")}?=`,
+      `Date: ${new Date(alert.timestamp).toUTCString()}`,
+      "MIME-Version: 1.0",
+      "Content-Type: text/plain; charset=utf-8",
+      "Content-Transfer-Encoding: 8bit",
+      "",
+      body,
+    ].join("\r\n");
+  }
+}
+
+// ============================================================================
+// FILE
+// ============================================================================
+
+export class FileSink implements AlertSink {
+  readonly name = "file";
+
+  constructor(private filePath: string, readonly minSeverity?: AlertSeverity) {
+    const dir = path.dirname(filePath);
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  }
+
+  async send(alert: Alert): Promise<void> {
+    await fs.promises.appendFile(this.filePath, JSON.stringify(alert) + "\n");
+  }
+}
+
+// ============================================================================
+// ENV
+// ============================================================================
+
+function envSeverity(value: string | undefined): AlertSeverity | undefined {
+  const upper = value?.toUpperCase();
+  return isSeverity(upper) ? upper : undefined;
+}
+
+/**
+ * Sinks configured by the environment. The JSONL file is always on
+ * (ALERT_FILE, default ./data/alerts.jsonl); the rest only when set.
+ */
+export function alertSinksFromEnv(env: NodeJS.ProcessEnv = process.env): AlertSink[] {
+  const sinks: AlertSink[] = [new FileSink(env.ALERT_FILE || "./data/alerts.jsonl")];
+
+  if (env.ALERT_WEBHOOK_URL) {
+    sinks.push(new WebhookSink(env.ALERT_WEBHOOK_URL, envSeverity(env.ALERT_WEBHOOK_MIN_SEVERITY)));
+  }
+  if (env.TELEGRAM_BOT_TOKEN && env.TELEGRAM_CHAT_ID) {
+    sinks.push(new ChatWebhookSink(telegramUrl(env.TELEGRAM_BOT_TOKEN), "telegram", env.TELEGRAM_CHAT_ID, envSeverity(env.ALERT_CHAT_MIN_SEVERITY)));
+  }
+  if (env.DISCORD_WEBHOOK_URL) {
+    sinks.push(new ChatWebhookSink(env.DISCORD_WEBHOOK_URL, "discord", undefined, envSeverity(env.ALERT_CHAT_MIN_SEVERITY)));
+  }
+  if (env.SMTP_HOST && env.ALERT_EMAIL_TO) {
+    const port = parseInt(env.SMTP_PORT || "587", 10);
+    sinks.push(new SmtpSink({
+      host: env.SMTP_HOST,
+      port,
+      secure: env.SMTP_SECURE ? env.SMTP_SECURE === "true" : port === 465,
+      user: env.SMTP_USER,
+      pass: env.SMTP_PASS,
+      from: env.ALERT_EMAIL_FROM || env.SMTP_USER || "shock-fade@localhost",
+      to: env.ALERT_EMAIL_TO.split(",").map((s) => s.trim()).filter(Boolean),
+    }, envSeverity(env.ALERT_EMAIL_MIN_SEVERITY) ?? "ERROR"));
+  }
+  return sinks;
+}
+
+/** Alerter over alertSinksFromEnv() with ALERT_MIN_SEVERITY / ALERT_DEDUPE_MIN / ALERT_MAX_PER_MIN */
+export function alerterFromEnv(env: NodeJS.ProcessEnv = process.env): Alerter {
+  const dedupeMin = parseFloat(env.ALERT_DEDUPE_MIN || "");
+  const maxPerMinute = parseInt(env.ALERT_MAX_PER_MIN || "", 10);
+  return new Alerter(alertSinksFromEnv(env), {
+    minSeverity: envSeverity(env.ALERT_MIN_SEVERITY) ?? DEFAULT_ALERTER_CONFIG.minSeverity,
+    dedupeWindowMs: Number.isFinite(dedupeMin) ? dedupeMin * 60_000 : DEFAULT_ALERTER_CONFIG.dedupeWindowMs,
+    maxPerMinute: Number.isFinite(maxPerMinute) ? maxPerMinute : DEFAULT_ALERTER_CONFIG.maxPerMinute,
+  });
+}
@@ -0,0 +1,249 @@
+/**
+ * Alerter.ts — Operator alerts with severity, dedupe and rate limiting.
+ *
+ * Anything an operator should hear about without tailing stdout — halts,
+ * stale positions, WebSocket reconnect storms, failed splits / merges,
+ * EXTREME PRICE exits — is raised here and fanned out to pluggable sinks
+ * (AlertSinks.ts: generic webhook, Telegram / Discord JSON POST, SMTP email,
+ * local JSONL file).
+ *
+ *   severity   INFO < WARNING < ERROR < CRITICAL; below minSeverity is dropped,
+ *              and each sink can set its own floor (e.g. email ERROR+)
+ *   dedupe     one alert per key per dedupeWindowMs; repeats are counted and
+ *              reported as `suppressed` on the next one that goes out. A repeat
+ *              at a higher severity than the last one sent goes out at once.
+ *   rate limit at most maxPerMinute alerts go out per rolling minute;
+ *              CRITICAL is never rate limited
+ *
+ * raise() decides synchronously and delivers in the background — a slow or
+ * failing sink never blocks trading. flush() waits for deliveries in flight.
+ *
+ * Events: "alert" (Alert), "sinkError" ({ sink, alert, error })
+ */
+
+import { EventEmitter } from "events";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AlertSeverity = "INFO" | "WARNING" | "ERROR" | "CRITICAL";
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { INFO: 0, WARNING: 1, ERROR: 2, CRITICAL: 3 };
+
+export const SEVERITY_EMOJI: Record<AlertSeverity, string> = {
+  INFO: "ℹ️",
+  WARNING: "⚠️",
+  ERROR: "❌",
+  CRITICAL: "🚨",
+};
+
+export interface AlertInput {
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  /** Component raising it ("ShockFadeLive", "SplitClient", ...) */
+  source: string;
+  /** Dedupe key; defaults to source + title */
+  key?: string;
+  context?: Record<string, unknown>;
+}
+
+export interface Alert {
+  key: string;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  source: string;
+  context: Record<string, unknown>;
+  timestamp: number;
+  /** Repeats of this key dropped by dedupe / rate limiting since the last one sent */
+  suppressed: number;
+}
+
+/** Where alerts go. send() may throw — the Alerter counts and logs it. */
+export interface AlertSink {
+  readonly name: string;
+  /** Floor for this sink (default: everything the Alerter lets through) */
+  readonly minSeverity?: AlertSeverity;
+  send(alert: Alert): Promise<void>;
+}
+
+/** Anything that can raise alerts — what components hold */
+export interface AlertRaiser {
+  raise(input: AlertInput): Alert | null;
+}
+
+export interface AlerterConfig {
+  minSeverity: AlertSeverity;
+  dedupeWindowMs: number;
+  maxPerMinute: number;
+}
+
+export const DEFAULT_ALERTER_CONFIG: AlerterConfig = {
+  minSeverity: "INFO",
+  dedupeWindowMs: 5 * 60 * 1000,
+  maxPerMinute: 20,
+};
+
+export interface AlerterStats {
+  sent: number;
+  deduped: number;
+  rateLimited: number;
+  sinkFailures: number;
+}
+
+export function isSeverity(value: string | undefined): value is AlertSeverity {
+  return value !== undefined && value in SEVERITY_RANK;
+}
+
+export function severityAtLeast(severity: AlertSeverity, floor: AlertSeverity): boolean {
+  return SEVERITY_RANK[severity] >= SEVERITY_RANK[floor];
+}
+
+// ============================================================================
+// ALERTER
+// ============================================================================
+
+export class Alerter extends EventEmitter implements AlertRaiser {
+  private config: AlerterConfig;
+  private sinks: AlertSink[];
+  private lastSent: Map<string, { at: number; severity: AlertSeverity }> = new Map();
+  private suppressed: Map<string, number> = new Map();
+  private sentTimes: number[] = [];
+  private pending: Set<Promise<void>> = new Set();
+  private rateLimitLogged = false;
+  private stats: AlerterStats = { sent: 0, deduped: 0, rateLimited: 0, sinkFailures: 0 };
+
+  constructor(sinks: AlertSink[] = [], config: Partial<AlerterConfig> = {}) {
+    super();
+    this.sinks = [...sinks];
+    this.config = { ...DEFAULT_ALERTER_CONFIG, ...config };
+  }
+
+  addSink(sink: AlertSink): void {
+    this.sinks.push(sink);
+  }
+
+  getSinkNames(): string[] {
+    return this.sinks.map((s) => s.name);
+  }
+
+  /**
+   * Raise an alert. Returns it when it goes out, null when it was below
+   * minSeverity, a duplicate, or over the rate limit.
+   */
+  raise(input: AlertInput, now: number = Date.now()): Alert | null {
+    if (!severityAtLeast(input.severity, this.config.minSeverity)) return null;
+    const key = input.key ?? `${input.source}:${input.title}`;
+
+    const last = this.lastSent.get(key);
+    const escalated = last !== undefined && SEVERITY_RANK[input.severity] > SEVERITY_RANK[last.severity];
+    if (last && now - last.at < this.config.dedupeWindowMs && !escalated) {
+      this.suppress(key);
+      this.stats.deduped++;
+      return null;
+    }
+
+    this.sentTimes = this.sentTimes.filter((t) => now - t < 60_000);
+    if (input.severity !== "CRITICAL" && this.sentTimes.length >= this.config.maxPerMinute) {
+      this.suppress(key);
+      this.stats.rateLimited++;
+      if (!this.rateLimitLogged) {
+        console.log(`🚨 [ALERT] Rate limit (${this.config.maxPerMinute}/min) reached — holding non-critical alerts`);
+        this.rateLimitLogged = true;
+      }
+      return null;
+    }
+    this.rateLimitLogged = false;
+
+    const alert: Alert = {
+      key,
+      severity: input.severity,
+      title: input.title,
+      message: input.message,
+      source: input.source,
+      context: input.context ?? {},
+      timestamp: now,
+      suppressed: this.suppressed.get(key) ?? 0,
+    };
+    this.suppressed.delete(key);
+    this.lastSent.set(key, { at: now, severity: input.severity });
+    this.sentTimes.push(now);
+    this.stats.sent++;
+
+    console.log(`🚨 [ALERT] ${alert.severity} ${alert.title} — ${alert.message}${alert.suppressed > 0 ? ` (+${alert.suppressed} suppressed)` : ""}`);
+    this.emit("alert", alert);
+    this.dispatch(alert);
+    return alert;
+  }
+
+  /** Wait for every delivery in flight (shutdown, tests) */
+  async flush(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(Array.from(this.pending));
+    }
+  }
+
+  getStats(): AlerterStats {
+    return { ...this.stats };
+  }
+
+  private suppress(key: string): void {
+    this.suppressed.set(key, (this.suppressed.get(key) ?? 0) + 1);
+  }
+
+  private dispatch(alert: Alert): void {
+    for (const sink of this.sinks) {
+      if (sink.minSeverity && !severityAtLeast(alert.severity, sink.minSeverity)) continue;
+      const delivery = sink.send(alert).catch((error: any) => {
+        this.stats.sinkFailures++;
+        console.log(`⚠️ [ALERT] ${sink.name} sink failed for "${alert.title}": ${error?.message || error}`);
+        this.emit("sinkError", { sink: sink.name, alert, error });
+      });
+      this.pending.add(delivery);
+      delivery.finally(() => this.pending.delete(delivery));
+    }
+  }
+}
+
+// ============================================================================
+// RECONNECT STORMS
+// ============================================================================
+
+export interface ReconnectStormOptions {
+  /** Reconnects within windowMs that make a storm */
+  threshold: number;
+  windowMs: number;
+}
+
+/**
+ * Watch an OrderBookWebSocket-style emitter's "reconnected" events and raise
+ * a WARNING when `threshold` of them land inside `windowMs` (ERROR at twice
+ * that). A single reconnect is normal and stays quiet.
+ */
+export function watchReconnectStorms(
+  ws: EventEmitter,
+  alerter: AlertRaiser,
+  source: string,
+  options: Partial<ReconnectStormOptions> = {},
+): void {
+  const { threshold, windowMs } = { threshold: 3, windowMs: 10 * 60 * 1000, ...options };
+  let recent: number[] = [];
+
+  ws.on("reconnected", (info: { reconnectCount?: number; gapMs?: number; reconnectedAt?: number }) => {
+    const now = info.reconnectedAt ?? Date.now();
+    recent = [...recent.filter((t) => now - t < windowMs), now];
+    if (recent.length < threshold) return;
+
+    alerter.raise({
+      severity: recent.length >= threshold * 2 ? "ERROR" : "WARNING",
+      title: "WebSocket reconnect storm",
+      message: `${source}: ${recent.length} reconnects in ${Math.round(windowMs / 60_000)}m` +
+        (info.gapMs !== undefined ? ` (last gap ${(info.gapMs / 1000).toFixed(1)}s)` : ""),
+      source,
+      key: `${source}:reconnect-storm`,
+      context: { reconnects: recent.length, totalReconnects: info.reconnectCount, lastGapMs: info.gapMs },
+    });
+  });
+}
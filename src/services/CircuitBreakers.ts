@@ -0,0 +1,321 @@
+/**
+ * CircuitBreakers.ts — Time-windowed loss breakers with auto-resume and
+ * per-sport halts.
+ *
+ * Every closed trade's P&L is recorded with its sport. Three breakers run
+ * for the whole portfolio (GLOBAL) and separately for each sport:
+ *
+ *   WINDOW_LOSS   net loss over the last windowMs         → resumes after cooldownMs
+ *   DAILY_LOSS    net loss since UTC midnight             → resumes at the next UTC day
+ *   DRAWDOWN      peak-to-trough of the cumulative P&L    → resumes after cooldownMs,
+ *                                                            with the peak reset to now
+ *
+ * A sport halt only blocks that sport, so a bad NHL night doesn't stop NBA;
+ * a GLOBAL halt blocks everything. cooldownMs = 0 turns auto-resume off for
+ * the window and drawdown breakers (resume() by hand). After any resume the
+ * scope's loss counters start over from the resume time.
+ *
+ * The GLOBAL curve is seeded from ShockFadeLive's pnlHistory the first time;
+ * sport curves start when their first trade is recorded. Curves, recent trades
+ * and active halts are kept in `<state>-breakers.json`, so a restart comes
+ * back halted if it went down halted.
+ *
+ * ShockFadeLive's maxSessionLoss / maxConsecutiveLosses checks stay
+ * portfolio-wide on purpose: they are the last-resort stop behind these
+ * breakers, halt every sport, and only an operator lifts them.
+ *
+ * Events: "tripped" (BreakerHalt), "resumed" (BreakerHalt)
+ */
+
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import * as path from "path";
+
+/** Scope name of the portfolio-wide breakers */
+export const GLOBAL_SCOPE = "GLOBAL";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type BreakerKind = "WINDOW_LOSS" | "DAILY_LOSS" | "DRAWDOWN";
+
+/** Loss caps ($) for one scope — 0 disables a breaker */
+export interface BreakerLimits {
+  maxWindowLoss: number;
+  maxDailyLoss: number;
+  maxDrawdown: number;
+}
+
+export interface CircuitBreakerConfig {
+  windowMs: number;
+  /** Auto-resume delay for WINDOW_LOSS / DRAWDOWN halts; 0 = manual only */
+  cooldownMs: number;
+  global: BreakerLimits;
+  perSport: BreakerLimits;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  windowMs: 60 * 60 * 1000,
+  cooldownMs: 60 * 60 * 1000,
+  global: { maxWindowLoss: 20, maxDailyLoss: 40, maxDrawdown: 40 },
+  perSport: { maxWindowLoss: 10, maxDailyLoss: 25, maxDrawdown: 25 },
+};
+
+export interface BreakerHalt {
+  /** GLOBAL_SCOPE or a sport ("NBA") */
+  scope: string;
+  breaker: BreakerKind;
+  reason: string;
+  trippedAt: number;
+  /** Auto-resume time; null = until resume() */
+  resumeAt: number | null;
+}
+
+export interface BreakerScopeStatus {
+  scope: string;
+  windowLoss: number;
+  dailyLoss: number;
+  drawdown: number;
+  limits: BreakerLimits;
+}
+
+interface BreakerTrade {
+  pnl: number;
+  sport: string;
+  timestamp: number;
+}
+
+interface EquityCurve {
+  equity: number;
+  peak: number;
+}
+
+interface BreakerFile {
+  trades: BreakerTrade[];
+  curves: Record<string, EquityCurve>;
+  halts: BreakerHalt[];
+  resumedAt: Record<string, number>;
+}
+
+/** Breaker file next to the state file: foo.db → foo-breakers.json */
+export function breakerStatePath(statePath: string): string {
+  const ext = path.extname(statePath);
+  return `${ext ? statePath.slice(0, -ext.length) : statePath}-breakers.json`;
+}
+
+/** Start of the UTC day containing `now` */
+function utcDayStart(now: number): number {
+  const d = new Date(now);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+}
+
+// ============================================================================
+// BREAKERS
+// ============================================================================
+
+export class CircuitBreakers extends EventEmitter {
+  private config: CircuitBreakerConfig;
+  private trades: BreakerTrade[] = [];
+  private curves: Map<string, EquityCurve> = new Map();
+  private halts: BreakerHalt[] = [];
+  private resumedAt: Map<string, number> = new Map();
+
+  constructor(private filePath: string, config: Partial<CircuitBreakerConfig> = {}) {
+    super();
+    this.config = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config };
+    this.load();
+  }
+
+  /**
+   * Seed the GLOBAL drawdown curve from closed-trade P&L (pnlHistory).
+   * No-op once a curve exists — the persisted one wins.
+   */
+  seed(pnlHistory: number[]): void {
+    if (this.curves.has(GLOBAL_SCOPE)) return;
+    const curve = { equity: 0, peak: 0 };
+    for (const pnl of pnlHistory) {
+      curve.equity += pnl;
+      curve.peak = Math.max(curve.peak, curve.equity);
+    }
+    this.curves.set(GLOBAL_SCOPE, curve);
+    this.persist();
+  }
+
+  /** Record a closed trade and trip whatever it pushes over. Returns new halts. */
+  recordTrade(pnl: number, sport: string, timestamp: number = Date.now()): BreakerHalt[] {
+    this.trades.push({ pnl, sport, timestamp });
+    for (const scope of [GLOBAL_SCOPE, sport]) {
+      const curve = this.curves.get(scope) ?? { equity: 0, peak: 0 };
+      curve.equity += pnl;
+      curve.peak = Math.max(curve.peak, curve.equity);
+      this.curves.set(scope, curve);
+    }
+
+    const tripped = [...this.evaluate(GLOBAL_SCOPE, timestamp), ...this.evaluate(sport, timestamp)];
+    this.prune(timestamp);
+    this.persist();
+    return tripped;
+  }
+
+  /**
+   * Why trading in `sport` is halted, or null. Applies due auto-resumes first.
+   */
+  check(sport: string, now: number = Date.now()): string | null {
+    for (const halt of this.halts.filter((h) => h.resumeAt !== null && h.resumeAt <= now)) {
+      this.lift(halt, now, "cooldown elapsed");
+    }
+    const halt = this.halts.find((h) => h.scope === GLOBAL_SCOPE || h.scope === sport);
+    return halt ? `${halt.scope} ${halt.breaker}: ${halt.reason}` : null;
+  }
+
+  /** Lift every halt on `scope` (manual resume). Returns how many were lifted. */
+  resume(scope: string, operator: string, now: number = Date.now()): number {
+    const lifted = this.halts.filter((h) => h.scope === scope);
+    for (const halt of lifted) this.lift(halt, now, `resumed by ${operator}`);
+    return lifted.length;
+  }
+
+  getHalts(): BreakerHalt[] {
+    return this.halts.map((h) => ({ ...h }));
+  }
+
+  getConfig(): CircuitBreakerConfig {
+    return { ...this.config, global: { ...this.config.global }, perSport: { ...this.config.perSport } };
+  }
+
+  /** Current counters for GLOBAL and every sport seen */
+  getStatus(now: number = Date.now()): BreakerScopeStatus[] {
+    const scopes = [GLOBAL_SCOPE, ...Array.from(new Set(this.trades.map((t) => t.sport))).sort()];
+    return scopes.map((scope) => ({
+      scope,
+      windowLoss: this.lossSince(scope, now - this.config.windowMs),
+      dailyLoss: this.lossSince(scope, utcDayStart(now)),
+      drawdown: this.drawdown(scope),
+      limits: this.limitsFor(scope),
+    }));
+  }
+
+  // ============================================================================
+  // EVALUATION
+  // ============================================================================
+
+  private evaluate(scope: string, now: number): BreakerHalt[] {
+    const limits = this.limitsFor(scope);
+    const label = scope === GLOBAL_SCOPE ? "portfolio" : scope;
+    const windowMin = Math.round(this.config.windowMs / 60_000);
+    const cooldownResume = this.config.cooldownMs > 0 ? now + this.config.cooldownMs : null;
+
+    const checks: Array<{ breaker: BreakerKind; value: number; max: number; reason: (value: string) => string; resumeAt: number | null }> = [
+      {
+        breaker: "WINDOW_LOSS",
+        value: this.lossSince(scope, now - this.config.windowMs),
+        max: limits.maxWindowLoss,
+        reason: (v) => `${label} lost $${v} in ${windowMin}m (max $${limits.maxWindowLoss})`,
+        resumeAt: cooldownResume,
+      },
+      {
+        breaker: "DAILY_LOSS",
+        value: this.lossSince(scope, utcDayStart(now)),
+        max: limits.maxDailyLoss,
+        reason: (v) => `${label} lost $${v} today (max $${limits.maxDailyLoss})`,
+        resumeAt: utcDayStart(now) + 24 * 60 * 60 * 1000,
+      },
+      {
+        breaker: "DRAWDOWN",
+        value: this.drawdown(scope),
+        max: limits.maxDrawdown,
+        reason: (v) => `${label} drawdown $${v} from peak (max $${limits.maxDrawdown})`,
+        resumeAt: cooldownResume,
+      },
+    ];
+
+    const tripped: BreakerHalt[] = [];
+    for (const c of checks) {
+      if (c.max <= 0 || c.value <= c.max) continue;
+      if (this.halts.some((h) => h.scope === scope && h.breaker === c.breaker)) continue;
+      const halt: BreakerHalt = {
+        scope,
+        breaker: c.breaker,
+        reason: c.reason(c.value.toFixed(2)),
+        trippedAt: now,
+        resumeAt: c.resumeAt,
+      };
+      this.halts.push(halt);
+      tripped.push(halt);
+      const until = halt.resumeAt === null ? "manual resume" : `until ${new Date(halt.resumeAt).toISOString()}`;
+      console.log(`🛑 [BREAKER] ${scope} ${halt.breaker}: ${halt.reason} — halted ${until}`);
+      this.emit("tripped", halt);
+    }
+    return tripped;
+  }
+
+  private lift(halt: BreakerHalt, now: number, why: string): void {
+    this.halts = this.halts.filter((h) => h !== halt);
+    // Counters for the scope start over: window/daily from now, drawdown from here
+    this.resumedAt.set(halt.scope, now);
+    const curve = this.curves.get(halt.scope);
+    if (curve) curve.peak = curve.equity;
+    this.persist();
+    console.log(`✅ [BREAKER] ${halt.scope} ${halt.breaker} lifted (${why})`);
+    this.emit("resumed", halt);
+  }
+
+  /** Net loss (positive $) of a scope's trades since `since`, and since its last resume */
+  private lossSince(scope: string, since: number): number {
+    const from = Math.max(since, this.resumedAt.get(scope) ?? 0);
+    const net = this.trades
+      .filter((t) => t.timestamp >= from && (scope === GLOBAL_SCOPE || t.sport === scope))
+      .reduce((sum, t) => sum + t.pnl, 0);
+    return Math.max(0, -net);
+  }
+
+  private drawdown(scope: string): number {
+    const curve = this.curves.get(scope);
+    return curve ? curve.peak - curve.equity : 0;
+  }
+
+  private limitsFor(scope: string): BreakerLimits {
+    return scope === GLOBAL_SCOPE ? this.config.global : this.config.perSport;
+  }
+
+  /** Keep two days of trades — the daily breaker only needs today */
+  private prune(now: number): void {
+    const cutoff = Math.min(now - this.config.windowMs, utcDayStart(now)) - 24 * 60 * 60 * 1000;
+    this.trades = this.trades.filter((t) => t.timestamp >= cutoff);
+  }
+
+  // ============================================================================
+  // PERSISTENCE
+  // ============================================================================
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as BreakerFile;
+      this.trades = data.trades ?? [];
+      this.curves = new Map(Object.entries(data.curves ?? {}));
+      this.halts = data.halts ?? [];
+      this.resumedAt = new Map(Object.entries(data.resumedAt ?? {}));
+      for (const h of this.halts) {
+        console.log(`🛑 [BREAKER] Restored halt — ${h.scope} ${h.breaker}: ${h.reason}`);
+      }
+    } catch (err: any) {
+      console.log(`⚠️ [BREAKER] Could not read ${this.filePath}: ${err?.message || err}`);
+    }
+  }
+
+  private persist(): void {
+    const data: BreakerFile = {
+      trades: this.trades,
+      curves: Object.fromEntries(this.curves),
+      halts: this.halts,
+      resumedAt: Object.fromEntries(this.resumedAt),
+    };
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+    const tmp = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(data, null, 2));
+    fs.renameSync(tmp, this.filePath);
+  }
+}
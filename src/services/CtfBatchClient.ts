@@ -0,0 +1,309 @@
+/**
+ * CtfBatchClient
+ *
+ * Packs split / merge / redeem calls for many markets into one Safe
+ * execTransaction (SafeMultisend), instead of one transaction — and one
+ * nonce, and one gas bill — per market.
+ *
+ * Multisend is all-or-nothing: one bad market (already redeemed, short on
+ * tokens) reverts the whole batch. When a batch fails in a way that points at
+ * its contents (gas estimation revert, on-chain revert, Safe inner failure),
+ * it is bisected and the halves retried until every market has its own
+ * answer. Failures that say nothing about the contents (no MATIC, nonce
+ * clash, relayer timeout — outcome unknown) fail the whole batch as-is:
+ * retrying could execute twice.
+ *
+ * Works with anything that executes SafeTransaction[] — DirectExecutionClient
+ * directly, the Builder Relayer through relayerExecutor().
+ */
+
+import {
+  RelayClient,
+  OperationType,
+  SafeTransaction,
+} from "@polymarket/builder-relayer-client";
+import { Interface } from "ethers/lib/utils";
+import { DirectExecutionResult } from "./DirectExecutionClient";
+
+// Polygon Mainnet Constants
+const CTF_CONTRACT = "0x4D97DCd97eC945f40cF65F87097ACe5EA0476045";
+const NEGRISK_ADAPTER = "0xd91E80cF2E7be2e162c6513ceD06f1dD0dA35296"; // For sports markets
+const USDC_E = "0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174";
+const PARENT_COLLECTION_ID =
+  "0x0000000000000000000000000000000000000000000000000000000000000000";
+
+/** Markets per execTransaction — keeps a batch well under the block gas limit */
+export const DEFAULT_MAX_BATCH_ITEMS = 10;
+
+/** Errors that mean "something in this batch reverts" — worth bisecting */
+const BISECTABLE_ERRORS = [
+  "GAS_ESTIMATION_FAILED",
+  "TRANSACTION_REVERTED",
+  "SAFE_EXECUTION_FAILURE",
+  "TRANSACTION_FAILED_ONCHAIN",
+];
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type CtfOperation = "SPLIT" | "MERGE" | "REDEEM";
+
+export interface CtfBatchItem {
+  op: CtfOperation;
+  conditionId: string;
+  /** SPLIT: USDC to split. MERGE: pairs to merge. REDEEM: shares (NegRisk only) */
+  amount: number;
+  negRisk: boolean;
+  /** REDEEM: winning outcome, 1 or 2 */
+  outcomeIndex?: number;
+  /** Caller's key for the item (e.g. marketSlug) — carried into the result */
+  ref?: string;
+}
+
+export interface CtfItemResult {
+  item: CtfBatchItem;
+  success: boolean;
+  transactionHash?: string;
+  error?: string;
+  /** Items that shared the transaction (1 = executed alone) */
+  batchSize: number;
+  /** This item's share of the transaction's gas */
+  gasCostMatic?: number;
+}
+
+export interface CtfBatchResult {
+  /** One per input item, in input order */
+  results: CtfItemResult[];
+  /** Transactions attempted, including failed ones */
+  transactions: number;
+  gasCostMatic: number;
+}
+
+/** Anything that executes SafeTransaction[] through the Safe */
+export interface SafeExecutor {
+  execute(txns: SafeTransaction[]): Promise<DirectExecutionResult>;
+}
+
+// ─── Encoding ─────────────────────────────────────────────────────────────────
+
+const ctfInterface = new Interface([
+  "function splitPosition(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] partition, uint256 amount)",
+  "function mergePositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] partition, uint256 amount)",
+  "function redeemPositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] indexSets)",
+]);
+const negRiskInterface = new Interface([
+  "function splitPosition(bytes32 conditionId, uint256 amount)",
+  "function mergePositions(bytes32 conditionId, uint256 amount)",
+  "function redeemPositions(bytes32 _conditionId, uint256[] _amounts)",
+]);
+const erc20Interface = new Interface([
+  "function approve(address spender, uint256 amount)",
+]);
+
+function call(to: string, data: string): SafeTransaction {
+  return { to, operation: OperationType.Call, data, value: "0" };
+}
+
+/** Why an item can't be sent, or null */
+export function validateCtfItem(item: CtfBatchItem): string | null {
+  if (!item.conditionId) return "INVALID_ITEM: missing conditionId";
+  if (item.op === "REDEEM") {
+    if (item.outcomeIndex !== 1 && item.outcomeIndex !== 2) return "INVALID_ITEM: outcomeIndex must be 1 or 2";
+    if (item.negRisk && !(item.amount > 0)) return "INVALID_ITEM: NegRisk redemption needs shares";
+    return null;
+  }
+  if (!(item.amount > 0)) return `INVALID_ITEM: ${item.op} amount must be positive`;
+  return null;
+}
+
+/**
+ * SafeTransaction[] for a batch: one USDC approve per split target (sized
+ * for all its splits), then each item's call in order.
+ */
+export function buildCtfTransactions(items: CtfBatchItem[]): SafeTransaction[] {
+  const approvals = new Map<string, number>();
+  const calls: SafeTransaction[] = [];
+
+  for (const item of items) {
+    const conditionId = item.conditionId.startsWith("0x") ? item.conditionId : `0x${item.conditionId}`;
+    // 6 decimals (USDC precision) — shares use the same scale
+    const amountInWei = Math.floor(item.amount * 1_000_000);
+
+    switch (item.op) {
+      case "SPLIT": {
+        const target = item.negRisk ? NEGRISK_ADAPTER : CTF_CONTRACT;
+        approvals.set(target, (approvals.get(target) ?? 0) + amountInWei);
+        calls.push(item.negRisk
+          ? call(NEGRISK_ADAPTER, negRiskInterface.encodeFunctionData("splitPosition", [conditionId, amountInWei]))
+          : call(CTF_CONTRACT, ctfInterface.encodeFunctionData("splitPosition", [USDC_E, PARENT_COLLECTION_ID, conditionId, [1, 2], amountInWei])));
+        break;
+      }
+      case "MERGE":
+        calls.push(item.negRisk
+          ? call(NEGRISK_ADAPTER, negRiskInterface.encodeFunctionData("mergePositions", [conditionId, amountInWei]))
+          : call(CTF_CONTRACT, ctfInterface.encodeFunctionData("mergePositions", [USDC_E, PARENT_COLLECTION_ID, conditionId, [1, 2], amountInWei])));
+        break;
+      case "REDEEM": {
+        const amounts = item.outcomeIndex === 1 ? [amountInWei, 0] : [0, amountInWei];
+        calls.push(item.negRisk
+          ? call(NEGRISK_ADAPTER, negRiskInterface.encodeFunctionData("redeemPositions", [conditionId, amounts]))
+          : call(CTF_CONTRACT, ctfInterface.encodeFunctionData("redeemPositions", [USDC_E, PARENT_COLLECTION_ID, conditionId, [item.outcomeIndex]])));
+        break;
+      }
+    }
+  }
+
+  const approveTxs = Array.from(approvals, ([target, amount]) =>
+    call(USDC_E, erc20Interface.encodeFunctionData("approve", [target, amount])));
+  return [...approveTxs, ...calls];
+}
+
+// ─── Relayer adapter ──────────────────────────────────────────────────────────
+
+/**
+ * SafeExecutor over the Builder Relayer (gas-free, 100 tx/day quota —
+ * batching saves quota as well as gas).
+ */
+export function relayerExecutor(client: RelayClient, description: string, timeoutMs: number = 60000): SafeExecutor {
+  return {
+    async execute(txns: SafeTransaction[]): Promise<DirectExecutionResult> {
+      // Suppress the relayer client's verbose logs
+      const originalLog = console.log;
+      console.log = () => {};
+      try {
+        const response = await client.execute(txns, description);
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error("RELAYER_TIMEOUT")), timeoutMs);
+        });
+        const result: any = await Promise.race([response.wait(), timeout]).finally(() => clearTimeout(timer));
+        if (!result || !result.transactionHash) {
+          return { success: false, error: "TRANSACTION_FAILED_ONCHAIN" };
+        }
+        return { success: true, transactionHash: result.transactionHash };
+      } catch (error: any) {
+        return { success: false, error: (error?.message || "Unknown error").slice(0, 500) };
+      } finally {
+        console.log = originalLog;
+      }
+    },
+  };
+}
+
+/**
+ * One transaction per item, for clients with no Safe to batch through (EOA
+ * mode). Same result shape as a batch.
+ */
+export async function sequentialCtfBatch(
+  items: CtfBatchItem[],
+  run: (item: CtfBatchItem) => Promise<{ success: boolean; transactionHash?: string; error?: string; gasCostMatic?: number }>,
+): Promise<CtfBatchResult> {
+  const batch: CtfBatchResult = { results: [], transactions: 0, gasCostMatic: 0 };
+  for (const item of items) {
+    const invalid = validateCtfItem(item);
+    if (invalid) {
+      batch.results.push({ item, success: false, error: invalid, batchSize: 0 });
+      continue;
+    }
+    batch.transactions++;
+    try {
+      const r = await run(item);
+      batch.gasCostMatic += r.gasCostMatic ?? 0;
+      batch.results.push({ item, success: r.success, transactionHash: r.transactionHash, error: r.error, batchSize: 1, gasCostMatic: r.gasCostMatic });
+    } catch (error: any) {
+      batch.results.push({ item, success: false, error: error?.message || "Unknown error", batchSize: 1 });
+    }
+  }
+  return batch;
+}
+
+// ─── Client ───────────────────────────────────────────────────────────────────
+
+export class CtfBatchClient {
+  private executor: SafeExecutor;
+  private maxItems: number;
+
+  constructor(executor: SafeExecutor, maxItemsPerTx: number = DEFAULT_MAX_BATCH_ITEMS) {
+    this.executor = executor;
+    this.maxItems = Math.max(1, maxItemsPerTx);
+  }
+
+  /**
+   * Execute items in as few transactions as possible. Never throws — every
+   * item gets a result, in input order.
+   */
+  async execute(items: CtfBatchItem[]): Promise<CtfBatchResult> {
+    const results: CtfItemResult[] = new Array(items.length);
+    const batch: CtfBatchResult = { results, transactions: 0, gasCostMatic: 0 };
+
+    const valid: number[] = [];
+    items.forEach((item, i) => {
+      const invalid = validateCtfItem(item);
+      if (invalid) results[i] = { item, success: false, error: invalid, batchSize: 0 };
+      else valid.push(i);
+    });
+
+    for (let start = 0; start < valid.length; start += this.maxItems) {
+      await this.executeChunk(items, valid.slice(start, start + this.maxItems), batch);
+    }
+
+    const ok = results.filter((r) => r.success).length;
+    if (items.length > 1) {
+      console.log(`📦 [CTF BATCH] ${ok}/${items.length} ok in ${batch.transactions} tx (gas: ${batch.gasCostMatic.toFixed(4)} MATIC)`);
+    }
+    return batch;
+  }
+
+  async split(items: Array<Omit<CtfBatchItem, "op">>): Promise<CtfBatchResult> {
+    return this.execute(items.map((i) => ({ ...i, op: "SPLIT" as const })));
+  }
+
+  async merge(items: Array<Omit<CtfBatchItem, "op">>): Promise<CtfBatchResult> {
+    return this.execute(items.map((i) => ({ ...i, op: "MERGE" as const })));
+  }
+
+  async redeem(items: Array<Omit<CtfBatchItem, "op">>): Promise<CtfBatchResult> {
+    return this.execute(items.map((i) => ({ ...i, op: "REDEEM" as const })));
+  }
+
+  private async executeChunk(items: CtfBatchItem[], indexes: number[], batch: CtfBatchResult): Promise<void> {
+    const chunk = indexes.map((i) => items[i]);
+    batch.transactions++;
+    let result: DirectExecutionResult;
+    try {
+      result = await this.executor.execute(buildCtfTransactions(chunk));
+    } catch (error: any) {
+      result = { success: false, error: (error?.message || "Unknown error").slice(0, 500) };
+    }
+
+    if (result.success) {
+      const gas = result.gasCostMatic ? parseFloat(result.gasCostMatic) : 0;
+      batch.gasCostMatic += gas;
+      for (const i of indexes) {
+        batch.results[i] = {
+          item: items[i],
+          success: true,
+          transactionHash: result.transactionHash,
+          batchSize: indexes.length,
+          gasCostMatic: gas / indexes.length,
+        };
+      }
+      return;
+    }
+
+    const error = result.error || "Unknown error";
+    const bisectable = BISECTABLE_ERRORS.some((e) => error.startsWith(e));
+    if (indexes.length > 1 && bisectable) {
+      console.log(`   ⚠️ [CTF BATCH] ${indexes.length}-item batch failed (${error.slice(0, 60)}) — splitting to isolate`);
+      const mid = Math.ceil(indexes.length / 2);
+      await this.executeChunk(items, indexes.slice(0, mid), batch);
+      await this.executeChunk(items, indexes.slice(mid), batch);
+      return;
+    }
+
+    for (const i of indexes) {
+      batch.results[i] = { item: items[i], success: false, error, transactionHash: result.transactionHash, batchSize: indexes.length };
+    }
+  }
+}
+
+export default CtfBatchClient;
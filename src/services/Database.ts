@@ -1,6 +1,9 @@
 import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
+import { SchemaModule, applyMigrations } from './SchemaMigrations';
+import { SHOCK_FADE_SCHEMA } from './ShockFadeSchema';
+import { LEGACY_CRYPTO_SCHEMA } from './LegacyCryptoSchema';
 
 export interface Position {
   id?: number;
@@ -122,6 +125,9 @@ export interface ScalpOrder {
   pnl: number | null;  // For sells, profit/loss
 }
 
+/** Schema modules of trading.db, in migration order */
+export const TRADING_DB_SCHEMAS: SchemaModule[] = [SHOCK_FADE_SCHEMA, LEGACY_CRYPTO_SCHEMA];
+
 export class DatabaseService {
   private db: Database.Database;
 
@@ -139,230 +145,7 @@ export class DatabaseService {
     const finalPath = dbPath || path.join(dataDir, 'trading.db');
     this.db = new Database(finalPath);
     this.db.pragma('journal_mode = WAL');
-    this.initSchema();
-  }
-
-  private initSchema(): void {
-    // Positions table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS positions (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        market_slug TEXT NOT NULL,
-        condition_id TEXT NOT NULL,
-        token_id TEXT NOT NULL,
-        entry_price REAL NOT NULL,
-        shares REAL NOT NULL,
-        entry_time INTEGER NOT NULL,
-        market_end_time INTEGER NOT NULL,
-        exit_price REAL,
-        exit_time INTEGER,
-        exit_reason TEXT,
-        pnl REAL,
-        pnl_synced INTEGER DEFAULT 0,
-        redeemed INTEGER DEFAULT 0,
-        created_at TEXT DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
-
-    // Add pnl_synced column if it doesn't exist (migration for existing databases)
-    try {
-      this.db.exec(`ALTER TABLE positions ADD COLUMN pnl_synced INTEGER DEFAULT 0`);
-    } catch (e) {
-      // Column already exists, ignore
-    }
-
-    // Note: martingale_state table deprecated - now using capital_baseline for AUM-based tracking
-    // Keeping the table for backward compatibility but not actively used
-
-    // Trade log table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS trade_log (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        position_id INTEGER,
-        event_type TEXT NOT NULL,
-        details TEXT,
-        timestamp INTEGER NOT NULL,
-        FOREIGN KEY (position_id) REFERENCES positions(id)
-      );
-    `);
-
-    // Note: martingale_state initialization removed - now using capital_baseline for AUM-based tracking
-
-    // Capital baseline table (single row) - AUM-based PNL tracking
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS capital_baseline (
-        id INTEGER PRIMARY KEY CHECK (id = 1),
-        baseline REAL NOT NULL,
-        last_updated INTEGER NOT NULL,
-        recovery_attempts INTEGER DEFAULT 0
-      );
-    `);
-
-    // Add recovery_attempts column if it doesn't exist (migration for existing databases)
-    try {
-      this.db.exec(`ALTER TABLE capital_baseline ADD COLUMN recovery_attempts INTEGER DEFAULT 0`);
-    } catch (e) {
-      // Column already exists, ignore
-    }
-
-    // Signal state table - stores incoming signals from external system
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS signal_state (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        timestamp INTEGER NOT NULL,
-        state TEXT NOT NULL,
-        market_start INTEGER NOT NULL,
-        received_at INTEGER NOT NULL,
-        UNIQUE(market_start)
-      );
-    `);
-
-    // Redemption tracking table - tracks redemption attempts per condition
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS redemption_tracking (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        condition_id TEXT NOT NULL,
-        market_slug TEXT NOT NULL,
-        attempt_count INTEGER NOT NULL DEFAULT 0,
-        last_attempt_at INTEGER,
-        last_tx_hash TEXT,
-        last_success INTEGER DEFAULT 0,
-        created_at INTEGER NOT NULL
-      );
-    `);
-
-    // Create indexes
-    this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_positions_market_slug ON positions(market_slug);
-      CREATE INDEX IF NOT EXISTS idx_positions_condition_id ON positions(condition_id);
-      CREATE INDEX IF NOT EXISTS idx_positions_redeemed ON positions(redeemed);
-      CREATE INDEX IF NOT EXISTS idx_trade_log_position ON trade_log(position_id);
-      CREATE INDEX IF NOT EXISTS idx_trade_log_event ON trade_log(event_type);
-      CREATE INDEX IF NOT EXISTS idx_signal_state_market ON signal_state(market_start);
-      CREATE UNIQUE INDEX IF NOT EXISTS idx_redemption_tracking_condition ON redemption_tracking(condition_id);
-    `);
-
-    // ============ Arbitrage Tables ============
-
-    // Arbitrage positions (per market)
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS arbitrage_positions (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        market_slug TEXT NOT NULL,
-        condition_id TEXT NOT NULL UNIQUE,
-        up_token_id TEXT NOT NULL,
-        down_token_id TEXT NOT NULL,
-        qty_up REAL DEFAULT 0,
-        qty_down REAL DEFAULT 0,
-        cost_up REAL DEFAULT 0,
-        cost_down REAL DEFAULT 0,
-        pair_cost REAL,
-        hedged_qty REAL,
-        guaranteed_profit REAL,
-        profit_locked INTEGER DEFAULT 0,
-        created_at INTEGER NOT NULL,
-        settled_at INTEGER,
-        settlement_pnl REAL
-      );
-    `);
-
-    // Arbitrage trades (individual fills)
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS arbitrage_trades (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        position_id INTEGER NOT NULL,
-        order_id TEXT,
-        side TEXT NOT NULL,
-        price REAL NOT NULL,
-        quantity REAL NOT NULL,
-        cost REAL NOT NULL,
-        timestamp INTEGER NOT NULL,
-        FOREIGN KEY (position_id) REFERENCES arbitrage_positions(id)
-      );
-    `);
-
-    // Arbitrage indexes
-    this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_arb_positions_condition ON arbitrage_positions(condition_id);
-      CREATE INDEX IF NOT EXISTS idx_arb_positions_profit_locked ON arbitrage_positions(profit_locked);
-      CREATE INDEX IF NOT EXISTS idx_arb_trades_position ON arbitrage_trades(position_id);
-    `);
-
-    // Migration: Add per-side redemption tracking columns
-    try {
-      this.db.exec(`ALTER TABLE arbitrage_positions ADD COLUMN up_redeemed INTEGER DEFAULT 0`);
-    } catch (e) { /* Column already exists */ }
-
-    try {
-      this.db.exec(`ALTER TABLE arbitrage_positions ADD COLUMN down_redeemed INTEGER DEFAULT 0`);
-    } catch (e) { /* Column already exists */ }
-
-    // ============ Scalping Tables ============
-
-    // Scalp orders (individual GTC orders for scalping strategy)
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS scalp_orders (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        order_id TEXT UNIQUE NOT NULL,
-        condition_id TEXT NOT NULL,
-        token_id TEXT NOT NULL,
-        side TEXT NOT NULL,
-        type TEXT NOT NULL,
-        price REAL NOT NULL,
-        shares INTEGER NOT NULL,
-        status TEXT DEFAULT 'OPEN',
-        filled_shares INTEGER DEFAULT 0,
-        linked_buy_id TEXT,
-        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-        filled_at TEXT,
-        pnl REAL
-      );
-    `);
-
-    // Scalping indexes
-    this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_scalp_orders_status ON scalp_orders(status);
-      CREATE INDEX IF NOT EXISTS idx_scalp_orders_condition ON scalp_orders(condition_id);
-      CREATE INDEX IF NOT EXISTS idx_scalp_orders_order_id ON scalp_orders(order_id);
-      CREATE INDEX IF NOT EXISTS idx_scalp_orders_linked ON scalp_orders(linked_buy_id);
-    `);
-
-    // ============ Dashboard Monitoring Tables ============
-
-    // Price history table (for dashboard charts)
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS price_history (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        market_slug TEXT NOT NULL,
-        condition_id TEXT NOT NULL,
-        timestamp INTEGER NOT NULL,
-        up_bid REAL NOT NULL,
-        up_ask REAL NOT NULL,
-        down_bid REAL NOT NULL,
-        down_ask REAL NOT NULL
-      );
-    `);
-
-    // User fills table (real user trades from UserChannelWS)
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS user_fills (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        market_slug TEXT NOT NULL,
-        condition_id TEXT NOT NULL,
-        order_id TEXT NOT NULL,
-        side TEXT NOT NULL,
-        price REAL NOT NULL,
-        size REAL NOT NULL,
-        timestamp INTEGER NOT NULL
-      );
-    `);
-
-    // Dashboard monitoring indexes
-    this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_price_history_cond_ts ON price_history(condition_id, timestamp);
-      CREATE INDEX IF NOT EXISTS idx_user_fills_cond ON user_fills(condition_id);
-      CREATE INDEX IF NOT EXISTS idx_user_fills_timestamp ON user_fills(timestamp);
-    `);
+    applyMigrations(this.db, TRADING_DB_SCHEMAS, (msg) => console.log(msg));
   }
 
   // ============ Position Methods ============
@@ -1058,53 +841,9 @@ export class DatabaseService {
     return result.changes;
   }
 
-  // ============ Simulation Tables & Methods ============
-
-  private initSimulationSchema(): void {
-    // Simulation runs table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS simulation_runs (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        market_slug TEXT NOT NULL,
-        started_at INTEGER NOT NULL,
-        ended_at INTEGER,
-        initial_balance REAL NOT NULL,
-        final_balance REAL,
-        total_pnl REAL,
-        hedged_qty REAL,
-        pair_cost REAL
-      );
-    `);
-
-    // Simulation trades table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS simulation_trades (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        run_id INTEGER NOT NULL,
-        timestamp INTEGER NOT NULL,
-        minute REAL NOT NULL,
-        side TEXT NOT NULL,
-        order_type TEXT NOT NULL,
-        price REAL NOT NULL,
-        size REAL NOT NULL,
-        cost REAL NOT NULL,
-        up_qty REAL NOT NULL,
-        down_qty REAL NOT NULL,
-        up_avg REAL NOT NULL,
-        down_avg REAL NOT NULL,
-        hedged REAL NOT NULL,
-        FOREIGN KEY (run_id) REFERENCES simulation_runs(id)
-      );
-    `);
-
-    this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_sim_trades_run ON simulation_trades(run_id);
-      CREATE INDEX IF NOT EXISTS idx_sim_trades_timestamp ON simulation_trades(timestamp);
-    `);
-  }
+  // ============ Simulation Methods ============
 
   createSimulationRun(marketSlug: string, initialBalance: number): number {
-    this.initSimulationSchema();
     const stmt = this.db.prepare(`
       INSERT INTO simulation_runs (market_slug, started_at, initial_balance)
       VALUES (?, ?, ?)
@@ -1159,7 +898,6 @@ export class DatabaseService {
   }
 
   getSimulationRuns(limit: number = 20): any[] {
-    this.initSimulationSchema();
     return this.db.prepare(`
       SELECT * FROM simulation_runs ORDER BY started_at DESC LIMIT ?
     `).all(limit);
@@ -1172,7 +910,6 @@ export class DatabaseService {
   }
 
   getLatestSimulationRun(): any {
-    this.initSimulationSchema();
     return this.db.prepare(`
       SELECT * FROM simulation_runs ORDER BY started_at DESC LIMIT 1
     `).get();
@@ -14,6 +14,11 @@
  *   5. Packs signature into Gnosis format (r + s + v, 65 bytes)
  *   6. Calls execTransaction() on the proxy contract directly
  *   7. Waits for receipt and returns result
+ *
+ * Steps 3-7 run inside the EOA's SafeTxQueue (shared by every client with
+ * the same key in this process): nonces are allocated locally, stuck
+ * transactions are re-sent with higher fees, and in-flight transactions
+ * survive a restart. See SafeTxQueue.ts.
  */
 
 import { ethers } from "ethers";
@@ -21,6 +26,13 @@ import {
   SafeTransaction,
   OperationType,
 } from "@polymarket/builder-relayer-client";
+import {
+  SafeTxQueue,
+  TxChain,
+  TxQueueConfig,
+  TxRequest,
+  safeTxQueuePath,
+} from "./SafeTxQueue";
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
@@ -133,6 +145,9 @@ function aggregateTransactions(
   };
 }
 
+/** One queue per EOA, so SplitClient and MergeClient don't race each other */
+const queues = new Map<string, SafeTxQueue>();
+
 // ─── Client ───────────────────────────────────────────────────────────────────
 
 export class DirectExecutionClient {
@@ -140,8 +155,9 @@ export class DirectExecutionClient {
   private provider: ethers.providers.JsonRpcProvider;
   private proxyAddress: string;
   private safeContract: ethers.Contract;
+  private queue: SafeTxQueue;
 
-  constructor(privateKey: string, rpcUrl?: string) {
+  constructor(privateKey: string, rpcUrl?: string, queueConfig?: Partial<TxQueueConfig>) {
     const formattedPk = privateKey.startsWith("0x")
       ? privateKey
       : `0x${privateKey}`;
@@ -165,6 +181,14 @@ export class DirectExecutionClient {
       this.wallet // connected to our EOA signer so we pay gas
     );
 
+    const key = this.wallet.address.toLowerCase();
+    let queue = queues.get(key);
+    if (!queue) {
+      queue = new SafeTxQueue(this.createChain(), safeTxQueuePath(this.wallet.address), queueConfig);
+      queues.set(key, queue);
+    }
+    this.queue = queue;
+
     console.log(
       `⚡ DirectExecutionClient initialized`
     );
@@ -206,13 +230,20 @@ export class DirectExecutionClient {
     return ethers.utils.formatEther(balance);
   }
 
+  /**
+   * The EOA's transaction queue (in-flight transactions, recover() at startup)
+   */
+  getQueue(): SafeTxQueue {
+    return this.queue;
+  }
+
   /**
    * Drop-in replacement for RelayClient.execute()
    *
    * Takes the same SafeTransaction[] array, signs with EIP-712,
    * and calls execTransaction() on the Gnosis Safe proxy directly.
    */
-  async execute(txns: SafeTransaction[]): Promise<DirectExecutionResult> {
+  async execute(txns: SafeTransaction[], description?: string): Promise<DirectExecutionResult> {
     try {
       if (txns.length === 0) {
         return { success: false, error: "No transactions to execute" };
@@ -221,118 +252,21 @@ export class DirectExecutionClient {
       // 1. Aggregate transactions (single or multisend batch)
       const aggregated = aggregateTransactions(txns);
 
-      // 2. Read on-chain nonce from proxy
-      const nonce = await this.getNonce();
-
-      // 3. Build EIP-712 domain and values
-      const domain = {
-        chainId: POLYGON_CHAIN_ID,
-        verifyingContract: this.proxyAddress,
-      };
-
-      const values = {
-        to: aggregated.to,
-        value: aggregated.value,
-        data: aggregated.data,
-        operation: aggregated.operation,
-        safeTxGas: 0,
-        baseGas: 0,
-        gasPrice: 0,
-        gasToken: ZERO_ADDRESS,
-        refundReceiver: ZERO_ADDRESS,
-        nonce: nonce,
-      };
-
-      // 4. Sign with EIP-712 (_signTypedData in ethers.js v5)
-      const signature = await this.wallet._signTypedData(
-        domain,
-        EIP712_SAFE_TX_TYPES,
-        values
-      );
-
-      // 5. Pack signature into Gnosis Safe format (r + s + v, 65 bytes)
-      // ethers returns compact sig, we need to split and repack
-      const sig = ethers.utils.splitSignature(signature);
-      // Gnosis Safe expects v = 27 or 28 for ECDSA signatures
-      const packedSignature = ethers.utils.solidityPack(
-        ["bytes32", "bytes32", "uint8"],
-        [sig.r, sig.s, sig.v]
+      // 2-8. Sign, estimate and send in nonce order; the queue waits for the
+      // receipt and replaces the transaction with higher fees if it's stuck
+      const outcome = await this.queue.submit(
+        description || `${txns.length} txn(s)`,
+        (nonce) => this.prepareExecTransaction(aggregated, nonce, txns.length),
       );
-
-      // 6. Estimate gas with buffer
-      let gasEstimate: ethers.BigNumber;
-      try {
-        gasEstimate = await this.safeContract.estimateGas.execTransaction(
-          aggregated.to,
-          aggregated.value,
-          aggregated.data,
-          aggregated.operation,
-          0, // safeTxGas
-          0, // baseGas
-          0, // gasPrice
-          ZERO_ADDRESS, // gasToken
-          ZERO_ADDRESS, // refundReceiver
-          packedSignature
-        );
-      } catch (estimateError: any) {
-        // If gas estimation fails, the transaction would revert
-        const reason = estimateError.reason || estimateError.message || "Unknown";
-        console.error(
-          `   ❌ Gas estimation failed (tx would revert): ${reason.slice(0, 100)}`
-        );
-        return {
-          success: false,
-          error: `GAS_ESTIMATION_FAILED: ${reason.slice(0, 200)}`,
-        };
-      }
-
-      // Add 20% gas buffer for safety
-      const gasLimit = gasEstimate.mul(120).div(100);
-
-      // 7. Get gas price params (EIP-1559)
-      const feeData = await this.provider.getFeeData();
-      const minPriorityFee = ethers.utils.parseUnits("30", "gwei");
-      const minMaxFee = ethers.utils.parseUnits("100", "gwei");
-
-      const maxPriorityFeePerGas =
-        feeData.maxPriorityFeePerGas &&
-        feeData.maxPriorityFeePerGas.gt(minPriorityFee)
-          ? feeData.maxPriorityFeePerGas
-          : minPriorityFee;
-
-      const maxFeePerGas =
-        feeData.maxFeePerGas && feeData.maxFeePerGas.gt(minMaxFee)
-          ? feeData.maxFeePerGas
-          : minMaxFee;
-
-      // 8. Send the execTransaction call
-      console.log(
-        `   📤 Sending execTransaction (nonce=${nonce}, gasLimit=${gasLimit.toString()}, txns=${txns.length})...`
-      );
-
-      const tx = await this.safeContract.execTransaction(
-        aggregated.to,
-        aggregated.value,
-        aggregated.data,
-        aggregated.operation,
-        0, // safeTxGas
-        0, // baseGas
-        0, // gasPrice
-        ZERO_ADDRESS, // gasToken
-        ZERO_ADDRESS, // refundReceiver
-        packedSignature,
-        {
-          gasLimit,
-          maxPriorityFeePerGas,
-          maxFeePerGas,
+      if (outcome.status === "FAILED") {
+        if (!outcome.error.startsWith("GAS_ESTIMATION_FAILED")) {
+          console.error(`   ❌ ${outcome.error.slice(0, 140)}`);
         }
-      );
+        return { success: false, error: outcome.error };
+      }
 
-      // 9. Wait for receipt
-      console.log(
-        `   ⏳ Waiting for confirmation (tx: ${tx.hash.slice(0, 14)}...)...`
-      );
-      const receipt = await tx.wait();
+      // 9. Receipt
+      const receipt = outcome.receipt;
 
       if (receipt.status === 0) {
         console.error(`   ❌ Transaction reverted on-chain`);
@@ -394,6 +328,132 @@ export class DirectExecutionClient {
       return { success: false, error: errMsg.slice(0, 500) };
     }
   }
+
+  /**
+   * Sign the SafeTx for `nonce` and estimate gas for execTransaction.
+   * Called by the queue once it's this transaction's turn.
+   */
+  private async prepareExecTransaction(
+    aggregated: { to: string; value: string; data: string; operation: number },
+    nonce: number,
+    txnCount: number,
+  ): Promise<TxRequest | { error: string }> {
+    // 3. Build EIP-712 domain and values
+    const domain = {
+      chainId: POLYGON_CHAIN_ID,
+      verifyingContract: this.proxyAddress,
+    };
+
+    const values = {
+      to: aggregated.to,
+      value: aggregated.value,
+      data: aggregated.data,
+      operation: aggregated.operation,
+      safeTxGas: 0,
+      baseGas: 0,
+      gasPrice: 0,
+      gasToken: ZERO_ADDRESS,
+      refundReceiver: ZERO_ADDRESS,
+      nonce: nonce,
+    };
+
+    // 4. Sign with EIP-712 (_signTypedData in ethers.js v5)
+    const signature = await this.wallet._signTypedData(
+      domain,
+      EIP712_SAFE_TX_TYPES,
+      values
+    );
+
+    // 5. Pack signature into Gnosis Safe format (r + s + v, 65 bytes)
+    // ethers returns compact sig, we need to split and repack
+    const sig = ethers.utils.splitSignature(signature);
+    // Gnosis Safe expects v = 27 or 28 for ECDSA signatures
+    const packedSignature = ethers.utils.solidityPack(
+      ["bytes32", "bytes32", "uint8"],
+      [sig.r, sig.s, sig.v]
+    );
+
+    const args = [
+      aggregated.to,
+      aggregated.value,
+      aggregated.data,
+      aggregated.operation,
+      0, // safeTxGas
+      0, // baseGas
+      0, // gasPrice
+      ZERO_ADDRESS, // gasToken
+      ZERO_ADDRESS, // refundReceiver
+      packedSignature,
+    ];
+
+    // 6. Estimate gas with buffer
+    let gasEstimate: ethers.BigNumber;
+    try {
+      gasEstimate = await this.safeContract.estimateGas.execTransaction(...args);
+    } catch (estimateError: any) {
+      // If gas estimation fails, the transaction would revert
+      const reason = estimateError.reason || estimateError.message || "Unknown";
+      console.error(
+        `   ❌ Gas estimation failed (tx would revert): ${reason.slice(0, 100)}`
+      );
+      return { error: `GAS_ESTIMATION_FAILED: ${reason.slice(0, 200)}` };
+    }
+
+    // Add 20% gas buffer for safety
+    const gasLimit = gasEstimate.mul(120).div(100);
+
+    // 7-8. Fees and nonce come from the queue when it sends
+    console.log(
+      `   📤 Sending execTransaction (nonce=${nonce}, gasLimit=${gasLimit.toString()}, txns=${txnCount})...`
+    );
+
+    return {
+      to: this.proxyAddress,
+      data: this.safeContract.interface.encodeFunctionData("execTransaction", args),
+      gasLimit,
+    };
+  }
+
+  /** The queue's view of the chain, over this client's provider and signer */
+  private createChain(): TxChain {
+    return {
+      getSafeNonce: () => this.getNonce(),
+      getAccountNonce: (blockTag) => this.provider.getTransactionCount(this.wallet.address, blockTag),
+      getFees: async () => {
+        // EIP-1559 with Polygon floors (RPC suggestions are often below what validators take)
+        const feeData = await this.provider.getFeeData();
+        const minPriorityFee = ethers.utils.parseUnits("30", "gwei");
+        const minMaxFee = ethers.utils.parseUnits("100", "gwei");
+
+        const maxPriorityFeePerGas =
+          feeData.maxPriorityFeePerGas &&
+          feeData.maxPriorityFeePerGas.gt(minPriorityFee)
+            ? feeData.maxPriorityFeePerGas
+            : minPriorityFee;
+
+        const maxFeePerGas =
+          feeData.maxFeePerGas && feeData.maxFeePerGas.gt(minMaxFee)
+            ? feeData.maxFeePerGas
+            : minMaxFee;
+
+        return { maxFeePerGas, maxPriorityFeePerGas };
+      },
+      sendTransaction: async (tx) => {
+        const sent = await this.wallet.sendTransaction({
+          to: tx.to,
+          data: tx.data,
+          gasLimit: tx.gasLimit,
+          nonce: tx.nonce,
+          maxFeePerGas: tx.maxFeePerGas,
+          maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+          type: 2,
+          chainId: POLYGON_CHAIN_ID,
+        });
+        return sent.hash;
+      },
+      getReceipt: (hash) => this.provider.getTransactionReceipt(hash),
+    };
+  }
 }
 
 export default DirectExecutionClient;
@@ -0,0 +1,82 @@
+/**
+ * ExecutionVenue.ts — The order-execution surface strategies trade through.
+ *
+ * ShockFadeLive only needs a handful of operations: rest a limit order, take
+ * liquidity immediately (FAK), cancel, look orders up, check balances, and
+ * hear about fills. Implementations:
+ *   - PolymarketVenue  — the real CLOB (PolymarketClient + UserChannelWS)
+ *   - PaperVenue       — simulated fills from the market-channel order book
+ *   - MockClobVenue    — in-process MockMatchingEngine (tests / scripted runs)
+ *
+ * Which one a strategy gets decides live vs paper vs test; the strategy code
+ * is the same.
+ */
+
+import { OrderFillEvent, OrderUpdateEvent } from "./UserChannelWS";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type VenueSide = "BUY" | "SELL";
+
+export interface VenueOrderRequest {
+  tokenId: string;
+  side: VenueSide;
+  shares: number;
+  /** Limit price. For IOC orders: the worst acceptable price. */
+  price: number;
+  /** Sports markets are neg-risk (0% fee) */
+  negRisk?: boolean;
+}
+
+export interface VenueOrderResult {
+  success: boolean;
+  orderId?: string;
+  /** Shares matched on placement (0 = resting / nothing taken) */
+  filledShares: number;
+  /** Average price of the shares matched on placement */
+  filledPrice?: number;
+  error?: string;
+}
+
+export interface VenueOrder {
+  orderId: string;
+  market: string;   // conditionId
+  tokenId: string;
+  side: VenueSide;
+  price: number;
+  originalSize: number;
+  sizeMatched: number;
+  status: "LIVE" | "MATCHED" | "CANCELED";
+  /** Average fill price, when the venue reports it */
+  avgFillPrice?: number;
+}
+
+/**
+ * Fill stream: "orderFill" (OrderFillEvent) for every match of one of our
+ * orders, "orderUpdate" (OrderUpdateEvent) for placements / cancellations.
+ * Same payloads as UserChannelWS, so handlers work against any venue.
+ */
+export interface ExecutionVenue {
+  /** Short label for logs ("polymarket", "paper", "mock-clob") */
+  readonly name: string;
+
+  /** GTC limit order — rests on the book until filled or cancelled */
+  placeLimit(req: VenueOrderRequest): Promise<VenueOrderResult>;
+  /** Fill-and-kill — takes what is available at `price` or better, cancels the rest */
+  placeIoc(req: VenueOrderRequest): Promise<VenueOrderResult>;
+  cancel(orderId: string): Promise<{ success: boolean; error?: string }>;
+
+  /** Live orders for a market (or one token). Throws if the venue can't be queried. */
+  getOpenOrders(conditionId: string, tokenId?: string): Promise<VenueOrder[]>;
+  /** Any of our orders by id, or null if the venue doesn't know it */
+  getOrder(orderId: string): Promise<VenueOrder | null>;
+
+  getTokenBalance(tokenId: string): Promise<number>;
+  /** USDC available for trading */
+  getBalance(): Promise<number>;
+
+  on(event: "orderFill", listener: (fill: OrderFillEvent) => void): this;
+  on(event: "orderUpdate", listener: (update: OrderUpdateEvent) => void): this;
+}
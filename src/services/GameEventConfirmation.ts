@@ -0,0 +1,672 @@
+/**
+ * GameEventConfirmation.ts — League play-by-play polling for shock confirmation.
+ *
+ * Maps Polymarket sports markets to league games and polls their play-by-play
+ * through the LeagueFeed clients:
+ *   - Idle markets: every 10s (background event tracking)
+ *   - Active markets (shock pending or position open): every 1s ("burst")
+ *   - Scoreboards: every 1s → latest GameState per market
+ *
+ * Events:
+ *   - "classification" (ClassificationInfo) — a burst poll found new scoring events
+ *   - "scoreUpdate" (ScoreUpdate) — fresh GameState for a mapped market
+ *   - "gameEvents" (GameEventBatch) — new, deduplicated events from one poll
+ *   - "pollError" (PollErrorInfo) — play-by-play fetch failed; game backed off
+ *
+ * Play-by-play failures back off per game (30s, doubling, capped at 5 min).
+ * Burst polls ignore the backoff — a pending shock needs the answer now.
+ *
+ * Late-game windows come from the per-sport LateGamePolicy
+ * (sss_sport_params.json → late_game).
+ */
+
+import { EventEmitter } from "events";
+import { SportsMarket } from "./SportsMarketDiscovery";
+import { LateGamePolicy, activeLateGamePolicy, loadLateGamePolicies } from "./LateGamePolicy";
+import {
+  GameState,
+  LeagueFeed,
+  LeagueSport,
+  NormalizedGameEvent,
+} from "../collectors/league-apis/GameState";
+import { NhlLiveApi } from "../collectors/league-apis/NhlLiveApi";
+import { NbaLiveApi } from "../collectors/league-apis/NbaLiveApi";
+import { MlbLiveApi } from "../collectors/league-apis/MlbLiveApi";
+import { NflLiveApi } from "../collectors/league-apis/NflLiveApi";
+import { EspnFallbackApi, EspnLeagueFeed } from "../collectors/league-apis/EspnFallbackApi";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LeagueFeeds = Partial<Record<LeagueSport, LeagueFeed>>;
+
+export interface GameEventConfirmationConfig {
+  /** Poll interval for idle markets (ms). Default 10000. */
+  idlePollMs: number;
+  /** Poll interval for active markets (ms). Default 1000. */
+  burstPollMs: number;
+  /** Scoreboard poll interval (ms), 0 = off. Default 1000. */
+  scorePollMs: number;
+  /** Window of scoring events used for classification (ms). Default 120000. */
+  eventWindowMs: number;
+  /** First play-by-play backoff after a failure (ms). Default 30000. */
+  backoffInitialMs: number;
+  /** Backoff cap (ms). Default 300000. */
+  backoffMaxMs: number;
+  /** Late-game policy per sport. Default: loadLateGamePolicies() */
+  lateGamePolicies?: Record<string, LateGamePolicy>;
+}
+
+export interface GameMapping {
+  marketSlug: string;
+  gameId: string;
+  sport: LeagueSport;
+}
+
+export interface ClassificationInfo {
+  marketSlug: string;
+  /** Scoring events inside the classification window */
+  recentEvents: number;
+  /** Structural events (injury, ejection) — not available from the free APIs */
+  isStructural: boolean;
+  /** Longest run of consecutive scoring events by one team */
+  sameTeamRun: number;
+  /** Team of the most recent scoring event ("" if none) */
+  lastScoringTeam: string;
+  /** Team holding the longest run ("" if none) */
+  lastScoringTeamRun: string;
+}
+
+export interface ScoreUpdate {
+  marketSlug: string;
+  state: GameState;
+}
+
+export interface GameEventBatch {
+  marketSlug: string;
+  gameId: string;
+  sport: LeagueSport;
+  events: NormalizedGameEvent[];
+  isBurst: boolean;
+  /** First successful poll of this game — events are history, not live */
+  initial: boolean;
+}
+
+export interface PollErrorInfo {
+  marketSlug: string;
+  gameId: string;
+  sport: LeagueSport;
+  error: any;
+  backoffMs: number;
+  failCount: number;
+}
+
+export interface PbpBackoff {
+  nextRetryAt: number;
+  currentBackoffMs: number;
+  failCount: number;
+}
+
+/**
+ * What ShockFadeLive needs from the game tracker (late-game policy).
+ */
+export interface LateGameSource {
+  /** Policy in force for the market's game, or null if it is not late */
+  getLateGamePolicy(marketSlug: string): LateGamePolicy | null;
+}
+
+interface MarketEventWindow {
+  events: Array<{ ts: number; team: string; type: string }>;
+  lastPollTs: number;
+}
+
+export const DEFAULT_GAME_EVENT_CONFIG: GameEventConfirmationConfig = {
+  idlePollMs: 10_000,
+  burstPollMs: 1_000,
+  scorePollMs: 1_000,
+  eventWindowMs: 120_000,
+  backoffInitialMs: 30_000,
+  backoffMaxMs: 300_000,
+};
+
+/** Today's date (YYYY-MM-DD, UTC) for date-addressed league schedules */
+function utcDate(d: Date = new Date()): string {
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Real league clients for every supported sport. `minGapMs` is the per-client
+ * request spacing (200ms is fine for 1s polling of the CDN endpoints).
+ */
+export function createLeagueFeeds(minGapMs: number = 200): Record<LeagueSport, LeagueFeed> {
+  return {
+    NHL: new NhlLiveApi(minGapMs),
+    NBA: new NbaLiveApi(minGapMs),
+    MLB: new MlbLiveApi(minGapMs),
+    NFL: new NflLiveApi(),
+    CBB: new EspnLeagueFeed("CBB", new EspnFallbackApi(minGapMs)),
+  };
+}
+
+// ============================================================================
+// GAME EVENT CONFIRMATION
+// ============================================================================
+
+export class GameEventConfirmation extends EventEmitter implements LateGameSource {
+  private feeds: LeagueFeeds;
+  private config: GameEventConfirmationConfig;
+  private lateGamePolicies: Record<string, LateGamePolicy>;
+  private now: () => number;
+
+  private gameMappings: Map<string, GameMapping> = new Map();
+  private gameStates: Map<string, GameState> = new Map();
+  private eventWindows: Map<string, MarketEventWindow> = new Map();
+  private activeMarkets: Set<string> = new Set();
+
+  // Dedup: "gameId:type:period:clock:team"
+  private seenEventKeys: Set<string> = new Set();
+  private polledGames: Set<string> = new Set();
+  private pbpBackoff: Map<string, PbpBackoff> = new Map();
+
+  private pollTimer: NodeJS.Timeout | null = null;
+  private fastPollTimer: NodeJS.Timeout | null = null;
+  private scoreTimer: NodeJS.Timeout | null = null;
+
+  private totalPolls = 0;
+  private totalBurstPolls = 0;
+
+  constructor(
+    feeds: LeagueFeeds = createLeagueFeeds(),
+    config: Partial<GameEventConfirmationConfig> = {},
+    now: () => number = Date.now,
+  ) {
+    super();
+    this.feeds = feeds;
+    this.config = { ...DEFAULT_GAME_EVENT_CONFIG, ...config };
+    this.lateGamePolicies = config.lateGamePolicies ?? loadLateGamePolicies();
+    this.now = now;
+  }
+
+  // ============================================================================
+  // LIFECYCLE
+  // ============================================================================
+
+  start(): void {
+    this.pollTimer = setInterval(() => this.pollAll(), this.config.idlePollMs);
+    this.fastPollTimer = setInterval(() => this.pollActiveMarkets(), this.config.burstPollMs);
+    if (this.config.scorePollMs > 0) {
+      this.scoreTimer = setInterval(() => this.pollScores(), this.config.scorePollMs);
+      this.pollScores(); // immediate first poll
+    }
+    this.log(
+      `Started (${this.config.idlePollMs / 1000}s idle / ${this.config.burstPollMs / 1000}s active adaptive polling)`,
+    );
+  }
+
+  stop(): void {
+    if (this.pollTimer) { clearInterval(this.pollTimer); this.pollTimer = null; }
+    if (this.fastPollTimer) { clearInterval(this.fastPollTimer); this.fastPollTimer = null; }
+    if (this.scoreTimer) { clearInterval(this.scoreTimer); this.scoreTimer = null; }
+  }
+
+  // ============================================================================
+  // MAPPING
+  // ============================================================================
+
+  /**
+   * Map markets to today's games. Already-mapped markets are kept, so this is
+   * safe to call again after every market refresh.
+   */
+  async buildMappings(markets: Map<string, SportsMarket> | SportsMarket[]): Promise<void> {
+    const allMarkets = Array.from(markets.values()).filter((m) => this.feeds[m.sport as LeagueSport]);
+    if (allMarkets.length === 0) return;
+
+    const dateStr = utcDate(new Date(this.now()));
+    const sports = Array.from(new Set(allMarkets.map((m) => m.sport as LeagueSport)));
+
+    for (const sport of sports) {
+      const sportMarkets = allMarkets.filter((m) => m.sport === sport && !this.gameMappings.has(m.marketSlug));
+      if (sportMarkets.length === 0) continue;
+      try {
+        const games = await this.feeds[sport]!.getGames(dateStr);
+        for (const game of games) {
+          for (const market of sportMarkets) {
+            if (this.gameMappings.has(market.marketSlug)) continue;
+            if (fuzzyMatchTeams(market.marketSlug, game.home.name, game.away.name)) {
+              this.gameMappings.set(market.marketSlug, { marketSlug: market.marketSlug, gameId: game.gameId, sport });
+              this.gameStates.set(market.marketSlug, game);
+              this.log(`🔗 Mapped ${market.marketSlug} → ${sport} game ${game.gameId} (${game.away.name} @ ${game.home.name})`);
+            }
+          }
+        }
+      } catch (err: any) {
+        this.log(`⚠️ ${sport} mapping failed: ${err?.message || err}`);
+      }
+    }
+
+    const mapped = allMarkets.filter((m) => this.gameMappings.has(m.marketSlug)).length;
+    this.log(`Game mappings: ${mapped}/${allMarkets.length} markets mapped`);
+  }
+
+  getMapping(marketSlug: string): GameMapping | undefined {
+    return this.gameMappings.get(marketSlug);
+  }
+
+  // ============================================================================
+  // ACTIVE / IDLE
+  // ============================================================================
+
+  /** Poll this market every burstPollMs (shock pending or position open). */
+  setMarketActive(marketSlug: string): void {
+    if (this.activeMarkets.has(marketSlug)) return;
+    this.activeMarkets.add(marketSlug);
+    this.log(`⚡ ${marketSlug} → active (${this.config.burstPollMs / 1000}s polling)`);
+  }
+
+  /** Back to idle polling (no pending shock, no open position). */
+  setMarketIdle(marketSlug: string): void {
+    if (!this.activeMarkets.delete(marketSlug)) return;
+    this.log(`💤 ${marketSlug} → idle (${this.config.idlePollMs / 1000}s polling)`);
+  }
+
+  // ============================================================================
+  // POLLING
+  // ============================================================================
+
+  /** Burst-poll every active market. */
+  async pollActiveMarkets(): Promise<void> {
+    for (const marketSlug of this.activeMarkets) {
+      const mapping = this.gameMappings.get(marketSlug);
+      if (!mapping) continue;
+      await this.pollMarket(mapping, true);
+    }
+  }
+
+  /** Idle-poll every mapped market that is not active, then prune old state. */
+  async pollAll(): Promise<void> {
+    for (const [marketSlug, mapping] of this.gameMappings.entries()) {
+      if (this.activeMarkets.has(marketSlug)) continue;
+      await this.pollMarket(mapping, false);
+    }
+
+    const now = this.now();
+    const cutoff = now - 300_000;
+    for (const [slug, window] of this.eventWindows.entries()) {
+      window.events = window.events.filter((e) => e.ts >= cutoff);
+      if (window.events.length === 0 && now - window.lastPollTs > 600_000) {
+        this.eventWindows.delete(slug);
+      }
+    }
+
+    if (this.seenEventKeys.size > 10000) {
+      this.seenEventKeys.clear();
+    }
+  }
+
+  /** Refresh the GameState of every mapped market from the scoreboards. */
+  async pollScores(): Promise<void> {
+    const sports = new Set(Array.from(this.gameMappings.values()).map((m) => m.sport));
+    for (const sport of sports) {
+      try {
+        const games = await this.feeds[sport]!.getGames(utcDate(new Date(this.now())));
+        for (const [slug, mapping] of this.gameMappings.entries()) {
+          if (mapping.sport !== sport) continue;
+          const game = games.find((g) => g.gameId === mapping.gameId);
+          if (!game) continue;
+          this.gameStates.set(slug, game);
+          this.emit("scoreUpdate", { marketSlug: slug, state: game } as ScoreUpdate);
+        }
+      } catch {
+        // Non-critical — don't spam logs for score polling failures
+      }
+    }
+  }
+
+  private async pollMarket(mapping: GameMapping, isBurst: boolean): Promise<void> {
+    const { marketSlug, gameId, sport } = mapping;
+
+    // Burst overrides backoff
+    if (!isBurst) {
+      const backoff = this.pbpBackoff.get(gameId);
+      if (backoff && this.now() < backoff.nextRetryAt) return;
+    }
+
+    if (isBurst) this.totalBurstPolls++;
+    this.totalPolls++;
+
+    let events: NormalizedGameEvent[];
+    try {
+      events = await this.feeds[sport]!.getEvents(gameId);
+    } catch (err: any) {
+      const existing = this.pbpBackoff.get(gameId);
+      const backoffMs = existing
+        ? Math.min(existing.currentBackoffMs * 2, this.config.backoffMaxMs)
+        : this.config.backoffInitialMs;
+      const failCount = existing ? existing.failCount + 1 : 1;
+      this.pbpBackoff.set(gameId, { nextRetryAt: this.now() + backoffMs, currentBackoffMs: backoffMs, failCount });
+
+      // Only log the first failure to avoid log spam
+      if (failCount === 1) {
+        const status = err?.response?.status || err?.status;
+        this.log(
+          `⚠️ ${sport} PBP ${status ? status + " " : ""}error for game ${gameId} — backoff ` +
+            `${(backoffMs / 1000).toFixed(0)}s: ${err?.message || err}`,
+        );
+      }
+      this.emit("pollError", { marketSlug, gameId, sport, error: err, backoffMs, failCount } as PollErrorInfo);
+      return;
+    }
+
+    if (this.pbpBackoff.has(gameId)) {
+      this.log(`✅ PBP recovered for ${sport} game ${gameId}`);
+      this.pbpBackoff.delete(gameId);
+    }
+
+    this.processEvents(mapping, events, isBurst);
+  }
+
+  private processEvents(mapping: GameMapping, events: NormalizedGameEvent[], isBurst: boolean): void {
+    const { marketSlug, gameId, sport } = mapping;
+    const now = this.now();
+
+    let window = this.eventWindows.get(marketSlug);
+    if (!window) {
+      window = { events: [], lastPollTs: 0 };
+      this.eventWindows.set(marketSlug, window);
+    }
+    window.lastPollTs = now;
+
+    const fresh: NormalizedGameEvent[] = [];
+    let newScoringEvents = 0;
+
+    for (const ev of events) {
+      if (ev.type === "other") continue;
+      const eventKey = `${gameId}:${ev.type}:${ev.period}:${ev.clock}:${ev.team}`;
+      if (this.seenEventKeys.has(eventKey)) continue;
+      this.seenEventKeys.add(eventKey);
+      fresh.push(ev);
+
+      if (ev.type === "goal") {
+        window.events.push({ ts: ev.timestamp || now, team: ev.team, type: ev.type });
+        newScoringEvents++;
+      }
+    }
+
+    const initial = !this.polledGames.has(gameId);
+    this.polledGames.add(gameId);
+
+    if (fresh.length > 0) {
+      this.emit("gameEvents", { marketSlug, gameId, sport, events: fresh, isBurst, initial } as GameEventBatch);
+    }
+
+    if (isBurst && newScoringEvents > 0) {
+      const info = this.getClassificationInfo(marketSlug);
+      this.log(`⚡ Burst found ${newScoringEvents} new events → classify: ${info.recentEvents} recent, structural=${info.isStructural}`);
+      this.emit("classification", info);
+    }
+  }
+
+  // ============================================================================
+  // QUERIES
+  // ============================================================================
+
+  /**
+   * Scoring events in the classification window plus scoring-run stats.
+   */
+  getClassificationInfo(marketSlug: string): ClassificationInfo {
+    const info: ClassificationInfo = {
+      marketSlug,
+      recentEvents: 0,
+      isStructural: false,
+      sameTeamRun: 0,
+      lastScoringTeam: "",
+      lastScoringTeamRun: "",
+    };
+    const window = this.eventWindows.get(marketSlug);
+    if (!window) return info;
+
+    const cutoff = this.now() - this.config.eventWindowMs;
+    const recent = window.events.filter((e) => e.ts >= cutoff);
+    info.recentEvents = recent.length;
+
+    let currentRun = 0;
+    let currentTeam = "";
+    for (const ev of recent) {
+      if (ev.team === currentTeam) { currentRun++; } else { currentRun = 1; currentTeam = ev.team; }
+      if (currentRun > info.sameTeamRun) { info.sameTeamRun = currentRun; info.lastScoringTeamRun = currentTeam; }
+    }
+    info.lastScoringTeam = recent.length > 0 ? recent[recent.length - 1].team : "";
+
+    return info;
+  }
+
+  getGameState(marketSlug: string): GameState | undefined {
+    return this.gameStates.get(marketSlug);
+  }
+
+  getLateGamePolicy(marketSlug: string): LateGamePolicy | null {
+    return activeLateGamePolicy(this.gameStates.get(marketSlug), this.lateGamePolicies);
+  }
+
+  isLateGame(marketSlug: string): boolean {
+    return this.getLateGamePolicy(marketSlug) !== null;
+  }
+
+  getLateGamePolicies(): LateGamePolicy[] {
+    return Object.values(this.lateGamePolicies);
+  }
+
+  getBackoff(gameId: string): PbpBackoff | undefined {
+    return this.pbpBackoff.get(gameId);
+  }
+
+  getStats(): { totalPolls: number; burstPolls: number; mappings: number; trackedMarkets: number; backoffGames: number } {
+    return {
+      totalPolls: this.totalPolls,
+      burstPolls: this.totalBurstPolls,
+      mappings: this.gameMappings.size,
+      trackedMarkets: this.eventWindows.size,
+      backoffGames: this.pbpBackoff.size,
+    };
+  }
+
+  /** See resolveTokenTricode */
+  resolveTokenTricode(market: SportsMarket, tokenId: string): string {
+    return resolveTokenTricode(market, tokenId);
+  }
+
+  private log(msg: string): void {
+    const ts = new Date().toISOString();
+    console.log(`${ts} [INFO] 🏟️  [GameEvents] ${msg}`);
+  }
+}
+
+// ============================================================================
+// TEAM MATCHING
+// ============================================================================
+
+/** Slug abbreviation → team name fragments */
+const TEAM_ABBREVS: Record<string, string[]> = {
+  // NBA
+  atl: ["hawks", "atlanta"], bos: ["celtics", "boston"], bkn: ["nets", "brooklyn"],
+  cha: ["hornets", "charlotte"], chi: ["bulls", "chicago"], cle: ["cavaliers", "cleveland"],
+  dal: ["mavericks", "stars", "dallas"], den: ["nuggets", "denver"], det: ["pistons", "detroit"],
+  gsw: ["warriors", "golden state"], hou: ["rockets", "houston"], ind: ["pacers", "indiana"],
+  lac: ["clippers", "la clippers"], lal: ["lakers", "los angeles lakers"],
+  mem: ["grizzlies", "memphis"], mia: ["heat", "miami"], mil: ["bucks", "milwaukee"],
+  min: ["timberwolves", "minnesota"], nop: ["pelicans", "new orleans"],
+  nyk: ["knicks", "new york knicks"], okc: ["thunder", "oklahoma"],
+  orl: ["magic", "orlando"], phi: ["76ers", "philadelphia", "sixers"],
+  phx: ["suns", "phoenix"], por: ["trail blazers", "blazers", "portland"],
+  sac: ["kings", "sacramento"], sas: ["spurs", "san antonio"],
+  tor: ["raptors", "toronto"], uta: ["jazz", "utah"], was: ["wizards", "washington"],
+  // NHL
+  ana: ["ducks", "anaheim"], ari: ["coyotes", "arizona"], buf: ["sabres", "buffalo"],
+  car: ["hurricanes", "carolina"], cbj: ["blue jackets", "columbus"],
+  cgy: ["flames", "calgary"], col: ["avalanche", "colorado"],
+  edm: ["oilers", "edmonton"], fla: ["panthers", "florida"],
+  lak: ["kings", "los angeles kings"], mtl: ["canadiens", "montreal"],
+  njd: ["devils", "new jersey"], nsh: ["predators", "nashville"],
+  nyi: ["islanders", "new york islanders"], nyr: ["rangers", "new york rangers"],
+  ott: ["senators", "ottawa"], pit: ["penguins", "pittsburgh"],
+  sea: ["kraken", "seattle"], stl: ["blues", "st. louis", "st louis"],
+  tbl: ["lightning", "tampa bay"], van: ["canucks", "vancouver"],
+  vgk: ["golden knights", "vegas"], wpg: ["jets", "winnipeg"],
+  wsh: ["capitals", "washington"],
+  // NFL
+  ne: ["patriots", "new england"], sf: ["49ers", "san francisco"],
+  gb: ["packers", "green bay"], kc: ["chiefs", "kansas city"],
+  tb: ["buccaneers", "tampa bay"], no: ["saints", "new orleans"],
+  nyg: ["giants", "new york giants"], nyj: ["jets", "new york jets"],
+  // MLB
+  nym: ["mets", "new york mets"], chc: ["cubs", "chicago cubs"],
+  chw: ["white sox", "chicago white sox"], cws: ["white sox", "chicago white sox"],
+  tex: ["rangers", "texas"], sd: ["padres", "san diego"], bal: ["orioles", "baltimore"],
+};
+
+/** "nba-gsw-lal-2026-02-07" → ["gsw", "lal"] (sport prefix and date dropped) */
+function slugTeamAbbrevs(slug: string): string[] {
+  return slug.toLowerCase().split("-").slice(1, -3);
+}
+
+/**
+ * Does a market slug refer to this home/away pairing?
+ */
+export function fuzzyMatchTeams(slug: string, homeTeamName: string, awayTeamName: string): boolean {
+  const lowerSlug = slug.toLowerCase();
+  const homeLower = (homeTeamName || "").toLowerCase();
+  const awayLower = (awayTeamName || "").toLowerCase();
+  const teamAbbrevs = slugTeamAbbrevs(slug);
+
+  if (teamAbbrevs.length < 2) {
+    // Fallback: any word from each team name appears in the slug
+    const homeMatch = homeLower.split(/\s+/).some((w) => w.length > 2 && lowerSlug.includes(w));
+    const awayMatch = awayLower.split(/\s+/).some((w) => w.length > 2 && lowerSlug.includes(w));
+    return homeMatch && awayMatch;
+  }
+
+  let homeMatched = false;
+  let awayMatched = false;
+
+  for (const abbrev of teamAbbrevs) {
+    const possibleNames = TEAM_ABBREVS[abbrev] || [abbrev];
+    for (const name of possibleNames) {
+      if (homeLower.includes(name) || name.includes(homeLower.split(/\s+/).pop() || "")) homeMatched = true;
+      if (awayLower.includes(name) || name.includes(awayLower.split(/\s+/).pop() || "")) awayMatched = true;
+    }
+    // Direct abbrev check (e.g. team tricode)
+    if (homeLower.includes(abbrev) || abbrev === homeLower.substring(0, 3)) homeMatched = true;
+    if (awayLower.includes(abbrev) || abbrev === awayLower.substring(0, 3)) awayMatched = true;
+
+    // CBB: slug abbrevs are often compressed school names ("pennst", "txtech")
+    if (!homeMatched) homeMatched = fuzzyAbbrevMatch(abbrev, homeLower);
+    if (!awayMatched) awayMatched = fuzzyAbbrevMatch(abbrev, awayLower);
+  }
+
+  return homeMatched && awayMatched;
+}
+
+/**
+ * Fuzzy match a slug abbreviation against a team name.
+ * Handles compressed school names like "pennst" → "penn state",
+ * "txtech" → "texas tech", "ohiost" → "ohio state", "wvir" → "west virginia",
+ * "mich" → "michigan", "cin" → "cincinnati", etc.
+ *
+ * Strategy: check if the abbrev is a prefix of any word, or a concatenation of
+ * prefixes of consecutive words in the team name.
+ */
+function fuzzyAbbrevMatch(abbrev: string, teamNameLower: string): boolean {
+  const words = teamNameLower.split(/\s+/);
+
+  // 1) Direct: abbrev is a prefix of any single word (e.g. "mich" → "michigan")
+  if (words.some((w) => w.startsWith(abbrev) && abbrev.length >= 3)) return true;
+
+  // 1b) All chars of abbrev appear in order within a word, allowing vowel drops
+  // e.g. "charlt" → "charlotte", "mphs" → "memphis"
+  for (const w of words) {
+    if (w.length < 4) continue;
+    let wi = 0;
+    let ai = 0;
+    while (wi < w.length && ai < abbrev.length) {
+      if (w[wi] === abbrev[ai]) ai++;
+      wi++;
+    }
+    if (ai === abbrev.length && abbrev.length >= 3) return true;
+  }
+
+  // 2) Concatenated prefixes of consecutive words
+  // e.g. "pennst" = "penn" + "st" from "penn state"
+  for (let i = 0; i < words.length - 1; i++) {
+    for (let prefixLen = 2; prefixLen <= Math.min(words[i].length, abbrev.length - 1); prefixLen++) {
+      const firstPart = words[i].substring(0, prefixLen);
+      if (abbrev.startsWith(firstPart)) {
+        const rest = abbrev.substring(prefixLen);
+        for (let j = i + 1; j < words.length; j++) {
+          if (words[j].startsWith(rest) && rest.length >= 1) return true;
+        }
+      }
+    }
+  }
+
+  // 3) Common abbreviation patterns for US states/schools
+  const STATE_ABBREVS: Record<string, string> = {
+    "tx": "texas", "nc": "north carolina", "sc": "south carolina",
+    "wv": "west virginia", "nm": "new mexico", "nd": "north dakota",
+    "sd": "south dakota", "nw": "northwestern", "ne": "nebraska",
+  };
+  for (const [prefix, fullName] of Object.entries(STATE_ABBREVS)) {
+    if (abbrev.startsWith(prefix) && teamNameLower.includes(fullName)) {
+      const rest = abbrev.substring(prefix.length);
+      if (rest.length === 0) return true;
+      const afterState = teamNameLower.substring(teamNameLower.indexOf(fullName) + fullName.length).trim();
+      const afterWords = afterState.split(/\s+/);
+      if (afterWords.some((w) => w.startsWith(rest) && rest.length >= 1)) return true;
+      if (rest.length >= 2 && afterState.includes(rest)) return true;
+      // Or rest is a subsequence of any word after the state name
+      for (const aw of afterWords) {
+        let ri = 0;
+        for (let ci = 0; ci < aw.length && ri < rest.length; ci++) {
+          if (aw[ci] === rest[ri]) ri++;
+        }
+        if (ri === rest.length && rest.length >= 2) return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Resolve which team tricode corresponds to a tokenId on a given market.
+ * Uses slug abbreviations + outcome names to map tokenId → tricode.
+ *
+ * @returns the tricode (uppercase, e.g. "GSW", "LAL") or "" if unmappable
+ */
+export function resolveTokenTricode(market: SportsMarket, tokenId: string): string {
+  const tokenIndex = market.tokenIds.indexOf(tokenId);
+  if (tokenIndex === -1) return "";
+
+  const outcomeName = market.outcomes[tokenIndex]; // e.g., "Warriors"
+  if (!outcomeName) return "";
+
+  const slugAbbrevs = slugTeamAbbrevs(market.marketSlug);
+  if (slugAbbrevs.length < 2) return "";
+
+  const outcomeLower = outcomeName.toLowerCase();
+  for (const abbrev of slugAbbrevs) {
+    const possibleNames = TEAM_ABBREVS[abbrev] || [abbrev];
+    for (const name of possibleNames) {
+      if (outcomeLower.includes(name) || name.includes(outcomeLower)) {
+        return abbrev.toUpperCase();
+      }
+    }
+  }
+
+  // Fallback: slug order (sport-away-home-date) by token index
+  if (tokenIndex < slugAbbrevs.length) {
+    return slugAbbrevs[tokenIndex].toUpperCase();
+  }
+
+  return "";
+}
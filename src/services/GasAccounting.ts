@@ -0,0 +1,277 @@
+/**
+ * GasAccounting.ts — Gas ledger and MATIC budget for on-chain CTF operations.
+ *
+ * Direct execution (and EOA mode) pays for every split, merge and redeem out
+ * of the EOA's MATIC. Each of those transactions is recorded here against
+ * its market, and every one of them ends up in some trade's P&L:
+ *   - a refill split that a cycle's fill set off is tagged with that cycle
+ *     and charged to the cycle's next closed trade (chargeCycle);
+ *   - the pre-split, refills between cycles and a refill mined after its
+ *     cycle already closed are the market's gas, charged to whichever of the
+ *     market's trades closes next (also chargeCycle);
+ *   - gas recorded after the market's last close — the final merge, the
+ *     redemption — is booked onto that last trade afterwards (chargeMarket).
+ * getMarketGas reports what trades carry and what is still waiting.
+ *
+ * The same ledger is the budget: checkSplitBudget() says to pause new
+ * pre-splits (and refills) while the EOA's MATIC is below a floor or today's
+ * gas spend (UTC day) is over a cap. Merges and redemptions are never
+ * blocked — they return capital.
+ *
+ * Entries are kept in `<state>-gas.json` so the daily cap survives a restart.
+ *
+ * Events: "recorded" (GasEntry), "paused" (reason), "resumed"
+ */
+
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import * as path from "path";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type GasOperation = "SPLIT" | "MERGE" | "REDEEM";
+
+export interface GasEntry {
+  op: GasOperation;
+  marketSlug: string;
+  transactionHash: string | null;
+  gasCostMatic: number;
+  /** At the configured MATIC price when recorded */
+  gasCostUsd: number;
+  timestamp: number;
+  /** Cycle (shockId) whose refill spent this; null/absent for the market's gas */
+  cycleId?: string | null;
+  /** Trade (LiveTradeRecord id) whose P&L absorbed this cost; null while uncharged */
+  chargedTo: string | null;
+}
+
+/** A market's gas, split by who carries it (USD) */
+export interface MarketGas {
+  matic: number;
+  usd: number;
+  /** Absorbed into closed trades */
+  chargedUsd: number;
+  /** Not on a trade yet — waits for the market's next close or chargeMarket */
+  pendingUsd: number;
+}
+
+/** Whoever pays the gas — null when a relayer pays (nothing to guard) */
+export interface MaticBalanceSource {
+  getMaticBalance(): Promise<string | null>;
+}
+
+export interface GasBudgetConfig {
+  /** Pause new splits below this EOA balance (MATIC) */
+  minMaticBalance: number;
+  /** Pause new splits once today's (UTC) gas spend exceeds this (MATIC) */
+  maxDailyGasMatic: number;
+  /** MATIC → USD for P&L */
+  maticPriceUsd: number;
+  /** Re-read the balance when the cached one is older than this */
+  balanceMaxAgeMs: number;
+}
+
+export const DEFAULT_GAS_BUDGET_CONFIG: GasBudgetConfig = {
+  minMaticBalance: 1,
+  maxDailyGasMatic: 5,
+  maticPriceUsd: 0.25,
+  balanceMaxAgeMs: 60_000,
+};
+
+/** Ledger file next to the state file: foo.db → foo-gas.json */
+export function gasLedgerPath(statePath: string): string {
+  const ext = path.extname(statePath);
+  return `${ext ? statePath.slice(0, -ext.length) : statePath}-gas.json`;
+}
+
+/** Start of the UTC day containing `now` */
+function utcDayStart(now: number): number {
+  const d = new Date(now);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+}
+
+// ============================================================================
+// LEDGER
+// ============================================================================
+
+export class GasAccounting extends EventEmitter {
+  private config: GasBudgetConfig;
+  private entries: GasEntry[] = [];
+  private maticBalance: number | null = null;
+  private balanceReadAt = 0;
+  private pauseReason: string | null = null;
+  /** Cycles that have closed a trade — refills they set off later are market gas */
+  private closedCycles = new Set<string>();
+
+  constructor(
+    private balance: MaticBalanceSource | null,
+    private filePath: string,
+    config: Partial<GasBudgetConfig> = {},
+  ) {
+    super();
+    this.config = { ...DEFAULT_GAS_BUDGET_CONFIG, ...config };
+    this.load();
+  }
+
+  /**
+   * Record a mined transaction's gas, tagged with the cycle whose refill it
+   * was (none, or a cycle that has closed since: the market's gas). No-op
+   * for gas-free (relayer) results.
+   */
+  record(
+    op: GasOperation,
+    marketSlug: string,
+    gasCostMatic: number | undefined,
+    transactionHash?: string,
+    cycleId?: string,
+  ): GasEntry | null {
+    if (!gasCostMatic || !(gasCostMatic > 0)) return null;
+    const entry: GasEntry = {
+      op,
+      marketSlug,
+      transactionHash: transactionHash ?? null,
+      gasCostMatic,
+      gasCostUsd: gasCostMatic * this.config.maticPriceUsd,
+      timestamp: Date.now(),
+      cycleId: cycleId && !this.closedCycles.has(cycleId) ? cycleId : null,
+      chargedTo: null,
+    };
+    this.entries.push(entry);
+    if (this.maticBalance !== null) this.maticBalance -= gasCostMatic;
+    this.prune();
+    this.persist();
+    this.emit("recorded", entry);
+    console.log(`⛽ [GAS] ${op} ${marketSlug}: ${gasCostMatic.toFixed(4)} MATIC ($${entry.gasCostUsd.toFixed(4)}) — today ${this.getDailySpendMatic().toFixed(4)}/${this.config.maxDailyGasMatic} MATIC`);
+    return entry;
+  }
+
+  /**
+   * Charge trade `tradeId`, closed by cycle `cycleId`, with that cycle's
+   * uncharged refill gas plus the market's gas not held for another open
+   * cycle. Returns the USD amount to deduct from the trade's P&L (0 if none).
+   */
+  chargeCycle(marketSlug: string, cycleId: string, tradeId: string): number {
+    this.closedCycles.add(cycleId);
+    return this.charge(marketSlug, tradeId, (e) => !e.cycleId || this.closedCycles.has(e.cycleId));
+  }
+
+  /**
+   * Charge everything still uncharged for a market to `tradeId` — its last
+   * closed trade, once gas arrives after the market's cycles are all done.
+   */
+  chargeMarket(marketSlug: string, tradeId: string): number {
+    return this.charge(marketSlug, tradeId, () => true);
+  }
+
+  /** Gas spent since the start of the current UTC day (MATIC) */
+  getDailySpendMatic(now: number = Date.now()): number {
+    const since = utcDayStart(now);
+    return this.entries.filter((e) => e.timestamp >= since).reduce((sum, e) => sum + e.gasCostMatic, 0);
+  }
+
+  /** Gas recorded against a market: what trades absorbed and what they still will */
+  getMarketGas(marketSlug: string): MarketGas {
+    const gas: MarketGas = { matic: 0, usd: 0, chargedUsd: 0, pendingUsd: 0 };
+    for (const e of this.entries) {
+      if (e.marketSlug !== marketSlug) continue;
+      gas.matic += e.gasCostMatic;
+      gas.usd += e.gasCostUsd;
+      if (e.chargedTo !== null) gas.chargedUsd += e.gasCostUsd;
+      else gas.pendingUsd += e.gasCostUsd;
+    }
+    return gas;
+  }
+
+  /** Gas no trade has absorbed yet (USD) */
+  getUnchargedUsd(): number {
+    return this.entries.filter((e) => e.chargedTo === null).reduce((sum, e) => sum + e.gasCostUsd, 0);
+  }
+
+  getEntries(): GasEntry[] {
+    return [...this.entries];
+  }
+
+  /** Last known EOA balance (MATIC), null when unknown or gas-free */
+  getMaticBalance(): number | null {
+    return this.maticBalance;
+  }
+
+  /**
+   * Why new splits should wait, or null when the budget allows them.
+   * A balance that can't be read keeps the last known value; with none
+   * known, only the daily cap applies.
+   */
+  async checkSplitBudget(): Promise<string | null> {
+    await this.refreshBalance();
+
+    let reason: string | null = null;
+    const spent = this.getDailySpendMatic();
+    if (this.maticBalance !== null && this.maticBalance < this.config.minMaticBalance) {
+      reason = `MATIC balance ${this.maticBalance.toFixed(4)} below floor ${this.config.minMaticBalance}`;
+    } else if (spent >= this.config.maxDailyGasMatic) {
+      reason = `daily gas ${spent.toFixed(4)} MATIC reached cap ${this.config.maxDailyGasMatic}`;
+    }
+
+    if (reason && !this.pauseReason) {
+      console.log(`⛽ [GAS] Pausing new splits — ${reason}`);
+      this.emit("paused", reason);
+    } else if (!reason && this.pauseReason) {
+      console.log(`⛽ [GAS] Budget OK again — splits resume`);
+      this.emit("resumed");
+    }
+    this.pauseReason = reason;
+    return reason;
+  }
+
+  private charge(marketSlug: string, tradeId: string, eligible: (e: GasEntry) => boolean): number {
+    let usd = 0;
+    for (const e of this.entries) {
+      if (e.marketSlug !== marketSlug || e.chargedTo !== null || !eligible(e)) continue;
+      e.chargedTo = tradeId;
+      usd += e.gasCostUsd;
+    }
+    if (usd > 0) this.persist();
+    return usd;
+  }
+
+  private async refreshBalance(): Promise<void> {
+    if (!this.balance || Date.now() - this.balanceReadAt < this.config.balanceMaxAgeMs) return;
+    try {
+      const raw = await this.balance.getMaticBalance();
+      this.maticBalance = raw === null ? null : parseFloat(raw);
+      this.balanceReadAt = Date.now();
+    } catch (err: any) {
+      console.log(`⚠️ [GAS] Could not read MATIC balance: ${err?.message || err}`);
+    }
+  }
+
+  /** Keep a week — the daily cap only needs today */
+  private prune(): void {
+    const cutoff = Date.now() - 7 * 24 * 60 * 60 * 1000;
+    this.entries = this.entries.filter((e) => e.timestamp >= cutoff);
+  }
+
+  // ============================================================================
+  // PERSISTENCE
+  // ============================================================================
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+    try {
+      this.entries = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as GasEntry[];
+      for (const e of this.entries) if (e.cycleId && e.chargedTo !== null) this.closedCycles.add(e.cycleId);
+    } catch (err: any) {
+      console.log(`⚠️ [GAS] Could not read ${this.filePath}: ${err?.message || err}`);
+    }
+  }
+
+  private persist(): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+    const tmp = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(this.entries, null, 2));
+    fs.renameSync(tmp, this.filePath);
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * LateGamePolicy.ts — Per-sport late-game rules and what to do inside them.
+ *
+ * Late in a game a scoring event moves the price further and there is less
+ * time for it to revert, so new shock-fade cycles are traded more cautiously.
+ * Each sport's `late_game` block in sss_sport_params.json gives the window
+ * (period / seconds left, inning, or match minute) and the actions:
+ *   - sell_price_max: tighter cap on the ladder's sell-side price
+ *   - ladder_size_scale: multiplier on ladder sizes
+ *   - disable_new_cycles: no new cycles at all
+ *
+ * Example:
+ *   "late_game": { "from_period": 4, "period_seconds_remaining": 180, "sell_price_max": 0.7 }
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  DEFAULT_LATE_GAME_RULES,
+  GameState,
+  LateGameRule,
+  isLateGame,
+} from "../collectors/league-apis/GameState";
+
+const CONFIG_PATH = path.join(__dirname, "..", "config", "sss_sport_params.json");
+
+/** Sell cap used by the built-in NBA/CBB rules (no config file) */
+const DEFAULT_LATE_SELL_PRICE_MAX = 0.7;
+
+export interface LateGamePolicy {
+  sport: string;
+  rule: LateGameRule;
+  /** Cap on the sell-side price of new ladders */
+  sellPriceMax?: number;
+  /** Multiplier on ladder sizes (0.5 = half size) */
+  ladderSizeScale?: number;
+  /** Skip new cycles entirely */
+  disableNewCycles: boolean;
+  notes?: string;
+}
+
+/** `late_game` block as written in sss_sport_params.json */
+interface LateGameConfig {
+  from_period?: number | null;
+  period_seconds_remaining?: number | null;
+  from_minute?: number | null;
+  include_overtime?: boolean;
+  sell_price_max?: number | null;
+  ladder_size_scale?: number | null;
+  disable_new_cycles?: boolean;
+  notes?: string;
+}
+
+/**
+ * Parse one sport's late_game block. Returns null if it defines no window.
+ */
+export function parseLateGamePolicy(sport: string, raw: LateGameConfig | null | undefined): LateGamePolicy | null {
+  if (!raw) return null;
+
+  const rule: LateGameRule = { includeOvertime: raw.include_overtime ?? true };
+  if (raw.from_period != null) rule.fromPeriod = raw.from_period;
+  if (raw.period_seconds_remaining != null) rule.periodSecondsRemaining = raw.period_seconds_remaining;
+  if (raw.from_minute != null) rule.fromMinute = raw.from_minute;
+  if (rule.fromPeriod === undefined && rule.fromMinute === undefined) return null;
+
+  const policy: LateGamePolicy = { sport: sport.toUpperCase(), rule, disableNewCycles: raw.disable_new_cycles ?? false };
+  if (raw.sell_price_max != null) policy.sellPriceMax = raw.sell_price_max;
+  if (raw.ladder_size_scale != null) policy.ladderSizeScale = raw.ladder_size_scale;
+  if (raw.notes) policy.notes = raw.notes;
+  return policy;
+}
+
+/** NBA/CBB last 3 minutes with a 70¢ sell cap — the behaviour before policies were configurable */
+export function defaultLateGamePolicies(): Record<string, LateGamePolicy> {
+  const policies: Record<string, LateGamePolicy> = {};
+  for (const [sport, rule] of Object.entries(DEFAULT_LATE_GAME_RULES)) {
+    policies[sport] = { sport, rule: rule!, sellPriceMax: DEFAULT_LATE_SELL_PRICE_MAX, disableNewCycles: false };
+  }
+  return policies;
+}
+
+/**
+ * Load every sport's late-game policy from sss_sport_params.json, falling back
+ * to the built-in NBA/CBB policies if the file or its late_game blocks are missing.
+ */
+export function loadLateGamePolicies(configPath: string = CONFIG_PATH): Record<string, LateGamePolicy> {
+  try {
+    if (!fs.existsSync(configPath)) return defaultLateGamePolicies();
+    const config = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+    const policies: Record<string, LateGamePolicy> = {};
+    for (const [sport, params] of Object.entries<any>(config.sports || {})) {
+      const policy = parseLateGamePolicy(sport, params?.late_game);
+      if (policy) policies[policy.sport] = policy;
+    }
+    return Object.keys(policies).length > 0 ? policies : defaultLateGamePolicies();
+  } catch (err) {
+    console.error(`⚠️ Failed to load late-game policies from ${configPath}:`, err);
+    return defaultLateGamePolicies();
+  }
+}
+
+/**
+ * The policy in force for a game right now, or null if it is not late.
+ */
+export function activeLateGamePolicy(
+  state: GameState | null | undefined,
+  policies: Record<string, LateGamePolicy>,
+): LateGamePolicy | null {
+  if (!state) return null;
+  const policy = policies[state.sport];
+  return policy && isLateGame(state, policy.rule) ? policy : null;
+}
+
+/** Ladder size under a policy, never below the 5-share exchange minimum */
+export function scaleLadderSize(shares: number, policy: LateGamePolicy | null, minShares: number = 5): number {
+  if (!policy?.ladderSizeScale || policy.ladderSizeScale === 1) return shares;
+  return Math.max(minShares, Math.floor(shares * policy.ladderSizeScale));
+}
+
+/** "NBA from Q4 (last 180s)", for logs */
+export function describeLateGamePolicy(policy: LateGamePolicy): string {
+  const { rule } = policy;
+  let window: string;
+  if (rule.fromMinute !== undefined) {
+    window = `${rule.fromMinute}'+`;
+  } else {
+    window = `from period ${rule.fromPeriod}`;
+    if (rule.periodSecondsRemaining !== undefined) window += ` (last ${rule.periodSecondsRemaining}s)`;
+  }
+  if (rule.includeOvertime !== false) window += " + OT";
+
+  const actions: string[] = [];
+  if (policy.disableNewCycles) actions.push("no new cycles");
+  if (policy.sellPriceMax !== undefined) actions.push(`sell ≤${(policy.sellPriceMax * 100).toFixed(0)}¢`);
+  if (policy.ladderSizeScale !== undefined) actions.push(`ladder ×${policy.ladderSizeScale}`);
+  return `${policy.sport} ${window} → ${actions.join(", ") || "no action"}`;
+}
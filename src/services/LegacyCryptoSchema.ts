@@ -0,0 +1,218 @@
+/**
+ * LegacyCryptoSchema.ts — trading.db tables of the retired crypto-market
+ * strategies (15-minute UP/DOWN markets, arbitrage, scalping, external
+ * signals). Nothing in the shock-fade bot writes them; they stay so old
+ * data and DatabaseService's legacy methods keep working.
+ *
+ *   - positions, trade_log            15-minute market positions + event log
+ *   - signal_state                    external signal per 15-minute market
+ *   - arbitrage_positions / _trades   UP/DOWN pair arbitrage
+ *   - scalp_orders                    GTC scalping orders
+ *   - price_history, user_fills       crypto dashboard charts
+ *   - simulation_runs / _trades       arbitrage simulator
+ */
+
+import { SchemaModule, addColumnIfMissing } from './SchemaMigrations';
+
+export const LEGACY_CRYPTO_SCHEMA: SchemaModule = {
+  name: 'legacy_crypto',
+  description: '15-minute markets, arbitrage, scalping, signals, crypto dashboard, simulator',
+  migrations: [
+    {
+      version: 1,
+      name: 'baseline: 15-minute positions, signals, arbitrage, scalping, dashboard, simulation',
+      up: (db) => {
+        // ============ 15-Minute Market Tables ============
+
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS positions (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            market_slug TEXT NOT NULL,
+            condition_id TEXT NOT NULL,
+            token_id TEXT NOT NULL,
+            entry_price REAL NOT NULL,
+            shares REAL NOT NULL,
+            entry_time INTEGER NOT NULL,
+            market_end_time INTEGER NOT NULL,
+            exit_price REAL,
+            exit_time INTEGER,
+            exit_reason TEXT,
+            pnl REAL,
+            pnl_synced INTEGER DEFAULT 0,
+            redeemed INTEGER DEFAULT 0,
+            created_at TEXT DEFAULT CURRENT_TIMESTAMP
+          );
+
+          CREATE TABLE IF NOT EXISTS trade_log (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            position_id INTEGER,
+            event_type TEXT NOT NULL,
+            details TEXT,
+            timestamp INTEGER NOT NULL,
+            FOREIGN KEY (position_id) REFERENCES positions(id)
+          );
+
+          -- Signal state table - stores incoming signals from external system
+          CREATE TABLE IF NOT EXISTS signal_state (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            timestamp INTEGER NOT NULL,
+            state TEXT NOT NULL,
+            market_start INTEGER NOT NULL,
+            received_at INTEGER NOT NULL,
+            UNIQUE(market_start)
+          );
+        `);
+        // Added after the table shipped — databases from before versioning may lack it
+        addColumnIfMissing(db, 'positions', 'pnl_synced', 'INTEGER DEFAULT 0');
+
+        db.exec(`
+          CREATE INDEX IF NOT EXISTS idx_positions_market_slug ON positions(market_slug);
+          CREATE INDEX IF NOT EXISTS idx_positions_condition_id ON positions(condition_id);
+          CREATE INDEX IF NOT EXISTS idx_positions_redeemed ON positions(redeemed);
+          CREATE INDEX IF NOT EXISTS idx_trade_log_position ON trade_log(position_id);
+          CREATE INDEX IF NOT EXISTS idx_trade_log_event ON trade_log(event_type);
+          CREATE INDEX IF NOT EXISTS idx_signal_state_market ON signal_state(market_start);
+        `);
+
+        // ============ Arbitrage Tables ============
+
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS arbitrage_positions (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            market_slug TEXT NOT NULL,
+            condition_id TEXT NOT NULL UNIQUE,
+            up_token_id TEXT NOT NULL,
+            down_token_id TEXT NOT NULL,
+            qty_up REAL DEFAULT 0,
+            qty_down REAL DEFAULT 0,
+            cost_up REAL DEFAULT 0,
+            cost_down REAL DEFAULT 0,
+            pair_cost REAL,
+            hedged_qty REAL,
+            guaranteed_profit REAL,
+            profit_locked INTEGER DEFAULT 0,
+            created_at INTEGER NOT NULL,
+            settled_at INTEGER,
+            settlement_pnl REAL,
+            up_redeemed INTEGER DEFAULT 0,
+            down_redeemed INTEGER DEFAULT 0
+          );
+
+          CREATE TABLE IF NOT EXISTS arbitrage_trades (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            position_id INTEGER NOT NULL,
+            order_id TEXT,
+            side TEXT NOT NULL,
+            price REAL NOT NULL,
+            quantity REAL NOT NULL,
+            cost REAL NOT NULL,
+            timestamp INTEGER NOT NULL,
+            FOREIGN KEY (position_id) REFERENCES arbitrage_positions(id)
+          );
+        `);
+        // Per-side redemption tracking, added after the table shipped
+        addColumnIfMissing(db, 'arbitrage_positions', 'up_redeemed', 'INTEGER DEFAULT 0');
+        addColumnIfMissing(db, 'arbitrage_positions', 'down_redeemed', 'INTEGER DEFAULT 0');
+
+        db.exec(`
+          CREATE INDEX IF NOT EXISTS idx_arb_positions_condition ON arbitrage_positions(condition_id);
+          CREATE INDEX IF NOT EXISTS idx_arb_positions_profit_locked ON arbitrage_positions(profit_locked);
+          CREATE INDEX IF NOT EXISTS idx_arb_trades_position ON arbitrage_trades(position_id);
+        `);
+
+        // ============ Scalping Tables ============
+
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS scalp_orders (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            order_id TEXT UNIQUE NOT NULL,
+            condition_id TEXT NOT NULL,
+            token_id TEXT NOT NULL,
+            side TEXT NOT NULL,
+            type TEXT NOT NULL,
+            price REAL NOT NULL,
+            shares INTEGER NOT NULL,
+            status TEXT DEFAULT 'OPEN',
+            filled_shares INTEGER DEFAULT 0,
+            linked_buy_id TEXT,
+            created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+            filled_at TEXT,
+            pnl REAL
+          );
+
+          CREATE INDEX IF NOT EXISTS idx_scalp_orders_status ON scalp_orders(status);
+          CREATE INDEX IF NOT EXISTS idx_scalp_orders_condition ON scalp_orders(condition_id);
+          CREATE INDEX IF NOT EXISTS idx_scalp_orders_order_id ON scalp_orders(order_id);
+          CREATE INDEX IF NOT EXISTS idx_scalp_orders_linked ON scalp_orders(linked_buy_id);
+        `);
+
+        // ============ Dashboard Monitoring Tables ============
+
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS price_history (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            market_slug TEXT NOT NULL,
+            condition_id TEXT NOT NULL,
+            timestamp INTEGER NOT NULL,
+            up_bid REAL NOT NULL,
+            up_ask REAL NOT NULL,
+            down_bid REAL NOT NULL,
+            down_ask REAL NOT NULL
+          );
+
+          CREATE TABLE IF NOT EXISTS user_fills (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            market_slug TEXT NOT NULL,
+            condition_id TEXT NOT NULL,
+            order_id TEXT NOT NULL,
+            side TEXT NOT NULL,
+            price REAL NOT NULL,
+            size REAL NOT NULL,
+            timestamp INTEGER NOT NULL
+          );
+
+          CREATE INDEX IF NOT EXISTS idx_price_history_cond_ts ON price_history(condition_id, timestamp);
+          CREATE INDEX IF NOT EXISTS idx_user_fills_cond ON user_fills(condition_id);
+          CREATE INDEX IF NOT EXISTS idx_user_fills_timestamp ON user_fills(timestamp);
+        `);
+
+        // ============ Simulation Tables ============
+
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS simulation_runs (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            market_slug TEXT NOT NULL,
+            started_at INTEGER NOT NULL,
+            ended_at INTEGER,
+            initial_balance REAL NOT NULL,
+            final_balance REAL,
+            total_pnl REAL,
+            hedged_qty REAL,
+            pair_cost REAL
+          );
+
+          CREATE TABLE IF NOT EXISTS simulation_trades (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            run_id INTEGER NOT NULL,
+            timestamp INTEGER NOT NULL,
+            minute REAL NOT NULL,
+            side TEXT NOT NULL,
+            order_type TEXT NOT NULL,
+            price REAL NOT NULL,
+            size REAL NOT NULL,
+            cost REAL NOT NULL,
+            up_qty REAL NOT NULL,
+            down_qty REAL NOT NULL,
+            up_avg REAL NOT NULL,
+            down_avg REAL NOT NULL,
+            hedged REAL NOT NULL,
+            FOREIGN KEY (run_id) REFERENCES simulation_runs(id)
+          );
+
+          CREATE INDEX IF NOT EXISTS idx_sim_trades_run ON simulation_trades(run_id);
+          CREATE INDEX IF NOT EXISTS idx_sim_trades_timestamp ON simulation_trades(timestamp);
+        `);
+      },
+    },
+  ],
+};
@@ -0,0 +1,295 @@
+/**
+ * LiveControl.ts — Operator kill switch for the live shock-fade bot.
+ *
+ * The actions behind the dashboard's control API (and `npm run control`):
+ *
+ *   PAUSE           stop new cycles and refills; open cycles keep exiting
+ *   RESUME          lift the pause and every market block — or, with a
+ *                   marketSlug, just that market's block; with a
+ *                   breakerScope, just that CircuitBreakers halt
+ *   FLATTEN_MARKET  cancel the market's orders, sell held shares, merge the
+ *                   rest; the market stays blocked until resumed
+ *   FLATTEN_ALL     PAUSE (its own audit entry), then flatten every market
+ *
+ * Every action, accepted or refused, is appended to `<state>-control.jsonl`
+ * with the operator who sent it. The log is also the kill switch's memory:
+ * restore() replays it on startup, so a bot that restarts while paused (or
+ * with flattened markets) comes back paused.
+ *
+ * Events: "action" (ControlAuditEntry)
+ */
+
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import * as path from "path";
+
+import type { FlattenResult } from "../strategies/ShockFadeLive";
+import type { SportsMarket } from "./SportsMarketDiscovery";
+import type { BreakerHalt, CircuitBreakers } from "./CircuitBreakers";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ControlAction = "PAUSE" | "RESUME" | "FLATTEN_MARKET" | "FLATTEN_ALL";
+
+export interface ControlAuditEntry {
+  ts: number;
+  action: ControlAction;
+  operator: string;
+  params: Record<string, unknown>;
+  /** false when the action was refused (unknown market, flatten in progress, ...) */
+  ok: boolean;
+  detail: string;
+  result?: FlattenResult[];
+}
+
+/** The trader side of the kill switch (ShockFadeLive) */
+export interface ControlTarget {
+  pause(reason: string): void;
+  resume(): string | null;
+  isHalted(): boolean;
+  getHaltReason(): string | null;
+  blockMarket(marketSlug: string, reason: string): void;
+  unblockMarket(marketSlug: string): boolean;
+  getBlockedMarkets(): Array<{ marketSlug: string; reason: string }>;
+  flattenMarket(marketSlug: string, reason: string): Promise<FlattenResult>;
+  flattenAll(reason: string): Promise<FlattenResult[]>;
+  getMarketMeta(marketSlug: string): SportsMarket | undefined;
+}
+
+export interface ControlStatus {
+  halted: boolean;
+  haltReason: string | null;
+  /** Set while an operator pause is in force */
+  pausedBy: { operator: string; reason: string; at: number } | null;
+  blockedMarkets: Array<{ marketSlug: string; reason: string }>;
+  breakerHalts: BreakerHalt[];
+  /** Flattens running now ("*" = flatten all) */
+  flattening: string[];
+}
+
+export interface ResumeOptions {
+  marketSlug?: string;
+  breakerScope?: string;
+}
+
+/** Audit log next to the state file: foo.db → foo-control.jsonl */
+export function controlAuditPath(statePath: string): string {
+  const ext = path.extname(statePath);
+  return `${ext ? statePath.slice(0, -ext.length) : statePath}-control.jsonl`;
+}
+
+/** The live runner's dashboard port, which serves the control API (paper uses 3032) */
+export const LIVE_DASHBOARD_PORT = 3033;
+
+const FLATTEN_ALL_KEY = "*";
+
+/** Detail prefix of a flatten that threw part-way (the market is blocked regardless) */
+const FLATTEN_FAILED = "flatten failed";
+
+// ============================================================================
+// CONTROL
+// ============================================================================
+
+export class LiveControl extends EventEmitter {
+  private pausedBy: ControlStatus["pausedBy"] = null;
+  private flattening: Set<string> = new Set();
+
+  constructor(
+    private target: ControlTarget,
+    private auditPath: string,
+    private breakers: CircuitBreakers | null = null,
+  ) {
+    super();
+  }
+
+  /**
+   * Re-apply the pause and market blocks the audit log says are in force.
+   * Call once at startup, before the trader sees a shock.
+   */
+  restore(): void {
+    let paused: ControlStatus["pausedBy"] = null;
+    const blocked = new Map<string, string>();
+    for (const entry of this.readAudit()) {
+      if (!entry.ok && !entry.detail.startsWith(FLATTEN_FAILED)) continue;
+      const marketSlug = typeof entry.params.marketSlug === "string" ? entry.params.marketSlug : null;
+      const reason = this.reasonOf(entry);
+      switch (entry.action) {
+        case "PAUSE":
+          paused = { operator: entry.operator, reason, at: entry.ts };
+          break;
+        case "FLATTEN_ALL":
+          // Its PAUSE entry comes just before it
+          for (const r of entry.result ?? []) blocked.set(r.marketSlug, reason);
+          break;
+        case "FLATTEN_MARKET":
+          if (marketSlug) blocked.set(marketSlug, reason);
+          break;
+        case "RESUME":
+          if (marketSlug) {
+            blocked.delete(marketSlug);
+          } else if (typeof entry.params.breakerScope !== "string") {
+            paused = null;
+            blocked.clear();
+          }
+          break;
+      }
+    }
+
+    for (const [slug, reason] of blocked) this.target.blockMarket(slug, reason);
+    if (paused) {
+      this.pausedBy = paused;
+      this.target.pause(paused.reason);
+    }
+    if (paused || blocked.size > 0) {
+      console.log(`🕹️ [CONTROL] Restored from audit log: ${paused ? `paused (${paused.reason})` : "not paused"}, ${blocked.size} blocked markets`);
+    }
+  }
+
+  pause(operator: string, reason?: string): ControlAuditEntry {
+    const why = `paused by ${operator}${reason ? `: ${reason}` : ""}`;
+    this.target.pause(why);
+    this.pausedBy = { operator, reason: why, at: Date.now() };
+    return this.record("PAUSE", operator, { reason }, true, why);
+  }
+
+  resume(operator: string, options: ResumeOptions = {}): ControlAuditEntry {
+    const { marketSlug, breakerScope } = options;
+    const params = { marketSlug, breakerScope };
+
+    if (marketSlug && breakerScope) {
+      return this.record("RESUME", operator, params, false, "resume a market or a breaker scope, not both");
+    }
+    if (marketSlug) {
+      const lifted = this.target.unblockMarket(marketSlug);
+      return this.record("RESUME", operator, params, lifted, lifted ? `${marketSlug} open for new cycles` : `${marketSlug} was not blocked`);
+    }
+    // The pause and market blocks stay — lifting them takes a plain resume
+    if (breakerScope) {
+      const lifted = this.breakers?.resume(breakerScope, operator) ?? 0;
+      return this.record("RESUME", operator, params, lifted > 0,
+        lifted > 0 ? `${lifted} ${breakerScope} breaker halt${lifted === 1 ? "" : "s"} lifted` : `no ${breakerScope} breaker halt`);
+    }
+
+    const stillHalted = this.target.resume();
+    if (stillHalted) {
+      return this.record("RESUME", operator, params, false, `still halted: ${stillHalted}`);
+    }
+    const unblocked = this.target.getBlockedMarkets();
+    for (const { marketSlug: slug } of unblocked) this.target.unblockMarket(slug);
+    this.pausedBy = null;
+    return this.record("RESUME", operator, params, true, `trading resumed; ${unblocked.length} markets unblocked`);
+  }
+
+  async flattenMarket(operator: string, marketSlug: string, reason?: string): Promise<ControlAuditEntry> {
+    const params = { marketSlug, reason };
+    if (!this.target.getMarketMeta(marketSlug)) {
+      return this.record("FLATTEN_MARKET", operator, params, false, `unknown market ${marketSlug}`);
+    }
+    if (this.flattening.has(marketSlug) || this.flattening.has(FLATTEN_ALL_KEY)) {
+      return this.record("FLATTEN_MARKET", operator, params, false, `flatten already running for ${marketSlug}`);
+    }
+
+    this.flattening.add(marketSlug);
+    try {
+      const result = await this.target.flattenMarket(marketSlug, `flattened by ${operator}${reason ? `: ${reason}` : ""}`);
+      return this.record("FLATTEN_MARKET", operator, params, true, this.describe([result]), [result]);
+    } catch (err: any) {
+      return this.record("FLATTEN_MARKET", operator, params, false, `${FLATTEN_FAILED}: ${err?.message || err}`);
+    } finally {
+      this.flattening.delete(marketSlug);
+    }
+  }
+
+  async flattenAll(operator: string, reason?: string): Promise<ControlAuditEntry> {
+    const params = { reason };
+    if (this.flattening.size > 0) {
+      return this.record("FLATTEN_ALL", operator, params, false, `flatten already running (${Array.from(this.flattening).join(", ")})`);
+    }
+
+    // Paused (and audited as such) before any market is touched
+    this.pause(operator, reason ? `flatten all: ${reason}` : "flatten all");
+    this.flattening.add(FLATTEN_ALL_KEY);
+    try {
+      const results = await this.target.flattenAll(`flatten all by ${operator}${reason ? `: ${reason}` : ""}`);
+      return this.record("FLATTEN_ALL", operator, params, true, this.describe(results), results);
+    } catch (err: any) {
+      return this.record("FLATTEN_ALL", operator, params, false, `${FLATTEN_FAILED}: ${err?.message || err}`);
+    } finally {
+      this.flattening.delete(FLATTEN_ALL_KEY);
+    }
+  }
+
+  getStatus(): ControlStatus {
+    return {
+      halted: this.target.isHalted(),
+      haltReason: this.target.getHaltReason(),
+      pausedBy: this.pausedBy,
+      blockedMarkets: this.target.getBlockedMarkets(),
+      breakerHalts: this.breakers?.getHalts() ?? [],
+      flattening: Array.from(this.flattening),
+    };
+  }
+
+  /** Most recent audit entries, oldest first */
+  getAudit(limit: number = 50): ControlAuditEntry[] {
+    return this.readAudit().slice(-limit);
+  }
+
+  // ============================================================================
+  // AUDIT LOG
+  // ============================================================================
+
+  private record(
+    action: ControlAction,
+    operator: string,
+    params: Record<string, unknown>,
+    ok: boolean,
+    detail: string,
+    result?: FlattenResult[],
+  ): ControlAuditEntry {
+    const entry: ControlAuditEntry = { ts: Date.now(), action, operator, params, ok, detail, ...(result ? { result } : {}) };
+    try {
+      fs.mkdirSync(path.dirname(this.auditPath), { recursive: true });
+      fs.appendFileSync(this.auditPath, JSON.stringify(entry) + "\n");
+    } catch (err: any) {
+      console.log(`⚠️ [CONTROL] Failed to write audit log: ${err?.message || err}`);
+    }
+    console.log(`🕹️ [CONTROL] ${action} by ${operator} — ${ok ? "" : "REFUSED: "}${detail}`);
+    this.emit("action", entry);
+    return entry;
+  }
+
+  private readAudit(): ControlAuditEntry[] {
+    if (!fs.existsSync(this.auditPath)) return [];
+    const entries: ControlAuditEntry[] = [];
+    for (const line of fs.readFileSync(this.auditPath, "utf8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Torn last line from a crash mid-append — skip it
+      }
+    }
+    return entries;
+  }
+
+  /** The halt reason an accepted PAUSE / FLATTEN entry set */
+  private reasonOf(entry: ControlAuditEntry): string {
+    const reason = typeof entry.params.reason === "string" ? `: ${entry.params.reason}` : "";
+    switch (entry.action) {
+      case "FLATTEN_ALL": return `flatten all by ${entry.operator}${reason}`;
+      case "FLATTEN_MARKET": return `flattened by ${entry.operator}${reason}`;
+      default: return `paused by ${entry.operator}${reason}`;
+    }
+  }
+
+  private describe(results: FlattenResult[]): string {
+    const sum = (pick: (r: FlattenResult) => number) => results.reduce((s, r) => s + pick(r), 0);
+    const stuck = results.filter((r) => r.openPositions > 0).map((r) => r.marketSlug);
+    return `${results.length} market${results.length === 1 ? "" : "s"}: cancelled ${sum((r) => r.cancelledOrders)} orders, ` +
+      `closed ${sum((r) => r.closedPositions)} positions` +
+      (stuck.length > 0 ? `; positions still open on ${stuck.join(", ")}` : "");
+  }
+}
@@ -20,6 +20,15 @@ import { polygon } from "viem/chains";
 import { Interface } from "ethers/lib/utils";
 import { ethers } from "ethers";
 import { DirectExecutionClient } from "./DirectExecutionClient";
+import {
+  CtfBatchClient,
+  CtfBatchItem,
+  CtfBatchResult,
+  SafeExecutor,
+  relayerExecutor,
+  sequentialCtfBatch,
+} from "./CtfBatchClient";
+import { AlertRaiser } from "./Alerter";
 
 // Polygon Mainnet Constants
 const CTF_CONTRACT = "0x4D97DCd97eC945f40cF65F87097ACe5EA0476045";
@@ -34,14 +43,19 @@ export interface MergeResult {
   transactionHash?: string;
   error?: string;
   amountMerged?: number;
+  gasCostMatic?: number; // MATIC paid by our EOA (direct execution / EOA mode; relayer is gas-free)
 }
 
+/** The merges ShockFadeLive makes — MergeClient, or a simulated exchange */
+export type CtfMerger = Pick<MergeClient, "merge" | "mergeBatch">;
+
 export class MergeClient {
   private client: RelayClient | null = null;
   private directClient: DirectExecutionClient | null = null;
   private useDirectExecution: boolean = false;
   private eoaWallet: ethers.Wallet | null = null;
   private authMode: "EOA" | "PROXY";
+  private alerter: AlertRaiser | null = null;
   private ctfInterface: Interface;
   private negRiskInterface: Interface;
   private walletAddress: string;
@@ -135,11 +149,58 @@ export class MergeClient {
     isNegRisk: boolean = false,
   ): Promise<MergeResult> {
     // Route based on AUTH_MODE and market type
-    if (this.authMode === "EOA") {
-      return this.mergeDirectOnChain(conditionId, amount, isNegRisk);
-    } else {
-      return this.mergeViaRelayer(conditionId, amount, isNegRisk);
+    const result = this.authMode === "EOA"
+      ? await this.mergeDirectOnChain(conditionId, amount, isNegRisk)
+      : await this.mergeViaRelayer(conditionId, amount, isNegRisk);
+    if (!result.success) this.alertFailure(conditionId, amount, result.error);
+    return result;
+  }
+
+  /**
+   * Merge shares for many markets at once. PROXY mode packs them into one
+   * Safe transaction per batch (see CtfBatchClient); EOA mode merges one
+   * market at a time. Every item gets its own result.
+   */
+  async mergeBatch(
+    items: Array<Omit<CtfBatchItem, "op">>,
+  ): Promise<CtfBatchResult> {
+    const merges = items.map((i) => ({ ...i, op: "MERGE" as const }));
+    const executor = this.getSafeExecutor();
+    if (!executor) {
+      return sequentialCtfBatch(merges, (item) => this.merge(item.conditionId, item.amount, item.negRisk));
+    }
+    console.log(`🔀 Merging ${items.length} markets in one batch...`);
+    const batch = await new CtfBatchClient(executor).execute(merges);
+    for (const r of batch.results) {
+      if (!r.success) this.alertFailure(r.item.conditionId, r.item.amount, r.error, r.item.ref);
     }
+    return batch;
+  }
+
+  /**
+   * Raise failed merges on this alerter (one alert per market per dedupe
+   * window). Batches in EOA mode go through merge() and alert there.
+   */
+  setAlerter(alerter: AlertRaiser | null): void {
+    this.alerter = alerter;
+  }
+
+  private alertFailure(conditionId: string, amount: number, error: string | undefined, ref?: string): void {
+    this.alerter?.raise({
+      severity: "ERROR",
+      title: "Merge failed",
+      message: `Merge ${amount} on ${ref ?? conditionId.slice(0, 12) + "…"}: ${error ?? "unknown error"}`,
+      source: "MergeClient",
+      key: `MergeClient:${conditionId}`,
+      context: { conditionId, amount, ref },
+    });
+  }
+
+  /** Safe the PROXY wallet executes through (null in EOA mode) */
+  private getSafeExecutor(): SafeExecutor | null {
+    if (this.useDirectExecution && this.directClient) return this.directClient;
+    if (this.client) return relayerExecutor(this.client, "Merge positions");
+    return null;
   }
 
   /**
@@ -246,6 +307,7 @@ export class MergeClient {
         success: true,
         transactionHash: receipt.transactionHash,
         amountMerged: amount,
+        gasCostMatic: parseFloat(ethers.utils.formatEther(receipt.gasUsed.mul(receipt.effectiveGasPrice))),
       };
     } catch (error: any) {
       const errMsg = error.message || "Unknown error";
@@ -451,7 +513,7 @@ export class MergeClient {
       );
 
       // Execute via DirectExecutionClient (same SafeTransaction[] format)
-      const result = await this.directClient.execute([mergeTx]);
+      const result = await this.directClient.execute([mergeTx], `Merge ${amount} ${conditionId.slice(0, 10)}`);
 
       if (!result.success) {
         console.log(`   ❌ Direct merge failed: ${result.error}`);
@@ -476,6 +538,7 @@ export class MergeClient {
         success: true,
         transactionHash: result.transactionHash,
         amountMerged: amount,
+        gasCostMatic: result.gasCostMatic ? parseFloat(result.gasCostMatic) : undefined,
       };
     } catch (error: any) {
       const errMsg = error.message || "Unknown error";
@@ -14,17 +14,30 @@ export interface PriceUpdateEvent {
   timestamp: number;
 }
 
+/**
+ * "trade" events come from price_changes: a book level's new resting size,
+ * with the book side (a new bid is "buy"). Only "lastTrade" events, built
+ * from last_trade_price messages, are actual prints with the taker's side.
+ */
 export interface TradeEvent {
   tokenId: string;
   tradePrice: number;
   tradeSize: number;
-  side: "buy" | "sell"; // Taker side: 'sell' = taker selling into bids
+  side: "buy" | "sell"; // lastTrade: taker side, 'sell' = taker selling into bids. trade: book side
   bestBid: number;
   bestAsk: number;
   timestamp: number;
 }
 
-export class OrderBookWebSocket extends EventEmitter {
+/**
+ * The slice of OrderBookWebSocket the detector and trader use: its events
+ * and the best bid. ReplayMarketFeed stands in for it in backtests.
+ */
+export interface MarketDataFeed extends EventEmitter {
+  getBestBid(tokenId: string): number;
+}
+
+export class OrderBookWebSocket extends EventEmitter implements MarketDataFeed {
   private ws: WebSocket | null = null;
   private orderBooks: Map<string, OrderBookData> = new Map();
   private reconnectAttempts = 0;
@@ -36,16 +49,21 @@ export class OrderBookWebSocket extends EventEmitter {
   private startedAt: number = Date.now(); // Process start time
   private disconnectedAt: number = 0; // When connection was lost (for gap tracking)
 
-  constructor(private tokenIds: string[]) {
+  /**
+   * @param url Market channel URL. Defaults to $POLYMARKET_WS_HOST/ws/market
+   *            (production unless overridden, e.g. for the local mock CLOB).
+   */
+  constructor(
+    private tokenIds: string[],
+    private url: string = `${process.env.POLYMARKET_WS_HOST || "wss://ws-subscriptions-clob.polymarket.com"}/ws/market`,
+  ) {
     super();
   }
 
   connect(): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
-        this.ws = new WebSocket(
-          "wss://ws-subscriptions-clob.polymarket.com/ws/market",
-        );
+        this.ws = new WebSocket(this.url);
 
         this.ws.on("open", () => {
           const now = Date.now();
@@ -190,6 +208,13 @@ export class OrderBookWebSocket extends EventEmitter {
       this.emitPriceUpdate(tokenId);
     }
 
+    // Executed trades: one message per print, side is the taker's
+    if (message.event_type === "last_trade_price" && message.asset_id) {
+      const tokenId =
+        this.tokenIds.find((id) => id.startsWith(message.asset_id)) || message.asset_id;
+      this.handleLastTrade(tokenId, message);
+    }
+
     // Handle price_changes (trade notifications) for fill detection
     // Note: asset_id is inside each price_change object, not at the message level
     if (message.price_changes && Array.isArray(message.price_changes)) {
@@ -248,6 +273,27 @@ export class OrderBookWebSocket extends EventEmitter {
     this.emit("trade", tradeEvent);
   }
 
+  /**
+   * Handle a last_trade_price print and emit it as "lastTrade"
+   */
+  private handleLastTrade(tokenId: string, message: any): void {
+    const tradePrice = parseFloat(message.price || "0");
+    const tradeSize = parseFloat(message.size || "0");
+    if (tradePrice <= 0 || tradeSize <= 0) return;
+
+    const tradeEvent: TradeEvent = {
+      tokenId,
+      tradePrice,
+      tradeSize,
+      side: String(message.side).toLowerCase() === "buy" ? "buy" : "sell",
+      bestBid: this.getBestBid(tokenId),
+      bestAsk: this.getBestAsk(tokenId),
+      timestamp: Date.now(),
+    };
+
+    this.emit("lastTrade", tradeEvent);
+  }
+
   private emitPriceUpdate(tokenId: string): void {
     const bid = this.getBestBid(tokenId);
     const ask = this.getBestAsk(tokenId);
@@ -0,0 +1,390 @@
+/**
+ * OrderStateMachine.ts — The one place an order's status changes.
+ *
+ * Every order the strategy places (entry ladders, cumulative TP, GTC exits)
+ * is tracked here from creation to a terminal state:
+ *
+ *   PENDING_PLACE ──▶ RESTING ──▶ PARTIAL ──▶ FILLED
+ *        │               │           │
+ *        ▼               └─────┬─────┘
+ *      FAILED                  ▼
+ *                          CANCELLED ──▶ FILLED   (late fill: the match beat our cancel)
+ *
+ * Moves outside that graph are rejected (and emitted as "rejected"), so a
+ * second cancel for the same order, or a fill on an order that is already
+ * FILLED, cannot return or book shares twice. Fills are deduplicated by
+ * tradeId — the user channel repeats a trade as MATCHED → MINED → CONFIRMED —
+ * and stream trades that echo a fill already reported by the placement
+ * response are netted off against it.
+ *
+ * Every accepted transition is appended to an OrderJournal (JSONL) before it
+ * is applied. After a crash the journal is replayed over the last state
+ * snapshot; `compact()` rewrites it as one RESTORE entry per order still
+ * worth remembering.
+ */
+
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import * as path from "path";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type OrderState = "PENDING_PLACE" | "RESTING" | "PARTIAL" | "FILLED" | "CANCELLED" | "FAILED";
+
+/** What the order is for: entry ladder level, cumulative TP, or a GTC exit sell */
+export type OrderKind = "ENTRY" | "TP" | "EXIT";
+
+export type OrderEvent = "CREATE" | "ACK" | "FILL" | "CANCEL" | "FAIL" | "RESTORE";
+
+export interface TrackedOrder {
+  /** Local id (LiveLadderOrder.id for entries) */
+  key: string;
+  kind: OrderKind;
+  /** Owner reference, e.g. the shockId of the cycle */
+  ref: string | null;
+  tokenId: string;
+  size: number;
+  venueOrderId: string | null;
+  state: OrderState;
+  filled: number;
+  avgFillPrice: number | null;
+  tradeIds: string[];
+  /** Shares the placement response reported as matched that no stream trade has confirmed yet */
+  placementUnconfirmed: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface OrderTransition {
+  seq: number;
+  ts: number;
+  key: string;
+  event: OrderEvent;
+  from: OrderState | null;
+  to: OrderState;
+  venueOrderId?: string;
+  tradeId?: string;
+  fillSize?: number;
+  fillPrice?: number;
+  /** FILL: shares of this trade that only confirm an earlier placement fill */
+  confirmsPlacement?: number;
+  reason?: string;
+  /** CREATE: the new order. RESTORE: the full order snapshot. */
+  order?: TrackedOrder;
+}
+
+export interface OrderFill {
+  order: TrackedOrder;
+  size: number;
+  price: number;
+  /** First fill on this order */
+  first: boolean;
+  /** Arrived after we had already cancelled the order */
+  late: boolean;
+}
+
+export interface RejectedTransition {
+  key: string;
+  event: OrderEvent;
+  from: OrderState | null;
+  reason: string;
+}
+
+const LEGAL: Record<OrderState, OrderState[]> = {
+  PENDING_PLACE: ["RESTING", "FAILED"],
+  RESTING: ["PARTIAL", "FILLED", "CANCELLED"],
+  PARTIAL: ["PARTIAL", "FILLED", "CANCELLED"],
+  CANCELLED: ["CANCELLED", "FILLED"],
+  FILLED: [],
+  FAILED: [],
+};
+
+const EPS = 1e-9;
+
+/** On the book (or about to be) and still able to fill */
+export function isLiveOrderState(state: OrderState): boolean {
+  return state === "RESTING" || state === "PARTIAL";
+}
+
+export function isTerminalOrderState(state: OrderState): boolean {
+  return LEGAL[state].length === 0 || state === "CANCELLED";
+}
+
+export function canTransition(from: OrderState, to: OrderState): boolean {
+  return LEGAL[from].includes(to);
+}
+
+// ============================================================================
+// JOURNAL
+// ============================================================================
+
+/** Append-only JSONL log of order transitions. */
+export class OrderJournal {
+  constructor(readonly filePath: string) {}
+
+  append(entry: OrderTransition): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+    fs.appendFileSync(this.filePath, JSON.stringify(entry) + "\n");
+  }
+
+  /** All entries in order. A torn last line (crash mid-write) is skipped. */
+  read(): OrderTransition[] {
+    if (!fs.existsSync(this.filePath)) return [];
+    const entries: OrderTransition[] = [];
+    for (const line of fs.readFileSync(this.filePath, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // partial write — ignore
+      }
+    }
+    return entries;
+  }
+
+  /** Replace the journal atomically (write + rename). */
+  rewrite(entries: OrderTransition[]): void {
+    const tmp = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmp, entries.map((e) => JSON.stringify(e)).join("\n") + (entries.length ? "\n" : ""));
+    fs.renameSync(tmp, this.filePath);
+  }
+}
+
+// ============================================================================
+// STATE MACHINE
+// ============================================================================
+
+export class OrderStateMachine extends EventEmitter {
+  private orders: Map<string, TrackedOrder> = new Map();
+  private byVenueId: Map<string, string> = new Map();
+  private seq = 0;
+
+  constructor(private journal: OrderJournal | null = null) {
+    super();
+  }
+
+  get(key: string): TrackedOrder | undefined {
+    return this.orders.get(key);
+  }
+
+  getByVenueId(venueOrderId: string): TrackedOrder | undefined {
+    const key = this.byVenueId.get(venueOrderId);
+    return key ? this.orders.get(key) : undefined;
+  }
+
+  getAll(): TrackedOrder[] {
+    return Array.from(this.orders.values());
+  }
+
+  // ── Transitions ─────────────────────────────────────────────────────────
+
+  create(key: string, kind: OrderKind, tokenId: string, size: number, ref: string | null = null): TrackedOrder | null {
+    if (this.orders.has(key)) {
+      this.reject(key, "CREATE", this.orders.get(key)!.state, "order already exists");
+      return null;
+    }
+    const now = Date.now();
+    const order: TrackedOrder = {
+      key, kind, ref, tokenId, size,
+      venueOrderId: null,
+      state: "PENDING_PLACE",
+      filled: 0,
+      avgFillPrice: null,
+      tradeIds: [],
+      placementUnconfirmed: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.commit({ key, event: "CREATE", from: null, to: "PENDING_PLACE", order: { ...order } });
+    return this.orders.get(key)!;
+  }
+
+  /** Venue accepted the order — it is on the book under `venueOrderId`. */
+  acknowledge(key: string, venueOrderId: string): boolean {
+    const order = this.orders.get(key);
+    if (!this.check(order, key, "ACK", "RESTING")) return false;
+    this.commit({ key, event: "ACK", from: order!.state, to: "RESTING", venueOrderId });
+    return true;
+  }
+
+  fail(key: string, reason: string): boolean {
+    const order = this.orders.get(key);
+    if (!this.check(order, key, "FAIL", "FAILED")) return false;
+    this.commit({ key, event: "FAIL", from: order!.state, to: "FAILED", reason });
+    return true;
+  }
+
+  cancel(key: string, reason: string): boolean {
+    const order = this.orders.get(key);
+    if (order?.state === "CANCELLED") {
+      this.reject(key, "CANCEL", "CANCELLED", "already cancelled");
+      return false;
+    }
+    if (!this.check(order, key, "CANCEL", "CANCELLED")) return false;
+    this.commit({ key, event: "CANCEL", from: order!.state, to: "CANCELLED", reason });
+    return true;
+  }
+
+  /**
+   * Record a fill. `placement: true` for shares the placement response says
+   * matched immediately — the stream will report the same match later, and
+   * those trades are netted off instead of counted again.
+   * Returns null for duplicate trades or fills the order can't take.
+   */
+  fill(key: string, tradeId: string, size: number, price: number, opts: { placement?: boolean } = {}): OrderFill | null {
+    const order = this.orders.get(key);
+    if (!order) {
+      this.reject(key, "FILL", null, "unknown order");
+      return null;
+    }
+    if (order.tradeIds.includes(tradeId)) return null;
+
+    const remaining = order.size - order.filled;
+    const applied = Math.min(size, remaining);
+    if (applied <= EPS) {
+      this.reject(key, "FILL", order.state, `no remaining size for trade ${tradeId}`);
+      return null;
+    }
+    const to: OrderState = order.filled + applied >= order.size - EPS ? "FILLED" : order.state === "CANCELLED" ? "CANCELLED" : "PARTIAL";
+    if (!this.check(order, key, "FILL", to)) return null;
+
+    const first = order.filled <= EPS;
+    const late = order.state === "CANCELLED";
+    this.commit({ key, event: "FILL", from: order.state, to, tradeId, fillSize: applied, fillPrice: price, reason: opts.placement ? "placement" : undefined });
+    return { order, size: applied, price, first, late };
+  }
+
+  /**
+   * A trade for one of our orders from the venue's fill stream. Returns null
+   * if the order isn't ours, the trade was already counted, or it confirms a
+   * fill the placement response already reported.
+   */
+  streamFill(venueOrderId: string, tradeId: string, size: number, price: number): OrderFill | null {
+    const order = this.getByVenueId(venueOrderId);
+    if (!order) return null;
+    if (order.tradeIds.includes(tradeId)) return null;
+
+    if (order.placementUnconfirmed > EPS) {
+      const echoed = Math.min(size, order.placementUnconfirmed);
+      this.commit({ key: order.key, event: "FILL", from: order.state, to: order.state, tradeId, fillSize: 0, fillPrice: price, confirmsPlacement: echoed });
+      if (size - echoed <= EPS) return null;
+      return this.fill(order.key, `${tradeId}:rest`, size - echoed, price);
+    }
+    return this.fill(order.key, tradeId, size, price);
+  }
+
+  /** Book whatever is left as filled (e.g. the order vanished from the open-orders list). */
+  fillRemaining(key: string, tradeId: string, price: number): OrderFill | null {
+    const order = this.orders.get(key);
+    if (!order) return null;
+    return this.fill(key, tradeId, order.size - order.filled, price);
+  }
+
+  /** Adopt an order known only from a state snapshot (journaled as RESTORE). */
+  restore(order: TrackedOrder): void {
+    this.commit({ key: order.key, event: "RESTORE", from: this.orders.get(order.key)?.state ?? null, to: order.state, order: { ...order, tradeIds: [...order.tradeIds] } });
+  }
+
+  // ── Journal replay / compaction ─────────────────────────────────────────
+
+  /** Rebuild state from the journal. Returns the number of entries applied. */
+  replay(): number {
+    if (!this.journal) return 0;
+    const entries = this.journal.read();
+    for (const entry of entries) {
+      this.apply(entry);
+      this.seq = Math.max(this.seq, entry.seq);
+    }
+    return entries.length;
+  }
+
+  /**
+   * Forget terminal orders untouched for `retainMs` and rewrite the journal
+   * as one RESTORE entry per remaining order.
+   */
+  compact(retainMs: number, now: number = Date.now()): number {
+    let dropped = 0;
+    for (const order of Array.from(this.orders.values())) {
+      if (isTerminalOrderState(order.state) && now - order.updatedAt > retainMs) {
+        this.orders.delete(order.key);
+        if (order.venueOrderId) this.byVenueId.delete(order.venueOrderId);
+        dropped++;
+      }
+    }
+    if (this.journal) {
+      this.seq = 0;
+      this.journal.rewrite(Array.from(this.orders.values()).map((order) => ({
+        seq: ++this.seq,
+        ts: now,
+        key: order.key,
+        event: "RESTORE" as const,
+        from: null,
+        to: order.state,
+        order: { ...order, tradeIds: [...order.tradeIds] },
+      })));
+    }
+    return dropped;
+  }
+
+  // ============================================================================
+  // INTERNAL
+  // ============================================================================
+
+  private check(order: TrackedOrder | undefined, key: string, event: OrderEvent, to: OrderState): boolean {
+    if (!order) {
+      this.reject(key, event, null, "unknown order");
+      return false;
+    }
+    if (!canTransition(order.state, to)) {
+      this.reject(key, event, order.state, `illegal ${order.state} → ${to}`);
+      return false;
+    }
+    return true;
+  }
+
+  private reject(key: string, event: OrderEvent, from: OrderState | null, reason: string): void {
+    this.emit("rejected", { key, event, from, reason } as RejectedTransition);
+  }
+
+  private commit(partial: Omit<OrderTransition, "seq" | "ts">): void {
+    const entry: OrderTransition = { seq: ++this.seq, ts: Date.now(), ...partial };
+    this.journal?.append(entry);
+    this.apply(entry);
+    this.emit("transition", entry);
+  }
+
+  private apply(entry: OrderTransition): void {
+    if (entry.event === "CREATE" || entry.event === "RESTORE") {
+      const order = { ...entry.order!, tradeIds: [...entry.order!.tradeIds] };
+      this.orders.set(entry.key, order);
+      if (order.venueOrderId) this.byVenueId.set(order.venueOrderId, order.key);
+      return;
+    }
+
+    const order = this.orders.get(entry.key);
+    if (!order) return;
+    order.state = entry.to;
+    order.updatedAt = entry.ts;
+
+    if (entry.event === "ACK" && entry.venueOrderId) {
+      order.venueOrderId = entry.venueOrderId;
+      this.byVenueId.set(entry.venueOrderId, order.key);
+    }
+    if (entry.event === "FILL" && entry.tradeId) {
+      order.tradeIds.push(entry.tradeId);
+      const size = entry.fillSize ?? 0;
+      if (size > 0) {
+        const notional = (order.avgFillPrice ?? 0) * order.filled + size * (entry.fillPrice ?? 0);
+        order.filled += size;
+        order.avgFillPrice = notional / order.filled;
+        if (entry.reason === "placement") order.placementUnconfirmed += size;
+      }
+      if (entry.confirmsPlacement) {
+        order.placementUnconfirmed = Math.max(0, order.placementUnconfirmed - entry.confirmsPlacement);
+      }
+    }
+  }
+}
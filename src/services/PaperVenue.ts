@@ -0,0 +1,72 @@
+/**
+ * PaperVenue.ts — ExecutionVenue with simulated fills against the LIVE book.
+ *
+ * The replay backtester's ReplayExchange (matching engine, FillModel, token
+ * and USDC ledger, split / merge) fed by a real OrderBookWebSocket instead of
+ * recorded data. Inject it as ShockFadeLive's venue AND split / merge clients
+ * and the live strategy code paper-trades with no wallet or API keys:
+ *
+ *   const venue = new PaperVenue(ws, { startingUsdc: 1000 });
+ *   new ShockFadeLive(ws, venue, venue, venue, { dryRun: false });
+ *
+ * Markets must be registered (registerMarket) before their tokens can be split.
+ */
+
+import { OrderBookWebSocket, PriceUpdateEvent, TradeEvent } from "./OrderBookWS";
+import { BookLevel, FillModel, TouchFillModel, levelsFromOrderBook } from "../backtest/FillModel";
+import { ExchangeBookSource, ReplayExchange, ReplayExchangeOptions } from "../backtest/replay/ReplayExchange";
+
+/**
+ * Live book as a book source. Bids we take are hidden until the next book
+ * snapshot for that token replaces them.
+ */
+class LiveBookSource implements ExchangeBookSource {
+  private consumed: Map<string, number> = new Map();
+
+  constructor(private ws: OrderBookWebSocket) {}
+
+  reset(tokenId: string): void {
+    this.consumed.delete(tokenId);
+  }
+
+  getBids(tokenId: string): BookLevel[] {
+    let taken = this.consumed.get(tokenId) ?? 0;
+    const bids: BookLevel[] = [];
+    for (const level of levelsFromOrderBook(this.ws.getOrderBook(tokenId)).bids) {
+      const eat = Math.min(taken, level.size);
+      taken -= eat;
+      if (level.size - eat > 1e-9) bids.push({ price: level.price, size: level.size - eat });
+    }
+    return bids;
+  }
+
+  getAsks(tokenId: string): BookLevel[] {
+    return levelsFromOrderBook(this.ws.getOrderBook(tokenId)).asks;
+  }
+
+  consumeBids(tokenId: string, size: number): void {
+    this.consumed.set(tokenId, (this.consumed.get(tokenId) ?? 0) + size);
+  }
+}
+
+export class PaperVenue extends ReplayExchange {
+  readonly name: string = "paper";
+
+  constructor(
+    ws: OrderBookWebSocket,
+    opts: Partial<ReplayExchangeOptions> = {},
+    fillModel: FillModel = new TouchFillModel({ trade: "buy", bidCross: true }),
+  ) {
+    const source = new LiveBookSource(ws);
+    super(source, { wsLatencyMs: 0, ...opts }, fillModel);
+
+    ws.on("priceUpdate", (event: PriceUpdateEvent) => {
+      source.reset(event.tokenId);
+      this.onBookUpdate(event.tokenId);
+    });
+    // Prints only — "trade" events are price_changes book sizes, not volume
+    ws.on("lastTrade", (event: TradeEvent) => {
+      this.onTrade(event.tokenId, event.tradePrice, event.tradeSize, event.side);
+    });
+  }
+}
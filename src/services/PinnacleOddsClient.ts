@@ -0,0 +1,315 @@
+/**
+ * Pinnacle Odds Client
+ *
+ * Sportsbook fair value from Pinnacle moneylines via The Odds API (v4).
+ * See docs/PINNACLE_INTEGRATION.md for the design and credit maths.
+ *
+ * Endpoints:
+ *   GET /v4/sports                                  — free, no credits
+ *   GET /v4/sports/{sport}/odds?regions=eu&markets=h2h&bookmakers=pinnacle
+ *                                                   — 1 credit (1 region × 1 market)
+ *
+ * Decimal odds are converted to implied probabilities and de-vigged by
+ * proportional normalisation, so homeFair + awayFair = 1.
+ *
+ * Credits: every odds response carries x-requests-used / x-requests-remaining.
+ * Responses are cached per sport (cacheTtlMs) and concurrent callers share one
+ * in-flight request. Once remaining credits fall to `minCreditsRemaining`, or
+ * this process has spent `maxCreditsPerSession`, no new odds calls are made and
+ * the last (possibly stale) response is served instead.
+ */
+
+import { SportsMarket } from "./SportsMarketDiscovery";
+
+export type SupportedSport = "NBA" | "NFL" | "NHL";
+
+export const SPORT_KEYS: Record<SupportedSport, string> = {
+  NBA: "basketball_nba",
+  NFL: "americanfootball_nfl",
+  NHL: "icehockey_nhl",
+};
+
+export interface PinnacleOdds {
+  eventId: string;
+  sportKey: string;
+  homeTeam: string;
+  awayTeam: string;
+  commenceTime: Date;
+  // Raw decimal odds
+  homePrice: number;
+  awayPrice: number;
+  // Implied probabilities (with vig)
+  homeImplied: number;
+  awayImplied: number;
+  // Vig-removed fair probabilities
+  homeFair: number;
+  awayFair: number;
+  /** Overround, e.g. 0.025 = 2.5% */
+  vig: number;
+  lastUpdate: Date;
+}
+
+export interface PinnacleOddsClientConfig {
+  apiKey: string;
+  /** Override for tests / fixture servers */
+  baseUrl: string;
+  cacheTtlMs: number;
+  source: "the-odds-api";
+  region: string;
+  bookmaker: string;
+  /** Stop calling when the API reports this many credits or fewer remaining */
+  minCreditsRemaining: number;
+  /** Hard cap on credits spent by this process (0 = unlimited) */
+  maxCreditsPerSession: number;
+}
+
+export const DEFAULT_PINNACLE_CONFIG: PinnacleOddsClientConfig = {
+  apiKey: "",
+  baseUrl: "https://api.the-odds-api.com",
+  cacheTtlMs: 30_000,
+  source: "the-odds-api",
+  region: "eu",
+  bookmaker: "pinnacle",
+  minCreditsRemaining: 10,
+  maxCreditsPerSession: 0,
+};
+
+export interface CreditUsage {
+  /** As reported by the last response (null until the first odds call) */
+  used: number | null;
+  remaining: number | null;
+  /** Credits spent by this process */
+  sessionUsed: number;
+  /** Odds calls skipped because the budget was exhausted */
+  skippedCalls: number;
+}
+
+/**
+ * Source of a de-vigged fair probability for one outcome of a Polymarket
+ * market. ShockFadeLive's fair-value gate depends on this, not on the client.
+ */
+export interface FairValueSource {
+  getFairValue(market: SportsMarket, tokenId: string): Promise<number | null>;
+}
+
+interface OddsApiOutcome {
+  name: string;
+  price: number;
+}
+
+interface OddsApiEvent {
+  id: string;
+  sport_key: string;
+  commence_time: string;
+  home_team: string;
+  away_team: string;
+  bookmakers: {
+    key: string;
+    last_update: string;
+    markets: { key: string; last_update?: string; outcomes: OddsApiOutcome[] }[];
+  }[];
+}
+
+export class PinnacleOddsClient implements FairValueSource {
+  private config: PinnacleOddsClientConfig;
+  private cache: Map<string, { fetchedAt: number; odds: PinnacleOdds[] }> = new Map();
+  private inFlight: Map<string, Promise<PinnacleOdds[]>> = new Map();
+  private credits: CreditUsage = { used: null, remaining: null, sessionUsed: 0, skippedCalls: 0 };
+
+  constructor(config: Partial<PinnacleOddsClientConfig> = {}) {
+    this.config = {
+      ...DEFAULT_PINNACLE_CONFIG,
+      apiKey: process.env.THE_ODDS_API_KEY ?? "",
+      cacheTtlMs: process.env.PINNACLE_CACHE_TTL_MS
+        ? parseInt(process.env.PINNACLE_CACHE_TTL_MS, 10)
+        : DEFAULT_PINNACLE_CONFIG.cacheTtlMs,
+      ...config,
+    };
+  }
+
+  isConfigured(): boolean {
+    return this.config.apiKey.length > 0;
+  }
+
+  getCreditUsage(): CreditUsage {
+    return { ...this.credits };
+  }
+
+  /* ─── Fetching ──────────────────────────────────────────────────── */
+
+  /** Sports currently offered (free endpoint). */
+  async getSports(): Promise<{ key: string; title: string; active: boolean }[]> {
+    const { body } = await this.fetchJson<{ key: string; title: string; active: boolean }[]>("/v4/sports", {});
+    return body;
+  }
+
+  /**
+   * Pinnacle moneylines for every upcoming/live game of a sport.
+   * Served from cache within cacheTtlMs, or from the stale cache when the
+   * credit budget is exhausted.
+   */
+  async getMoneylineOdds(sport: SupportedSport): Promise<PinnacleOdds[]> {
+    const sportKey = SPORT_KEYS[sport];
+    if (!sportKey) throw new Error(`Unsupported sport: ${sport}`);
+
+    const cached = this.cache.get(sportKey);
+    if (cached && Date.now() - cached.fetchedAt < this.config.cacheTtlMs) {
+      return cached.odds;
+    }
+
+    if (!this.hasCreditBudget()) {
+      this.credits.skippedCalls++;
+      return cached?.odds ?? [];
+    }
+
+    const pending = this.inFlight.get(sportKey);
+    if (pending) return pending;
+
+    const request = this.fetchOdds(sportKey).finally(() => this.inFlight.delete(sportKey));
+    this.inFlight.set(sportKey, request);
+    return request;
+  }
+
+  /** Odds for one game, matched by team names in either home/away order. */
+  async getGameOdds(sport: SupportedSport, teamA: string, teamB: string): Promise<PinnacleOdds | null> {
+    const games = await this.getMoneylineOdds(sport);
+    return (
+      games.find(
+        (g) =>
+          (teamsMatch(g.homeTeam, teamA) && teamsMatch(g.awayTeam, teamB)) ||
+          (teamsMatch(g.homeTeam, teamB) && teamsMatch(g.awayTeam, teamA)),
+      ) ?? null
+    );
+  }
+
+  /**
+   * Fair probability of the outcome behind `tokenId` (FairValueSource).
+   * Returns null if the sport is unsupported or the game is not listed.
+   */
+  async getFairValue(market: SportsMarket, tokenId: string): Promise<number | null> {
+    const sport = market.sport.toUpperCase() as SupportedSport;
+    if (!SPORT_KEYS[sport] || market.outcomes.length < 2) return null;
+
+    const idx = market.tokenIds.indexOf(tokenId);
+    if (idx < 0 || idx > 1) return null;
+
+    const outcome = market.outcomes[idx];
+    const game = await this.getGameOdds(sport, market.outcomes[0], market.outcomes[1]);
+    if (!game) return null;
+
+    return teamsMatch(game.homeTeam, outcome) ? game.homeFair : game.awayFair;
+  }
+
+  private async fetchOdds(sportKey: string): Promise<PinnacleOdds[]> {
+    const { body, headers } = await this.fetchJson<OddsApiEvent[]>(`/v4/sports/${sportKey}/odds`, {
+      regions: this.config.region,
+      markets: "h2h",
+      bookmakers: this.config.bookmaker,
+      oddsFormat: "decimal",
+      dateFormat: "iso",
+    });
+
+    this.recordCredits(headers);
+
+    const odds: PinnacleOdds[] = [];
+    for (const event of body) {
+      const parsed = this.parseEvent(event);
+      if (parsed) odds.push(parsed);
+    }
+
+    this.cache.set(sportKey, { fetchedAt: Date.now(), odds });
+    return odds;
+  }
+
+  private parseEvent(event: OddsApiEvent): PinnacleOdds | null {
+    const book = event.bookmakers?.find((b) => b.key === this.config.bookmaker);
+    const h2h = book?.markets.find((m) => m.key === "h2h");
+    if (!book || !h2h) return null;
+
+    const home = h2h.outcomes.find((o) => o.name === event.home_team);
+    const away = h2h.outcomes.find((o) => o.name === event.away_team);
+    if (!home || !away || home.price <= 1 || away.price <= 1) return null;
+
+    const [homeImplied, awayImplied] = [1 / home.price, 1 / away.price];
+    const [homeFair, awayFair] = PinnacleOddsClient.devig([home.price, away.price]);
+
+    return {
+      eventId: event.id,
+      sportKey: event.sport_key,
+      homeTeam: event.home_team,
+      awayTeam: event.away_team,
+      commenceTime: new Date(event.commence_time),
+      homePrice: home.price,
+      awayPrice: away.price,
+      homeImplied,
+      awayImplied,
+      homeFair,
+      awayFair,
+      vig: homeImplied + awayImplied - 1,
+      lastUpdate: new Date(h2h.last_update ?? book.last_update),
+    };
+  }
+
+  private async fetchJson<T>(path: string, params: Record<string, string>): Promise<{ body: T; headers: Headers }> {
+    if (!this.isConfigured()) {
+      throw new Error("THE_ODDS_API_KEY not set");
+    }
+    const qs = new URLSearchParams({ apiKey: this.config.apiKey, ...params });
+    const res = await fetch(`${this.config.baseUrl}${path}?${qs.toString()}`);
+    if (!res.ok) {
+      // Never echo the URL — it carries the API key
+      throw new Error(`The Odds API ${res.status}: ${path}`);
+    }
+    return { body: (await res.json()) as T, headers: res.headers };
+  }
+
+  /* ─── Credit budgeting ──────────────────────────────────────────── */
+
+  private hasCreditBudget(): boolean {
+    const { remaining, sessionUsed } = this.credits;
+    if (remaining !== null && remaining <= this.config.minCreditsRemaining) return false;
+    if (this.config.maxCreditsPerSession > 0 && sessionUsed >= this.config.maxCreditsPerSession) return false;
+    return true;
+  }
+
+  private recordCredits(headers: Headers): void {
+    const used = headers.get("x-requests-used");
+    const remaining = headers.get("x-requests-remaining");
+    const last = headers.get("x-requests-last");
+
+    if (used !== null) this.credits.used = parseFloat(used);
+    if (remaining !== null) this.credits.remaining = parseFloat(remaining);
+    this.credits.sessionUsed += last !== null ? parseFloat(last) : 1;
+  }
+
+  /* ─── Maths ─────────────────────────────────────────────────────── */
+
+  /**
+   * Remove the bookmaker margin from decimal odds (proportional method).
+   * Returns fair probabilities summing to 1.
+   */
+  static devig(decimalOdds: number[]): number[] {
+    const implied = decimalOdds.map((o) => 1 / o);
+    const total = implied.reduce((a, b) => a + b, 0);
+    return implied.map((p) => p / total);
+  }
+
+  /** How far a Polymarket price sits above fair value, in cents (negative = below). */
+  static getOvershoot(polymarketPrice: number, fairValue: number): number {
+    return Math.round((polymarketPrice - fairValue) * 1000) / 10;
+  }
+}
+
+/* ─── Team matching ─────────────────────────────────────────────── */
+
+/**
+ * Loose team-name match between a sportsbook name ("Boston Bruins") and a
+ * Polymarket outcome ("Bruins"): compares the nickname (last word).
+ */
+export function teamsMatch(sportsbookName: string, polymarketOutcome: string): boolean {
+  const words = sportsbookName.trim().split(/\s+/);
+  const nick = words[words.length - 1].toLowerCase().replace(/[^a-z0-9]/g, "");
+  const pm = polymarketOutcome.toLowerCase().replace(/[^a-z0-9 ]/g, "");
+  if (!nick || !pm) return false;
+  return pm === nick || pm.split(/\s+/).includes(nick) || sportsbookName.toLowerCase() === polymarketOutcome.toLowerCase();
+}
@@ -12,9 +12,9 @@ import {
   Side,
   OrderType,
   AssetType,
+  SignatureType,
 } from "@polymarket/clob-client";
 import { ApiKeyCreds } from "@polymarket/clob-client";
-import { SignatureType } from "@polymarket/order-utils";
 import { Wallet } from "@ethersproject/wallet";
 import { ethers } from "ethers";
 import axios from "axios";
@@ -1591,7 +1591,7 @@ export class PolymarketClient {
       const response = await this.rateLimiter.execute(
         "clob-market-data",
         async () => {
-          return axios.get("https://clob.polymarket.com/price", {
+          return axios.get(`${this.config.host}/price`, {
             params: { token_id: tokenId, side: "BUY" },
           });
         },
@@ -0,0 +1,108 @@
+/**
+ * PolymarketVenue.ts — ExecutionVenue over the real Polymarket CLOB.
+ *
+ * Orders go through PolymarketClient (rate limited, allowance handling,
+ * retries); the fill stream is the UserChannelWS, when one is attached.
+ * Without a user channel no events are emitted and callers fall back to
+ * polling getOpenOrders / getOrder.
+ */
+
+import { EventEmitter } from "events";
+import { PolymarketClient } from "./PolymarketClient";
+import { UserChannelWS, OrderFillEvent, OrderUpdateEvent } from "./UserChannelWS";
+import {
+  ExecutionVenue,
+  VenueOrder,
+  VenueOrderRequest,
+  VenueOrderResult,
+} from "./ExecutionVenue";
+import { TradeResult } from "../types";
+
+function toVenueResult(result: TradeResult): VenueOrderResult {
+  return {
+    success: result.success,
+    orderId: result.orderID,
+    filledShares: result.filledShares ?? 0,
+    filledPrice: result.filledPrice,
+    error: result.error,
+  };
+}
+
+/** CLOB order JSON (strings) → VenueOrder */
+function toVenueOrder(raw: any): VenueOrder {
+  const originalSize = parseFloat(raw.original_size || "0");
+  const sizeMatched = parseFloat(raw.size_matched || "0");
+  const status = String(raw.status || "").toUpperCase();
+  const tradePrice = raw.associate_trades?.[0]?.price;
+  return {
+    orderId: raw.id,
+    market: raw.market || "",
+    tokenId: raw.asset_id || "",
+    side: String(raw.side).toUpperCase() === "BUY" ? "BUY" : "SELL",
+    price: parseFloat(raw.price || "0"),
+    originalSize,
+    sizeMatched,
+    status: status === "LIVE" ? "LIVE" : status === "MATCHED" || sizeMatched >= originalSize ? "MATCHED" : "CANCELED",
+    avgFillPrice: tradePrice ? parseFloat(tradePrice) : undefined,
+  };
+}
+
+export class PolymarketVenue extends EventEmitter implements ExecutionVenue {
+  readonly name = "polymarket";
+  private client: PolymarketClient;
+  private userChannel: UserChannelWS | null = null;
+
+  constructor(client: PolymarketClient, userChannel?: UserChannelWS) {
+    super();
+    this.client = client;
+    if (userChannel) this.attachUserChannel(userChannel);
+  }
+
+  /** Forward the user channel's fills and order updates as venue events */
+  attachUserChannel(userChannel: UserChannelWS): void {
+    this.userChannel = userChannel;
+    userChannel.on("orderFill", (fill: OrderFillEvent) => this.emit("orderFill", fill));
+    userChannel.on("orderUpdate", (update: OrderUpdateEvent) => this.emit("orderUpdate", update));
+  }
+
+  getUserChannel(): UserChannelWS | null {
+    return this.userChannel;
+  }
+
+  async placeLimit(req: VenueOrderRequest): Promise<VenueOrderResult> {
+    const result = req.side === "SELL"
+      ? await this.client.sellSharesGTC(req.tokenId, req.shares, req.price, req.negRisk ?? false)
+      : await this.client.buySharesGTC(req.tokenId, req.shares, req.price);
+    return toVenueResult(result);
+  }
+
+  async placeIoc(req: VenueOrderRequest): Promise<VenueOrderResult> {
+    const result = req.side === "SELL"
+      ? await this.client.sellShares(req.tokenId, req.shares, req.price, req.negRisk ?? false)
+      : await this.client.buySharesFAK(req.tokenId, req.shares, req.price);
+    return toVenueResult(result);
+  }
+
+  cancel(orderId: string): Promise<{ success: boolean; error?: string }> {
+    return this.client.cancelSingleOrder(orderId);
+  }
+
+  async getOpenOrders(conditionId: string, tokenId?: string): Promise<VenueOrder[]> {
+    const result = await this.client.getOpenOrders(conditionId, tokenId);
+    if (!result.success) throw new Error(result.error || "getOpenOrders failed");
+    return (result.orders || []).map(toVenueOrder);
+  }
+
+  async getOrder(orderId: string): Promise<VenueOrder | null> {
+    const raw = await this.client.getOrderById(orderId);
+    return raw && raw.id ? toVenueOrder(raw) : null;
+  }
+
+  getTokenBalance(tokenId: string): Promise<number> {
+    return this.client.getTokenBalance(tokenId);
+  }
+
+  getBalance(): Promise<number> {
+    return this.client.getBalance();
+  }
+}
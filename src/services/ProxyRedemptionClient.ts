@@ -11,6 +11,7 @@ import { privateKeyToAccount } from 'viem/accounts';
 import { polygon } from 'viem/chains';
 import { Interface } from 'ethers/lib/utils';
 import { ethers } from 'ethers';
+import { CtfBatchClient, CtfBatchResult, relayerExecutor, sequentialCtfBatch } from './CtfBatchClient';
 
 // Polygon Mainnet Constants
 const CTF_CONTRACT = '0x4d97dcd97ec945f40cf65f87097ace5ea0476045';
@@ -25,6 +26,7 @@ export interface ProxyRedemptionResult {
   error?: string;
   note?: string;
   rateLimitResetSeconds?: number;  // V86: How long until rate limit resets
+  gasCostMatic?: number;           // MATIC paid by the EOA (EOA mode only; relayer is gas-free)
 }
 
 export class ProxyRedemptionClient {
@@ -160,6 +162,29 @@ export class ProxyRedemptionClient {
     }
   }
 
+  /**
+   * Redeem many resolved markets at once. PROXY mode packs them into one
+   * relayer transaction per batch (see CtfBatchClient); EOA mode redeems one
+   * market at a time. Every item gets its own result.
+   */
+  async redeemBatch(
+    items: Array<{ conditionId: string; outcomeIndex: number; negRisk: boolean; shares?: number; ref?: string }>
+  ): Promise<CtfBatchResult> {
+    const redeems = items.map((i) => ({
+      op: 'REDEEM' as const,
+      conditionId: i.conditionId,
+      outcomeIndex: i.outcomeIndex,
+      negRisk: i.negRisk,
+      amount: i.shares ?? 0,
+      ref: i.ref,
+    }));
+    if (!this.client) {
+      return sequentialCtfBatch(redeems, (item) =>
+        this.redeem(item.conditionId, item.outcomeIndex!, item.negRisk, item.amount || undefined));
+    }
+    return new CtfBatchClient(relayerExecutor(this.client, 'Redeem positions')).execute(redeems);
+  }
+
   /**
    * EOA mode: Execute redemption directly on-chain
    * Requires MATIC for gas fees
@@ -258,7 +283,8 @@ export class ProxyRedemptionClient {
       console.log(`   ✅ Redeemed (tx: ${receipt.transactionHash.slice(0, 10)}...)`);
       return {
         success: true,
-        transactionHash: receipt.transactionHash
+        transactionHash: receipt.transactionHash,
+        gasCostMatic: parseFloat(ethers.utils.formatEther(receipt.gasUsed.mul(receipt.effectiveGasPrice)))
       };
 
     } catch (error: any) {
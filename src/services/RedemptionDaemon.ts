@@ -0,0 +1,335 @@
+/**
+ * RedemptionDaemon.ts — Redeems winning shares once their market resolves.
+ *
+ * When a game is decided ShockFadeLive force-closes its positions and books
+ * the held winners at $1 — but the shares are still sitting in the wallet
+ * until someone calls redeemPositions. The daemon picks those up (the
+ * strategy's "winnerHeld" event), polls the CLOB until the market reports a
+ * winner, and redeems through ProxyRedemptionClient.redeemWithRetry:
+ *
+ *   PENDING ──(resolved, our token won)──▶ redeem ──▶ REDEEMED
+ *      │                                     │
+ *      │                                     └──(attempt budget spent)──▶ GAVE_UP
+ *      └──(resolved, our token lost)──▶ LOST
+ *
+ * Attempts are recorded in trading.db's redemption_tracking through
+ * DatabaseService.recordRedemptionAttempt, and its attempt budget
+ * (shouldAttemptRedemption) is respected — after that the claim waits for
+ * `npm run redeem`. A claim whose tokens are gone from the wallet (redeemed
+ * by hand or by Polymarket) is dropped.
+ *
+ * Claims are kept in `<state>-redemptions.json` so a restart doesn't forget
+ * USDC still owed. getUnredeemed() feeds the "Unredeemed" line of the
+ * dashboard's AUM.
+ *
+ * Events: "tracked", "redeemed", "lost", "gaveUp", "dropped" (claim)
+ */
+
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import * as path from "path";
+import { ProxyRedemptionResult } from "./ProxyRedemptionClient";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ClaimStatus = "PENDING" | "REDEEMED" | "LOST" | "GAVE_UP";
+
+/** Winning shares a strategy handed over for redemption */
+export interface WinningShares {
+  marketSlug: string;
+  conditionId: string;
+  tokenId: string;
+  /** 1 or 2 — position of tokenId in the market's token pair */
+  outcomeIndex: number;
+  shares: number;
+  negRisk: boolean;
+}
+
+export interface RedemptionClaim extends WinningShares {
+  status: ClaimStatus;
+  trackedAt: number;
+  lastCheckedAt: number;
+  /** Not before this (rate-limit back-off) */
+  nextAttemptAt: number;
+  attempts: number;
+  lastError: string | null;
+  transactionHash: string | null;
+  /** MATIC paid for the redeem transaction (EOA mode; the relayer is gas-free) */
+  gasCostMatic?: number;
+  settledAt: number | null;
+}
+
+export interface MarketResolution {
+  resolved: boolean;
+  /** Token that won, once resolved */
+  winningTokenId?: string;
+}
+
+/** Where resolution comes from — CLOB by default, scripted in tests */
+export interface ResolutionSource {
+  getResolution(conditionId: string): Promise<MarketResolution>;
+}
+
+/** ProxyRedemptionClient's surface the daemon uses */
+export interface Redeemer {
+  redeemWithRetry(
+    conditionId: string,
+    outcomeIndex: number,
+    maxRetries?: number,
+    retryDelayMs?: number,
+    isNegRisk?: boolean,
+    shares?: number,
+  ): Promise<ProxyRedemptionResult>;
+}
+
+/** DatabaseService's redemption_tracking surface */
+export interface RedemptionLedger {
+  recordRedemptionAttempt(conditionId: string, marketSlug: string, success: boolean, txHash?: string): void;
+  shouldAttemptRedemption(conditionId: string): boolean;
+}
+
+export interface TokenBalances {
+  getTokenBalance(tokenId: string): Promise<number>;
+}
+
+export interface RedemptionDaemonConfig {
+  /** How often pending claims are checked for resolution */
+  pollIntervalMs: number;
+  /** redeemWithRetry arguments */
+  maxRetries: number;
+  retryDelayMs: number;
+}
+
+export const DEFAULT_REDEMPTION_CONFIG: RedemptionDaemonConfig = {
+  pollIntervalMs: 60_000,
+  maxRetries: 3,
+  retryDelayMs: 30_000,
+};
+
+/** Claims file next to the state file: foo.db → foo-redemptions.json */
+export function redemptionClaimsPath(statePath: string): string {
+  const ext = path.extname(statePath);
+  return `${ext ? statePath.slice(0, -ext.length) : statePath}-redemptions.json`;
+}
+
+// ============================================================================
+// CLOB RESOLUTION SOURCE
+// ============================================================================
+
+/** Resolution from the CLOB market endpoint (tokens[].winner) */
+export function clobResolutionSource(host: string = "https://clob.polymarket.com"): ResolutionSource {
+  return {
+    async getResolution(conditionId: string): Promise<MarketResolution> {
+      const response = await fetch(`${host}/markets/${conditionId}`);
+      if (!response.ok) throw new Error(`CLOB API returned ${response.status}`);
+      const market: any = await response.json();
+      const winner = Array.isArray(market.tokens) ? market.tokens.find((t: any) => t.winner === true) : undefined;
+      if (!winner) return { resolved: false };
+      return { resolved: true, winningTokenId: String(winner.token_id) };
+    },
+  };
+}
+
+// ============================================================================
+// DAEMON
+// ============================================================================
+
+export class RedemptionDaemon extends EventEmitter {
+  private config: RedemptionDaemonConfig;
+  private claims: Map<string, RedemptionClaim> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(
+    private redeemer: Redeemer,
+    private ledger: RedemptionLedger,
+    private balances: TokenBalances,
+    private filePath: string,
+    private resolution: ResolutionSource = clobResolutionSource(),
+    config: Partial<RedemptionDaemonConfig> = {},
+  ) {
+    super();
+    this.config = { ...DEFAULT_REDEMPTION_CONFIG, ...config };
+    this.load();
+  }
+
+  start(): void {
+    if (this.timer) return;
+    const pending = this.getClaims("PENDING");
+    console.log(`🏦 [REDEEM] Daemon started — ${pending.length} claim(s) pending ($${this.getUnredeemedValue().toFixed(2)} unredeemed)`);
+    this.timer = setInterval(() => { void this.tick(); }, this.config.pollIntervalMs);
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Hand over winning shares — adds to an existing claim for the same token */
+  track(winner: WinningShares): RedemptionClaim {
+    const key = `${winner.conditionId}:${winner.tokenId}`;
+    const existing = this.claims.get(key);
+    if (existing && existing.status === "PENDING") {
+      existing.shares += winner.shares;
+      this.persist();
+      console.log(`🏦 [REDEEM] +${winner.shares} winning shares for ${winner.marketSlug} (${existing.shares} total)`);
+      return existing;
+    }
+
+    const now = Date.now();
+    const claim: RedemptionClaim = {
+      ...winner,
+      status: "PENDING",
+      trackedAt: now,
+      lastCheckedAt: 0,
+      nextAttemptAt: 0,
+      attempts: 0,
+      lastError: null,
+      transactionHash: null,
+      settledAt: null,
+    };
+    this.claims.set(key, claim);
+    this.persist();
+    this.emit("tracked", claim);
+    console.log(`🏦 [REDEEM] Tracking ${winner.shares} winning shares of ${winner.marketSlug} until it resolves`);
+    return claim;
+  }
+
+  getClaims(status?: ClaimStatus): RedemptionClaim[] {
+    const all = Array.from(this.claims.values());
+    return status ? all.filter((c) => c.status === status) : all;
+  }
+
+  /** Winning shares not redeemed yet (pending or given up) — $1 each */
+  getUnredeemed(): RedemptionClaim[] {
+    return this.getClaims().filter((c) => c.status === "PENDING" || c.status === "GAVE_UP");
+  }
+
+  getUnredeemedValue(): number {
+    return this.getUnredeemed().reduce((sum, c) => sum + c.shares, 0);
+  }
+
+  /** One pass over pending claims. Safe to call directly (tests, shutdown). */
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      for (const claim of this.getUnredeemed()) {
+        try {
+          await this.process(claim);
+        } catch (err: any) {
+          claim.lastError = err?.message || String(err);
+          console.log(`⚠️ [REDEEM] ${claim.marketSlug}: ${claim.lastError}`);
+        }
+        claim.lastCheckedAt = Date.now();
+      }
+      this.prune();
+      this.persist();
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async process(claim: RedemptionClaim): Promise<void> {
+    // Gone from the wallet — redeemed by `npm run redeem`, the UI or Polymarket
+    const held = await this.balances.getTokenBalance(claim.tokenId);
+    if (held <= 0) {
+      this.settle(claim, "REDEEMED", "dropped");
+      console.log(`🏦 [REDEEM] ${claim.marketSlug}: no ${claim.tokenId.slice(0, 8)}… shares left — redeemed elsewhere, dropping claim`);
+      return;
+    }
+    if (claim.status === "GAVE_UP") return;
+    if (Date.now() < claim.nextAttemptAt) return;
+
+    const resolution = await this.resolution.getResolution(claim.conditionId);
+    if (!resolution.resolved) return;
+
+    if (resolution.winningTokenId !== claim.tokenId) {
+      this.settle(claim, "LOST", "lost");
+      console.log(`❌ [REDEEM] ${claim.marketSlug} resolved against us — ${claim.shares} shares booked at $1 are worth $0`);
+      return;
+    }
+
+    if (!this.ledger.shouldAttemptRedemption(claim.conditionId)) {
+      this.settle(claim, "GAVE_UP", "gaveUp");
+      console.log(`⚠️ [REDEEM] ${claim.marketSlug}: redemption attempts used up — left for \`npm run redeem\``);
+      return;
+    }
+
+    const shares = Math.min(claim.shares, held);
+    console.log(`💵 [REDEEM] ${claim.marketSlug} resolved — redeeming ${shares} shares (outcome ${claim.outcomeIndex})`);
+    const result = await this.redeemer.redeemWithRetry(
+      claim.conditionId,
+      claim.outcomeIndex,
+      this.config.maxRetries,
+      this.config.retryDelayMs,
+      claim.negRisk,
+      shares,
+    );
+
+    if (result.error === "RATE_LIMITED") {
+      // Not an attempt against the budget — wait out the relayer quota
+      const waitMs = (result.rateLimitResetSeconds ?? 3600) * 1000;
+      claim.nextAttemptAt = Date.now() + waitMs;
+      claim.lastError = "RATE_LIMITED";
+      console.log(`⏳ [REDEEM] Relayer rate limit — retrying ${claim.marketSlug} in ${Math.round(waitMs / 60_000)}min`);
+      return;
+    }
+
+    claim.attempts++;
+    this.ledger.recordRedemptionAttempt(claim.conditionId, claim.marketSlug, result.success, result.transactionHash);
+
+    if (result.success || result.error === "ALREADY_REDEEMED") {
+      claim.transactionHash = result.transactionHash ?? null;
+      claim.gasCostMatic = result.gasCostMatic;
+      this.settle(claim, "REDEEMED", "redeemed");
+      console.log(`✅ [REDEEM] ${claim.marketSlug}: redeemed ${shares} shares → $${shares.toFixed(2)}${result.transactionHash ? ` (tx: ${result.transactionHash.slice(0, 10)}…)` : ""}`);
+      return;
+    }
+
+    claim.lastError = result.error || "Unknown error";
+    console.log(`❌ [REDEEM] ${claim.marketSlug}: ${claim.lastError} — will retry`);
+  }
+
+  private settle(claim: RedemptionClaim, status: ClaimStatus, event: string): void {
+    claim.status = status;
+    claim.settledAt = Date.now();
+    if (status === "REDEEMED") claim.lastError = null;
+    this.emit(event, claim);
+  }
+
+  /** Keep settled claims for a day so the dashboard can show them */
+  private prune(): void {
+    const cutoff = Date.now() - 24 * 60 * 60 * 1000;
+    for (const [key, claim] of this.claims) {
+      if ((claim.status === "REDEEMED" || claim.status === "LOST") && (claim.settledAt ?? 0) < cutoff) {
+        this.claims.delete(key);
+      }
+    }
+  }
+
+  // ============================================================================
+  // PERSISTENCE
+  // ============================================================================
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+    try {
+      const claims = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as RedemptionClaim[];
+      for (const c of claims) this.claims.set(`${c.conditionId}:${c.tokenId}`, c);
+    } catch (err: any) {
+      console.log(`⚠️ [REDEEM] Could not read ${this.filePath}: ${err?.message || err}`);
+    }
+  }
+
+  private persist(): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+    const tmp = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(Array.from(this.claims.values()), null, 2));
+    fs.renameSync(tmp, this.filePath);
+  }
+}
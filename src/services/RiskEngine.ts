@@ -0,0 +1,364 @@
+/**
+ * RiskEngine.ts — Portfolio-level worst-case exposure and correlated limits.
+ *
+ * Every open cycle can lose its held shares: if the held (complement) token
+ * goes to $0, each share we sold at p costs (1 − p). The engine prices that
+ * worst case for everything ShockFadeLive has on:
+ *
+ *   CumulativeTP (WATCHING / PARTIAL)   untaken shares × (1 − blendedEntryPrice)
+ *   open LivePositions with no TP       heldShares × (1 − soldPrice)
+ *   resting entry orders                unfilled shares × (1 − limit price)
+ *
+ * and aggregates it by sport, by slate (game start time, bucketed by
+ * slateWindowMs) and by team (the outcome we hold — the side that has to
+ * lose for the worst case to happen). A portfolio total caps the lot.
+ *
+ * checkLadder() prices a new ladder the same way and ACCEPTs it, SHRINKs it
+ * proportionally to the tightest limit's headroom (no level below 5 shares),
+ * or REJECTs it. An accepted ladder is reserved at its full worst case until
+ * release(cycleId), so a shock on another market can't spend the same
+ * headroom while this one is still being placed.
+ *
+ * Events: "rejected" (RiskDecision), "shrunk" (RiskDecision)
+ */
+
+import { EventEmitter } from "events";
+import type { CumulativeTP, LiveLadderOrder, LivePosition } from "../strategies/ShockFadeLive";
+import { isLiveOrderState } from "./OrderStateMachine";
+import { SportsMarket } from "./SportsMarketDiscovery";
+
+/** Polymarket's minimum order size — a shrunk level below it is dropped */
+const MIN_LEVEL_SHARES = 5;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RiskLimits {
+  /** Worst-case loss across everything open ($) */
+  maxTotal: number;
+  /** Per sport ($) */
+  maxPerSport: number;
+  /** Per slate — games starting in the same slateWindowMs bucket ($) */
+  maxPerSlate: number;
+  /** Per held team ($) */
+  maxPerTeam: number;
+  /** Slate bucket width */
+  slateWindowMs: number;
+}
+
+export const DEFAULT_RISK_LIMITS: RiskLimits = {
+  maxTotal: 150,
+  maxPerSport: 100,
+  maxPerSlate: 100,
+  maxPerTeam: 50,
+  slateWindowMs: 60 * 60 * 1000,
+};
+
+/** What the engine reads — ShockFadeLive satisfies it */
+export interface RiskBook {
+  getCumulativeTPs(): CumulativeTP[];
+  getOpenPositions(): LivePosition[];
+  getAllOrders(): LiveLadderOrder[];
+  getMarketMeta(marketSlug: string): SportsMarket | undefined;
+}
+
+export type RiskDimension = "TOTAL" | "SPORT" | "SLATE" | "TEAM";
+
+/** One cycle's worst case and where it counts */
+export interface Exposure {
+  cycleId: string;
+  marketSlug: string;
+  sport: string;
+  slate: string;
+  team: string;
+  /** Held shares (filled) + unfilled entry shares that could still become held */
+  shares: number;
+  worstCase: number;
+  source: "TP" | "POSITIONS" | "ORDERS" | "RESERVED";
+}
+
+export interface LimitUtilization {
+  dimension: RiskDimension;
+  key: string;
+  worstCase: number;
+  limit: number;
+  /** worstCase / limit */
+  utilization: number;
+}
+
+export interface RiskSnapshot {
+  timestamp: number;
+  limits: RiskLimits;
+  total: LimitUtilization;
+  bySport: LimitUtilization[];
+  bySlate: LimitUtilization[];
+  byTeam: LimitUtilization[];
+  exposures: Exposure[];
+  rejectedCount: number;
+  shrunkCount: number;
+}
+
+export interface LadderLevel {
+  shares: number;
+  price: number;
+}
+
+export interface LadderRequest {
+  cycleId: string;
+  marketSlug: string;
+  heldTokenId: string;
+  levels: LadderLevel[];
+}
+
+export interface RiskDecision {
+  action: "ACCEPT" | "SHRINK" | "REJECT";
+  cycleId: string;
+  marketSlug: string;
+  /** Shares per level to place (0 = skip the level) */
+  shares: number[];
+  requestedWorstCase: number;
+  worstCase: number;
+  /** Tightest limit, when it bound */
+  binding: LimitUtilization | null;
+  reason: string | null;
+}
+
+/** Worst case of a ladder: every level filled, held side to $0 */
+export function ladderWorstCase(levels: LadderLevel[]): number {
+  return levels.reduce((sum, l) => sum + l.shares * (1 - l.price), 0);
+}
+
+/** "2026-02-09T19:00Z" bucket of a game start; "unscheduled" without one */
+export function slateKey(gameStartTime: Date | null | undefined, windowMs: number): string {
+  if (!gameStartTime) return "unscheduled";
+  const t = gameStartTime.getTime();
+  if (isNaN(t)) return "unscheduled";
+  const bucket = new Date(Math.floor(t / windowMs) * windowMs).toISOString();
+  return `${bucket.slice(0, 16)}Z`;
+}
+
+/**
+ * Team we're long through `heldTokenId` — its outcome label per sport.
+ * Yes/No markets (soccer 3-way legs, futures) name no team in the outcome,
+ * so they count per market.
+ */
+export function teamKey(market: SportsMarket | undefined, heldTokenId: string): string {
+  if (!market) return `UNKNOWN:${heldTokenId.slice(0, 10)}`;
+  const label = market.outcomes[market.tokenIds.indexOf(heldTokenId)] ?? heldTokenId.slice(0, 10);
+  if (/^(yes|no)$/i.test(label)) return `${market.sport}:${market.marketSlug}:${label}`;
+  return `${market.sport}:${label}`;
+}
+
+// ============================================================================
+// ENGINE
+// ============================================================================
+
+export class RiskEngine extends EventEmitter {
+  private limits: RiskLimits;
+  private reservations: Map<string, Exposure> = new Map();
+  private rejectedCount = 0;
+  private shrunkCount = 0;
+
+  constructor(private book: RiskBook, limits: Partial<RiskLimits> = {}) {
+    super();
+    this.limits = { ...DEFAULT_RISK_LIMITS, ...limits };
+  }
+
+  getLimits(): RiskLimits {
+    return { ...this.limits };
+  }
+
+  /** Change limits (SIGHUP). Applies to the next ladder; nothing open is touched. */
+  setLimits(limits: Partial<RiskLimits>): string[] {
+    const changes: string[] = [];
+    for (const [k, v] of Object.entries(limits) as Array<[keyof RiskLimits, number | undefined]>) {
+      if (v === undefined || isNaN(v) || v <= 0 || v === this.limits[k]) continue;
+      changes.push(`risk ${k}: ${this.limits[k]} → ${v}`);
+      this.limits[k] = v;
+    }
+    return changes;
+  }
+
+  /** Everything open, one entry per cycle */
+  getExposures(): Exposure[] {
+    const byCycle = new Map<string, Exposure>();
+    const add = (cycleId: string, marketSlug: string, heldTokenId: string, shares: number, price: number, source: Exposure["source"]) => {
+      if (shares <= 0) return;
+      let e = byCycle.get(cycleId);
+      if (!e) {
+        const market = this.book.getMarketMeta(marketSlug);
+        e = {
+          cycleId,
+          marketSlug,
+          sport: market?.sport ?? "UNKNOWN",
+          slate: slateKey(market?.gameStartTime, this.limits.slateWindowMs),
+          team: teamKey(market, heldTokenId),
+          shares: 0,
+          worstCase: 0,
+          source,
+        };
+        byCycle.set(cycleId, e);
+      }
+      e.shares += shares;
+      e.worstCase += shares * (1 - price);
+    };
+
+    // A reserved ladder counts at its full worst case until placement is done
+    for (const r of this.reservations.values()) byCycle.set(r.cycleId, { ...r });
+
+    const tpCycles = new Set<string>();
+    for (const tp of this.book.getCumulativeTPs()) {
+      if (tp.status !== "WATCHING" && tp.status !== "PARTIAL") continue;
+      tpCycles.add(tp.shockId);
+      if (this.reservations.has(tp.shockId)) continue;
+      add(tp.shockId, tp.marketSlug, tp.heldTokenId, tp.totalEntryShares - tp.filledTPShares, tp.blendedEntryPrice, "TP");
+    }
+    for (const p of this.book.getOpenPositions()) {
+      if (tpCycles.has(p.shockId) || this.reservations.has(p.shockId)) continue;
+      add(p.shockId, p.marketSlug, p.heldTokenId, p.heldShares, p.soldPrice, "POSITIONS");
+    }
+    for (const o of this.book.getAllOrders()) {
+      if (o.status !== "PENDING_PLACE" && !isLiveOrderState(o.status)) continue;
+      if (this.reservations.has(o.shockId)) continue;
+      const held = this.heldTokenFor(o);
+      add(o.shockId, o.marketSlug, held, o.shares - o.filledShares, o.price, "ORDERS");
+    }
+
+    return Array.from(byCycle.values());
+  }
+
+  /** Live utilization of every limit */
+  getSnapshot(): RiskSnapshot {
+    const exposures = this.getExposures();
+    const total = exposures.reduce((s, e) => s + e.worstCase, 0);
+    return {
+      timestamp: Date.now(),
+      limits: this.getLimits(),
+      total: this.utilization("TOTAL", "portfolio", total),
+      bySport: this.aggregate(exposures, "SPORT"),
+      bySlate: this.aggregate(exposures, "SLATE"),
+      byTeam: this.aggregate(exposures, "TEAM"),
+      exposures,
+      rejectedCount: this.rejectedCount,
+      shrunkCount: this.shrunkCount,
+    };
+  }
+
+  /**
+   * Decide how much of a new ladder fits. ACCEPT and SHRINK reserve the
+   * placed ladder's worst case under `req.cycleId` — call release() once
+   * its orders exist (or failed).
+   */
+  checkLadder(req: LadderRequest): RiskDecision {
+    const market = this.book.getMarketMeta(req.marketSlug);
+    const sport = market?.sport ?? "UNKNOWN";
+    const slate = slateKey(market?.gameStartTime, this.limits.slateWindowMs);
+    const team = teamKey(market, req.heldTokenId);
+
+    const exposures = this.getExposures().filter((e) => e.cycleId !== req.cycleId);
+    const sum = (pred: (e: Exposure) => boolean) => exposures.filter(pred).reduce((s, e) => s + e.worstCase, 0);
+    const current = [
+      this.utilization("TOTAL", "portfolio", sum(() => true)),
+      this.utilization("SPORT", sport, sum((e) => e.sport === sport)),
+      this.utilization("SLATE", slate, sum((e) => e.slate === slate)),
+      this.utilization("TEAM", team, sum((e) => e.team === team)),
+    ];
+    const tightest = current.reduce((a, b) => (b.limit - b.worstCase < a.limit - a.worstCase ? b : a));
+    const headroom = Math.max(0, tightest.limit - tightest.worstCase);
+
+    const requested = ladderWorstCase(req.levels);
+    let shares = req.levels.map((l) => l.shares);
+    let action: RiskDecision["action"] = "ACCEPT";
+    let reason: string | null = null;
+
+    if (requested > headroom + 1e-9) {
+      const scale = headroom / requested;
+      shares = req.levels.map((l) => {
+        const s = Math.floor(l.shares * scale);
+        return s >= MIN_LEVEL_SHARES ? s : 0;
+      });
+      const limitText = `${tightest.dimension.toLowerCase()} ${tightest.key} $${tightest.worstCase.toFixed(2)}/$${tightest.limit}`;
+      if (shares.every((s) => s === 0)) {
+        action = "REJECT";
+        reason = `ladder worst case $${requested.toFixed(2)} > headroom $${headroom.toFixed(2)} (${limitText})`;
+      } else {
+        action = "SHRINK";
+        reason = `ladder worst case $${requested.toFixed(2)} → $${ladderWorstCase(req.levels.map((l, i) => ({ ...l, shares: shares[i] }))).toFixed(2)} (${limitText})`;
+      }
+    }
+
+    const worstCase = action === "REJECT" ? 0 : ladderWorstCase(req.levels.map((l, i) => ({ ...l, shares: shares[i] })));
+    const decision: RiskDecision = {
+      action,
+      cycleId: req.cycleId,
+      marketSlug: req.marketSlug,
+      shares: action === "REJECT" ? shares.map(() => 0) : shares,
+      requestedWorstCase: requested,
+      worstCase,
+      binding: action === "ACCEPT" ? null : tightest,
+      reason,
+    };
+
+    if (action === "REJECT") {
+      this.rejectedCount++;
+      console.log(`🧯 [RISK] Rejected ladder on ${req.marketSlug}: ${reason}`);
+      this.emit("rejected", decision);
+    } else {
+      this.reservations.set(req.cycleId, {
+        cycleId: req.cycleId,
+        marketSlug: req.marketSlug,
+        sport,
+        slate,
+        team,
+        shares: shares.reduce((a, b) => a + b, 0),
+        worstCase,
+        source: "RESERVED",
+      });
+      if (action === "SHRINK") {
+        this.shrunkCount++;
+        console.log(`🧯 [RISK] Shrunk ladder on ${req.marketSlug} to ${shares.join("/")}: ${reason}`);
+        this.emit("shrunk", decision);
+      }
+    }
+    return decision;
+  }
+
+  /** The ladder's orders are on the book (or failed) — count them as they are */
+  release(cycleId: string): void {
+    this.reservations.delete(cycleId);
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  private limitFor(dimension: RiskDimension): number {
+    switch (dimension) {
+      case "TOTAL": return this.limits.maxTotal;
+      case "SPORT": return this.limits.maxPerSport;
+      case "SLATE": return this.limits.maxPerSlate;
+      case "TEAM": return this.limits.maxPerTeam;
+    }
+  }
+
+  private utilization(dimension: RiskDimension, key: string, worstCase: number): LimitUtilization {
+    const limit = this.limitFor(dimension);
+    return { dimension, key, worstCase, limit, utilization: limit > 0 ? worstCase / limit : 0 };
+  }
+
+  private aggregate(exposures: Exposure[], dimension: Exclude<RiskDimension, "TOTAL">): LimitUtilization[] {
+    const field = dimension === "SPORT" ? "sport" : dimension === "SLATE" ? "slate" : "team";
+    const sums = new Map<string, number>();
+    for (const e of exposures) sums.set(e[field], (sums.get(e[field]) ?? 0) + e.worstCase);
+    return Array.from(sums.entries())
+      .map(([key, worstCase]) => this.utilization(dimension, key, worstCase))
+      .sort((a, b) => b.utilization - a.utilization);
+  }
+
+  /** An entry order sells one token of a pair — the other one is held */
+  private heldTokenFor(order: LiveLadderOrder): string {
+    const market = this.book.getMarketMeta(order.marketSlug);
+    return market?.tokenIds.find((t) => t !== order.tokenId) ?? order.tokenId;
+  }
+}
@@ -0,0 +1,469 @@
+/**
+ * RuntimeParams.ts — AUM-based tiered sizing from sss_runtime_params.json.
+ *
+ * The `scaling` block defines tiers (STARTER → AGGRESSIVE) unlocked by the
+ * number of closed trades and their win rate. The active tier sizes one
+ * cycle: min(AUM × positionSizePct, maxPositionSize) dollars, spread over the
+ * base ladder (SHOCK_LADDER_SIZES) in proportion, never below the 5-share
+ * exchange minimum. The resulting ladderSizes and maxPerGame go to
+ * ShockFadeLive.reloadConfig, so they apply to new shocks only.
+ *
+ *   AUM          = PolymarketClient.getAUM() when useAumBasedSizing, else currentAum
+ *   positions    = trades closed (realized history), winRate = their win rate
+ *   eligible     = highest tier with minPositions ≤ positions and minWinRate ≤ winRate
+ *
+ * Downgrades apply at once. With requireManualUpgrade an upgrade stops at the
+ * approved tier — set `scaling.approvedTier` in the file (hot-reloaded) or
+ * call approveUpgrade() — and is logged as pending until then.
+ *
+ * The file is re-read when it changes (checked every refresh, 5 min by
+ * default). A file that fails validation is rejected and the last good one
+ * stays in force. Every tier change, pending upgrade, approval and rejected
+ * file is appended to `<state>-tiers.jsonl`; the last applied tier is
+ * restored from it on restart.
+ *
+ * `parameter_overrides` is validated and exposed (getSportOverrides) —
+ * ShockFadeLive has no per-sport bet-size parameters to feed it into.
+ *
+ * Events: "tierChanged" (TierAuditEntry), "upgradePending" (TierAuditEntry),
+ *         "invalid" (errors: string[])
+ */
+
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import * as path from "path";
+
+const CONFIG_PATH = path.join(__dirname, "..", "config", "sss_runtime_params.json");
+
+/** Polymarket's minimum order size — no ladder level goes below it */
+const MIN_LADDER_SHARES = 5;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ScalingTier {
+  tierName: string;
+  minPositions: number;
+  minWinRate: number;
+  /** Share of AUM one cycle may use */
+  positionSizePct: number;
+  /** Dollar cap on one cycle */
+  maxPositionSize: number;
+}
+
+export interface ScalingConfig {
+  enabled: boolean;
+  /** AUM used when useAumBasedSizing is off */
+  currentAum: number;
+  useAumBasedSizing: boolean;
+  requireManualUpgrade: boolean;
+  /** Highest tier an operator has signed off on (manual-upgrade gate) */
+  approvedTier: string | null;
+  /** Ascending by minPositions */
+  tiers: ScalingTier[];
+}
+
+export interface SportOverrides {
+  sell_threshold: number | null;
+  min_bet_size: number | null;
+  max_bet_size: number | null;
+}
+
+export interface RuntimeParamsFile {
+  version: string;
+  scaling: ScalingConfig;
+  parameterOverrides: { enabled: boolean; sports: Record<string, SportOverrides> };
+}
+
+export interface TierSizing {
+  tierName: string;
+  aum: number;
+  /** Dollars one cycle may use */
+  cycleBudget: number;
+  ladderSizes: number[];
+  maxPerGame: number;
+}
+
+export type TierAuditEvent = "APPLIED" | "UPGRADE_PENDING" | "APPROVED" | "CONFIG_REJECTED";
+
+export interface TierAuditEntry {
+  timestamp: number;
+  event: TierAuditEvent;
+  fromTier: string | null;
+  toTier: string | null;
+  reason: string;
+  positions?: number;
+  winRate?: number;
+  sizing?: TierSizing;
+}
+
+export interface AumSource {
+  getAUM(): Promise<number>;
+}
+
+/** Realized trade history (ShockFadeLive.getStats()) */
+export interface TradeHistorySource {
+  getStats(): { totalPositionsClosed: number; winRate: number };
+}
+
+/** Where sizing goes (ShockFadeLive.reloadConfig) */
+export interface SizingTarget {
+  reloadConfig(vals: { ladderSizes?: number[]; maxPerGame?: number }): string[];
+}
+
+export interface RuntimeParamsOptions {
+  configPath: string;
+  /** Ladder the tier budget is spread over (SHOCK_LADDER_SIZES) */
+  baseLadderSizes: number[];
+  /** Restored with the base ladder when scaling is switched off */
+  baseMaxPerGame: number;
+  maxCyclesPerGame: number;
+  refreshIntervalMs: number;
+}
+
+/** Audit log next to the state file: foo.db → foo-tiers.jsonl */
+export function tierAuditPath(statePath: string): string {
+  const ext = path.extname(statePath);
+  return `${ext ? statePath.slice(0, -ext.length) : statePath}-tiers.jsonl`;
+}
+
+// ============================================================================
+// PARSING / SIZING
+// ============================================================================
+
+/**
+ * Validate the file's contents. Returns the parsed params, or the list of
+ * problems — nothing is applied from a file with any.
+ */
+export function parseRuntimeParams(raw: any): { params: RuntimeParamsFile | null; errors: string[] } {
+  const errors: string[] = [];
+  const s = raw?.scaling;
+  if (!s || typeof s !== "object") {
+    return { params: null, errors: ["scaling block missing"] };
+  }
+
+  const num = (v: any, field: string, min: number, max: number = Infinity): number => {
+    if (typeof v !== "number" || !isFinite(v) || v < min || v > max) {
+      errors.push(`${field} must be a number in [${min}, ${max}] (got ${JSON.stringify(v)})`);
+      return NaN;
+    }
+    return v;
+  };
+
+  const tiers: ScalingTier[] = [];
+  if (!Array.isArray(s.tiers) || s.tiers.length === 0) {
+    errors.push("scaling.tiers must be a non-empty array");
+  } else {
+    s.tiers.forEach((t: any, i: number) => {
+      const at = `scaling.tiers[${i}]`;
+      if (typeof t?.tierName !== "string" || !t.tierName) errors.push(`${at}.tierName missing`);
+      tiers.push({
+        tierName: String(t?.tierName),
+        minPositions: num(t?.minPositions, `${at}.minPositions`, 0),
+        minWinRate: num(t?.minWinRate, `${at}.minWinRate`, 0, 1),
+        positionSizePct: num(t?.positionSizePct, `${at}.positionSizePct`, 0.0001, 1),
+        maxPositionSize: num(t?.maxPositionSize, `${at}.maxPositionSize`, MIN_LADDER_SHARES),
+      });
+    });
+    for (let i = 1; i < tiers.length; i++) {
+      if (tiers[i].minPositions < tiers[i - 1].minPositions) {
+        errors.push(`scaling.tiers must be ordered by minPositions (${tiers[i].tierName} < ${tiers[i - 1].tierName})`);
+      }
+    }
+    if (new Set(tiers.map((t) => t.tierName)).size !== tiers.length) errors.push("scaling.tiers has duplicate tierName");
+  }
+
+  const currentAum = num(s.currentAum ?? 0, "scaling.currentAum", 0);
+  const approvedTier = s.approvedTier ?? null;
+  if (approvedTier !== null && !tiers.some((t) => t.tierName === approvedTier)) {
+    errors.push(`scaling.approvedTier "${approvedTier}" is not a tier`);
+  }
+
+  const sports: Record<string, SportOverrides> = {};
+  const po = raw.parameter_overrides;
+  if (po !== undefined) {
+    for (const [sport, o] of Object.entries<any>(po?.sports ?? {})) {
+      for (const field of ["sell_threshold", "min_bet_size", "max_bet_size"] as const) {
+        if (o?.[field] != null && (typeof o[field] !== "number" || o[field] < 0)) {
+          errors.push(`parameter_overrides.sports.${sport}.${field} must be null or a non-negative number`);
+        }
+      }
+      sports[sport.toUpperCase()] = {
+        sell_threshold: o?.sell_threshold ?? null,
+        min_bet_size: o?.min_bet_size ?? null,
+        max_bet_size: o?.max_bet_size ?? null,
+      };
+    }
+  }
+
+  if (errors.length > 0) return { params: null, errors };
+  return {
+    params: {
+      version: String(raw.version ?? ""),
+      scaling: {
+        enabled: s.enabled === true,
+        currentAum,
+        useAumBasedSizing: s.useAumBasedSizing === true,
+        requireManualUpgrade: s.requireManualUpgrade !== false,
+        approvedTier,
+        tiers,
+      },
+      parameterOverrides: { enabled: po?.enabled === true, sports },
+    },
+    errors,
+  };
+}
+
+/** Highest tier the track record unlocks (tiers ascending) */
+export function eligibleTier(tiers: ScalingTier[], positions: number, winRate: number): ScalingTier {
+  let tier = tiers[0];
+  for (const t of tiers) {
+    if (positions >= t.minPositions && winRate >= t.minWinRate) tier = t;
+  }
+  return tier;
+}
+
+/**
+ * Ladder and per-game cap for a tier at this AUM. maxPerGame covers the
+ * pre-split: maxCyclesPerGame cycles plus the L1 + L2 cushion.
+ */
+export function tierSizing(tier: ScalingTier, aum: number, baseLadderSizes: number[], maxCyclesPerGame: number): TierSizing {
+  const cycleBudget = Math.min(aum * tier.positionSizePct, tier.maxPositionSize);
+  const baseTotal = baseLadderSizes.reduce((a, b) => a + b, 0);
+  const scale = baseTotal > 0 ? cycleBudget / baseTotal : 1;
+  const ladderSizes = baseLadderSizes.map((s) => Math.max(MIN_LADDER_SHARES, Math.floor(s * scale)));
+  const cycleSize = ladderSizes.reduce((a, b) => a + b, 0);
+  const maxPerGame = cycleSize * maxCyclesPerGame + (ladderSizes[0] || 0) + (ladderSizes[1] || 0);
+  return { tierName: tier.tierName, aum, cycleBudget, ladderSizes, maxPerGame };
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class RuntimeParamsService extends EventEmitter {
+  private options: RuntimeParamsOptions;
+  private params: RuntimeParamsFile | null = null;
+  private loadedMtimeMs = 0;
+  private currentTier: string | null = null;
+  private approvedTier: string | null = null;
+  private pendingTier: string | null = null;
+  private sizing: TierSizing | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private refreshing = false;
+
+  constructor(
+    private aum: AumSource,
+    private history: TradeHistorySource,
+    private target: SizingTarget,
+    private auditPath: string,
+    options: Partial<RuntimeParamsOptions> & Pick<RuntimeParamsOptions, "baseLadderSizes" | "baseMaxPerGame" | "maxCyclesPerGame">,
+  ) {
+    super();
+    this.options = { configPath: CONFIG_PATH, refreshIntervalMs: 5 * 60_000, ...options };
+    this.restoreFromAudit();
+    this.reloadFile();
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => { void this.refresh(); }, this.options.refreshIntervalMs);
+    void this.refresh();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** New base ladder (SIGHUP re-read SHOCK_LADDER_SIZES) — applied on the next refresh */
+  setBase(baseLadderSizes: number[], baseMaxPerGame: number, maxCyclesPerGame: number): void {
+    this.options.baseLadderSizes = baseLadderSizes;
+    this.options.baseMaxPerGame = baseMaxPerGame;
+    this.options.maxCyclesPerGame = maxCyclesPerGame;
+  }
+
+  /** Operator sign-off for upgrades up to `tierName` (manual-upgrade gate) */
+  approveUpgrade(tierName: string): boolean {
+    if (!this.params?.scaling.tiers.some((t) => t.tierName === tierName)) return false;
+    this.approvedTier = tierName;
+    this.audit({ event: "APPROVED", fromTier: this.currentTier, toTier: tierName, reason: "approveUpgrade()" });
+    console.log(`🎚️ [TIERS] Upgrades approved up to ${tierName}`);
+    return true;
+  }
+
+  isEnabled(): boolean {
+    return this.params?.scaling.enabled === true;
+  }
+
+  getParams(): RuntimeParamsFile | null {
+    return this.params;
+  }
+
+  getCurrentTier(): string | null {
+    return this.currentTier;
+  }
+
+  getPendingTier(): string | null {
+    return this.pendingTier;
+  }
+
+  getSizing(): TierSizing | null {
+    return this.sizing;
+  }
+
+  /** parameter_overrides for a sport, when enabled */
+  getSportOverrides(sport: string): SportOverrides | null {
+    const po = this.params?.parameterOverrides;
+    return po?.enabled ? po.sports[sport.toUpperCase()] ?? null : null;
+  }
+
+  /**
+   * Re-read the file if it changed, recompute the tier and push sizing.
+   * evaluateTier=false re-sizes the current (restored) tier without looking
+   * at the track record — for startup, before trade history is loaded.
+   */
+  async refresh(evaluateTier: boolean = true): Promise<TierSizing | null> {
+    if (this.refreshing) return this.sizing;
+    this.refreshing = true;
+    try {
+      this.reloadFile();
+      const scaling = this.params?.scaling;
+      if (!scaling?.enabled) {
+        if (this.currentTier !== null) this.disable();
+        return null;
+      }
+
+      const { totalPositionsClosed: positions, winRate } = this.history.getStats();
+      const tiers = scaling.tiers;
+      const rank = (name: string | null) => tiers.findIndex((t) => t.tierName === name);
+      const eligible = evaluateTier
+        ? eligibleTier(tiers, positions, winRate)
+        : tiers[rank(this.currentTier)] ?? tiers[0];
+
+      let next = eligible;
+      const current = rank(this.currentTier);
+      if (scaling.requireManualUpgrade && rank(eligible.tierName) > Math.max(current, 0)) {
+        const ceiling = Math.max(rank(scaling.approvedTier), rank(this.approvedTier), current, 0);
+        next = tiers[Math.min(rank(eligible.tierName), ceiling)];
+        if (next.tierName !== eligible.tierName && this.pendingTier !== eligible.tierName) {
+          this.pendingTier = eligible.tierName;
+          const entry = this.audit({
+            event: "UPGRADE_PENDING", fromTier: next.tierName, toTier: eligible.tierName, positions, winRate,
+            reason: `${positions} trades at ${(winRate * 100).toFixed(1)}% qualify — set scaling.approvedTier to "${eligible.tierName}" to upgrade`,
+          });
+          console.log(`🎚️ [TIERS] ${eligible.tierName} unlocked — waiting for manual approval (staying on ${next.tierName})`);
+          this.emit("upgradePending", entry);
+        }
+      }
+      if (next.tierName === eligible.tierName) this.pendingTier = null;
+
+      let aum = scaling.currentAum;
+      if (scaling.useAumBasedSizing) {
+        try {
+          aum = await this.aum.getAUM();
+        } catch (err: any) {
+          console.log(`⚠️ [TIERS] AUM unavailable (${err?.message || err}) — keeping current sizing`);
+          return this.sizing;
+        }
+      }
+
+      const sizing = tierSizing(next, aum, this.options.baseLadderSizes, this.options.maxCyclesPerGame);
+      const tierChanged = next.tierName !== this.currentTier;
+      const sizeChanged = !this.sizing ||
+        sizing.ladderSizes.join(",") !== this.sizing.ladderSizes.join(",") ||
+        sizing.maxPerGame !== this.sizing.maxPerGame;
+
+      if (tierChanged) {
+        const entry = this.audit({
+          event: "APPLIED", fromTier: this.currentTier, toTier: next.tierName, positions, winRate, sizing,
+          reason: rank(next.tierName) < current ? "track record below current tier" : "tier unlocked",
+        });
+        console.log(`🎚️ [TIERS] ${this.currentTier ?? "(none)"} → ${next.tierName}: $${sizing.cycleBudget.toFixed(2)}/cycle on $${aum.toFixed(0)} AUM, ladder ${sizing.ladderSizes.join("/")}, max/game $${sizing.maxPerGame}`);
+        this.currentTier = next.tierName;
+        this.emit("tierChanged", entry);
+      }
+      if (tierChanged || sizeChanged) {
+        this.target.reloadConfig({ ladderSizes: sizing.ladderSizes, maxPerGame: sizing.maxPerGame });
+      }
+      this.sizing = sizing;
+      return sizing;
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  /** Scaling switched off — hand sizing back to the env config */
+  private disable(): void {
+    const entry = this.audit({ event: "APPLIED", fromTier: this.currentTier, toTier: null, reason: "scaling disabled" });
+    console.log(`🎚️ [TIERS] Scaling off — back to ladder ${this.options.baseLadderSizes.join("/")}, max/game $${this.options.baseMaxPerGame}`);
+    this.target.reloadConfig({ ladderSizes: this.options.baseLadderSizes, maxPerGame: this.options.baseMaxPerGame });
+    this.currentTier = null;
+    this.pendingTier = null;
+    this.sizing = null;
+    this.emit("tierChanged", entry);
+  }
+
+  /** Load the file when its mtime moved; keep the last good params on a bad file */
+  private reloadFile(): void {
+    const file = this.options.configPath;
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(file).mtimeMs;
+    } catch {
+      if (this.params) return;
+      console.log(`⚠️ [TIERS] ${file} not found — tiered sizing off`);
+      this.loadedMtimeMs = -1;
+      return;
+    }
+    if (mtimeMs === this.loadedMtimeMs) return;
+    this.loadedMtimeMs = mtimeMs;
+
+    let errors: string[];
+    let params: RuntimeParamsFile | null = null;
+    try {
+      ({ params, errors } = parseRuntimeParams(JSON.parse(fs.readFileSync(file, "utf-8"))));
+    } catch (err: any) {
+      errors = [`not valid JSON: ${err?.message || err}`];
+    }
+
+    if (!params) {
+      this.audit({ event: "CONFIG_REJECTED", fromTier: this.currentTier, toTier: this.currentTier, reason: errors.join("; ") });
+      console.log(`❌ [TIERS] ${path.basename(file)} rejected${this.params ? " — keeping the last good version" : ""}:`);
+      for (const e of errors) console.log(`   ${e}`);
+      this.emit("invalid", errors);
+      return;
+    }
+    const first = this.params === null;
+    this.params = params;
+    console.log(`🎚️ [TIERS] ${first ? "Loaded" : "Reloaded"} ${path.basename(file)} — scaling ${params.scaling.enabled ? "on" : "off"}${params.scaling.requireManualUpgrade ? ", manual upgrades" : ""}`);
+  }
+
+  // ============================================================================
+  // AUDIT LOG
+  // ============================================================================
+
+  private audit(entry: Omit<TierAuditEntry, "timestamp">): TierAuditEntry {
+    const full: TierAuditEntry = { timestamp: Date.now(), ...entry };
+    const dir = path.dirname(this.auditPath);
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+    fs.appendFileSync(this.auditPath, JSON.stringify(full) + "\n");
+    return full;
+  }
+
+  /** Last applied tier and approval survive a restart */
+  private restoreFromAudit(): void {
+    if (!fs.existsSync(this.auditPath)) return;
+    for (const line of fs.readFileSync(this.auditPath, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const e = JSON.parse(line) as TierAuditEntry;
+        if (e.event === "APPLIED") this.currentTier = e.toTier;
+        if (e.event === "APPROVED") this.approvedTier = e.toTier;
+      } catch {
+        // partial write — ignore
+      }
+    }
+  }
+}
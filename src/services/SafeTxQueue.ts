@@ -0,0 +1,365 @@
+/**
+ * SafeTxQueue
+ *
+ * One queue per EOA for DirectExecutionClient. Every execTransaction goes
+ * through it, one at a time, so concurrent splits, merges and redemptions
+ * from different games never sign the same Safe nonce or send on the same
+ * account nonce.
+ *
+ * Two nonces are allocated locally, each as max(chain, last one we used + 1),
+ * so a lagging RPC read right after a confirmation can't hand out a used one:
+ *   - Safe nonce    — signed into the SafeTx (EIP-712)
+ *   - account nonce — the EOA's Polygon transaction nonce
+ *
+ * Transactions run strictly in sequence: the next Safe nonce can't be gas-
+ * estimated until the previous one has executed, so there is no pipelining.
+ *
+ * A transaction still unconfirmed after `stuckAfterMs` is replaced — same
+ * account nonce, same calldata, EIP-1559 fees bumped by `bumpPercent` — up to
+ * `maxBumps` times and never above `maxFeeCapGwei`. Every hash sent for the
+ * nonce is watched; whichever mines settles it.
+ *
+ * In-flight transactions are written to a JSON file before the caller waits
+ * on them. After a restart they are settled (watched, bumped if needed)
+ * before anything new is sent. Their original callers are gone — the
+ * outcome is logged and emitted as "recovered"; StartupReconciliation picks
+ * up the resulting token balances.
+ *
+ * Events: "sent", "bumped", "mined", "recovered" (PendingTx[, receipt])
+ */
+
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface TxFees {
+  maxFeePerGas: ethers.BigNumber;
+  maxPriorityFeePerGas: ethers.BigNumber;
+}
+
+/** The parts of an ethers TransactionReceipt the queue and its callers read */
+export interface TxReceiptLike {
+  transactionHash: string;
+  status?: number;
+  gasUsed: ethers.BigNumber;
+  effectiveGasPrice: ethers.BigNumber;
+  logs: Array<{ topics: string[] }>;
+}
+
+/** execTransaction call, signed for the Safe nonce the queue handed out */
+export interface TxRequest {
+  to: string;
+  data: string;
+  gasLimit: ethers.BigNumber;
+}
+
+export interface SendRequest extends TxRequest, TxFees {
+  nonce: number;
+}
+
+/** The chain as the queue sees it — DirectExecutionClient wires it to ethers */
+export interface TxChain {
+  getSafeNonce(): Promise<number>;
+  /** "latest" = mined transactions of the EOA, "pending" = including mempool */
+  getAccountNonce(blockTag: "latest" | "pending"): Promise<number>;
+  getFees(): Promise<TxFees>;
+  /** Broadcast; resolves with the hash */
+  sendTransaction(tx: SendRequest): Promise<string>;
+  getReceipt(hash: string): Promise<TxReceiptLike | null>;
+}
+
+export interface PendingTx {
+  id: string;
+  description: string;
+  safeNonce: number;
+  accountNonce: number;
+  to: string;
+  data: string;
+  /** wei, decimal strings */
+  gasLimit: string;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  /** Every hash broadcast for this account nonce, oldest first — any may mine */
+  hashes: string[];
+  bumps: number;
+  submittedAt: number;
+  lastSentAt: number;
+}
+
+export interface TxQueueConfig {
+  /** Replace a transaction unconfirmed for this long */
+  stuckAfterMs: number;
+  /** Fee increase per replacement (nodes reject < 10%) */
+  bumpPercent: number;
+  maxBumps: number;
+  /** Never bid more than this maxFeePerGas */
+  maxFeeCapGwei: number;
+  pollIntervalMs: number;
+  /** Give up waiting (TX_STUCK) after this long; the tx stays tracked */
+  maxWaitMs: number;
+}
+
+export type TxOutcome =
+  | { status: "MINED"; receipt: TxReceiptLike; pending: PendingTx }
+  | { status: "FAILED"; error: string; pending?: PendingTx };
+
+export const DEFAULT_TX_QUEUE_CONFIG: TxQueueConfig = {
+  stuckAfterMs: 45_000,
+  bumpPercent: 25,
+  maxBumps: 5,
+  maxFeeCapGwei: 2_000,
+  pollIntervalMs: 2_000,
+  maxWaitMs: 600_000,
+};
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function gwei(value: string | ethers.BigNumber): string {
+  return parseFloat(ethers.utils.formatUnits(value, "gwei")).toFixed(1);
+}
+
+function maxOf(a: ethers.BigNumber, b: ethers.BigNumber): ethers.BigNumber {
+  return a.gt(b) ? a : b;
+}
+
+/** Default in-flight file for an EOA */
+export function safeTxQueuePath(eoaAddress: string, dir: string = "./data"): string {
+  return path.join(dir, `safe-tx-queue-${eoaAddress.slice(2, 10).toLowerCase()}.json`);
+}
+
+// ─── Queue ────────────────────────────────────────────────────────────────────
+
+export class SafeTxQueue extends EventEmitter {
+  private chain: TxChain;
+  private config: TxQueueConfig;
+  private filePath: string;
+  private inFlight: Map<string, PendingTx> = new Map();
+  private loaded = false;
+  private nextSafeNonce = 0;
+  private nextAccountNonce = 0;
+  private tail: Promise<unknown> = Promise.resolve();
+  private seq = 0;
+
+  constructor(chain: TxChain, filePath: string, config: Partial<TxQueueConfig> = {}) {
+    super();
+    this.chain = chain;
+    this.filePath = filePath;
+    this.config = { ...DEFAULT_TX_QUEUE_CONFIG, ...config };
+  }
+
+  /**
+   * Queue a Safe transaction. `prepare` signs and gas-estimates the
+   * execTransaction for the Safe nonce it is given, or returns an error
+   * (e.g. gas estimation revert) — the nonce is then not used up.
+   * Throws only if the first broadcast throws.
+   */
+  submit(
+    description: string,
+    prepare: (safeNonce: number) => Promise<TxRequest | { error: string }>,
+  ): Promise<TxOutcome> {
+    const run = this.tail.then(() => this.runOne(description, prepare));
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Settle transactions left in flight by a previous run. Runs before the
+   * first submit anyway; call it at startup to settle them early.
+   */
+  recover(): Promise<void> {
+    const run = this.tail.then(() => this.settleInFlight());
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  getInFlight(): PendingTx[] {
+    this.load();
+    return Array.from(this.inFlight.values()).sort((a, b) => a.accountNonce - b.accountNonce);
+  }
+
+  private async runOne(
+    description: string,
+    prepare: (safeNonce: number) => Promise<TxRequest | { error: string }>,
+  ): Promise<TxOutcome> {
+    await this.settleInFlight();
+    const blocking = this.getInFlight()[0];
+    if (blocking) {
+      return { status: "FAILED", error: `TX_STUCK: account nonce ${blocking.accountNonce} (${blocking.description}) still unconfirmed — not sending behind it` };
+    }
+
+    const safeNonce = Math.max(await this.chain.getSafeNonce(), this.nextSafeNonce);
+    const prepared = await prepare(safeNonce);
+    if ("error" in prepared) return { status: "FAILED", error: prepared.error };
+
+    const accountNonce = Math.max(await this.chain.getAccountNonce("pending"), this.nextAccountNonce);
+    const fees = await this.chain.getFees();
+    const hash = await this.chain.sendTransaction({ ...prepared, ...fees, nonce: accountNonce });
+
+    const now = Date.now();
+    const pending: PendingTx = {
+      id: `tx_${now}_${++this.seq}`,
+      description,
+      safeNonce,
+      accountNonce,
+      to: prepared.to,
+      data: prepared.data,
+      gasLimit: prepared.gasLimit.toString(),
+      maxFeePerGas: fees.maxFeePerGas.toString(),
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+      hashes: [hash],
+      bumps: 0,
+      submittedAt: now,
+      lastSentAt: now,
+    };
+    this.inFlight.set(pending.id, pending);
+    this.persist();
+    this.emit("sent", pending);
+    console.log(`   ⏳ [TX QUEUE] Sent ${description} (safe nonce ${safeNonce}, account nonce ${accountNonce}, maxFee ${gwei(fees.maxFeePerGas)} gwei, tx: ${hash.slice(0, 14)}...)`);
+
+    return this.watch(pending);
+  }
+
+  private async settleInFlight(): Promise<void> {
+    const leftovers = this.getInFlight();
+    if (leftovers.length === 0) return;
+    console.log(`🔁 [TX QUEUE] Settling ${leftovers.length} in-flight transaction(s) before sending`);
+    for (const pending of leftovers) {
+      const outcome = await this.watch(pending);
+      if (outcome.status === "MINED") {
+        console.log(`   ✅ [TX QUEUE] ${pending.description} (account nonce ${pending.accountNonce}) mined: ${outcome.receipt.transactionHash.slice(0, 14)}... status=${outcome.receipt.status}`);
+        this.emit("recovered", pending, outcome.receipt);
+      } else {
+        console.log(`   ⚠️ [TX QUEUE] ${pending.description} (account nonce ${pending.accountNonce}): ${outcome.error}`);
+        this.emit("recovered", pending);
+      }
+      if (this.inFlight.has(pending.id)) return; // still stuck — later ones can't mine before it
+    }
+  }
+
+  /** Poll until one of the hashes mines, bumping fees while it's stuck */
+  private async watch(pending: PendingTx): Promise<TxOutcome> {
+    const deadline = Date.now() + this.config.maxWaitMs;
+    for (;;) {
+      const receipt = await this.findReceipt(pending);
+      if (receipt) return this.settle(pending, receipt);
+
+      if (await this.chain.getAccountNonce("latest") > pending.accountNonce) {
+        // The nonce is used — by us (receipt not visible yet) or someone else
+        const late = await this.findReceipt(pending);
+        if (late) return this.settle(pending, late);
+        this.forget(pending);
+        this.nextAccountNonce = Math.max(this.nextAccountNonce, pending.accountNonce + 1);
+        return {
+          status: "FAILED",
+          error: `NONCE_CONSUMED: account nonce ${pending.accountNonce} mined by a transaction this queue didn't send`,
+          pending,
+        };
+      }
+
+      const now = Date.now();
+      if (now >= deadline) {
+        return {
+          status: "FAILED",
+          error: `TX_STUCK: account nonce ${pending.accountNonce} unconfirmed after ${Math.round((now - pending.submittedAt) / 1000)}s (${pending.bumps} fee bumps) — still tracked`,
+          pending,
+        };
+      }
+      if (now - pending.lastSentAt >= this.config.stuckAfterMs && pending.bumps < this.config.maxBumps) {
+        await this.bump(pending);
+      }
+      await sleep(this.config.pollIntervalMs);
+    }
+  }
+
+  private async findReceipt(pending: PendingTx): Promise<TxReceiptLike | null> {
+    for (const hash of pending.hashes) {
+      const receipt = await this.chain.getReceipt(hash);
+      if (receipt) return receipt;
+    }
+    return null;
+  }
+
+  /** Re-send the same call on the same account nonce with higher fees */
+  private async bump(pending: PendingTx): Promise<void> {
+    const factor = 100 + this.config.bumpPercent;
+    const market = await this.chain.getFees();
+    const maxFeePerGas = maxOf(ethers.BigNumber.from(pending.maxFeePerGas).mul(factor).div(100), market.maxFeePerGas);
+    const maxPriorityFeePerGas = maxOf(ethers.BigNumber.from(pending.maxPriorityFeePerGas).mul(factor).div(100), market.maxPriorityFeePerGas);
+    const cap = ethers.utils.parseUnits(String(this.config.maxFeeCapGwei), "gwei");
+
+    if (maxFeePerGas.gt(cap)) {
+      console.log(`   ⚠️ [TX QUEUE] Account nonce ${pending.accountNonce} stuck but next bump (${gwei(maxFeePerGas)} gwei) is over the ${this.config.maxFeeCapGwei} gwei cap — waiting`);
+      pending.bumps = this.config.maxBumps;
+      this.persist();
+      return;
+    }
+
+    pending.lastSentAt = Date.now();
+    try {
+      const hash = await this.chain.sendTransaction({
+        to: pending.to,
+        data: pending.data,
+        gasLimit: ethers.BigNumber.from(pending.gasLimit),
+        nonce: pending.accountNonce,
+        maxFeePerGas,
+        maxPriorityFeePerGas: maxPriorityFeePerGas.gt(maxFeePerGas) ? maxFeePerGas : maxPriorityFeePerGas,
+      });
+      pending.hashes.push(hash);
+      pending.bumps++;
+      pending.maxFeePerGas = maxFeePerGas.toString();
+      pending.maxPriorityFeePerGas = maxPriorityFeePerGas.toString();
+      this.persist();
+      this.emit("bumped", pending);
+      console.log(`   ⛽ [TX QUEUE] Account nonce ${pending.accountNonce} stuck — replaced at ${gwei(maxFeePerGas)} gwei (bump ${pending.bumps}/${this.config.maxBumps}, tx: ${hash.slice(0, 14)}...)`);
+    } catch (err: any) {
+      // "nonce too low" / "already known": the original is mining — the next poll sees it
+      console.log(`   ⚠️ [TX QUEUE] Replacement for account nonce ${pending.accountNonce} rejected: ${(err?.message || err).toString().slice(0, 100)}`);
+      this.persist();
+    }
+  }
+
+  private settle(pending: PendingTx, receipt: TxReceiptLike): TxOutcome {
+    this.forget(pending);
+    this.nextAccountNonce = Math.max(this.nextAccountNonce, pending.accountNonce + 1);
+    // A reverted execTransaction leaves the Safe nonce unused
+    const safeNext = receipt.status === 0 ? pending.safeNonce : pending.safeNonce + 1;
+    this.nextSafeNonce = Math.max(this.nextSafeNonce, safeNext);
+    this.emit("mined", pending, receipt);
+    return { status: "MINED", receipt, pending };
+  }
+
+  private forget(pending: PendingTx): void {
+    this.inFlight.delete(pending.id);
+    this.persist();
+  }
+
+  // ─── Persistence ────────────────────────────────────────────────────────────
+
+  private load(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+    if (!fs.existsSync(this.filePath)) return;
+    try {
+      const entries = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as PendingTx[];
+      // Nonces advance as these settle — nothing new is sent until they have
+      for (const p of entries) this.inFlight.set(p.id, p);
+    } catch (err: any) {
+      console.error(`⚠️ [TX QUEUE] Could not read ${this.filePath}: ${err?.message || err}`);
+    }
+  }
+
+  private persist(): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+    const tmp = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(Array.from(this.inFlight.values()), null, 2));
+    fs.renameSync(tmp, this.filePath);
+  }
+}
+
+export default SafeTxQueue;
@@ -0,0 +1,139 @@
+/**
+ * SchemaMigrations.ts — Versioned up-migrations for the SQLite databases.
+ *
+ * Tables are grouped into schema modules (shock-fade, legacy crypto, the
+ * shock-fade state store). Each module owns an ordered list of migrations;
+ * the `schema_version` table records which (module, version) pairs have run:
+ *
+ *   schema_version(module, version, name, applied_at)
+ *
+ * Every migration runs in its own transaction together with its
+ * schema_version row, so a failed migration leaves no half-applied schema.
+ * There are no down-migrations — fix forward with a new version.
+ *
+ * Inspect / apply from the command line: npm run db:migrate
+ */
+
+import Database from 'better-sqlite3';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Migration {
+  /** 1, 2, 3… — unique and increasing within the module */
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+export interface SchemaModule {
+  /** Key in schema_version — never rename a shipped module */
+  name: string;
+  description: string;
+  migrations: Migration[];
+}
+
+export interface MigrationStatus {
+  module: string;
+  version: number;
+  name: string;
+  /** null while pending */
+  appliedAt: number | null;
+}
+
+// ============================================================================
+// RUNNER
+// ============================================================================
+
+function ensureVersionTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      module TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL,
+      PRIMARY KEY (module, version)
+    );
+  `);
+}
+
+function validateModule(module: SchemaModule): void {
+  let last = 0;
+  for (const m of module.migrations) {
+    if (!Number.isInteger(m.version) || m.version <= last) {
+      throw new Error(`schema ${module.name}: migration versions must be increasing integers (${m.version} after ${last})`);
+    }
+    last = m.version;
+  }
+}
+
+/** Highest applied version of a module (0 = none) */
+export function currentSchemaVersion(db: Database.Database, moduleName: string): number {
+  ensureVersionTable(db);
+  const row = db.prepare('SELECT MAX(version) AS version FROM schema_version WHERE module = ?').get(moduleName) as { version: number | null };
+  return row.version ?? 0;
+}
+
+/** Every known migration of `modules`, applied or pending, in run order */
+export function migrationStatus(db: Database.Database, modules: SchemaModule[]): MigrationStatus[] {
+  ensureVersionTable(db);
+  const applied = new Map<string, number>();
+  for (const row of db.prepare('SELECT module, version, applied_at FROM schema_version').all() as any[]) {
+    applied.set(`${row.module}:${row.version}`, row.applied_at);
+  }
+  return modules.flatMap((module) => module.migrations.map((m) => ({
+    module: module.name,
+    version: m.version,
+    name: m.name,
+    appliedAt: applied.get(`${module.name}:${m.version}`) ?? null,
+  })));
+}
+
+/**
+ * Apply pending migrations, module by module in the order given. Returns
+ * what ran. Throws (after rolling back that migration) on the first failure.
+ */
+export function applyMigrations(
+  db: Database.Database,
+  modules: SchemaModule[],
+  log: (msg: string) => void = () => {},
+): MigrationStatus[] {
+  ensureVersionTable(db);
+  const record = db.prepare('INSERT INTO schema_version (module, version, name, applied_at) VALUES (?, ?, ?, ?)');
+  const ran: MigrationStatus[] = [];
+
+  for (const module of modules) {
+    validateModule(module);
+    const current = currentSchemaVersion(db, module.name);
+    for (const m of module.migrations) {
+      if (m.version <= current) continue;
+      const appliedAt = Date.now();
+      try {
+        db.transaction(() => {
+          m.up(db);
+          record.run(module.name, m.version, m.name, appliedAt);
+        })();
+      } catch (err: any) {
+        throw new Error(`schema ${module.name} v${m.version} (${m.name}) failed: ${err?.message || err}`);
+      }
+      log(`📐 [SCHEMA] ${module.name} v${m.version}: ${m.name}`);
+      ran.push({ module: module.name, version: m.version, name: m.name, appliedAt });
+    }
+  }
+  return ran;
+}
+
+// ============================================================================
+// HELPERS FOR MIGRATIONS
+// ============================================================================
+
+/**
+ * ALTER TABLE ADD COLUMN unless it's there. Baseline migrations adopt
+ * databases created before versioning, which may already have the column.
+ */
+export function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (columns.some((c) => c.name === column)) return;
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+}
@@ -0,0 +1,50 @@
+/**
+ * ShockFadeSchema.ts — trading.db tables the shock-fade bot and its CLIs use.
+ *
+ *   - capital_baseline     AUM baseline for P&L (npm run init / rebase / init-wallet)
+ *   - redemption_tracking  redemption attempts per resolved condition
+ *
+ * The legacy crypto-market tables live in LegacyCryptoSchema.ts.
+ */
+
+import { SchemaModule, addColumnIfMissing } from './SchemaMigrations';
+
+export const SHOCK_FADE_SCHEMA: SchemaModule = {
+  name: 'shock_fade',
+  description: 'Capital baseline and redemption tracking',
+  migrations: [
+    {
+      version: 1,
+      name: 'baseline: capital_baseline, redemption_tracking',
+      up: (db) => {
+        // Capital baseline table (single row) - AUM-based PNL tracking
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS capital_baseline (
+            id INTEGER PRIMARY KEY CHECK (id = 1),
+            baseline REAL NOT NULL,
+            last_updated INTEGER NOT NULL,
+            recovery_attempts INTEGER DEFAULT 0
+          );
+        `);
+        // Added after the table shipped — databases from before versioning may lack it
+        addColumnIfMissing(db, 'capital_baseline', 'recovery_attempts', 'INTEGER DEFAULT 0');
+
+        // Redemption tracking table - tracks redemption attempts per condition
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS redemption_tracking (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            condition_id TEXT NOT NULL,
+            market_slug TEXT NOT NULL,
+            attempt_count INTEGER NOT NULL DEFAULT 0,
+            last_attempt_at INTEGER,
+            last_tx_hash TEXT,
+            last_success INTEGER DEFAULT 0,
+            created_at INTEGER NOT NULL
+          );
+
+          CREATE UNIQUE INDEX IF NOT EXISTS idx_redemption_tracking_condition ON redemption_tracking(condition_id);
+        `);
+      },
+    },
+  ],
+};
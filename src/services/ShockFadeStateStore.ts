@@ -0,0 +1,605 @@
+/**
+ * ShockFadeStateStore.ts — Durable state for ShockFadeLive.
+ *
+ * Two stores behind one load / save surface, picked by file extension:
+ *   - SqliteStateStore (`.db`, `.sqlite`) — production. Every save is one
+ *     transaction that upserts only the rows that changed and drops what the
+ *     trader let go of (merged or freed markets' inventory, discarded
+ *     take-profits); trades and P&L entries are never truncated, and a
+ *     trade only changes when late gas is booked onto it. Each process start is a session, so old sessions stay
+ *     queryable for analytics.
+ *   - JsonStateStore (anything else) — the original single-file snapshot,
+ *     kept for throwaway state (tests, replay backtests).
+ *
+ * `importStateJson` moves an existing JSON state file into a SQLite store
+ * once (npm run state:import).
+ */
+
+import Database from "better-sqlite3";
+import * as fs from "fs";
+import * as path from "path";
+import { SchemaModule, applyMigrations, currentSchemaVersion } from "./SchemaMigrations";
+import type {
+  CumulativeTP,
+  LiveLadderOrder,
+  LivePosition,
+  LiveStats,
+  LiveTradeRecord,
+  MarketInventory,
+} from "../strategies/ShockFadeLive";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const STATE_MODEL = "shock-fade-live";
+
+/** Everything ShockFadeLive persists — the JSON state file's layout */
+export interface ShockFadeStateSnapshot {
+  timestamp: number;
+  model: string;
+  inventory: MarketInventory[];
+  orders: LiveLadderOrder[];
+  positions: LivePosition[];
+  tradeHistory: LiveTradeRecord[];
+  stats: LiveStats;
+  /** The trader's in-memory window of P&L entries */
+  pnlHistory: number[];
+  /** Entries ever appended to pnlHistory this process (default: its length) — which of them are new */
+  pnlCount?: number;
+  cumulativeTPs: CumulativeTP[];
+}
+
+export interface ShockFadeStateStore {
+  /** Where the state lives (file path) */
+  readonly path: string;
+  /** Last saved state, or null when there is none yet */
+  load(): ShockFadeStateSnapshot | null;
+  save(snapshot: ShockFadeStateSnapshot): void;
+  close(): void;
+}
+
+/** Trades / P&L entries loaded back into memory (the rest stay in the store) */
+const LOAD_TRADES = 500;
+const LOAD_PNL = 500;
+/** Settled orders / positions / TPs touched within this window are loaded too */
+const LOAD_SETTLED_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** `.db` / `.sqlite` → SQLite, anything else → JSON snapshot */
+export function createStateStore(statePath: string): ShockFadeStateStore {
+  const ext = path.extname(statePath).toLowerCase();
+  return ext === ".db" || ext === ".sqlite" ? new SqliteStateStore(statePath) : new JsonStateStore(statePath);
+}
+
+// ============================================================================
+// JSON SNAPSHOT
+// ============================================================================
+
+export class JsonStateStore implements ShockFadeStateStore {
+  constructor(readonly path: string) {}
+
+  load(): ShockFadeStateSnapshot | null {
+    if (!fs.existsSync(this.path)) return null;
+    return JSON.parse(fs.readFileSync(this.path, "utf-8"));
+  }
+
+  save(snapshot: ShockFadeStateSnapshot): void {
+    const dir = path.dirname(this.path);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    fs.writeFileSync(this.path, JSON.stringify({
+      ...snapshot,
+      tradeHistory: snapshot.tradeHistory.slice(-200),
+      pnlHistory: snapshot.pnlHistory.slice(-500),
+    }, null, 2));
+  }
+
+  close(): void {}
+}
+
+// ============================================================================
+// SQLITE
+// ============================================================================
+
+/** Schema of the state store — applied on open, or with npm run db:migrate -- --state */
+export const STATE_STORE_SCHEMA: SchemaModule = {
+  name: "shock_fade_state",
+  description: "ShockFadeLive sessions, inventory, orders, positions, TPs, trades, P&L",
+  migrations: [
+    {
+      version: 1,
+      name: "initial shock-fade state schema",
+      up: (db) => db.exec(`
+        CREATE TABLE sessions (
+          id TEXT PRIMARY KEY,
+          started_at INTEGER NOT NULL,
+          last_saved_at INTEGER,
+          source TEXT NOT NULL,          -- 'live' or 'import:<json path>'
+          stats TEXT                     -- LiveStats JSON as of the last save
+        );
+
+        CREATE TABLE inventory (
+          market_slug TEXT PRIMARY KEY,
+          condition_id TEXT NOT NULL,
+          token_a TEXT NOT NULL,
+          token_b TEXT NOT NULL,
+          shares_a REAL NOT NULL,
+          shares_b REAL NOT NULL,
+          total_split_cost REAL NOT NULL,
+          split_count INTEGER NOT NULL,
+          neg_risk INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE orders (
+          id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL REFERENCES sessions(id),
+          order_id TEXT,
+          market_slug TEXT NOT NULL,
+          condition_id TEXT NOT NULL,
+          token_id TEXT NOT NULL,
+          shock_id TEXT NOT NULL,
+          level INTEGER NOT NULL,
+          price REAL NOT NULL,
+          shares REAL NOT NULL,
+          filled_shares REAL NOT NULL,
+          fill_price REAL,
+          status TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          filled_at INTEGER,
+          updated_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE positions (
+          id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL REFERENCES sessions(id),
+          market_slug TEXT NOT NULL,
+          condition_id TEXT NOT NULL,
+          neg_risk INTEGER NOT NULL,
+          shock_id TEXT NOT NULL,
+          sold_token_id TEXT NOT NULL,
+          sold_price REAL NOT NULL,
+          sold_shares REAL NOT NULL,
+          held_token_id TEXT NOT NULL,
+          held_shares REAL NOT NULL,
+          split_cost REAL NOT NULL,
+          take_profit_price REAL NOT NULL,
+          entry_time INTEGER NOT NULL,
+          exit_time INTEGER,
+          exit_price REAL,
+          pnl REAL,
+          status TEXT NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE cumulative_tps (
+          shock_id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL REFERENCES sessions(id),
+          market_slug TEXT NOT NULL,
+          status TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          data TEXT NOT NULL,            -- full CumulativeTP JSON
+          updated_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE trades (
+          id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL REFERENCES sessions(id),
+          market_slug TEXT NOT NULL,
+          sold_token_id TEXT NOT NULL,
+          sold_price REAL NOT NULL,
+          sold_shares REAL NOT NULL,
+          held_token_id TEXT NOT NULL,
+          exit_price REAL NOT NULL,
+          exit_shares REAL NOT NULL,
+          pnl REAL NOT NULL,
+          split_cost REAL NOT NULL,
+          total_proceeds REAL NOT NULL,
+          entry_time INTEGER NOT NULL,
+          exit_time INTEGER NOT NULL,
+          exit_reason TEXT NOT NULL,
+          hold_time_ms INTEGER NOT NULL
+        );
+
+        CREATE TABLE pnl_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id TEXT NOT NULL REFERENCES sessions(id),
+          pnl REAL NOT NULL,
+          recorded_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX idx_orders_session ON orders(session_id);
+        CREATE INDEX idx_orders_market ON orders(market_slug);
+        CREATE INDEX idx_orders_status ON orders(status, updated_at);
+        CREATE INDEX idx_positions_session ON positions(session_id);
+        CREATE INDEX idx_positions_status ON positions(status, updated_at);
+        CREATE INDEX idx_tps_status ON cumulative_tps(status, updated_at);
+        CREATE INDEX idx_trades_session ON trades(session_id);
+        CREATE INDEX idx_trades_exit_time ON trades(exit_time);
+        CREATE INDEX idx_pnl_session ON pnl_history(session_id);
+      `),
+    },
+    {
+      version: 2,
+      name: "gas cost charged to each trade",
+      up: (db) => db.exec(`ALTER TABLE trades ADD COLUMN gas_cost REAL NOT NULL DEFAULT 0`),
+    },
+    {
+      version: 3,
+      name: "take-profits dropped from memory are marked removed",
+      up: (db) => db.exec(`ALTER TABLE cumulative_tps ADD COLUMN removed_at INTEGER`),
+    },
+  ],
+};
+
+export class SqliteStateStore implements ShockFadeStateStore {
+  private db: Database.Database;
+  private sessionId: string | null = null;
+  /** Serialized row per table:key as last written — saves skip unchanged rows */
+  private written: Map<string, string> = new Map();
+  /** pnlHistory entries already in the store (the snapshot's array is cumulative) */
+  private pnlWritten = 0;
+
+  readonly path: string;
+
+  constructor(statePath: string) {
+    this.path = statePath;
+    const dir = path.dirname(statePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    this.db = new Database(statePath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("foreign_keys = ON");
+    applyMigrations(this.db, [STATE_STORE_SCHEMA]);
+  }
+
+  /** Raw database for analytics queries */
+  getDb(): Database.Database {
+    return this.db;
+  }
+
+  getSchemaVersion(): number {
+    return currentSchemaVersion(this.db, STATE_STORE_SCHEMA.name);
+  }
+
+  getSessionId(): string | null {
+    return this.sessionId;
+  }
+
+  load(): ShockFadeStateSnapshot | null {
+    const session = this.db.prepare(
+      "SELECT id, stats, last_saved_at FROM sessions WHERE last_saved_at IS NOT NULL ORDER BY last_saved_at DESC LIMIT 1",
+    ).get() as { id: string; stats: string | null; last_saved_at: number } | undefined;
+    if (!session) return null;
+
+    const since = Date.now() - LOAD_SETTLED_WINDOW_MS;
+    const inventory = (this.db.prepare("SELECT * FROM inventory").all() as any[]).map(rowToInventory);
+    const orders = (this.db.prepare(
+      "SELECT * FROM orders WHERE status IN ('PENDING_PLACE', 'RESTING', 'PARTIAL') OR updated_at >= ? ORDER BY created_at, rowid",
+    ).all(since) as any[]).map(rowToOrder);
+    const positions = (this.db.prepare(
+      "SELECT * FROM positions WHERE status = 'OPEN' OR updated_at >= ? ORDER BY entry_time, rowid",
+    ).all(since) as any[]).map(rowToPosition);
+    const cumulativeTPs = (this.db.prepare(
+      "SELECT data FROM cumulative_tps WHERE removed_at IS NULL AND (status IN ('WATCHING', 'PARTIAL') OR updated_at >= ?) ORDER BY created_at, rowid",
+    ).all(since) as { data: string }[]).map((r) => JSON.parse(r.data) as CumulativeTP);
+    const tradeHistory = (this.db.prepare(
+      "SELECT * FROM (SELECT * FROM trades ORDER BY exit_time DESC LIMIT ?) ORDER BY exit_time",
+    ).all(LOAD_TRADES) as any[]).map(rowToTrade);
+    const pnlHistory = (this.db.prepare(
+      "SELECT pnl FROM (SELECT id, pnl FROM pnl_history ORDER BY id DESC LIMIT ?) ORDER BY id",
+    ).all(LOAD_PNL) as { pnl: number }[]).map((r) => r.pnl);
+
+    // What was just read counts as written — the next save only sends changes
+    for (const inv of inventory) this.written.set(`inventory:${inv.marketSlug}`, JSON.stringify(inv));
+    for (const o of orders) this.written.set(`orders:${o.id}`, JSON.stringify(o));
+    for (const p of positions) this.written.set(`positions:${p.id}`, JSON.stringify(p));
+    for (const tp of cumulativeTPs) this.written.set(`cumulative_tps:${tp.shockId}`, JSON.stringify(tp));
+    for (const t of tradeHistory) this.written.set(`trades:${t.id}`, tradeCharge(t));
+    this.pnlWritten = pnlHistory.length;
+
+    return {
+      timestamp: session.last_saved_at,
+      model: STATE_MODEL,
+      inventory,
+      orders,
+      positions,
+      tradeHistory,
+      stats: session.stats ? JSON.parse(session.stats) : undefined as unknown as LiveStats,
+      pnlHistory,
+      cumulativeTPs,
+    };
+  }
+
+  save(snapshot: ShockFadeStateSnapshot): void {
+    const now = snapshot.timestamp || Date.now();
+    this.db.transaction(() => {
+      const sessionId = this.ensureSession(now, "live");
+      this.writeSnapshot(sessionId, snapshot, now);
+      this.dropRemoved(snapshot, now);
+    })();
+  }
+
+  /**
+   * Store a JSON state file's contents as its own (closed) session. Refuses a
+   * file that was already imported.
+   */
+  importSnapshot(snapshot: ShockFadeStateSnapshot, source: string): { sessionId: string } {
+    if (snapshot.model !== STATE_MODEL) throw new Error(`not a ${STATE_MODEL} state file (model: ${snapshot.model})`);
+    const existing = this.db.prepare("SELECT id FROM sessions WHERE source = ?").get(source) as { id: string } | undefined;
+    if (existing) throw new Error(`${source} already imported as session ${existing.id}`);
+
+    const savedAt = snapshot.timestamp || Date.now();
+    const startedAt = snapshot.stats?.startedAt ?? savedAt;
+    const sessionId = `sess_import_${savedAt}`;
+    // Older state files miss sections, and very old TPs their shockId
+    const normalized: ShockFadeStateSnapshot = {
+      ...snapshot,
+      inventory: snapshot.inventory || [],
+      orders: snapshot.orders || [],
+      positions: snapshot.positions || [],
+      tradeHistory: snapshot.tradeHistory || [],
+      pnlHistory: snapshot.pnlHistory || [],
+      cumulativeTPs: (snapshot.cumulativeTPs || []).filter((tp) => tp.shockId),
+    };
+    this.db.transaction(() => {
+      this.db.prepare("INSERT INTO sessions (id, started_at, last_saved_at, source, stats) VALUES (?, ?, ?, ?, NULL)")
+        .run(sessionId, startedAt, savedAt, source);
+      this.writeSnapshot(sessionId, normalized, savedAt);
+    })();
+    // The importing process starts a session of its own when it saves
+    this.written.clear();
+    this.pnlWritten = 0;
+    return { sessionId };
+  }
+
+  /** Sessions newest first, with their trade counts and P&L */
+  listSessions(): Array<{ id: string; startedAt: number; lastSavedAt: number | null; source: string; trades: number; pnl: number }> {
+    return (this.db.prepare(`
+      SELECT s.id, s.started_at, s.last_saved_at, s.source, COUNT(t.id) AS trades, COALESCE(SUM(t.pnl), 0) AS pnl
+      FROM sessions s LEFT JOIN trades t ON t.session_id = s.id
+      GROUP BY s.id ORDER BY s.started_at DESC
+    `).all() as any[]).map((r) => ({
+      id: r.id,
+      startedAt: r.started_at,
+      lastSavedAt: r.last_saved_at,
+      source: r.source,
+      trades: r.trades,
+      pnl: r.pnl,
+    }));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  // ============================================================================
+  // INTERNAL
+  // ============================================================================
+
+  private ensureSession(now: number, source: string): string {
+    if (!this.sessionId) {
+      this.sessionId = `sess_${now}_${Math.random().toString(36).slice(2, 8)}`;
+      this.db.prepare("INSERT INTO sessions (id, started_at, source) VALUES (?, ?, ?)").run(this.sessionId, now, source);
+    }
+    return this.sessionId;
+  }
+
+  /** Upsert changed rows, append new trades / P&L entries (runs inside a transaction) */
+  private writeSnapshot(sessionId: string, snapshot: ShockFadeStateSnapshot, now: number): void {
+    const changed = (table: string, key: string, row: unknown): boolean => {
+      const json = JSON.stringify(row);
+      if (this.written.get(`${table}:${key}`) === json) return false;
+      this.written.set(`${table}:${key}`, json);
+      return true;
+    };
+
+    const upsertInventory = this.db.prepare(`
+      INSERT INTO inventory (market_slug, condition_id, token_a, token_b, shares_a, shares_b, total_split_cost, split_count, neg_risk, updated_at)
+      VALUES (@marketSlug, @conditionId, @tokenA, @tokenB, @sharesA, @sharesB, @totalSplitCost, @splitCount, @negRisk, @updatedAt)
+      ON CONFLICT(market_slug) DO UPDATE SET
+        condition_id = excluded.condition_id, token_a = excluded.token_a, token_b = excluded.token_b,
+        shares_a = excluded.shares_a, shares_b = excluded.shares_b, total_split_cost = excluded.total_split_cost,
+        split_count = excluded.split_count, neg_risk = excluded.neg_risk, updated_at = excluded.updated_at
+    `);
+    for (const inv of snapshot.inventory) {
+      if (!changed("inventory", inv.marketSlug, inv)) continue;
+      upsertInventory.run({ ...inv, negRisk: inv.negRisk ? 1 : 0, updatedAt: now });
+    }
+
+    // session_id is the session that created the row; updates keep it
+    const upsertOrder = this.db.prepare(`
+      INSERT INTO orders (id, session_id, order_id, market_slug, condition_id, token_id, shock_id, level, price, shares,
+                          filled_shares, fill_price, status, created_at, filled_at, updated_at)
+      VALUES (@id, @sessionId, @orderId, @marketSlug, @conditionId, @tokenId, @shockId, @level, @price, @shares,
+              @filledShares, @fillPrice, @status, @createdAt, @filledAt, @updatedAt)
+      ON CONFLICT(id) DO UPDATE SET
+        order_id = excluded.order_id, filled_shares = excluded.filled_shares, fill_price = excluded.fill_price,
+        status = excluded.status, filled_at = excluded.filled_at, updated_at = excluded.updated_at
+    `);
+    for (const o of snapshot.orders) {
+      if (!changed("orders", o.id, o)) continue;
+      upsertOrder.run({ ...o, sessionId, filledShares: o.filledShares ?? 0, updatedAt: now });
+    }
+
+    const upsertPosition = this.db.prepare(`
+      INSERT INTO positions (id, session_id, market_slug, condition_id, neg_risk, shock_id, sold_token_id, sold_price, sold_shares,
+                             held_token_id, held_shares, split_cost, take_profit_price, entry_time, exit_time, exit_price, pnl, status, updated_at)
+      VALUES (@id, @sessionId, @marketSlug, @conditionId, @negRisk, @shockId, @soldTokenId, @soldPrice, @soldShares,
+              @heldTokenId, @heldShares, @splitCost, @takeProfitPrice, @entryTime, @exitTime, @exitPrice, @pnl, @status, @updatedAt)
+      ON CONFLICT(id) DO UPDATE SET
+        sold_price = excluded.sold_price, sold_shares = excluded.sold_shares, held_shares = excluded.held_shares,
+        take_profit_price = excluded.take_profit_price, exit_time = excluded.exit_time, exit_price = excluded.exit_price,
+        pnl = excluded.pnl, status = excluded.status, updated_at = excluded.updated_at
+    `);
+    for (const p of snapshot.positions) {
+      if (!changed("positions", p.id, p)) continue;
+      upsertPosition.run({ ...p, sessionId, negRisk: p.negRisk ? 1 : 0, updatedAt: now });
+    }
+
+    const upsertTP = this.db.prepare(`
+      INSERT INTO cumulative_tps (shock_id, session_id, market_slug, status, created_at, data, updated_at)
+      VALUES (@shockId, @sessionId, @marketSlug, @status, @createdAt, @data, @updatedAt)
+      ON CONFLICT(shock_id) DO UPDATE SET
+        status = excluded.status, data = excluded.data, updated_at = excluded.updated_at, removed_at = NULL
+    `);
+    for (const tp of snapshot.cumulativeTPs) {
+      if (!changed("cumulative_tps", tp.shockId, tp)) continue;
+      upsertTP.run({ shockId: tp.shockId, sessionId, marketSlug: tp.marketSlug, status: tp.status, createdAt: tp.createdAt, data: JSON.stringify(tp), updatedAt: now });
+    }
+
+    const upsertTrade = this.db.prepare(`
+      INSERT INTO trades (id, session_id, market_slug, sold_token_id, sold_price, sold_shares, held_token_id, exit_price,
+                          exit_shares, pnl, split_cost, gas_cost, total_proceeds, entry_time, exit_time, exit_reason, hold_time_ms)
+      VALUES (@id, @sessionId, @marketSlug, @soldTokenId, @soldPrice, @soldShares, @heldTokenId, @exitPrice,
+              @exitShares, @pnl, @splitCost, @gasCost, @totalProceeds, @entryTime, @exitTime, @exitReason, @holdTimeMs)
+      ON CONFLICT(id) DO UPDATE SET pnl = excluded.pnl, gas_cost = excluded.gas_cost
+    `);
+    const inWindow = new Set<string>();
+    for (const t of snapshot.tradeHistory) {
+      inWindow.add(`trades:${t.id}`);
+      if (this.written.get(`trades:${t.id}`) === tradeCharge(t)) continue;
+      this.written.set(`trades:${t.id}`, tradeCharge(t));
+      upsertTrade.run({ ...t, gasCost: t.gasCost ?? 0, sessionId });
+    }
+    // Trades that left the trader's window are never sent again
+    for (const key of Array.from(this.written.keys())) {
+      if (key.startsWith("trades:") && !inWindow.has(key)) this.written.delete(key);
+    }
+
+    // pnlHistory is a window: its last (pnlCount − pnlWritten) entries are new
+    const pnlCount = snapshot.pnlCount ?? snapshot.pnlHistory.length;
+    const fresh = Math.min(pnlCount - this.pnlWritten, snapshot.pnlHistory.length);
+    const insertPnl = this.db.prepare("INSERT INTO pnl_history (session_id, pnl, recorded_at) VALUES (?, ?, ?)");
+    if (fresh > 0) for (const pnl of snapshot.pnlHistory.slice(-fresh)) insertPnl.run(sessionId, pnl, now);
+    this.pnlWritten = pnlCount;
+
+    this.db.prepare("UPDATE sessions SET last_saved_at = ?, stats = ? WHERE id = ?")
+      .run(now, JSON.stringify(snapshot.stats ?? null), sessionId);
+  }
+
+  /**
+   * Forget rows the snapshot no longer has: inventory of merged or freed
+   * markets is deleted, dropped take-profits are marked removed (kept for
+   * analytics, never loaded). Runs inside the save transaction; imports skip
+   * it, they only add a session.
+   */
+  private dropRemoved(snapshot: ShockFadeStateSnapshot, now: number): void {
+    const slugs = snapshot.inventory.map((inv) => inv.marketSlug);
+    const shockIds = snapshot.cumulativeTPs.map((tp) => tp.shockId);
+    this.db.prepare("DELETE FROM inventory WHERE market_slug NOT IN (SELECT value FROM json_each(?))")
+      .run(JSON.stringify(slugs));
+    this.db.prepare("UPDATE cumulative_tps SET removed_at = ? WHERE removed_at IS NULL AND shock_id NOT IN (SELECT value FROM json_each(?))")
+      .run(now, JSON.stringify(shockIds));
+
+    // A market or TP that comes back later must be written again
+    const kept = new Set([...slugs.map((k) => `inventory:${k}`), ...shockIds.map((k) => `cumulative_tps:${k}`)]);
+    for (const key of Array.from(this.written.keys())) {
+      if ((key.startsWith("inventory:") || key.startsWith("cumulative_tps:")) && !kept.has(key)) this.written.delete(key);
+    }
+  }
+}
+
+// ============================================================================
+// ROW MAPPING
+// ============================================================================
+
+function rowToInventory(r: any): MarketInventory {
+  return {
+    marketSlug: r.market_slug,
+    conditionId: r.condition_id,
+    tokenA: r.token_a,
+    tokenB: r.token_b,
+    sharesA: r.shares_a,
+    sharesB: r.shares_b,
+    totalSplitCost: r.total_split_cost,
+    splitCount: r.split_count,
+    negRisk: r.neg_risk === 1,
+  };
+}
+
+function rowToOrder(r: any): LiveLadderOrder {
+  return {
+    id: r.id,
+    orderId: r.order_id,
+    tokenId: r.token_id,
+    marketSlug: r.market_slug,
+    conditionId: r.condition_id,
+    price: r.price,
+    shares: r.shares,
+    level: r.level,
+    status: r.status,
+    filledShares: r.filled_shares,
+    createdAt: r.created_at,
+    filledAt: r.filled_at,
+    fillPrice: r.fill_price,
+    shockId: r.shock_id,
+  };
+}
+
+function rowToPosition(r: any): LivePosition {
+  return {
+    id: r.id,
+    marketSlug: r.market_slug,
+    conditionId: r.condition_id,
+    negRisk: r.neg_risk === 1,
+    soldTokenId: r.sold_token_id,
+    soldPrice: r.sold_price,
+    soldShares: r.sold_shares,
+    heldTokenId: r.held_token_id,
+    heldShares: r.held_shares,
+    splitCost: r.split_cost,
+    entryTime: r.entry_time,
+    exitTime: r.exit_time,
+    takeProfitPrice: r.take_profit_price,
+    exitPrice: r.exit_price,
+    pnl: r.pnl,
+    shockId: r.shock_id,
+    status: r.status,
+  };
+}
+
+/** The part of a trade that can change after it is written (late gas) */
+function tradeCharge(t: LiveTradeRecord): string {
+  return `${t.pnl}:${t.gasCost ?? 0}`;
+}
+
+function rowToTrade(r: any): LiveTradeRecord {
+  return {
+    id: r.id,
+    marketSlug: r.market_slug,
+    soldTokenId: r.sold_token_id,
+    soldPrice: r.sold_price,
+    soldShares: r.sold_shares,
+    heldTokenId: r.held_token_id,
+    exitPrice: r.exit_price,
+    exitShares: r.exit_shares,
+    pnl: r.pnl,
+    splitCost: r.split_cost,
+    gasCost: r.gas_cost,
+    totalProceeds: r.total_proceeds,
+    entryTime: r.entry_time,
+    exitTime: r.exit_time,
+    exitReason: r.exit_reason,
+    holdTimeMs: r.hold_time_ms,
+  };
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/** One-time move of a JSON state file into a SQLite store, as a session of its own */
+export function importStateJson(store: SqliteStateStore, jsonPath: string): { sessionId: string; orders: number; positions: number; trades: number } {
+  const snapshot = new JsonStateStore(jsonPath).load();
+  if (!snapshot) throw new Error(`no state file at ${jsonPath}`);
+  const { sessionId } = store.importSnapshot(snapshot, `import:${path.resolve(jsonPath)}`);
+  return {
+    sessionId,
+    orders: snapshot.orders?.length ?? 0,
+    positions: snapshot.positions?.length ?? 0,
+    trades: snapshot.tradeHistory?.length ?? 0,
+  };
+}
@@ -20,6 +20,15 @@ import { polygon } from "viem/chains";
 import { Interface } from "ethers/lib/utils";
 import { ethers } from "ethers";
 import { DirectExecutionClient } from "./DirectExecutionClient";
+import {
+  CtfBatchClient,
+  CtfBatchItem,
+  CtfBatchResult,
+  SafeExecutor,
+  relayerExecutor,
+  sequentialCtfBatch,
+} from "./CtfBatchClient";
+import { AlertRaiser } from "./Alerter";
 
 // Polygon Mainnet Constants
 const CTF_CONTRACT = "0x4D97DCd97eC945f40cF65F87097ACe5EA0476045";
@@ -38,8 +47,12 @@ export interface SplitResult {
   transactionHash?: string;
   error?: string;
   amountSplit?: number;
+  gasCostMatic?: number; // MATIC paid by our EOA (direct execution / EOA mode; relayer is gas-free)
 }
 
+/** The splits ShockFadeLive makes — SplitClient, or a simulated exchange */
+export type CtfSplitter = Pick<SplitClient, "split" | "splitBatch">;
+
 export interface ApprovalResult {
   success: boolean;
   transactionHash?: string;
@@ -53,6 +66,7 @@ export class SplitClient {
   private useDirectExecution: boolean = false;
   private eoaWallet: ethers.Wallet | null = null;
   private authMode: "EOA" | "PROXY";
+  private alerter: AlertRaiser | null = null;
   private ctfInterface: Interface;
   private negRiskInterface: Interface;
   private erc20Interface: Interface;
@@ -160,11 +174,58 @@ export class SplitClient {
     isNegRisk: boolean = false,
   ): Promise<SplitResult> {
     // Route based on AUTH_MODE and market type
-    if (this.authMode === "EOA") {
-      return this.splitDirectOnChain(conditionId, amount, isNegRisk);
-    } else {
-      return this.splitViaRelayer(conditionId, amount, isNegRisk);
+    const result = this.authMode === "EOA"
+      ? await this.splitDirectOnChain(conditionId, amount, isNegRisk)
+      : await this.splitViaRelayer(conditionId, amount, isNegRisk);
+    if (!result.success) this.alertFailure(conditionId, amount, result.error);
+    return result;
+  }
+
+  /**
+   * Split USDC for many markets at once. PROXY mode packs them into one Safe
+   * transaction per batch (see CtfBatchClient); EOA mode has no Safe and
+   * splits one market at a time. Every item gets its own result.
+   */
+  async splitBatch(
+    items: Array<Omit<CtfBatchItem, "op">>,
+  ): Promise<CtfBatchResult> {
+    const splits = items.map((i) => ({ ...i, op: "SPLIT" as const }));
+    const executor = this.getSafeExecutor();
+    if (!executor) {
+      return sequentialCtfBatch(splits, (item) => this.split(item.conditionId, item.amount, item.negRisk));
+    }
+    console.log(`🔀 Splitting ${items.length} markets ($${items.reduce((s, i) => s + i.amount, 0)}) in one batch...`);
+    const batch = await new CtfBatchClient(executor).execute(splits);
+    for (const r of batch.results) {
+      if (!r.success) this.alertFailure(r.item.conditionId, r.item.amount, r.error, r.item.ref);
     }
+    return batch;
+  }
+
+  /**
+   * Raise failed splits on this alerter (one alert per market per dedupe
+   * window). Batches in EOA mode go through split() and alert there.
+   */
+  setAlerter(alerter: AlertRaiser | null): void {
+    this.alerter = alerter;
+  }
+
+  private alertFailure(conditionId: string, amount: number, error: string | undefined, ref?: string): void {
+    this.alerter?.raise({
+      severity: "ERROR",
+      title: "Split failed",
+      message: `Split $${amount} on ${ref ?? conditionId.slice(0, 12) + "…"}: ${error ?? "unknown error"}`,
+      source: "SplitClient",
+      key: `SplitClient:${conditionId}`,
+      context: { conditionId, amount, ref },
+    });
+  }
+
+  /** Safe the PROXY wallet executes through (null in EOA mode) */
+  private getSafeExecutor(): SafeExecutor | null {
+    if (this.useDirectExecution && this.directClient) return this.directClient;
+    if (this.client) return relayerExecutor(this.client, "Split positions");
+    return null;
   }
 
   /**
@@ -305,6 +366,7 @@ export class SplitClient {
         success: true,
         transactionHash: receipt.transactionHash,
         amountSplit: amount,
+        gasCostMatic: parseFloat(ethers.utils.formatEther(receipt.gasUsed.mul(receipt.effectiveGasPrice))),
       };
     } catch (error: any) {
       const errMsg = error.message || "Unknown error";
@@ -532,7 +594,7 @@ export class SplitClient {
       );
 
       // Execute via DirectExecutionClient (same SafeTransaction[] format)
-      const result = await this.directClient.execute([approveTx, splitTx]);
+      const result = await this.directClient.execute([approveTx, splitTx], `Split $${amount} ${conditionId.slice(0, 10)}`);
 
       if (!result.success) {
         console.log(`   ❌ Direct split failed: ${result.error}`);
@@ -557,6 +619,7 @@ export class SplitClient {
         success: true,
         transactionHash: result.transactionHash,
         amountSplit: amount,
+        gasCostMatic: result.gasCostMatic ? parseFloat(result.gasCostMatic) : undefined,
       };
     } catch (error: any) {
       const errMsg = error.message || "Unknown error";
@@ -656,7 +719,7 @@ export class SplitClient {
         },
       ];
 
-      const result = await this.directClient.execute(approvalTxs);
+      const result = await this.directClient.execute(approvalTxs, "Set CTF approvals");
 
       if (!result.success) {
         console.log(
@@ -860,6 +923,20 @@ export class SplitClient {
   getAuthMode(): "EOA" | "PROXY" {
     return this.authMode;
   }
+
+  /**
+   * MATIC balance of the EOA that pays for split gas (null when the
+   * relayer pays — nothing to budget)
+   */
+  async getMaticBalance(): Promise<string | null> {
+    if (this.eoaWallet) {
+      return ethers.utils.formatEther(await this.eoaWallet.getBalance());
+    }
+    if (this.useDirectExecution && this.directClient) {
+      return this.directClient.getMaticBalance();
+    }
+    return null;
+  }
 }
 
 export default SplitClient;
@@ -0,0 +1,287 @@
+/**
+ * StartupReconciliation.ts — Diff persisted trading state against the venue.
+ *
+ * The state file (and order journal) only know what the bot saw. Anything
+ * that happened while it was down — resting orders filled or cancelled,
+ * shares merged or moved by hand — has to come from the exchange and chain:
+ *
+ *   - every live entry / TP order  → venue.getOrder (size matched, status)
+ *   - open orders per market       → venue.getOpenOrders (orders we don't know)
+ *   - CTF token balances           → venue.getTokenBalance vs MarketInventory
+ *
+ * Each difference is a Discrepancy marked SAFE (the strategy can repair it
+ * from the venue's answer: book the fill, return cancelled shares, resync
+ * inventory) or UNSAFE (needs a human: orders the venue doesn't know, orders
+ * we don't know, balances that can't cover open orders and positions).
+ * The strategy applies the repairs; the report goes to
+ * `<state>-reconciliation.json`, where `npm run reconcile -- --confirm`
+ * marks it confirmed and releases the trading hold.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { ExecutionVenue, VenueOrder } from "./ExecutionVenue";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DiscrepancySeverity = "SAFE" | "UNSAFE";
+
+export type DiscrepancyKind =
+  | "ORDER_FILLED"       // live in state, venue matched (more of) it
+  | "ORDER_CANCELLED"    // live in state, venue cancelled it
+  | "ORDER_UNKNOWN"      // venue has no record of the order
+  | "TP_FILLED"
+  | "TP_CANCELLED"
+  | "TP_UNKNOWN"
+  | "UNTRACKED_ORDER"    // open on the venue, not in state
+  | "BALANCE_DRIFT"      // token balance ≠ inventory, but covers open orders + positions
+  | "BALANCE_SHORT"      // token balance can't cover open orders + positions
+  | "LOOKUP_FAILED";     // venue query failed — nothing verified
+
+export interface Discrepancy {
+  kind: DiscrepancyKind;
+  severity: DiscrepancySeverity;
+  marketSlug: string;
+  /** Order key, shockId or tokenId, depending on kind */
+  ref: string;
+  detail: string;
+  expected?: number;
+  actual?: number;
+  /** The venue's view of the order, for ORDER_* / TP_* kinds */
+  venueOrder?: VenueOrder;
+  repaired: boolean;
+}
+
+export interface ReconciliationReport {
+  id: string;
+  createdAt: number;
+  venue: string;
+  checked: { orders: number; tpOrders: number; markets: number };
+  discrepancies: Discrepancy[];
+  /** Unrepaired UNSAFE discrepancies — trading is held until confirmed */
+  blocking: boolean;
+  confirmedAt: number | null;
+  confirmedBy: string | null;
+}
+
+/** A live order as persisted (entry ladder or cumulative TP) */
+export interface ReconcileOrder {
+  ref: string;
+  marketSlug: string;
+  venueOrderId: string;
+  /** Shares our state says have filled */
+  filled: number;
+}
+
+/** One token of a market, with what state says it should cover */
+export interface ReconcileToken {
+  tokenId: string;
+  /** MarketInventory shares (unreserved) */
+  inventory: number;
+  /** Unfilled shares of our live sell orders — still in the wallet */
+  reserved: number;
+  /** Shares open positions still need to exit */
+  held: number;
+}
+
+/** CLOB balances are floored to whole shares */
+export const BALANCE_TOLERANCE = 1;
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+/**
+ * Compare one live order with the venue. FILLED takes precedence over
+ * CANCELLED: the strategy books the fill, then applies the venue status.
+ */
+export async function checkOrder(
+  venue: ExecutionVenue,
+  order: ReconcileOrder,
+  kind: "ORDER" | "TP",
+): Promise<Discrepancy | null> {
+  const base = { marketSlug: order.marketSlug, ref: order.ref, repaired: false };
+  let venueOrder: VenueOrder | null;
+  try {
+    venueOrder = await venue.getOrder(order.venueOrderId);
+  } catch (err: any) {
+    return { ...base, kind: "LOOKUP_FAILED", severity: "UNSAFE", detail: `getOrder ${order.venueOrderId}: ${err?.message || err}` };
+  }
+
+  if (!venueOrder) {
+    return { ...base, kind: `${kind}_UNKNOWN`, severity: "UNSAFE", detail: `venue has no order ${order.venueOrderId}` };
+  }
+  if (venueOrder.sizeMatched > order.filled + 1e-9) {
+    return {
+      ...base,
+      kind: `${kind}_FILLED`,
+      severity: "SAFE",
+      detail: `matched ${venueOrder.sizeMatched}/${venueOrder.originalSize} while offline (state: ${order.filled}), venue status ${venueOrder.status}`,
+      expected: order.filled,
+      actual: venueOrder.sizeMatched,
+      venueOrder,
+    };
+  }
+  if (venueOrder.status !== "LIVE") {
+    return { ...base, kind: `${kind}_CANCELLED`, severity: "SAFE", detail: `venue status ${venueOrder.status}`, venueOrder };
+  }
+  return null;
+}
+
+/** Open orders on the venue for a market that state doesn't know about */
+export async function findUntrackedOrders(
+  venue: ExecutionVenue,
+  marketSlug: string,
+  conditionId: string,
+  knownOrderIds: Set<string>,
+): Promise<Discrepancy[]> {
+  let open: VenueOrder[];
+  try {
+    open = await venue.getOpenOrders(conditionId);
+  } catch (err: any) {
+    return [{ kind: "LOOKUP_FAILED", severity: "UNSAFE", marketSlug, ref: conditionId, detail: `getOpenOrders: ${err?.message || err}`, repaired: false }];
+  }
+  return open
+    .filter((o) => !knownOrderIds.has(o.orderId))
+    .map((o) => ({
+      kind: "UNTRACKED_ORDER" as const,
+      severity: "UNSAFE" as const,
+      marketSlug,
+      ref: o.orderId,
+      detail: `${o.side} ${o.originalSize - o.sizeMatched}/${o.originalSize} @ ${(o.price * 100).toFixed(1)}¢ on ${o.tokenId.slice(0, 10)}… is open on the venue but not in state`,
+      venueOrder: o,
+      repaired: false,
+    }));
+}
+
+/**
+ * Compare a token's wallet balance with inventory + reserved. A balance that
+ * still covers open orders and positions can be adopted; one that can't means
+ * shares moved underneath us.
+ */
+export async function checkTokenBalance(
+  venue: ExecutionVenue,
+  marketSlug: string,
+  token: ReconcileToken,
+): Promise<Discrepancy | null> {
+  let actual: number;
+  try {
+    actual = await venue.getTokenBalance(token.tokenId);
+  } catch (err: any) {
+    return { kind: "LOOKUP_FAILED", severity: "UNSAFE", marketSlug, ref: token.tokenId, detail: `getTokenBalance: ${err?.message || err}`, repaired: false };
+  }
+
+  const expected = token.inventory + token.reserved;
+  if (Math.abs(actual - expected) < BALANCE_TOLERANCE) return null;
+
+  const required = token.reserved + token.held;
+  if (actual + BALANCE_TOLERANCE <= required) {
+    return {
+      kind: "BALANCE_SHORT",
+      severity: "UNSAFE",
+      marketSlug,
+      ref: token.tokenId,
+      detail: `wallet holds ${actual}, open orders (${token.reserved}) + positions (${token.held}) need ${required}`,
+      expected,
+      actual,
+      repaired: false,
+    };
+  }
+  return {
+    kind: "BALANCE_DRIFT",
+    severity: "SAFE",
+    marketSlug,
+    ref: token.tokenId,
+    detail: `wallet holds ${actual}, state expects ${expected} (inventory ${token.inventory} + reserved ${token.reserved})`,
+    expected,
+    actual,
+    repaired: false,
+  };
+}
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+export function createReconciliationReport(venue: string, now: number = Date.now()): ReconciliationReport {
+  return {
+    id: `recon_${now}`,
+    createdAt: now,
+    venue,
+    checked: { orders: 0, tpOrders: 0, markets: 0 },
+    discrepancies: [],
+    blocking: false,
+    confirmedAt: null,
+    confirmedBy: null,
+  };
+}
+
+/** Discrepancies still waiting on an operator */
+export function unresolvedDiscrepancies(report: ReconciliationReport): Discrepancy[] {
+  return report.discrepancies.filter((d) => d.severity === "UNSAFE" && !d.repaired);
+}
+
+/** ./data/foo-state.json → ./data/foo-state-reconciliation.json */
+export function reconciliationReportPath(statePath: string): string {
+  const ext = path.extname(statePath);
+  return `${ext ? statePath.slice(0, -ext.length) : statePath}-reconciliation.json`;
+}
+
+export function writeReconciliationReport(filePath: string, report: ReconciliationReport): void {
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  const tmp = `${filePath}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(report, null, 2));
+  fs.renameSync(tmp, filePath);
+}
+
+export function readReconciliationReport(filePath: string): ReconciliationReport | null {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as ReconciliationReport;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Mark the report at `filePath` confirmed. Refuses a stale report id so an
+ * operator can't confirm something they haven't looked at.
+ */
+export function confirmReconciliationReport(
+  filePath: string,
+  reportId: string,
+  operator: string,
+  now: number = Date.now(),
+): ReconciliationReport {
+  const report = readReconciliationReport(filePath);
+  if (!report) throw new Error(`no reconciliation report at ${filePath}`);
+  if (report.id !== reportId) throw new Error(`report is ${report.id}, not ${reportId}`);
+  if (report.confirmedAt === null) {
+    report.confirmedAt = now;
+    report.confirmedBy = operator;
+    writeReconciliationReport(filePath, report);
+  }
+  return report;
+}
+
+export function formatReconciliationReport(report: ReconciliationReport): string[] {
+  const lines = [
+    `Reconciliation ${report.id} (${report.venue}, ${new Date(report.createdAt).toISOString()})`,
+    `  checked: ${report.checked.orders} orders, ${report.checked.tpOrders} TP orders, ${report.checked.markets} markets`,
+  ];
+  if (report.discrepancies.length === 0) {
+    lines.push("  no discrepancies");
+  }
+  for (const d of report.discrepancies) {
+    const status = d.repaired ? "repaired" : d.severity === "UNSAFE" ? "NEEDS OPERATOR" : "not repaired";
+    lines.push(`  [${d.severity}] ${d.kind} ${d.marketSlug} ${d.ref.slice(0, 24)} — ${d.detail} (${status})`);
+  }
+  if (report.blocking) {
+    lines.push(report.confirmedAt
+      ? `  confirmed by ${report.confirmedBy} at ${new Date(report.confirmedAt).toISOString()}`
+      : `  TRADING HELD — review, fix on the venue, then: npm run reconcile -- --confirm ${report.id}`);
+  }
+  return lines;
+}
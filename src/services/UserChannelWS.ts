@@ -62,13 +62,19 @@ export class UserChannelWS extends EventEmitter {
   private disconnectedAt: number = 0;
   private connected = false;
 
-  private static readonly WS_URL = "wss://ws-subscriptions-clob.polymarket.com/ws/user";
+  private static readonly DEFAULT_WS_HOST = "wss://ws-subscriptions-clob.polymarket.com";
   private static readonly PING_INTERVAL_MS = 30_000;
   private static readonly STALE_TIMEOUT_MS = 90_000;  // longer than market WS since user channel is less chatty
 
-  constructor(auth: UserChannelAuth) {
+  private url: string;
+
+  /**
+   * @param url User channel URL. Defaults to $POLYMARKET_WS_HOST/ws/user.
+   */
+  constructor(auth: UserChannelAuth, url?: string) {
     super();
     this.auth = auth;
+    this.url = url ?? `${process.env.POLYMARKET_WS_HOST || UserChannelWS.DEFAULT_WS_HOST}/ws/user`;
   }
 
   // ============================================================================
@@ -83,7 +89,7 @@ export class UserChannelWS extends EventEmitter {
       }
 
       try {
-        this.ws = new WebSocket(UserChannelWS.WS_URL);
+        this.ws = new WebSocket(this.url);
 
         this.ws.on("open", () => {
           const now = Date.now();
@@ -9,6 +9,10 @@
  * Groups positions by market (conditionId), calculates mergeable pairs,
  * total position value, and total account value.
  *
+ * Winning shares waiting for redemption (RedemptionDaemon) are their own
+ * line, "unredeemed", at $1 each — and left out of position value so the
+ * total doesn't count them twice.
+ *
  * Refreshes periodically (30s) and on-demand via refresh().
  */
 
@@ -46,6 +50,8 @@ export interface WalletBalanceData {
   positions: MarketPosition[];
   totalPositionValue: number;
   totalMergeableValue: number;
+  /** Winning shares booked at $1, not redeemed yet */
+  unredeemedValue: number;
   totalAccountValue: number;
   lastRefreshed: number;
   error: string | null;
@@ -53,6 +59,11 @@ export interface WalletBalanceData {
 
 export type WalletUpdateCallback = (data: WalletBalanceData) => void;
 
+/** Winning shares owed USDC on redemption — RedemptionDaemon */
+export interface UnredeemedSource {
+  getUnredeemed(): Array<{ tokenId: string; shares: number }>;
+}
+
 // ============================================================================
 // CONSTANTS
 // ============================================================================
@@ -78,6 +89,7 @@ export class WalletBalanceService {
 
   private lastData: WalletBalanceData;
   private onUpdate: WalletUpdateCallback | null = null;
+  private unredeemedSource: UnredeemedSource | null = null;
 
   constructor(rpcUrl: string, walletAddress: string) {
     this.provider = new ethers.providers.JsonRpcProvider(rpcUrl);
@@ -91,6 +103,7 @@ export class WalletBalanceService {
       positions: [],
       totalPositionValue: 0,
       totalMergeableValue: 0,
+      unredeemedValue: 0,
       totalAccountValue: 0,
       lastRefreshed: 0,
       error: null,
@@ -102,6 +115,11 @@ export class WalletBalanceService {
     this.onUpdate = cb;
   }
 
+  /** Report unredeemed winners as their own AUM line */
+  setUnredeemedSource(source: UnredeemedSource): void {
+    this.unredeemedSource = source;
+  }
+
   /** Start periodic refresh */
   start(): void {
     if (this.running) return;
@@ -138,9 +156,19 @@ export class WalletBalanceService {
         this.fetchPositions(),
       ]);
 
-      const totalPositionValue = positions.reduce((s, p) => s + p.totalValue, 0);
+      let totalPositionValue = positions.reduce((s, p) => s + p.totalValue, 0);
       const totalMergeableValue = positions.reduce((s, p) => s + p.mergeValue, 0);
 
+      // Unredeemed winners move from position value to their own line at $1
+      const unredeemed = this.unredeemedSource?.getUnredeemed() ?? [];
+      const unredeemedValue = unredeemed.reduce((s, c) => s + c.shares, 0);
+      for (const claim of unredeemed) {
+        for (const p of positions) {
+          const side = p.sides.find((sd) => sd.asset === claim.tokenId);
+          if (side) totalPositionValue -= Math.min(side.size, claim.shares) * side.curPrice;
+        }
+      }
+
       this.lastData = {
         address: this.walletAddress,
         usdcBalance,
@@ -148,7 +176,8 @@ export class WalletBalanceService {
         positions,
         totalPositionValue,
         totalMergeableValue,
-        totalAccountValue: usdcBalance + totalPositionValue,
+        unredeemedValue,
+        totalAccountValue: usdcBalance + totalPositionValue + unredeemedValue,
         lastRefreshed: Date.now(),
         error: null,
       };
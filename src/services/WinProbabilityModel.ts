@@ -0,0 +1,302 @@
+/**
+ * WinProbabilityModel.ts — In-game win probability, and from it a fair price
+ * for each token at any moment of a game.
+ *
+ * The score differential is modelled as a random walk over the regulation
+ * time left (Stern's Brownian-motion model): with margin d now, fraction r of
+ * the game left, final-margin spread σ and pre-game expected margin μ,
+ *
+ *   P(home wins) = Φ((d + μ·r + edge) / (σ·√r))
+ *
+ * μ comes from the pre-game price (the spread prior: μ = σ·Φ⁻¹(p_pregame)),
+ * `edge` is the value of possession (NBA/NFL/CBB), the man advantage (NHL) or
+ * batting in the bottom half (MLB). A tie at the end of regulation is a coin
+ * flip tilted by the prior.
+ *
+ * Each sport's `win_prob` block in sss_sport_params.json holds σ and the edge
+ * values; `npm run winprob:calibrate` fits σ from the recorder's game_events +
+ * snapshots tables (see WinProbCalibration).
+ *
+ * Example:
+ *   "win_prob": { "sigma": 2.4, "power_play_value": 0.15 }
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { SportsMarket } from "./SportsMarketDiscovery";
+import { FairValueSource } from "./PinnacleOddsClient";
+import {
+  GameState,
+  LeagueSport,
+  REGULATION,
+  fractionElapsed,
+  scoreDifferential,
+} from "../collectors/league-apis/GameState";
+
+const CONFIG_PATH = path.join(__dirname, "..", "config", "sss_sport_params.json");
+
+/** Smallest fraction of the game treated as "left" (avoids dividing by zero at the horn) */
+const MIN_FRACTION_REMAINING = 1e-4;
+
+/** Fair prices never quoted outside the tradable tick range */
+const MIN_FAIR_PRICE = 0.01;
+const MAX_FAIR_PRICE = 0.99;
+
+export interface WinProbParams {
+  /** Standard deviation of the final margin over a full game (points / goals / runs) */
+  sigma: number;
+  /** Margin added for the team with the ball (NBA/NFL/CBB) */
+  possessionValue: number;
+  /** Margin added for the team on the man advantage (NHL) */
+  powerPlayValue: number;
+  /** Margin added for the home side while it bats (MLB bottom half) */
+  battingValue: number;
+}
+
+/** `win_prob` block as written in sss_sport_params.json */
+interface WinProbConfig {
+  sigma?: number | null;
+  possession_value?: number | null;
+  power_play_value?: number | null;
+  batting_value?: number | null;
+  notes?: string;
+}
+
+/** Used when sss_sport_params.json has no win_prob block for the sport */
+export const DEFAULT_WIN_PROB_PARAMS: Record<LeagueSport, WinProbParams> = {
+  NHL: { sigma: 2.4, possessionValue: 0, powerPlayValue: 0.15, battingValue: 0 },
+  NBA: { sigma: 13, possessionValue: 1, powerPlayValue: 0, battingValue: 0 },
+  CBB: { sigma: 11, possessionValue: 1, powerPlayValue: 0, battingValue: 0 },
+  NFL: { sigma: 13.5, possessionValue: 2, powerPlayValue: 0, battingValue: 0 },
+  MLB: { sigma: 4.2, possessionValue: 0, powerPlayValue: 0, battingValue: 0.25 },
+};
+
+// ============================================================================
+// NORMAL DISTRIBUTION
+// ============================================================================
+
+/** Standard normal CDF (Abramowitz-Stegun 7.1.26, |error| < 1.5e-7) */
+export function normalCdf(x: number): number {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * z);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-z * z);
+  return x >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
+
+/** Inverse standard normal CDF (Acklam's rational approximation) */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+// ============================================================================
+// MODEL
+// ============================================================================
+
+/**
+ * Pre-game expected home margin implied by a pre-game home win probability.
+ */
+export function priorMargin(pregameHomeProb: number, params: WinProbParams): number {
+  const p = Math.max(MIN_FAIR_PRICE, Math.min(MAX_FAIR_PRICE, pregameHomeProb));
+  return params.sigma * normalQuantile(p);
+}
+
+/**
+ * Fraction of the game still to play, 0-1. Overtime counts its own clock
+ * against the regulation length; extra innings count as one more inning.
+ */
+export function fractionRemaining(state: GameState): number {
+  if (state.isOvertime) {
+    if (state.sport === "MLB") return (state.inningHalf === "bottom" ? 1 : 2) / (REGULATION.MLB.periods * 2);
+    if (state.periodSecondsRemaining !== null && state.regulationSeconds) {
+      return state.periodSecondsRemaining / state.regulationSeconds;
+    }
+    return 0;
+  }
+  return 1 - fractionElapsed(state);
+}
+
+/** Situational margin for the home side: possession, power play, batting */
+function situationalEdge(state: GameState, params: WinProbParams): number {
+  const sign = (side: "home" | "away" | undefined) => (side === "home" ? 1 : side === "away" ? -1 : 0);
+  let edge = sign(state.possession) * params.possessionValue + sign(state.powerPlay) * params.powerPlayValue;
+  if (state.sport === "MLB" && state.status === "live") {
+    edge += (state.inningHalf === "bottom" ? 1 : -1) * params.battingValue;
+  }
+  return edge;
+}
+
+/**
+ * Probability the home team wins, given the game state and the pre-game
+ * home win probability.
+ */
+export function homeWinProbability(
+  state: GameState,
+  pregameHomeProb: number,
+  params: WinProbParams = DEFAULT_WIN_PROB_PARAMS[state.sport],
+): number {
+  const diff = scoreDifferential(state);
+  if (state.status === "final") return diff > 0 ? 1 : diff < 0 ? 0 : 0.5;
+  if (state.status === "pre") return pregameHomeProb;
+
+  const r = Math.max(MIN_FRACTION_REMAINING, fractionRemaining(state));
+  const mu = priorMargin(pregameHomeProb, params);
+  return normalCdf((diff + mu * r + situationalEdge(state, params)) / (params.sigma * Math.sqrt(r)));
+}
+
+/** Win probability as a token price, kept inside the 1¢-99¢ tick range */
+export function toFairPrice(probability: number): number {
+  return Math.max(MIN_FAIR_PRICE, Math.min(MAX_FAIR_PRICE, probability));
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+/**
+ * Parse one sport's win_prob block over the sport's defaults.
+ */
+export function parseWinProbParams(sport: LeagueSport, raw: WinProbConfig | null | undefined): WinProbParams {
+  const params = { ...DEFAULT_WIN_PROB_PARAMS[sport] };
+  if (!raw) return params;
+  if (raw.sigma != null && raw.sigma > 0) params.sigma = raw.sigma;
+  if (raw.possession_value != null) params.possessionValue = raw.possession_value;
+  if (raw.power_play_value != null) params.powerPlayValue = raw.power_play_value;
+  if (raw.batting_value != null) params.battingValue = raw.batting_value;
+  return params;
+}
+
+/**
+ * Load every league's win-probability parameters from sss_sport_params.json,
+ * falling back to DEFAULT_WIN_PROB_PARAMS for anything missing.
+ */
+export function loadWinProbParams(configPath: string = CONFIG_PATH): Record<LeagueSport, WinProbParams> {
+  const params = { ...DEFAULT_WIN_PROB_PARAMS };
+  try {
+    if (!fs.existsSync(configPath)) return params;
+    const config = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+    for (const sport of Object.keys(params) as LeagueSport[]) {
+      params[sport] = parseWinProbParams(sport, config.sports?.[sport]?.win_prob);
+    }
+  } catch (err) {
+    console.error(`⚠️ Failed to load win-probability params from ${configPath}:`, err);
+  }
+  return params;
+}
+
+// ============================================================================
+// FAIR VALUE SOURCE
+// ============================================================================
+
+/**
+ * What WinProbabilityFairValue needs from the game tracker
+ * (GameEventConfirmation provides both).
+ */
+export interface GameStateSource {
+  getGameState(marketSlug: string): GameState | undefined;
+  /** Team tricode behind a token ("" if unmappable) */
+  resolveTokenTricode(market: SportsMarket, tokenId: string): string;
+}
+
+/**
+ * In-game fair value for ShockFadeLive's fair-value gate: the model's win
+ * probability for the token's team at the current game state.
+ *
+ * The pre-game prior is taken once per market — from `priorSource` (e.g.
+ * Pinnacle) while the game has not started, else from the market's
+ * Polymarket outcome prices — and reused for the rest of the game. Start the
+ * gate before tip-off so the prior is a pre-game one.
+ */
+export class WinProbabilityFairValue implements FairValueSource {
+  private games: GameStateSource;
+  private priorSource: FairValueSource | null;
+  private params: Record<LeagueSport, WinProbParams>;
+  private priors: Map<string, number> = new Map(); // marketSlug → pre-game home win probability
+
+  constructor(
+    games: GameStateSource,
+    priorSource: FairValueSource | null = null,
+    params: Record<LeagueSport, WinProbParams> = loadWinProbParams(),
+  ) {
+    this.games = games;
+    this.priorSource = priorSource;
+    this.params = params;
+  }
+
+  /** Pin the pre-game home win probability for a market (e.g. from a replay) */
+  setPregamePrior(marketSlug: string, homeProb: number): void {
+    this.priors.set(marketSlug, homeProb);
+  }
+
+  getPregamePrior(marketSlug: string): number | undefined {
+    return this.priors.get(marketSlug);
+  }
+
+  /**
+   * Fair probability of the outcome behind `tokenId` (FairValueSource).
+   * Returns null without a game state, a home/away token mapping or a prior.
+   */
+  async getFairValue(market: SportsMarket, tokenId: string): Promise<number | null> {
+    const state = this.games.getGameState(market.marketSlug);
+    if (!state) return null;
+
+    const homeIdx = this.homeTokenIndex(market, state);
+    const idx = market.tokenIds.indexOf(tokenId);
+    if (homeIdx < 0 || idx < 0 || idx > 1) return null;
+
+    const prior = await this.resolvePrior(market, state, homeIdx);
+    if (prior === null) return null;
+
+    const pHome = homeWinProbability(state, prior, this.params[state.sport]);
+    return toFairPrice(idx === homeIdx ? pHome : 1 - pHome);
+  }
+
+  /** Index of the home team's token, -1 if neither token maps to a team in the game */
+  private homeTokenIndex(market: SportsMarket, state: GameState): number {
+    const home = state.home.abbrev.toUpperCase();
+    const away = state.away.abbrev.toUpperCase();
+    for (let i = 0; i < Math.min(2, market.tokenIds.length); i++) {
+      const tricode = this.games.resolveTokenTricode(market, market.tokenIds[i]);
+      if (tricode === home) return i;
+      if (tricode === away) return 1 - i;
+    }
+    return -1;
+  }
+
+  private async resolvePrior(market: SportsMarket, state: GameState, homeIdx: number): Promise<number | null> {
+    const cached = this.priors.get(market.marketSlug);
+    if (cached !== undefined) return cached;
+
+    let prior: number | null = null;
+    // Only a pre-game quote is a prior — in-play odds already contain the score
+    if (this.priorSource && state.status === "pre") {
+      prior = await this.priorSource.getFairValue(market, market.tokenIds[homeIdx]).catch(() => null);
+    }
+    if (prior === null) {
+      const price = market.outcomePrices[homeIdx];
+      prior = price > 0 && price < 1 ? price : null;
+    }
+    if (prior !== null) this.priors.set(market.marketSlug, prior);
+    return prior;
+  }
+}
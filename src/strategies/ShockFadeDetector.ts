@@ -3,8 +3,16 @@
  *
  * Consumes real-time OrderBookWebSocket events and detects shocks via:
  * 1. Rolling 60s window of mid-price changes per token
- * 2. Z-score detection: price moves > N standard deviations
- * 3. Absolute move detection: price moves > X cents as backup
+ * 2. Pluggable ShockModels (see ShockModels.ts), selectable per sport. The
+ *    default "zscore" model is the original logic: price moves > N standard
+ *    deviations, or > X cents absolute as backup. Any enabled model firing
+ *    triggers a shock; ShockEvent.models records which ones did.
+ * 3. Trade-flow confirmation (optional): the move must be backed by N shares
+ *    of aggressive volume in the shock direction, so a quote flicker on a thin
+ *    book doesn't count as a sweep. Volume comes from last_trade_price prints
+ *    ("lastTrade"), not price_changes; a print that lands up to
+ *    takerConfirmGraceMs after the tick still confirms the move.
+ *    ShockEvent.takerVolume records it.
  *
  * After shock, monitors free league APIs for game event confirmation (10-20s later).
  * Classifies shocks as: single_event (fadeable), scoring_run (don't fade), structural (don't fade).
@@ -12,9 +20,20 @@
 
 import { EventEmitter } from "events";
 import {
-  OrderBookWebSocket,
+  MarketDataFeed,
   PriceUpdateEvent,
+  TradeEvent,
 } from "../services/OrderBookWS";
+import {
+  PriceTick,
+  ShockModel,
+  ShockModelName,
+  ShockModelParams,
+  ShockSignal,
+  DEFAULT_SHOCK_MODEL_PARAMS,
+  createShockModels,
+  rollingZScore,
+} from "./ShockModels";
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -31,6 +50,12 @@ export interface ShockEvent {
   currentPrice: number; // price at shock detection
   timestamp: number;
   classification?: ShockClassification;
+  /** Shock models that fired on this tick */
+  models?: ShockModelName[];
+  /** Score per fired model (σ, CUSUM S/h or flow imbalance) */
+  modelScores?: Partial<Record<ShockModelName, number>>;
+  /** Taker shares traded in the shock direction within takerVolumeWindowMs */
+  takerVolume?: number;
 }
 
 export type ShockClassification =
@@ -50,19 +75,42 @@ export interface ShockFadeConfig {
   maxPositionSize: number; // default 100 (USDC per level)
   cooldownMs: number; // default 30000 (30s between shocks on same market)
   targetPriceRange: [number, number]; // default [0.07, 0.91]
+  shockModels?: ShockModelName[]; // default ["zscore"]
+  shockModelsBySport?: Record<string, ShockModelName[]>; // per-sport override, e.g. { NHL: ["cusum", "flow"] }
+  shockModelParams?: Partial<ShockModelParams>; // thresholds for the non-default models
+  minTakerVolume?: number; // shares of aggressive volume required to confirm, default 0 (off)
+  takerVolumeWindowMs?: number; // lookback for taker volume, default 10000
+  takerConfirmGraceMs?: number; // how long an unconfirmed move waits for prints, default 2000
 }
 
-/** Internal price tick stored in rolling window */
-interface PriceTick {
-  mid: number;
+/** Taker print kept for volume confirmation */
+interface TakerPrint {
+  size: number;
+  side: "buy" | "sell";
   timestamp: number;
 }
 
+/** A move the models fired on, before the taker-volume check */
+interface ShockCandidate {
+  direction: "up" | "down";
+  magnitude: number;
+  zScore: number;
+  preShockPrice: number;
+  currentPrice: number;
+  signals: ShockSignal[];
+  /** Latest tick that fired (start of the confirmation grace window) */
+  detectedAt: number;
+}
+
 /** Per-token tracking state */
 interface TokenState {
   ticks: PriceTick[];
   lastShockTs: number;
   marketSlug: string;
+  models: ShockModel[];
+  trades: TakerPrint[];
+  /** Unconfirmed move waiting for prints */
+  pending: ShockCandidate | null;
 }
 
 // ============================================================================
@@ -80,6 +128,10 @@ export const DEFAULT_SHOCK_FADE_CONFIG: ShockFadeConfig = {
   maxPositionSize: 100,
   cooldownMs: 30000,
   targetPriceRange: [0.07, 0.91],
+  shockModels: ["zscore"],
+  minTakerVolume: 0,
+  takerVolumeWindowMs: 10000,
+  takerConfirmGraceMs: 2000,
 };
 
 // ============================================================================
@@ -89,16 +141,27 @@ export const DEFAULT_SHOCK_FADE_CONFIG: ShockFadeConfig = {
 export class ShockFadeDetector extends EventEmitter {
   private config: ShockFadeConfig;
   private tokenStates: Map<string, TokenState> = new Map();
-  private ws: OrderBookWebSocket;
+  private ws: MarketDataFeed;
   private shockLog: ShockEvent[] = [];
 
   // Mapping token → market slug
   private tokenToMarket: Map<string, string> = new Map();
+  // Mapping token → sport (selects shock models)
+  private tokenToSport: Map<string, string> = new Map();
 
-  constructor(ws: OrderBookWebSocket, config: Partial<ShockFadeConfig> = {}) {
+  // Shared by reference with every model instance (hot reload)
+  private modelParams: ShockModelParams;
+
+  constructor(ws: MarketDataFeed, config: Partial<ShockFadeConfig> = {}) {
     super();
     this.ws = ws;
     this.config = { ...DEFAULT_SHOCK_FADE_CONFIG, ...config };
+    this.modelParams = {
+      ...DEFAULT_SHOCK_MODEL_PARAMS,
+      ...this.config.shockModelParams,
+      sigmaThreshold: this.config.sigmaThreshold,
+      minAbsoluteMove: this.config.minAbsoluteMove,
+    };
   }
 
   // ============================================================================
@@ -112,6 +175,7 @@ export class ShockFadeDetector extends EventEmitter {
     this.ws.on("priceUpdate", (event: PriceUpdateEvent) =>
       this.handlePriceUpdate(event),
     );
+    this.ws.on("lastTrade", (event: TradeEvent) => this.handleTrade(event));
     this.log("ShockFadeDetector started");
     this.log(
       `  σ threshold: ${this.config.sigmaThreshold}, min absolute: ${(this.config.minAbsoluteMove * 100).toFixed(0)}¢`,
@@ -122,6 +186,16 @@ export class ShockFadeDetector extends EventEmitter {
     this.log(
       `  target price range: [${this.config.targetPriceRange[0]}, ${this.config.targetPriceRange[1]}]`,
     );
+    const bySport = Object.entries(this.config.shockModelsBySport ?? {})
+      .map(([sport, models]) => `${sport}=${models.join("+")}`)
+      .join(", ");
+    this.log(`  shock models: ${(this.config.shockModels ?? ["zscore"]).join("+")}${bySport ? ` (${bySport})` : ""}`);
+    if (this.config.minTakerVolume) {
+      this.log(
+        `  taker volume confirmation: ≥${this.config.minTakerVolume} shares in ${(this.config.takerVolumeWindowMs ?? 10000) / 1000}s ` +
+          `(grace ${(this.config.takerConfirmGraceMs ?? 2000) / 1000}s)`,
+      );
+    }
   }
 
   /**
@@ -137,6 +211,7 @@ export class ShockFadeDetector extends EventEmitter {
       "sigmaThreshold", "minAbsoluteMove", "cooldownMs",
       "rollingWindowMs", "ladderSpacing", "fadeTargetCents",
       "ladderLevels", "fadeWindowMs", "maxPositionSize",
+      "minTakerVolume", "takerVolumeWindowMs", "takerConfirmGraceMs",
     ];
     for (const key of fields) {
       if (patch[key] !== undefined && patch[key] !== this.config[key]) {
@@ -153,29 +228,49 @@ export class ShockFadeDetector extends EventEmitter {
         this.config.targetPriceRange = patch.targetPriceRange;
       }
     }
+    this.modelParams.sigmaThreshold = this.config.sigmaThreshold;
+    this.modelParams.minAbsoluteMove = this.config.minAbsoluteMove;
     return changes;
   }
 
-  registerToken(tokenId: string, marketSlug: string): void {
+  /**
+   * Register a token with its market slug for tracking. `sport` selects the
+   * shock models (default: the slug prefix, e.g. "nhl-…" → NHL).
+   */
+  registerToken(tokenId: string, marketSlug: string, sport?: string): void {
     this.tokenToMarket.set(tokenId, marketSlug);
+    this.tokenToSport.set(tokenId, (sport ?? marketSlug.split("-")[0]).toUpperCase());
     if (!this.tokenStates.has(tokenId)) {
-      this.tokenStates.set(tokenId, {
-        ticks: [],
-        lastShockTs: 0,
-        marketSlug,
-      });
+      this.tokenStates.set(tokenId, this.newTokenState(tokenId, marketSlug));
     }
   }
 
   /**
    * Register multiple tokens for a market.
    */
-  registerMarketTokens(tokenIds: string[], marketSlug: string): void {
+  registerMarketTokens(tokenIds: string[], marketSlug: string, sport?: string): void {
     for (const tokenId of tokenIds) {
-      this.registerToken(tokenId, marketSlug);
+      this.registerToken(tokenId, marketSlug, sport);
     }
   }
 
+  /** Models enabled for a sport: per-sport override, else the default list. */
+  getModelsForSport(sport: string): ShockModelName[] {
+    return this.config.shockModelsBySport?.[sport.toUpperCase()] ?? this.config.shockModels ?? ["zscore"];
+  }
+
+  private newTokenState(tokenId: string, marketSlug: string): TokenState {
+    const sport = this.tokenToSport.get(tokenId) ?? marketSlug.split("-")[0].toUpperCase();
+    return {
+      ticks: [],
+      lastShockTs: 0,
+      marketSlug,
+      models: createShockModels(this.getModelsForSport(sport), this.modelParams),
+      trades: [],
+      pending: null,
+    };
+  }
+
   /**
    * Check if a market is already registered for shock detection.
    */
@@ -193,6 +288,41 @@ export class ShockFadeDetector extends EventEmitter {
   // Market-level dedup: only emit one shock per market per cooldown window
   private lastMarketShockTs: Map<string, number> = new Map();
 
+  private handleTrade(event: TradeEvent): void {
+    const state = this.tokenStates.get(event.tokenId);
+    if (!state || !this.tokenToMarket.has(event.tokenId)) return;
+    for (const model of state.models) model.onTrade?.(event);
+
+    state.trades.push({ size: event.tradeSize, side: event.side, timestamp: event.timestamp });
+    const cutoff = event.timestamp - (this.config.takerVolumeWindowMs ?? 10000);
+    if (state.trades[0].timestamp < cutoff) {
+      state.trades = state.trades.filter((t) => t.timestamp >= cutoff);
+    }
+
+    // A print that trails the price tick can still confirm the move
+    const pending = state.pending;
+    if (!pending || event.timestamp - pending.detectedAt > (this.config.takerConfirmGraceMs ?? 2000)) return;
+    const takerVolume = this.getTakerVolume(state, pending.direction, event.timestamp);
+    if (takerVolume >= (this.config.minTakerVolume ?? 0)) {
+      state.pending = null;
+      this.emitShock(event.tokenId, state, pending, takerVolume, event.timestamp);
+    }
+  }
+
+  /**
+   * Aggressive volume in a direction within the window ending at `now`:
+   * taker buys lift a token up, taker sells knock it down.
+   */
+  private getTakerVolume(state: TokenState, direction: "up" | "down", now: number): number {
+    const cutoff = now - (this.config.takerVolumeWindowMs ?? 10000);
+    const side = direction === "up" ? "buy" : "sell";
+    let volume = 0;
+    for (const t of state.trades) {
+      if (t.side === side && t.timestamp >= cutoff && t.timestamp <= now) volume += t.size;
+    }
+    return volume;
+  }
+
   private handlePriceUpdate(event: PriceUpdateEvent): void {
     const { tokenId, bid, ask, timestamp } = event;
 
@@ -218,7 +348,7 @@ export class ShockFadeDetector extends EventEmitter {
     // Get or create token state
     let state = this.tokenStates.get(tokenId);
     if (!state) {
-      state = { ticks: [], lastShockTs: 0, marketSlug };
+      state = this.newTokenState(tokenId, marketSlug);
       this.tokenStates.set(tokenId, state);
     }
 
@@ -229,34 +359,64 @@ export class ShockFadeDetector extends EventEmitter {
     const windowStart = timestamp - this.config.rollingWindowMs;
     state.ticks = state.ticks.filter((t) => t.timestamp >= windowStart);
 
-    // Need at least 5 ticks to calculate meaningful stats
-    if (state.ticks.length < 5) return;
-
-    // Calculate rolling statistics
-    const returns = this.calculateReturns(state.ticks);
-    if (returns.length < 3) return;
-
-    const { mean, stddev } = this.calculateStats(returns);
-
-    // Latest return
-    const latestReturn = returns[returns.length - 1];
-    const zScore = stddev > 0 ? (latestReturn - mean) / stddev : 0;
+    // Every model sees every tick (they keep their own state), even in cooldown
+    const signals: ShockSignal[] = [];
+    for (const model of state.models) {
+      const signal = model.onPrice(state.ticks);
+      if (signal) signals.push(signal);
+    }
+    if (signals.length === 0) {
+      // The move is over; a pending one only lives out its grace window
+      if (state.pending && timestamp - state.pending.detectedAt > (this.config.takerConfirmGraceMs ?? 2000)) {
+        state.pending = null;
+      }
+      return;
+    }
 
-    // Pre-shock price (tick before latest)
-    const preShockPrice = state.ticks[state.ticks.length - 2].mid;
+    // Largest move wins: it sets the pre-shock price and direction
     const currentPrice = mid;
-    const absoluteMove = Math.abs(currentPrice - preShockPrice);
-
-    // Check for shock conditions
-    const isZScoreShock = Math.abs(zScore) >= this.config.sigmaThreshold;
-    const isAbsoluteShock = absoluteMove >= this.config.minAbsoluteMove;
-
-    if (!isZScoreShock && !isAbsoluteShock) return;
+    const lead = signals.reduce((best, s) =>
+      Math.abs(currentPrice - s.referencePrice) > Math.abs(currentPrice - best.referencePrice) ? s : best,
+    );
+    const preShockPrice = lead.referencePrice;
+    const candidate: ShockCandidate = {
+      direction: currentPrice === preShockPrice ? lead.direction : currentPrice > preShockPrice ? "up" : "down",
+      magnitude: Math.abs(currentPrice - preShockPrice),
+      zScore: rollingZScore(state.ticks) ?? lead.score,
+      preShockPrice,
+      currentPrice,
+      signals,
+      detectedAt: timestamp,
+    };
 
     // Check cooldown
     const timeSinceLastShock = timestamp - state.lastShockTs;
     if (timeSinceLastShock < this.config.cooldownMs) return;
 
+    // Trade-flow confirmation: a quote flicker with no prints behind it is not a shock
+    const takerVolume = this.getTakerVolume(state, candidate.direction, timestamp);
+    const minTakerVolume = this.config.minTakerVolume ?? 0;
+    if (takerVolume < minTakerVolume) {
+      // Log once per move; later ticks of the same move restart the grace window
+      const sameMove = state.pending?.direction === candidate.direction;
+      state.pending = candidate;
+      if (!sameMove) {
+        this.log(
+          `🔇 Unconfirmed move: ${marketSlug} ${candidate.direction.toUpperCase()} ${(candidate.magnitude * 100).toFixed(1)}¢ — ` +
+            `taker volume ${takerVolume.toFixed(0)} < ${minTakerVolume} shares, waiting ${(this.config.takerConfirmGraceMs ?? 2000) / 1000}s for prints`,
+        );
+      }
+      return;
+    }
+
+    state.pending = null;
+    this.emitShock(tokenId, state, candidate, takerVolume, timestamp);
+  }
+
+  private emitShock(tokenId: string, state: TokenState, candidate: ShockCandidate, takerVolume: number, timestamp: number): void {
+    const { marketSlug } = state;
+    const { direction, magnitude, zScore, preShockPrice, currentPrice, signals } = candidate;
+
     // Shock detected!
     state.lastShockTs = timestamp;
 
@@ -265,19 +425,20 @@ export class ShockFadeDetector extends EventEmitter {
     if (timestamp - lastMarketShock < this.config.cooldownMs) return;
     this.lastMarketShockTs.set(marketSlug, timestamp);
 
-    const direction: "up" | "down" = currentPrice > preShockPrice ? "up" : "down";
-
     const shockEvent: ShockEvent = {
       type: "shock",
       tokenId,
       marketSlug,
       direction,
-      magnitude: absoluteMove,
+      magnitude,
       zScore: Math.abs(zScore),
       preShockPrice,
       currentPrice,
       timestamp,
       classification: "unclassified",
+      models: signals.map((s) => s.model),
+      modelScores: Object.fromEntries(signals.map((s) => [s.model, s.score])),
+      takerVolume,
     };
 
     this.shockLog.push(shockEvent);
@@ -289,8 +450,9 @@ export class ShockFadeDetector extends EventEmitter {
 
     this.log(
       `⚡ SHOCK DETECTED: ${marketSlug} ${direction.toUpperCase()} ` +
-        `${(absoluteMove * 100).toFixed(1)}¢ (z=${Math.abs(zScore).toFixed(1)}σ) ` +
-        `${(preShockPrice * 100).toFixed(0)}¢ → ${(currentPrice * 100).toFixed(0)}¢`,
+        `${(magnitude * 100).toFixed(1)}¢ (z=${Math.abs(zScore).toFixed(1)}σ) ` +
+        `${(preShockPrice * 100).toFixed(0)}¢ → ${(currentPrice * 100).toFixed(0)}¢ ` +
+        `[${shockEvent.models!.join("+")}] vol=${takerVolume.toFixed(0)}`,
     );
 
     // Emit shock event
@@ -332,35 +494,6 @@ export class ShockFadeDetector extends EventEmitter {
     return classification;
   }
 
-  // ============================================================================
-  // STATISTICS HELPERS
-  // ============================================================================
-
-  /**
-   * Calculate returns (price changes) from tick array.
-   */
-  private calculateReturns(ticks: PriceTick[]): number[] {
-    const returns: number[] = [];
-    for (let i = 1; i < ticks.length; i++) {
-      returns.push(ticks[i].mid - ticks[i - 1].mid);
-    }
-    return returns;
-  }
-
-  /**
-   * Calculate mean and standard deviation of an array.
-   */
-  private calculateStats(values: number[]): { mean: number; stddev: number } {
-    if (values.length === 0) return { mean: 0, stddev: 0 };
-
-    const mean = values.reduce((a, b) => a + b, 0) / values.length;
-    const variance =
-      values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
-    const stddev = Math.sqrt(variance);
-
-    return { mean, stddev };
-  }
-
   // ============================================================================
   // QUERIES
   // ============================================================================
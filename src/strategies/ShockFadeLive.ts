@@ -9,7 +9,9 @@
  *   5. Exit on next scoring event (market sell complement) or take-profit
  *   6. Scoring run protection: bail if 2+ same-team events detected
  *
- * Uses real infrastructure: SplitClient, MergeClient, PolymarketClient.
+ * Uses real infrastructure: SplitClient, MergeClient and an ExecutionVenue
+ * (PolymarketVenue in production; PaperVenue / ReplayExchange / MockClobVenue
+ * simulate the exchange behind the same LIVE code path).
  * Uses market.negRisk from SportsMarketDiscovery:
  *   - NBA/NHL/NFL/MLB moneylines (2-outcome): negRisk=false (regular CTF)
  *   - Soccer 3-way (Home/Draw/Away): negRisk=true (NegRisk adapter)
@@ -17,10 +19,9 @@
  */
 
 import { EventEmitter } from "events";
-import * as fs from "fs";
 import * as path from "path";
 import {
-  OrderBookWebSocket,
+  MarketDataFeed,
   PriceUpdateEvent,
 } from "../services/OrderBookWS";
 import {
@@ -29,11 +30,41 @@ import {
   ShockFadeConfig,
   DEFAULT_SHOCK_FADE_CONFIG,
 } from "./ShockFadeDetector";
-import { SplitClient } from "../services/SplitClient";
-import { MergeClient } from "../services/MergeClient";
-import { PolymarketClient } from "../services/PolymarketClient";
+import { CtfSplitter } from "../services/SplitClient";
+import { ShockFadeStateStore, STATE_MODEL, createStateStore } from "../services/ShockFadeStateStore";
+import { CtfMerger } from "../services/MergeClient";
+import { WinningShares } from "../services/RedemptionDaemon";
+import { GasAccounting } from "../services/GasAccounting";
+import { RiskEngine } from "../services/RiskEngine";
+import { CircuitBreakers } from "../services/CircuitBreakers";
+import { AlertRaiser, AlertSeverity } from "../services/Alerter";
+import { ExecutionVenue, VenueOrder } from "../services/ExecutionVenue";
+import {
+  OrderFill,
+  OrderJournal,
+  OrderState,
+  OrderStateMachine,
+  RejectedTransition,
+  isLiveOrderState,
+} from "../services/OrderStateMachine";
+import {
+  ReconcileToken,
+  ReconciliationReport,
+  checkOrder,
+  checkTokenBalance,
+  createReconciliationReport,
+  findUntrackedOrders,
+  formatReconciliationReport,
+  readReconciliationReport,
+  reconciliationReportPath,
+  unresolvedDiscrepancies,
+  writeReconciliationReport,
+} from "../services/StartupReconciliation";
 import { SportsMarket } from "../services/SportsMarketDiscovery";
-import { UserChannelWS, OrderFillEvent, OrderUpdateEvent } from "../services/UserChannelWS";
+import { OrderFillEvent, OrderUpdateEvent } from "../services/UserChannelWS";
+import { FairValueSource, PinnacleOddsClient } from "../services/PinnacleOddsClient";
+import { LateGameSource } from "../services/GameEventConfirmation";
+import { LateGamePolicy, describeLateGamePolicy, scaleLadderSize } from "../services/LateGamePolicy";
 
 // ============================================================================
 // TYPES
@@ -79,7 +110,7 @@ export interface CumulativeTP {
   createdAt: number;
 
   /** Status */
-  status: "WATCHING" | "PARTIAL" | "HIT" | "EVENT_EXIT" | "SCORING_RUN_BAIL" | "TIMEOUT" | "CLOSED";
+  status: "WATCHING" | "PARTIAL" | "HIT" | "EVENT_EXIT" | "SCORING_RUN_BAIL" | "MANUAL_EXIT" | "TIMEOUT" | "CLOSED";
 
   /** Weighted sum of entry: sum(shares_i * price_i) for blended calc */
   _weightedEntrySum: number;
@@ -123,7 +154,7 @@ export interface LivePosition {
   shockId: string;
 
   /** Status */
-  status: "OPEN" | "TAKE_PROFIT" | "EVENT_EXIT" | "SCORING_RUN_BAIL" | "TIMEOUT" | "CLOSED";
+  status: "OPEN" | "TAKE_PROFIT" | "EVENT_EXIT" | "SCORING_RUN_BAIL" | "MANUAL_EXIT" | "TIMEOUT" | "CLOSED";
 }
 
 export interface LiveLadderOrder {
@@ -135,13 +166,25 @@ export interface LiveLadderOrder {
   price: number;
   shares: number;
   level: number;           // 1, 2, or 3
-  status: "PENDING_PLACE" | "RESTING" | "FILLED" | "CANCELLED" | "FAILED";
+  status: OrderState;      // mirrored from OrderStateMachine — never set directly
+  filledShares: number;
   createdAt: number;
   filledAt: number | null;
   fillPrice: number | null;
   shockId: string;
 }
 
+/** Outcome of an operator flatten for one market */
+export interface FlattenResult {
+  marketSlug: string;
+  cancelledOrders: number;
+  closedPositions: number;
+  /** Still OPEN after the flatten — their sell failed, shares still held */
+  openPositions: number;
+  /** Inventory left after the merge (unbalanced shares can't merge) */
+  sharesLeft: { a: number; b: number };
+}
+
 export interface MarketInventory {
   marketSlug: string;
   conditionId: string;
@@ -154,6 +197,16 @@ export interface MarketInventory {
   negRisk: boolean; // false for 2-outcome moneylines, true for soccer 3-way / futures
 }
 
+/** A split decided by planPreSplit(), executed alone or in a batch */
+interface PreSplitPlan {
+  marketSlug: string;
+  conditionId: string;
+  tokenA: string;
+  tokenB: string;
+  amount: number;
+  negRisk: boolean;
+}
+
 export interface LiveTradeRecord {
   id: string;
   marketSlug: string;
@@ -163,8 +216,9 @@ export interface LiveTradeRecord {
   heldTokenId: string;
   exitPrice: number;
   exitShares: number;
-  pnl: number;
+  pnl: number;             // net of gasCost
   splitCost: number;
+  gasCost?: number;        // USD of on-chain gas charged to this trade (GasAccounting: refills, pre-split, merge, redeem)
   totalProceeds: number;
   entryTime: number;
   exitTime: number;
@@ -181,6 +235,7 @@ export interface LiveStats {
   totalPositionsClosed: number;
   totalPnL: number;
   totalSplitCost: number;
+  totalGasCost: number;
   totalProceeds: number;
   winCount: number;
   lossCount: number;
@@ -194,9 +249,12 @@ export interface ShockFadeLiveConfig extends ShockFadeConfig {
   maxConcurrentGames: number;  // max games with pre-split inventory (capital-limited)
   maxCyclesPerGame: number;    // max concurrent active cycles per game (default 1)
   maxConsecutiveLosses: number; // auto-stop after N losses (default 3)
-  maxSessionLoss: number;       // circuit breaker: stop if total loss > N (default $30)
+  maxSessionLoss: number;       // last-resort stop: halt every sport if total loss > N (default $30)
   ladderSizes: number[];        // shares per level (default [5, 10, 15])
   sellPriceMax: number;         // max sell price for ladders (default 0.85) — won't sell above this
+  fairValueGate: boolean;       // only ladder when the spike overshoots fair value (sportsbook or in-game model, default off)
+  fairValueMarginCents: number; // min overshoot above de-vigged fair value to trade (default 3¢)
+  fairValueRequired: boolean;   // skip when no fair value is available (default false = z-score only)
   /** @deprecated Use maxConcurrentGames + maxCyclesPerGame instead */
   maxConcurrentMarkets?: number;
 }
@@ -205,18 +263,31 @@ export interface ShockFadeLiveConfig extends ShockFadeConfig {
 const DEFAULT_LADDER_SIZES = [5, 10, 15];
 const DEFAULT_CYCLE_SIZE = DEFAULT_LADDER_SIZES.reduce((a, b) => a + b, 0); // 30
 
+// Settled orders stay in the order journal this long (late fills, stream repeats after a restart)
+const ORDER_JOURNAL_RETAIN_MS = 6 * 60 * 60 * 1000;
+
+// Trades / P&L entries kept in memory (dashboard, breakers); the SQLite store keeps all of them
+const TRADE_HISTORY_WINDOW = 500;
+const PNL_HISTORY_WINDOW = 500;
+
+/** Order journal lives next to the state file: foo.db → foo-orders.jsonl */
+export function orderJournalPath(statePath: string): string {
+  const ext = path.extname(statePath);
+  return `${ext ? statePath.slice(0, -ext.length) : statePath}-orders.jsonl`;
+}
+
 // ============================================================================
 // SHOCK FADE LIVE TRADER
 // ============================================================================
 
 export class ShockFadeLive extends EventEmitter {
   private config: ShockFadeLiveConfig;
-  private ws: OrderBookWebSocket;
+  private ws: MarketDataFeed;
 
   // Real clients
-  private splitClient: SplitClient;
-  private mergeClient: MergeClient;
-  private polyClient: PolymarketClient;
+  private splitClient: CtfSplitter;
+  private mergeClient: CtfMerger;
+  private venue: ExecutionVenue;
 
   // State
   private inventory: Map<string, MarketInventory> = new Map();
@@ -240,14 +311,22 @@ export class ShockFadeLive extends EventEmitter {
   // Price tracking
   private latestPrices: Map<string, { bid: number; ask: number; mid: number }> = new Map();
 
-  // P&L history for stats
+  // P&L history for stats — the last PNL_HISTORY_WINDOW entries, pnlCount ever recorded
   private pnlHistory: number[] = [];
+  private pnlCount = 0;
 
   // Safety state
   private consecutiveLosses: number = 0;
   private halted: boolean = false;
   private haltReason: string | null = null;
 
+  // Operator pause (LiveControl) — its own flag so a reconciliation hold or
+  // breaker halt clearing never lifts it; only resume() does
+  private pauseReason: string | null = null;
+
+  // Markets an operator flattened — no new cycles or refills until resumed
+  private blockedMarkets: Map<string, string> = new Map();
+
   // Per-market mutex for shock processing (prevents concurrent cycle creation)
   private marketLocks: Map<string, Promise<void>> = new Map();
   private activeMarketCount: number = 0;
@@ -262,6 +341,7 @@ export class ShockFadeLive extends EventEmitter {
 
   // Persistence
   private statePath: string;
+  private store: ShockFadeStateStore;
   private saveTimer: NodeJS.Timeout | null = null;
 
   // Timeouts for position fallback
@@ -270,28 +350,52 @@ export class ShockFadeLive extends EventEmitter {
   // Order fill polling
   private fillPollTimer: NodeJS.Timeout | null = null;
 
-  // User channel WebSocket for real-time fill detection
-  private userChannelWS: UserChannelWS | null = null;
-  private wsHandledOrderIds: Set<string> = new Set();  // orderId → already handled by WS (skip in polling)
+  // Single source of truth for order status (entries, TP, exits), journaled for crash replay
+  private orderMachine: OrderStateMachine;
+
+  // Startup reconciliation: trading stays halted while unsafe discrepancies await an operator
+  private reconciliation: ReconciliationReport | null = null;
+  private reconciliationHaltReason: string | null = null;
+  private reconciliationTimer: NodeJS.Timeout | null = null;
+  private reconciling: boolean = false;
+
+  // Game event tracker for the late-game policy
+  private gameEvents: LateGameSource | null = null;
+
+  // Sportsbook fair value for the shock gate (e.g. PinnacleOddsClient)
+  private fairValue: FairValueSource | null = null;
+
+  // Gas ledger + MATIC budget for splits/merges (direct execution pays gas)
+  private gas: GasAccounting | null = null;
+
+  // Portfolio worst-case limits on new ladders (sport / slate / team)
+  private risk: RiskEngine | null = null;
+
+  // Windowed loss / daily loss / drawdown breakers, per sport and portfolio-wide
+  private breakers: CircuitBreakers | null = null;
+  private stateLoaded = false;
 
-  // Game event tracker for late-game filtering
-  private gameEvents: any = null;  // GameEventConfirmation instance (from run script)
+  // Operator alerts (halts, stale positions, extreme-price exits)
+  private alerter: AlertRaiser | null = null;
 
   constructor(
-    ws: OrderBookWebSocket,
-    splitClient: SplitClient,
-    mergeClient: MergeClient,
-    polyClient: PolymarketClient,
+    ws: MarketDataFeed,
+    splitClient: CtfSplitter,
+    mergeClient: CtfMerger,
+    venue: ExecutionVenue,
     config: Partial<ShockFadeLiveConfig> = {},
-    statePath: string = "./data/shock-fade-live-state.json",
-    userChannelWS?: UserChannelWS,
+    statePath: string = "./data/shock-fade-live.db",
   ) {
     super();
     this.ws = ws;
     this.splitClient = splitClient;
     this.mergeClient = mergeClient;
-    this.polyClient = polyClient;
+    this.venue = venue;
     this.statePath = statePath;
+    this.store = createStateStore(statePath);
+    this.orderMachine = new OrderStateMachine(new OrderJournal(orderJournalPath(statePath)));
+    this.orderMachine.on("rejected", (r: RejectedTransition) =>
+      this.log(`⚠️ [ORDER] Rejected ${r.event} on ${r.key} (${r.from ?? "untracked"}): ${r.reason}`));
 
     this.config = {
       ...DEFAULT_SHOCK_FADE_CONFIG,
@@ -303,6 +407,9 @@ export class ShockFadeLive extends EventEmitter {
       maxSessionLoss: 30,
       ladderSizes: DEFAULT_LADDER_SIZES,
       sellPriceMax: 0.85,  // Default: won't place ladders selling above 85¢
+      fairValueGate: false,
+      fairValueMarginCents: 3,
+      fairValueRequired: false,
       ...config,
     };
 
@@ -311,11 +418,6 @@ export class ShockFadeLive extends EventEmitter {
       this.config.maxConcurrentGames = config.maxConcurrentMarkets;
     }
 
-    // Store optional user channel WS for real-time fills
-    if (userChannelWS) {
-      this.userChannelWS = userChannelWS;
-    }
-
     this.ladderSizes = this.config.ladderSizes;
     this.cycleSize = this.ladderSizes.reduce((a, b) => a + b, 0);
     // Pre-split: (maxCycles × cycleSize) + L1 cushion
@@ -333,6 +435,7 @@ export class ShockFadeLive extends EventEmitter {
       totalPositionsClosed: 0,
       totalPnL: 0,
       totalSplitCost: 0,
+      totalGasCost: 0,
       totalProceeds: 0,
       winCount: 0,
       lossCount: 0,
@@ -355,6 +458,8 @@ export class ShockFadeLive extends EventEmitter {
 
     // Load persisted state
     this.loadState();
+    this.stateLoaded = true;
+    this.breakers?.seed(this.pnlHistory);
 
     // Periodic save
     this.saveTimer = setInterval(() => this.saveState(), 30000);
@@ -370,21 +475,21 @@ export class ShockFadeLive extends EventEmitter {
       }, 5000);
     }
 
-    // Wire UserChannelWS for real-time fill detection (live mode only)
-    if (this.userChannelWS && !this.config.dryRun) {
-      this.userChannelWS.on("orderFill", (fill: OrderFillEvent) => {
-        this.handleUserChannelFill(fill.orderId, fill.price, fill.size, fill.status).catch(err => {
+    // Wire the venue's fill stream for real-time fill detection (live mode only)
+    if (!this.config.dryRun) {
+      this.venue.on("orderFill", (fill: OrderFillEvent) => {
+        this.handleUserChannelFill(fill.orderId, fill.tradeId, fill.price, fill.size, fill.status).catch(err => {
           this.log(`⚠️ [WS] Fill handler error: ${err?.message || err}`);
         });
       });
 
-      this.userChannelWS.on("orderUpdate", (update: OrderUpdateEvent) => {
+      this.venue.on("orderUpdate", (update: OrderUpdateEvent) => {
         if (update.type === "CANCELLATION") {
           this.handleUserChannelCancellation(update.orderId);
         }
       });
 
-      this.log("📡 UserChannelWS wired for real-time fill detection");
+      this.log(`📡 ${this.venue.name} fill stream wired for real-time fill detection`);
     }
 
     const modeTag = this.config.dryRun ? "[DRY-RUN]" : "⚠️  [LIVE — REAL MONEY] ⚠️";
@@ -409,6 +514,10 @@ export class ShockFadeLive extends EventEmitter {
       clearInterval(this.fillPollTimer);
       this.fillPollTimer = null;
     }
+    if (this.reconciliationTimer) {
+      clearInterval(this.reconciliationTimer);
+      this.reconciliationTimer = null;
+    }
     // Clear position timeouts
     for (const timer of this.positionTimeouts.values()) {
       clearTimeout(timer);
@@ -446,13 +555,60 @@ export class ShockFadeLive extends EventEmitter {
   }
 
   /**
-   * Set GameEventConfirmation instance for late-game filtering.
+   * Set the game tracker used for the late-game policy (GameEventConfirmation).
    * Called from run script after gameEvents is initialized.
    */
-  setGameEvents(gameEvents: any): void {
+  setGameEvents(gameEvents: LateGameSource | null): void {
     this.gameEvents = gameEvents;
   }
 
+  /**
+   * Set the fair-value source used by the shock gate (PinnacleOddsClient or
+   * WinProbabilityFairValue).
+   * Has no effect unless config.fairValueGate is on.
+   */
+  setFairValueSource(source: FairValueSource | null): void {
+    this.fairValue = source;
+  }
+
+  /**
+   * Set the gas ledger. Split, merge and redeem gas is recorded against the
+   * market. A closing trade carries its cycle's refill gas plus the market's
+   * pre-split and untagged refills since the last close; merge / redemption
+   * gas is booked onto the market's last trade (chargeLateGas). New splits
+   * wait while the ledger's budget says so.
+   */
+  setGasAccounting(gas: GasAccounting | null): void {
+    this.gas = gas;
+  }
+
+  /**
+   * Set the portfolio risk engine. Each new ladder is checked against its
+   * worst-case limits and placed in full, shrunk, or skipped.
+   */
+  setRiskEngine(risk: RiskEngine | null): void {
+    this.risk = risk;
+  }
+
+  /**
+   * Set the time-windowed circuit breakers. Every closed trade is recorded
+   * with its sport; a tripped sport stops new cycles in that sport only.
+   * Their portfolio curve is seeded from the restored pnlHistory — here if
+   * state is already loaded, otherwise by start() once it is.
+   */
+  setCircuitBreakers(breakers: CircuitBreakers | null): void {
+    this.breakers = breakers;
+    if (this.stateLoaded) breakers?.seed(this.pnlHistory);
+  }
+
+  /**
+   * Set the operator alerter. Halts, stale positions and extreme-price exits
+   * are raised on it as well as logged.
+   */
+  setAlerter(alerter: AlertRaiser | null): void {
+    this.alerter = alerter;
+  }
+
   /**
    * Get the number of games currently with pre-split inventory.
    */
@@ -475,6 +631,104 @@ export class ShockFadeLive extends EventEmitter {
    * Call this when game starts (or shortly before). Takes 10-11s on-chain.
    */
   async preSplitForMarket(marketSlug: string): Promise<boolean> {
+    const results = await this.preSplitForMarkets([marketSlug]);
+    return results.get(marketSlug) ?? false;
+  }
+
+  /**
+   * Pre-split several markets at once (startup, busy slates). The splits go
+   * out as one batched Safe transaction; each market succeeds or fails on
+   * its own. Does not check the game limit — pick markets with
+   * canPreSplitForGame() first.
+   */
+  async preSplitForMarkets(marketSlugs: string[]): Promise<Map<string, boolean>> {
+    const results = new Map<string, boolean>();
+    const splits: PreSplitPlan[] = [];
+    for (const marketSlug of marketSlugs) {
+      const plan = await this.planPreSplit(marketSlug);
+      if (typeof plan === "boolean") results.set(marketSlug, plan);
+      else splits.push(plan);
+    }
+    if (splits.length === 0) return results;
+
+    // Gas budget: no new splits while MATIC is low or today's gas is over the cap
+    if (!this.config.dryRun && this.gas) {
+      const paused = await this.gas.checkSplitBudget();
+      if (paused) {
+        this.log(`⛽ Pre-split paused — ${paused}`);
+        for (const p of splits) results.set(p.marketSlug, false);
+        return results;
+      }
+    }
+
+    // Verify USDC balance before splitting (live mode)
+    if (!this.config.dryRun) {
+      const total = splits.reduce((sum, p) => sum + p.amount, 0);
+      const hasBalance = await this.verifyUSDCBalance(total);
+      if (!hasBalance) {
+        this.log(`❌ Cannot split — insufficient USDC balance`);
+        for (const p of splits) results.set(p.marketSlug, false);
+        return results;
+      }
+    }
+
+    if (this.config.dryRun) {
+      for (const p of splits) {
+        this.log(`  [DRY-RUN] Would split $${p.amount}`);
+        this.recordInventory(p.marketSlug, p.conditionId, p.tokenA, p.tokenB, p.amount, p.negRisk);
+        results.set(p.marketSlug, true);
+      }
+      return results;
+    }
+
+    if (splits.length === 1) {
+      const [p] = splits;
+      try {
+        const result = await this.splitClient.split(p.conditionId, p.amount, p.negRisk);
+
+        if (!result.success) {
+          this.log(`❌ Split failed for ${p.marketSlug}: ${result.error}`);
+          results.set(p.marketSlug, false);
+          return results;
+        }
+
+        this.log(`✅ Split $${p.amount} → ${p.amount} shares each side (tx: ${result.transactionHash?.slice(0, 10)}…)`);
+        this.gas?.record("SPLIT", p.marketSlug, result.gasCostMatic, result.transactionHash);
+        this.recordInventory(p.marketSlug, p.conditionId, p.tokenA, p.tokenB, p.amount, p.negRisk);
+        results.set(p.marketSlug, true);
+      } catch (err: any) {
+        this.log(`❌ Split error for ${p.marketSlug}: ${err?.message || err}`);
+        results.set(p.marketSlug, false);
+      }
+      return results;
+    }
+
+    const batch = await this.splitClient.splitBatch(splits.map((p) => ({
+      conditionId: p.conditionId,
+      amount: p.amount,
+      negRisk: p.negRisk,
+      ref: p.marketSlug,
+    })));
+    batch.results.forEach((r, i) => {
+      const p = splits[i];
+      this.gas?.record("SPLIT", p.marketSlug, r.gasCostMatic, r.transactionHash);
+      if (!r.success) {
+        this.log(`❌ Split failed for ${p.marketSlug}: ${r.error}`);
+        results.set(p.marketSlug, false);
+        return;
+      }
+      this.log(`✅ Split $${p.amount} → ${p.amount} shares each side for ${p.marketSlug} (tx: ${r.transactionHash?.slice(0, 10)}…, batch of ${r.batchSize})`);
+      this.recordInventory(p.marketSlug, p.conditionId, p.tokenA, p.tokenB, p.amount, p.negRisk);
+      results.set(p.marketSlug, true);
+    });
+    return results;
+  }
+
+  /**
+   * Everything before the split: game-decided checks, on-chain balance sync,
+   * budget. Returns the split to make, or the final answer when none is needed.
+   */
+  private async planPreSplit(marketSlug: string): Promise<PreSplitPlan | boolean> {
     const market = this.marketMeta.get(marketSlug);
     if (!market || !market.conditionId) {
       this.log(`❌ Cannot pre-split: no market/conditionId for ${marketSlug}`);
@@ -487,6 +741,16 @@ export class ShockFadeLive extends EventEmitter {
       return false;
     }
 
+    // Skip while an operator has trading paused or this market flattened
+    if (this.pauseReason) {
+      this.log(`⏭️ Skipping pre-split for ${marketSlug} — paused (${this.pauseReason})`);
+      return false;
+    }
+    if (this.blockedMarkets.has(marketSlug)) {
+      this.log(`⏭️ Skipping pre-split for ${marketSlug} — blocked (${this.blockedMarkets.get(marketSlug)})`);
+      return false;
+    }
+
     // Skip if game is already decided — check LIVE WS prices first, then discovery prices
     if (market.tokenIds?.length >= 2) {
       const priceA = this.latestPrices.get(market.tokenIds[0]);
@@ -514,8 +778,8 @@ export class ShockFadeLive extends EventEmitter {
     let onChainShares = 0;
     if (!this.config.dryRun && market.tokenIds[0]) {
       try {
-        const balA = await this.polyClient.getTokenBalance(market.tokenIds[0]);
-        const balB = await this.polyClient.getTokenBalance(market.tokenIds[1]);
+        const balA = await this.venue.getTokenBalance(market.tokenIds[0]);
+        const balB = await this.venue.getTokenBalance(market.tokenIds[1]);
         onChainShares = Math.min(balA, balB);
         if (onChainShares >= this.preSplitSize) {
           this.log(`💧 On-chain balance: ${balA}A/${balB}B for ${marketSlug} (need ${this.preSplitSize}), skipping split`);
@@ -555,37 +819,14 @@ export class ShockFadeLive extends EventEmitter {
 
     const negRisk = market.negRisk;
     this.log(`💧 Pre-splitting $${splitAmount} for ${marketSlug} (conditionId: ${market.conditionId.slice(0, 10)}…, negRisk=${negRisk})`);
-
-    // Verify USDC balance before splitting (live mode)
-    if (!this.config.dryRun) {
-      const hasBalance = await this.verifyUSDCBalance(splitAmount);
-      if (!hasBalance) {
-        this.log(`❌ Cannot split — insufficient USDC balance`);
-        return false;
-      }
-    }
-
-    if (this.config.dryRun) {
-      this.log(`  [DRY-RUN] Would split $${splitAmount}`);
-      this.recordInventory(marketSlug, market.conditionId, market.tokenIds[0], market.tokenIds[1], splitAmount, negRisk);
-      return true;
-    }
-
-    try {
-      const result = await this.splitClient.split(market.conditionId, splitAmount, negRisk);
-
-      if (!result.success) {
-        this.log(`❌ Split failed for ${marketSlug}: ${result.error}`);
-        return false;
-      }
-
-      this.log(`✅ Split $${splitAmount} → ${splitAmount} shares each side (tx: ${result.transactionHash?.slice(0, 10)}…)`);
-      this.recordInventory(marketSlug, market.conditionId, market.tokenIds[0], market.tokenIds[1], splitAmount, negRisk);
-      return true;
-    } catch (err: any) {
-      this.log(`❌ Split error for ${marketSlug}: ${err?.message || err}`);
-      return false;
-    }
+    return {
+      marketSlug,
+      conditionId: market.conditionId,
+      tokenA: market.tokenIds[0],
+      tokenB: market.tokenIds[1],
+      amount: splitAmount,
+      negRisk,
+    };
   }
 
   private recordInventory(
@@ -633,8 +874,13 @@ export class ShockFadeLive extends EventEmitter {
    * Logic: when min(sharesA, sharesB) ≤ refillThreshold (cycleSize=35),
    * trigger a background split of refillAmount ($35) to top up.
    * Guard prevents concurrent refills for the same market.
+   *
+   * `cycleId` is the cycle whose fill drew the inventory down: the refill's
+   * gas is charged to that cycle's P&L. Refills after a cycle closes (or
+   * mined after it closed) restock the market for later cycles: their gas
+   * goes to the market's next closing trade.
    */
-  private async checkAndRefill(marketSlug: string): Promise<void> {
+  private async checkAndRefill(marketSlug: string, cycleId?: string): Promise<void> {
     // Don't refill if already in progress for this market
     if (this.refillInProgress.has(marketSlug)) return;
 
@@ -652,8 +898,10 @@ export class ShockFadeLive extends EventEmitter {
       if (maxPrice > 0.95 || minPrice < 0.05) return;
     }
 
-    // Don't refill if halted
-    if (this.halted) return;
+    // Don't refill if halted or paused (globally or for this sport), or on inventory reconciliation hasn't finished repairing
+    if (this.halted || this.pauseReason || this.reconciling) return;
+    if (this.breakers?.check(this.sportOf(marketSlug))) return;
+    if (this.blockedMarkets.has(marketSlug)) return;
 
     this.refillInProgress.add(marketSlug);
     this.log(`🔄 Auto-refill triggered for ${marketSlug}: ${balanced} shares ≤ ${this.refillThreshold} threshold → splitting $${this.refillAmount}`);
@@ -664,6 +912,12 @@ export class ShockFadeLive extends EventEmitter {
         this.recordInventory(marketSlug, inv.conditionId, inv.tokenA, inv.tokenB, this.refillAmount, inv.negRisk);
         this.emit("refill", { marketSlug, amount: this.refillAmount });
       } else {
+        const gasPaused = await this.gas?.checkSplitBudget();
+        if (gasPaused) {
+          this.log(`⛽ Auto-refill skipped — ${gasPaused}`);
+          return;
+        }
+
         // Verify USDC balance
         const hasBalance = await this.verifyUSDCBalance(this.refillAmount);
         if (!hasBalance) {
@@ -672,6 +926,7 @@ export class ShockFadeLive extends EventEmitter {
         }
 
         const result = await this.splitClient.split(inv.conditionId, this.refillAmount, inv.negRisk);
+        this.gas?.record("SPLIT", marketSlug, result.gasCostMatic, result.transactionHash, cycleId);
         if (result.success) {
           this.log(`✅ Auto-refill: split $${this.refillAmount} → +${this.refillAmount} shares each side (tx: ${result.transactionHash?.slice(0, 10)}…)`);
           this.recordInventory(marketSlug, inv.conditionId, inv.tokenA, inv.tokenB, this.refillAmount, inv.negRisk);
@@ -741,11 +996,19 @@ export class ShockFadeLive extends EventEmitter {
       return;
     }
 
-    // Circuit breaker: total session loss
+    // Operator pause
+    if (this.pauseReason) {
+      this.log(`⏸️ PAUSED (${this.pauseReason}) — ignoring shock on ${shock.marketSlug}`);
+      return;
+    }
+
+    // Circuit breaker: total session loss. Deliberately global — per-sport
+    // limits are the CircuitBreakers' job; this is the backstop behind them
     if (this.stats.totalPnL < -this.config.maxSessionLoss) {
       this.halted = true;
       this.haltReason = `session loss $${Math.abs(this.stats.totalPnL).toFixed(2)} exceeds max $${this.config.maxSessionLoss}`;
       this.log(`🛑 CIRCUIT BREAKER: ${this.haltReason} — HALTING`);
+      this.alert("CRITICAL", "Trading halted", this.haltReason, "halt");
       return;
     }
 
@@ -754,6 +1017,21 @@ export class ShockFadeLive extends EventEmitter {
       this.halted = true;
       this.haltReason = `${this.consecutiveLosses} consecutive losses`;
       this.log(`🛑 CIRCUIT BREAKER: ${this.haltReason} — HALTING`);
+      this.alert("CRITICAL", "Trading halted", this.haltReason, "halt");
+      return;
+    }
+
+    // Time-windowed breakers (window loss, daily loss, drawdown) — per sport
+    const breakerHalt = this.breakers?.check(this.sportOf(shock.marketSlug)) ?? null;
+    if (breakerHalt) {
+      this.log(`🛑 HALTED (${breakerHalt}) — ignoring shock on ${shock.marketSlug}`);
+      return;
+    }
+
+    // Operator flattened this market
+    const blockedReason = this.blockedMarkets.get(shock.marketSlug);
+    if (blockedReason) {
+      this.log(`⏸️ ${shock.marketSlug} blocked (${blockedReason}) — ignoring shock`);
       return;
     }
 
@@ -807,15 +1085,24 @@ export class ShockFadeLive extends EventEmitter {
         ? shock.currentPrice
         : 1.0 - shock.currentPrice;
 
+    // Late-game policy (per sport, sss_sport_params.json): may block new cycles,
+    // tighten the sell cap or shrink the ladder.
+    const lateGame = this.gameEvents?.getLateGamePolicy(shock.marketSlug) ?? null;
+    if (lateGame?.disableNewCycles) {
+      this.log(`⏭️ SKIP: late game on ${shock.marketSlug} (${describeLateGamePolicy(lateGame)})`);
+      return;
+    }
+
     // Filter: don't sell at high prices (>sellPriceMax). When the winning team scores
     // and price is >85¢, TP on the losing side won't hit — game is nearly decided.
     // Low-price sells are fine (sell losing team at 11¢, TP on winning side is safe).
-    // In LATE GAME (last 3 min Q4/OT), tighten high-end to 70¢ to avoid imbalance risk.
-    const isLateGame = this.gameEvents?.isLateGame?.(shock.marketSlug) ?? false;
-    const effectiveSellPriceMax = isLateGame ? 0.70 : this.config.sellPriceMax;
+    // In LATE GAME the policy can tighten the high end (e.g. 70¢) to avoid imbalance risk.
+    const effectiveSellPriceMax = lateGame?.sellPriceMax !== undefined
+      ? Math.min(lateGame.sellPriceMax, this.config.sellPriceMax)
+      : this.config.sellPriceMax;
     
     if (sellTokenPrice > effectiveSellPriceMax) {
-      const reason = isLateGame ? "late game (Q4/OT <3min)" : "TP on losing side won't hit";
+      const reason = lateGame ? `late game, ${lateGame.sport} policy` : "TP on losing side won't hit";
       this.log(`⏭️ SKIP: sell price ${(sellTokenPrice * 100).toFixed(1)}¢ > ${(effectiveSellPriceMax * 100).toFixed(0)}¢ max (${reason})`);
       return;
     }
@@ -827,6 +1114,34 @@ export class ShockFadeLive extends EventEmitter {
       return;
     }
 
+    // Fair-value gate: only fade a spike that overshoots fair value (sportsbook
+    // line or in-game win probability). If fair agrees with Polymarket, the move
+    // is information, not noise.
+    if (this.config.fairValueGate && this.fairValue) {
+      const fair = await this.fairValue.getFairValue(market, sellTokenId).catch((err) => {
+        this.log(`⚠️ Fair value lookup failed for ${shock.marketSlug}: ${err.message}`);
+        return null;
+      });
+
+      if (fair === null) {
+        if (this.config.fairValueRequired) {
+          this.log(`⏭️ SKIP: no fair value for ${shock.marketSlug}`);
+          return;
+        }
+        this.log(`  ℹ️ No fair value for ${shock.marketSlug} — using z-score only`);
+      } else {
+        const overshoot = PinnacleOddsClient.getOvershoot(sellTokenPrice, fair);
+        if (overshoot < this.config.fairValueMarginCents) {
+          this.log(
+            `⏭️ SKIP: sell price ${(sellTokenPrice * 100).toFixed(1)}¢ vs fair ${(fair * 100).toFixed(1)}¢ ` +
+            `(overshoot ${overshoot.toFixed(1)}¢ < ${this.config.fairValueMarginCents}¢)`,
+          );
+          return;
+        }
+        this.log(`  📐 Fair value ${(fair * 100).toFixed(1)}¢ — overshoot ${overshoot.toFixed(1)}¢`);
+      }
+    }
+
     this.log(`⚡ Processing shock on ${shock.marketSlug}: ${shock.direction.toUpperCase()} ` +
       `${(shock.magnitude * 100).toFixed(1)}¢ (z=${shock.zScore.toFixed(1)}σ)`);
 
@@ -839,6 +1154,7 @@ export class ShockFadeLive extends EventEmitter {
       sellTokenPrice,
       market.conditionId,
       inv,
+      lateGame,
     );
   }
 
@@ -854,15 +1170,61 @@ export class ShockFadeLive extends EventEmitter {
     basePrice: number,
     conditionId: string,
     inv: MarketInventory,
+    lateGame: LateGamePolicy | null = null,
   ): Promise<void> {
-    this.log(`📝 Placing ${this.config.ladderLevels}-level SELL ladder on ${shock.marketSlug}`);
+    // Planned shares per level (late-game scaled), then the portfolio risk check
+    const levelCount = Math.min(this.config.ladderLevels, this.ladderSizes.length);
+    let levelShares = this.ladderSizes.slice(0, levelCount).map(s => scaleLadderSize(s, lateGame));
+    if (this.risk) {
+      const decision = this.risk.checkLadder({
+        cycleId: shockId,
+        marketSlug: shock.marketSlug,
+        heldTokenId,
+        levels: levelShares.map((shares, i) => ({
+          shares,
+          price: Math.max(0.01, Math.min(0.99, basePrice + (i + 1) * this.config.ladderSpacing)),
+        })),
+      });
+      if (decision.action === "REJECT") {
+        this.log(`⏭️ SKIP: risk limit on ${shock.marketSlug} — ${decision.reason}`);
+        return;
+      }
+      if (decision.action === "SHRINK") {
+        this.log(`  🧯 Risk: ladder ${levelShares.join("/")} → ${decision.shares.join("/")} (${decision.reason})`);
+        levelShares = decision.shares;
+      }
+    }
+
+    try {
+      await this.placeLadderLevels(shockId, shock, sellTokenId, heldTokenId, basePrice, conditionId, inv, lateGame, levelShares);
+    } finally {
+      this.risk?.release(shockId);
+    }
+  }
+
+  private async placeLadderLevels(
+    shockId: string,
+    shock: ShockEvent,
+    sellTokenId: string,
+    heldTokenId: string,
+    basePrice: number,
+    conditionId: string,
+    inv: MarketInventory,
+    lateGame: LateGamePolicy | null,
+    levelShares: number[],
+  ): Promise<void> {
+    this.log(`📝 Placing ${levelShares.filter(s => s > 0).length}-level SELL ladder on ${shock.marketSlug}`);
+    if (lateGame?.ladderSizeScale !== undefined) {
+      this.log(`  🕐 Late game (${describeLateGamePolicy(lateGame)})`);
+    }
     this.log(`  Sell: ${sellTokenId.slice(0, 10)}… | Hold: ${heldTokenId.slice(0, 10)}… | Base: ${(basePrice * 100).toFixed(1)}¢`);
 
     let totalFilledShares = 0;
     let totalFilledProceeds = 0;
 
-    for (let level = 1; level <= this.config.ladderLevels && level <= this.ladderSizes.length; level++) {
-      const shares = this.ladderSizes[level - 1]; // 5, 10, 15 shares
+    for (let level = 1; level <= levelShares.length; level++) {
+      const shares = levelShares[level - 1]; // 5, 10, 15 shares
+      if (shares <= 0) continue; // dropped by the risk check
       const offset = level * this.config.ladderSpacing;
       const limitPrice = Math.max(0.01, Math.min(0.99, basePrice + offset));
 
@@ -898,6 +1260,7 @@ export class ShockFadeLive extends EventEmitter {
         shares,
         level,
         status: "PENDING_PLACE",
+        filledShares: 0,
         createdAt: Date.now(),
         filledAt: null,
         fillPrice: null,
@@ -905,13 +1268,14 @@ export class ShockFadeLive extends EventEmitter {
       };
 
       this.orders.set(orderId, order);
+      this.orderMachine.create(orderId, "ENTRY", sellTokenId, shares, shockId);
 
       this.log(`  📝 SELL L${level}: ${shares} shares @ ${(limitPrice * 100).toFixed(1)}¢`);
 
       if (this.config.dryRun) {
         this.log(`    [DRY-RUN] Would place GTC sell order: ${shares} shares @ ${(limitPrice * 100).toFixed(1)}¢`);
-        order.status = "RESTING";
-        order.orderId = `dry_${orderId}`;
+        this.orderMachine.acknowledge(orderId, `dry_${orderId}`);
+        this.syncOrder(order);
         this.stats.totalOrdersPlaced++;
         continue;
       }
@@ -920,35 +1284,38 @@ export class ShockFadeLive extends EventEmitter {
       const hasTokens = await this.verifyTokenBalance(sellTokenId, shares);
       if (!hasTokens) {
         this.log(`  ⚠️ Token balance verification failed for L${level} — skipping`);
-        order.status = "FAILED";
+        this.orderMachine.fail(orderId, "token balance verification failed");
+        this.syncOrder(order);
         if (sellTokenId === inv.tokenA) { inv.sharesA += shares; } else { inv.sharesB += shares; }
         continue;
       }
 
       // Place real GTC sell order
       try {
-        const result = await this.polyClient.sellSharesGTC(
-          sellTokenId,
+        const result = await this.venue.placeLimit({
+          tokenId: sellTokenId,
+          side: "SELL",
           shares,
-          limitPrice,
-          inv.negRisk,
-        );
+          price: limitPrice,
+          negRisk: inv.negRisk,
+        });
 
-        if (result.success && result.orderID) {
-          order.orderId = result.orderID;
-          order.status = "RESTING";
+        if (result.success && result.orderId) {
+          this.orderMachine.acknowledge(orderId, result.orderId);
+          this.syncOrder(order);
           this.stats.totalOrdersPlaced++;
 
           // Check if immediately filled
-          if (result.filledShares && result.filledShares > 0) {
-            order.status = "FILLED";
-            order.filledAt = Date.now();
-            order.fillPrice = result.filledPrice ?? limitPrice;
+          const fill = result.filledShares > 0
+            ? this.orderMachine.fill(orderId, `placement:${result.orderId}`, result.filledShares, result.filledPrice ?? limitPrice, { placement: true })
+            : null;
+          if (fill) {
+            this.syncOrder(order);
             this.stats.totalOrdersFilled++;
-            totalFilledShares += result.filledShares;
-            totalFilledProceeds += result.filledShares * (result.filledPrice ?? limitPrice);
+            totalFilledShares += fill.size;
+            totalFilledProceeds += fill.size * fill.price;
 
-            this.log(`  ✅ L${level} IMMEDIATELY FILLED: ${result.filledShares} shares @ ${((result.filledPrice ?? limitPrice) * 100).toFixed(1)}¢`);
+            this.log(`  ✅ L${level} IMMEDIATELY FILLED: ${fill.size} shares @ ${(fill.price * 100).toFixed(1)}¢${order.status === "PARTIAL" ? ` (${shares - fill.size} resting)` : ""}`);
 
             // Create position for the filled portion
             await this.createPosition(
@@ -957,16 +1324,17 @@ export class ShockFadeLive extends EventEmitter {
               orderId,
               sellTokenId,
               heldTokenId,
-              result.filledShares,
-              result.filledPrice ?? limitPrice,
-              shares, // split cost = shares (at $1 each)
+              fill.size,
+              fill.price,
+              fill.size, // split cost = shares (at $1 each)
               inv.negRisk,
             );
           } else {
-            this.log(`  📋 L${level} resting on book (orderID: ${result.orderID.slice(0, 10)}…)`);
+            this.log(`  📋 L${level} resting on book (orderID: ${result.orderId.slice(0, 10)}…)`);
           }
         } else {
-          order.status = "FAILED";
+          this.orderMachine.fail(orderId, result.error || "placement rejected");
+          this.syncOrder(order);
           this.log(`  ❌ L${level} failed: ${result.error}`);
           // Return shares to inventory
           if (sellTokenId === inv.tokenA) {
@@ -976,12 +1344,15 @@ export class ShockFadeLive extends EventEmitter {
           }
         }
       } catch (err: any) {
-        order.status = "FAILED";
         this.log(`  ❌ L${level} error: ${err?.message || err}`);
-        if (sellTokenId === inv.tokenA) {
-          inv.sharesA += shares;
-        } else {
-          inv.sharesB += shares;
+        // Only an order that never reached the book gives its shares back
+        if (this.orderMachine.fail(orderId, String(err?.message || err))) {
+          this.syncOrder(order);
+          if (sellTokenId === inv.tokenA) {
+            inv.sharesA += shares;
+          } else {
+            inv.sharesB += shares;
+          }
         }
       }
     }
@@ -992,6 +1363,9 @@ export class ShockFadeLive extends EventEmitter {
       sellTokenId,
       heldTokenId,
     });
+
+    // Snapshot now: the inventory deducted above must not wait for the 30s save
+    this.saveState();
   }
 
   // ============================================================================
@@ -1085,6 +1459,8 @@ export class ShockFadeLive extends EventEmitter {
 
         if (bid >= tp.tpPrice) {
           this.log(`💰 [DRY-RUN] Cumulative TP HIT for ${tp.marketSlug}: complement bid ${(bid * 100).toFixed(1)}¢ >= TP ${(tp.tpPrice * 100).toFixed(1)}¢`);
+          const tracked = tp.tpOrderId ? this.orderMachine.getByVenueId(tp.tpOrderId) : undefined;
+          if (tracked) this.orderMachine.fillRemaining(tracked.key, `dry:${tracked.key}`, tp.tpPrice);
           this.completeCumulativeTP(tp);
         }
       }
@@ -1093,47 +1469,12 @@ export class ShockFadeLive extends EventEmitter {
     // In dry-run mode, simulate entry order fills when bid reaches our price
     if (this.config.dryRun) {
       for (const order of Array.from(this.orders.values())) {
-        if (order.tokenId !== tokenId || order.status !== "RESTING") continue;
+        if (order.tokenId !== tokenId || !isLiveOrderState(order.status)) continue;
         if (bid >= order.price) {
+          const fill = this.orderMachine.fillRemaining(order.id, `dry:${order.id}`, order.price);
+          if (!fill) continue;
           this.log(`[DRY-RUN] Simulated fill: L${order.level} @ ${(order.price * 100).toFixed(1)}¢ [${order.marketSlug}]`);
-          order.status = "FILLED";
-          order.filledAt = Date.now();
-          order.fillPrice = order.price;
-          this.stats.totalOrdersFilled++;
-
-          // Update cumulative TP for this market
-          const complement = this.getComplementToken(order.tokenId);
-          if (complement) {
-            const inv = this.inventory.get(order.marketSlug);
-            // Create position for P&L accounting (kept for trade records)
-            this.createPosition(
-              { tokenId: order.tokenId, marketSlug: order.marketSlug, direction: "up", magnitude: 0, zScore: 0, preShockPrice: 0, currentPrice: order.price, timestamp: Date.now(), type: "shock" },
-              order.shockId,
-              order.id,
-              order.tokenId,
-              complement,
-              order.shares,
-              order.price,
-              order.shares,
-              inv?.negRisk ?? false,
-            ).catch(err => this.log(`⚠️ Dry-run position creation error: ${err}`));
-
-            // Update/create cumulative TP
-            this.updateCumulativeTP(
-              order.marketSlug,
-              order.shockId,
-              order.tokenId,
-              complement,
-              order.shares,
-              order.price,
-              inv?.conditionId ?? "",
-              inv?.negRisk ?? false,
-            );
-
-            // Check if inventory needs refill after fill
-            this.checkAndRefill(order.marketSlug).catch(err =>
-              this.log(`⚠️ Refill check error: ${err?.message || err}`));
-          }
+          this.applyEntryFill(order, fill).catch(err => this.log(`⚠️ Dry-run fill error: ${err}`));
         }
       }
     }
@@ -1145,170 +1486,145 @@ export class ShockFadeLive extends EventEmitter {
   // ============================================================================
 
   /**
-   * Handle a fill event from the UserChannelWS.
-   * Finds the matching resting order, marks it as FILLED, creates position + updates TP.
-   * Skips non-MATCHED/MINED/CONFIRMED statuses (RETRYING/FAILED are not real fills).
+   * Handle a fill event from the venue fill stream (UserChannelWS in production).
+   * The order state machine drops repeats of a trade (MATCHED → MINED → CONFIRMED),
+   * echoes of fills already booked at placement, and orders that aren't ours.
+   * FAILED trades are not real fills.
    */
-  private async handleUserChannelFill(orderId: string, fillPrice: number, fillSize: number, status: string): Promise<void> {
-    // Only process real fills (not RETRYING or FAILED)
+  private async handleUserChannelFill(orderId: string, tradeId: string, fillPrice: number, fillSize: number, status: string): Promise<void> {
     if (status === "FAILED") {
       this.log(`[WS] Ignoring FAILED trade for orderId=${orderId.slice(0, 10)}…`);
       return;
     }
 
-    // Skip if already processed (e.g., immediate fill detected at placement time,
-    // or WS sends MATCHED → MINED → CONFIRMED for same orderId)
-    if (this.wsHandledOrderIds.has(orderId)) return;
-
-    // Find matching order by Polymarket orderId
-    // Accept RESTING or CANCELLED — a cancel-fill race means the CLOB filled before our cancel arrived
-    let matchedOrder: LiveLadderOrder | null = null;
-    for (const order of this.orders.values()) {
-      if (order.orderId === orderId && (order.status === "RESTING" || order.status === "CANCELLED")) {
-        matchedOrder = order;
-        break;
-      }
-    }
+    const fill = this.orderMachine.streamFill(orderId, tradeId, fillSize, fillPrice);
+    if (!fill) return;
 
-    if (!matchedOrder) {
+    if (fill.order.kind === "TP") {
       // Check if this is a TP order fill (complement sell resting on book)
-      for (const tp of this.cumulativeTPs.values()) {
-        if (tp.tpOrderId === orderId && (tp.status === "WATCHING" || tp.status === "PARTIAL")) {
-          this.wsHandledOrderIds.add(orderId);
-          this.log(`💰 [WS] TP FILL: ${fillSize} shares @ ${(fillPrice * 100).toFixed(1)}¢ [${tp.marketSlug}] (status=${status})`);
+      const tp = Array.from(this.cumulativeTPs.values()).find(t => t.tpOrderId === orderId);
+      if (!tp || (tp.status !== "WATCHING" && tp.status !== "PARTIAL")) {
+        this.log(`⚠️ [WS] Fill on retired TP order ${orderId.slice(0, 10)}… (${fill.size} shares) — not booked`);
+        return;
+      }
+      this.log(`💰 [WS] TP FILL: ${fill.size} shares @ ${(fill.price * 100).toFixed(1)}¢ [${tp.marketSlug}] (status=${status})`);
 
-          // NOTE: No inventory deduction here!
-          // Held shares came from the same split pairs as entry shares.
-          // Entry ladder placement already deducted from inventory.
-          // Selling complement (exit) should NOT deduct again.
-          this.log(`  📦 [INVENTORY] TP exit: NO deduction (held shares from position, not inventory pool)`);
+      // NOTE: No inventory deduction here!
+      // Held shares came from the same split pairs as entry shares.
+      // Entry ladder placement already deducted from inventory.
+      // Selling complement (exit) should NOT deduct again.
+      this.log(`  📦 [INVENTORY] TP exit: NO deduction (held shares from position, not inventory pool)`);
 
-          if (fillSize >= tp.tpShares) {
-            // Full TP fill
-            this.completeCumulativeTP(tp);
-          } else {
-            // Partial TP fill
-            this.partialFillCumulativeTP(tp, fillSize, fillPrice);
-          }
-          return;
-        }
+      if (fill.order.state === "FILLED" || fill.size >= tp.tpShares) {
+        this.completeCumulativeTP(tp);
+      } else {
+        this.partialFillCumulativeTP(tp, fill.size, fill.price);
       }
-
-      // Order we don't track (other account activity) — ignore
       return;
     }
 
-    // If order was already "CANCELLED", this is a cancel-fill race — CLOB filled before cancel
-    if (matchedOrder.status === "CANCELLED") {
-      this.log(`⚠️ [WS] CANCEL-FILL RACE: L${matchedOrder.level} was marked CANCELLED but CLOB filled it! Reversing cancel inventory return.`);
+    // Exit sells are awaited in waitForGTCFill, which reads the state machine
+    if (fill.order.kind !== "ENTRY") return;
+
+    const matchedOrder = this.orders.get(fill.order.key);
+    if (!matchedOrder) return;
+
+    if (fill.late) {
+      this.log(`⚠️ [WS] CANCEL-FILL RACE: L${matchedOrder.level} was marked CANCELLED but CLOB filled ${fill.size} shares! Reversing cancel inventory return.`);
       // Undo the inventory return from cancelOrder() since shares were actually sold
       const inv = this.inventory.get(matchedOrder.marketSlug);
       if (inv) {
         if (matchedOrder.tokenId === inv.tokenA) {
-          inv.sharesA = Math.max(0, inv.sharesA - matchedOrder.shares);
+          inv.sharesA = Math.max(0, inv.sharesA - fill.size);
         } else {
-          inv.sharesB = Math.max(0, inv.sharesB - matchedOrder.shares);
+          inv.sharesB = Math.max(0, inv.sharesB - fill.size);
         }
       }
     }
 
-    // Mark as handled so polling doesn't double-process
-    this.wsHandledOrderIds.add(orderId);
-
-    // Mark order as filled
-    matchedOrder.status = "FILLED";
-    matchedOrder.filledAt = Date.now();
-    matchedOrder.fillPrice = fillPrice;
-    this.stats.totalOrdersFilled++;
+    this.log(`✅ [WS] ${fill.order.state === "PARTIAL" ? "PARTIAL FILL" : "FILLED"}: L${matchedOrder.level} @ ${(fill.price * 100).toFixed(1)}¢ [${matchedOrder.marketSlug}] (${fill.size} shares, status=${status})`);
+    await this.applyEntryFill(matchedOrder, fill);
+  }
 
-    this.log(`✅ [WS] FILLED: L${matchedOrder.level} @ ${(fillPrice * 100).toFixed(1)}¢ [${matchedOrder.marketSlug}] (${fillSize} shares, status=${status})`);
+  /**
+   * Book an entry-ladder fill: mirror the order state, open a position for the
+   * filled shares and fold them into the cycle's cumulative TP.
+   */
+  private async applyEntryFill(order: LiveLadderOrder, fill: OrderFill): Promise<void> {
+    this.syncOrder(order);
+    if (fill.first) this.stats.totalOrdersFilled++;
 
-    // Create position for the filled order
-    const complement = this.getComplementToken(matchedOrder.tokenId);
+    const complement = this.getComplementToken(order.tokenId);
     if (complement) {
-      const inv = this.inventory.get(matchedOrder.marketSlug);
+      const inv = this.inventory.get(order.marketSlug);
       await this.createPosition(
         {
-          tokenId: matchedOrder.tokenId,
-          marketSlug: matchedOrder.marketSlug,
+          tokenId: order.tokenId,
+          marketSlug: order.marketSlug,
           direction: "up",
           magnitude: 0,
           zScore: 0,
           preShockPrice: 0,
-          currentPrice: fillPrice,
+          currentPrice: fill.price,
           timestamp: Date.now(),
           type: "shock",
         },
-        matchedOrder.shockId,
-        matchedOrder.id,
-        matchedOrder.tokenId,
+        order.shockId,
+        order.id,
+        order.tokenId,
         complement,
-        matchedOrder.shares,
-        fillPrice,
-        matchedOrder.shares,
+        fill.size,
+        fill.price,
+        fill.size,
         inv?.negRisk ?? false,
       );
 
-      // Update cumulative TP with actual fill price from WS
+      // Update cumulative TP with the actual fill price
       await this.updateCumulativeTP(
-        matchedOrder.marketSlug,
-        matchedOrder.shockId,
-        matchedOrder.tokenId,
+        order.marketSlug,
+        order.shockId,
+        order.tokenId,
         complement,
-        matchedOrder.shares,
-        fillPrice,
+        fill.size,
+        fill.price,
         inv?.conditionId ?? "",
         inv?.negRisk ?? false,
       );
     }
 
-    this.emit("orderFilled", matchedOrder);
+    this.emit("orderFilled", order);
 
     // Check if inventory needs refill after fill
-    this.checkAndRefill(matchedOrder.marketSlug).catch(err =>
+    this.checkAndRefill(order.marketSlug, order.shockId).catch(err =>
       this.log(`⚠️ Refill check error: ${err?.message || err}`));
   }
 
   /**
-   * Handle a server-side cancellation from UserChannelWS.
+   * Handle a server-side cancellation from the venue fill stream.
    * Prevents phantom fills: if CLOB cancels our order, we mark it CANCELLED
-   * and return shares to inventory (instead of assuming it was filled).
+   * and return the unfilled shares to inventory (instead of assuming it was filled).
    */
   private handleUserChannelCancellation(orderId: string): void {
-    for (const order of this.orders.values()) {
-      if (order.orderId === orderId && order.status === "RESTING") {
-        this.log(`🚫 [WS] Server-side CANCELLATION: L${order.level} ${order.shares}sh @ ${(order.price * 100).toFixed(1)}¢ [${order.marketSlug}]`);
-
-        order.status = "CANCELLED";
-        this.stats.totalOrdersCancelled++;
-
-        // Mark as handled so polling doesn't misinterpret as fill
-        this.wsHandledOrderIds.add(orderId);
-
-        // Return shares to inventory
-        this.log(`  🔍 [DEBUG-WS] Looking for inventory: order.marketSlug="${order.marketSlug}"`);
-        const inv = this.inventory.get(order.marketSlug);
-        if (inv) {
-          this.log(`  🔍 [DEBUG-WS] Found inventory: inv.marketSlug="${inv.marketSlug}" | tokenA=${inv.tokenA.slice(0,8)}… tokenB=${inv.tokenB.slice(0,8)}…`);
-          this.log(`  🔍 [DEBUG-WS] Order tokenId=${order.tokenId.slice(0,8)}… | Returning ${order.shares} shares`);
-          
-          if (order.tokenId === inv.tokenA) {
-            const before = inv.sharesA;
-            inv.sharesA += order.shares;
-            this.log(`  📦 [INVENTORY-WS] Cancelled: tokenA ${before} → ${inv.sharesA} (+${order.shares}) | Market: ${inv.marketSlug} | Total: ${inv.sharesA}A / ${inv.sharesB}B`);
-          } else {
-            const before = inv.sharesB;
-            inv.sharesB += order.shares;
-            this.log(`  📦 [INVENTORY-WS] Cancelled: tokenB ${before} → ${inv.sharesB} (+${order.shares}) | Market: ${inv.marketSlug} | Total: ${inv.sharesA}A / ${inv.sharesB}B`);
-          }
-        } else {
-          this.log(`  ⚠️ [DEBUG-WS] No inventory found for marketSlug="${order.marketSlug}"!`);
-        }
-
-        this.emit("orderCancelled", order);
-        return;
+    const tracked = this.orderMachine.getByVenueId(orderId);
+    if (!tracked || !isLiveOrderState(tracked.state)) return;
+    if (!this.orderMachine.cancel(tracked.key, "venue")) return;
+
+    if (tracked.kind === "TP") {
+      const tp = Array.from(this.cumulativeTPs.values()).find(t => t.tpOrderId === orderId);
+      if (tp) {
+        this.log(`🚫 [WS] Server-side CANCELLATION of TP order [${tp.marketSlug}] — TP no longer on book`);
+        tp.tpOrderId = null;
       }
+      return;
     }
+
+    const order = tracked.kind === "ENTRY" ? this.orders.get(tracked.key) : undefined;
+    if (!order) return;
+    this.syncOrder(order);
+    this.log(`🚫 [WS] Server-side CANCELLATION: L${order.level} ${order.shares}sh @ ${(order.price * 100).toFixed(1)}¢ [${order.marketSlug}]`);
+    this.stats.totalOrdersCancelled++;
+    this.returnUnfilledShares(order, "INVENTORY-WS");
+    this.emit("orderCancelled", order);
   }
 
   // ============================================================================
@@ -1316,7 +1632,10 @@ export class ShockFadeLive extends EventEmitter {
   // ============================================================================
 
   private async pollRestingOrderFills(): Promise<void> {
-    const restingOrders = Array.from(this.orders.values()).filter(o => o.status === "RESTING" && o.orderId);
+    // Reconciliation is settling these orders from the venue's full order record
+    if (this.reconciling) return;
+
+    const restingOrders = Array.from(this.orders.values()).filter(o => isLiveOrderState(o.status) && o.orderId);
     if (restingOrders.length === 0) return;
 
     // Group by conditionId to minimize API calls
@@ -1329,67 +1648,19 @@ export class ShockFadeLive extends EventEmitter {
 
     for (const [conditionId, orders] of byCondition.entries()) {
       try {
-        const result = await this.polyClient.getOpenOrders(conditionId);
-        if (!result.success || !result.orders) continue;
-
-        const openOrderIds = new Set(result.orders.map((o: any) => o.id));
+        const openOrders = await this.venue.getOpenOrders(conditionId);
+        const openOrderIds = new Set(openOrders.map((o) => o.orderId));
 
         for (const order of orders) {
-          if (!order.orderId) continue;
-
-          // Skip orders already handled by UserChannelWS (prevents double-processing)
-          if (this.wsHandledOrderIds.has(order.orderId)) continue;
-
-          // If order is no longer in open orders, it was either filled or cancelled
-          if (!openOrderIds.has(order.orderId)) {
-            // Check if WE cancelled this order (cancel may not have updated status yet due to async)
-            // Also check wsHandledOrderIds again in case WS cancel arrived between filter and here
-            if (this.wsHandledOrderIds.has(order.orderId!)) continue;
-
-            // Log as potential fill but verify we didn't just cancel it
-            this.log(`🔍 Order ${order.orderId!.slice(0, 10)}… missing from CLOB — assuming FILLED (L${order.level} @ ${(order.price * 100).toFixed(1)}¢)`);
-            order.status = "FILLED";
-            order.filledAt = Date.now();
-            order.fillPrice = order.price; // Use limit price as fill price
-            this.stats.totalOrdersFilled++;
-
-            this.log(`✅ FILLED (poll): L${order.level} @ ${(order.price * 100).toFixed(1)}¢ [${order.marketSlug}]`);
-
-            // Create position for the filled order (P&L accounting)
-            const complement = this.getComplementToken(order.tokenId);
-            if (complement) {
-              const inv = this.inventory.get(order.marketSlug);
-              await this.createPosition(
-                { tokenId: order.tokenId, marketSlug: order.marketSlug, direction: "up", magnitude: 0, zScore: 0, preShockPrice: 0, currentPrice: order.price, timestamp: Date.now(), type: "shock" },
-                order.shockId,
-                order.id,
-                order.tokenId,
-                complement,
-                order.shares,
-                order.price,
-                order.shares,
-                inv?.negRisk ?? false,
-              );
-
-              // Update cumulative TP
-              await this.updateCumulativeTP(
-                order.marketSlug,
-                order.shockId,
-                order.tokenId,
-                complement,
-                order.shares,
-                order.price,
-                inv?.conditionId ?? "",
-                inv?.negRisk ?? false,
-              );
-            }
+          if (!order.orderId || openOrderIds.has(order.orderId)) continue;
 
-            this.emit("orderFilled", order);
+          // No longer on the book: filled, unless the fill stream / a cancel got
+          // there first while we were waiting on the REST call
+          const fill = this.orderMachine.fillRemaining(order.id, `poll:${order.orderId}`, order.price);
+          if (!fill) continue;
 
-            // Check if inventory needs refill after fill
-            this.checkAndRefill(order.marketSlug).catch(err =>
-              this.log(`⚠️ Refill check error: ${err?.message || err}`));
-          }
+          this.log(`✅ FILLED (poll): L${order.level} @ ${(order.price * 100).toFixed(1)}¢ [${order.marketSlug}] — missing from CLOB, assuming ${fill.size} shares filled at limit`);
+          await this.applyEntryFill(order, fill);
         }
       } catch (err: any) {
         this.log(`⚠️ Fill poll error for conditionId ${conditionId.slice(0, 10)}…: ${err?.message || err}`);
@@ -1424,7 +1695,9 @@ export class ShockFadeLive extends EventEmitter {
         const heldIsWinner = heldPrice?.bid !== undefined && heldPrice.bid > 0.5;
         const exitPrice = heldIsWinner ? 1.0 : 0;
         this.log(`🚨 Stale position ${pos.id} (${(age / 1000).toFixed(0)}s) — game decided, held token ${heldIsWinner ? 'WINNER ($1)' : 'LOSER ($0)'}`);
+        this.alert("WARNING", "Stale position", `${pos.id} on ${pos.marketSlug} open ${(age / 60_000).toFixed(0)}m — game decided, closed at $${exitPrice}`, `stale:${pos.id}`);
         this.finalizePositionClose(pos, "CLOSED", exitPrice);
+        if (heldIsWinner) this.reportHeldWinner(pos.marketSlug, pos.heldTokenId, pos.heldShares);
         const inv = this.inventory.get(pos.marketSlug);
         if (inv) {
           if (pos.heldTokenId === inv.tokenA) {
@@ -1437,6 +1710,7 @@ export class ShockFadeLive extends EventEmitter {
       }
 
       this.log(`🚨 Stale position detected: ${pos.id} (${(age / 1000).toFixed(0)}s old) — emergency closing`);
+      this.alert("ERROR", "Stale position", `${pos.id} on ${pos.marketSlug} open ${(age / 60_000).toFixed(0)}m — emergency closing`, `stale:${pos.id}`);
       try {
         await this.closePosition(pos, "TIMEOUT");
       } catch (err: any) {
@@ -1452,7 +1726,7 @@ export class ShockFadeLive extends EventEmitter {
   async verifyUSDCBalance(amount: number): Promise<boolean> {
     if (this.config.dryRun) return true;
     try {
-      const balance = await this.polyClient.getBalance();
+      const balance = await this.venue.getBalance();
       if (balance < amount) {
         this.log(`❌ Insufficient USDC balance: have $${balance.toFixed(2)}, need $${amount.toFixed(2)}`);
         return false;
@@ -1467,7 +1741,7 @@ export class ShockFadeLive extends EventEmitter {
   async verifyTokenBalance(tokenId: string, requiredShares: number): Promise<boolean> {
     if (this.config.dryRun) return true;
     try {
-      const balance = await this.polyClient.getTokenBalance(tokenId);
+      const balance = await this.venue.getTokenBalance(tokenId);
       if (balance < requiredShares) {
         this.log(`❌ Insufficient token balance: have ${balance}, need ${requiredShares}`);
         return false;
@@ -1494,6 +1768,7 @@ export class ShockFadeLive extends EventEmitter {
     this.extremePriceTriggered.add(marketSlug);
 
     this.log(`🏁 EXTREME PRICE on ${marketSlug}: ${(price * 100).toFixed(1)}¢ — game decided, exiting + merging`);
+    this.alert("INFO", "Extreme price exit", `${marketSlug} at ${(price * 100).toFixed(1)}¢ — game decided, exiting + merging`, `extreme:${marketSlug}`, { tokenId, price });
 
     // 1. Cancel all resting orders for this market
     const marketOrders = this.getActiveOrders().filter(o => o.marketSlug === marketSlug);
@@ -1519,6 +1794,7 @@ export class ShockFadeLive extends EventEmitter {
 
       this.log(`  🏁 Force-closing ${pos.id}: held token ${heldIsWinner ? 'WINNER' : 'LOSER'} @ ${(exitPrice * 100).toFixed(1)}¢ (${heldIsWinner ? 'redeemable at $1' : 'skipping sell'} — game decided)`);
       this.finalizePositionClose(pos, "CLOSED", exitPrice);
+      if (heldIsWinner) this.reportHeldWinner(marketSlug, pos.heldTokenId, pos.heldShares);
 
       // NOTE: No inventory deduction! Held shares came from split pairs.
       // Already deducted on entry. Game-decided positions are redeemable,
@@ -1533,13 +1809,7 @@ export class ShockFadeLive extends EventEmitter {
     const tps = this.getCumulativeTPsForMarket(marketSlug);
     for (const tp of tps) {
       if (tp.status === "WATCHING" || tp.status === "PARTIAL") {
-        if (tp.tpOrderId && !this.config.dryRun) {
-          try {
-            await this.polyClient.cancelSingleOrder(tp.tpOrderId);
-          } catch (err: any) {
-            this.log(`  ⚠️ TP cancel error: ${err?.message || err}`);
-          }
-        }
+        await this.cancelCumulativeTPOrder(tp);
         tp.status = "CLOSED";
         this.emit("tpUpdate", tp);  // Notify dashboard before deleting
         this.log(`  🚫 Cancelled cumulative TP for cycle ${tp.shockId.slice(0, 16)}…`);
@@ -1562,6 +1832,12 @@ export class ShockFadeLive extends EventEmitter {
       const excessB = invAfterMerge.sharesB;
       if (excessA > 0 || excessB > 0) {
         this.log(`  💎 Unbalanced shares remaining: ${excessA}A / ${excessB}B — redeemable after market resolves`);
+        // The triggering token at ~$1 won; at ~$0 the other one did
+        const winnerToken = price > 0.99 ? tokenId
+          : price < 0.01 ? (tokenId === invAfterMerge.tokenA ? invAfterMerge.tokenB : invAfterMerge.tokenA)
+          : null;
+        const winnerShares = winnerToken === invAfterMerge.tokenA ? excessA : winnerToken === invAfterMerge.tokenB ? excessB : 0;
+        if (winnerToken && winnerShares > 0) this.reportHeldWinner(marketSlug, winnerToken, winnerShares);
       }
       // Free the game slot regardless — capital is effectively recovered via redemption
       this.inventory.delete(marketSlug);
@@ -1569,6 +1845,25 @@ export class ShockFadeLive extends EventEmitter {
     }
   }
 
+  /**
+   * Winning shares booked at $1 but still in the wallet — hand them to
+   * whoever redeems (RedemptionDaemon listens for "winnerHeld").
+   */
+  private reportHeldWinner(marketSlug: string, tokenId: string, shares: number): void {
+    const market = this.marketMeta.get(marketSlug);
+    const index = market ? market.tokenIds.indexOf(tokenId) : -1;
+    if (!market?.conditionId || index < 0 || index > 1 || shares <= 0) return;
+    const winner: WinningShares = {
+      marketSlug,
+      conditionId: market.conditionId,
+      tokenId,
+      outcomeIndex: index + 1,
+      shares,
+      negRisk: market.negRisk,
+    };
+    this.emit("winnerHeld", winner);
+  }
+
   // ============================================================================
   // EVENT-DRIVEN EXIT — sell complement on next scoring event
   // ============================================================================
@@ -1606,7 +1901,7 @@ export class ShockFadeLive extends EventEmitter {
           }
           // Cancel resting orders for THIS cycle only
           for (const order of this.orders.values()) {
-            if (order.shockId !== tp.shockId || order.status !== "RESTING") continue;
+            if (order.shockId !== tp.shockId || !isLiveOrderState(order.status)) continue;
             await this.cancelOrder(order);
             cancelledCount++;
           }
@@ -1629,7 +1924,7 @@ export class ShockFadeLive extends EventEmitter {
           closedCount += cyclePosns.length;
         }
         for (const order of this.orders.values()) {
-          if (order.shockId !== tp.shockId || order.status !== "RESTING") continue;
+          if (order.shockId !== tp.shockId || !isLiveOrderState(order.status)) continue;
           await this.cancelOrder(order);
           cancelledCount++;
         }
@@ -1649,7 +1944,7 @@ export class ShockFadeLive extends EventEmitter {
         closedCount += orphanPosns.length;
       }
       for (const order of this.orders.values()) {
-        if (order.marketSlug !== marketSlug || order.status !== "RESTING") continue;
+        if (order.marketSlug !== marketSlug || !isLiveOrderState(order.status)) continue;
         await this.cancelOrder(order);
         cancelledCount++;
       }
@@ -1693,7 +1988,7 @@ export class ShockFadeLive extends EventEmitter {
 
     // Cancel ALL resting orders for market (all cycles)
     for (const order of this.orders.values()) {
-      if (order.marketSlug !== marketSlug || order.status !== "RESTING") continue;
+      if (order.marketSlug !== marketSlug || !isLiveOrderState(order.status)) continue;
       await this.cancelOrder(order);
       cancelledCount++;
     }
@@ -1756,7 +2051,7 @@ export class ShockFadeLive extends EventEmitter {
       for (let attempt = 0; attempt < GTC_MAX_ATTEMPTS; attempt++) {
         if (attempt > 0) {
           try {
-            const bal = await this.polyClient.getTokenBalance(heldTokenId);
+            const bal = await this.venue.getTokenBalance(heldTokenId);
             if (bal < totalShares * 0.5) {
               this.log(`  ✅ On-chain balance ${bal} << ${totalShares} — previous sell likely worked!`);
               sellFailed = false;
@@ -1780,13 +2075,14 @@ export class ShockFadeLive extends EventEmitter {
         try {
           this.log(`  📤 ${attempt > 0 ? `RETRY #${attempt}: ` : ''}GTC SELL ${totalShares} shares @ ${(sellPrice * 100).toFixed(1)}¢ (bid: ${(bidPrice * 100).toFixed(1)}¢, +${(tick*100).toFixed(1)}¢ tick${attempt > 0 ? `, -${(priceReduction * 100).toFixed(0)}¢` : ''})`);
 
-          const result = await this.polyClient.sellSharesGTC(heldTokenId, totalShares, sellPrice, negRisk);
+          const result = await this.venue.placeLimit({ tokenId: heldTokenId, side: "SELL", shares: totalShares, price: sellPrice, negRisk });
 
-          if (!result.success || !result.orderID) {
+          if (!result.success || !result.orderId) {
             this.log(`  ⚠️ GTC place failed: ${result.error || 'no orderID'}`);
             sellFailed = true;
             continue;
           }
+          const exitKey = this.trackExitOrder(result.orderId, heldTokenId, totalShares, result.filledShares, result.filledPrice ?? sellPrice);
 
           if (result.filledShares && result.filledShares >= totalShares * 0.95) {
             exitPrice = result.filledPrice ?? sellPrice;
@@ -1795,9 +2091,9 @@ export class ShockFadeLive extends EventEmitter {
             break;
           }
 
-          this.log(`  ⏳ GTC resting (orderID: ${result.orderID.slice(0, 10)}…) — waiting up to ${GTC_FILL_TIMEOUT_MS / 1000}s for fill...`);
+          this.log(`  ⏳ GTC resting (orderID: ${result.orderId.slice(0, 10)}…) — waiting up to ${GTC_FILL_TIMEOUT_MS / 1000}s for fill...`);
 
-          const fillResult = await this.waitForGTCFill(result.orderID, heldTokenId, totalShares, GTC_FILL_TIMEOUT_MS);
+          const fillResult = await this.waitForGTCFill(result.orderId, heldTokenId, totalShares, GTC_FILL_TIMEOUT_MS);
 
           if (fillResult.filled) {
             exitPrice = fillResult.price ?? sellPrice;
@@ -1807,7 +2103,8 @@ export class ShockFadeLive extends EventEmitter {
           }
 
           this.log(`  ⏰ GTC not filled in ${GTC_FILL_TIMEOUT_MS / 1000}s — cancelling...`);
-          await this.polyClient.cancelSingleOrder(result.orderID);
+          this.orderMachine.cancel(exitKey, "exit fill timeout");
+          await this.venue.cancel(result.orderId);
           sellFailed = true;
         } catch (err: any) {
           this.log(`  ⚠️ GTC attempt ${attempt + 1}/${GTC_MAX_ATTEMPTS} error: ${err?.message || err}`);
@@ -1819,9 +2116,9 @@ export class ShockFadeLive extends EventEmitter {
       if (sellFailed) {
         this.log(`  🔄 GTC attempts exhausted — falling back to FAK at 1¢ floor`);
         try {
-          const bal = await this.polyClient.getTokenBalance(heldTokenId);
+          const bal = await this.venue.getTokenBalance(heldTokenId);
           if (bal >= totalShares * 0.5) {
-            const result = await this.polyClient.sellShares(heldTokenId, totalShares, 0.01, negRisk);
+            const result = await this.venue.placeIoc({ tokenId: heldTokenId, side: "SELL", shares: totalShares, price: 0.01, negRisk });
             if (result.success && result.filledShares && result.filledShares > 0) {
               exitPrice = result.filledPrice ?? 0.01;
               this.log(`  ✅ FAK fallback sold: ${result.filledShares} shares @ ${(exitPrice * 100).toFixed(1)}¢`);
@@ -1867,7 +2164,9 @@ export class ShockFadeLive extends EventEmitter {
   private finalizePositionClose(pos: LivePosition, reason: LivePosition["status"], exitPrice: number): void {
     const totalProceedsPerShare = pos.soldPrice + exitPrice;
     const pnlPerShare = totalProceedsPerShare - 1.0;
-    const pnl = pnlPerShare * pos.soldShares;
+    const tradeId = `ltrade_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`;
+    const gasCost = this.gas?.chargeCycle(pos.marketSlug, pos.shockId, tradeId) ?? 0;
+    const pnl = pnlPerShare * pos.soldShares - gasCost;
     const totalProceeds = totalProceedsPerShare * pos.soldShares;
 
     pos.status = reason;
@@ -1877,6 +2176,7 @@ export class ShockFadeLive extends EventEmitter {
 
     this.stats.totalPositionsClosed++;
     this.stats.totalPnL += pnl;
+    this.stats.totalGasCost += gasCost;
     this.stats.totalProceeds += totalProceeds;
 
     if (pnl > 0) {
@@ -1892,12 +2192,14 @@ export class ShockFadeLive extends EventEmitter {
 
     const totalTrades = this.stats.winCount + this.stats.lossCount;
     this.stats.winRate = totalTrades > 0 ? this.stats.winCount / totalTrades : 0;
-    this.pnlHistory.push(pnl);
+    this.recordPnl(pnl);
+    this.breakers?.recordTrade(pnl, this.sportOf(pos.marketSlug));
 
     if (this.stats.totalPnL < -this.config.maxSessionLoss) {
       this.halted = true;
       this.haltReason = `session loss $${Math.abs(this.stats.totalPnL).toFixed(2)} exceeds max $${this.config.maxSessionLoss}`;
       this.log(`🛑 CIRCUIT BREAKER TRIGGERED: ${this.haltReason}`);
+      this.alert("CRITICAL", "Trading halted", this.haltReason, "halt");
     }
 
     const timer = this.positionTimeouts.get(pos.id);
@@ -1909,7 +2211,7 @@ export class ShockFadeLive extends EventEmitter {
     const holdTimeMs = (pos.exitTime || Date.now()) - pos.entryTime;
     // Create trade record
     const record: LiveTradeRecord = {
-      id: `ltrade_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
+      id: tradeId,
       marketSlug: pos.marketSlug,
       soldTokenId: pos.soldTokenId,
       soldPrice: pos.soldPrice,
@@ -1919,20 +2221,18 @@ export class ShockFadeLive extends EventEmitter {
       exitShares: pos.heldShares,
       pnl,
       splitCost: pos.splitCost,
+      gasCost,
       totalProceeds,
       entryTime: pos.entryTime,
       exitTime: pos.exitTime || Date.now(),
       exitReason: reason,
       holdTimeMs,
     };
-    this.tradeHistory.push(record);
-    if (this.tradeHistory.length > 1000) {
-      this.tradeHistory = this.tradeHistory.slice(-500);
-    }
+    this.recordTrade(record);
 
     this.log(`${pnl >= 0 ? '💰' : '💸'} Position closed (${reason}): ${pos.id}`);
     this.log(`  Sold: ${(pos.soldPrice * 100).toFixed(1)}¢ | Exit: ${(exitPrice * 100).toFixed(1)}¢ | Combined: ${(totalProceedsPerShare * 100).toFixed(1)}¢/share`);
-    this.log(`  P&L: ${pnl >= 0 ? '+' : ''}$${pnl.toFixed(2)} (${pos.soldShares} shares, ${Math.round(holdTimeMs / 1000)}s hold)`);
+    this.log(`  P&L: ${pnl >= 0 ? '+' : ''}$${pnl.toFixed(2)} (${pos.soldShares} shares, ${Math.round(holdTimeMs / 1000)}s hold${gasCost > 0 ? `, gas $${gasCost.toFixed(4)}` : ''})`);
 
     this.emit("positionClosed", { position: pos, record });
     this.saveState();
@@ -1978,7 +2278,7 @@ export class ShockFadeLive extends EventEmitter {
         // Safety: verify we still hold shares before each attempt
         if (attempt > 0 && !this.config.dryRun) {
           try {
-            const bal = await this.polyClient.getTokenBalance(pos.heldTokenId);
+            const bal = await this.venue.getTokenBalance(pos.heldTokenId);
             if (bal < pos.heldShares) {
               this.log(`  ✅ On-chain balance check: only ${bal} shares remain (need ${pos.heldShares}) — previous sell likely worked!`);
               sellFailed = false;
@@ -2009,18 +2309,20 @@ export class ShockFadeLive extends EventEmitter {
         try {
           this.log(`  📤 ${attempt > 0 ? `RETRY #${attempt}: ` : ''}GTC SELL ${pos.heldShares} shares @ ${(sellPrice * 100).toFixed(1)}¢ (bid: ${(bidPrice * 100).toFixed(1)}¢, +${(tick*100).toFixed(1)}¢ tick${attempt > 0 ? `, -${(priceReduction * 100).toFixed(0)}¢` : ''})`);
 
-          const result = await this.polyClient.sellSharesGTC(
-            pos.heldTokenId,
-            pos.heldShares,
-            sellPrice,
-            pos.negRisk,
-          );
+          const result = await this.venue.placeLimit({
+            tokenId: pos.heldTokenId,
+            side: "SELL",
+            shares: pos.heldShares,
+            price: sellPrice,
+            negRisk: pos.negRisk,
+          });
 
-          if (!result.success || !result.orderID) {
+          if (!result.success || !result.orderId) {
             this.log(`  ⚠️ GTC place failed: ${result.error || 'no orderID'}`);
             sellFailed = true;
             continue;
           }
+          const exitKey = this.trackExitOrder(result.orderId, pos.heldTokenId, pos.heldShares, result.filledShares, result.filledPrice ?? sellPrice);
 
           // Check if immediately filled on placement
           if (result.filledShares && result.filledShares >= pos.heldShares * 0.95) {
@@ -2031,10 +2333,10 @@ export class ShockFadeLive extends EventEmitter {
           }
 
           // Order is resting — wait for fill via UserChannelWS or timeout
-          this.log(`  ⏳ GTC resting (orderID: ${result.orderID.slice(0, 10)}…) — waiting up to ${GTC_FILL_TIMEOUT_MS / 1000}s for fill...`);
+          this.log(`  ⏳ GTC resting (orderID: ${result.orderId.slice(0, 10)}…) — waiting up to ${GTC_FILL_TIMEOUT_MS / 1000}s for fill...`);
 
           const fillResult = await this.waitForGTCFill(
-            result.orderID,
+            result.orderId,
             pos.heldTokenId,
             pos.heldShares,
             GTC_FILL_TIMEOUT_MS,
@@ -2049,7 +2351,8 @@ export class ShockFadeLive extends EventEmitter {
 
           // Not filled — cancel and retry at lower price
           this.log(`  ⏰ GTC not filled in ${GTC_FILL_TIMEOUT_MS / 1000}s — cancelling...`);
-          await this.polyClient.cancelSingleOrder(result.orderID);
+          this.orderMachine.cancel(exitKey, "exit fill timeout");
+          await this.venue.cancel(result.orderId);
           sellFailed = true;
 
         } catch (err: any) {
@@ -2063,14 +2366,15 @@ export class ShockFadeLive extends EventEmitter {
         this.log(`  🔄 GTC attempts exhausted — falling back to FAK at 1¢ floor`);
         try {
           // Verify shares still on-chain
-          const bal = await this.polyClient.getTokenBalance(pos.heldTokenId);
+          const bal = await this.venue.getTokenBalance(pos.heldTokenId);
           if (bal >= pos.heldShares * 0.5) {
-            const result = await this.polyClient.sellShares(
-              pos.heldTokenId,
-              pos.heldShares,
-              0.01, // Accept ANY price
-              pos.negRisk,
-            );
+            const result = await this.venue.placeIoc({
+              tokenId: pos.heldTokenId,
+              side: "SELL",
+              shares: pos.heldShares,
+              price: 0.01, // Accept ANY price
+              negRisk: pos.negRisk,
+            });
             if (result.success && result.filledShares && result.filledShares > 0) {
               exitPrice = result.filledPrice ?? 0.01;
               this.log(`  ✅ FAK fallback sold: ${result.filledShares} shares @ ${(exitPrice * 100).toFixed(1)}¢`);
@@ -2114,17 +2418,23 @@ export class ShockFadeLive extends EventEmitter {
   // ============================================================================
 
   private async cancelOrder(order: LiveLadderOrder): Promise<void> {
-    if (order.status !== "RESTING" || !order.orderId) return;
-    
-    // Check if WS already handled this cancellation to prevent double inventory return
-    if (this.wsHandledOrderIds.has(order.orderId)) {
-      this.log(`  ⏭️ [DEBUG] Skipping cancelOrder() - already handled by WS for orderId=${order.orderId.slice(0,10)}…`);
-      return;
-    }
+    if (!isLiveOrderState(order.status) || !order.orderId) return;
+
+    // Cancelled in the state machine BEFORE the venue call: a poll that runs
+    // while the cancel is in flight must not read the missing order as a fill,
+    // and a fill that beat the cancel arrives as a late fill and is reversed.
+    if (!this.orderMachine.cancel(order.id, "strategy")) return;
+    this.syncOrder(order);
+    this.stats.totalOrdersCancelled++;
+
+    // Return SELL-SIDE shares to inventory.
+    // NOTE: If cancel-fill race occurs (CLOB filled before our cancel),
+    // the WS fill handler will detect it and reverse this inventory return.
+    this.returnUnfilledShares(order, "INVENTORY");
 
     if (!this.config.dryRun) {
       try {
-        const result = await this.polyClient.cancelSingleOrder(order.orderId);
+        const result = await this.venue.cancel(order.orderId);
         if (!result.success) {
           this.log(`  ⚠️ Cancel failed for ${order.orderId}: ${result.error}`);
         }
@@ -2135,40 +2445,39 @@ export class ShockFadeLive extends EventEmitter {
       this.log(`  [DRY-RUN] Would cancel order ${order.orderId}`);
     }
 
-    order.status = "CANCELLED";
-    this.stats.totalOrdersCancelled++;
+    this.emit("orderCancelled", order);
+  }
 
-    // Return SELL-SIDE shares to inventory.
-    // NOTE: If cancel-fill race occurs (CLOB filled before our cancel),
-    // the WS fill handler will detect it and reverse this inventory return.
-    
-    // DEBUG: Log what we're looking for and what we found
-    this.log(`  🔍 [DEBUG] Looking for inventory: order.marketSlug="${order.marketSlug}"`);
+  /** Give a cancelled entry order's unfilled shares back to the market's inventory. */
+  private returnUnfilledShares(order: LiveLadderOrder, tag: string): void {
+    const unfilled = order.shares - order.filledShares;
     const inv = this.inventory.get(order.marketSlug);
-    if (inv) {
-      this.log(`  🔍 [DEBUG] Found inventory: inv.marketSlug="${inv.marketSlug}" | tokenA=${inv.tokenA.slice(0,8)}… tokenB=${inv.tokenB.slice(0,8)}…`);
-      this.log(`  🔍 [DEBUG] Order tokenId=${order.tokenId.slice(0,8)}… | Returning ${order.shares} shares`);
-      
-      if (order.tokenId === inv.tokenA) {
-        const before = inv.sharesA;
-        inv.sharesA += order.shares;
-        this.log(`  📦 [INVENTORY] Order cancelled: tokenA ${before} → ${inv.sharesA} (+${order.shares} returned) | Market: ${inv.marketSlug} | Total: ${inv.sharesA}A / ${inv.sharesB}B`);
-      } else {
-        const before = inv.sharesB;
-        inv.sharesB += order.shares;
-        this.log(`  📦 [INVENTORY] Order cancelled: tokenB ${before} → ${inv.sharesB} (+${order.shares} returned) | Market: ${inv.marketSlug} | Total: ${inv.sharesA}A / ${inv.sharesB}B`);
-      }
-    } else {
-      this.log(`  ⚠️ [DEBUG] No inventory found for marketSlug="${order.marketSlug}"!`);
+    if (!inv) {
+      this.log(`  ⚠️ [${tag}] No inventory found for marketSlug="${order.marketSlug}"!`);
+      return;
     }
+    if (unfilled <= 0) return;
 
-    // Mark in wsHandledOrderIds so poll doesn't re-process as fill
-    if (order.orderId) {
-      this.wsHandledOrderIds.add(order.orderId);
+    if (order.tokenId === inv.tokenA) {
+      const before = inv.sharesA;
+      inv.sharesA += unfilled;
+      this.log(`  📦 [${tag}] Order cancelled: tokenA ${before} → ${inv.sharesA} (+${unfilled} returned) | Market: ${inv.marketSlug} | Total: ${inv.sharesA}A / ${inv.sharesB}B`);
+    } else {
+      const before = inv.sharesB;
+      inv.sharesB += unfilled;
+      this.log(`  📦 [${tag}] Order cancelled: tokenB ${before} → ${inv.sharesB} (+${unfilled} returned) | Market: ${inv.marketSlug} | Total: ${inv.sharesA}A / ${inv.sharesB}B`);
     }
+  }
 
-    // Notify dashboard — WS handler won't emit because status is already CANCELLED
-    this.emit("orderCancelled", order);
+  /** Copy the state machine's view of an entry order onto the LiveLadderOrder. */
+  private syncOrder(order: LiveLadderOrder): void {
+    const tracked = this.orderMachine.get(order.id);
+    if (!tracked) return;
+    order.status = tracked.state;
+    order.orderId = tracked.venueOrderId;
+    if (tracked.filled > order.filledShares && order.filledAt === null) order.filledAt = Date.now();
+    order.filledShares = tracked.filled;
+    order.fillPrice = tracked.avgFillPrice;
   }
 
   // ============================================================================
@@ -2179,6 +2488,107 @@ export class ShockFadeLive extends EventEmitter {
    * Merge remaining shares back to USDC when a game ends.
    */
   async mergeRemainingShares(marketSlug: string): Promise<void> {
+    await this.mergeRemainingSharesForMarkets([marketSlug]);
+  }
+
+  /**
+   * Merge remaining shares for several markets (shutdown, end of a slate).
+   * The merges go out as one batched Safe transaction; each market succeeds
+   * or fails on its own.
+   */
+  async mergeRemainingSharesForMarkets(marketSlugs: string[]): Promise<void> {
+    const merges: Array<{ inv: MarketInventory; shares: number }> = [];
+    for (const marketSlug of marketSlugs) {
+      const plan = await this.planMerge(marketSlug);
+      if (plan) merges.push(plan);
+    }
+    if (merges.length === 0) return;
+
+    if (this.config.dryRun) {
+      for (const { inv, shares } of merges) {
+        this.log(`  [DRY-RUN] Would merge ${shares} shares`);
+        this.applyMerge(inv, shares);
+      }
+      return;
+    }
+
+    if (merges.length === 1) {
+      const [{ inv, shares }] = merges;
+      try {
+        const result = await this.mergeClient.merge(inv.conditionId, shares, inv.negRisk);
+        this.gas?.record("MERGE", inv.marketSlug, result.gasCostMatic, result.transactionHash);
+        this.chargeLateGas(inv.marketSlug);
+        if (result.success) {
+          this.log(`✅ Merged ${shares} shares → $${shares} USDC`);
+          this.applyMerge(inv, shares);
+        } else {
+          this.log(`❌ Merge failed: ${result.error}`);
+        }
+      } catch (err: any) {
+        this.log(`❌ Merge error: ${err?.message || err}`);
+      }
+      this.logMarketGas(inv.marketSlug);
+      return;
+    }
+
+    const batch = await this.mergeClient.mergeBatch(merges.map(({ inv, shares }) => ({
+      conditionId: inv.conditionId,
+      amount: shares,
+      negRisk: inv.negRisk,
+      ref: inv.marketSlug,
+    })));
+    batch.results.forEach((r, i) => {
+      const { inv, shares } = merges[i];
+      this.gas?.record("MERGE", inv.marketSlug, r.gasCostMatic, r.transactionHash);
+      this.chargeLateGas(inv.marketSlug);
+      if (r.success) {
+        this.log(`✅ Merged ${shares} shares → $${shares} USDC for ${inv.marketSlug} (batch of ${r.batchSize})`);
+        this.applyMerge(inv, shares);
+      } else {
+        this.log(`❌ Merge failed for ${inv.marketSlug}: ${r.error}`);
+      }
+      this.logMarketGas(inv.marketSlug);
+    });
+  }
+
+  /**
+   * Book a market's uncharged gas onto its last trade once no cycle is left
+   * to close and carry it: the final merge, the redemption, a refill mined
+   * after the last close. Stays uncharged while a position is still open,
+   * or when the market has no trade in memory. Returns the USD booked.
+   */
+  chargeLateGas(marketSlug: string): number {
+    if (!this.gas) return 0;
+    for (const pos of this.positions.values()) {
+      if (pos.marketSlug === marketSlug && pos.status === "OPEN") return 0;
+    }
+    let record: LiveTradeRecord | undefined;
+    for (let i = this.tradeHistory.length - 1; i >= 0 && !record; i--) {
+      if (this.tradeHistory[i].marketSlug === marketSlug) record = this.tradeHistory[i];
+    }
+    if (!record) return 0;
+
+    const usd = this.gas.chargeMarket(marketSlug, record.id);
+    if (usd === 0) return 0;
+    record.gasCost = (record.gasCost ?? 0) + usd;
+    record.pnl -= usd;
+    this.stats.totalPnL -= usd;
+    this.stats.totalGasCost += usd;
+    this.log(`⛽ Late gas $${usd.toFixed(4)} for ${marketSlug} booked onto trade ${record.id}`);
+    this.saveState();
+    return usd;
+  }
+
+  /** End-of-game gas report: what the market's trades carried and what is still waiting */
+  private logMarketGas(marketSlug: string): void {
+    const gas = this.gas?.getMarketGas(marketSlug);
+    if (!gas || gas.usd === 0) return;
+    this.log(`⛽ Gas for ${marketSlug}: ${gas.matic.toFixed(4)} MATIC ($${gas.usd.toFixed(4)}) — ` +
+      `$${gas.chargedUsd.toFixed(4)} charged to trades, $${gas.pendingUsd.toFixed(4)} not yet on a trade`);
+  }
+
+  /** Work out how many shares of a market can be merged, syncing from chain if needed */
+  private async planMerge(marketSlug: string): Promise<{ inv: MarketInventory; shares: number } | null> {
     let inv = this.inventory.get(marketSlug);
     
     // If no inventory entry (e.g., decided game skipped during startup),
@@ -2190,8 +2600,8 @@ export class ShockFadeLive extends EventEmitter {
         const tokenB = market.tokenIds[1];
         this.log(`💡 No inventory for ${marketSlug} — checking on-chain for mergeable shares`);
         try {
-          const balA = await this.polyClient.getTokenBalance(tokenA);
-          const balB = await this.polyClient.getTokenBalance(tokenB);
+          const balA = await this.venue.getTokenBalance(tokenA);
+          const balB = await this.venue.getTokenBalance(tokenB);
           if (balA > 0 || balB > 0) {
             this.log(`  Found on-chain: ${balA.toFixed(2)}A / ${balB.toFixed(2)}B`);
             // Create temporary inventory entry for merge
@@ -2214,15 +2624,15 @@ export class ShockFadeLive extends EventEmitter {
       }
     }
     
-    if (!inv) return;
+    if (!inv) return null;
 
     let mergeableShares = Math.min(inv.sharesA, inv.sharesB);
 
     // If internal state says 0 but we're not in dry-run, check on-chain (state may be desynced)
     if (mergeableShares <= 0 && !this.config.dryRun && inv.tokenA) {
       try {
-        const balA = await this.polyClient.getTokenBalance(inv.tokenA);
-        const balB = await this.polyClient.getTokenBalance(inv.tokenB);
+        const balA = await this.venue.getTokenBalance(inv.tokenA);
+        const balB = await this.venue.getTokenBalance(inv.tokenB);
         const onChainMergeable = Math.min(balA, balB);
         if (onChainMergeable > 0) {
           this.log(`💡 Internal shows 0 mergeable but on-chain has ${balA}A/${balB}B — using on-chain`);
@@ -2235,37 +2645,19 @@ export class ShockFadeLive extends EventEmitter {
       }
     }
 
-    if (mergeableShares <= 0) return;
+    if (mergeableShares <= 0) return null;
 
     this.log(`🔄 Merging ${mergeableShares} remaining shares for ${marketSlug}`);
+    return { inv, shares: mergeableShares };
+  }
 
-    if (this.config.dryRun) {
-      this.log(`  [DRY-RUN] Would merge ${mergeableShares} shares`);
-      inv.sharesA -= mergeableShares;
-      inv.sharesB -= mergeableShares;
-      if (inv.sharesA <= 0 && inv.sharesB <= 0) {
-        this.inventory.delete(marketSlug);
-        this.log(`🎰 Game slot freed: ${marketSlug} (${this.inventory.size}/${this.config.maxConcurrentGames} games active)`);
-      }
-      return;
-    }
-
-    try {
-      const result = await this.mergeClient.merge(inv.conditionId, mergeableShares, inv.negRisk);
-      if (result.success) {
-        this.log(`✅ Merged ${mergeableShares} shares → $${mergeableShares} USDC`);
-        inv.sharesA -= mergeableShares;
-        inv.sharesB -= mergeableShares;
-        // Free the game slot if inventory is empty
-        if (inv.sharesA <= 0 && inv.sharesB <= 0) {
-          this.inventory.delete(marketSlug);
-          this.log(`🎰 Game slot freed: ${marketSlug} (${this.inventory.size}/${this.config.maxConcurrentGames} games active)`);
-        }
-      } else {
-        this.log(`❌ Merge failed: ${result.error}`);
-      }
-    } catch (err: any) {
-      this.log(`❌ Merge error: ${err?.message || err}`);
+  private applyMerge(inv: MarketInventory, shares: number): void {
+    inv.sharesA -= shares;
+    inv.sharesB -= shares;
+    // Free the game slot if inventory is empty
+    if (inv.sharesA <= 0 && inv.sharesB <= 0) {
+      this.inventory.delete(inv.marketSlug);
+      this.log(`🎰 Game slot freed: ${inv.marketSlug} (${this.inventory.size}/${this.config.maxConcurrentGames} games active)`);
     }
   }
 
@@ -2335,78 +2727,97 @@ export class ShockFadeLive extends EventEmitter {
       // Cancel the existing TP order first
       await this.cancelCumulativeTPOrder(tp);
 
-      // Account for any partial TP fills: remaining unfilled shares from old TP
-      // keep their old blended price, new shares come in at new price
-      const remainingOldShares = tp.totalEntryShares - tp.filledTPShares;
-      const newWeightedSum = tp._weightedEntrySum - (tp.filledTPShares * tp.blendedEntryPrice) + (newShares * newSoldPrice);
-      const newTotalRemaining = remainingOldShares + newShares;
-
-      tp.totalEntryShares += newShares;
-      tp._weightedEntrySum += newShares * newSoldPrice;
-
-      // Blended entry across all remaining (non-TP'd) shares
-      const newBlended = newWeightedSum / newTotalRemaining;
-      tp.blendedEntryPrice = newBlended;
-      tp.tpPrice = Math.min(0.99, Math.max(0.01, 1.0 - newBlended + fadeTarget));
-      tp.tpShares = newTotalRemaining;
-      tp.status = tp.filledTPShares > 0 ? "PARTIAL" : "WATCHING";
-
-      this.log(`📊 Cumulative TP updated: ${marketSlug} [${shockId.slice(0, 16)}…] — ${tp.totalEntryShares} total shares (${tp.filledTPShares} TP'd), blended ${(newBlended * 100).toFixed(1)}¢, TP ${(tp.tpPrice * 100).toFixed(1)}¢, ${tp.tpShares} shares`);
-      this.emit("tpUpdate", tp);
+      this.blendIntoCumulativeTP(tp, newShares, newSoldPrice);
     }
 
     // Place the new TP order
     await this.placeCumulativeTPOrder(tp);
   }
 
+  /**
+   * DCA new entry shares into an existing cumulative TP (price and size only —
+   * the caller re-places the TP order).
+   */
+  private blendIntoCumulativeTP(tp: CumulativeTP, newShares: number, newSoldPrice: number): void {
+    const fadeTarget = this.config.fadeTargetCents / 100;
+
+    // Account for any partial TP fills: remaining unfilled shares from old TP
+    // keep their old blended price, new shares come in at new price
+    const remainingOldShares = tp.totalEntryShares - tp.filledTPShares;
+    const newWeightedSum = tp._weightedEntrySum - (tp.filledTPShares * tp.blendedEntryPrice) + (newShares * newSoldPrice);
+    const newTotalRemaining = remainingOldShares + newShares;
+
+    tp.totalEntryShares += newShares;
+    tp._weightedEntrySum += newShares * newSoldPrice;
+
+    // Blended entry across all remaining (non-TP'd) shares
+    const newBlended = newWeightedSum / newTotalRemaining;
+    tp.blendedEntryPrice = newBlended;
+    tp.tpPrice = Math.min(0.99, Math.max(0.01, 1.0 - newBlended + fadeTarget));
+    tp.tpShares = newTotalRemaining;
+    tp.status = tp.filledTPShares > 0 ? "PARTIAL" : "WATCHING";
+
+    this.log(`📊 Cumulative TP updated: ${tp.marketSlug} [${tp.shockId.slice(0, 16)}…] — ${tp.totalEntryShares} total shares (${tp.filledTPShares} TP'd), blended ${(newBlended * 100).toFixed(1)}¢, TP ${(tp.tpPrice * 100).toFixed(1)}¢, ${tp.tpShares} shares`);
+    this.emit("tpUpdate", tp);
+  }
+
   /**
    * Place a TP SELL limit order for the held (complement) token.
    */
   private async placeCumulativeTPOrder(tp: CumulativeTP): Promise<void> {
     if (tp.tpShares <= 0) return;
 
+    const key = `tp_${tp.shockId}_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`;
+    this.orderMachine.create(key, "TP", tp.heldTokenId, tp.tpShares, tp.shockId);
+
     if (this.config.dryRun) {
-      const orderId = `dry_tp_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`;
+      const orderId = `dry_${key}`;
+      this.orderMachine.acknowledge(key, orderId);
       tp.tpOrderId = orderId;
       this.log(`  [DRY-RUN] TP order placed: SELL ${tp.tpShares} complement @ ${(tp.tpPrice * 100).toFixed(1)}¢ (${orderId})`);
       return;
     }
 
     try {
-      const result = await this.polyClient.sellSharesGTC(
-        tp.heldTokenId,
-        tp.tpShares,
-        tp.tpPrice,
-        tp.negRisk,
-      );
-
-      if (result.success && result.orderID) {
-        tp.tpOrderId = result.orderID;
-        this.log(`  📋 TP order placed: SELL ${tp.tpShares} complement @ ${(tp.tpPrice * 100).toFixed(1)}¢ (${result.orderID.slice(0, 10)}…)`);
+      const result = await this.venue.placeLimit({
+        tokenId: tp.heldTokenId,
+        side: "SELL",
+        shares: tp.tpShares,
+        price: tp.tpPrice,
+        negRisk: tp.negRisk,
+      });
 
-        // Check if immediately filled (API response confirms fill — not an assumption)
-        if (result.filledShares && result.filledShares > 0) {
-          this.log(`  💰 TP IMMEDIATELY FILLED: ${result.filledShares} shares @ ${((result.filledPrice ?? tp.tpPrice) * 100).toFixed(1)}¢`);
+      if (result.success && result.orderId) {
+        this.orderMachine.acknowledge(key, result.orderId);
+        tp.tpOrderId = result.orderId;
+        this.log(`  📋 TP order placed: SELL ${tp.tpShares} complement @ ${(tp.tpPrice * 100).toFixed(1)}¢ (${result.orderId.slice(0, 10)}…)`);
 
-          // Mark in wsHandledOrderIds to prevent double-processing when WS fill arrives
-          this.wsHandledOrderIds.add(result.orderID);
+        // Check if immediately filled (API response confirms fill — not an assumption).
+        // Booked as a placement fill so the stream's echo of the same match is not counted again.
+        const fill = result.filledShares > 0
+          ? this.orderMachine.fill(key, `placement:${result.orderId}`, result.filledShares, result.filledPrice ?? tp.tpPrice, { placement: true })
+          : null;
+        if (fill) {
+          this.log(`  💰 TP IMMEDIATELY FILLED: ${fill.size} shares @ ${(fill.price * 100).toFixed(1)}¢`);
 
           // NOTE: No inventory deduction! Held shares came from split pairs.
           // Entry ladder placement already deducted from inventory.
           // TP immediate fill (exit) should NOT deduct again.
           this.log(`  📦 [INVENTORY] TP immediate fill: NO deduction (held shares from position, not inventory pool)`);
 
-          if (result.filledShares >= tp.tpShares) {
+          if (fill.size >= tp.tpShares) {
             this.completeCumulativeTP(tp);
           } else {
-            this.partialFillCumulativeTP(tp, result.filledShares, result.filledPrice ?? tp.tpPrice);
+            this.partialFillCumulativeTP(tp, fill.size, fill.price);
           }
         }
       } else {
+        this.orderMachine.fail(key, result.error || "placement rejected");
         this.log(`  ⚠️ TP order failed: ${result.error}`);
         tp.tpOrderId = null;
       }
     } catch (err: any) {
+      this.orderMachine.fail(key, String(err?.message || err));
       this.log(`  ⚠️ TP order error: ${err?.message || err}`);
       tp.tpOrderId = null;
     }
@@ -2417,21 +2828,24 @@ export class ShockFadeLive extends EventEmitter {
    */
   private async cancelCumulativeTPOrder(tp: CumulativeTP): Promise<void> {
     if (!tp.tpOrderId) return;
+    const orderId = tp.tpOrderId;
+    tp.tpOrderId = null;
+
+    const tracked = this.orderMachine.getByVenueId(orderId);
+    if (tracked && !this.orderMachine.cancel(tracked.key, "strategy")) return;
 
     if (!this.config.dryRun) {
       try {
-        const result = await this.polyClient.cancelSingleOrder(tp.tpOrderId);
+        const result = await this.venue.cancel(orderId);
         if (!result.success) {
-          this.log(`  ⚠️ TP cancel failed for ${tp.tpOrderId}: ${result.error}`);
+          this.log(`  ⚠️ TP cancel failed for ${orderId}: ${result.error}`);
         }
       } catch (err: any) {
         this.log(`  ⚠️ TP cancel error: ${err?.message || err}`);
       }
     } else {
-      this.log(`  [DRY-RUN] Would cancel TP order ${tp.tpOrderId}`);
+      this.log(`  [DRY-RUN] Would cancel TP order ${orderId}`);
     }
-
-    tp.tpOrderId = null;
   }
 
   /**
@@ -2460,10 +2874,13 @@ export class ShockFadeLive extends EventEmitter {
       pos.status = "TAKE_PROFIT";
       pos.exitPrice = tp.tpPrice;
       pos.exitTime = Date.now();
-      pos.pnl = (pos.soldPrice + tp.tpPrice - 1.0) * pos.soldShares;
+      const tradeId = `ltrade_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`;
+      const gasCost = this.gas?.chargeCycle(pos.marketSlug, pos.shockId, tradeId) ?? 0;
+      pos.pnl = (pos.soldPrice + tp.tpPrice - 1.0) * pos.soldShares - gasCost;
 
       this.stats.totalPositionsClosed++;
       this.stats.totalPnL += pos.pnl;
+      this.stats.totalGasCost += gasCost;
       this.stats.totalProceeds += (pos.soldPrice + tp.tpPrice) * pos.soldShares;
 
       if (pos.pnl > 0) {
@@ -2473,7 +2890,8 @@ export class ShockFadeLive extends EventEmitter {
         this.stats.lossCount++;
         this.consecutiveLosses++;
       }
-      this.pnlHistory.push(pos.pnl);
+      this.recordPnl(pos.pnl);
+      this.breakers?.recordTrade(pos.pnl, this.sportOf(pos.marketSlug));
 
       // Clear timeout
       const timer = this.positionTimeouts.get(pos.id);
@@ -2482,7 +2900,7 @@ export class ShockFadeLive extends EventEmitter {
       // Create trade record
       const holdTimeMs = (pos.exitTime || Date.now()) - pos.entryTime;
       const record: LiveTradeRecord = {
-        id: `ltrade_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
+        id: tradeId,
         marketSlug: pos.marketSlug,
         soldTokenId: pos.soldTokenId,
         soldPrice: pos.soldPrice,
@@ -2492,13 +2910,14 @@ export class ShockFadeLive extends EventEmitter {
         exitShares: exitedShares,  // Use saved value, not zeroed heldShares
         pnl: pos.pnl,
         splitCost: pos.splitCost,
+        gasCost,
         totalProceeds: (pos.soldPrice + tp.tpPrice) * pos.soldShares,
         entryTime: pos.entryTime,
         exitTime: pos.exitTime || Date.now(),
         exitReason: "TAKE_PROFIT",
         holdTimeMs,
       };
-      this.tradeHistory.push(record);
+      this.recordTrade(record);
       this.emit("positionClosed", { position: pos, record });
     }
 
@@ -2509,7 +2928,7 @@ export class ShockFadeLive extends EventEmitter {
     // Cancel ONLY resting entry ladder orders for THIS cycle and return shares
     let cancelledCount = 0;
     for (const order of this.orders.values()) {
-      if (order.shockId !== tp.shockId || order.status !== "RESTING") continue;
+      if (order.shockId !== tp.shockId || !isLiveOrderState(order.status)) continue;
       await this.cancelOrder(order);
       cancelledCount++;
     }
@@ -2556,7 +2975,7 @@ export class ShockFadeLive extends EventEmitter {
   /**
    * Event-driven exit for cumulative TP — cancel TP order, market-sell all AWAY shares.
    */
-  private async eventExitCumulativeTP(tp: CumulativeTP, reason: "EVENT_EXIT" | "SCORING_RUN_BAIL"): Promise<void> {
+  private async eventExitCumulativeTP(tp: CumulativeTP, reason: "EVENT_EXIT" | "SCORING_RUN_BAIL" | "MANUAL_EXIT"): Promise<void> {
     // Cancel the resting TP order
     await this.cancelCumulativeTPOrder(tp);
 
@@ -2601,12 +3020,146 @@ export class ShockFadeLive extends EventEmitter {
       this.log(`⚠️ Refill check error: ${err?.message || err}`));
   }
 
+  // ============================================================================
+  // OPERATOR CONTROL — pause / resume / flatten (LiveControl)
+  // ============================================================================
+
+  /**
+   * Stop new cycles, pre-splits and refills everywhere until resume(). Open
+   * cycles keep their TPs and exits.
+   */
+  pause(reason: string): void {
+    this.pauseReason = reason;
+    this.log(`⏸️ PAUSED: ${reason}`);
+  }
+
+  /**
+   * Lift the operator pause and a consecutive-loss halt (the loss streak
+   * starts over). Returns why trading stays halted instead, or null: a
+   * reconciliation hold needs its report confirmed, and the session-loss
+   * halt would come straight back on the next shock. Either way nothing is
+   * lifted.
+   */
+  resume(): string | null {
+    if (this.reconciliationHaltReason) {
+      return `${this.reconciliationHaltReason} — confirm it with npm run reconcile`;
+    }
+    if (this.stats.totalPnL < -this.config.maxSessionLoss) {
+      return `session loss $${Math.abs(this.stats.totalPnL).toFixed(2)} exceeds max $${this.config.maxSessionLoss} — raise maxSessionLoss first`;
+    }
+    if (this.isHalted()) this.log(`▶️ RESUMED (was: ${this.getHaltReason()})`);
+    this.pauseReason = null;
+    this.halted = false;
+    this.haltReason = null;
+    this.consecutiveLosses = 0;
+    return null;
+  }
+
+  isPaused(): boolean {
+    return this.pauseReason !== null;
+  }
+
+  /** Keep new cycles and refills off one market until unblockMarket() */
+  blockMarket(marketSlug: string, reason: string): void {
+    this.blockedMarkets.set(marketSlug, reason);
+  }
+
+  unblockMarket(marketSlug: string): boolean {
+    return this.blockedMarkets.delete(marketSlug);
+  }
+
+  getBlockedMarkets(): Array<{ marketSlug: string; reason: string }> {
+    return Array.from(this.blockedMarkets, ([marketSlug, reason]) => ({ marketSlug, reason }));
+  }
+
+  /**
+   * Flatten one market now: block it, cancel its resting ladder orders, exit
+   * every cycle (cancel the TP, sell the held shares) and merge what is left
+   * back to USDC. A position whose sell fails stays OPEN and is counted in
+   * `openPositions`.
+   */
+  async flattenMarket(marketSlug: string, reason: string): Promise<FlattenResult> {
+    const exited = await this.exitMarket(marketSlug, reason);
+    await this.mergeRemainingShares(marketSlug);
+    return this.flattenResult(marketSlug, exited);
+  }
+
+  /** Pause, then flatten every market with inventory, orders or open cycles (one batched merge). */
+  async flattenAll(reason: string): Promise<FlattenResult[]> {
+    this.pause(reason);
+    const slugs = new Set<string>([
+      ...this.inventory.keys(),
+      ...this.getActiveOrders().map((o) => o.marketSlug),
+      ...this.getOpenPositions().map((p) => p.marketSlug),
+      ...Array.from(this.cumulativeTPs.values()).map((tp) => tp.marketSlug),
+    ]);
+    const exited = new Map<string, { cancelledOrders: number; closedPositions: number }>();
+    for (const slug of slugs) exited.set(slug, await this.exitMarket(slug, reason));
+    await this.mergeRemainingSharesForMarkets(Array.from(slugs));
+    return Array.from(exited, ([slug, counts]) => this.flattenResult(slug, counts));
+  }
+
+  private async exitMarket(marketSlug: string, reason: string): Promise<{ cancelledOrders: number; closedPositions: number }> {
+    this.blockMarket(marketSlug, reason);
+    this.log(`🧹 FLATTEN ${marketSlug}: ${reason}`);
+
+    // Orders first, so nothing new fills while the exits go out
+    let cancelledOrders = 0;
+    for (const order of this.orders.values()) {
+      if (order.marketSlug !== marketSlug || !isLiveOrderState(order.status)) continue;
+      await this.cancelOrder(order);
+      cancelledOrders++;
+    }
+
+    for (const tp of this.getCumulativeTPsForMarket(marketSlug)) {
+      if (tp.status !== "WATCHING" && tp.status !== "PARTIAL") continue;
+      await this.eventExitCumulativeTP(tp, "MANUAL_EXIT");
+    }
+
+    // One sell per held token (cycles may have faded either side)
+    const byToken = new Map<string, LivePosition[]>();
+    for (const pos of this.positions.values()) {
+      if (pos.marketSlug !== marketSlug || pos.status !== "OPEN") continue;
+      byToken.set(pos.heldTokenId, [...(byToken.get(pos.heldTokenId) ?? []), pos]);
+    }
+    let closedPositions = 0;
+    for (const group of byToken.values()) {
+      await this.batchClosePositions(group, "MANUAL_EXIT");
+      closedPositions += group.filter((p) => p.status !== "OPEN").length;
+    }
+
+    this.log(`🧹 FLATTEN ${marketSlug}: cancelled ${cancelledOrders} orders, closed ${closedPositions} positions`);
+    return { cancelledOrders, closedPositions };
+  }
+
+  private flattenResult(marketSlug: string, counts: { cancelledOrders: number; closedPositions: number }): FlattenResult {
+    const inv = this.inventory.get(marketSlug);
+    return {
+      marketSlug,
+      ...counts,
+      openPositions: this.getOpenPositions().filter((p) => p.marketSlug === marketSlug).length,
+      sharesLeft: inv ? { a: inv.sharesA, b: inv.sharesB } : { a: 0, b: 0 },
+    };
+  }
+
   // ============================================================================
   // HELPERS
   // ============================================================================
 
+  /** Register a GTC exit sell with the order state machine so stream fills reach it. */
+  private trackExitOrder(orderId: string, tokenId: string, shares: number, placementFill: number, price: number): string {
+    const key = `exit_${orderId}`;
+    this.orderMachine.create(key, "EXIT", tokenId, shares);
+    this.orderMachine.acknowledge(key, orderId);
+    if (placementFill > 0) {
+      this.orderMachine.fill(key, `placement:${orderId}`, placementFill, price, { placement: true });
+    }
+    return key;
+  }
+
   /**
-   * Wait for a GTC order to fill by monitoring UserChannelWS events.
+   * Wait for a GTC order to fill: the fill stream (via the order state
+   * machine) or, failing that, the venue's order status.
    * Returns when either the order fills or timeout expires.
    */
   private async waitForGTCFill(
@@ -2615,43 +3168,43 @@ export class ShockFadeLive extends EventEmitter {
     expectedShares: number,
     timeoutMs: number,
   ): Promise<{ filled: boolean; shares?: number; price?: number }> {
+    const streamFilled = () => {
+      const tracked = this.orderMachine.getByVenueId(orderId);
+      return tracked?.state === "FILLED"
+        ? { filled: true, shares: tracked.filled, price: tracked.avgFillPrice ?? undefined }
+        : null;
+    };
+
     return new Promise((resolve) => {
       let resolved = false;
-      const startBal = this.getInventoryShares(tokenId);
 
       const timer = setTimeout(() => {
         if (resolved) return;
         resolved = true;
-        // Check if wsHandledOrderIds picked it up (filled via UserChannelWS)
-        if (this.wsHandledOrderIds.has(orderId)) {
-          resolve({ filled: true });
-          return;
-        }
-        resolve({ filled: false });
+        resolve(streamFilled() ?? { filled: false });
       }, timeoutMs);
 
-      // Poll every 500ms: check if UserChannelWS detected the fill, or check order status
+      // Poll every 500ms: check if the fill stream reported the fill, or check order status
       const poll = setInterval(async () => {
         if (resolved) { clearInterval(poll); return; }
 
-        // Check 1: Did UserChannelWS already handle this order?
-        if (this.wsHandledOrderIds.has(orderId)) {
+        // Check 1: Did the fill stream already fill this order?
+        const viaStream = streamFilled();
+        if (viaStream) {
           resolved = true;
           clearTimeout(timer);
           clearInterval(poll);
-          resolve({ filled: true });
+          resolve(viaStream);
           return;
         }
 
         // Check 2: Query order status from CLOB
         try {
-          const orderStatus = await this.polyClient.getOrderById(orderId);
-          if (orderStatus?.size_matched) {
-            const matched = parseFloat(orderStatus.size_matched);
+          const orderStatus = await this.venue.getOrder(orderId);
+          if (orderStatus && orderStatus.sizeMatched > 0) {
+            const matched = orderStatus.sizeMatched;
             if (matched >= expectedShares * 0.95) {
-              const price = orderStatus.associate_trades?.[0]?.price
-                ? parseFloat(orderStatus.associate_trades[0].price)
-                : undefined;
+              const price = orderStatus.avgFillPrice;
               resolved = true;
               clearTimeout(timer);
               clearInterval(poll);
@@ -2703,6 +3256,7 @@ export class ShockFadeLive extends EventEmitter {
     maxConcurrentGames?: number;
     maxCyclesPerGame?: number;
     ladderSizes?: number[];
+    maxPerGame?: number;
     maxSessionLoss?: number;
     maxConsecutiveLosses?: number;
     // Detector params (forwarded)
@@ -2723,6 +3277,10 @@ export class ShockFadeLive extends EventEmitter {
         return ["ERROR: invalid ladderSizes — config unchanged"];
       }
     }
+    if (newVals.maxPerGame !== undefined && (isNaN(newVals.maxPerGame) || newVals.maxPerGame <= 0)) {
+      this.log(`❌ Config reload rejected: invalid maxPerGame ${newVals.maxPerGame}`);
+      return ["ERROR: invalid maxPerGame — config unchanged"];
+    }
     if (newVals.maxConcurrentGames !== undefined && (isNaN(newVals.maxConcurrentGames) || newVals.maxConcurrentGames < 1)) {
       this.log(`❌ Config reload rejected: invalid maxConcurrentGames ${newVals.maxConcurrentGames}`);
       return ["ERROR: invalid maxConcurrentGames — config unchanged"];
@@ -2741,6 +3299,10 @@ export class ShockFadeLive extends EventEmitter {
       changes.push(`maxCyclesPerGame: ${this.config.maxCyclesPerGame} → ${newVals.maxCyclesPerGame}`);
       this.config.maxCyclesPerGame = newVals.maxCyclesPerGame;
     }
+    if (newVals.maxPerGame !== undefined && newVals.maxPerGame !== this.config.maxPerGame) {
+      changes.push(`maxPerGame: $${this.config.maxPerGame} → $${newVals.maxPerGame}`);
+      this.config.maxPerGame = newVals.maxPerGame;
+    }
     if (newVals.maxSessionLoss !== undefined && newVals.maxSessionLoss !== this.config.maxSessionLoss) {
       changes.push(`maxSessionLoss: $${this.config.maxSessionLoss} → $${newVals.maxSessionLoss}`);
       this.config.maxSessionLoss = newVals.maxSessionLoss;
@@ -2822,7 +3384,7 @@ export class ShockFadeLive extends EventEmitter {
   }
 
   getActiveOrders(): LiveLadderOrder[] {
-    return Array.from(this.orders.values()).filter(o => o.status === "RESTING");
+    return Array.from(this.orders.values()).filter(o => isLiveOrderState(o.status));
   }
 
   /**
@@ -2835,7 +3397,7 @@ export class ShockFadeLive extends EventEmitter {
     const now = Date.now();
 
     for (const order of this.orders.values()) {
-      if (order.status !== "RESTING") continue;
+      if (!isLiveOrderState(order.status)) continue;
       if (now - order.createdAt < ENTRY_ORDER_EXPIRY_MS) continue;
 
       // Cancel on CLOB first — shares are locked in resting orders until actually cancelled
@@ -2850,6 +3412,7 @@ export class ShockFadeLive extends EventEmitter {
     return Array.from(this.orders.values());
   }
 
+  /** The last TRADE_HISTORY_WINDOW trades — full history is in the SQLite store */
   getTradeHistory(): LiveTradeRecord[] {
     return [...this.tradeHistory];
   }
@@ -2858,6 +3421,15 @@ export class ShockFadeLive extends EventEmitter {
     return Array.from(this.cumulativeTPs.values());
   }
 
+  getMarketMeta(marketSlug: string): SportsMarket | undefined {
+    return this.marketMeta.get(marketSlug);
+  }
+
+  /** Sport of a registered market ("UNKNOWN" if it never was) */
+  private sportOf(marketSlug: string): string {
+    return this.marketMeta.get(marketSlug)?.sport ?? "UNKNOWN";
+  }
+
   getInventory(marketSlug: string): MarketInventory | undefined {
     return this.inventory.get(marketSlug);
   }
@@ -2870,50 +3442,61 @@ export class ShockFadeLive extends EventEmitter {
     return this.latestPrices.get(tokenId);
   }
 
-  getUserChannelWS(): UserChannelWS | null {
-    return this.userChannelWS;
+  getVenue(): ExecutionVenue {
+    return this.venue;
   }
 
   isDryRun(): boolean {
     return this.config.dryRun;
   }
 
+  /** Halted by a safety check or paused by an operator */
   isHalted(): boolean {
-    return this.halted;
+    return this.halted || this.pauseReason !== null;
   }
 
   getHaltReason(): string | null {
-    return this.haltReason;
+    const reasons = [this.pauseReason, this.halted ? this.haltReason : null].filter((r): r is string => !!r);
+    return reasons.length > 0 ? reasons.join("; ") : null;
   }
 
   getConsecutiveLosses(): number {
     return this.consecutiveLosses;
   }
 
+  getReconciliation(): ReconciliationReport | null {
+    return this.reconciliation;
+  }
+
   // ============================================================================
   // PERSISTENCE
   // ============================================================================
 
+  private recordTrade(record: LiveTradeRecord): void {
+    this.tradeHistory.push(record);
+    if (this.tradeHistory.length > TRADE_HISTORY_WINDOW) this.tradeHistory = this.tradeHistory.slice(-TRADE_HISTORY_WINDOW);
+  }
+
+  private recordPnl(pnl: number): void {
+    this.pnlHistory.push(pnl);
+    this.pnlCount++;
+    if (this.pnlHistory.length > PNL_HISTORY_WINDOW) this.pnlHistory = this.pnlHistory.slice(-PNL_HISTORY_WINDOW);
+  }
+
   private saveState(): void {
     try {
-      const dir = path.dirname(this.statePath);
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
-      }
-
-      const state = {
+      this.store.save({
         timestamp: Date.now(),
-        model: "shock-fade-live",
+        model: STATE_MODEL,
         inventory: Array.from(this.inventory.values()),
         orders: Array.from(this.orders.values()),
         positions: Array.from(this.positions.values()),
-        tradeHistory: this.tradeHistory.slice(-200),
+        tradeHistory: this.tradeHistory,
         stats: this.stats,
-        pnlHistory: this.pnlHistory.slice(-500),
+        pnlHistory: this.pnlHistory,
+        pnlCount: this.pnlCount,
         cumulativeTPs: Array.from(this.cumulativeTPs.values()),
-      };
-
-      fs.writeFileSync(this.statePath, JSON.stringify(state, null, 2));
+      });
     } catch (err) {
       this.log(`Failed to save state: ${err}`);
     }
@@ -2921,14 +3504,13 @@ export class ShockFadeLive extends EventEmitter {
 
   private loadState(): void {
     try {
-      if (!fs.existsSync(this.statePath)) {
+      const data = this.store.load();
+      if (!data) {
         this.log("No persisted state found, starting fresh");
         return;
       }
 
-      const data = JSON.parse(fs.readFileSync(this.statePath, "utf-8"));
-
-      if (data.model !== "shock-fade-live") {
+      if (data.model !== STATE_MODEL) {
         this.log("Wrong model in state file, starting fresh");
         return;
       }
@@ -2942,6 +3524,8 @@ export class ShockFadeLive extends EventEmitter {
       // Active orders (RESTING) will be auto-cancelled by the 60s expiry timer if stale.
       // Filled orders need their positions and TPs to remain intact.
       for (const order of data.orders || []) {
+        // Pre-state-machine snapshots have no filledShares
+        if (order.filledShares === undefined) order.filledShares = order.status === "FILLED" ? order.shares : 0;
         this.orders.set(order.id, order);
       }
 
@@ -2949,8 +3533,9 @@ export class ShockFadeLive extends EventEmitter {
         this.positions.set(pos.id, pos);
       }
 
-      this.tradeHistory = data.tradeHistory || [];
-      this.pnlHistory = data.pnlHistory || [];
+      this.tradeHistory = (data.tradeHistory || []).slice(-TRADE_HISTORY_WINDOW);
+      this.pnlHistory = (data.pnlHistory || []).slice(-PNL_HISTORY_WINDOW);
+      this.pnlCount = this.pnlHistory.length;
 
       // CRITICAL FIX: Verify stats match tradeHistory
       // If stats show 78 closed but tradeHistory is empty, stats are stale
@@ -2969,6 +3554,7 @@ export class ShockFadeLive extends EventEmitter {
           totalPositionsClosed: 0,
           totalPnL: 0,
           totalSplitCost: 0,
+          totalGasCost: 0,
           totalProceeds: 0,
           winCount: 0,
           lossCount: 0,
@@ -2995,18 +3581,21 @@ export class ShockFadeLive extends EventEmitter {
         }
       }
 
+      // The journal is written on every order transition, the snapshot only every 30s
+      this.recoverOrdersFromJournal();
+
       // Reconstruct missing cumulative TPs from orphaned filled orders or open positions
       // Group filled orders by shockId that don't have a corresponding closed trade or active TP
       const filledByShockId = new Map<string, LiveLadderOrder[]>();
       for (const order of this.orders.values()) {
-        if (order.status !== "FILLED") continue;
+        if (order.filledShares <= 0) continue;
         const sid = order.shockId || order.marketSlug; // fallback for old orders without shockId
         if (this.cumulativeTPs.has(sid)) continue;
         // Check if this fill already has a closed trade
         const hasTrade = this.tradeHistory.some(t =>
           t.marketSlug === order.marketSlug &&
           Math.abs((t.soldPrice || 0) - order.price) < 0.001 &&
-          (t.soldShares || t.exitShares || 0) === order.shares
+          (t.soldShares || t.exitShares || 0) === order.filledShares
         );
         if (hasTrade) continue;
         if (!filledByShockId.has(sid)) filledByShockId.set(sid, []);
@@ -3080,8 +3669,8 @@ export class ShockFadeLive extends EventEmitter {
         let weightedSum = 0;
         if (fills.length > 0) {
           for (const f of fills) {
-            totalShares += f.shares;
-            weightedSum += f.shares * f.price;
+            totalShares += f.filledShares;
+            weightedSum += f.filledShares * (f.fillPrice ?? f.price);
           }
         } else if (pos) {
           totalShares = pos.soldShares;
@@ -3126,20 +3715,20 @@ export class ShockFadeLive extends EventEmitter {
               conditionId,
               negRisk,
               soldTokenId: f.tokenId,
-              soldPrice: f.price,
-              soldShares: f.shares,
+              soldPrice: f.fillPrice ?? f.price,
+              soldShares: f.filledShares,
               heldTokenId,
-              heldShares: f.shares,
-              splitCost: f.shares,
+              heldShares: f.filledShares,
+              splitCost: f.filledShares,
               entryTime: f.filledAt || f.createdAt,
               exitTime: null,
-              takeProfitPrice: 1.0 - f.price + fadeTarget,
+              takeProfitPrice: 1.0 - (f.fillPrice ?? f.price) + fadeTarget,
               exitPrice: null,
               pnl: null,
               shockId: f.shockId,
               status: "OPEN",
             });
-            this.log(`🔧 Reconstructed position: ${posId} — ${f.shares}sh @ ${(f.price * 100).toFixed(1)}¢`);
+            this.log(`🔧 Reconstructed position: ${posId} — ${f.filledShares}sh @ ${((f.fillPrice ?? f.price) * 100).toFixed(1)}¢`);
           }
         }
       }
@@ -3150,10 +3739,325 @@ export class ShockFadeLive extends EventEmitter {
     }
   }
 
+  /**
+   * Replay the order journal over the restored snapshot. Orders the journal
+   * has moved past the snapshot take the journal's state, plus the inventory
+   * and TP effects of the transitions the snapshot missed. Orders only the
+   * snapshot knows (older state files) are adopted into the journal.
+   */
+  private recoverOrdersFromJournal(): void {
+    const replayed = this.orderMachine.replay();
+    let recovered = 0;
+
+    for (const order of this.orders.values()) {
+      const tracked = this.orderMachine.get(order.id);
+      if (!tracked) {
+        this.orderMachine.restore({
+          key: order.id,
+          kind: "ENTRY",
+          ref: order.shockId,
+          tokenId: order.tokenId,
+          size: order.shares,
+          venueOrderId: order.orderId,
+          state: order.status,
+          filled: order.filledShares,
+          avgFillPrice: order.fillPrice,
+          tradeIds: [],
+          placementUnconfirmed: 0,
+          createdAt: order.createdAt,
+          updatedAt: order.filledAt ?? order.createdAt,
+        });
+        continue;
+      }
+      if (tracked.state === order.status && tracked.filled <= order.filledShares + 1e-9) continue;
+
+      const before = { status: order.status, filled: order.filledShares, notional: order.filledShares * (order.fillPrice ?? order.price) };
+      this.syncOrder(order);
+      recovered++;
+      this.log(`🔁 [JOURNAL] L${order.level} ${order.id}: ${before.status} → ${order.status} (filled ${before.filled} → ${order.filledShares})`);
+
+      // Inventory: a cancel / fail hands the unfilled shares back
+      const returned = (status: OrderState, filled: number) =>
+        status === "CANCELLED" || status === "FAILED" ? order.shares - filled : 0;
+      const inventoryDelta = returned(order.status, order.filledShares) - returned(before.status, before.filled);
+      const inv = this.inventory.get(order.marketSlug);
+      if (inv && inventoryDelta !== 0) {
+        if (order.tokenId === inv.tokenA) inv.sharesA += inventoryDelta;
+        else inv.sharesB += inventoryDelta;
+        this.log(`  📦 [JOURNAL] Inventory ${inventoryDelta > 0 ? "+" : ""}${inventoryDelta} ${order.tokenId === inv.tokenA ? "tokenA" : "tokenB"} [${order.marketSlug}]`);
+      }
+
+      // Fills the snapshot missed: fold into the cycle's TP. With no TP the
+      // reconstruction below builds one from the filled orders.
+      const newShares = order.filledShares - before.filled;
+      const tp = this.cumulativeTPs.get(order.shockId);
+      const heldTokenId = this.getComplementToken(order.tokenId) ?? (inv ? (order.tokenId === inv.tokenA ? inv.tokenB : inv.tokenA) : null);
+      if (newShares > 1e-9 && tp && heldTokenId) {
+        const price = (order.filledShares * (order.fillPrice ?? order.price) - before.notional) / newShares;
+        this.blendIntoCumulativeTP(tp, newShares, price);
+        const posId = `recon_${order.id}_${order.filledShares}`;
+        this.positions.set(posId, {
+          id: posId,
+          marketSlug: order.marketSlug,
+          conditionId: order.conditionId,
+          negRisk: inv?.negRisk ?? false,
+          soldTokenId: order.tokenId,
+          soldPrice: price,
+          soldShares: newShares,
+          heldTokenId,
+          heldShares: newShares,
+          splitCost: newShares,
+          entryTime: order.filledAt ?? Date.now(),
+          exitTime: null,
+          takeProfitPrice: 1.0 - price + this.config.fadeTargetCents / 100,
+          exitPrice: null,
+          pnl: null,
+          shockId: order.shockId,
+          status: "OPEN",
+        });
+        this.log(`  🔧 [JOURNAL] ${newShares}sh @ ${(price * 100).toFixed(1)}¢ folded into TP ${order.shockId.slice(0, 16)}… (resting TP order still has the old size)`);
+      }
+    }
+
+    for (const tracked of this.orderMachine.getAll()) {
+      if (tracked.kind === "ENTRY" && !this.orders.has(tracked.key) && tracked.state !== "FAILED") {
+        this.log(`⚠️ [JOURNAL] Entry order ${tracked.key} (${tracked.state}, ${tracked.filled}/${tracked.size} filled, venue id ${tracked.venueOrderId ?? "none"}) is not in the state snapshot — check the venue`);
+      }
+    }
+
+    // TP orders: adopt unknown ones, drop ones the journal shows are gone
+    for (const tp of this.cumulativeTPs.values()) {
+      if (!tp.tpOrderId) continue;
+      const tracked = this.orderMachine.getByVenueId(tp.tpOrderId);
+      if (!tracked) {
+        const now = Date.now();
+        this.orderMachine.restore({
+          key: `tp_${tp.shockId}_restored`,
+          kind: "TP",
+          ref: tp.shockId,
+          tokenId: tp.heldTokenId,
+          size: tp.tpShares,
+          venueOrderId: tp.tpOrderId,
+          state: "RESTING",
+          filled: 0,
+          avgFillPrice: null,
+          tradeIds: [],
+          placementUnconfirmed: 0,
+          createdAt: now,
+          updatedAt: now,
+        });
+      } else if (!isLiveOrderState(tracked.state)) {
+        this.log(`⚠️ [JOURNAL] TP order for ${tp.marketSlug} is ${tracked.state} in the journal (${tracked.filled} filled) — check the venue, TP P&L for it was not booked`);
+        tp.tpOrderId = null;
+      }
+    }
+
+    const dropped = this.orderMachine.compact(ORDER_JOURNAL_RETAIN_MS);
+    if (replayed > 0 || recovered > 0) {
+      this.log(`🔁 Order journal: ${replayed} entries replayed, ${recovered} orders recovered, ${dropped} settled orders compacted`);
+    }
+  }
+
+  // ============================================================================
+  // STARTUP RECONCILIATION
+  // ============================================================================
+
+  /**
+   * Check the restored state against the venue (see StartupReconciliation).
+   * Discrepancies the venue's answer settles are repaired in place; anything
+   * else halts trading until an operator confirms the report. Call after
+   * start(), before shocks are fed in.
+   */
+  async reconcileWithVenue(): Promise<ReconciliationReport | null> {
+    if (this.config.dryRun) {
+      this.log("🔎 [RECONCILE] Skipped in dry-run (no venue state to compare against)");
+      return null;
+    }
+
+    this.reconciling = true;
+    const report = createReconciliationReport(this.venue.name);
+    try {
+      // 1. Entry orders the state has live
+      for (const order of Array.from(this.orders.values())) {
+        if (!isLiveOrderState(order.status) || !order.orderId) continue;
+        report.checked.orders++;
+        const d = await checkOrder(this.venue, { ref: order.id, marketSlug: order.marketSlug, venueOrderId: order.orderId, filled: order.filledShares }, "ORDER");
+        if (!d) continue;
+        if (d.venueOrder) d.repaired = await this.repairEntryOrder(order, d.venueOrder);
+        report.discrepancies.push(d);
+      }
+
+      // 2. Resting cumulative TP orders
+      for (const tp of Array.from(this.cumulativeTPs.values())) {
+        if (!tp.tpOrderId || (tp.status !== "WATCHING" && tp.status !== "PARTIAL")) continue;
+        report.checked.tpOrders++;
+        const tracked = this.orderMachine.getByVenueId(tp.tpOrderId);
+        const d = await checkOrder(this.venue, { ref: tp.shockId, marketSlug: tp.marketSlug, venueOrderId: tp.tpOrderId, filled: tracked?.filled ?? 0 }, "TP");
+        if (!d) continue;
+        if (d.venueOrder && tracked) d.repaired = await this.repairTPOrder(tp, tracked.key, d.venueOrder);
+        report.discrepancies.push(d);
+      }
+
+      // 3. Unknown open orders and token balances — after the repairs above moved inventory
+      const knownOrderIds = new Set<string>();
+      for (const tracked of this.orderMachine.getAll()) if (tracked.venueOrderId) knownOrderIds.add(tracked.venueOrderId);
+      for (const order of this.orders.values()) if (order.orderId) knownOrderIds.add(order.orderId);
+      for (const tp of this.cumulativeTPs.values()) if (tp.tpOrderId) knownOrderIds.add(tp.tpOrderId);
+
+      for (const inv of Array.from(this.inventory.values())) {
+        if (!inv.conditionId) continue;
+        report.checked.markets++;
+        report.discrepancies.push(...await findUntrackedOrders(this.venue, inv.marketSlug, inv.conditionId, knownOrderIds));
+        for (const token of this.reconcileTokens(inv)) {
+          const d = await checkTokenBalance(this.venue, inv.marketSlug, token);
+          if (!d) continue;
+          if (d.kind === "BALANCE_DRIFT") d.repaired = this.repairInventory(inv, token, d.actual!);
+          report.discrepancies.push(d);
+        }
+      }
+    } finally {
+      this.reconciling = false;
+    }
+
+    const unresolved = unresolvedDiscrepancies(report);
+    report.blocking = unresolved.length > 0;
+    this.reconciliation = report;
+    writeReconciliationReport(reconciliationReportPath(this.statePath), report);
+    for (const line of formatReconciliationReport(report)) this.log(`🔎 [RECONCILE] ${line}`);
+
+    if (report.blocking) {
+      this.reconciliationHaltReason = `reconciliation ${report.id}: ${unresolved.length} unsafe discrepancies awaiting operator`;
+      this.halted = true;
+      this.haltReason = this.reconciliationHaltReason;
+      this.log(`🛑 ${this.haltReason} — HALTING`);
+      this.alert("CRITICAL", "Trading halted", this.haltReason, "halt", { reportId: report.id });
+      this.reconciliationTimer = setInterval(() => this.checkReconciliationConfirmed(), 5000);
+    } else {
+      // Refills skipped while reconciling
+      for (const slug of Array.from(this.inventory.keys())) await this.checkAndRefill(slug);
+    }
+    this.saveState();
+    return report;
+  }
+
+  /**
+   * Operator sign-off on the blocking report (same as
+   * `npm run reconcile -- --confirm <id>`). Returns false for a stale id.
+   */
+  confirmReconciliation(reportId: string, operator: string): boolean {
+    const report = this.reconciliation;
+    if (!report || report.id !== reportId) return false;
+    if (report.confirmedAt === null) {
+      report.confirmedAt = Date.now();
+      report.confirmedBy = operator;
+      writeReconciliationReport(reconciliationReportPath(this.statePath), report);
+    }
+    this.releaseReconciliationHold();
+    return true;
+  }
+
+  /** Pick up a confirmation written to the report file by the reconcile CLI */
+  private checkReconciliationConfirmed(): void {
+    const onDisk = readReconciliationReport(reconciliationReportPath(this.statePath));
+    if (!this.reconciliation || !onDisk || onDisk.id !== this.reconciliation.id || onDisk.confirmedAt === null) return;
+    this.reconciliation.confirmedAt = onDisk.confirmedAt;
+    this.reconciliation.confirmedBy = onDisk.confirmedBy;
+    this.releaseReconciliationHold();
+  }
+
+  private releaseReconciliationHold(): void {
+    if (this.reconciliationTimer) {
+      clearInterval(this.reconciliationTimer);
+      this.reconciliationTimer = null;
+    }
+    if (!this.reconciliationHaltReason) return;
+    // A circuit breaker that tripped since keeps its halt
+    if (this.haltReason === this.reconciliationHaltReason) {
+      this.halted = false;
+      this.haltReason = null;
+      this.log(`✅ [RECONCILE] ${this.reconciliation?.id} confirmed by ${this.reconciliation?.confirmedBy} — trading resumed`);
+    }
+    this.reconciliationHaltReason = null;
+  }
+
+  /** Book fills the venue matched while we were down, then apply its cancel. */
+  private async repairEntryOrder(order: LiveLadderOrder, venueOrder: VenueOrder): Promise<boolean> {
+    const newShares = venueOrder.sizeMatched - order.filledShares;
+    if (newShares > 1e-9) {
+      const fill = this.orderMachine.fill(order.id, `recon:${venueOrder.orderId}:${venueOrder.sizeMatched}`, newShares, venueOrder.avgFillPrice ?? order.price);
+      if (!fill) return false;
+      this.log(`🔎 [RECONCILE] L${order.level} ${order.id}: ${fill.size}sh filled while offline @ ${(fill.price * 100).toFixed(1)}¢ [${order.marketSlug}]`);
+      await this.applyEntryFill(order, fill);
+    }
+    if (venueOrder.status === "CANCELED" && this.orderMachine.cancel(order.id, "cancelled while offline")) {
+      this.syncOrder(order);
+      this.stats.totalOrdersCancelled++;
+      this.log(`🔎 [RECONCILE] L${order.level} ${order.id}: cancelled while offline [${order.marketSlug}]`);
+      this.returnUnfilledShares(order, "RECONCILE");
+      this.emit("orderCancelled", order);
+    }
+    return true;
+  }
+
+  /** Book TP fills the venue matched while we were down; drop a cancelled TP order. */
+  private async repairTPOrder(tp: CumulativeTP, key: string, venueOrder: VenueOrder): Promise<boolean> {
+    const tracked = this.orderMachine.get(key);
+    if (!tracked) return false;
+
+    const newShares = venueOrder.sizeMatched - tracked.filled;
+    if (newShares > 1e-9) {
+      const fill = this.orderMachine.fill(key, `recon:${venueOrder.orderId}:${venueOrder.sizeMatched}`, newShares, venueOrder.avgFillPrice ?? venueOrder.price);
+      if (!fill) return false;
+      this.log(`🔎 [RECONCILE] TP ${tp.marketSlug}: ${fill.size}sh filled while offline @ ${(fill.price * 100).toFixed(1)}¢`);
+      if (fill.order.state === "FILLED" || fill.size >= tp.tpShares) {
+        await this.completeCumulativeTP(tp);
+      } else {
+        this.partialFillCumulativeTP(tp, fill.size, fill.price);
+      }
+    }
+    if (venueOrder.status === "CANCELED" && this.cumulativeTPs.has(tp.shockId) && this.orderMachine.cancel(key, "cancelled while offline")) {
+      tp.tpOrderId = null;
+      this.log(`🔎 [RECONCILE] TP ${tp.marketSlug}: order cancelled while offline — TP no longer on book`);
+    }
+    return true;
+  }
+
+  /** A market's tokens with what our orders and positions say the wallet must hold */
+  private reconcileTokens(inv: MarketInventory): ReconcileToken[] {
+    return [
+      { tokenId: inv.tokenA, inventory: inv.sharesA },
+      { tokenId: inv.tokenB, inventory: inv.sharesB },
+    ].map(({ tokenId, inventory }) => ({
+      tokenId,
+      inventory,
+      reserved: Array.from(this.orders.values())
+        .filter(o => o.tokenId === tokenId && isLiveOrderState(o.status))
+        .reduce((sum, o) => sum + o.shares - o.filledShares, 0),
+      held: Array.from(this.positions.values())
+        .filter(p => p.heldTokenId === tokenId && p.status === "OPEN")
+        .reduce((sum, p) => sum + p.heldShares, 0),
+    }));
+  }
+
+  /** Adopt the wallet balance: inventory is what isn't reserved by resting orders */
+  private repairInventory(inv: MarketInventory, token: ReconcileToken, balance: number): boolean {
+    const shares = Math.max(0, balance - token.reserved);
+    const side = token.tokenId === inv.tokenA ? "tokenA" : "tokenB";
+    this.log(`  📦 [RECONCILE] Inventory ${side} ${token.inventory} → ${shares} (wallet ${balance}, reserved ${token.reserved}) [${inv.marketSlug}]`);
+    if (token.tokenId === inv.tokenA) inv.sharesA = shares;
+    else inv.sharesB = shares;
+    return true;
+  }
+
   // ============================================================================
   // LOGGING
   // ============================================================================
 
+  /** Raise an operator alert (no-op without an alerter); `key` is the dedupe key */
+  private alert(severity: AlertSeverity, title: string, message: string, key: string, context?: Record<string, unknown>): void {
+    this.alerter?.raise({ severity, title, message, source: "ShockFadeLive", key: `ShockFadeLive:${key}`, context });
+  }
+
   private log(message: string): void {
     const ts = new Date().toISOString();
     console.log(`${ts} [INFO] 🔴 [ShockFadeLive] ${message}`);
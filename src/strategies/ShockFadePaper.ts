@@ -16,6 +16,12 @@
  *
  * Net effect: always selling the overpriced side, closing by selling the other
  * side when it becomes overpriced (the fade). Never placing buy orders.
+ *
+ * FILLS: resting ladder orders are filled by a pluggable FillModel
+ * (backtest/FillModel.ts) driven by last_trade_price prints. The default
+ * QueueFillModel tracks our queue position and can partially fill an order;
+ * TouchFillModel keeps the historical "fill on any trade at/above our price"
+ * behaviour.
  */
 
 import { EventEmitter } from "events";
@@ -32,6 +38,13 @@ import {
   ShockFadeConfig,
   DEFAULT_SHOCK_FADE_CONFIG,
 } from "./ShockFadeDetector";
+import { ShockModelName } from "./ShockModels";
+import {
+  FillModel,
+  QueueFillModel,
+  SimulatedFill,
+  levelsFromOrderBook,
+} from "../backtest/FillModel";
 
 // ============================================================================
 // TYPES
@@ -39,7 +52,7 @@ import {
 
 export type OrderSide = "SELL"; // Always sell in split-and-sell model
 export type OrderStatus = "PENDING" | "FILLED" | "CANCELLED" | "EXPIRED";
-export type PositionStatus = "OPEN" | "TAKE_PROFIT" | "STOP_LOSS" | "HEDGED" | "CLOSED";
+export type PositionStatus = "OPEN" | "TAKE_PROFIT" | "STOP_LOSS" | "HEDGED" | "EVENT_EXIT" | "CLOSED";
 
 /** Which leg of the trade this order represents */
 export type OrderLeg = "ENTRY" | "EXIT";
@@ -115,6 +128,7 @@ export interface TradeRecord {
   exitTime: number;
   shockMagnitude: number;
   shockZScore: number;
+  shockModels?: ShockModelName[]; // detector models that fired (A/B attribution)
   fadeCapture: number; // cents captured on the fade
   holdTimeMs: number;
 }
@@ -194,6 +208,7 @@ export interface CycleRecord {
 export class ShockFadePaperTrader extends EventEmitter {
   private config: ShockFadeConfig;
   private ws: OrderBookWebSocket;
+  private fillModel: FillModel;
 
   // State
   private orders: Map<string, LadderOrder> = new Map();
@@ -201,8 +216,8 @@ export class ShockFadePaperTrader extends EventEmitter {
   private tradeHistory: TradeRecord[] = [];
   private stats: ShockFadePaperStats;
 
-  // Shock tracking
-  private processedShocks: Set<string> = new Set();
+  // Shock tracking (shockId → shock, for trade attribution)
+  private processedShocks: Map<string, ShockEvent> = new Map();
 
   // Token pair mapping: tokenId → TokenPair
   private tokenPairs: Map<string, TokenPair> = new Map();
@@ -231,9 +246,11 @@ export class ShockFadePaperTrader extends EventEmitter {
     ws: OrderBookWebSocket,
     config: Partial<ShockFadeConfig> = {},
     snapshotPath: string = "./data/shock-fade-state.json",
+    fillModel: FillModel = new QueueFillModel(),
   ) {
     super();
     this.ws = ws;
+    this.fillModel = fillModel;
     this.config = { ...DEFAULT_SHOCK_FADE_CONFIG, ...config };
     this.snapshotPath = snapshotPath;
 
@@ -275,8 +292,9 @@ export class ShockFadePaperTrader extends EventEmitter {
       this.handlePriceUpdate(event),
     );
 
-    // Listen for trades (more granular fill detection)
-    this.ws.on("trade", (event: TradeEvent) => this.handleTrade(event));
+    // Listen for prints (more granular fill detection). Not "trade": those are
+    // price_changes book sizes, and would walk the queue with resting orders.
+    this.ws.on("lastTrade", (event: TradeEvent) => this.handleTrade(event));
 
     // Load persisted state
     this.loadState();
@@ -461,7 +479,7 @@ export class ShockFadePaperTrader extends EventEmitter {
     // Dedup
     const shockId = `${shock.tokenId}_${shock.timestamp}`;
     if (this.processedShocks.has(shockId)) return;
-    this.processedShocks.add(shockId);
+    this.processedShocks.set(shockId, shock);
 
     this.stats.totalShocksDetected++;
 
@@ -494,11 +512,8 @@ export class ShockFadePaperTrader extends EventEmitter {
       // Cancel unfilled entry orders for this shock — return shares to dry powder
       for (const order of this.orders.values()) {
         if (order.shockId === shockId && order.status === "PENDING") {
-          order.status = "CANCELLED";
-          this.stats.totalOrdersCancelled++;
-          this.returnShares(order.marketSlug, order.tokenId, order.shares);
-          const complement = this.getComplementToken(order.tokenId);
-          if (complement) this.returnShares(order.marketSlug, complement, order.shares);
+          // A partially-filled order becomes a (smaller) position, hedged below
+          if (this.releaseOrder(order, "CANCELLED")) continue;
           this.log(`  ❌ Cancelled order ${order.id} (level ${order.level}) — shares returned`);
         }
       }
@@ -592,6 +607,10 @@ export class ShockFadePaperTrader extends EventEmitter {
       };
 
       this.orders.set(orderId, order);
+      this.fillModel.addOrder(
+        { id: orderId, tokenId: sellTokenId, price: limitPrice, shares },
+        levelsFromOrderBook(this.ws.getOrderBook(sellTokenId)).asks,
+      );
       this.stats.totalOrdersPlaced++;
 
       this.log(
@@ -623,14 +642,15 @@ export class ShockFadePaperTrader extends EventEmitter {
 
     this.latestPrices.set(tokenId, { bid, ask, mid });
 
-    // DON'T auto-fill on bid/ask updates - only on actual trades
-    // This is more realistic: orders fill when there's a transaction at that price
+    // Book changes only matter to the queue model (cancels ahead of us move
+    // us up). The touch model ignores them and fills on actual trades only.
+    const book = levelsFromOrderBook(this.ws.getOrderBook(tokenId));
+    this.applySimulatedFills(this.fillModel.onBook(tokenId, book.bids, book.asks));
   }
 
   private handleTrade(event: TradeEvent): void {
-    const { tokenId, tradePrice } = event;
-    // Only fill when there's an actual trade at our price level
-    this.checkOrderFillsAtPrice(tokenId, tradePrice);
+    const { tokenId, tradePrice, tradeSize, side } = event;
+    this.applySimulatedFills(this.fillModel.onTrade(tokenId, tradePrice, tradeSize, side));
     this.checkTakeProfitsAtPrice(tokenId, tradePrice);
   }
 
@@ -649,18 +669,51 @@ export class ShockFadePaperTrader extends EventEmitter {
     }
   }
 
-  private checkOrderFillsAtPrice(tokenId: string, tradePrice: number): void {
-    for (const order of this.orders.values()) {
-      if (order.tokenId !== tokenId || order.status !== "PENDING") continue;
-
-      // SELL fills when trade price >= our limit
-      if (tradePrice >= order.price) {
+  /** An order becomes a position once the fill model has filled all its shares. */
+  private applySimulatedFills(fills: SimulatedFill[]): void {
+    for (const fill of fills) {
+      const order = this.orders.get(fill.orderId);
+      if (!order || order.status !== "PENDING") continue;
+      if (this.fillModel.getFilledShares(order.id) >= order.shares - 1e-9) {
         this.fillOrder(order, order.price);
       }
     }
   }
 
-  private fillOrder(order: LadderOrder, fillPrice: number): void {
+  /**
+   * Take a PENDING order off the book (cancel or expiry) and return its unused
+   * shares to dry powder. If the fill model had partially filled it, the order
+   * is shrunk to the filled shares and booked as a fill instead; the opened
+   * position is returned so callers can exit it like any other.
+   */
+  private releaseOrder(order: LadderOrder, status: "CANCELLED" | "EXPIRED"): FadePosition | null {
+    const filled = this.fillModel.getFilledShares(order.id);
+    this.fillModel.removeOrder(order.id);
+    const complement = this.getComplementToken(order.tokenId);
+
+    if (filled > 1e-9 && filled < order.shares) {
+      const unfilled = order.shares - filled;
+      this.returnShares(order.marketSlug, order.tokenId, unfilled);
+      if (complement) this.returnShares(order.marketSlug, complement, unfilled);
+      this.log(
+        `◐ Partial fill: ${order.id} L${order.level} ${filled.toFixed(0)}/${order.shares.toFixed(0)} shares — ` +
+          `${unfilled.toFixed(0)} returned to dry powder`,
+      );
+      order.shares = filled;
+      order.size = filled;
+      order.splitCost = filled;
+      return this.fillOrder(order, order.price);
+    }
+
+    order.status = status;
+    if (status === "CANCELLED") this.stats.totalOrdersCancelled++;
+    else this.stats.totalOrdersExpired++;
+    this.returnShares(order.marketSlug, order.tokenId, order.shares);
+    if (complement) this.returnShares(order.marketSlug, complement, order.shares);
+    return null;
+  }
+
+  private fillOrder(order: LadderOrder, fillPrice: number): FadePosition | null {
     order.status = "FILLED";
     order.filledAt = Date.now();
     order.fillPrice = fillPrice;
@@ -676,7 +729,7 @@ export class ShockFadePaperTrader extends EventEmitter {
     const heldTokenId = this.getComplementToken(order.tokenId);
     if (!heldTokenId) {
       this.log(`⚠️ Can't find complement for ${order.tokenId} — position not created`);
-      return;
+      return null;
     }
 
     // Take-profit: sell the held token when its price reaches a target
@@ -724,6 +777,7 @@ export class ShockFadePaperTrader extends EventEmitter {
     );
 
     this.emit("positionOpened", position);
+    return position;
   }
 
   // ============================================================================
@@ -820,6 +874,7 @@ export class ShockFadePaperTrader extends EventEmitter {
     // Create trade record
     const fadeCapture = Math.abs(pnlPerShare) * 100; // in cents
     const holdTimeMs = (pos.exitTime || Date.now()) - pos.entryTime;
+    const shock = this.processedShocks.get(pos.shockId);
 
     const record: TradeRecord = {
       id: `trade_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
@@ -835,8 +890,9 @@ export class ShockFadePaperTrader extends EventEmitter {
       totalProceeds,
       entryTime: pos.entryTime,
       exitTime: pos.exitTime || Date.now(),
-      shockMagnitude: 0,
-      shockZScore: 0,
+      shockMagnitude: shock?.magnitude ?? 0,
+      shockZScore: shock?.zScore ?? 0,
+      shockModels: shock?.models,
       fadeCapture,
       holdTimeMs,
     };
@@ -901,22 +957,18 @@ export class ShockFadePaperTrader extends EventEmitter {
 
     // If no team info provided, exit all positions (fallback behavior)
     if (!scoringTeam || !marketOutcomes || !tokenIds) {
+      // Cancel first so partially-filled orders are exited with the rest
+      for (const order of this.orders.values()) {
+        if (order.marketSlug !== marketSlug || order.status !== "PENDING") continue;
+        if (!this.releaseOrder(order, "CANCELLED")) cancelledCount++;
+      }
+
       for (const pos of this.positions.values()) {
         if (pos.marketSlug !== marketSlug || pos.status !== "OPEN") continue;
         this.closePosition(pos, "EVENT_EXIT");
         closedCount++;
       }
 
-      for (const order of this.orders.values()) {
-        if (order.marketSlug !== marketSlug || order.status !== "PENDING") continue;
-        order.status = "CANCELLED";
-        this.stats.totalOrdersCancelled++;
-        this.returnShares(order.marketSlug, order.tokenId, order.shares);
-        const complement = this.getComplementToken(order.tokenId);
-        if (complement) this.returnShares(order.marketSlug, complement, order.shares);
-        cancelledCount++;
-      }
-
       if (closedCount > 0) {
         this.log(`🏟️ Event exit (no team info): ${marketSlug} — closed ${closedCount} positions`);
       }
@@ -969,12 +1021,13 @@ export class ShockFadePaperTrader extends EventEmitter {
     if (closedCount > 0) {
       for (const order of this.orders.values()) {
         if (order.marketSlug !== marketSlug || order.status !== "PENDING") continue;
-        order.status = "CANCELLED";
-        this.stats.totalOrdersCancelled++;
-        this.returnShares(order.marketSlug, order.tokenId, order.shares);
-        const complement = this.getComplementToken(order.tokenId);
-        if (complement) this.returnShares(order.marketSlug, complement, order.shares);
-        cancelledCount++;
+        const partial = this.releaseOrder(order, "CANCELLED");
+        if (partial) {
+          this.closePosition(partial, "EVENT_EXIT");
+          closedCount++;
+        } else {
+          cancelledCount++;
+        }
       }
     }
 
@@ -999,13 +1052,12 @@ export class ShockFadePaperTrader extends EventEmitter {
 
       const elapsed = now - order.createdAt;
       if (elapsed >= this.config.fadeWindowMs) {
-        order.status = "EXPIRED";
-        this.stats.totalOrdersExpired++;
-
-        // Return shares to dry powder (both sell token and held complement)
-        this.returnShares(order.marketSlug, order.tokenId, order.shares);
-        const complement = this.getComplementToken(order.tokenId);
-        if (complement) this.returnShares(order.marketSlug, complement, order.shares);
+        // Return shares to dry powder (both sell token and held complement);
+        // a partial fill keeps its filled shares as an open position
+        if (this.releaseOrder(order, "EXPIRED")) {
+          this.checkReplenish(order.marketSlug);
+          continue;
+        }
 
         this.log(
           `⏰ Order expired: ${order.id} L${order.level} @ ${(order.price * 100).toFixed(1)}¢ [${order.marketSlug}] — shares returned to dry powder`,
@@ -1027,6 +1079,28 @@ export class ShockFadePaperTrader extends EventEmitter {
         this.closePosition(pos, "CLOSED");
       }
     }
+
+    this.pruneProcessedShocks(now);
+  }
+
+  /**
+   * Forget shocks older than the fade window. A shock still referenced by a
+   * pending order or open position is kept for its trade record.
+   */
+  private pruneProcessedShocks(now: number): void {
+    const referenced = new Set<string>();
+    for (const order of this.orders.values()) {
+      if (order.status === "PENDING") referenced.add(order.shockId);
+    }
+    for (const pos of this.positions.values()) {
+      if (pos.status === "OPEN") referenced.add(pos.shockId);
+    }
+
+    for (const [shockId, shock] of this.processedShocks) {
+      if (now - shock.timestamp >= this.config.fadeWindowMs && !referenced.has(shockId)) {
+        this.processedShocks.delete(shockId);
+      }
+    }
   }
 
   // ============================================================================
@@ -1088,6 +1162,23 @@ export class ShockFadePaperTrader extends EventEmitter {
     return [...this.tradeHistory];
   }
 
+  /**
+   * Per-model trade results for A/B-ing shock detectors. A trade counts
+   * towards every model that fired on its shock.
+   */
+  getModelStats(): Record<string, { trades: number; wins: number; totalPnl: number }> {
+    const result: Record<string, { trades: number; wins: number; totalPnl: number }> = {};
+    for (const trade of this.tradeHistory) {
+      for (const model of trade.shockModels ?? ["zscore"]) {
+        const s = (result[model] ??= { trades: 0, wins: 0, totalPnl: 0 });
+        s.trades++;
+        if (trade.pnl > 0) s.wins++;
+        s.totalPnl += trade.pnl;
+      }
+    }
+    return result;
+  }
+
   getCumulativeTPs(): any[] {
     return []; // Paper trader doesn't use cumulative TPs
   }
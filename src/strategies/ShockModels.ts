@@ -0,0 +1,355 @@
+/**
+ * ShockModels - Pluggable shock detection models for ShockFadeDetector.
+ *
+ * Each registered token gets its own instance of every enabled model. The
+ * detector feeds every in-range mid-price tick (and every trade print) to all
+ * of them and fires a shock when ANY model signals; ShockEvent.models lists
+ * which ones did.
+ *
+ *   zscore  — rolling-window z-score of tick returns OR absolute move ≥ minAbsoluteMove
+ *             (the original detector logic, default)
+ *   ewma    — return vs EWMA (RiskMetrics-style) volatility estimate
+ *   mad     — robust z-score: (r − median) / (1.4826 × MAD) over the window
+ *   cusum   — two-sided CUSUM change-point on returns (catches staircase moves)
+ *   flow    — taker trade-flow imbalance over a short window, confirmed by price
+ */
+
+import { TradeEvent } from "../services/OrderBookWS";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ShockModelName = "zscore" | "ewma" | "mad" | "cusum" | "flow";
+
+export const SHOCK_MODEL_NAMES: ShockModelName[] = ["zscore", "ewma", "mad", "cusum", "flow"];
+
+export interface PriceTick {
+  mid: number;
+  timestamp: number;
+}
+
+export interface ShockSignal {
+  model: ShockModelName;
+  direction: "up" | "down";
+  /** Model-specific strength (σ for zscore/ewma/mad, S/h for cusum, imbalance for flow) */
+  score: number;
+  /** Price the model considers "before the shock" */
+  referencePrice: number;
+}
+
+export interface ShockModel {
+  readonly name: ShockModelName;
+  /**
+   * Called on every in-range tick with the pruned rolling window (latest tick
+   * last). Returns a signal if this tick completes a shock.
+   */
+  onPrice(window: PriceTick[]): ShockSignal | null;
+  /** Trade prints on the same token (only some models use them). */
+  onTrade?(trade: TradeEvent): void;
+}
+
+export interface ShockModelParams {
+  // zscore (shared with ShockFadeConfig)
+  sigmaThreshold: number;
+  minAbsoluteMove: number;
+  // ewma
+  ewmaLambda: number; // decay, default 0.94
+  ewmaThreshold: number; // σ, default 4
+  ewmaMinMove: number; // ignore sub-tick noise, default 0.01
+  ewmaWarmupTicks: number; // default 10
+  // mad
+  madThreshold: number; // robust σ, default 4
+  madFloor: number; // minimum MAD (prices move in 1¢ steps, MAD is often 0), default 0.005
+  madMinMove: number; // default 0.01
+  // cusum
+  cusumDrift: number; // k — slack per tick, default 0.005
+  cusumThreshold: number; // h — cumulative move that fires, default 0.04
+  // flow
+  flowWindowMs: number; // default 15000
+  flowImbalance: number; // |buy − sell| / (buy + sell), default 0.8
+  flowMinVolume: number; // shares, default 500
+  flowMinMove: number; // price confirmation, default 0.02
+}
+
+export const DEFAULT_SHOCK_MODEL_PARAMS: ShockModelParams = {
+  sigmaThreshold: 3.0,
+  minAbsoluteMove: 0.03,
+  ewmaLambda: 0.94,
+  ewmaThreshold: 4,
+  ewmaMinMove: 0.01,
+  ewmaWarmupTicks: 10,
+  madThreshold: 4,
+  madFloor: 0.005,
+  madMinMove: 0.01,
+  cusumDrift: 0.005,
+  cusumThreshold: 0.04,
+  flowWindowMs: 15000,
+  flowImbalance: 0.8,
+  flowMinVolume: 500,
+  flowMinMove: 0.02,
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function tickReturns(ticks: PriceTick[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < ticks.length; i++) {
+    returns.push(ticks[i].mid - ticks[i - 1].mid);
+  }
+  return returns;
+}
+
+export function meanStddev(values: number[]): { mean: number; stddev: number } {
+  if (values.length === 0) return { mean: 0, stddev: 0 };
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return { mean, stddev: Math.sqrt(variance) };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Rolling z-score of the latest tick return. Null until the window has
+ * 5 ticks (3+ returns), as the original detector required.
+ */
+export function rollingZScore(window: PriceTick[]): number | null {
+  if (window.length < 5) return null;
+  const returns = tickReturns(window);
+  if (returns.length < 3) return null;
+  const { mean, stddev } = meanStddev(returns);
+  const latest = returns[returns.length - 1];
+  return stddev > 0 ? (latest - mean) / stddev : 0;
+}
+
+function dir(move: number): "up" | "down" {
+  return move > 0 ? "up" : "down";
+}
+
+// ============================================================================
+// MODELS
+// ============================================================================
+
+/** Original detector: rolling z-score OR absolute cents move. */
+export class ZScoreModel implements ShockModel {
+  readonly name = "zscore" as const;
+  constructor(private p: ShockModelParams) {}
+
+  onPrice(window: PriceTick[]): ShockSignal | null {
+    const z = rollingZScore(window);
+    if (z === null) return null;
+
+    const prev = window[window.length - 2].mid;
+    const move = window[window.length - 1].mid - prev;
+    if (Math.abs(z) < this.p.sigmaThreshold && Math.abs(move) < this.p.minAbsoluteMove) return null;
+
+    return { model: this.name, direction: dir(move), score: Math.abs(z), referencePrice: prev };
+  }
+}
+
+/** Latest return measured against an exponentially-weighted volatility estimate. */
+export class EwmaVolModel implements ShockModel {
+  readonly name = "ewma" as const;
+  private variance: number | null = null;
+  private ticks = 0;
+  private lastMid: number | null = null;
+
+  constructor(private p: ShockModelParams) {}
+
+  onPrice(window: PriceTick[]): ShockSignal | null {
+    const mid = window[window.length - 1].mid;
+    const prev = this.lastMid;
+    this.lastMid = mid;
+    if (prev === null) return null;
+
+    const r = mid - prev;
+    const priorVar = this.variance;
+    this.variance = priorVar === null ? r * r : this.p.ewmaLambda * priorVar + (1 - this.p.ewmaLambda) * r * r;
+    this.ticks++;
+
+    if (priorVar === null || this.ticks <= this.p.ewmaWarmupTicks) return null;
+    if (Math.abs(r) < this.p.ewmaMinMove) return null;
+
+    // Floor σ at 0.1¢ so a flat history does not divide by zero
+    const score = Math.abs(r) / Math.max(Math.sqrt(priorVar), 0.001);
+    if (score < this.p.ewmaThreshold) return null;
+
+    return { model: this.name, direction: dir(r), score, referencePrice: prev };
+  }
+}
+
+/** Median/MAD z-score — a single past outlier does not inflate the threshold. */
+export class MadModel implements ShockModel {
+  readonly name = "mad" as const;
+  constructor(private p: ShockModelParams) {}
+
+  onPrice(window: PriceTick[]): ShockSignal | null {
+    if (window.length < 6) return null;
+    const returns = tickReturns(window);
+    const latest = returns[returns.length - 1];
+    if (Math.abs(latest) < this.p.madMinMove) return null;
+
+    const history = returns.slice(0, -1);
+    const med = median(history);
+    const mad = Math.max(median(history.map((r) => Math.abs(r - med))), this.p.madFloor);
+    const score = Math.abs(latest - med) / (1.4826 * mad);
+    if (score < this.p.madThreshold) return null;
+
+    return { model: this.name, direction: dir(latest), score, referencePrice: window[window.length - 2].mid };
+  }
+}
+
+/**
+ * Two-sided CUSUM on tick returns. Accumulates moves beyond the drift `k`
+ * and fires when the cumulative move reaches `h`, then resets.
+ */
+export class CusumModel implements ShockModel {
+  readonly name = "cusum" as const;
+  private sPos = 0;
+  private sNeg = 0;
+  private posStart: number | null = null;
+  private negStart: number | null = null;
+  private lastMid: number | null = null;
+
+  constructor(private p: ShockModelParams) {}
+
+  onPrice(window: PriceTick[]): ShockSignal | null {
+    const mid = window[window.length - 1].mid;
+    const prev = this.lastMid;
+    this.lastMid = mid;
+    if (prev === null) return null;
+
+    const r = mid - prev;
+    const k = this.p.cusumDrift;
+
+    if (this.sPos === 0 && r - k > 0) this.posStart = prev;
+    this.sPos = Math.max(0, this.sPos + r - k);
+    if (this.sPos === 0) this.posStart = null;
+
+    if (this.sNeg === 0 && -r - k > 0) this.negStart = prev;
+    this.sNeg = Math.max(0, this.sNeg - r - k);
+    if (this.sNeg === 0) this.negStart = null;
+
+    const h = this.p.cusumThreshold;
+    let signal: ShockSignal | null = null;
+    if (this.sPos >= h) {
+      signal = { model: this.name, direction: "up", score: this.sPos / h, referencePrice: this.posStart ?? prev };
+    } else if (this.sNeg >= h) {
+      signal = { model: this.name, direction: "down", score: this.sNeg / h, referencePrice: this.negStart ?? prev };
+    }
+
+    if (signal) {
+      this.sPos = this.sNeg = 0;
+      this.posStart = this.negStart = null;
+    }
+    return signal;
+  }
+}
+
+/**
+ * Taker flow imbalance: one-sided aggressive volume over flowWindowMs,
+ * confirmed by the price having moved the same way within the window.
+ */
+export class TradeFlowModel implements ShockModel {
+  readonly name = "flow" as const;
+  private trades: { ts: number; size: number; side: "buy" | "sell" }[] = [];
+
+  constructor(private p: ShockModelParams) {}
+
+  onTrade(trade: TradeEvent): void {
+    this.trades.push({ ts: trade.timestamp, size: trade.tradeSize, side: trade.side });
+  }
+
+  onPrice(window: PriceTick[]): ShockSignal | null {
+    const now = window[window.length - 1];
+    const cutoff = now.timestamp - this.p.flowWindowMs;
+    this.trades = this.trades.filter((t) => t.ts >= cutoff);
+
+    let buy = 0;
+    let sell = 0;
+    for (const t of this.trades) {
+      if (t.side === "buy") buy += t.size;
+      else sell += t.size;
+    }
+    const total = buy + sell;
+    if (total < this.p.flowMinVolume) return null;
+
+    const imbalance = (buy - sell) / total;
+    if (Math.abs(imbalance) < this.p.flowImbalance) return null;
+
+    const start = window.find((t) => t.timestamp >= cutoff) ?? window[0];
+    const move = now.mid - start.mid;
+    if (Math.abs(move) < this.p.flowMinMove || dir(move) !== dir(imbalance)) return null;
+
+    // Consume the flow so one burst fires once
+    this.trades = [];
+    return { model: this.name, direction: dir(move), score: Math.abs(imbalance), referencePrice: start.mid };
+  }
+}
+
+// ============================================================================
+// FACTORY / CONFIG
+// ============================================================================
+
+/**
+ * Build fresh model instances. `params` is shared by reference so hot config
+ * reloads reach existing instances.
+ */
+export function createShockModels(names: ShockModelName[], params: ShockModelParams): ShockModel[] {
+  return names.map((name) => {
+    switch (name) {
+      case "zscore":
+        return new ZScoreModel(params);
+      case "ewma":
+        return new EwmaVolModel(params);
+      case "mad":
+        return new MadModel(params);
+      case "cusum":
+        return new CusumModel(params);
+      case "flow":
+        return new TradeFlowModel(params);
+      default:
+        throw new Error(`Unknown shock model: ${name}`);
+    }
+  });
+}
+
+/** Parse "zscore,cusum" → ["zscore", "cusum"]; unknown names throw. */
+export function parseShockModels(value: string): ShockModelName[] {
+  const names = value
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+  for (const n of names) {
+    if (!SHOCK_MODEL_NAMES.includes(n as ShockModelName)) {
+      throw new Error(`Unknown shock model "${n}" (expected one of ${SHOCK_MODEL_NAMES.join(", ")})`);
+    }
+  }
+  return names as ShockModelName[];
+}
+
+/**
+ * Model selection from env: SHOCK_MODELS for the default list and
+ * SHOCK_MODELS_<SPORT> (e.g. SHOCK_MODELS_NHL=cusum,flow) per sport.
+ */
+export function shockModelsFromEnv(env: NodeJS.ProcessEnv = process.env): {
+  shockModels?: ShockModelName[];
+  shockModelsBySport?: Record<string, ShockModelName[]>;
+} {
+  const result: { shockModels?: ShockModelName[]; shockModelsBySport?: Record<string, ShockModelName[]> } = {};
+  if (env.SHOCK_MODELS) result.shockModels = parseShockModels(env.SHOCK_MODELS);
+
+  for (const [key, value] of Object.entries(env)) {
+    const m = key.match(/^SHOCK_MODELS_([A-Z0-9]+)$/);
+    if (!m || !value) continue;
+    result.shockModelsBySport = result.shockModelsBySport ?? {};
+    result.shockModelsBySport[m[1]] = parseShockModels(value);
+  }
+  return result;
+}
@@ -0,0 +1,518 @@
+/**
+ * MockClobServer — local stand-in for the Polymarket CLOB, for end-to-end runs.
+ *
+ * One HTTP server on one port serves:
+ *   - REST, the subset PolymarketClient / ClobClient call:
+ *       /time, /auth/api-key, /auth/derive-api-key, /tick-size, /neg-risk,
+ *       /fee-rate, /book, /price, /balance-allowance(/update), POST /order(s),
+ *       DELETE /order(s), /cancel-all, /cancel-market-orders, /data/orders,
+ *       /data/order/:id
+ *   - /ws/market — OrderBookWebSocket's subscribe protocol: book snapshots and
+ *     price_changes trade prints
+ *   - /ws/user   — UserChannelWS auth + "order" / "trade" messages for the
+ *     orders of the authenticated API key
+ *   - /rpc       — eth_chainId / net_version, so an ethers provider pointed at
+ *     RPC_URL can detect its network
+ *
+ * Point the bot at it with POLYMARKET_HOST=<url>, POLYMARKET_WS_HOST=<wsUrl>
+ * and RPC_URL=<url>/rpc. API keys are issued per signer address; L2 requests
+ * must carry an issued POLY_API_KEY (the HMAC is not verified). Balances and
+ * allowances are unlimited — on-chain split/merge is out of scope.
+ *
+ * Order books come from the engine's scripted liquidity: set them directly
+ * (server.engine.setBook / trade) or replay a MockScript with runScript().
+ */
+
+import express, { Request, Response, NextFunction } from "express";
+import { Server, createServer } from "http";
+import { AddressInfo } from "net";
+import { randomBytes } from "crypto";
+import WebSocket, { WebSocketServer } from "ws";
+import {
+  FillMessage,
+  MarketTrade,
+  MockMatchingEngine,
+  MockOrder,
+  MockOrderType,
+  MockSide,
+  OrderMessage,
+} from "./MockMatchingEngine";
+
+// ============================================================================
+// SCRIPTS
+// ============================================================================
+
+export interface MockScriptStep {
+  /** Offset from the start of the script (ms) */
+  atMs: number;
+  /** Replace a token's scripted book: [price, size] levels */
+  book?: { tokenId: string; bids: [number, number][]; asks: [number, number][] };
+  /** Scripted taker trade */
+  trade?: { tokenId: string; side: MockSide; price: number; size: number };
+}
+
+export interface MockScript {
+  markets: { conditionId: string; tokenIds: string[] }[];
+  steps: MockScriptStep[];
+}
+
+interface ApiCreds {
+  apiKey: string;
+  secret: string;
+  passphrase: string;
+}
+
+const END_CURSOR = "LTE=";
+const UNLIMITED_ALLOWANCE = "115792089237316195423570985008687907853269984665640564039457584007913129639935";
+const MOCK_BALANCE = String(1_000_000 * 1e6);
+
+/** Polymarket wire format for an open order */
+function orderJson(o: MockOrder): Record<string, unknown> {
+  return {
+    id: o.id,
+    status: o.status,
+    owner: o.owner,
+    maker_address: "",
+    market: o.market,
+    asset_id: o.assetId,
+    side: o.side,
+    original_size: String(o.originalSize),
+    size_matched: String(o.sizeMatched),
+    price: String(o.price),
+    associate_trades: [],
+    outcome: "",
+    created_at: Math.floor(o.createdAt / 1000),
+    expiration: "0",
+    order_type: o.orderType,
+  };
+}
+
+export class MockClobServer {
+  readonly engine: MockMatchingEngine;
+  private app: express.Application;
+  private server: Server;
+  private marketWss: WebSocketServer;
+  private userWss: WebSocketServer;
+  private port = 0;
+
+  private credsByAddress: Map<string, ApiCreds> = new Map();
+  private apiKeys: Set<string> = new Set();
+  private marketSubs: Map<WebSocket, Set<string>> = new Map();
+  private userSubs: Map<WebSocket, { apiKey: string; markets: Set<string> }> = new Map();
+  private scriptTimers: NodeJS.Timeout[] = [];
+
+  constructor(engine: MockMatchingEngine = new MockMatchingEngine()) {
+    this.engine = engine;
+    this.app = express();
+    this.app.use(express.json());
+    this.setupRoutes();
+
+    this.server = createServer(this.app);
+    this.marketWss = new WebSocketServer({ noServer: true });
+    this.userWss = new WebSocketServer({ noServer: true });
+    this.server.on("upgrade", (req, socket, head) => {
+      const pathname = (req.url || "").split("?")[0];
+      const wss = pathname === "/ws/market" ? this.marketWss : pathname === "/ws/user" ? this.userWss : null;
+      if (!wss) {
+        socket.destroy();
+        return;
+      }
+      wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws));
+    });
+    this.marketWss.on("connection", (ws: WebSocket) => this.onMarketConnection(ws));
+    this.userWss.on("connection", (ws: WebSocket) => this.onUserConnection(ws));
+
+    this.engine.on("book", (tokenId: string) => this.broadcastBook(tokenId));
+    this.engine.on("trade", (trade: MarketTrade) => this.broadcastTrade(trade));
+    this.engine.on("order", (msg: OrderMessage) => this.sendOrderMessage(msg));
+    this.engine.on("fill", (msg: FillMessage) => this.sendTradeMessage(msg));
+  }
+
+  // ============================================================================
+  // LIFECYCLE
+  // ============================================================================
+
+  /** Listen on 127.0.0.1 (port 0 = any free port) */
+  start(port: number = 0): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(port, "127.0.0.1", () => {
+        this.port = (this.server.address() as AddressInfo).port;
+        resolve();
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    for (const t of this.scriptTimers) clearTimeout(t);
+    this.scriptTimers = [];
+    for (const ws of [...this.marketWss.clients, ...this.userWss.clients]) ws.terminate();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /** REST base URL (POLYMARKET_HOST) */
+  get url(): string {
+    return `http://127.0.0.1:${this.port}`;
+  }
+
+  /** WebSocket base URL (POLYMARKET_WS_HOST) */
+  get wsUrl(): string {
+    return `ws://127.0.0.1:${this.port}`;
+  }
+
+  // ============================================================================
+  // SCRIPTS
+  // ============================================================================
+
+  /**
+   * Register the script's markets and play its steps on real timers.
+   * Resolves after the last step.
+   */
+  runScript(script: MockScript): Promise<void> {
+    for (const m of script.markets) this.engine.registerMarket(m.conditionId, m.tokenIds);
+    const steps = [...script.steps].sort((a, b) => a.atMs - b.atMs);
+    if (steps.length === 0) return Promise.resolve();
+
+    return new Promise((resolve) => {
+      steps.forEach((step, i) => {
+        this.scriptTimers.push(setTimeout(() => {
+          this.applyStep(step);
+          if (i === steps.length - 1) resolve();
+        }, step.atMs));
+      });
+    });
+  }
+
+  applyStep(step: MockScriptStep): void {
+    if (step.book) {
+      const toLevels = (levels: [number, number][]) => levels.map(([price, size]) => ({ price, size }));
+      this.engine.setBook(step.book.tokenId, toLevels(step.book.bids), toLevels(step.book.asks));
+    }
+    if (step.trade) {
+      this.engine.trade(step.trade.tokenId, step.trade.side, step.trade.price, step.trade.size);
+    }
+  }
+
+  // ============================================================================
+  // REST
+  // ============================================================================
+
+  private setupRoutes(): void {
+    const app = this.app;
+
+    app.get("/", (_req, res) => { res.send("OK"); });
+    app.get("/time", (_req, res) => { res.json(Math.floor(Date.now() / 1000)); });
+
+    // L1: API keys
+    app.post("/auth/api-key", (req, res) => { res.json(this.issueCreds(req)); });
+    app.get("/auth/derive-api-key", (req, res) => { res.json(this.issueCreds(req)); });
+
+    // Market metadata
+    app.get("/tick-size", (_req, res) => { res.json({ minimum_tick_size: 0.01 }); });
+    app.get("/neg-risk", (_req, res) => { res.json({ neg_risk: false }); });
+    app.get("/fee-rate", (_req, res) => { res.json({ base_fee: 0 }); });
+    app.get("/book", (req, res) => {
+      const tokenId = String(req.query.token_id || "");
+      if (!this.engine.hasToken(tokenId)) {
+        res.status(404).json({ error: "No orderbook exists for the requested token id" });
+        return;
+      }
+      res.json(this.bookMessage(tokenId));
+    });
+    app.get("/price", (req, res) => {
+      const tokenId = String(req.query.token_id || "");
+      if (!this.engine.hasToken(tokenId)) {
+        res.status(404).json({ error: "No orderbook exists for the requested token id" });
+        return;
+      }
+      const book = this.engine.getBook(tokenId);
+      // side=BUY → best ask (price to buy at), side=SELL → best bid
+      const levels = String(req.query.side).toUpperCase() === "BUY" ? book.asks : book.bids;
+      res.json({ price: String(levels.length ? levels[levels.length - 1].price : 0) });
+    });
+
+    // JSON-RPC stub for ethers network detection
+    app.post("/rpc", (req, res) => {
+      const results: Record<string, string> = { eth_chainId: "0x89", net_version: "137", eth_blockNumber: "0x1" };
+      const { id, method } = req.body || {};
+      if (method in results) res.json({ jsonrpc: "2.0", id, result: results[method] });
+      else res.json({ jsonrpc: "2.0", id, error: { code: -32601, message: `method ${method} not supported by mock` } });
+    });
+
+    // L2: everything below needs an issued API key
+    const l2 = (req: Request, res: Response, next: NextFunction) => {
+      const key = req.header("POLY_API_KEY");
+      if (!key || !this.apiKeys.has(key)) {
+        res.status(401).json({ error: "Unauthorized/Invalid api key" });
+        return;
+      }
+      next();
+    };
+
+    app.get("/balance-allowance", l2, (_req, res) => {
+      res.json({ balance: MOCK_BALANCE, allowance: UNLIMITED_ALLOWANCE });
+    });
+    app.get("/balance-allowance/update", l2, (_req, res) => { res.json(""); });
+
+    app.post("/order", l2, (req, res) => {
+      const result = this.postOrder(req.body, req.header("POLY_API_KEY")!);
+      if (!result.success) res.status(400).json({ error: result.errorMsg, ...result });
+      else res.json(result);
+    });
+    app.post("/orders", l2, (req, res) => {
+      const body = Array.isArray(req.body) ? req.body : [];
+      res.json(body.map((o) => this.postOrder(o, req.header("POLY_API_KEY")!)));
+    });
+
+    app.delete("/order", l2, (req, res) => {
+      res.json(this.cancelIds([req.body?.orderID], req.header("POLY_API_KEY")!));
+    });
+    app.delete("/orders", l2, (req, res) => {
+      res.json(this.cancelIds(Array.isArray(req.body) ? req.body : [], req.header("POLY_API_KEY")!));
+    });
+    app.delete("/cancel-all", l2, (req, res) => {
+      res.json({ canceled: this.engine.cancelWhere({ owner: req.header("POLY_API_KEY")! }), not_canceled: {} });
+    });
+    app.delete("/cancel-market-orders", l2, (req, res) => {
+      const canceled = this.engine.cancelWhere({
+        owner: req.header("POLY_API_KEY")!,
+        market: req.body?.market || undefined,
+        assetId: req.body?.asset_id || undefined,
+      });
+      res.json({ canceled, not_canceled: {} });
+    });
+
+    app.get("/data/orders", l2, (req, res) => {
+      const orders = this.engine.getOpenOrders({
+        owner: req.header("POLY_API_KEY")!,
+        market: req.query.market ? String(req.query.market) : undefined,
+        assetId: req.query.asset_id ? String(req.query.asset_id) : undefined,
+        id: req.query.id ? String(req.query.id) : undefined,
+      });
+      res.json({ limit: orders.length, count: orders.length, next_cursor: END_CURSOR, data: orders.map(orderJson) });
+    });
+    app.get("/data/order/:id", l2, (req, res) => {
+      const order = this.engine.getOrder(String(req.params.id));
+      if (!order || order.owner !== req.header("POLY_API_KEY")) {
+        res.json(null);
+        return;
+      }
+      res.json(orderJson(order));
+    });
+  }
+
+  private issueCreds(req: Request): ApiCreds {
+    const address = (req.header("POLY_ADDRESS") || "anonymous").toLowerCase();
+    let creds = this.credsByAddress.get(address);
+    if (!creds) {
+      creds = {
+        apiKey: `mock-${randomBytes(8).toString("hex")}`,
+        secret: randomBytes(32).toString("base64"),
+        passphrase: randomBytes(16).toString("hex"),
+      };
+      this.credsByAddress.set(address, creds);
+      this.apiKeys.add(creds.apiKey);
+    }
+    return creds;
+  }
+
+  /** Decode a signed order (makerAmount / takerAmount in 1e6 units) and match it */
+  private postOrder(body: any, apiKey: string) {
+    const order = body?.order || {};
+    const side: MockSide = order.side === "BUY" ? "BUY" : "SELL";
+    const makerAmount = Number(order.makerAmount || 0) / 1e6;
+    const takerAmount = Number(order.takerAmount || 0) / 1e6;
+    // SELL gives shares for USDC, BUY gives USDC for shares
+    const size = side === "SELL" ? makerAmount : takerAmount;
+    const price = size > 0 ? (side === "SELL" ? takerAmount : makerAmount) / size : 0;
+
+    return this.engine.placeOrder({
+      assetId: String(order.tokenId || ""),
+      side,
+      price,
+      size,
+      orderType: (String(body?.orderType || "GTC").toUpperCase() as MockOrderType),
+      owner: apiKey,
+    });
+  }
+
+  private cancelIds(ids: string[], apiKey: string): { canceled: string[]; not_canceled: Record<string, string> } {
+    const canceled: string[] = [];
+    const notCanceled: Record<string, string> = {};
+    for (const id of ids.filter(Boolean)) {
+      const order = this.engine.getOrder(id);
+      if (order && order.owner === apiKey && this.engine.cancel(id)) canceled.push(id);
+      else notCanceled[id] = order ? "order can't be found - already canceled or matched" : "order not found";
+    }
+    return { canceled, not_canceled: notCanceled };
+  }
+
+  // ============================================================================
+  // MARKET CHANNEL
+  // ============================================================================
+
+  private onMarketConnection(ws: WebSocket): void {
+    this.marketSubs.set(ws, new Set());
+    ws.on("close", () => this.marketSubs.delete(ws));
+    ws.on("message", (data: Buffer) => {
+      const text = data.toString();
+      if (text === "PING") {
+        ws.send("PONG");
+        return;
+      }
+      let msg: any;
+      try {
+        msg = JSON.parse(text);
+      } catch {
+        return;
+      }
+      const assets: string[] = Array.isArray(msg.assets_ids) ? msg.assets_ids : [];
+      const subs = this.marketSubs.get(ws)!;
+      if (msg.operation === "unsubscribe") {
+        for (const id of assets) subs.delete(id);
+        return;
+      }
+      for (const id of assets) {
+        subs.add(id);
+        if (this.engine.hasToken(id)) ws.send(JSON.stringify(this.bookMessage(id)));
+      }
+    });
+  }
+
+  private bookMessage(tokenId: string): Record<string, unknown> {
+    const book = this.engine.getBook(tokenId);
+    const wire = (levels: { price: number; size: number }[]) => levels.map((l) => ({ price: String(l.price), size: String(l.size) }));
+    return {
+      event_type: "book",
+      asset_id: tokenId,
+      market: book.market,
+      bids: wire(book.bids),
+      asks: wire(book.asks),
+      timestamp: String(Date.now()),
+      hash: "",
+      min_order_size: "5",
+      tick_size: "0.01",
+      neg_risk: false,
+    };
+  }
+
+  private broadcastBook(tokenId: string): void {
+    const payload = JSON.stringify(this.bookMessage(tokenId));
+    for (const [ws, subs] of this.marketSubs) {
+      if (subs.has(tokenId) && ws.readyState === WebSocket.OPEN) ws.send(payload);
+    }
+  }
+
+  /**
+   * Prints go out as price_changes ("trade" in OrderBookWebSocket) and as a
+   * last_trade_price message ("lastTrade"), like the real market channel.
+   */
+  private broadcastTrade(trade: MarketTrade): void {
+    const payloads = [
+      JSON.stringify({
+        event_type: "price_change",
+        market: trade.market,
+        price_changes: [{ asset_id: trade.assetId, price: String(trade.price), size: String(trade.size), side: trade.side }],
+        timestamp: String(trade.timestamp),
+      }),
+      JSON.stringify({
+        event_type: "last_trade_price",
+        asset_id: trade.assetId,
+        market: trade.market,
+        price: String(trade.price),
+        size: String(trade.size),
+        side: trade.side,
+        fee_rate_bps: "0",
+        timestamp: String(trade.timestamp),
+      }),
+    ];
+    for (const [ws, subs] of this.marketSubs) {
+      if (!subs.has(trade.assetId) || ws.readyState !== WebSocket.OPEN) continue;
+      for (const payload of payloads) ws.send(payload);
+    }
+  }
+
+  // ============================================================================
+  // USER CHANNEL
+  // ============================================================================
+
+  private onUserConnection(ws: WebSocket): void {
+    ws.on("close", () => this.userSubs.delete(ws));
+    ws.on("message", (data: Buffer) => {
+      const text = data.toString();
+      if (text === "PING") {
+        ws.send("PONG");
+        return;
+      }
+      let msg: any;
+      try {
+        msg = JSON.parse(text);
+      } catch {
+        return;
+      }
+
+      const sub = this.userSubs.get(ws);
+      if (!sub) {
+        // First message: { type: "user", auth: {...}, markets }
+        const apiKey = msg?.auth?.apiKey;
+        if (msg.type !== "user" || !apiKey || !this.apiKeys.has(apiKey)) {
+          ws.close(1008, "invalid auth");
+          return;
+        }
+        this.userSubs.set(ws, { apiKey, markets: new Set(msg.markets || []) });
+        return;
+      }
+
+      const markets: string[] = Array.isArray(msg.markets) ? msg.markets : [];
+      if (msg.operation === "subscribe") for (const m of markets) sub.markets.add(m);
+      if (msg.operation === "unsubscribe") for (const m of markets) sub.markets.delete(m);
+    });
+  }
+
+  /** Sockets of the order's owner subscribed to its market (no markets = all) */
+  private userSockets(order: MockOrder): WebSocket[] {
+    const sockets: WebSocket[] = [];
+    for (const [ws, sub] of this.userSubs) {
+      if (sub.apiKey !== order.owner || ws.readyState !== WebSocket.OPEN) continue;
+      if (sub.markets.size === 0 || sub.markets.has(order.market)) sockets.push(ws);
+    }
+    return sockets;
+  }
+
+  private sendOrderMessage({ type, order }: OrderMessage): void {
+    const payload = JSON.stringify({
+      event_type: "order",
+      id: order.id,
+      type,
+      owner: order.owner,
+      market: order.market,
+      asset_id: order.assetId,
+      side: order.side,
+      price: String(order.price),
+      original_size: String(order.originalSize),
+      size_matched: String(order.sizeMatched),
+      timestamp: String(Date.now()),
+    });
+    for (const ws of this.userSockets(order)) ws.send(payload);
+  }
+
+  private sendTradeMessage(fill: FillMessage): void {
+    const { order } = fill;
+    const counterparty = { order_id: fill.counterpartyId, matched_amount: String(fill.size), price: String(fill.price), asset_id: order.assetId };
+    const ours = { order_id: order.id, matched_amount: String(fill.size), price: String(fill.price), asset_id: order.assetId, owner: order.owner };
+    const payload = JSON.stringify({
+      event_type: "trade",
+      id: fill.tradeId,
+      market: order.market,
+      asset_id: order.assetId,
+      side: fill.takerSide,
+      price: String(fill.price),
+      size: String(fill.size),
+      status: "MATCHED",
+      taker_order_id: fill.role === "taker" ? order.id : fill.counterpartyId,
+      maker_orders: [fill.role === "maker" ? ours : counterparty],
+      timestamp: String(fill.timestamp),
+    });
+    for (const ws of this.userSockets(order)) ws.send(payload);
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * MockClobVenue — ExecutionVenue straight onto an in-process MockMatchingEngine.
+ *
+ * No HTTP or WebSocket hop: orders go into the engine under this venue's
+ * owner id, and the engine's fill / order events come back as UserChannelWS
+ * style `orderFill` / `orderUpdate`. Keeps a token + USDC ledger and the
+ * split / merge surface, so ShockFadeLive can run its LIVE path against
+ * scripted books in a unit test. Pair it with MockClobServer (same engine)
+ * when the strategy also needs a market-channel OrderBookWebSocket.
+ */
+
+import { EventEmitter } from "events";
+import { FillMessage, MockMatchingEngine, MockOrder, OrderMessage } from "./MockMatchingEngine";
+import {
+  ExecutionVenue,
+  VenueOrder,
+  VenueOrderRequest,
+  VenueOrderResult,
+} from "../../services/ExecutionVenue";
+import { OrderFillEvent, OrderUpdateEvent } from "../../services/UserChannelWS";
+import { SplitResult } from "../../services/SplitClient";
+import { MergeResult } from "../../services/MergeClient";
+import { CtfBatchItem, CtfBatchResult, sequentialCtfBatch } from "../../services/CtfBatchClient";
+
+function toVenueOrder(o: MockOrder): VenueOrder {
+  return {
+    orderId: o.id,
+    market: o.market,
+    tokenId: o.assetId,
+    side: o.side,
+    price: o.price,
+    originalSize: o.originalSize,
+    sizeMatched: o.sizeMatched,
+    status: o.status,
+  };
+}
+
+export class MockClobVenue extends EventEmitter implements ExecutionVenue {
+  readonly name = "mock-clob";
+  private usdc: number;
+  private balances: Map<string, number> = new Map();
+  private seq = 0;
+
+  constructor(
+    readonly engine: MockMatchingEngine,
+    readonly owner: string = "mock-venue",
+    startingUsdc: number = 10_000,
+  ) {
+    super();
+    this.usdc = startingUsdc;
+
+    engine.on("fill", (fill: FillMessage) => {
+      if (fill.order.owner !== this.owner) return;
+      this.settle(fill.order.assetId, fill.order.side, fill.size, fill.price);
+      this.emit("orderFill", {
+        orderId: fill.order.id,
+        price: fill.price,
+        size: fill.size,
+        status: "MATCHED",
+        tradeId: fill.tradeId,
+        market: fill.order.market,
+        assetId: fill.order.assetId,
+        side: fill.order.side,
+      } as OrderFillEvent);
+    });
+    engine.on("order", ({ type, order }: OrderMessage) => {
+      if (order.owner !== this.owner) return;
+      this.emit("orderUpdate", {
+        orderId: order.id,
+        type,
+        sizeMatched: order.sizeMatched,
+        originalSize: order.originalSize,
+        price: order.price,
+        market: order.market,
+        assetId: order.assetId,
+        side: order.side,
+      } as OrderUpdateEvent);
+    });
+  }
+
+  // ============================================================================
+  // EXECUTION VENUE
+  // ============================================================================
+
+  async placeLimit(req: VenueOrderRequest): Promise<VenueOrderResult> {
+    return this.place(req, "GTC");
+  }
+
+  async placeIoc(req: VenueOrderRequest): Promise<VenueOrderResult> {
+    return this.place(req, "FAK");
+  }
+
+  async cancel(orderId: string): Promise<{ success: boolean; error?: string }> {
+    const order = this.engine.getOrder(orderId);
+    if (!order || order.owner !== this.owner) return { success: false, error: "order not found" };
+    return this.engine.cancel(orderId) ? { success: true } : { success: false, error: `order already ${order.status.toLowerCase()}` };
+  }
+
+  async getOpenOrders(conditionId: string, tokenId?: string): Promise<VenueOrder[]> {
+    return this.engine.getOpenOrders({ market: conditionId, assetId: tokenId, owner: this.owner }).map(toVenueOrder);
+  }
+
+  async getOrder(orderId: string): Promise<VenueOrder | null> {
+    const order = this.engine.getOrder(orderId);
+    return order && order.owner === this.owner ? toVenueOrder(order) : null;
+  }
+
+  async getTokenBalance(tokenId: string): Promise<number> {
+    return this.balances.get(tokenId) ?? 0;
+  }
+
+  async getBalance(): Promise<number> {
+    return this.usdc;
+  }
+
+  // ============================================================================
+  // SPLIT / MERGE CLIENT SURFACE
+  // ============================================================================
+
+  async split(conditionId: string, amount: number, _negRisk: boolean = false): Promise<SplitResult> {
+    const tokens = this.tokensOf(conditionId);
+    if (tokens.length === 0) return { success: false, error: `unknown conditionId ${conditionId}` };
+    if (this.usdc < amount) return { success: false, error: "insufficient USDC" };
+
+    this.usdc -= amount;
+    for (const t of tokens) this.balances.set(t, (this.balances.get(t) ?? 0) + amount);
+    return { success: true, transactionHash: `0xmocksplit${++this.seq}`, amountSplit: amount };
+  }
+
+  async merge(conditionId: string, amount: number, _negRisk: boolean = false): Promise<MergeResult> {
+    const tokens = this.tokensOf(conditionId);
+    if (tokens.length === 0) return { success: false, error: `unknown conditionId ${conditionId}` };
+    const mergeable = Math.min(...tokens.map((t) => this.balances.get(t) ?? 0));
+    if (mergeable < amount) return { success: false, error: `only ${mergeable} mergeable` };
+
+    for (const t of tokens) this.balances.set(t, (this.balances.get(t) ?? 0) - amount);
+    this.usdc += amount;
+    return { success: true, transactionHash: `0xmockmerge${++this.seq}`, amountMerged: amount };
+  }
+
+  /** Batches settle market by market here — no Safe to pack them into */
+  async splitBatch(items: Array<Omit<CtfBatchItem, "op">>): Promise<CtfBatchResult> {
+    return sequentialCtfBatch(items.map((i) => ({ ...i, op: "SPLIT" as const })), (item) => this.split(item.conditionId, item.amount));
+  }
+
+  async mergeBatch(items: Array<Omit<CtfBatchItem, "op">>): Promise<CtfBatchResult> {
+    return sequentialCtfBatch(items.map((i) => ({ ...i, op: "MERGE" as const })), (item) => this.merge(item.conditionId, item.amount));
+  }
+
+  async ensureCTFApprovals(): Promise<{ success: boolean; alreadyApproved?: boolean }> {
+    return { success: true, alreadyApproved: true };
+  }
+
+  // ============================================================================
+  // INTERNAL
+  // ============================================================================
+
+  private place(req: VenueOrderRequest, orderType: "GTC" | "FAK"): VenueOrderResult {
+    if (req.side === "SELL" && this.availableShares(req.tokenId) < req.shares - 1e-9) {
+      return { success: false, filledShares: 0, error: "not enough balance / allowance" };
+    }
+    const res = this.engine.placeOrder({ assetId: req.tokenId, side: req.side, price: req.price, size: req.shares, orderType, owner: this.owner });
+    if (!res.success) return { success: false, filledShares: 0, error: res.errorMsg };
+
+    // makingAmount / takingAmount: SELL gives shares for USDC, BUY the reverse
+    const shares = parseFloat(req.side === "SELL" ? res.makingAmount : res.takingAmount);
+    const usdc = parseFloat(req.side === "SELL" ? res.takingAmount : res.makingAmount);
+    return {
+      success: true,
+      orderId: res.orderID,
+      filledShares: shares,
+      filledPrice: shares > 0 ? usdc / shares : undefined,
+    };
+  }
+
+  private settle(tokenId: string, side: "BUY" | "SELL", size: number, price: number): void {
+    const sign = side === "SELL" ? -1 : 1;
+    this.balances.set(tokenId, (this.balances.get(tokenId) ?? 0) + sign * size);
+    this.usdc -= sign * size * price;
+  }
+
+  /** Token balance not already committed to resting sells */
+  private availableShares(tokenId: string): number {
+    const reserved = this.engine
+      .getOpenOrders({ assetId: tokenId, owner: this.owner })
+      .filter((o) => o.side === "SELL")
+      .reduce((sum, o) => sum + o.originalSize - o.sizeMatched, 0);
+    return (this.balances.get(tokenId) ?? 0) - reserved;
+  }
+
+  private tokensOf(conditionId: string): string[] {
+    return this.engine.getMarketTokens(conditionId);
+  }
+}
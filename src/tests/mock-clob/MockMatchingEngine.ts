@@ -0,0 +1,402 @@
+/**
+ * MockMatchingEngine — minimal CLOB for the local mock exchange.
+ *
+ * Each token has a scripted book ("external" liquidity set by the test or the
+ * script) plus the orders our client posts. Our orders:
+ *   - cross the scripted book on arrival (FOK: all or nothing, FAK: fill what
+ *     is there, GTC: rest the remainder)
+ *   - rest with price priority; at an equal price they queue BEHIND the
+ *     scripted size at that price
+ *   - fill when a scripted taker trade reaches them, or when a new scripted
+ *     book crosses them (the crossing side is treated as a taker)
+ *
+ * Events (consumed by MockClobServer and tests):
+ *   - "book" (tokenId)             — scripted book or resting orders changed
+ *   - "trade" (MarketTrade)        — any print, for the market channel
+ *   - "order" (OrderMessage)       — PLACEMENT / UPDATE / CANCELLATION of our orders
+ *   - "fill" (FillMessage)         — one of our orders traded, for the user channel
+ */
+
+import { EventEmitter } from "events";
+
+export type MockSide = "BUY" | "SELL";
+export type MockOrderType = "GTC" | "GTD" | "FOK" | "FAK";
+
+export interface MockLevel {
+  price: number;
+  size: number;
+}
+
+export interface MockOrder {
+  id: string;
+  market: string; // conditionId
+  assetId: string; // tokenId
+  side: MockSide;
+  price: number;
+  originalSize: number;
+  sizeMatched: number;
+  orderType: MockOrderType;
+  owner: string;
+  status: "LIVE" | "MATCHED" | "CANCELED";
+  createdAt: number;
+}
+
+export interface PlaceOrderRequest {
+  assetId: string;
+  side: MockSide;
+  price: number;
+  size: number;
+  orderType: MockOrderType;
+  owner: string;
+}
+
+export interface PlaceOrderResult {
+  success: boolean;
+  errorMsg: string;
+  orderID: string;
+  status: "live" | "matched" | "unmatched" | "";
+  /** SELL: shares given; BUY: USDC given */
+  makingAmount: string;
+  /** SELL: USDC received; BUY: shares received */
+  takingAmount: string;
+}
+
+export interface MarketTrade {
+  assetId: string;
+  market: string;
+  price: number;
+  size: number;
+  /** Taker side */
+  side: MockSide;
+  timestamp: number;
+}
+
+export interface OrderMessage {
+  type: "PLACEMENT" | "UPDATE" | "CANCELLATION";
+  order: MockOrder;
+}
+
+export interface FillMessage {
+  tradeId: string;
+  order: MockOrder;
+  /** Our role in the trade */
+  role: "maker" | "taker";
+  price: number;
+  size: number;
+  /** Taker side of the trade */
+  takerSide: MockSide;
+  /** Id of the other side ("ext-…" for scripted liquidity) */
+  counterpartyId: string;
+  timestamp: number;
+}
+
+interface TokenBook {
+  market: string;
+  bids: MockLevel[]; // scripted, best (highest) first
+  asks: MockLevel[]; // scripted, best (lowest) first
+}
+
+const EPS = 1e-9;
+
+function roundSize(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Whole cents (the sports markets' 0.01 tick) */
+function roundPrice(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+export class MockMatchingEngine extends EventEmitter {
+  private books: Map<string, TokenBook> = new Map();
+  private orders: Map<string, MockOrder> = new Map();
+  private seq = 0;
+  private now: () => number;
+
+  constructor(now: () => number = Date.now) {
+    super();
+    this.now = now;
+  }
+
+  // ============================================================================
+  // MARKETS & SCRIPTED LIQUIDITY
+  // ============================================================================
+
+  registerMarket(conditionId: string, tokenIds: string[]): void {
+    for (const tokenId of tokenIds) {
+      if (!this.books.has(tokenId)) this.books.set(tokenId, { market: conditionId, bids: [], asks: [] });
+    }
+  }
+
+  hasToken(tokenId: string): boolean {
+    return this.books.has(tokenId);
+  }
+
+  marketOf(tokenId: string): string {
+    return this.books.get(tokenId)?.market ?? "";
+  }
+
+  getMarketTokens(conditionId: string): string[] {
+    return [...this.books.entries()].filter(([, b]) => b.market === conditionId).map(([tokenId]) => tokenId);
+  }
+
+  /**
+   * Replace a token's scripted book. Resting orders the new book crosses are
+   * filled as if the crossing liquidity had been a taker.
+   */
+  setBook(tokenId: string, bids: MockLevel[], asks: MockLevel[]): void {
+    const book = this.requireBook(tokenId);
+    book.bids = bids.filter((l) => l.size > 0).sort((a, b) => b.price - a.price).map((l) => ({ ...l }));
+    book.asks = asks.filter((l) => l.size > 0).sort((a, b) => a.price - b.price).map((l) => ({ ...l }));
+
+    // Crossing scripted liquidity takes our resting orders first
+    for (const level of book.bids) {
+      level.size = this.fillResting(tokenId, "BUY", level.price, level.size, true);
+    }
+    for (const level of book.asks) {
+      level.size = this.fillResting(tokenId, "SELL", level.price, level.size, true);
+    }
+    book.bids = book.bids.filter((l) => l.size > EPS);
+    book.asks = book.asks.filter((l) => l.size > EPS);
+    this.emit("book", tokenId);
+  }
+
+  /**
+   * A scripted taker trade. It lifts resting liquidity at or better than
+   * `price` in price-time order: scripted size queued ahead first, then ours.
+   */
+  trade(tokenId: string, side: MockSide, price: number, size: number): void {
+    const book = this.requireBook(tokenId);
+    const levels = side === "BUY" ? book.asks : book.bids;
+    let remaining = size;
+
+    // Walk price levels from best; at each price scripted size goes before our orders
+    const prices = new Set<number>(levels.filter((l) => this.crosses(side, price, l.price)).map((l) => l.price));
+    for (const o of this.restingOrders(tokenId, side === "BUY" ? "SELL" : "BUY")) {
+      if (this.crosses(side, price, o.price)) prices.add(o.price);
+    }
+    const sorted = [...prices].sort((a, b) => (side === "BUY" ? a - b : b - a));
+
+    for (const p of sorted) {
+      if (remaining <= EPS) break;
+      remaining = this.fillResting(tokenId, side, p, remaining, false, p);
+    }
+    book.bids = book.bids.filter((l) => l.size > EPS);
+    book.asks = book.asks.filter((l) => l.size > EPS);
+
+    const printed = roundSize(size - remaining);
+    if (printed > 0) {
+      this.emit("trade", { assetId: tokenId, market: book.market, price, size: printed, side, timestamp: this.now() } as MarketTrade);
+    }
+    this.emit("book", tokenId);
+  }
+
+  // ============================================================================
+  // OUR ORDERS
+  // ============================================================================
+
+  placeOrder(req: PlaceOrderRequest): PlaceOrderResult {
+    const book = this.books.get(req.assetId);
+    const fail = (errorMsg: string): PlaceOrderResult =>
+      ({ success: false, errorMsg, orderID: "", status: "", makingAmount: "0", takingAmount: "0" });
+
+    if (!book) return fail(`unknown token ${req.assetId}`);
+    if (!(req.price > 0 && req.price < 1)) return fail(`invalid price ${req.price}`);
+    if (!(req.size > 0)) return fail(`invalid size ${req.size}`);
+
+    const size = roundSize(req.size);
+    const price = roundPrice(req.price);
+    const opposite = req.side === "BUY" ? book.asks : book.bids;
+    const available = opposite.filter((l) => this.crosses(req.side, price, l.price)).reduce((s, l) => s + l.size, 0);
+    if (req.orderType === "FOK" && available + EPS < size) {
+      return fail("order couldn't be fully filled. FOK orders are fully filled or killed.");
+    }
+    if (req.orderType === "FAK" && available <= EPS) {
+      return fail("no orders found to match with FAK order. FAK orders are partially filled or killed if no match is found.");
+    }
+
+    const order: MockOrder = {
+      id: this.nextId("0x"),
+      market: book.market,
+      assetId: req.assetId,
+      side: req.side,
+      price,
+      originalSize: size,
+      sizeMatched: 0,
+      orderType: req.orderType,
+      owner: req.owner,
+      status: "LIVE",
+      createdAt: this.now(),
+    };
+    this.orders.set(order.id, order);
+    this.emit("order", { type: "PLACEMENT", order: { ...order } } as OrderMessage);
+
+    // Take scripted liquidity, best price first
+    let making = 0;
+    let taking = 0;
+    for (const level of opposite) {
+      if (order.originalSize - order.sizeMatched <= EPS || !this.crosses(req.side, price, level.price)) break;
+      const qty = roundSize(Math.min(level.size, order.originalSize - order.sizeMatched));
+      if (qty <= 0) continue;
+      level.size = roundSize(level.size - qty);
+      order.sizeMatched = roundSize(order.sizeMatched + qty);
+      making += req.side === "SELL" ? qty : qty * level.price;
+      taking += req.side === "SELL" ? qty * level.price : qty;
+      this.recordFill(order, "taker", level.price, qty, req.side, this.nextId("ext-"));
+      this.emit("trade", { assetId: order.assetId, market: order.market, price: level.price, size: qty, side: req.side, timestamp: this.now() } as MarketTrade);
+    }
+    if (req.side === "BUY") book.asks = book.asks.filter((l) => l.size > EPS);
+    else book.bids = book.bids.filter((l) => l.size > EPS);
+
+    const open = roundSize(order.originalSize - order.sizeMatched);
+    if (open <= EPS) {
+      order.status = "MATCHED";
+    } else if (req.orderType !== "GTC" && req.orderType !== "GTD") {
+      order.status = "CANCELED"; // FAK remainder is killed
+      this.emit("order", { type: "CANCELLATION", order: { ...order } } as OrderMessage);
+    }
+    this.emit("book", req.assetId);
+
+    return {
+      success: true,
+      errorMsg: "",
+      orderID: order.id,
+      status: order.sizeMatched > 0 && order.status !== "LIVE" ? "matched" : order.status === "LIVE" ? "live" : "unmatched",
+      makingAmount: String(roundSize(making)),
+      takingAmount: String(roundSize(taking)),
+    };
+  }
+
+  /** Cancel one order. Returns false if it is unknown or no longer live. */
+  cancel(orderId: string): boolean {
+    const order = this.orders.get(orderId);
+    if (!order || order.status !== "LIVE") return false;
+    order.status = "CANCELED";
+    this.emit("order", { type: "CANCELLATION", order: { ...order } } as OrderMessage);
+    this.emit("book", order.assetId);
+    return true;
+  }
+
+  /** Cancel every live order, optionally for one market and/or token. */
+  cancelWhere(filter: { market?: string; assetId?: string; owner?: string } = {}): string[] {
+    const ids = this.getOpenOrders(filter).map((o) => o.id);
+    for (const id of ids) this.cancel(id);
+    return ids;
+  }
+
+  getOrder(orderId: string): MockOrder | undefined {
+    const order = this.orders.get(orderId);
+    return order ? { ...order } : undefined;
+  }
+
+  getOpenOrders(filter: { market?: string; assetId?: string; owner?: string; id?: string } = {}): MockOrder[] {
+    return [...this.orders.values()]
+      .filter((o) => o.status === "LIVE")
+      .filter((o) => !filter.market || o.market === filter.market)
+      .filter((o) => !filter.assetId || o.assetId === filter.assetId)
+      .filter((o) => !filter.owner || o.owner === filter.owner)
+      .filter((o) => !filter.id || o.id === filter.id)
+      .map((o) => ({ ...o }));
+  }
+
+  /**
+   * Aggregated book (scripted + our resting orders), in the Polymarket wire
+   * order: bids ascending, asks descending — best price LAST.
+   */
+  getBook(tokenId: string): { market: string; bids: MockLevel[]; asks: MockLevel[] } {
+    const book = this.requireBook(tokenId);
+    const agg = (levels: MockLevel[], side: MockSide) => {
+      const byPrice = new Map<number, number>();
+      for (const l of levels) byPrice.set(l.price, (byPrice.get(l.price) ?? 0) + l.size);
+      for (const o of this.restingOrders(tokenId, side)) {
+        byPrice.set(o.price, (byPrice.get(o.price) ?? 0) + o.originalSize - o.sizeMatched);
+      }
+      return [...byPrice.entries()].map(([price, size]) => ({ price, size: roundSize(size) }));
+    };
+    return {
+      market: book.market,
+      bids: agg(book.bids, "BUY").sort((a, b) => a.price - b.price),
+      asks: agg(book.asks, "SELL").sort((a, b) => b.price - a.price),
+    };
+  }
+
+  // ============================================================================
+  // INTERNAL
+  // ============================================================================
+
+  private requireBook(tokenId: string): TokenBook {
+    const book = this.books.get(tokenId);
+    if (!book) throw new Error(`MockMatchingEngine: unknown token ${tokenId}`);
+    return book;
+  }
+
+  /** Would a `side` order at `limit` trade against liquidity at `price`? */
+  private crosses(side: MockSide, limit: number, price: number): boolean {
+    return side === "BUY" ? price <= limit + EPS : price >= limit - EPS;
+  }
+
+  private restingOrders(tokenId: string, side: MockSide): MockOrder[] {
+    return [...this.orders.values()]
+      .filter((o) => o.status === "LIVE" && o.assetId === tokenId && o.side === side)
+      .sort((a, b) => (side === "BUY" ? b.price - a.price : a.price - b.price) || a.createdAt - b.createdAt);
+  }
+
+  /**
+   * A taker on `takerSide` with `qty` meets our resting orders. With
+   * `crossingOnly`, only orders strictly through the taker's price are hit
+   * (a new scripted book level); otherwise only orders at exactly `atPrice`,
+   * after the scripted size at that price. Returns the taker's remainder.
+   */
+  private fillResting(tokenId: string, takerSide: MockSide, limit: number, qty: number, crossingOnly: boolean, atPrice?: number): number {
+    const book = this.requireBook(tokenId);
+    let remaining = qty;
+
+    if (!crossingOnly) {
+      // Scripted size at this price trades first
+      const levels = takerSide === "BUY" ? book.asks : book.bids;
+      const level = levels.find((l) => Math.abs(l.price - atPrice!) < EPS);
+      if (level) {
+        const take = Math.min(level.size, remaining);
+        level.size = roundSize(level.size - take);
+        remaining = roundSize(remaining - take);
+      }
+    }
+
+    for (const order of this.restingOrders(tokenId, takerSide === "BUY" ? "SELL" : "BUY")) {
+      if (remaining <= EPS) break;
+      const eligible = crossingOnly
+        ? (takerSide === "BUY" ? order.price < limit - EPS : order.price > limit + EPS) || Math.abs(order.price - limit) < EPS
+        : Math.abs(order.price - atPrice!) < EPS;
+      if (!eligible) continue;
+
+      const fill = roundSize(Math.min(remaining, order.originalSize - order.sizeMatched));
+      if (fill <= 0) continue;
+      order.sizeMatched = roundSize(order.sizeMatched + fill);
+      remaining = roundSize(remaining - fill);
+      if (order.originalSize - order.sizeMatched <= EPS) order.status = "MATCHED";
+      this.recordFill(order, "maker", order.price, fill, takerSide, this.nextId("ext-"));
+      // Scripted trades print once, in trade()
+      if (crossingOnly) this.emit("trade", { assetId: tokenId, market: order.market, price: order.price, size: fill, side: takerSide, timestamp: this.now() } as MarketTrade);
+    }
+    return remaining;
+  }
+
+  private recordFill(order: MockOrder, role: "maker" | "taker", price: number, size: number, takerSide: MockSide, counterpartyId: string): void {
+    this.emit("fill", {
+      tradeId: this.nextId("trade-"),
+      order: { ...order },
+      role,
+      price,
+      size,
+      takerSide,
+      counterpartyId,
+      timestamp: this.now(),
+    } as FillMessage);
+    if (role === "maker") this.emit("order", { type: "UPDATE", order: { ...order } } as OrderMessage);
+  }
+
+  private nextId(prefix: string): string {
+    this.seq++;
+    return prefix === "0x" ? `0x${this.seq.toString(16).padStart(64, "0")}` : `${prefix}${this.seq}`;
+  }
+}
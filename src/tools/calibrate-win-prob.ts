@@ -0,0 +1,57 @@
+/**
+ * calibrate-win-prob.ts — Fit the in-game win-probability model (σ per sport)
+ * to a recorder DB and optionally write it into sss_sport_params.json.
+ *
+ * CLI args:
+ *   --db PATH     Recorder SQLite DB (default: $NHL_SHOCK_DB or ./data/nhl_shock.db)
+ *   --write       Store the fitted σ in each sport's win_prob block
+ *
+ * Usage:
+ *   npm run winprob:calibrate -- --db ./data/nhl_shock.db --write
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { fitWinProbParams, loadCalibrationSamples } from "../backtest/WinProbCalibration";
+import { loadWinProbParams } from "../services/WinProbabilityModel";
+
+const CONFIG_PATH = path.join(__dirname, "..", "config", "sss_sport_params.json");
+
+const args = process.argv.slice(2);
+let dbPath = process.env.NHL_SHOCK_DB || "./data/nhl_shock.db";
+const write = args.includes("--write");
+const dbIdx = args.indexOf("--db");
+if (dbIdx >= 0 && dbIdx + 1 < args.length) dbPath = args[dbIdx + 1];
+
+if (!fs.existsSync(dbPath)) {
+  console.error(`❌ Recorder DB not found: ${dbPath}`);
+  process.exit(1);
+}
+
+console.log(`\n📈 Win-probability calibration — ${dbPath}\n${"═".repeat(60)}\n`);
+
+const current = loadWinProbParams();
+const samplesBySport = loadCalibrationSamples(dbPath);
+if (samplesBySport.size === 0) {
+  console.log("⚠️  No markets with both snapshots and game_events — nothing to fit.");
+  process.exit(0);
+}
+
+const config = JSON.parse(fs.readFileSync(CONFIG_PATH, "utf-8"));
+for (const [sport, samples] of samplesBySport) {
+  const result = fitWinProbParams(sport, samples, current[sport]);
+  console.log(
+    `${sport.padEnd(4)} ${String(result.games).padStart(3)} games  ${String(result.samples).padStart(6)} samples  ` +
+    `σ ${current[sport].sigma} → ${result.params.sigma}  ` +
+    `RMSE ${(result.baselineRmse * 100).toFixed(2)}¢ → ${(result.rmse * 100).toFixed(2)}¢`,
+  );
+
+  if (write && config.sports?.[sport]) {
+    config.sports[sport].win_prob = { ...(config.sports[sport].win_prob || {}), sigma: result.params.sigma };
+  }
+}
+
+if (write) {
+  fs.writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 2));
+  console.log(`\n✅ Wrote σ to ${CONFIG_PATH}`);
+}
@@ -0,0 +1,59 @@
+/**
+ * mock-clob-server.ts — Run the local mock CLOB (REST + market/user channels)
+ * and optionally replay a scripted order-book session against it.
+ *
+ * CLI args:
+ *   --port N        Listen port (default: 9400)
+ *   --script PATH   MockScript JSON to replay (see src/tests/mock-clob/scripts/)
+ *
+ * Usage:
+ *   npm run mock:clob -- --script src/tests/mock-clob/scripts/shock-example.json
+ *   # then, in another shell, export the printed env and start the runner
+ */
+
+import * as fs from "fs";
+import { MockClobServer, MockScript } from "../tests/mock-clob/MockClobServer";
+
+const args = process.argv.slice(2);
+let port = 9400;
+let scriptPath: string | null = null;
+const portIdx = args.indexOf("--port");
+if (portIdx >= 0 && portIdx + 1 < args.length) port = parseInt(args[portIdx + 1], 10);
+const scriptIdx = args.indexOf("--script");
+if (scriptIdx >= 0 && scriptIdx + 1 < args.length) scriptPath = args[scriptIdx + 1];
+
+async function main(): Promise<void> {
+  const server = new MockClobServer();
+  await server.start(port);
+
+  console.log(`\n🧪 Mock CLOB listening on ${server.url}\n${"═".repeat(60)}`);
+  console.log(`  POLYMARKET_HOST=${server.url}`);
+  console.log(`  POLYMARKET_WS_HOST=${server.wsUrl}`);
+  console.log(`  RPC_URL=${server.url}/rpc\n`);
+
+  server.engine.on("order", ({ type, order }) => {
+    console.log(`📝 ${type} ${order.side} ${order.originalSize}@${order.price} [${order.id.slice(0, 10)}…] matched=${order.sizeMatched}`);
+  });
+  server.engine.on("fill", (fill) => {
+    console.log(`💰 FILL ${fill.order.side} ${fill.size}@${fill.price} (${fill.role}) [${fill.order.id.slice(0, 10)}…]`);
+  });
+
+  if (scriptPath) {
+    const script: MockScript = JSON.parse(fs.readFileSync(scriptPath, "utf-8"));
+    console.log(`▶️  Replaying ${scriptPath} (${script.steps.length} steps, ${script.markets.length} markets)`);
+    await server.runScript(script);
+    console.log("⏹️  Script finished — server stays up until Ctrl+C");
+  }
+
+  const shutdown = async () => {
+    await server.stop();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((err) => {
+  console.error("❌ Mock CLOB failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,64 @@
+/**
+ * test-pinnacle-odds.ts — Smoke test for PinnacleOddsClient against The Odds API.
+ *
+ * Lists Pinnacle moneylines + de-vigged fair values for each sport and prints
+ * credit usage. Costs 1 credit per sport (the /sports call is free).
+ *
+ * Usage:
+ *   npm run pinnacle:test               # NBA, NFL, NHL
+ *   npm run pinnacle:test -- NHL
+ *
+ * Env: THE_ODDS_API_KEY (required), PINNACLE_BASE_URL (optional, e.g. a fixture server)
+ */
+
+import dotenv from "dotenv";
+dotenv.config();
+
+import { PinnacleOddsClient, SPORT_KEYS, SupportedSport } from "../services/PinnacleOddsClient";
+
+async function main() {
+  const client = new PinnacleOddsClient(
+    process.env.PINNACLE_BASE_URL ? { baseUrl: process.env.PINNACLE_BASE_URL } : {},
+  );
+  if (!client.isConfigured()) {
+    console.error("❌ THE_ODDS_API_KEY not set — see docs/PINNACLE_INTEGRATION.md");
+    process.exit(1);
+  }
+
+  const requested = process.argv.slice(2).map((s) => s.toUpperCase());
+  const sports = (requested.length > 0 ? requested : Object.keys(SPORT_KEYS)) as SupportedSport[];
+
+  const available = await client.getSports();
+  const activeKeys = new Set(available.filter((s) => s.active).map((s) => s.key));
+  console.log(`✅ API key OK — ${available.length} sports listed (${activeKeys.size} active)\n`);
+
+  for (const sport of sports) {
+    if (!SPORT_KEYS[sport]) {
+      console.log(`⚠️ ${sport}: unsupported`);
+      continue;
+    }
+    if (!activeKeys.has(SPORT_KEYS[sport])) {
+      console.log(`⏸️ ${sport}: out of season`);
+      continue;
+    }
+
+    const games = await client.getMoneylineOdds(sport);
+    console.log(`🏟️ ${sport}: ${games.length} games with Pinnacle lines`);
+    for (const g of games) {
+      console.log(
+        `  ${g.awayTeam} @ ${g.homeTeam} (${g.commenceTime.toISOString()})\n` +
+          `    odds ${g.awayPrice.toFixed(3)} / ${g.homePrice.toFixed(3)} | ` +
+          `fair ${(g.awayFair * 100).toFixed(1)}¢ / ${(g.homeFair * 100).toFixed(1)}¢ | vig ${(g.vig * 100).toFixed(2)}%`,
+      );
+    }
+    console.log("");
+  }
+
+  const credits = client.getCreditUsage();
+  console.log(`💳 Credits: used ${credits.used ?? "?"}, remaining ${credits.remaining ?? "?"} (this run: ${credits.sessionUsed})`);
+}
+
+main().catch((err) => {
+  console.error("❌", err.message);
+  process.exit(1);
+});